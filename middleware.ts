@@ -85,6 +85,16 @@ const ROUTE_PERMISSIONS: Array<{
     pattern: /^\/api\/classrooms/,
     middleware: adminOrCoordinatorMiddleware
   },
+  {
+    pattern: /^\/api\/academic-calendar/,
+    middleware: adminOrCoordinatorMiddleware,
+    methods: ['POST', 'PUT', 'DELETE']
+  },
+  {
+    pattern: /^\/api\/class-sessions/,
+    middleware: adminOrCoordinatorMiddleware,
+    methods: ['POST', 'PATCH']
+  },
 
   // Schedule routes with ownership checks
   {
@@ -162,6 +172,30 @@ const PUBLIC_ROUTES = [
   /^\/api\/auth\//,
   /^\/api\/health$/,
   /^\/api\/status$/,
+  /^\/api\/calendar\/feed\//,
+]
+
+// Actions an admin viewing as another user may not take on their behalf
+const IMPERSONATION_BLOCKED_ROUTES: Array<{ pattern: RegExp; methods: string[] }> = [
+  { pattern: /^\/api\/profile\/change-password$/, methods: ['POST', 'PUT'] },
+  { pattern: /^\/api\/profile\/two-factor/, methods: ['POST', 'DELETE'] },
+  { pattern: /^\/api\/claims$/, methods: ['POST'] },
+  { pattern: /^\/api\/claims\/[^/]+$/, methods: ['PATCH'] },
+  { pattern: /^\/api\/attendance\/(take|record|sync|check-out|qr-token|verify|verify-sync)$/, methods: ['POST'] },
+  { pattern: /^\/api\/schedules\/[^/]+\/attendance$/, methods: ['POST'] },
+  { pattern: /^\/api\/admin\/impersonate$/, methods: ['POST'] },
+]
+
+// All a user who must change their password can reach until they do
+const PASSWORD_CHANGE_ROUTES = [
+  /^\/api\/profile\/change-password$/,
+  /^\/auth\//,
+]
+
+// All a user whose role requires two-factor authentication can reach until they set it up
+const TWO_FACTOR_SETUP_ROUTES = [
+  /^\/api\/profile\/two-factor/,
+  /^\/auth\//,
 ]
 
 // Routes that only require authentication (no specific permissions)
@@ -171,13 +205,52 @@ const AUTH_ONLY_ROUTES = [
 ]
 
 export async function middleware(request: NextRequest) {
-  const { pathname, method } = request.nextUrl
+  const { pathname } = request.nextUrl
+  // The method is on the request; nextUrl has none
+  const { method } = request
 
   // Skip middleware for public routes
   if (PUBLIC_ROUTES.some(pattern => pattern.test(pathname))) {
     return NextResponse.next()
   }
 
+  // Accounts created with a password the user did not choose must change it first,
+  // and roles that require two-factor authentication must set it up
+  const checkPasswordChange = !PASSWORD_CHANGE_ROUTES.some(pattern => pattern.test(pathname))
+  const checkTwoFactorSetup = !TWO_FACTOR_SETUP_ROUTES.some(pattern => pattern.test(pathname))
+  if (checkPasswordChange || checkTwoFactorSetup) {
+    const token = await getToken({ req: request })
+    if (checkPasswordChange && token?.mustChangePassword) {
+      if (pathname.startsWith('/api/')) {
+        return NextResponse.json(
+          { error: 'Password change required' },
+          { status: 403 }
+        )
+      }
+      return NextResponse.redirect(new URL('/auth/change-password', request.url))
+    }
+    // The password comes first, so this only applies once it has been changed
+    if (checkTwoFactorSetup && token?.twoFactorSetupRequired && !token.mustChangePassword) {
+      if (pathname.startsWith('/api/')) {
+        return NextResponse.json(
+          { error: 'Two-factor authentication setup required' },
+          { status: 403 }
+        )
+      }
+      return NextResponse.redirect(new URL('/auth/two-factor-setup', request.url))
+    }
+  }
+
+  if (IMPERSONATION_BLOCKED_ROUTES.some(route => route.pattern.test(pathname) && route.methods.includes(method))) {
+    const token = await getToken({ req: request })
+    if (token?.impersonatorId) {
+      return NextResponse.json(
+        { error: 'Not available while viewing as another user' },
+        { status: 403 }
+      )
+    }
+  }
+
   // Check if user is authenticated for auth-only routes
   if (AUTH_ONLY_ROUTES.some(pattern => pattern.test(pathname))) {
     const token = await getToken({ req: request })
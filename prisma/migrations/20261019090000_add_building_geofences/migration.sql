@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "buildings" ADD COLUMN     "geofence_radius" INTEGER,
+ADD COLUMN     "geofence_polygon" TEXT;
+
+-- AlterTable
+ALTER TABLE "attendance_records" ADD COLUMN     "geofence_type" TEXT,
+ADD COLUMN     "geofence_id" TEXT,
+ADD COLUMN     "location_distance" INTEGER;
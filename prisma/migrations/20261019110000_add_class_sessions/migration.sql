@@ -0,0 +1,95 @@
+-- CreateTable
+CREATE TABLE "class_sessions" (
+    "id" TEXT NOT NULL,
+    "course_schedule_id" TEXT NOT NULL,
+    "session_date" TIMESTAMP(3) NOT NULL,
+    "start_time" TEXT NOT NULL,
+    "end_time" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'scheduled',
+    "status_reason" TEXT,
+    "status_changed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "class_sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "attendance_records" ADD COLUMN "class_session_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "supervisor_logs" ADD COLUMN "class_session_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "verification_requests" ADD COLUMN "class_session_id" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "class_sessions_course_schedule_id_session_date_key" ON "class_sessions"("course_schedule_id", "session_date");
+
+-- CreateIndex
+CREATE INDEX "class_sessions_session_date_status_idx" ON "class_sessions"("session_date", "status");
+
+-- AddForeignKey
+ALTER TABLE "class_sessions" ADD CONSTRAINT "class_sessions_course_schedule_id_fkey" FOREIGN KEY ("course_schedule_id") REFERENCES "course_schedules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_records" ADD CONSTRAINT "attendance_records_class_session_id_fkey" FOREIGN KEY ("class_session_id") REFERENCES "class_sessions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "supervisor_logs" ADD CONSTRAINT "supervisor_logs_class_session_id_fkey" FOREIGN KEY ("class_session_id") REFERENCES "class_sessions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "verification_requests" ADD CONSTRAINT "verification_requests_class_session_id_fkey" FOREIGN KEY ("class_session_id") REFERENCES "class_sessions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill sessions for past occurrences that already have attendance or supervisor activity
+INSERT INTO "class_sessions" ("id", "course_schedule_id", "session_date", "start_time", "end_time", "status", "status_changed_at", "updated_at")
+SELECT
+    'cs_' || md5(occurrences."course_schedule_id" || occurrences."session_date"::text),
+    occurrences."course_schedule_id",
+    occurrences."session_date",
+    cs."start_time",
+    cs."end_time",
+    CASE
+        WHEN EXISTS (
+            SELECT 1 FROM "attendance_records" ar
+            WHERE ar."course_schedule_id" = occurrences."course_schedule_id"
+              AND date_trunc('day', ar."timestamp") = occurrences."session_date"
+        ) OR EXISTS (
+            SELECT 1 FROM "supervisor_logs" sl
+            WHERE sl."course_schedule_id" = occurrences."course_schedule_id"
+              AND date_trunc('day', sl."check_in_time") = occurrences."session_date"
+              AND sl."status" IN ('ongoing', 'online')
+        ) THEN 'held'
+        WHEN EXISTS (
+            SELECT 1 FROM "supervisor_logs" sl
+            WHERE sl."course_schedule_id" = occurrences."course_schedule_id"
+              AND date_trunc('day', sl."check_in_time") = occurrences."session_date"
+              AND sl."status" = 'cancelled'
+        ) THEN 'cancelled'
+        ELSE 'missed'
+    END,
+    CURRENT_TIMESTAMP,
+    CURRENT_TIMESTAMP
+FROM (
+    SELECT "course_schedule_id", date_trunc('day', "timestamp") AS "session_date" FROM "attendance_records"
+    UNION
+    SELECT "course_schedule_id", date_trunc('day', "check_in_time") AS "session_date" FROM "supervisor_logs"
+) occurrences
+JOIN "course_schedules" cs ON cs."id" = occurrences."course_schedule_id";
+
+UPDATE "attendance_records" ar
+SET "class_session_id" = s."id"
+FROM "class_sessions" s
+WHERE s."course_schedule_id" = ar."course_schedule_id"
+  AND s."session_date" = date_trunc('day', ar."timestamp");
+
+UPDATE "supervisor_logs" sl
+SET "class_session_id" = s."id"
+FROM "class_sessions" s
+WHERE s."course_schedule_id" = sl."course_schedule_id"
+  AND s."session_date" = date_trunc('day', sl."check_in_time");
+
+UPDATE "verification_requests" vr
+SET "class_session_id" = ar."class_session_id"
+FROM "attendance_records" ar
+WHERE ar."id" = vr."attendance_record_id";
@@ -0,0 +1,52 @@
+-- DropIndex
+DROP INDEX "class_sessions_course_schedule_id_session_date_key";
+
+-- AlterTable
+ALTER TABLE "class_sessions" ADD COLUMN "classroom_id" TEXT,
+ADD COLUMN "is_make_up" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "make_up_for_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "reschedule_requests" (
+    "id" TEXT NOT NULL,
+    "class_session_id" TEXT NOT NULL,
+    "lecturer_id" TEXT NOT NULL,
+    "proposed_date" TIMESTAMP(3) NOT NULL,
+    "proposed_start_time" TEXT NOT NULL,
+    "proposed_end_time" TEXT NOT NULL,
+    "proposed_classroom_id" TEXT,
+    "reason" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "reviewed_by" TEXT,
+    "reviewed_at" TIMESTAMP(3),
+    "review_comment" TEXT,
+    "make_up_session_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "reschedule_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "class_sessions_make_up_for_id_key" ON "class_sessions"("make_up_for_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "class_sessions_course_schedule_id_session_date_start_time_key" ON "class_sessions"("course_schedule_id", "session_date", "start_time");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "reschedule_requests_make_up_session_id_key" ON "reschedule_requests"("make_up_session_id");
+
+-- AddForeignKey
+ALTER TABLE "class_sessions" ADD CONSTRAINT "class_sessions_classroom_id_fkey" FOREIGN KEY ("classroom_id") REFERENCES "classrooms"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "class_sessions" ADD CONSTRAINT "class_sessions_make_up_for_id_fkey" FOREIGN KEY ("make_up_for_id") REFERENCES "class_sessions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reschedule_requests" ADD CONSTRAINT "reschedule_requests_class_session_id_fkey" FOREIGN KEY ("class_session_id") REFERENCES "class_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reschedule_requests" ADD CONSTRAINT "reschedule_requests_make_up_session_id_fkey" FOREIGN KEY ("make_up_session_id") REFERENCES "class_sessions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reschedule_requests" ADD CONSTRAINT "reschedule_requests_lecturer_id_fkey" FOREIGN KEY ("lecturer_id") REFERENCES "lecturers"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
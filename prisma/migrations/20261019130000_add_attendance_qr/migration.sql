@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "attendance_records" ADD COLUMN "qr_verified" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "qr_token_nonce" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "attendance_records_qr_token_nonce_key" ON "attendance_records"("qr_token_nonce");
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "attendance_records" ADD COLUMN "late_minutes" INTEGER,
+ADD COLUMN "early_leave_minutes" INTEGER,
+ADD COLUMN "check_out_latitude" DOUBLE PRECISION,
+ADD COLUMN "check_out_longitude" DOUBLE PRECISION,
+ADD COLUMN "check_out_location_verified" BOOLEAN;
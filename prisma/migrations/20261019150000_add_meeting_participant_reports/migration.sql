@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "meeting_participant_reports" (
+    "id" TEXT NOT NULL,
+    "platform" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "meeting_id" TEXT,
+    "meeting_start" TIMESTAMP(3),
+    "meeting_end" TIMESTAMP(3),
+    "status" TEXT NOT NULL,
+    "course_schedule_id" TEXT,
+    "virtual_session_id" TEXT,
+    "attendance_record_id" TEXT,
+    "participant_count" INTEGER NOT NULL DEFAULT 0,
+    "host_join_time" TIMESTAMP(3),
+    "host_leave_time" TIMESTAMP(3),
+    "engagement_score" DOUBLE PRECISION,
+    "file_name" TEXT,
+    "uploaded_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "meeting_participant_reports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "meeting_participant_reports_meeting_id_idx" ON "meeting_participant_reports"("meeting_id");
+
+-- AddForeignKey
+ALTER TABLE "meeting_participant_reports" ADD CONSTRAINT "meeting_participant_reports_course_schedule_id_fkey" FOREIGN KEY ("course_schedule_id") REFERENCES "course_schedules"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "meeting_participant_reports" ADD CONSTRAINT "meeting_participant_reports_virtual_session_id_fkey" FOREIGN KEY ("virtual_session_id") REFERENCES "virtual_sessions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "meeting_participant_reports" ADD CONSTRAINT "meeting_participant_reports_attendance_record_id_fkey" FOREIGN KEY ("attendance_record_id") REFERENCES "attendance_records"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "attendance_records" ADD COLUMN "rule_results" TEXT,
+ADD COLUMN "rules_passed" BOOLEAN,
+ADD COLUMN "rules_evaluated_at" TIMESTAMP(3);
@@ -0,0 +1,91 @@
+-- AlterTable
+ALTER TABLE "attendance_records" ADD COLUMN "locked_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "claim_rates" (
+    "id" TEXT NOT NULL,
+    "rank" TEXT NOT NULL,
+    "programme_level" TEXT NOT NULL,
+    "hourly_rate" DOUBLE PRECISION NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'GHS',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "claim_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "claim_periods" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "start_date" TIMESTAMP(3) NOT NULL,
+    "end_date" TIMESTAMP(3) NOT NULL,
+    "submission_deadline" TIMESTAMP(3),
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "created_by" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "claim_periods_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "lecturer_claims" (
+    "id" TEXT NOT NULL,
+    "claim_period_id" TEXT NOT NULL,
+    "lecturer_id" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'submitted',
+    "total_hours" DOUBLE PRECISION NOT NULL,
+    "total_amount" DOUBLE PRECISION NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'GHS',
+    "lecturer_comment" TEXT,
+    "submitted_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "hod_reviewed_by" TEXT,
+    "hod_reviewed_at" TIMESTAMP(3),
+    "hod_comment" TEXT,
+    "finance_reviewed_by" TEXT,
+    "finance_reviewed_at" TIMESTAMP(3),
+    "finance_comment" TEXT,
+    "payroll_exported_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "lecturer_claims_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "claim_lines" (
+    "id" TEXT NOT NULL,
+    "claim_id" TEXT NOT NULL,
+    "attendance_record_id" TEXT NOT NULL,
+    "course_code" TEXT NOT NULL,
+    "course_title" TEXT NOT NULL,
+    "programme_level" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "hours" DOUBLE PRECISION NOT NULL,
+    "hourly_rate" DOUBLE PRECISION NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT "claim_lines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "claim_rates_rank_programme_level_key" ON "claim_rates"("rank", "programme_level");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "lecturer_claims_claim_period_id_lecturer_id_key" ON "lecturer_claims"("claim_period_id", "lecturer_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "claim_lines_attendance_record_id_key" ON "claim_lines"("attendance_record_id");
+
+-- AddForeignKey
+ALTER TABLE "lecturer_claims" ADD CONSTRAINT "lecturer_claims_claim_period_id_fkey" FOREIGN KEY ("claim_period_id") REFERENCES "claim_periods"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "lecturer_claims" ADD CONSTRAINT "lecturer_claims_lecturer_id_fkey" FOREIGN KEY ("lecturer_id") REFERENCES "lecturers"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "claim_lines" ADD CONSTRAINT "claim_lines_claim_id_fkey" FOREIGN KEY ("claim_id") REFERENCES "lecturer_claims"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "claim_lines" ADD CONSTRAINT "claim_lines_attendance_record_id_fkey" FOREIGN KEY ("attendance_record_id") REFERENCES "attendance_records"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,50 @@
+-- AlterTable
+ALTER TABLE "verification_requests" ADD COLUMN "sla_due_at" TIMESTAMP(3),
+ADD COLUMN "sla_breached_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "verification_request_transitions" (
+    "id" TEXT NOT NULL,
+    "verification_request_id" TEXT NOT NULL,
+    "from_status" TEXT,
+    "to_status" TEXT NOT NULL,
+    "actor_id" TEXT,
+    "actor_role" TEXT NOT NULL,
+    "comment" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "verification_request_transitions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "verification_request_transitions_verification_request_id_idx" ON "verification_request_transitions"("verification_request_id");
+
+-- Drop links to attendance records that no longer exist so the foreign key holds
+UPDATE "verification_requests" vr
+SET "attendance_record_id" = NULL
+WHERE vr."attendance_record_id" IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM "attendance_records" ar WHERE ar."id" = vr."attendance_record_id");
+
+-- AddForeignKey
+ALTER TABLE "verification_requests" ADD CONSTRAINT "verification_requests_course_schedule_id_fkey" FOREIGN KEY ("course_schedule_id") REFERENCES "course_schedules"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "verification_requests" ADD CONSTRAINT "verification_requests_attendance_record_id_fkey" FOREIGN KEY ("attendance_record_id") REFERENCES "attendance_records"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "verification_request_transitions" ADD CONSTRAINT "verification_request_transitions_verification_request_id_fkey" FOREIGN KEY ("verification_request_id") REFERENCES "verification_requests"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Open requests get the default SLA for their priority, counted from submission
+UPDATE "verification_requests"
+SET "sla_due_at" = "created_at" + CASE "priority"
+        WHEN 'urgent' THEN INTERVAL '4 hours'
+        WHEN 'high' THEN INTERVAL '24 hours'
+        WHEN 'low' THEN INTERVAL '120 hours'
+        ELSE INTERVAL '72 hours'
+    END
+WHERE "status" IN ('pending', 'disputed', 'escalated');
+
+-- Start each existing request's history with its submission
+INSERT INTO "verification_request_transitions" ("id", "verification_request_id", "from_status", "to_status", "actor_id", "actor_role", "created_at")
+SELECT 'vrt_' || md5(vr."id"), vr."id", NULL, 'pending', vr."requester_id", 'REQUESTER', vr."created_at"
+FROM "verification_requests" vr;
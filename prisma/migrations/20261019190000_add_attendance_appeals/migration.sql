@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "attendance_appeals" (
+    "id" TEXT NOT NULL,
+    "attendance_record_id" TEXT NOT NULL,
+    "lecturer_id" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "evidence" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "original_comment" TEXT,
+    "decided_by" TEXT,
+    "decided_at" TIMESTAMP(3),
+    "decision_comment" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "attendance_appeals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "attendance_appeals_attendance_record_id_idx" ON "attendance_appeals"("attendance_record_id");
+
+-- AddForeignKey
+ALTER TABLE "attendance_appeals" ADD CONSTRAINT "attendance_appeals_attendance_record_id_fkey" FOREIGN KEY ("attendance_record_id") REFERENCES "attendance_records"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_appeals" ADD CONSTRAINT "attendance_appeals_lecturer_id_fkey" FOREIGN KEY ("lecturer_id") REFERENCES "lecturers"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
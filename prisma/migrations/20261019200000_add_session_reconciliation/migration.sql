@@ -0,0 +1,49 @@
+-- AlterTable
+ALTER TABLE "attendance_records" ADD COLUMN     "class_rep_comment" TEXT,
+ADD COLUMN     "class_rep_verified" BOOLEAN,
+ADD COLUMN     "class_rep_verified_at" TIMESTAMP(3),
+ADD COLUMN     "class_rep_verified_by" TEXT;
+
+-- Recover the class rep's account of earlier sessions from the audit trail
+UPDATE "attendance_records" ar
+SET "class_rep_verified" = (al."metadata"::json->>'verified')::boolean,
+    "class_rep_comment" = al."metadata"::json->>'comment',
+    "class_rep_verified_by" = al."user_id",
+    "class_rep_verified_at" = al."timestamp"
+FROM "audit_logs" al
+JOIN "users" u ON u."id" = al."user_id"
+WHERE al."action" IN ('ATTENDANCE_VERIFIED', 'ATTENDANCE_VERIFIED_SYNC')
+  AND al."target_type" = 'AttendanceRecord'
+  AND al."target_id" = ar."id"
+  AND u."role" = 'CLASS_REP';
+
+-- CreateTable
+CREATE TABLE "session_reconciliations" (
+    "id" TEXT NOT NULL,
+    "class_session_id" TEXT NOT NULL,
+    "verdict" TEXT NOT NULL,
+    "confidence" DOUBLE PRECISION NOT NULL,
+    "lecturer_signal" TEXT,
+    "supervisor_signal" TEXT,
+    "class_rep_signal" TEXT,
+    "contradictions" TEXT,
+    "review_status" TEXT NOT NULL DEFAULT 'none',
+    "resolved_verdict" TEXT,
+    "reviewed_by" TEXT,
+    "reviewed_at" TIMESTAMP(3),
+    "review_comment" TEXT,
+    "reconciled_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "session_reconciliations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "session_reconciliations_class_session_id_key" ON "session_reconciliations"("class_session_id");
+
+-- CreateIndex
+CREATE INDEX "session_reconciliations_review_status_idx" ON "session_reconciliations"("review_status");
+
+-- AddForeignKey
+ALTER TABLE "session_reconciliations" ADD CONSTRAINT "session_reconciliations_class_session_id_fkey" FOREIGN KEY ("class_session_id") REFERENCES "class_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
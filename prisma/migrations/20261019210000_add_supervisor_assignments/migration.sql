@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "classrooms" ADD COLUMN     "floor" INTEGER;
+
+-- CreateTable
+CREATE TABLE "supervisor_assignments" (
+    "id" TEXT NOT NULL,
+    "supervisor_id" TEXT NOT NULL,
+    "building_id" TEXT NOT NULL,
+    "floor" INTEGER,
+    "day_of_week" INTEGER,
+    "start_time" TEXT NOT NULL,
+    "end_time" TEXT NOT NULL,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "supervisor_assignments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "supervisor_assignments_supervisor_id_idx" ON "supervisor_assignments"("supervisor_id");
+
+-- CreateIndex
+CREATE INDEX "supervisor_assignments_building_id_idx" ON "supervisor_assignments"("building_id");
+
+-- AddForeignKey
+ALTER TABLE "supervisor_assignments" ADD CONSTRAINT "supervisor_assignments_supervisor_id_fkey" FOREIGN KEY ("supervisor_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "supervisor_assignments" ADD CONSTRAINT "supervisor_assignments_building_id_fkey" FOREIGN KEY ("building_id") REFERENCES "buildings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,73 @@
+-- CreateTable
+CREATE TABLE "lecturer_availability" (
+    "id" TEXT NOT NULL,
+    "lecturer_id" TEXT NOT NULL,
+    "day_of_week" INTEGER NOT NULL,
+    "start_time" TEXT NOT NULL,
+    "end_time" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "lecturer_availability_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "timetable_drafts" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "semester" TEXT,
+    "academic_year" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'draft',
+    "unplaced" TEXT,
+    "created_by" TEXT NOT NULL,
+    "published_by" TEXT,
+    "published_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "timetable_drafts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "timetable_draft_entries" (
+    "id" TEXT NOT NULL,
+    "draft_id" TEXT NOT NULL,
+    "course_id" TEXT NOT NULL,
+    "class_group_id" TEXT NOT NULL,
+    "lecturer_id" TEXT NOT NULL,
+    "day_of_week" INTEGER NOT NULL,
+    "start_time" TEXT NOT NULL,
+    "end_time" TEXT NOT NULL,
+    "classroom_id" TEXT,
+    "session_type" "SessionType" NOT NULL,
+    "is_adjusted" BOOLEAN NOT NULL DEFAULT false,
+    "course_schedule_id" TEXT,
+
+    CONSTRAINT "timetable_draft_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "lecturer_availability_lecturer_id_idx" ON "lecturer_availability"("lecturer_id");
+
+-- CreateIndex
+CREATE INDEX "timetable_drafts_status_idx" ON "timetable_drafts"("status");
+
+-- CreateIndex
+CREATE INDEX "timetable_draft_entries_draft_id_idx" ON "timetable_draft_entries"("draft_id");
+
+-- AddForeignKey
+ALTER TABLE "lecturer_availability" ADD CONSTRAINT "lecturer_availability_lecturer_id_fkey" FOREIGN KEY ("lecturer_id") REFERENCES "lecturers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "timetable_draft_entries" ADD CONSTRAINT "timetable_draft_entries_draft_id_fkey" FOREIGN KEY ("draft_id") REFERENCES "timetable_drafts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "timetable_draft_entries" ADD CONSTRAINT "timetable_draft_entries_course_id_fkey" FOREIGN KEY ("course_id") REFERENCES "courses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "timetable_draft_entries" ADD CONSTRAINT "timetable_draft_entries_class_group_id_fkey" FOREIGN KEY ("class_group_id") REFERENCES "class_groups"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "timetable_draft_entries" ADD CONSTRAINT "timetable_draft_entries_lecturer_id_fkey" FOREIGN KEY ("lecturer_id") REFERENCES "lecturers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "timetable_draft_entries" ADD CONSTRAINT "timetable_draft_entries_classroom_id_fkey" FOREIGN KEY ("classroom_id") REFERENCES "classrooms"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "audit_logs" ADD COLUMN "impersonator_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "audit_logs_impersonator_id_idx" ON "audit_logs"("impersonator_id");
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "saml_messages" (
+    "id" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "message_id" TEXT NOT NULL,
+    "value" TEXT,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "saml_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "saml_messages_kind_message_id_key" ON "saml_messages"("kind", "message_id");
+
+-- CreateIndex
+CREATE INDEX "saml_messages_expires_at_idx" ON "saml_messages"("expires_at");
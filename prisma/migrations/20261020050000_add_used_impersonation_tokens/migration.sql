@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE "used_impersonation_tokens" (
+    "id" TEXT NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "used_impersonation_tokens_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "used_impersonation_tokens_expires_at_idx" ON "used_impersonation_tokens"("expires_at");
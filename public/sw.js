@@ -62,6 +62,11 @@ self.addEventListener('fetch', (event) => {
     return;
   }
 
+  // Event streams never end, so they must not be cached
+  if (request.headers.get('accept') === 'text/event-stream') {
+    return;
+  }
+
   if (url.pathname.startsWith('/api/')) {
     event.respondWith(handleApiRequest(request));
     return;
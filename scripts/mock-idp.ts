@@ -0,0 +1,288 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http'
+import { createHash, generateKeyPairSync, randomBytes, randomUUID } from 'crypto'
+import { inflateRawSync } from 'zlib'
+import jwt from 'jsonwebtoken'
+import { signSamlPost } from '@node-saml/node-saml/lib/saml-post-signing'
+
+// Stand-in for the university identity provider: serves OpenID Connect and
+// SAML 2.0 sign-in for a few test people, so single sign-on can be tried
+// locally. Prints the environment variables to point the app at it.
+//   npx tsx scripts/mock-idp.ts [port]
+
+interface TestPerson {
+  email: string
+  given_name: string
+  family_name: string
+  role: string
+  department: string
+  employee_id: string
+}
+
+const PEOPLE: TestPerson[] = [
+  { email: 'ama.owusu@upsa.edu.gh', given_name: 'Ama', family_name: 'Owusu', role: 'faculty', department: 'Accounting', employee_id: 'UPSA-L-9001' },
+  { email: 'kwame.asante@upsa.edu.gh', given_name: 'Kwame', family_name: 'Asante', role: 'faculty', department: 'Marketing', employee_id: 'UPSA-L-9002' },
+  { email: 'efua.mensah@upsa.edu.gh', given_name: 'Efua', family_name: 'Mensah', role: 'staff', department: 'Registry', employee_id: 'UPSA-S-9003' }
+]
+
+const CLIENT_ID = 'attendance-local'
+const CLIENT_SECRET = 'attendance-local-secret'
+const KEY_ID = 'mock-idp-1'
+
+const port = Number(process.argv[2] || process.env.MOCK_IDP_PORT || 4000)
+const issuer = `http://localhost:${port}`
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 })
+const privateKeyPem = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString()
+const publicKeyPem = publicKey.export({ type: 'spki', format: 'pem' }).toString()
+
+interface PendingCode {
+  person: TestPerson
+  clientId: string
+  redirectUri: string
+  nonce?: string
+  codeChallenge?: string
+}
+
+const codes = new Map<string, PendingCode>()
+const accessTokens = new Map<string, TestPerson>()
+
+function send(res: ServerResponse, status: number, body: string, contentType: string = 'text/html; charset=utf-8') {
+  res.writeHead(status, { 'Content-Type': contentType })
+  res.end(body)
+}
+
+function sendJson(res: ServerResponse, status: number, body: object) {
+  send(res, status, JSON.stringify(body), 'application/json')
+}
+
+function redirect(res: ServerResponse, location: string) {
+  res.writeHead(302, { Location: location })
+  res.end()
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+async function readForm(req: IncomingMessage): Promise<URLSearchParams> {
+  const chunks: Buffer[] = []
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer)
+  }
+  return new URLSearchParams(Buffer.concat(chunks).toString())
+}
+
+// A page listing the test people; picking one repeats the request with ?person=
+function pickPersonPage(url: URL, heading: string): string {
+  const links = PEOPLE.map((person, index) => {
+    const next = new URL(url)
+    next.searchParams.set('person', String(index))
+    return `<li><a href="${escapeHtml(next.pathname + next.search)}">${person.given_name} ${person.family_name}</a>
+      <small>${person.email}, ${person.role}, ${person.department}</small></li>`
+  }).join('\n')
+  return `<!doctype html><title>Mock IdP</title><h1>${heading}</h1><p>Sign in as:</p><ul>${links}</ul>`
+}
+
+function openIdConfiguration() {
+  return {
+    issuer,
+    authorization_endpoint: `${issuer}/authorize`,
+    token_endpoint: `${issuer}/token`,
+    userinfo_endpoint: `${issuer}/userinfo`,
+    jwks_uri: `${issuer}/jwks`,
+    response_types_supported: ['code'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: ['RS256'],
+    scopes_supported: ['openid', 'email', 'profile'],
+    token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post'],
+    code_challenge_methods_supported: ['S256']
+  }
+}
+
+function handleAuthorize(url: URL, res: ServerResponse) {
+  const params = url.searchParams
+  const redirectUri = params.get('redirect_uri')
+
+  if (params.get('client_id') !== CLIENT_ID || !redirectUri) {
+    return send(res, 400, 'Unknown client or missing redirect_uri')
+  }
+
+  const person = PEOPLE[Number(params.get('person'))]
+  if (!person) {
+    return send(res, 200, pickPersonPage(url, 'OpenID Connect sign-in'))
+  }
+
+  const code = randomBytes(16).toString('hex')
+  codes.set(code, {
+    person,
+    clientId: CLIENT_ID,
+    redirectUri,
+    nonce: params.get('nonce') ?? undefined,
+    codeChallenge: params.get('code_challenge') ?? undefined
+  })
+
+  const back = new URL(redirectUri)
+  back.searchParams.set('code', code)
+  if (params.get('state')) {
+    back.searchParams.set('state', params.get('state')!)
+  }
+  redirect(res, back.toString())
+}
+
+async function handleToken(req: IncomingMessage, res: ServerResponse) {
+  const form = await readForm(req)
+  const basic = req.headers.authorization?.startsWith('Basic ')
+    ? Buffer.from(req.headers.authorization.slice(6), 'base64').toString().split(':').map(decodeURIComponent)
+    : []
+  const clientId = basic[0] ?? form.get('client_id')
+  const clientSecret = basic[1] ?? form.get('client_secret')
+
+  if (clientId !== CLIENT_ID || clientSecret !== CLIENT_SECRET) {
+    return sendJson(res, 401, { error: 'invalid_client' })
+  }
+
+  const pending = codes.get(form.get('code') ?? '')
+  codes.delete(form.get('code') ?? '')
+
+  if (!pending || pending.redirectUri !== form.get('redirect_uri')) {
+    return sendJson(res, 400, { error: 'invalid_grant' })
+  }
+
+  if (pending.codeChallenge) {
+    const verifier = form.get('code_verifier') ?? ''
+    if (createHash('sha256').update(verifier).digest('base64url') !== pending.codeChallenge) {
+      return sendJson(res, 400, { error: 'invalid_grant', error_description: 'PKCE verification failed' })
+    }
+  }
+
+  const accessToken = randomBytes(16).toString('hex')
+  accessTokens.set(accessToken, pending.person)
+
+  const idToken = jwt.sign(
+    { ...pending.person, email_verified: true, nonce: pending.nonce },
+    privateKeyPem,
+    { algorithm: 'RS256', keyid: KEY_ID, issuer, audience: CLIENT_ID, subject: pending.person.email, expiresIn: '5m' }
+  )
+
+  sendJson(res, 200, { access_token: accessToken, token_type: 'Bearer', expires_in: 300, id_token: idToken })
+}
+
+function handleUserInfo(req: IncomingMessage, res: ServerResponse) {
+  const person = accessTokens.get(req.headers.authorization?.replace(/^Bearer /, '') ?? '')
+  if (!person) {
+    return sendJson(res, 401, { error: 'invalid_token' })
+  }
+  sendJson(res, 200, { sub: person.email, ...person })
+}
+
+function samlAttribute(name: string, value: string): string {
+  return `<saml:Attribute Name="${name}"><saml:AttributeValue>${escapeHtml(value)}</saml:AttributeValue></saml:Attribute>`
+}
+
+function buildSamlResponse(person: TestPerson, acsUrl: string, audience: string, inResponseTo: string): string {
+  const now = new Date()
+  const later = new Date(now.getTime() + 5 * 60 * 1000).toISOString()
+  const earlier = new Date(now.getTime() - 60 * 1000).toISOString()
+  const assertionId = `_${randomUUID()}`
+
+  const response = `<samlp:Response xmlns:samlp="urn:oasis:names:tc:SAML:2.0:protocol" xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion" ID="_${randomUUID()}" Version="2.0" IssueInstant="${now.toISOString()}" Destination="${acsUrl}" InResponseTo="${inResponseTo}">`
+    + `<saml:Issuer>${issuer}/saml</saml:Issuer>`
+    + `<samlp:Status><samlp:StatusCode Value="urn:oasis:names:tc:SAML:2.0:status:Success"/></samlp:Status>`
+    + `<saml:Assertion ID="${assertionId}" Version="2.0" IssueInstant="${now.toISOString()}">`
+    + `<saml:Issuer>${issuer}/saml</saml:Issuer>`
+    + `<saml:Subject><saml:NameID Format="urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress">${person.email}</saml:NameID>`
+    + `<saml:SubjectConfirmation Method="urn:oasis:names:tc:SAML:2.0:cm:bearer"><saml:SubjectConfirmationData NotOnOrAfter="${later}" Recipient="${acsUrl}" InResponseTo="${inResponseTo}"/></saml:SubjectConfirmation></saml:Subject>`
+    + `<saml:Conditions NotBefore="${earlier}" NotOnOrAfter="${later}"><saml:AudienceRestriction><saml:Audience>${audience}</saml:Audience></saml:AudienceRestriction></saml:Conditions>`
+    + `<saml:AuthnStatement AuthnInstant="${now.toISOString()}" SessionIndex="${assertionId}"><saml:AuthnContext><saml:AuthnContextClassRef>urn:oasis:names:tc:SAML:2.0:ac:classes:PasswordProtectedTransport</saml:AuthnContextClassRef></saml:AuthnContext></saml:AuthnStatement>`
+    + `<saml:AttributeStatement>`
+    // Directory-style names, so the fallback attribute mapping is exercised
+    + samlAttribute('mail', person.email)
+    + samlAttribute('givenName', person.given_name)
+    + samlAttribute('sn', person.family_name)
+    + samlAttribute('eduPersonAffiliation', person.role)
+    + samlAttribute('ou', person.department)
+    + samlAttribute('employeeNumber', person.employee_id)
+    + `</saml:AttributeStatement></saml:Assertion></samlp:Response>`
+
+  return signSamlPost(
+    response,
+    '/*[local-name(.)="Response"]/*[local-name(.)="Assertion"]',
+    { privateKey: privateKeyPem, signatureAlgorithm: 'sha256', digestAlgorithm: 'sha256' }
+  )
+}
+
+function handleSaml(url: URL, res: ServerResponse) {
+  const samlRequest = url.searchParams.get('SAMLRequest')
+  if (!samlRequest) {
+    return send(res, 400, 'Missing SAMLRequest')
+  }
+
+  const request = inflateRawSync(Buffer.from(samlRequest, 'base64')).toString()
+  const requestId = request.match(/\sID="([^"]+)"/)?.[1] ?? ''
+  const acsUrl = request.match(/AssertionConsumerServiceURL="([^"]+)"/)?.[1]
+  const audience = request.match(/<(?:saml:)?Issuer[^>]*>([^<]+)</)?.[1]
+
+  if (!acsUrl || !audience) {
+    return send(res, 400, 'SAMLRequest has no AssertionConsumerServiceURL or Issuer')
+  }
+
+  const person = PEOPLE[Number(url.searchParams.get('person'))]
+  if (!person) {
+    return send(res, 200, pickPersonPage(url, 'SAML sign-in'))
+  }
+
+  const samlResponse = Buffer.from(buildSamlResponse(person, acsUrl, audience, requestId)).toString('base64')
+  const relayState = url.searchParams.get('RelayState') ?? ''
+
+  send(res, 200, `<!doctype html><title>Mock IdP</title>
+    <body onload="document.forms[0].submit()">
+      <form method="post" action="${escapeHtml(acsUrl)}">
+        <input type="hidden" name="SAMLResponse" value="${samlResponse}">
+        <input type="hidden" name="RelayState" value="${escapeHtml(relayState)}">
+        <noscript><button type="submit">Continue</button></noscript>
+      </form>
+    </body>`)
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url || '/', issuer)
+
+  try {
+    if (req.method === 'GET' && url.pathname === '/.well-known/openid-configuration') {
+      return sendJson(res, 200, openIdConfiguration())
+    }
+    if (req.method === 'GET' && url.pathname === '/jwks') {
+      return sendJson(res, 200, { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, use: 'sig', alg: 'RS256' }] })
+    }
+    if (req.method === 'GET' && url.pathname === '/authorize') {
+      return handleAuthorize(url, res)
+    }
+    if (req.method === 'POST' && url.pathname === '/token') {
+      return await handleToken(req, res)
+    }
+    if (url.pathname === '/userinfo') {
+      return handleUserInfo(req, res)
+    }
+    if (req.method === 'GET' && url.pathname === '/saml') {
+      return handleSaml(url, res)
+    }
+    send(res, 404, 'Not found')
+  } catch (error) {
+    console.error('❌ Mock IdP error:', error)
+    send(res, 500, 'Mock IdP error')
+  }
+})
+
+server.listen(port, () => {
+  console.log(`🔑 Mock identity provider listening on ${issuer}`)
+  console.log('\nAdd these to .env.local and restart the app:\n')
+  console.log(`SSO_OIDC_ISSUER=${issuer}`)
+  console.log(`SSO_OIDC_CLIENT_ID=${CLIENT_ID}`)
+  console.log(`SSO_OIDC_CLIENT_SECRET=${CLIENT_SECRET}`)
+  console.log('SSO_OIDC_NAME="Mock university (OIDC)"')
+  console.log(`SSO_SAML_ENTRY_POINT=${issuer}/saml`)
+  console.log('SSO_SAML_NAME="Mock university (SAML)"')
+  console.log(`SSO_SAML_IDP_CERT="${publicKeyPem.trim().replace(/\n/g, '\\n')}"`)
+  console.log('\nThe key changes on every start, so copy SSO_SAML_IDP_CERT again after a restart.')
+  console.log('Map the directory roles "faculty" and "staff" under Settings > Single Sign-On.')
+})
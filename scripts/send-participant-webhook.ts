@@ -0,0 +1,76 @@
+import { PrismaClient } from '@prisma/client'
+import { detectPlatform, extractMeetingId } from '../src/lib/participant-reports'
+
+const prisma = new PrismaClient()
+
+// Stand-in for a Zoom/Teams/Meet integration: posts a participant report for
+// today's occurrence of a virtual class to the local webhook.
+//   npx tsx scripts/send-participant-webhook.ts <courseScheduleId> [attendees]
+async function main() {
+  const [scheduleId, attendeeArg] = process.argv.slice(2)
+  const appUrl = process.env.APP_URL || 'http://localhost:3000'
+  const secret = process.env.MEETING_WEBHOOK_SECRET
+
+  if (!scheduleId || !secret) {
+    console.error('Usage: MEETING_WEBHOOK_SECRET=... npx tsx scripts/send-participant-webhook.ts <courseScheduleId> [attendees]')
+    process.exit(1)
+  }
+
+  const schedule = await prisma.courseSchedule.findUnique({
+    where: { id: scheduleId },
+    include: { classroom: true, lecturer: { include: { user: true } } }
+  })
+
+  const link = schedule?.meetingLink || schedule?.classroom?.virtualLink
+  const platform = detectPlatform(link)
+  const meetingId = platform ? extractMeetingId(platform, link) : null
+
+  if (!schedule || !platform || !meetingId) {
+    console.error('❌ Schedule not found or it has no Zoom, Teams or Meet link with a meeting ID')
+    process.exit(1)
+  }
+
+  const today = new Date().toISOString().split('T')[0]
+  const at = (time: string, offsetMinutes = 0) =>
+    new Date(new Date(`${today}T${time}:00.000Z`).getTime() + offsetMinutes * 60000).toISOString()
+
+  const attendees = Number(attendeeArg) || 25
+  const participants = [
+    {
+      name: `${schedule.lecturer.user.firstName} ${schedule.lecturer.user.lastName}`,
+      email: schedule.lecturer.user.email,
+      role: 'host',
+      joinTime: at(schedule.startTime, -3),
+      leaveTime: at(schedule.endTime, 2)
+    },
+    ...Array.from({ length: attendees }, (_, index) => ({
+      name: `Student ${index + 1}`,
+      joinTime: at(schedule.startTime, index % 10),
+      leaveTime: at(schedule.endTime, -(index % 15))
+    }))
+  ]
+
+  const response = await fetch(`${appUrl}/api/participant-reports/webhook`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-webhook-secret': secret },
+    body: JSON.stringify({
+      platform,
+      meetingId,
+      meetingStart: at(schedule.startTime, -3),
+      meetingEnd: at(schedule.endTime, 2),
+      hostEmail: schedule.lecturer.user.email,
+      participants
+    })
+  })
+
+  console.log(`📨 ${response.status}`, await response.json())
+}
+
+main()
+  .catch((error) => {
+    console.error(error)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
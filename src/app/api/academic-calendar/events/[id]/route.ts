@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { prisma } from '@/lib/db'
+import { auditActor } from '@/lib/audit'
+import { authOptions } from '@/lib/auth-config'
+
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || !['ADMIN', 'COORDINATOR'].includes(session.user.role)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const resolvedParams = await params
+
+    const event = await prisma.academicCalendarEvent.findUnique({
+      where: { id: resolvedParams.id }
+    })
+
+    if (!event) {
+      return NextResponse.json({ error: 'Calendar event not found' }, { status: 404 })
+    }
+
+    await prisma.academicCalendarEvent.delete({
+      where: { id: resolvedParams.id }
+    })
+
+    await prisma.auditLog.create({
+      data: {
+        ...auditActor(session.user),
+        action: 'CALENDAR_EVENT_DELETED',
+        targetType: 'AcademicCalendarEvent',
+        targetId: event.id,
+        metadata: JSON.stringify({ type: event.type, name: event.name })
+      }
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting calendar event:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
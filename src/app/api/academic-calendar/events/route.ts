@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { prisma } from '@/lib/db'
+import { auditActor } from '@/lib/audit'
+import { authOptions } from '@/lib/auth-config'
+import { CALENDAR_EVENT_TYPES } from '@/lib/academic-calendar'
+import { z } from 'zod'
+
+const createEventSchema = z.object({
+  academicYearId: z.string(),
+  semesterId: z.string().optional(),
+  type: z.enum(CALENDAR_EVENT_TYPES as [string, ...string[]]),
+  name: z.string().min(1),
+  startDate: z.string(),
+  endDate: z.string(),
+  description: z.string().optional()
+})
+
+// POST - Add a holiday, exam period or reading week
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || !['ADMIN', 'COORDINATOR'].includes(session.user.role)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { academicYearId, semesterId, type, name, startDate, endDate, description } = createEventSchema.parse(body)
+
+    const start = new Date(startDate)
+    const end = new Date(endDate)
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || end < start) {
+      return NextResponse.json({ error: 'End date cannot be before start date' }, { status: 400 })
+    }
+
+    const academicYear = await prisma.academicYear.findUnique({
+      where: { id: academicYearId }
+    })
+
+    if (!academicYear) {
+      return NextResponse.json({ error: 'Academic year not found' }, { status: 404 })
+    }
+
+    if (semesterId) {
+      const semester = await prisma.semester.findFirst({
+        where: { id: semesterId, academicYearId }
+      })
+
+      if (!semester) {
+        return NextResponse.json({ error: 'Semester not found in this academic year' }, { status: 404 })
+      }
+    }
+
+    const event = await prisma.academicCalendarEvent.create({
+      data: {
+        academicYearId,
+        semesterId: semesterId || null,
+        type,
+        name,
+        startDate: start,
+        endDate: end,
+        description: description || null
+      }
+    })
+
+    await prisma.auditLog.create({
+      data: {
+        ...auditActor(session.user),
+        action: 'CALENDAR_EVENT_CREATED',
+        targetType: 'AcademicCalendarEvent',
+        targetId: event.id,
+        metadata: JSON.stringify({ type, name, startDate, endDate })
+      }
+    })
+
+    return NextResponse.json(event, { status: 201 })
+  } catch (error) {
+    console.error('Error creating calendar event:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
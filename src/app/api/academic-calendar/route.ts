@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { prisma } from '@/lib/db'
+import { auditActor } from '@/lib/audit'
+import { authOptions } from '@/lib/auth-config'
+import { getAcademicDayStatus, describeDayStatus } from '@/lib/academic-calendar'
+import { z } from 'zod'
+
+const createAcademicYearSchema = z.object({
+  name: z.string().min(1),
+  startDate: z.string(),
+  endDate: z.string(),
+  isCurrent: z.boolean().optional()
+})
+
+// GET - Academic years with their semesters and events, or the status of a single day
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const date = searchParams.get('date')
+
+    if (date) {
+      const parsedDate = new Date(date)
+      if (isNaN(parsedDate.getTime())) {
+        return NextResponse.json({ error: 'Invalid date' }, { status: 400 })
+      }
+
+      const status = await getAcademicDayStatus(parsedDate)
+      return NextResponse.json({
+        ...status,
+        description: describeDayStatus(status)
+      })
+    }
+
+    const academicYears = await prisma.academicYear.findMany({
+      include: {
+        semesters: {
+          orderBy: { startDate: 'asc' }
+        },
+        events: {
+          orderBy: { startDate: 'asc' }
+        }
+      },
+      orderBy: { startDate: 'desc' }
+    })
+
+    return NextResponse.json(academicYears)
+  } catch (error) {
+    console.error('Error fetching academic calendar:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Create an academic year
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || !['ADMIN', 'COORDINATOR'].includes(session.user.role)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { name, startDate, endDate, isCurrent } = createAcademicYearSchema.parse(body)
+
+    const start = new Date(startDate)
+    const end = new Date(endDate)
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) {
+      return NextResponse.json({ error: 'End date must be after start date' }, { status: 400 })
+    }
+
+    const existing = await prisma.academicYear.findUnique({ where: { name } })
+    if (existing) {
+      return NextResponse.json({ error: 'Academic year with this name already exists' }, { status: 409 })
+    }
+
+    // Only one academic year can be current at a time
+    if (isCurrent) {
+      await prisma.academicYear.updateMany({
+        where: { isCurrent: true },
+        data: { isCurrent: false }
+      })
+    }
+
+    const academicYear = await prisma.academicYear.create({
+      data: {
+        name,
+        startDate: start,
+        endDate: end,
+        isCurrent: Boolean(isCurrent)
+      }
+    })
+
+    await prisma.auditLog.create({
+      data: {
+        ...auditActor(session.user),
+        action: 'ACADEMIC_YEAR_CREATED',
+        targetType: 'AcademicYear',
+        targetId: academicYear.id,
+        metadata: JSON.stringify({ name, startDate, endDate })
+      }
+    })
+
+    return NextResponse.json(academicYear, { status: 201 })
+  } catch (error) {
+    console.error('Error creating academic year:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
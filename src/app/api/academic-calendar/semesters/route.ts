@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { prisma } from '@/lib/db'
+import { auditActor } from '@/lib/audit'
+import { authOptions } from '@/lib/auth-config'
+import { z } from 'zod'
+
+const createSemesterSchema = z.object({
+  academicYearId: z.string(),
+  name: z.string().min(1),
+  startDate: z.string(),
+  endDate: z.string(),
+  teachingWeeks: z.number().int().positive().optional()
+})
+
+// POST - Add a semester to an academic year
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || !['ADMIN', 'COORDINATOR'].includes(session.user.role)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { academicYearId, name, startDate, endDate, teachingWeeks } = createSemesterSchema.parse(body)
+
+    const start = new Date(startDate)
+    const end = new Date(endDate)
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) {
+      return NextResponse.json({ error: 'End date must be after start date' }, { status: 400 })
+    }
+
+    const academicYear = await prisma.academicYear.findUnique({
+      where: { id: academicYearId }
+    })
+
+    if (!academicYear) {
+      return NextResponse.json({ error: 'Academic year not found' }, { status: 404 })
+    }
+
+    if (start < academicYear.startDate || end > academicYear.endDate) {
+      return NextResponse.json({ error: 'Semester dates must fall within the academic year' }, { status: 400 })
+    }
+
+    // Semesters may not overlap, otherwise a date would belong to two teaching weeks
+    const overlapping = await prisma.semester.findFirst({
+      where: {
+        startDate: { lte: end },
+        endDate: { gte: start }
+      }
+    })
+
+    if (overlapping) {
+      return NextResponse.json({ error: `Semester overlaps with ${overlapping.name}` }, { status: 409 })
+    }
+
+    const semester = await prisma.semester.create({
+      data: {
+        academicYearId,
+        name,
+        startDate: start,
+        endDate: end,
+        teachingWeeks: teachingWeeks ?? null
+      }
+    })
+
+    await prisma.auditLog.create({
+      data: {
+        ...auditActor(session.user),
+        action: 'SEMESTER_CREATED',
+        targetType: 'Semester',
+        targetId: semester.id,
+        metadata: JSON.stringify({ academicYear: academicYear.name, name, startDate, endDate })
+      }
+    })
+
+    return NextResponse.json(semester, { status: 201 })
+  } catch (error) {
+    console.error('Error creating semester:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,8 +2,22 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth-config';
 import { prisma } from '@/lib/db';
+import { auditActor } from '@/lib/audit';
+import { clientIpAddress } from '@/lib/login-security';
+import { canImpersonate, IMPERSONATION_TOKEN_TTL } from '@/lib/impersonation';
 import jwt from 'jsonwebtoken';
+import { randomUUID } from 'crypto';
 
+function getSecret(): string {
+  const secret = process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    console.error("NEXTAUTH_SECRET is not defined in environment variables");
+    throw new Error("NEXTAUTH_SECRET is not defined");
+  }
+  return secret;
+}
+
+// POST - Start viewing as another user
 export async function POST(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions);
@@ -16,6 +30,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Switching again from inside an impersonated session would hide who is really acting
+    if (session.user.impersonatorId) {
+      return NextResponse.json(
+        { error: 'Return to your own account before viewing as someone else' },
+        { status: 403 }
+      );
+    }
+
     const body = await request.json();
     const { targetUserId } = body;
 
@@ -38,12 +60,18 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Generate impersonation token
-    // Short expiry (e.g., 5 minutes)
-    const secret = process.env.NEXTAUTH_SECRET;
-    if (!secret) {
-        console.error("NEXTAUTH_SECRET is not defined in environment variables");
-        throw new Error("NEXTAUTH_SECRET is not defined");
+    if (!canImpersonate(session.user.role, targetUser.role)) {
+      return NextResponse.json(
+        { error: `You cannot view as a user with the ${targetUser.role} role` },
+        { status: 403 }
+      );
+    }
+
+    if (!targetUser.isActive) {
+      return NextResponse.json(
+        { error: 'Target user is deactivated' },
+        { status: 400 }
+      );
     }
 
     console.log(`Generating impersonation token for targetUser: ${targetUser.id} by initiator: ${session.user.id}`);
@@ -53,12 +81,24 @@ export async function POST(request: NextRequest) {
         targetUserId: targetUser.id,
         targetEmail: targetUser.email,
         type: 'impersonation',
-        initiatorId: session.user.id
+        initiatorId: session.user.id,
+        initiatorName: session.user.name
       },
-      secret,
-      { expiresIn: '5m' }
+      getSecret(),
+      { expiresIn: IMPERSONATION_TOKEN_TTL, jwtid: randomUUID() }
     );
 
+    await prisma.auditLog.create({
+      data: {
+        ...auditActor(session.user),
+        action: 'IMPERSONATION_STARTED',
+        targetType: 'User',
+        targetId: targetUser.id,
+        metadata: JSON.stringify({ targetEmail: targetUser.email, targetRole: targetUser.role }),
+        ipAddress: clientIpAddress(request.headers)
+      }
+    });
+
     return NextResponse.json({ token });
 
   } catch (error) {
@@ -69,3 +109,46 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+// DELETE - Stop viewing as another user; the token signs the admin back in as themselves
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.impersonatorId) {
+      return NextResponse.json(
+        { error: 'Not viewing as another user' },
+        { status: 400 }
+      );
+    }
+
+    const token = jwt.sign(
+      {
+        targetUserId: session.user.impersonatorId,
+        impersonatedUserId: session.user.id,
+        type: 'impersonation_end'
+      },
+      getSecret(),
+      { expiresIn: IMPERSONATION_TOKEN_TTL, jwtid: randomUUID() }
+    );
+
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.impersonatorId,
+        action: 'IMPERSONATION_ENDED',
+        targetType: 'User',
+        targetId: session.user.id,
+        ipAddress: clientIpAddress(request.headers)
+      }
+    });
+
+    return NextResponse.json({ token });
+
+  } catch (error) {
+    console.error('Error ending impersonation:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
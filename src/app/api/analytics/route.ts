@@ -4,6 +4,8 @@ import { authOptions } from '@/lib/auth-config';
 import { prisma } from '@/lib/db';
 import { Prisma } from '@prisma/client';
 import { startOfWeek, endOfWeek, startOfMonth, endOfMonth, subDays, subMonths } from 'date-fns';
+import { loadAcademicCalendar, countTeachingOccurrences, toDateKey } from '@/lib/academic-calendar';
+import { summarizePunctuality } from '@/lib/punctuality';
 
 export async function GET(request: NextRequest) {
   try {
@@ -12,7 +14,7 @@ export async function GET(request: NextRequest) {
 
     const { searchParams } = new URL(request.url);
     const period = searchParams.get('period') || '1y'; // Default to 1 year for production data visibility
-    const type = searchParams.get('type') || 'overview'; // overview, attendance, verification, courses
+    const type = searchParams.get('type') || 'overview'; // overview, attendance, verification, courses, punctuality
 
     const user = await prisma.user.findUnique({
       where: { id: session.user.id },
@@ -52,6 +54,16 @@ export async function GET(request: NextRequest) {
         startDate = subDays(now, 30);
     }
 
+    // An explicit range, as sent by the analytics dashboard's date picker, overrides the period
+    const fromParam = searchParams.get('startDate');
+    const toParam = searchParams.get('endDate');
+    if (fromParam && !isNaN(Date.parse(fromParam))) {
+      startDate = new Date(fromParam);
+    }
+    if (toParam && !isNaN(Date.parse(toParam))) {
+      endDate = new Date(toParam);
+    }
+
     // Base filters based on user role
     let attendanceFilter: any = {
       timestamp: {
@@ -93,7 +105,9 @@ export async function GET(request: NextRequest) {
       case 'verification':
         return await getVerificationAnalytics(attendanceFilter, startDate, endDate);
       case 'courses':
-        return await getCourseAnalytics(attendanceFilter, user.role, lecturerIdForFilter);
+        return await getCourseAnalytics(attendanceFilter, user.role, startDate, endDate, lecturerIdForFilter);
+      case 'punctuality':
+        return await getPunctualityAnalytics(attendanceFilter);
       default:
         return NextResponse.json({ error: 'Invalid analytics type' }, { status: 400 });
     }
@@ -294,7 +308,7 @@ async function getVerificationAnalytics(filter: any, startDate: Date, endDate: D
   });
 }
 
-async function getCourseAnalytics(filter: any, userRole: string, lecturerId?: string) {
+async function getCourseAnalytics(filter: any, userRole: string, startDate: Date, endDate: Date, lecturerId?: string) {
   let courseFilter: any = {};
   
   if (userRole === 'LECTURER' && lecturerId) {
@@ -325,6 +339,7 @@ async function getCourseAnalytics(filter: any, userRole: string, lecturerId?: st
             },
             select: {
               id: true,
+              timestamp: true,
               supervisorVerified: true,
               method: true
             }
@@ -334,6 +349,16 @@ async function getCourseAnalytics(filter: any, userRole: string, lecturerId?: st
     }
   });
 
+  // Expected sessions only count teaching days, so holidays and exam periods
+  // are never reported as missed classes
+  const calendar = await loadAcademicCalendar(startDate, endDate);
+  const earliestRecord = courses
+    .flatMap(course => course.courseSchedules.flatMap(schedule => schedule.attendanceRecords))
+    .reduce<Date | null>((earliest, record) => (!earliest || record.timestamp < earliest ? record.timestamp : earliest), null);
+  const earliestSemester = calendar.semesters[0]?.startDate;
+  const expectedFrom = [startDate, earliestSemester ?? earliestRecord ?? endDate]
+    .reduce((latest, date) => (date > latest ? date : latest));
+
   const courseAnalytics = courses.map(course => {
     // Flatten attendance records from all relevant schedules
     const records = course.courseSchedules.flatMap(schedule => schedule.attendanceRecords);
@@ -343,7 +368,12 @@ async function getCourseAnalytics(filter: any, userRole: string, lecturerId?: st
     const disputed = records.filter(r => r.supervisorVerified === false).length;
     const pending = records.filter(r => r.supervisorVerified === null).length;
     const virtualSessions = records.filter(r => r.method === 'virtual').length;
-    const physicalSessions = records.filter(r => r.method === 'onsite').length;
+    const physicalSessions = records.filter(r => r.method === 'onsite' || r.method === 'qr').length;
+
+    const expectedSessions = course.courseSchedules.reduce((sum, schedule) =>
+      sum + countTeachingOccurrences(schedule.dayOfWeek, expectedFrom, endDate, calendar), 0);
+    const heldSessions = course.courseSchedules.reduce((sum, schedule) =>
+      sum + new Set(schedule.attendanceRecords.map(r => toDateKey(r.timestamp))).size, 0);
 
     return {
       id: course.id,
@@ -355,11 +385,58 @@ async function getCourseAnalytics(filter: any, userRole: string, lecturerId?: st
       pendingRecords: pending,
       verificationRate: total > 0 ? (verified / total) * 100 : 0,
       virtualSessions,
-      physicalSessions
+      physicalSessions,
+      expectedSessions,
+      missedSessions: Math.max(0, expectedSessions - heldSessions)
     };
   });
 
   return NextResponse.json({
     courses: courseAnalytics
   });
-}
\ No newline at end of file
+}
+
+async function getPunctualityAnalytics(filter: any) {
+  const records = await prisma.attendanceRecord.findMany({
+    where: filter,
+    select: {
+      lecturerId: true,
+      lateMinutes: true,
+      earlyLeaveMinutes: true,
+      lecturer: {
+        select: {
+          user: {
+            select: {
+              firstName: true,
+              lastName: true
+            }
+          }
+        }
+      }
+    }
+  });
+
+  const byLecturer = new Map<string, { lecturerName: string; records: typeof records }>();
+  for (const record of records) {
+    const entry = byLecturer.get(record.lecturerId) ?? {
+      lecturerName: record.lecturer?.user ? `${record.lecturer.user.firstName} ${record.lecturer.user.lastName}` : 'Unknown Lecturer',
+      records: []
+    };
+    entry.records.push(record);
+    byLecturer.set(record.lecturerId, entry);
+  }
+
+  const lecturers = Array.from(byLecturer.entries())
+    .map(([lecturerId, entry]) => ({
+      lecturerId,
+      lecturerName: entry.lecturerName,
+      totalSessions: entry.records.length,
+      ...summarizePunctuality(entry.records)
+    }))
+    .sort((a, b) => a.lecturerName.localeCompare(b.lecturerName));
+
+  return NextResponse.json({
+    lecturers,
+    overall: summarizePunctuality(records)
+  });
+}
@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { prisma } from '@/lib/db'
+import { auditActor } from '@/lib/audit'
+import { authOptions } from '@/lib/auth-config'
+import { decideAppeal } from '@/lib/appeals'
+import { enhancedNotificationService } from '@/lib/enhanced-notifications'
+import { z } from 'zod'
+
+const updateAppealSchema = z.object({
+  action: z.enum(['accept', 'reject', 'withdraw']),
+  comment: z.string().trim().optional()
+})
+
+// PATCH - Coordinator decides an appeal, or the lecturer withdraws it
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || !['ADMIN', 'COORDINATOR', 'LECTURER'].includes(session.user.role)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const { action, comment } = updateAppealSchema.parse(body)
+
+    const appeal = await prisma.attendanceAppeal.findUnique({
+      where: { id },
+      include: {
+        lecturer: true,
+        attendanceRecord: {
+          include: {
+            courseSchedule: {
+              include: {
+                course: { include: { programme: true } },
+                classGroup: true
+              }
+            }
+          }
+        }
+      }
+    })
+
+    if (!appeal) {
+      return NextResponse.json({ error: 'Appeal not found' }, { status: 404 })
+    }
+
+    const { course, classGroup } = appeal.attendanceRecord.courseSchedule
+    const auditMetadata = {
+      attendanceRecordId: appeal.attendanceRecordId,
+      course: course.title,
+      classGroup: classGroup.name,
+      timestamp: appeal.attendanceRecord.timestamp
+    }
+
+    if (action === 'withdraw') {
+      if (session.user.role !== 'LECTURER' || appeal.lecturer.userId !== session.user.id) {
+        return NextResponse.json({ error: 'Forbidden - Only the lecturer who lodged an appeal can withdraw it' }, { status: 403 })
+      }
+
+      if (appeal.status !== 'pending') {
+        return NextResponse.json({ error: `Appeal has already been ${appeal.status}` }, { status: 400 })
+      }
+
+      const withdrawn = await prisma.attendanceAppeal.update({
+        where: { id },
+        data: { status: 'withdrawn' }
+      })
+
+      await prisma.auditLog.create({
+        data: {
+          ...auditActor(session.user),
+          action: 'ATTENDANCE_APPEAL_WITHDRAWN',
+          targetType: 'AttendanceAppeal',
+          targetId: id,
+          metadata: JSON.stringify(auditMetadata)
+        }
+      })
+
+      return NextResponse.json(withdrawn)
+    }
+
+    if (session.user.role === 'LECTURER') {
+      return NextResponse.json({ error: 'Forbidden - Lecturers cannot decide appeals' }, { status: 403 })
+    }
+
+    if (session.user.role === 'COORDINATOR' && course.programme.coordinator !== session.user.id) {
+      return NextResponse.json({ error: 'Forbidden - You can only decide appeals for your assigned programmes' }, { status: 403 })
+    }
+
+    if (!comment) {
+      return NextResponse.json({ error: 'A comment explaining the decision is required' }, { status: 400 })
+    }
+
+    const result = await decideAppeal(id, action, session.user.id, comment)
+
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    const accepted = action === 'accept'
+
+    await prisma.auditLog.create({
+      data: {
+        ...auditActor(session.user),
+        action: accepted ? 'ATTENDANCE_APPEAL_ACCEPTED' : 'ATTENDANCE_APPEAL_REJECTED',
+        targetType: 'AttendanceAppeal',
+        targetId: id,
+        metadata: JSON.stringify({
+          ...auditMetadata,
+          comment,
+          previousSupervisorVerified: result.previous.supervisorVerified,
+          previousSupervisorComment: result.previous.supervisorComment
+        })
+      }
+    })
+
+    await enhancedNotificationService.sendNotification({
+      userId: appeal.lecturer.userId,
+      title: accepted ? 'Attendance Appeal Upheld' : 'Attendance Appeal Dismissed',
+      message: accepted
+        ? `Your appeal for ${course.title} (${classGroup.name}) was upheld and the class now counts as verified. ${comment}`
+        : `Your appeal for ${course.title} (${classGroup.name}) was dismissed: ${comment}`,
+      category: 'verification',
+      priority: 'normal',
+      actionUrl: '/dashboard/appeals',
+      metadata: { appealId: id }
+    })
+
+    return NextResponse.json(result.appeal)
+  } catch (error) {
+    console.error('Error updating appeal:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
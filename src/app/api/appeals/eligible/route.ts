@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { prisma } from '@/lib/db'
+import { authOptions } from '@/lib/auth-config'
+import { getAppealBlocker } from '@/lib/appeals'
+
+// GET - The lecturer's rejected attendance records, with whether each can still be appealed
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || session.user.role !== 'LECTURER') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const lecturer = await prisma.lecturer.findUnique({
+      where: { userId: session.user.id }
+    })
+
+    if (!lecturer) {
+      return NextResponse.json({ error: 'Lecturer not found' }, { status: 404 })
+    }
+
+    const records = await prisma.attendanceRecord.findMany({
+      where: {
+        lecturerId: lecturer.id,
+        supervisorVerified: false
+      },
+      select: {
+        id: true,
+        timestamp: true,
+        supervisorVerified: true,
+        supervisorComment: true,
+        lockedAt: true,
+        appeals: { select: { status: true } },
+        courseSchedule: {
+          select: {
+            course: { select: { courseCode: true, title: true } },
+            classGroup: { select: { name: true } }
+          }
+        }
+      },
+      orderBy: { timestamp: 'desc' }
+    })
+
+    const now = new Date()
+
+    return NextResponse.json(records.map(({ appeals, lockedAt, ...record }) => {
+      const blocker = getAppealBlocker({ ...record, lockedAt, appeals }, now)
+      return {
+        ...record,
+        canAppeal: !blocker,
+        reason: blocker
+      }
+    }))
+  } catch (error) {
+    console.error('Error fetching appealable attendance:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,190 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { prisma } from '@/lib/db'
+import { auditActor } from '@/lib/audit'
+import { authOptions } from '@/lib/auth-config'
+import { getAppealBlocker, parseAppealEvidence } from '@/lib/appeals'
+import { enhancedNotificationService } from '@/lib/enhanced-notifications'
+import { z } from 'zod'
+
+const createAppealSchema = z.object({
+  attendanceRecordId: z.string(),
+  reason: z.string().trim().min(1, 'A reason is required'),
+  evidenceUrls: z.array(z.string()).optional()
+})
+
+// GET - Appeals visible to the user: lecturers see their own, coordinators those for their programmes
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || !['ADMIN', 'COORDINATOR', 'LECTURER'].includes(session.user.role)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status')
+
+    const whereClause: any = {}
+    if (status) whereClause.status = status
+
+    if (session.user.role === 'LECTURER') {
+      whereClause.lecturer = { userId: session.user.id }
+    } else if (session.user.role === 'COORDINATOR') {
+      whereClause.attendanceRecord = {
+        courseSchedule: { course: { programme: { coordinator: session.user.id } } }
+      }
+    }
+
+    const appeals = await prisma.attendanceAppeal.findMany({
+      where: whereClause,
+      include: {
+        lecturer: {
+          include: {
+            user: {
+              select: { firstName: true, lastName: true, email: true }
+            }
+          }
+        },
+        attendanceRecord: {
+          select: {
+            id: true,
+            timestamp: true,
+            supervisorVerified: true,
+            supervisorComment: true,
+            courseSchedule: {
+              select: {
+                course: { select: { courseCode: true, title: true } },
+                classGroup: { select: { name: true } }
+              }
+            }
+          }
+        }
+      },
+      orderBy: { createdAt: 'desc' }
+    })
+
+    return NextResponse.json(appeals.map(appeal => ({
+      ...appeal,
+      evidence: parseAppealEvidence(appeal.evidence)
+    })))
+  } catch (error) {
+    console.error('Error fetching appeals:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Lecturer appeals a supervisor's rejection of their attendance
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || session.user.role !== 'LECTURER') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { attendanceRecordId, reason, evidenceUrls } = createAppealSchema.parse(body)
+
+    const lecturer = await prisma.lecturer.findUnique({
+      where: { userId: session.user.id },
+      include: { user: { select: { firstName: true, lastName: true } } }
+    })
+
+    if (!lecturer) {
+      return NextResponse.json({ error: 'Lecturer not found' }, { status: 404 })
+    }
+
+    const attendanceRecord = await prisma.attendanceRecord.findUnique({
+      where: { id: attendanceRecordId },
+      include: {
+        appeals: { select: { status: true } },
+        courseSchedule: {
+          include: {
+            course: { include: { programme: true } },
+            classGroup: true
+          }
+        }
+      }
+    })
+
+    if (!attendanceRecord) {
+      return NextResponse.json({ error: 'Attendance record not found' }, { status: 404 })
+    }
+
+    if (attendanceRecord.lecturerId !== lecturer.id) {
+      return NextResponse.json({ error: 'Forbidden - You can only appeal your own attendance' }, { status: 403 })
+    }
+
+    const blocker = getAppealBlocker(attendanceRecord)
+    if (blocker) {
+      return NextResponse.json({ error: blocker }, { status: 400 })
+    }
+
+    const appeal = await prisma.attendanceAppeal.create({
+      data: {
+        attendanceRecordId,
+        lecturerId: lecturer.id,
+        reason,
+        evidence: evidenceUrls?.length ? JSON.stringify(evidenceUrls) : null,
+        originalComment: attendanceRecord.supervisorComment
+      }
+    })
+
+    await prisma.auditLog.create({
+      data: {
+        ...auditActor(session.user),
+        action: 'ATTENDANCE_APPEAL_SUBMITTED',
+        targetType: 'AttendanceAppeal',
+        targetId: appeal.id,
+        metadata: JSON.stringify({
+          attendanceRecordId,
+          course: attendanceRecord.courseSchedule.course.title,
+          classGroup: attendanceRecord.courseSchedule.classGroup.name,
+          timestamp: attendanceRecord.timestamp,
+          supervisorComment: attendanceRecord.supervisorComment,
+          evidenceCount: evidenceUrls?.length ?? 0
+        })
+      }
+    })
+
+    const coordinatorId = attendanceRecord.courseSchedule.course.programme.coordinator
+    const reviewerIds = coordinatorId
+      ? [coordinatorId]
+      : (await prisma.user.findMany({
+          where: { role: 'ADMIN', isActive: true },
+          select: { id: true }
+        })).map(admin => admin.id)
+
+    for (const userId of reviewerIds) {
+      await enhancedNotificationService.sendNotification({
+        userId,
+        title: 'Attendance Appeal Submitted',
+        message: `${lecturer.user.firstName} ${lecturer.user.lastName} has appealed a rejected attendance record for ${attendanceRecord.courseSchedule.course.title} (${attendanceRecord.courseSchedule.classGroup.name}).`,
+        category: 'verification',
+        priority: 'normal',
+        actionUrl: '/dashboard/appeals',
+        metadata: { appealId: appeal.id }
+      })
+    }
+
+    return NextResponse.json(appeal, { status: 201 })
+  } catch (error) {
+    console.error('Error submitting appeal:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { prisma } from '@/lib/db'
+import { auditActor } from '@/lib/audit'
+import { authOptions } from '@/lib/auth-config'
+import { verifyLocationForAttendance, resolveAttendanceGeofences } from '@/lib/geolocation'
+import { toSessionDate } from '@/lib/class-sessions'
+import { getPunctualitySettings, calculateEarlyLeaveMinutes } from '@/lib/punctuality'
+import { getVerificationPolicy, applyVerificationRules } from '@/lib/verification-rules'
+import { z } from 'zod'
+
+const checkOutSchema = z.object({
+  attendanceRecordId: z.string(),
+  latitude: z.number(),
+  longitude: z.number()
+})
+
+// POST - GPS-verified check-out at the end of an onsite class
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || session.user.role !== 'LECTURER') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { attendanceRecordId, latitude, longitude } = checkOutSchema.parse(body)
+
+    const record = await prisma.attendanceRecord.findFirst({
+      where: {
+        id: attendanceRecordId,
+        lecturer: { userId: session.user.id }
+      },
+      include: {
+        classSession: true,
+        courseSchedule: {
+          include: {
+            course: true,
+            classGroup: true,
+            classroom: {
+              include: { building: true }
+            }
+          }
+        }
+      }
+    })
+
+    if (!record) {
+      return NextResponse.json({ error: 'Attendance record not found or unauthorized' }, { status: 404 })
+    }
+
+    if (record.method === 'virtual') {
+      return NextResponse.json({ error: 'Virtual sessions are ended from the virtual session controls' }, { status: 400 })
+    }
+
+    if (record.sessionEndTime) {
+      return NextResponse.json({ error: 'You have already checked out of this class' }, { status: 400 })
+    }
+
+    const checkOutTime = new Date()
+    const sessionDate = record.classSession?.date ?? toSessionDate(record.timestamp)
+
+    if (sessionDate.getTime() !== toSessionDate(checkOutTime).getTime()) {
+      return NextResponse.json({ error: 'Check-out is only possible on the day of the class' }, { status: 400 })
+    }
+
+    // Check out against the same geofences as the check-in; make-ups may be in another room
+    const classroom = record.classSession?.classroomId
+      ? await prisma.classroom.findUnique({
+          where: { id: record.classSession.classroomId },
+          include: { building: true }
+        })
+      : record.courseSchedule.classroom
+
+    const { policy } = await getVerificationPolicy({
+      programmeId: record.courseSchedule.classGroup.programmeId,
+      deliveryMode: record.courseSchedule.classGroup.deliveryMode,
+      sessionType: record.courseSchedule.sessionType
+    })
+
+    const locationVerification = verifyLocationForAttendance(
+      { latitude, longitude },
+      resolveAttendanceGeofences(classroom, policy.geofenceRadiusMeters)
+    )
+
+    if (!locationVerification.verified) {
+      const target = classroom?.building?.name || 'campus'
+      return NextResponse.json({
+        error: `Location verification failed: You are ${locationVerification.distance}m away from ${target} (max allowed: ${locationVerification.radius}m)`
+      }, { status: 400 })
+    }
+
+    const endTime = record.classSession?.endTime ?? record.courseSchedule.endTime
+    const { earlyLeaveGraceMinutes } = await getPunctualitySettings()
+    const earlyLeaveMinutes = calculateEarlyLeaveMinutes(checkOutTime, sessionDate, endTime, earlyLeaveGraceMinutes)
+
+    const updatedRecord = await prisma.attendanceRecord.update({
+      where: { id: record.id },
+      data: {
+        sessionEndTime: checkOutTime,
+        sessionDuration: Math.floor((checkOutTime.getTime() - record.timestamp.getTime()) / 60000),
+        earlyLeaveMinutes,
+        checkOutLatitude: latitude,
+        checkOutLongitude: longitude,
+        checkOutLocationVerified: true
+      }
+    })
+
+    try {
+      await applyVerificationRules(record.id)
+    } catch (error) {
+      console.error('Error applying verification rules:', error)
+    }
+
+    await prisma.auditLog.create({
+      data: {
+        ...auditActor(session.user),
+        action: 'ATTENDANCE_CHECKED_OUT',
+        targetType: 'AttendanceRecord',
+        targetId: record.id,
+        metadata: JSON.stringify({
+          course: record.courseSchedule.course.title,
+          location: { latitude, longitude },
+          distance: locationVerification.distance,
+          earlyLeaveMinutes
+        })
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: earlyLeaveMinutes > 0
+        ? `Checked out ${earlyLeaveMinutes} minutes before the scheduled end`
+        : 'Checked out successfully',
+      record: {
+        id: updatedRecord.id,
+        course: record.courseSchedule.course.title,
+        sessionEndTime: updatedRecord.sessionEndTime,
+        sessionDuration: updatedRecord.sessionDuration,
+        lateMinutes: updatedRecord.lateMinutes,
+        earlyLeaveMinutes: updatedRecord.earlyLeaveMinutes
+      }
+    })
+  } catch (error) {
+    console.error('Error checking out of class:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
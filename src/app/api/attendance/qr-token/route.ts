@@ -0,0 +1,176 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { prisma } from '@/lib/db'
+import { authOptions } from '@/lib/auth-config'
+import { getOrCreateClassSession, toSessionDate } from '@/lib/class-sessions'
+import { createAttendanceQrToken, QR_TOKEN_ROTATION_SECONDS } from '@/lib/attendance-qr'
+import { z } from 'zod'
+
+const issueQrTokenSchema = z.object({
+  scheduleId: z.string(),
+  classSessionId: z.string().optional() // Set for make-up sessions
+})
+
+// GET - Today's classes for the class rep's groups, for choosing which QR code to show
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || session.user.role !== 'CLASS_REP') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const today = new Date()
+    const sessionDate = toSessionDate(today)
+
+    const schedules = await prisma.courseSchedule.findMany({
+      where: {
+        dayOfWeek: today.getUTCDay(),
+        classGroup: { classRepId: session.user.id }
+      },
+      include: {
+        course: true,
+        classGroup: true,
+        lecturer: {
+          include: { user: true }
+        },
+        classSessions: {
+          where: { date: sessionDate, isMakeUp: false }
+        }
+      },
+      orderBy: { startTime: 'asc' }
+    })
+
+    const makeUpSessions = await prisma.classSession.findMany({
+      where: {
+        date: sessionDate,
+        isMakeUp: true,
+        status: { in: ['scheduled', 'held'] },
+        courseSchedule: {
+          classGroup: { classRepId: session.user.id }
+        }
+      },
+      include: {
+        courseSchedule: {
+          include: {
+            course: true,
+            classGroup: true,
+            lecturer: {
+              include: { user: true }
+            }
+          }
+        }
+      }
+    })
+
+    const classes = [
+      ...schedules
+        .filter(schedule => !['cancelled', 'rescheduled'].includes(schedule.classSessions[0]?.status ?? 'scheduled'))
+        .map(schedule => ({
+          scheduleId: schedule.id,
+          classSessionId: schedule.classSessions[0]?.id ?? null,
+          isMakeUp: false,
+          startTime: schedule.startTime,
+          endTime: schedule.endTime,
+          course: `${schedule.course.courseCode} - ${schedule.course.title}`,
+          classGroup: schedule.classGroup.name,
+          lecturerName: `${schedule.lecturer.user.firstName} ${schedule.lecturer.user.lastName}`
+        })),
+      ...makeUpSessions.map(classSession => ({
+        scheduleId: classSession.courseScheduleId,
+        classSessionId: classSession.id,
+        isMakeUp: true,
+        startTime: classSession.startTime,
+        endTime: classSession.endTime,
+        course: `${classSession.courseSchedule.course.courseCode} - ${classSession.courseSchedule.course.title}`,
+        classGroup: classSession.courseSchedule.classGroup.name,
+        lecturerName: `${classSession.courseSchedule.lecturer.user.firstName} ${classSession.courseSchedule.lecturer.user.lastName}`
+      }))
+    ].sort((a, b) => a.startTime.localeCompare(b.startTime))
+
+    return NextResponse.json(classes)
+  } catch (error) {
+    console.error('Error fetching QR check-in classes:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Issue the current rotating QR token for one of today's classes
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || session.user.role !== 'CLASS_REP') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { scheduleId, classSessionId } = issueQrTokenSchema.parse(body)
+
+    const schedule = await prisma.courseSchedule.findFirst({
+      where: {
+        id: scheduleId,
+        classGroup: { classRepId: session.user.id }
+      }
+    })
+
+    if (!schedule) {
+      return NextResponse.json({ error: 'Schedule not found or unauthorized' }, { status: 404 })
+    }
+
+    const now = new Date()
+
+    if (!classSessionId && schedule.dayOfWeek !== now.getUTCDay()) {
+      return NextResponse.json({ error: 'This class is not scheduled for today' }, { status: 400 })
+    }
+
+    const classSession = classSessionId
+      ? await prisma.classSession.findFirst({
+          where: {
+            id: classSessionId,
+            courseScheduleId: scheduleId,
+            date: toSessionDate(now)
+          }
+        })
+      : await getOrCreateClassSession(schedule, now)
+
+    if (!classSession) {
+      return NextResponse.json({ error: 'Class session not found for today' }, { status: 404 })
+    }
+
+    if (classSession.status === 'cancelled' || classSession.status === 'rescheduled') {
+      return NextResponse.json({ error: `This class session has been ${classSession.status}` }, { status: 400 })
+    }
+
+    const qrToken = createAttendanceQrToken({
+      scheduleId,
+      classSessionId: classSession.id,
+      date: classSession.date
+    }, now)
+
+    return NextResponse.json({
+      token: qrToken.token,
+      classSessionId: classSession.id,
+      issuedAt: qrToken.issuedAt,
+      expiresAt: qrToken.expiresAt,
+      rotationSeconds: QR_TOKEN_ROTATION_SECONDS
+    })
+  } catch (error) {
+    console.error('Error issuing attendance QR token:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -67,6 +67,9 @@ export async function GET(request: NextRequest) {
         supervisorComment: true,
         gpsLatitude: true,
         gpsLongitude: true,
+        sessionEndTime: true,
+        lateMinutes: true,
+        earlyLeaveMinutes: true,
         lecturer: {
           select: {
             user: {
@@ -115,6 +118,9 @@ export async function GET(request: NextRequest) {
       supervisorComment: record.supervisorComment,
       gpsLatitude: record.gpsLatitude,
       gpsLongitude: record.gpsLongitude,
+      sessionEndTime: record.sessionEndTime,
+      lateMinutes: record.lateMinutes,
+      earlyLeaveMinutes: record.earlyLeaveMinutes,
       sessionType: record.courseSchedule?.sessionType || 'Unknown',
       course: {
         title: record.courseSchedule?.course?.title || 'Unknown',
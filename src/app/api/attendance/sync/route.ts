@@ -3,7 +3,11 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth-config';
 import { prisma } from '@/lib/db';
 import { z } from 'zod';
-import { isLocationValid } from '@/lib/geolocation';
+import { verifyLocationForAttendance, resolveAttendanceGeofences } from '@/lib/geolocation';
+import { getOrCreateClassSession, updateClassSessionStatus } from '@/lib/class-sessions';
+import { analyzeAttendanceRecord } from '@/lib/attendance-anomalies';
+import { reconcileAfterSignal } from '@/lib/session-reconciliation';
+import { publishScheduleEvent } from '@/lib/realtime-events';
 
 const syncAttendanceSchema = z.object({
   sessionId: z.string(),
@@ -15,6 +19,7 @@ const syncAttendanceSchema = z.object({
   location: z.object({
     latitude: z.number(),
     longitude: z.number(),
+    accuracy: z.number().optional(),
   }).nullable().optional(),
   timestamp: z.string(),
 });
@@ -70,18 +75,15 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Session not found' }, { status: 404 });
     }
 
-    // Check if attendance already exists for this session and roughly this time
-    // This helps prevent duplicates if sync happens multiple times
+    // Offline records attach to the occurrence on the day they were captured,
+    // so repeated syncs of the same record are recognised as duplicates
     const recordTimestamp = new Date(timestamp);
+    const classSession = await getOrCreateClassSession(schedule, recordTimestamp);
+
     const existingRecord = await prisma.attendanceRecord.findFirst({
       where: {
-        courseScheduleId: sessionId,
+        classSessionId: classSession.id,
         lecturerId: lecturer.id,
-        timestamp: {
-          // Check within a 5 minute window of the original timestamp
-          gte: new Date(recordTimestamp.getTime() - 5 * 60 * 1000),
-          lte: new Date(recordTimestamp.getTime() + 5 * 60 * 1000),
-        }
       }
     });
 
@@ -94,16 +96,13 @@ export async function POST(request: NextRequest) {
     }
 
     let locationVerified = false;
-    if (location && schedule.classroom && schedule.classroom.building) {
-        const building = schedule.classroom.building;
-        const isNearby = isLocationValid(
-            location.latitude, 
-            location.longitude, 
-            building.gpsLatitude, 
-            building.gpsLongitude, 
-            100 // 100 meters radius
+    let locationVerification = null;
+    if (location && schedule.classroom) {
+        locationVerification = verifyLocationForAttendance(
+            { latitude: location.latitude, longitude: location.longitude },
+            resolveAttendanceGeofences(schedule.classroom)
         );
-        locationVerified = isNearby;
+        locationVerified = locationVerification.verified;
     }
 
     // Determine if this is a virtual session (no classroom assigned)
@@ -114,16 +113,37 @@ export async function POST(request: NextRequest) {
       data: {
         lecturerId: lecturer.id,
         courseScheduleId: sessionId,
+        classSessionId: classSession.id,
         timestamp: recordTimestamp,
         gpsLatitude: location?.latitude || null,
         gpsLongitude: location?.longitude || null,
+        locationAccuracy: location?.accuracy ?? null,
         locationVerified: locationVerified,
+        geofenceType: locationVerification?.geofence?.type || null,
+        geofenceId: locationVerification?.geofence?.id || null,
+        locationDistance: locationVerification?.distance ?? null,
         method: isVirtual ? 'virtual' : 'onsite',
         studentAttendanceData: isVirtual ? null : JSON.stringify(attendanceRecords),
         remarks: notes,
       },
     });
 
+    await updateClassSessionStatus(classSession, 'held');
+
+    try {
+      await analyzeAttendanceRecord(newRecord.id);
+    } catch (error) {
+      console.error('Error analysing synced attendance record for anomalies:', error);
+    }
+
+    await reconcileAfterSignal(classSession.id);
+
+    await publishScheduleEvent('attendance.recorded', sessionId, {
+      attendanceRecordId: newRecord.id,
+      classSessionId: classSession.id,
+      method: newRecord.method
+    });
+
     return NextResponse.json({ 
         success: true, 
         message: 'Attendance synced successfully',
@@ -1,21 +1,51 @@
 import { NextRequest } from 'next/server'
 import { getServerSession } from 'next-auth/next'
-import { verifyLocationForAttendance } from '@/lib/geolocation'
+import { verifyLocationForAttendance, resolveAttendanceGeofences } from '@/lib/geolocation'
+import { getOrCreateClassSession, updateClassSessionStatus } from '@/lib/class-sessions'
+import { verifyAttendanceQrToken } from '@/lib/attendance-qr'
+import { analyzeAttendanceRecord } from '@/lib/attendance-anomalies'
+import { applyVerificationRules } from '@/lib/verification-rules'
+import { generateDeviceFingerprint } from '@/lib/virtual-verification'
 
 jest.mock('next-auth/next')
 jest.mock('@/lib/geolocation')
+jest.mock('@/lib/class-sessions')
+jest.mock('@/lib/attendance-qr')
+jest.mock('@/lib/attendance-anomalies')
+jest.mock('@/lib/punctuality', () => ({
+  ...jest.requireActual('@/lib/punctuality'),
+  getPunctualitySettings: jest.fn(() => Promise.resolve({ lateGraceMinutes: 10, earlyLeaveGraceMinutes: 10 }))
+}))
+jest.mock('@/lib/verification-rules', () => ({
+  getVerificationPolicy: jest.fn(() => Promise.resolve({
+    policy: {
+      virtualTimeWindowMinutes: 120,
+      minimumSessionDurationPercentage: 0.75,
+      geofenceRadiusMeters: 250,
+      requireQrCheckIn: false,
+      maxLateMinutes: null,
+      requireCheckOut: false,
+      supervisorPresentStatuses: ['ongoing', 'online']
+    },
+    scopes: ['default']
+  })),
+  applyVerificationRules: jest.fn()
+}))
 jest.mock('@/lib/auth-config', () => ({
   authOptions: {}
 }))
 jest.mock('@/lib/virtual-verification', () => ({
   verifyVirtualClassroom: jest.fn(),
-  generateDeviceFingerprint: jest.fn(() => 'device-fingerprint'),
-  getClientIpAddress: jest.fn(() => '127.0.0.1')
+  generateDeviceFingerprint: jest.fn(() => 'device-fingerprint')
+}))
+jest.mock('@/lib/login-security', () => ({
+  clientIpAddress: jest.fn(() => '127.0.0.1')
 }))
 
 const findFirstLecturer = jest.fn()
 const findFirstSchedule = jest.fn()
 const findFirstRecord = jest.fn()
+const findUniqueRecord = jest.fn()
 const createRecord = jest.fn()
 const createAuditLog = jest.fn()
 
@@ -29,6 +59,7 @@ jest.mock('@/lib/db', () => ({
     },
     attendanceRecord: {
       findFirst: (...args: any[]) => findFirstRecord(...args),
+      findUnique: (...args: any[]) => findUniqueRecord(...args),
       create: (...args: any[]) => createRecord(...args),
       update: jest.fn(),
     },
@@ -42,13 +73,38 @@ import { POST } from '../route'
 
 const mockGetServerSession = getServerSession as jest.MockedFunction<typeof getServerSession>
 const mockVerifyLocationForAttendance = verifyLocationForAttendance as jest.MockedFunction<typeof verifyLocationForAttendance>
+const mockResolveAttendanceGeofences = resolveAttendanceGeofences as jest.MockedFunction<typeof resolveAttendanceGeofences>
+const mockGetOrCreateClassSession = getOrCreateClassSession as jest.MockedFunction<typeof getOrCreateClassSession>
+const mockUpdateClassSessionStatus = updateClassSessionStatus as jest.MockedFunction<typeof updateClassSessionStatus>
+const mockVerifyAttendanceQrToken = verifyAttendanceQrToken as jest.MockedFunction<typeof verifyAttendanceQrToken>
+const mockAnalyzeAttendanceRecord = analyzeAttendanceRecord as jest.MockedFunction<typeof analyzeAttendanceRecord>
+const mockApplyVerificationRules = applyVerificationRules as jest.MockedFunction<typeof applyVerificationRules>
+const mockGenerateDeviceFingerprint = generateDeviceFingerprint as jest.MockedFunction<typeof generateDeviceFingerprint>
+
+const buildingGeofence = {
+  type: 'building' as const,
+  id: 'building-123',
+  name: 'Main Academic Building',
+  center: { latitude: 5.6037, longitude: -0.187 },
+  radius: 300
+}
+
+const classSession = {
+  id: 'session-123',
+  courseScheduleId: 'schedule-123',
+  date: new Date('2026-04-27T00:00:00.000Z'),
+  startTime: '09:00',
+  endTime: '11:00',
+  status: 'scheduled'
+}
 
 const onsiteRequestBody = {
   scheduleId: 'schedule-123',
   latitude: 5.6037,
   longitude: -0.187,
   method: 'onsite' as const,
-  remarks: 'On campus'
+  remarks: 'On campus',
+  deviceId: 'device-123'
 }
 
 const lecturer = {
@@ -80,6 +136,8 @@ const schedule = {
 describe('/api/attendance/take', () => {
   beforeEach(() => {
     jest.clearAllMocks()
+    mockResolveAttendanceGeofences.mockReturnValue([buildingGeofence])
+    mockGetOrCreateClassSession.mockResolvedValue(classSession as any)
   })
 
   it('records onsite attendance successfully', async () => {
@@ -95,8 +153,10 @@ describe('/api/attendance/take', () => {
     mockVerifyLocationForAttendance.mockReturnValue({
       verified: true,
       distance: 150,
-      withinRadius: true
-    } as any)
+      withinRadius: true,
+      radius: 300,
+      geofence: buildingGeofence
+    })
     createRecord.mockResolvedValue({
       id: 'attendance-123',
       timestamp: new Date('2026-04-27T09:30:00.000Z'),
@@ -116,23 +176,263 @@ describe('/api/attendance/take', () => {
     expect(response.status).toBe(200)
     expect(data.success).toBe(true)
     expect(data.message).toBe('Attendance recorded successfully')
+    expect(mockResolveAttendanceGeofences).toHaveBeenCalledWith(schedule.classroom, 250)
     expect(mockVerifyLocationForAttendance).toHaveBeenCalledWith({
       latitude: onsiteRequestBody.latitude,
       longitude: onsiteRequestBody.longitude
-    })
+    }, [buildingGeofence])
     expect(createRecord).toHaveBeenCalledWith({
       data: expect.objectContaining({
         lecturerId: lecturer.id,
         courseScheduleId: onsiteRequestBody.scheduleId,
+        classSessionId: classSession.id,
         gpsLatitude: onsiteRequestBody.latitude,
         gpsLongitude: onsiteRequestBody.longitude,
         locationVerified: true,
         method: 'onsite',
         remarks: onsiteRequestBody.remarks,
         sessionDurationMet: true,
+        geofenceType: 'building',
+        geofenceId: 'building-123',
+        locationDistance: 150,
+        deviceFingerprint: 'device-fingerprint',
+        ipAddress: '127.0.0.1',
       })
     })
+    expect(findFirstRecord).toHaveBeenCalledWith({
+      where: { lecturerId: lecturer.id, classSessionId: classSession.id }
+    })
+    expect(mockUpdateClassSessionStatus).toHaveBeenCalledWith(classSession, 'held')
+    expect(mockAnalyzeAttendanceRecord).toHaveBeenCalledWith('attendance-123')
+    expect(mockApplyVerificationRules).toHaveBeenCalledWith('attendance-123')
+    expect(mockGenerateDeviceFingerprint).toHaveBeenCalledWith('device-123')
+    expect(createAuditLog).toHaveBeenCalled()
+  })
+
+  it('records no device fingerprint when the browser sends no device ID', async () => {
+    mockGetServerSession.mockResolvedValue({
+      user: {
+        id: 'user-123',
+        role: 'LECTURER',
+      }
+    } as any)
+    findFirstLecturer.mockResolvedValue(lecturer)
+    findFirstSchedule.mockResolvedValue(schedule)
+    findFirstRecord.mockResolvedValue(null)
+    mockVerifyLocationForAttendance.mockReturnValue({
+      verified: true,
+      distance: 150,
+      withinRadius: true,
+      radius: 300,
+      geofence: buildingGeofence
+    })
+    createRecord.mockResolvedValue({
+      id: 'attendance-123',
+      timestamp: new Date('2026-04-27T09:30:00.000Z'),
+      locationVerified: true,
+      method: 'onsite',
+    })
+    const request = new NextRequest('http://localhost:3000/api/attendance/take', {
+      method: 'POST',
+      body: JSON.stringify({ ...onsiteRequestBody, deviceId: undefined })
+    })
+
+    const response = await POST(request)
+
+    expect(response.status).toBe(200)
+    expect(mockGenerateDeviceFingerprint).not.toHaveBeenCalled()
+    expect(createRecord).toHaveBeenCalledWith({
+      data: expect.objectContaining({ deviceFingerprint: null })
+    })
+  })
+
+  it('still records attendance when anomaly analysis fails', async () => {
+    mockGetServerSession.mockResolvedValue({
+      user: {
+        id: 'user-123',
+        role: 'LECTURER',
+      }
+    } as any)
+    findFirstLecturer.mockResolvedValue(lecturer)
+    findFirstSchedule.mockResolvedValue(schedule)
+    findFirstRecord.mockResolvedValue(null)
+    mockVerifyLocationForAttendance.mockReturnValue({
+      verified: true,
+      distance: 150,
+      withinRadius: true,
+      radius: 300,
+      geofence: buildingGeofence
+    })
+    createRecord.mockResolvedValue({
+      id: 'attendance-123',
+      timestamp: new Date('2026-04-27T09:30:00.000Z'),
+      locationVerified: true,
+      method: 'onsite',
+    })
+    mockAnalyzeAttendanceRecord.mockRejectedValueOnce(new Error('Database unavailable'))
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {})
+
+    const request = new NextRequest('http://localhost:3000/api/attendance/take', {
+      method: 'POST',
+      body: JSON.stringify({ ...onsiteRequestBody, accuracy: 12 })
+    })
+
+    const response = await POST(request)
+
+    expect(response.status).toBe(200)
+    expect(createRecord).toHaveBeenCalledWith({
+      data: expect.objectContaining({ locationAccuracy: 12 })
+    })
     expect(createAuditLog).toHaveBeenCalled()
+    consoleError.mockRestore()
+  })
+
+  it('records QR attendance when both the code and GPS check out', async () => {
+    mockGetServerSession.mockResolvedValue({
+      user: {
+        id: 'user-123',
+        role: 'LECTURER',
+      }
+    } as any)
+    findFirstLecturer.mockResolvedValue(lecturer)
+    findFirstSchedule.mockResolvedValue(schedule)
+    findFirstRecord.mockResolvedValue(null)
+    findUniqueRecord.mockResolvedValue(null)
+    mockVerifyAttendanceQrToken.mockReturnValue({
+      valid: true,
+      payload: {
+        scheduleId: 'schedule-123',
+        classSessionId: classSession.id,
+        date: '2026-04-27',
+        issuedAt: Date.now(),
+        nonce: 'nonce-123'
+      }
+    })
+    mockVerifyLocationForAttendance.mockReturnValue({
+      verified: true,
+      distance: 40,
+      withinRadius: true,
+      radius: 300,
+      geofence: buildingGeofence
+    })
+    createRecord.mockResolvedValue({
+      id: 'attendance-123',
+      timestamp: new Date('2026-04-27T09:30:00.000Z'),
+      locationVerified: true,
+      qrVerified: true,
+      method: 'qr',
+    })
+
+    const request = new NextRequest('http://localhost:3000/api/attendance/take', {
+      method: 'POST',
+      body: JSON.stringify({ ...onsiteRequestBody, method: 'qr', qrToken: 'signed-token' })
+    })
+
+    const response = await POST(request)
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.record.qrVerified).toBe(true)
+    expect(mockVerifyAttendanceQrToken).toHaveBeenCalledWith('signed-token', {
+      scheduleId: 'schedule-123',
+      classSessionId: classSession.id
+    }, expect.any(Date))
+    expect(findUniqueRecord).toHaveBeenCalledWith({ where: { qrTokenNonce: 'nonce-123' } })
+    expect(mockVerifyLocationForAttendance).toHaveBeenCalled()
+    expect(createRecord).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        method: 'qr',
+        locationVerified: true,
+        qrVerified: true,
+        qrTokenNonce: 'nonce-123',
+        sessionDurationMet: true,
+      })
+    })
+  })
+
+  it('rejects a QR code that has already been used', async () => {
+    mockGetServerSession.mockResolvedValue({
+      user: {
+        id: 'user-123',
+        role: 'LECTURER',
+      }
+    } as any)
+    findFirstLecturer.mockResolvedValue(lecturer)
+    findFirstSchedule.mockResolvedValue(schedule)
+    findFirstRecord.mockResolvedValue(null)
+    findUniqueRecord.mockResolvedValue({ id: 'attendance-999' })
+    mockVerifyAttendanceQrToken.mockReturnValue({
+      valid: true,
+      payload: {
+        scheduleId: 'schedule-123',
+        classSessionId: classSession.id,
+        date: '2026-04-27',
+        issuedAt: Date.now(),
+        nonce: 'nonce-123'
+      }
+    })
+
+    const request = new NextRequest('http://localhost:3000/api/attendance/take', {
+      method: 'POST',
+      body: JSON.stringify({ ...onsiteRequestBody, method: 'qr', qrToken: 'signed-token' })
+    })
+
+    const response = await POST(request)
+    const data = await response.json()
+
+    expect(response.status).toBe(400)
+    expect(data.error).toBe('This QR code has already been used')
+    expect(createRecord).not.toHaveBeenCalled()
+  })
+
+  it('rejects an invalid or expired QR code', async () => {
+    mockGetServerSession.mockResolvedValue({
+      user: {
+        id: 'user-123',
+        role: 'LECTURER',
+      }
+    } as any)
+    findFirstLecturer.mockResolvedValue(lecturer)
+    findFirstSchedule.mockResolvedValue(schedule)
+    findFirstRecord.mockResolvedValue(null)
+    mockVerifyAttendanceQrToken.mockReturnValue({ valid: false, error: 'QR code has expired. Scan the code currently shown by the class rep' })
+
+    const request = new NextRequest('http://localhost:3000/api/attendance/take', {
+      method: 'POST',
+      body: JSON.stringify({ ...onsiteRequestBody, method: 'qr', qrToken: 'old-token' })
+    })
+
+    const response = await POST(request)
+    const data = await response.json()
+
+    expect(response.status).toBe(400)
+    expect(data.error).toBe('QR code has expired. Scan the code currently shown by the class rep')
+    expect(findUniqueRecord).not.toHaveBeenCalled()
+    expect(createRecord).not.toHaveBeenCalled()
+  })
+
+  it('rejects attendance for a cancelled class session', async () => {
+    mockGetServerSession.mockResolvedValue({
+      user: {
+        id: 'user-123',
+        role: 'LECTURER',
+      }
+    } as any)
+    findFirstLecturer.mockResolvedValue(lecturer)
+    findFirstSchedule.mockResolvedValue(schedule)
+    mockGetOrCreateClassSession.mockResolvedValue({ ...classSession, status: 'cancelled' } as any)
+
+    const request = new NextRequest('http://localhost:3000/api/attendance/take', {
+      method: 'POST',
+      body: JSON.stringify(onsiteRequestBody)
+    })
+
+    const response = await POST(request)
+    const data = await response.json()
+
+    expect(response.status).toBe(400)
+    expect(data.error).toBe('This class session has been cancelled')
+    expect(createRecord).not.toHaveBeenCalled()
   })
 
   it('rejects onsite attendance outside the allowed location radius', async () => {
@@ -148,8 +448,10 @@ describe('/api/attendance/take', () => {
     mockVerifyLocationForAttendance.mockReturnValue({
       verified: false,
       distance: 500,
-      withinRadius: false
-    } as any)
+      withinRadius: false,
+      radius: 300,
+      geofence: null
+    })
 
     const request = new NextRequest('http://localhost:3000/api/attendance/take', {
       method: 'POST',
@@ -160,7 +462,7 @@ describe('/api/attendance/take', () => {
     const data = await response.json()
 
     expect(response.status).toBe(400)
-    expect(data.error).toBe('Location verification failed: You are 500m away from campus (max allowed: 300m)')
+    expect(data.error).toBe('Location verification failed: You are 500m away from Main Academic Building (max allowed: 300m)')
     expect(createRecord).not.toHaveBeenCalled()
   })
 
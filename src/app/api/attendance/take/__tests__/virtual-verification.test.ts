@@ -6,9 +6,31 @@ import { verifyVirtualClassroom } from '@/lib/virtual-verification'
 // Mock dependencies
 jest.mock('next-auth/next')
 jest.mock('@/lib/virtual-verification')
+jest.mock('@/lib/attendance-anomalies')
+jest.mock('@/lib/verification-rules', () => ({
+  getVerificationPolicy: jest.fn(() => Promise.resolve({
+    policy: { virtualTimeWindowMinutes: 120, minimumSessionDurationPercentage: 0.75, geofenceRadiusMeters: 300 },
+    scopes: []
+  })),
+  applyVerificationRules: jest.fn()
+}))
+jest.mock('@/lib/punctuality', () => ({
+  ...jest.requireActual('@/lib/punctuality'),
+  getPunctualitySettings: jest.fn(() => Promise.resolve({ lateGraceMinutes: 10, earlyLeaveGraceMinutes: 10 }))
+}))
 jest.mock('@/lib/auth-config', () => ({
   authOptions: {}
 }))
+jest.mock('@/lib/class-sessions', () => ({
+  getOrCreateClassSession: jest.fn(() => Promise.resolve({
+    id: 'session-123',
+    date: new Date('2026-04-27T00:00:00.000Z'),
+    startTime: '09:00',
+    endTime: '11:00',
+    status: 'scheduled'
+  })),
+  updateClassSessionStatus: jest.fn()
+}))
 
 // Create mocks for the prisma methods we need
 const findFirstLecturer = jest.fn()
@@ -1,19 +1,32 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth/next'
 import { prisma } from '@/lib/db'
+import { auditActor } from '@/lib/audit'
 import { authOptions } from '@/lib/auth-config'
-import { verifyLocationForAttendance } from '@/lib/geolocation'
-import { verifyVirtualClassroom, generateDeviceFingerprint, getClientIpAddress } from '@/lib/virtual-verification'
+import { verifyLocationForAttendance, resolveAttendanceGeofences, LocationVerificationResult } from '@/lib/geolocation'
+import { verifyVirtualClassroom, generateDeviceFingerprint } from '@/lib/virtual-verification'
+import { clientIpAddress } from '@/lib/login-security'
 import { resolveMeetingLink } from '@/lib/meeting-link'
+import { getOrCreateClassSession, toSessionDate, updateClassSessionStatus } from '@/lib/class-sessions'
+import { verifyAttendanceQrToken, AttendanceQrPayload } from '@/lib/attendance-qr'
+import { analyzeAttendanceRecord } from '@/lib/attendance-anomalies'
+import { getPunctualitySettings, calculateLateMinutes, calculateEarlyLeaveMinutes } from '@/lib/punctuality'
+import { getVerificationPolicy, applyVerificationRules } from '@/lib/verification-rules'
+import { reconcileAfterSignal } from '@/lib/session-reconciliation'
+import { publishScheduleEvent } from '@/lib/realtime-events'
 import { z } from 'zod'
 
 const takeAttendanceSchema = z.object({
   scheduleId: z.string(),
+  classSessionId: z.string().optional(), // Set when taking attendance for a make-up session
   latitude: z.number().optional(),
   longitude: z.number().optional(),
-  method: z.enum(['onsite', 'virtual']),
+  accuracy: z.number().optional(), // Reported GPS accuracy in metres
+  method: z.enum(['onsite', 'virtual', 'qr']),
+  qrToken: z.string().optional(), // Code scanned from the class rep's screen for the qr method
   action: z.enum(['start', 'end']).optional(), // For virtual sessions
-  remarks: z.string().optional()
+  remarks: z.string().optional(),
+  deviceId: z.string().max(100).optional() // Random ID the browser keeps in local storage
 })
 
 export async function POST(request: NextRequest) {
@@ -25,13 +38,17 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { scheduleId, latitude, longitude, method, action, remarks } = takeAttendanceSchema.parse(body)
+    const { scheduleId, classSessionId, latitude, longitude, accuracy, method, qrToken, action, remarks, deviceId } = takeAttendanceSchema.parse(body)
     
     // Validate required fields based on method
-    if (method === 'onsite' && (!latitude || !longitude)) {
+    if ((method === 'onsite' || method === 'qr') && (!latitude || !longitude)) {
       return NextResponse.json({ error: 'GPS coordinates are required for onsite attendance' }, { status: 400 })
     }
 
+    if (method === 'qr' && !qrToken) {
+      return NextResponse.json({ error: 'A scanned QR code is required for QR attendance' }, { status: 400 })
+    }
+
     // Get lecturer info
     const lecturer = await prisma.lecturer.findFirst({
       where: { userId: session.user.id }
@@ -69,35 +86,54 @@ export async function POST(request: NextRequest) {
 
     // Get client information for virtual sessions
     const userAgent = request.headers.get('user-agent') || 'unknown'
-    const ipAddress = getClientIpAddress(request.headers)
-    const deviceFingerprint = generateDeviceFingerprint(userAgent, ipAddress)
+    const ipAddress = clientIpAddress(request.headers) ?? 'unknown'
+    // Without a device ID there is nothing stable to compare, so the device checks skip the record
+    const deviceFingerprint = deviceId ? generateDeviceFingerprint(deviceId) : null
+
+    // Attendance attaches to today's occurrence of the schedule, or to a make-up held today
+    const recordTimestamp = new Date()
+    const classSession = classSessionId
+      ? await prisma.classSession.findFirst({
+          where: {
+            id: classSessionId,
+            courseScheduleId: scheduleId,
+            date: toSessionDate(recordTimestamp)
+          }
+        })
+      : await getOrCreateClassSession(schedule, recordTimestamp)
+
+    if (!classSession) {
+      return NextResponse.json({ error: 'Class session not found for today' }, { status: 404 })
+    }
+
+    // Make-ups keep their own time and may be in a different room
+    const scheduledStartTime = classSession.startTime
+    const scheduledEndTime = classSession.endTime
+    const sessionClassroom = classSession.classroomId
+      ? await prisma.classroom.findUnique({
+          where: { id: classSession.classroomId },
+          include: { building: true }
+        })
+      : schedule.classroom
+
+    if (classSession.status === 'cancelled' || classSession.status === 'rescheduled') {
+      return NextResponse.json({ error: `This class session has been ${classSession.status}` }, { status: 400 })
+    }
 
-    // Check if attendance already recorded today
-    // Use current date
-    const today = new Date()
-    
-    // Create simulated timestamp preserving current time
-    const now = new Date()
-    const recordTimestamp = new Date(today)
-    recordTimestamp.setUTCHours(now.getUTCHours(), now.getUTCMinutes(), now.getUTCSeconds(), now.getUTCMilliseconds())
-    
-    const startOfDay = new Date(today)
-    startOfDay.setUTCHours(0, 0, 0, 0)
-    
-    const endOfDay = new Date(today)
-    endOfDay.setUTCHours(23, 59, 59, 999)
-    
     const existingRecord = await prisma.attendanceRecord.findFirst({
       where: {
         lecturerId: lecturer.id,
-        courseScheduleId: scheduleId,
-        timestamp: {
-          gte: startOfDay,
-          lt: endOfDay
-        }
+        classSessionId: classSession.id
       }
     })
 
+    const punctualitySettings = await getPunctualitySettings()
+    const { policy } = await getVerificationPolicy({
+      programmeId: schedule.classGroup.programmeId,
+      deliveryMode: schedule.classGroup.deliveryMode,
+      sessionType: schedule.sessionType
+    })
+
     // Handle virtual session actions (start/end)
     if (method === 'virtual' && action) {
       if (action === 'start') {
@@ -108,10 +144,12 @@ export async function POST(request: NextRequest) {
         // Verify virtual classroom requirements
         const virtualVerification = await verifyVirtualClassroom({
           meetingLink: resolvedMeetingLink || '',
-          scheduledStartTime: schedule.startTime,
-          scheduledEndTime: schedule.endTime,
+          scheduledStartTime,
+          scheduledEndTime,
           userAgent,
-          ipAddress
+          ipAddress,
+          timeWindowMinutes: policy.virtualTimeWindowMinutes,
+          minimumSessionDurationPercentage: policy.minimumSessionDurationPercentage
         })
         
         if (!virtualVerification.verified) {
@@ -126,6 +164,7 @@ export async function POST(request: NextRequest) {
           data: {
             lecturerId: lecturer.id,
             courseScheduleId: scheduleId,
+            classSessionId: classSession.id,
             timestamp: new Date(),
             gpsLatitude: null,
             gpsLongitude: null,
@@ -137,12 +176,34 @@ export async function POST(request: NextRequest) {
             timeWindowVerified: virtualVerification.timeWindowVerified,
             meetingLinkVerified: virtualVerification.meetingLinkVerified,
             sessionDurationMet: false, // Will be updated when session ends
+            lateMinutes: calculateLateMinutes(recordTimestamp, classSession.date, scheduledStartTime, punctualitySettings.lateGraceMinutes),
             deviceFingerprint,
-            ipAddress
+            ipAddress,
+            userAgent
             // Explicitly ensure student data is not recorded here.
             // studentAttendanceData is left as null by default.
           }
         })
+
+        await updateClassSessionStatus(classSession, 'held')
+
+        try {
+          await analyzeAttendanceRecord(attendanceRecord.id)
+        } catch (error) {
+          console.error('Error analysing attendance record for anomalies:', error)
+        }
+
+        try {
+          await applyVerificationRules(attendanceRecord.id)
+        } catch (error) {
+          console.error('Error applying verification rules:', error)
+        }
+
+        await publishScheduleEvent('attendance.recorded', scheduleId, {
+          attendanceRecordId: attendanceRecord.id,
+          classSessionId: classSession.id,
+          method: attendanceRecord.method
+        })
         
         return NextResponse.json({
           success: true,
@@ -175,8 +236,9 @@ export async function POST(request: NextRequest) {
           const durationCheck = verifySessionDuration(
             existingRecord.sessionStartTime,
             sessionEndTime,
-            schedule.startTime,
-            schedule.endTime
+            scheduledStartTime,
+            scheduledEndTime,
+            policy.minimumSessionDurationPercentage
           )
           sessionDurationMet = durationCheck.verified
         }
@@ -185,9 +247,19 @@ export async function POST(request: NextRequest) {
           where: { id: existingRecord.id },
           data: {
             sessionEndTime,
-            sessionDurationMet
+            sessionDuration: existingRecord.sessionStartTime
+              ? Math.floor((sessionEndTime.getTime() - existingRecord.sessionStartTime.getTime()) / 60000)
+              : null,
+            sessionDurationMet,
+            earlyLeaveMinutes: calculateEarlyLeaveMinutes(sessionEndTime, classSession.date, scheduledEndTime, punctualitySettings.earlyLeaveGraceMinutes)
           }
         })
+
+        try {
+          await applyVerificationRules(updatedRecord.id)
+        } catch (error) {
+          console.error('Error applying verification rules:', error)
+        }
         
         return NextResponse.json({
           success: true,
@@ -212,15 +284,40 @@ export async function POST(request: NextRequest) {
     let timeWindowVerified = false
     let meetingLinkVerified = false
     let verificationErrors: string[] = []
-    let locationVerification: any = null
+    let locationVerification: LocationVerificationResult | null = null
+    let qrPayload: AttendanceQrPayload | null = null
+
+    if (method === 'qr') {
+      // The class rep's rotating code proves presence in the room; GPS is still checked below
+      const qrVerification = verifyAttendanceQrToken(qrToken!, {
+        scheduleId,
+        classSessionId: classSession.id
+      }, recordTimestamp)
+
+      if (!qrVerification.valid) {
+        return NextResponse.json({ error: qrVerification.error }, { status: 400 })
+      }
+
+      const replayedRecord = await prisma.attendanceRecord.findUnique({
+        where: { qrTokenNonce: qrVerification.payload.nonce }
+      })
+
+      if (replayedRecord) {
+        return NextResponse.json({ error: 'This QR code has already been used' }, { status: 400 })
+      }
 
-    if (method === 'onsite') {
-      // Verify GPS location for onsite attendance
-      locationVerification = verifyLocationForAttendance({ latitude: latitude!, longitude: longitude! })
+      qrPayload = qrVerification.payload
+    }
+
+    if (method === 'onsite' || method === 'qr') {
+      // Verify GPS location against the classroom -> building -> campus geofences
+      const geofences = resolveAttendanceGeofences(sessionClassroom, policy.geofenceRadiusMeters)
+      locationVerification = verifyLocationForAttendance({ latitude: latitude!, longitude: longitude! }, geofences)
       
       if (!locationVerification.verified) {
+        const target = sessionClassroom?.building?.name || 'campus'
         return NextResponse.json({ 
-          error: `Location verification failed: You are ${locationVerification.distance}m away from campus (max allowed: 300m)` 
+          error: `Location verification failed: You are ${locationVerification.distance}m away from ${target} (max allowed: ${locationVerification.radius}m)` 
         }, { status: 400 })
       }
       
@@ -228,15 +325,17 @@ export async function POST(request: NextRequest) {
     } else if (method === 'virtual') {
       console.log('Verifying virtual session for schedule:', schedule.id)
       console.log('Meeting Link:', resolvedMeetingLink)
-      console.log('Time:', schedule.startTime, '-', schedule.endTime)
+      console.log('Time:', scheduledStartTime, '-', scheduledEndTime)
 
       // Verify virtual classroom requirements
       const virtualVerification = await verifyVirtualClassroom({
         meetingLink: resolvedMeetingLink || '',
-        scheduledStartTime: schedule.startTime,
-        scheduledEndTime: schedule.endTime,
+        scheduledStartTime,
+        scheduledEndTime,
         userAgent,
-        ipAddress
+        ipAddress,
+        timeWindowMinutes: policy.virtualTimeWindowMinutes,
+        minimumSessionDurationPercentage: policy.minimumSessionDurationPercentage
       })
       
       console.log('Verification Result:', JSON.stringify(virtualVerification, null, 2))
@@ -257,6 +356,7 @@ export async function POST(request: NextRequest) {
       data: {
         lecturerId: lecturer.id,
         courseScheduleId: scheduleId,
+        classSessionId: classSession.id,
         timestamp: recordTimestamp,
         gpsLatitude: latitude || null,
         gpsLongitude: longitude || null,
@@ -267,26 +367,62 @@ export async function POST(request: NextRequest) {
         sessionStartTime: method === 'virtual' ? recordTimestamp : null,
         timeWindowVerified,
         meetingLinkVerified,
-        sessionDurationMet: method === 'onsite', // Onsite doesn't need duration check
-        deviceFingerprint: method === 'virtual' ? deviceFingerprint : null,
-        ipAddress: method === 'virtual' ? ipAddress : null,
+        sessionDurationMet: method !== 'virtual', // Onsite doesn't need duration check
+        lateMinutes: calculateLateMinutes(recordTimestamp, classSession.date, scheduledStartTime, punctualitySettings.lateGraceMinutes),
+        locationAccuracy: accuracy ?? null,
+        deviceFingerprint,
+        ipAddress,
+        userAgent,
+        geofenceType: locationVerification?.geofence?.type || null,
+        geofenceId: locationVerification?.geofence?.id || null,
+        locationDistance: locationVerification?.distance ?? null,
+        qrVerified: !!qrPayload,
+        qrTokenNonce: qrPayload?.nonce ?? null,
         remarks: remarks || null
       }
     })
 
+    await updateClassSessionStatus(classSession, 'held')
+
+    // Anomaly checks must never block a check-in that has already been stored
+    try {
+      await analyzeAttendanceRecord(attendanceRecord.id)
+    } catch (error) {
+      console.error('Error analysing attendance record for anomalies:', error)
+    }
+
+    try {
+      await applyVerificationRules(attendanceRecord.id)
+    } catch (error) {
+      console.error('Error applying verification rules:', error)
+    }
+
+    await reconcileAfterSignal(classSession.id)
+
+    await publishScheduleEvent('attendance.recorded', schedule.id, {
+      attendanceRecordId: attendanceRecord.id,
+      classSessionId: classSession.id,
+      method: attendanceRecord.method
+    })
+
     // Create audit log
     await prisma.auditLog.create({
       data: {
-        userId: session.user.id,
+        ...auditActor(session.user),
         action: 'ATTENDANCE_RECORDED',
         targetType: 'AttendanceRecord',
         targetId: attendanceRecord.id,
         metadata: JSON.stringify({
           scheduleId,
+          classSessionId: classSession.id,
           course: schedule.course.name,
           classGroup: schedule.classGroup.name,
           location: { latitude, longitude },
-          distance: locationVerification?.distance || null
+          distance: locationVerification?.distance ?? null,
+          qrVerified: !!qrPayload,
+          geofence: locationVerification?.geofence
+            ? { type: locationVerification.geofence.type, id: locationVerification.geofence.id, name: locationVerification.geofence.name }
+            : null
         })
       }
     })
@@ -300,7 +436,13 @@ export async function POST(request: NextRequest) {
         classGroup: schedule.classGroup.name,
         timestamp: attendanceRecord.timestamp,
         locationVerified: attendanceRecord.locationVerified,
-        method: attendanceRecord.method
+        qrVerified: attendanceRecord.qrVerified,
+        method: attendanceRecord.method,
+        lateMinutes: attendanceRecord.lateMinutes,
+        classSessionId: classSession.id,
+        geofence: locationVerification?.geofence
+          ? { type: locationVerification.geofence.type, name: locationVerification.geofence.name, distance: locationVerification.distance }
+          : null
       }
     })
   } catch (error) {
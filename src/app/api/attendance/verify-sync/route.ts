@@ -2,6 +2,12 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth-config';
 import { prisma } from '@/lib/db';
+import { auditActor } from '@/lib/audit';
+import { applyVerificationRules } from '@/lib/verification-rules';
+import { ATTENDANCE_LOCKED_ERROR } from '@/lib/claims';
+import { getAttendanceVerificationUpdate, reconcileAfterSignal } from '@/lib/session-reconciliation';
+import { publishScheduleEvent } from '@/lib/realtime-events';
+import { checkAttendanceRecordScope } from '@/lib/supervisor-assignments';
 import { z } from 'zod';
 
 const verifySyncSchema = z.object({
@@ -59,19 +65,40 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    const scopeError = await checkAttendanceRecordScope(session.user, attendanceRecord.id);
+    if (scopeError) {
+      return NextResponse.json({ error: scopeError }, { status: 403 });
+    }
+
+    if (attendanceRecord.lockedAt) {
+      return NextResponse.json({ error: ATTENDANCE_LOCKED_ERROR }, { status: 400 });
+    }
+
     // Update the attendance record with verification
     await prisma.attendanceRecord.update({
       where: { id: attendanceRecordId },
-      data: {
-        supervisorVerified: verified,
-        supervisorComment: comment || null
-      }
+      data: getAttendanceVerificationUpdate(session.user.role, attendanceRecord, verified, comment, session.user.id)
+    });
+
+    try {
+      await applyVerificationRules(attendanceRecordId);
+    } catch (error) {
+      console.error('Error applying verification rules:', error);
+    }
+
+    await reconcileAfterSignal(attendanceRecord.classSessionId);
+
+    await publishScheduleEvent('attendance.verified', attendanceRecord.courseScheduleId, {
+      attendanceRecordId,
+      classSessionId: attendanceRecord.classSessionId,
+      verified,
+      verifiedByRole: session.user.role
     });
 
     // Create audit log
     await prisma.auditLog.create({
       data: {
-        userId: session.user.id,
+        ...auditActor(session.user),
         action: 'ATTENDANCE_VERIFIED_SYNC',
         targetType: 'AttendanceRecord',
         targetId: attendanceRecord.id,
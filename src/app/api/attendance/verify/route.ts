@@ -1,7 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth/next'
 import { prisma } from '@/lib/db'
+import { auditActor } from '@/lib/audit'
 import { authOptions } from '@/lib/auth-config'
+import { applyVerificationRules, parseRuleResults } from '@/lib/verification-rules'
+import { ATTENDANCE_LOCKED_ERROR } from '@/lib/claims'
+import { enhancedNotificationService } from '@/lib/enhanced-notifications'
+import { getAttendanceVerificationUpdate, reconcileAfterSignal } from '@/lib/session-reconciliation'
+import { publishScheduleEvent } from '@/lib/realtime-events'
+import { checkAttendanceRecordScope } from '@/lib/supervisor-assignments'
 import { z } from 'zod'
 
 
@@ -32,6 +39,9 @@ export async function POST(request: NextRequest) {
         timestamp: true,
         supervisorVerified: true,
         supervisorComment: true,
+        classRepVerified: true,
+        classSessionId: true,
+        lockedAt: true,
         courseSchedule: {
           select: {
             classGroupId: true, // Needed for Class Rep check
@@ -47,6 +57,7 @@ export async function POST(request: NextRequest) {
             },
             lecturer: {
               select: {
+                userId: true,
                 user: {
                   select: {
                     firstName: true,
@@ -75,24 +86,61 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Check if already verified
-    if (attendanceRecord.supervisorVerified !== null) {
+    const scopeError = await checkAttendanceRecordScope(session.user, attendanceRecord.id)
+    if (scopeError) {
+      return NextResponse.json({ error: scopeError }, { status: 403 })
+    }
+
+    if (attendanceRecord.lockedAt) {
+      return NextResponse.json({ error: ATTENDANCE_LOCKED_ERROR }, { status: 400 })
+    }
+
+    // Check if already verified; class reps give their own account alongside the supervisor's
+    const alreadyVerified = session.user.role === 'CLASS_REP'
+      ? attendanceRecord.classRepVerified !== null
+      : attendanceRecord.supervisorVerified !== null
+    if (alreadyVerified) {
       return NextResponse.json({ error: 'Attendance already verified' }, { status: 400 })
     }
 
     // Update the attendance record with verification
     const updatedRecord = await prisma.attendanceRecord.update({
       where: { id: attendanceRecordId },
-      data: {
-        supervisorVerified: verified,
-        supervisorComment: comment || null
-      }
+      data: getAttendanceVerificationUpdate(session.user.role, attendanceRecord, verified, comment, session.user.id)
+    })
+
+    try {
+      await applyVerificationRules(attendanceRecordId)
+    } catch (error) {
+      console.error('Error applying verification rules:', error)
+    }
+
+    await reconcileAfterSignal(attendanceRecord.classSessionId)
+
+    await publishScheduleEvent('attendance.verified', updatedRecord.courseScheduleId, {
+      attendanceRecordId,
+      classSessionId: attendanceRecord.classSessionId,
+      verified,
+      verifiedByRole: session.user.role
     })
 
+    // Let the lecturer know they can appeal
+    if (updatedRecord.supervisorVerified === false && attendanceRecord.supervisorVerified === null) {
+      await enhancedNotificationService.sendNotification({
+        userId: attendanceRecord.courseSchedule.lecturer.userId,
+        title: 'Attendance Not Verified',
+        message: `Your attendance for ${attendanceRecord.courseSchedule.course.title} (${attendanceRecord.courseSchedule.classGroup.name}) was marked unverified${comment ? `: ${comment}` : ''}. You can appeal this decision.`,
+        category: 'verification',
+        priority: 'high',
+        actionUrl: '/dashboard/appeals',
+        metadata: { attendanceRecordId: attendanceRecord.id }
+      })
+    }
+
     // Create audit log
     await prisma.auditLog.create({
       data: {
-        userId: session.user.id,
+        ...auditActor(session.user),
         action: 'ATTENDANCE_VERIFIED',
         targetType: 'AttendanceRecord',
         targetId: attendanceRecord.id,
@@ -173,6 +221,7 @@ export async function GET(request: NextRequest) {
         method: true,
         gpsLatitude: true,
         gpsLongitude: true,
+        ruleResults: true,
         courseSchedule: {
           select: {
             sessionType: true,
@@ -238,7 +287,8 @@ export async function GET(request: NextRequest) {
       locationVerified: record.locationVerified,
       method: record.method,
       gpsLatitude: record.gpsLatitude,
-      gpsLongitude: record.gpsLongitude
+      gpsLongitude: record.gpsLongitude,
+      ruleResults: parseRuleResults(record.ruleResults)
     }))
 
     return NextResponse.json(formattedRecords)
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth-config'
-import { AuditService } from '@/lib/audit'
+import { AuditService, auditActor } from '@/lib/audit'
 import { z } from 'zod'
 
 const integrityCheckSchema = z.object({
@@ -32,7 +32,7 @@ export async function GET(request: NextRequest) {
 
     // Log the integrity check
     await AuditService.createAuditLog({
-      userId: session.user.id,
+      ...auditActor(session.user),
       action: 'AUDIT_INTEGRITY_CHECKED',
       targetType: 'AuditLog',
       targetId: logId,
@@ -85,7 +85,7 @@ export async function DELETE(request: NextRequest) {
 
     // Log the cleanup action
     await AuditService.createAuditLog({
-      userId: session.user.id,
+      ...auditActor(session.user),
       action: 'AUDIT_LOGS_CLEANED',
       targetType: 'AuditLog',
       targetId: 'bulk',
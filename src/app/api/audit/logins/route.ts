@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth-config'
+import { getLoginActivity } from '@/lib/login-security'
+import { z } from 'zod'
+
+const loginActivityQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).optional().default(7)
+})
+
+// GET - Recent sign-in attempts, locked accounts and suspicious patterns
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { days } = loginActivityQuerySchema.parse(Object.fromEntries(searchParams.entries()))
+
+    return NextResponse.json({
+      success: true,
+      data: await getLoginActivity(days)
+    })
+  } catch (error) {
+    console.error('Error fetching login activity:', error)
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: error.issues },
+        { status: 400 }
+      )
+    }
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth-config'
-import { AuditService } from '@/lib/audit'
+import { AuditService, auditActor } from '@/lib/audit'
 import { z } from 'zod'
 
 const auditLogsQuerySchema = z.object({
@@ -99,7 +99,7 @@ export async function POST(request: NextRequest) {
 
     // Log the export action
     await AuditService.createAuditLog({
-      userId: session.user.id,
+      ...auditActor(session.user),
       action: 'AUDIT_LOGS_EXPORTED',
       targetType: 'AuditLog',
       targetId: 'bulk',
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth/next'
 import { authOptions } from '@/lib/auth-config'
-import { auditService } from '@/lib/audit'
+import { auditService, auditActor } from '@/lib/audit'
 import { z } from 'zod'
 import { format, parseISO } from 'date-fns'
 
@@ -405,7 +405,7 @@ export async function POST(request: NextRequest) {
     
     // Create audit log for report generation
     await auditService.createAuditLog({
-      userId: session.user.id,
+      ...auditActor(session.user),
       action: 'AUDIT_REPORT_GENERATED',
       targetType: 'AuditReport',
       targetId: 'report-' + Date.now(),
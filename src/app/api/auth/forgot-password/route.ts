@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { forgotPasswordSchema, linkBaseUrl, requestPasswordReset } from '@/lib/password-reset'
+import { clientIpAddress } from '@/lib/login-security'
+
+// POST - Send a password reset link by email or SMS
+export async function POST(request: NextRequest) {
+  try {
+    const { email, channel } = forgotPasswordSchema.parse(await request.json())
+
+    await requestPasswordReset(
+      email,
+      channel,
+      linkBaseUrl(request.nextUrl.origin),
+      clientIpAddress(request.headers)
+    )
+
+    // The same answer whether or not the account exists
+    return NextResponse.json({
+      message: 'If an account exists for that email address, a reset link is on its way'
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error requesting password reset:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { resetPassword, resetPasswordSchema } from '@/lib/password-reset'
+
+// POST - Choose a new password with a reset or account set-up link
+export async function POST(request: NextRequest) {
+  try {
+    const { token, password } = resetPasswordSchema.parse(await request.json())
+
+    const result = await resetPassword(
+      token,
+      password,
+      request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip')
+    )
+
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json({ message: 'Password reset successfully', email: result.email })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error resetting password:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SAML } from '@node-saml/node-saml'
+import { consumeSamlRelayState, getSamlConfig, setPendingSsoLogin, signInWithDirectory, ssoBaseUrl, recordSamlAssertion } from '@/lib/sso'
+
+// POST - Assertion consumer service: the identity provider posts the signed SAML response here
+export async function POST(request: NextRequest) {
+  const baseUrl = ssoBaseUrl(request.nextUrl.origin)
+  const failed = (reason: string) =>
+    NextResponse.redirect(new URL(`/auth/signin?error=${encodeURIComponent(reason)}`, baseUrl), 303)
+
+  try {
+    const config = getSamlConfig(baseUrl)
+
+    if (!config) {
+      return NextResponse.json({ error: 'SAML sign-in is not configured' }, { status: 404 })
+    }
+
+    const form = await request.formData()
+    const samlResponse = form.get('SAMLResponse')
+
+    if (typeof samlResponse !== 'string') {
+      return failed('SSOFailed')
+    }
+
+    // A post this browser did not start, e.g. one forged by another site to sign the user in as someone else
+    if (!(await consumeSamlRelayState(form.get('RelayState')))) {
+      console.error('SAML response refused: RelayState does not match this browser')
+      return failed('SSOFailed')
+    }
+
+    const { profile } = await new SAML(config).validatePostResponseAsync({ SAMLResponse: samlResponse })
+
+    if (!profile) {
+      return failed('SSOFailed')
+    }
+
+    if (!(await recordSamlAssertion(profile))) {
+      console.error('SAML response refused: assertion already used')
+      return failed('SSOFailed')
+    }
+
+    const result = await signInWithDirectory({ ...profile }, 'saml')
+
+    if ('error' in result) {
+      console.error('SAML sign-in refused:', result.error)
+      return failed('SSOAccountRefused')
+    }
+
+    // /auth/sso finishes the sign-in, with the lockout and two-factor checks
+    await setPendingSsoLogin(result.user.id)
+    return NextResponse.redirect(new URL('/auth/sso', baseUrl), 303)
+  } catch (error) {
+    console.error('Error validating SAML response:', error)
+    return failed('SSOFailed')
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SAML } from '@node-saml/node-saml'
+import { createSamlRelayState, getSamlConfig, ssoBaseUrl } from '@/lib/sso'
+
+// GET - Send the browser to the university identity provider
+export async function GET(request: NextRequest) {
+  try {
+    const config = getSamlConfig(ssoBaseUrl(request.nextUrl.origin))
+
+    if (!config) {
+      return NextResponse.json({ error: 'SAML sign-in is not configured' }, { status: 404 })
+    }
+
+    const relayState = await createSamlRelayState()
+    const url = await new SAML(config).getAuthorizeUrlAsync(relayState, request.headers.get('host') ?? undefined, {})
+    return NextResponse.redirect(url)
+  } catch (error) {
+    console.error('Error starting SAML sign-in:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SAML } from '@node-saml/node-saml'
+import { getSamlConfig, ssoBaseUrl } from '@/lib/sso'
+
+// GET - Service provider metadata to register this system with the identity provider
+export async function GET(request: NextRequest) {
+  try {
+    const config = getSamlConfig(ssoBaseUrl(request.nextUrl.origin))
+
+    if (!config) {
+      return NextResponse.json({ error: 'SAML sign-in is not configured' }, { status: 404 })
+    }
+
+    return new NextResponse(new SAML(config).generateServiceProviderMetadata(null), {
+      headers: { 'Content-Type': 'application/samlmetadata+xml; charset=utf-8' }
+    })
+  } catch (error) {
+    console.error('Error generating SAML metadata:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server'
+import { getOidcConfig, isSamlConfigured } from '@/lib/sso'
+
+// GET - The directory sign-in buttons to show on the sign-in page
+export async function GET() {
+  const providers: { id: string; name: string }[] = []
+  const oidc = getOidcConfig()
+
+  if (oidc) {
+    providers.push({ id: 'oidc', name: oidc.name })
+  }
+
+  if (isSamlConfigured()) {
+    providers.push({ id: 'saml', name: process.env.SSO_SAML_NAME || 'University account' })
+  }
+
+  return NextResponse.json({ providers })
+}
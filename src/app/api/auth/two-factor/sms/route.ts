@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { prisma } from '@/lib/db'
+import { verifyPassword } from '@/lib/auth'
+import { sendSmsCode } from '@/lib/two-factor'
+import { checkLoginAllowed, clientIpAddress, recordLoginAttempt } from '@/lib/login-security'
+
+const smsCodeRequestSchema = z.object({
+  email: z.string().email('Invalid email address'),
+  password: z.string().min(1, 'Password is required')
+})
+
+// POST - Text a sign-in code to a user part-way through the two-step sign-in
+export async function POST(request: NextRequest) {
+  try {
+    const { email, password } = smsCodeRequestSchema.parse(await request.json())
+
+    // The password is checked again so this cannot be used to send texts to anyone,
+    // and under the same throttling as signing in so it cannot be used to guess passwords
+    const user = await prisma.user.findUnique({ where: { email } })
+    const attempt = {
+      email,
+      userId: user?.id,
+      ipAddress: clientIpAddress(request.headers),
+      userAgent: request.headers.get('user-agent')
+    }
+
+    const check = await checkLoginAllowed(email, attempt.ipAddress, user?.lockedUntil ?? null)
+    if (!check.allowed) {
+      await recordLoginAttempt(attempt, check.reason)
+      return NextResponse.json(
+        { error: 'Too many failed sign-ins. Try again later.' },
+        { status: 429, headers: { 'Retry-After': String(check.retryAfterSeconds) } }
+      )
+    }
+
+    if (!user || !user.isActive || !(await verifyPassword(password, user.passwordHash))) {
+      await recordLoginAttempt(attempt, !user ? 'unknown_user' : !user.isActive ? 'inactive' : 'invalid_password')
+      return NextResponse.json({ error: 'Invalid email or password' }, { status: 401 })
+    }
+
+    const result = await sendSmsCode(user)
+
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json({ message: 'A code has been sent to the phone number on your account' })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error sending two-factor SMS code:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,6 +2,17 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth-config';
 import { prisma } from '@/lib/db';
+import { parseGeofencePolygon } from '@/lib/geolocation';
+import { z } from 'zod';
+
+// The create form sends an empty string when the building uses the default radius
+const geofenceRadiusSchema = z.preprocess(
+  value => (value === '' || value === null ? undefined : value),
+  z.coerce.number({ error: 'Geofence radius must be a number of metres' })
+    .int('Geofence radius must be a whole number of metres')
+    .positive('Geofence radius must be greater than 0')
+    .optional()
+);
 
 export async function GET(request: NextRequest) {
   try {
@@ -67,7 +78,9 @@ export async function POST(request: NextRequest) {
       address,
       gpsLatitude,
       gpsLongitude,
-      totalFloors
+      totalFloors,
+      geofenceRadius,
+      geofencePolygon
     } = body;
 
     // Validate required fields
@@ -78,6 +91,27 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const radiusResult = geofenceRadiusSchema.safeParse(geofenceRadius);
+    if (!radiusResult.success) {
+      return NextResponse.json(
+        { error: radiusResult.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    // Polygon boundaries must be a JSON array of at least three valid vertices
+    let polygonValue: string | null = null;
+    if (geofencePolygon) {
+      const polygonSource = typeof geofencePolygon === 'string' ? geofencePolygon : JSON.stringify(geofencePolygon);
+      if (!parseGeofencePolygon(polygonSource)) {
+        return NextResponse.json(
+          { error: 'Geofence polygon must be a JSON array of at least 3 { latitude, longitude } points' },
+          { status: 400 }
+        );
+      }
+      polygonValue = polygonSource;
+    }
+
     // Check if building code already exists
     const existingBuilding = await prisma.building.findUnique({
       where: { code }
@@ -99,7 +133,9 @@ export async function POST(request: NextRequest) {
         address: address || null,
         gpsLatitude: parseFloat(gpsLatitude),
         gpsLongitude: parseFloat(gpsLongitude),
-        totalFloors: totalFloors ? parseInt(totalFloors) : null
+        totalFloors: totalFloors ? parseInt(totalFloors) : null,
+        geofenceRadius: radiusResult.data ?? null,
+        geofencePolygon: polygonValue
       }
     });
 
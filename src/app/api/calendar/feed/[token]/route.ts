@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { renderCalendarFeed } from '@/lib/calendar-feeds'
+
+export const dynamic = 'force-dynamic'
+
+// GET - Public iCalendar feed; calendar apps cannot sign in, so the token in
+// the URL is the only credential
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params
+    const feed = await renderCalendarFeed(token.replace(/\.ics$/, ''))
+
+    if (!feed) {
+      return NextResponse.json({ error: 'Calendar feed not found' }, { status: 404 })
+    }
+
+    const filename = feed.name.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase() || 'timetable'
+
+    return new NextResponse(feed.ics, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `inline; filename="${filename}.ics"`,
+        'Cache-Control': 'private, max-age=300'
+      }
+    })
+  } catch (error) {
+    console.error('Error rendering calendar feed:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
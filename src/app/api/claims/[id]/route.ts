@@ -0,0 +1,211 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { prisma } from '@/lib/db'
+import { auditActor } from '@/lib/audit'
+import { authOptions } from '@/lib/auth-config'
+import { canReviewClaimStep, getClaimReviewStep, getClaimStatusAfterReview } from '@/lib/claims'
+import { enhancedNotificationService } from '@/lib/enhanced-notifications'
+import { z } from 'zod'
+
+const reviewClaimSchema = z.object({
+  decision: z.enum(['approve', 'reject']),
+  comment: z.string().optional()
+})
+
+async function coordinatesLecturer(coordinatorId: string, lecturerId: string) {
+  const schedules = await prisma.courseSchedule.count({
+    where: {
+      lecturerId,
+      course: { programme: { coordinator: coordinatorId } }
+    }
+  })
+  return schedules > 0
+}
+
+// GET - A claim with its lines
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || !['ADMIN', 'COORDINATOR', 'LECTURER'].includes(session.user.role)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const claim = await prisma.lecturerClaim.findUnique({
+      where: { id },
+      include: {
+        claimPeriod: true,
+        lecturer: {
+          include: {
+            user: {
+              select: { firstName: true, lastName: true, email: true }
+            }
+          }
+        },
+        lines: {
+          orderBy: { date: 'asc' }
+        }
+      }
+    })
+
+    if (!claim) {
+      return NextResponse.json({ error: 'Claim not found' }, { status: 404 })
+    }
+
+    if (session.user.role === 'LECTURER' && claim.lecturer.userId !== session.user.id) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    if (session.user.role === 'COORDINATOR' && !(await coordinatesLecturer(session.user.id, claim.lecturerId))) {
+      return NextResponse.json({ error: 'Forbidden - You can only view claims for lecturers in your assigned programmes' }, { status: 403 })
+    }
+
+    return NextResponse.json(claim)
+  } catch (error) {
+    console.error('Error fetching claim:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH - Head of department or finance approves or rejects the claim
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || !['ADMIN', 'COORDINATOR'].includes(session.user.role)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const { decision, comment } = reviewClaimSchema.parse(body)
+
+    const claim = await prisma.lecturerClaim.findUnique({
+      where: { id },
+      include: {
+        claimPeriod: true,
+        lecturer: true,
+        lines: {
+          select: { attendanceRecordId: true }
+        }
+      }
+    })
+
+    if (!claim) {
+      return NextResponse.json({ error: 'Claim not found' }, { status: 404 })
+    }
+
+    const step = getClaimReviewStep(claim.status)
+
+    if (!step) {
+      return NextResponse.json({ error: `Claim has already been ${claim.status}` }, { status: 400 })
+    }
+
+    if (!canReviewClaimStep(step, session.user.role)) {
+      return NextResponse.json({ error: 'Only finance administrators can give final approval to claims' }, { status: 403 })
+    }
+
+    if (session.user.role === 'COORDINATOR' && !(await coordinatesLecturer(session.user.id, claim.lecturerId))) {
+      return NextResponse.json({ error: 'Forbidden - You can only review claims for lecturers in your assigned programmes' }, { status: 403 })
+    }
+
+    if (decision === 'reject' && !comment?.trim()) {
+      return NextResponse.json({ error: 'A comment is required when rejecting a claim' }, { status: 400 })
+    }
+
+    const status = getClaimStatusAfterReview(step, decision)
+    const reviewData = step === 'hod'
+      ? { hodReviewedBy: session.user.id, hodReviewedAt: new Date(), hodComment: comment || null }
+      : { financeReviewedBy: session.user.id, financeReviewedAt: new Date(), financeComment: comment || null }
+
+    // Paid attendance must not change afterwards, so final approval locks the records.
+    // The status check in the update stops two reviewers acting on the same step.
+    const updatedClaim = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.lecturerClaim.updateMany({
+        where: { id, status: claim.status },
+        data: { ...reviewData, status }
+      })
+
+      if (count === 0) {
+        return null
+      }
+
+      if (status === 'approved') {
+        await tx.attendanceRecord.updateMany({
+          where: { id: { in: claim.lines.map(line => line.attendanceRecordId) } },
+          data: { lockedAt: new Date() }
+        })
+      }
+
+      return tx.lecturerClaim.findUnique({ where: { id } })
+    })
+
+    if (!updatedClaim) {
+      return NextResponse.json({ error: 'This claim has just been reviewed by someone else. Reload it and try again.' }, { status: 409 })
+    }
+
+    await prisma.auditLog.create({
+      data: {
+        ...auditActor(session.user),
+        action: status === 'hod_approved' ? 'CLAIM_HOD_APPROVED' : `CLAIM_${status.toUpperCase()}`,
+        targetType: 'LecturerClaim',
+        targetId: id,
+        metadata: JSON.stringify({
+          step,
+          claimPeriod: claim.claimPeriod.name,
+          lecturerId: claim.lecturerId,
+          totalAmount: claim.totalAmount,
+          currency: claim.currency,
+          lockedRecords: status === 'approved' ? claim.lines.length : 0,
+          comment
+        })
+      }
+    })
+
+    const amount = `${claim.currency} ${claim.totalAmount.toFixed(2)}`
+    const messages: Record<string, { title: string; message: string }> = {
+      hod_approved: {
+        title: 'Claim Approved by Head of Department',
+        message: `Your ${claim.claimPeriod.name} claim for ${amount} has been approved and sent to finance.`
+      },
+      approved: {
+        title: 'Claim Approved',
+        message: `Your ${claim.claimPeriod.name} claim for ${amount} has been approved for payment.`
+      },
+      rejected: {
+        title: 'Claim Rejected',
+        message: `Your ${claim.claimPeriod.name} claim was rejected: ${comment}. You can correct and resubmit it while the period is open.`
+      }
+    }
+
+    await enhancedNotificationService.sendNotification({
+      userId: claim.lecturer.userId,
+      ...messages[status],
+      category: 'system',
+      priority: 'normal',
+      actionUrl: '/dashboard/claims',
+      metadata: { claimId: id }
+    })
+
+    return NextResponse.json(updatedClaim)
+  } catch (error) {
+    console.error('Error reviewing claim:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { prisma } from '@/lib/db'
+import { auditActor } from '@/lib/audit'
+import { authOptions } from '@/lib/auth-config'
+import { toPayrollRows } from '@/lib/claims'
+import * as XLSX from 'xlsx'
+
+// GET - Approved claims for a period as a payroll file (admin only)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const claimPeriodId = searchParams.get('claimPeriodId')
+    const format = searchParams.get('format') || 'csv'
+
+    if (!claimPeriodId) {
+      return NextResponse.json({ error: 'Claim period is required' }, { status: 400 })
+    }
+
+    if (!['csv', 'xlsx'].includes(format)) {
+      return NextResponse.json({ error: 'Format must be csv or xlsx' }, { status: 400 })
+    }
+
+    const period = await prisma.claimPeriod.findUnique({ where: { id: claimPeriodId } })
+
+    if (!period) {
+      return NextResponse.json({ error: 'Claim period not found' }, { status: 404 })
+    }
+
+    const claims = await prisma.lecturerClaim.findMany({
+      where: { claimPeriodId, status: 'approved' },
+      include: {
+        claimPeriod: true,
+        lecturer: {
+          include: {
+            user: {
+              select: { firstName: true, lastName: true }
+            }
+          }
+        },
+        lines: {
+          orderBy: { date: 'asc' }
+        }
+      },
+      orderBy: { financeReviewedAt: 'asc' }
+    })
+
+    if (claims.length === 0) {
+      return NextResponse.json({ error: 'There are no approved claims in this period' }, { status: 400 })
+    }
+
+    const summarySheet = XLSX.utils.json_to_sheet(toPayrollRows(claims))
+    const filename = `payroll-${period.name.toLowerCase().replace(/\s+/g, '-')}`
+
+    await prisma.lecturerClaim.updateMany({
+      where: { id: { in: claims.map(claim => claim.id) } },
+      data: { payrollExportedAt: new Date() }
+    })
+
+    await prisma.auditLog.create({
+      data: {
+        ...auditActor(session.user),
+        action: 'CLAIMS_EXPORTED',
+        targetType: 'ClaimPeriod',
+        targetId: period.id,
+        metadata: JSON.stringify({
+          format,
+          claims: claims.length,
+          totalAmount: claims.reduce((sum, claim) => sum + claim.totalAmount, 0)
+        })
+      }
+    })
+
+    if (format === 'csv') {
+      return new NextResponse(XLSX.utils.sheet_to_csv(summarySheet), {
+        headers: {
+          'Content-Type': 'text/csv',
+          'Content-Disposition': `attachment; filename="${filename}.csv"`
+        }
+      })
+    }
+
+    // The workbook also carries each class so payroll can audit the totals
+    const lineRows = claims.flatMap(claim => claim.lines.map(line => ({
+      'Employee ID': claim.lecturer.employeeId,
+      'Lecturer': `${claim.lecturer.user.firstName} ${claim.lecturer.user.lastName}`,
+      'Date': line.date.toISOString().split('T')[0],
+      'Course': line.courseCode,
+      'Title': line.courseTitle,
+      'Level': line.programmeLevel,
+      'Hours': line.hours,
+      'Hourly Rate': line.hourlyRate,
+      'Amount': line.amount,
+      'Claim Reference': claim.id
+    })))
+
+    const workbook = XLSX.utils.book_new()
+    XLSX.utils.book_append_sheet(workbook, summarySheet, 'Summary')
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(lineRows), 'Lines')
+
+    const buffer: Buffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' })
+
+    return new NextResponse(new Uint8Array(buffer), {
+      headers: {
+        'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'Content-Disposition': `attachment; filename="${filename}.xlsx"`
+      }
+    })
+  } catch (error) {
+    console.error('Error exporting claims:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
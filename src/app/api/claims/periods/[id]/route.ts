@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { prisma } from '@/lib/db'
+import { auditActor } from '@/lib/audit'
+import { authOptions } from '@/lib/auth-config'
+import { z } from 'zod'
+
+const updateClaimPeriodSchema = z.object({
+  status: z.enum(['open', 'closed'])
+})
+
+// PATCH - Open or close a claim period for submissions (admin only)
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const { status } = updateClaimPeriodSchema.parse(body)
+
+    const period = await prisma.claimPeriod.findUnique({ where: { id } })
+
+    if (!period) {
+      return NextResponse.json({ error: 'Claim period not found' }, { status: 404 })
+    }
+
+    const updated = await prisma.claimPeriod.update({
+      where: { id },
+      data: { status }
+    })
+
+    await prisma.auditLog.create({
+      data: {
+        ...auditActor(session.user),
+        action: status === 'open' ? 'CLAIM_PERIOD_OPENED' : 'CLAIM_PERIOD_CLOSED',
+        targetType: 'ClaimPeriod',
+        targetId: id,
+        metadata: JSON.stringify({ name: period.name, previousStatus: period.status })
+      }
+    })
+
+    return NextResponse.json(updated)
+  } catch (error) {
+    console.error('Error updating claim period:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { prisma } from '@/lib/db'
+import { auditActor } from '@/lib/audit'
+import { authOptions } from '@/lib/auth-config'
+import { z } from 'zod'
+
+const createClaimPeriodSchema = z.object({
+  name: z.string().min(1),
+  startDate: z.string(),
+  endDate: z.string(),
+  submissionDeadline: z.string().optional()
+})
+
+// GET - Claim periods, newest first
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || !['ADMIN', 'COORDINATOR', 'LECTURER'].includes(session.user.role)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const periods = await prisma.claimPeriod.findMany({
+      include: {
+        _count: { select: { claims: true } }
+      },
+      orderBy: { startDate: 'desc' }
+    })
+
+    return NextResponse.json(periods)
+  } catch (error) {
+    console.error('Error fetching claim periods:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Open a claim period (admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { name, startDate, endDate, submissionDeadline } = createClaimPeriodSchema.parse(body)
+
+    const start = new Date(startDate)
+    const end = new Date(endDate)
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || end < start) {
+      return NextResponse.json({ error: 'End date must not be before start date' }, { status: 400 })
+    }
+
+    const deadline = submissionDeadline ? new Date(submissionDeadline) : null
+    if (deadline && (isNaN(deadline.getTime()) || deadline < end)) {
+      return NextResponse.json({ error: 'Submission deadline must be on or after the end date' }, { status: 400 })
+    }
+
+    // Periods may not overlap, otherwise a class could be claimed twice
+    const overlapping = await prisma.claimPeriod.findFirst({
+      where: {
+        startDate: { lte: end },
+        endDate: { gte: start }
+      }
+    })
+
+    if (overlapping) {
+      return NextResponse.json({ error: `Claim period overlaps with ${overlapping.name}` }, { status: 409 })
+    }
+
+    const period = await prisma.claimPeriod.create({
+      data: {
+        name,
+        startDate: start,
+        endDate: end,
+        submissionDeadline: deadline,
+        createdBy: session.user.id
+      }
+    })
+
+    await prisma.auditLog.create({
+      data: {
+        ...auditActor(session.user),
+        action: 'CLAIM_PERIOD_CREATED',
+        targetType: 'ClaimPeriod',
+        targetId: period.id,
+        metadata: JSON.stringify({ name, startDate, endDate, submissionDeadline })
+      }
+    })
+
+    return NextResponse.json(period, { status: 201 })
+  } catch (error) {
+    console.error('Error creating claim period:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { prisma } from '@/lib/db'
+import { authOptions } from '@/lib/auth-config'
+import { prepareClaim } from '@/lib/claims'
+
+// GET - The claim a lecturer would submit for a period, priced at the current rates
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || session.user.role !== 'LECTURER') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const claimPeriodId = searchParams.get('claimPeriodId')
+
+    if (!claimPeriodId) {
+      return NextResponse.json({ error: 'Claim period is required' }, { status: 400 })
+    }
+
+    const [lecturer, period] = await Promise.all([
+      prisma.lecturer.findUnique({ where: { userId: session.user.id } }),
+      prisma.claimPeriod.findUnique({ where: { id: claimPeriodId } })
+    ])
+
+    if (!lecturer || !period) {
+      return NextResponse.json({ error: 'Claim period not found' }, { status: 404 })
+    }
+
+    const prepared = await prepareClaim(lecturer.id, period)
+
+    if ('error' in prepared) {
+      return NextResponse.json({ error: prepared.error }, { status: prepared.status })
+    }
+
+    return NextResponse.json(prepared)
+  } catch (error) {
+    console.error('Error previewing claim:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
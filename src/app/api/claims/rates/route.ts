@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { prisma } from '@/lib/db'
+import { auditActor } from '@/lib/audit'
+import { authOptions } from '@/lib/auth-config'
+import { z } from 'zod'
+
+const claimRateSchema = z.object({
+  rank: z.string().min(1), // "*" for any rank
+  programmeLevel: z.string().min(1), // "*" for any level
+  hourlyRate: z.number().positive(),
+  currency: z.string().length(3).default('GHS')
+})
+
+// GET - Hourly rates by lecturer rank and programme level
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || !['ADMIN', 'COORDINATOR'].includes(session.user.role)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const rates = await prisma.claimRate.findMany({
+      orderBy: [{ rank: 'asc' }, { programmeLevel: 'asc' }]
+    })
+
+    return NextResponse.json(rates)
+  } catch (error) {
+    console.error('Error fetching claim rates:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT - Create or update the rate for a rank and programme level (admin only)
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const data = claimRateSchema.parse(body)
+    const currency = data.currency.toUpperCase()
+
+    const rate = await prisma.claimRate.upsert({
+      where: { rank_programmeLevel: { rank: data.rank, programmeLevel: data.programmeLevel } },
+      update: { hourlyRate: data.hourlyRate, currency },
+      create: { ...data, currency }
+    })
+
+    await prisma.auditLog.create({
+      data: {
+        ...auditActor(session.user),
+        action: 'CLAIM_RATE_UPDATED',
+        targetType: 'ClaimRate',
+        targetId: rate.id,
+        metadata: JSON.stringify({ ...data, currency })
+      }
+    })
+
+    return NextResponse.json(rate)
+  } catch (error) {
+    console.error('Error saving claim rate:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Remove a rate (admin only); submitted claims keep the rate they were priced at
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const id = searchParams.get('id')
+
+    if (!id) {
+      return NextResponse.json({ error: 'Rate ID is required' }, { status: 400 })
+    }
+
+    const rate = await prisma.claimRate.findUnique({ where: { id } })
+
+    if (!rate) {
+      return NextResponse.json({ error: 'Rate not found' }, { status: 404 })
+    }
+
+    await prisma.claimRate.delete({ where: { id } })
+
+    await prisma.auditLog.create({
+      data: {
+        ...auditActor(session.user),
+        action: 'CLAIM_RATE_DELETED',
+        targetType: 'ClaimRate',
+        targetId: id,
+        metadata: JSON.stringify({ rank: rate.rank, programmeLevel: rate.programmeLevel, hourlyRate: rate.hourlyRate })
+      }
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting claim rate:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
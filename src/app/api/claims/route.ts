@@ -0,0 +1,192 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { prisma } from '@/lib/db'
+import { auditActor } from '@/lib/audit'
+import { authOptions } from '@/lib/auth-config'
+import { isClaimPeriodOpen, prepareClaim } from '@/lib/claims'
+import { z } from 'zod'
+
+const submitClaimSchema = z.object({
+  claimPeriodId: z.string(),
+  comment: z.string().optional()
+})
+
+// GET - Claims visible to the user: lecturers see their own, coordinators those for their programmes
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || !['ADMIN', 'COORDINATOR', 'LECTURER'].includes(session.user.role)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status')
+    const claimPeriodId = searchParams.get('claimPeriodId')
+
+    const whereClause: any = {}
+    if (status) whereClause.status = status
+    if (claimPeriodId) whereClause.claimPeriodId = claimPeriodId
+
+    if (session.user.role === 'LECTURER') {
+      whereClause.lecturer = { userId: session.user.id }
+    } else if (session.user.role === 'COORDINATOR') {
+      whereClause.lecturer = {
+        courseSchedules: {
+          some: { course: { programme: { coordinator: session.user.id } } }
+        }
+      }
+    }
+
+    const claims = await prisma.lecturerClaim.findMany({
+      where: whereClause,
+      include: {
+        claimPeriod: true,
+        lecturer: {
+          include: {
+            user: {
+              select: { firstName: true, lastName: true, email: true }
+            }
+          }
+        },
+        _count: { select: { lines: true } }
+      },
+      orderBy: { submittedAt: 'desc' }
+    })
+
+    return NextResponse.json(claims)
+  } catch (error) {
+    console.error('Error fetching claims:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Lecturer submits (or resubmits after rejection) their claim for a period
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || session.user.role !== 'LECTURER') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { claimPeriodId, comment } = submitClaimSchema.parse(body)
+
+    const lecturer = await prisma.lecturer.findUnique({
+      where: { userId: session.user.id }
+    })
+
+    if (!lecturer) {
+      return NextResponse.json({ error: 'Lecturer not found' }, { status: 404 })
+    }
+
+    const period = await prisma.claimPeriod.findUnique({ where: { id: claimPeriodId } })
+
+    if (!period) {
+      return NextResponse.json({ error: 'Claim period not found' }, { status: 404 })
+    }
+
+    if (!isClaimPeriodOpen(period)) {
+      return NextResponse.json({ error: 'This claim period is closed for submissions' }, { status: 400 })
+    }
+
+    const existingClaim = await prisma.lecturerClaim.findUnique({
+      where: { claimPeriodId_lecturerId: { claimPeriodId, lecturerId: lecturer.id } }
+    })
+
+    if (existingClaim && existingClaim.status !== 'rejected') {
+      return NextResponse.json({ error: 'You have already submitted a claim for this period' }, { status: 400 })
+    }
+
+    const prepared = await prepareClaim(lecturer.id, period)
+
+    if ('error' in prepared) {
+      return NextResponse.json({ error: prepared.error }, { status: prepared.status })
+    }
+
+    if (prepared.lines.length === 0) {
+      return NextResponse.json({ error: 'There are no claimable classes in this period' }, { status: 400 })
+    }
+
+    const claimData = {
+      status: 'submitted',
+      totalHours: prepared.totalHours,
+      totalAmount: prepared.totalAmount,
+      currency: prepared.currency,
+      lecturerComment: comment || null,
+      submittedAt: new Date(),
+      hodReviewedBy: null,
+      hodReviewedAt: null,
+      hodComment: null,
+      financeReviewedBy: null,
+      financeReviewedAt: null,
+      financeComment: null
+    }
+
+    // A resubmission replaces the rejected claim's lines with the current attendance.
+    // Classes left on a rejected claim from another period are taken off it too,
+    // since each attendance record can only be on one claim.
+    const claim = await prisma.$transaction(async (tx) => {
+      if (existingClaim) {
+        await tx.claimLine.deleteMany({ where: { claimId: existingClaim.id } })
+      }
+
+      await tx.claimLine.deleteMany({
+        where: {
+          attendanceRecordId: { in: prepared.lines.map(line => line.attendanceRecordId) },
+          claim: { status: 'rejected' }
+        }
+      })
+
+      return existingClaim
+        ? tx.lecturerClaim.update({
+            where: { id: existingClaim.id },
+            data: { ...claimData, lines: { create: prepared.lines } }
+          })
+        : tx.lecturerClaim.create({
+            data: {
+              ...claimData,
+              claimPeriodId,
+              lecturerId: lecturer.id,
+              lines: { create: prepared.lines }
+            }
+          })
+    })
+
+    await prisma.auditLog.create({
+      data: {
+        ...auditActor(session.user),
+        action: existingClaim ? 'CLAIM_RESUBMITTED' : 'CLAIM_SUBMITTED',
+        targetType: 'LecturerClaim',
+        targetId: claim.id,
+        metadata: JSON.stringify({
+          claimPeriod: period.name,
+          classes: prepared.lines.length,
+          totalHours: prepared.totalHours,
+          totalAmount: prepared.totalAmount,
+          currency: prepared.currency
+        })
+      }
+    })
+
+    return NextResponse.json(claim, { status: existingClaim ? 200 : 201 })
+  } catch (error) {
+    console.error('Error submitting claim:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
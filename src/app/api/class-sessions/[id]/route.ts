@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { prisma } from '@/lib/db'
+import { auditActor } from '@/lib/audit'
+import { authOptions } from '@/lib/auth-config'
+import { CLASS_SESSION_STATUSES, canTransitionClassSession } from '@/lib/class-sessions'
+import { z } from 'zod'
+
+const updateSessionSchema = z.object({
+  status: z.enum(CLASS_SESSION_STATUSES as [string, ...string[]]),
+  reason: z.string().optional()
+})
+
+// PATCH - Change the status of a class session, e.g. cancel an occurrence
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || !['ADMIN', 'COORDINATOR'].includes(session.user.role)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const resolvedParams = await params
+    const body = await request.json()
+    const { status, reason } = updateSessionSchema.parse(body)
+
+    const classSession = await prisma.classSession.findUnique({
+      where: { id: resolvedParams.id }
+    })
+
+    if (!classSession) {
+      return NextResponse.json({ error: 'Class session not found' }, { status: 404 })
+    }
+
+    if (!canTransitionClassSession(classSession.status, status)) {
+      return NextResponse.json(
+        { error: `Cannot change a ${classSession.status} session to ${status}` },
+        { status: 400 }
+      )
+    }
+
+    const updatedSession = await prisma.classSession.update({
+      where: { id: classSession.id },
+      data: {
+        status,
+        statusReason: reason || null,
+        statusChangedAt: new Date()
+      }
+    })
+
+    await prisma.auditLog.create({
+      data: {
+        ...auditActor(session.user),
+        action: 'CLASS_SESSION_STATUS_CHANGED',
+        targetType: 'ClassSession',
+        targetId: classSession.id,
+        metadata: JSON.stringify({
+          courseScheduleId: classSession.courseScheduleId,
+          date: classSession.date,
+          from: classSession.status,
+          to: status,
+          reason
+        })
+      }
+    })
+
+    return NextResponse.json(updatedSession)
+  } catch (error) {
+    console.error('Error updating class session:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { prisma } from '@/lib/db'
+import { auditActor } from '@/lib/audit'
+import { authOptions } from '@/lib/auth-config'
+import { CLASS_SESSION_STATUSES, generateClassSessions, toSessionDate } from '@/lib/class-sessions'
+import { z } from 'zod'
+
+const generateSessionsSchema = z.object({
+  startDate: z.string(),
+  endDate: z.string()
+})
+
+// Generation is capped so a typo in the range cannot create years of rows
+const MAX_GENERATION_DAYS = 200
+
+// GET - Class sessions in a date range, optionally filtered by schedule or status
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const startParam = searchParams.get('startDate') || searchParams.get('date')
+    const endParam = searchParams.get('endDate') || startParam
+    const courseScheduleId = searchParams.get('courseScheduleId')
+    const status = searchParams.get('status')
+
+    const start = startParam ? new Date(startParam) : new Date()
+    const end = endParam ? new Date(endParam) : start
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      return NextResponse.json({ error: 'Invalid date' }, { status: 400 })
+    }
+
+    if (status && !CLASS_SESSION_STATUSES.includes(status as any)) {
+      return NextResponse.json({ error: 'Invalid status' }, { status: 400 })
+    }
+
+    const where: any = {
+      date: {
+        gte: toSessionDate(start),
+        lte: toSessionDate(end)
+      }
+    }
+
+    if (courseScheduleId) {
+      where.courseScheduleId = courseScheduleId
+    }
+
+    if (status) {
+      where.status = status
+    }
+
+    // Lecturers only see their own sessions
+    if (session.user.role === 'LECTURER') {
+      const lecturer = await prisma.lecturer.findFirst({
+        where: { userId: session.user.id }
+      })
+
+      if (!lecturer) {
+        return NextResponse.json({ error: 'Lecturer not found' }, { status: 404 })
+      }
+
+      where.courseSchedule = { lecturerId: lecturer.id }
+    }
+
+    const classSessions = await prisma.classSession.findMany({
+      where,
+      include: {
+        courseSchedule: {
+          include: {
+            course: true,
+            classGroup: true,
+            classroom: true,
+            lecturer: {
+              include: {
+                user: {
+                  select: { firstName: true, lastName: true }
+                }
+              }
+            }
+          }
+        },
+        attendanceRecords: {
+          select: { id: true, timestamp: true, method: true, supervisorVerified: true }
+        },
+        supervisorLogs: {
+          select: { id: true, status: true, checkInTime: true, comments: true }
+        }
+      },
+      orderBy: [
+        { date: 'asc' },
+        { startTime: 'asc' }
+      ]
+    })
+
+    return NextResponse.json(classSessions)
+  } catch (error) {
+    console.error('Error fetching class sessions:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Generate class sessions for every active schedule in a date range
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || !['ADMIN', 'COORDINATOR'].includes(session.user.role)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { startDate, endDate } = generateSessionsSchema.parse(body)
+
+    const start = new Date(startDate)
+    const end = new Date(endDate)
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || end < start) {
+      return NextResponse.json({ error: 'End date must not be before start date' }, { status: 400 })
+    }
+
+    const days = (toSessionDate(end).getTime() - toSessionDate(start).getTime()) / (24 * 60 * 60 * 1000) + 1
+    if (days > MAX_GENERATION_DAYS) {
+      return NextResponse.json({ error: `Date range cannot exceed ${MAX_GENERATION_DAYS} days` }, { status: 400 })
+    }
+
+    const created = await generateClassSessions(start, end)
+
+    await prisma.auditLog.create({
+      data: {
+        ...auditActor(session.user),
+        action: 'CLASS_SESSIONS_GENERATED',
+        targetType: 'ClassSession',
+        targetId: `${startDate}_${endDate}`,
+        metadata: JSON.stringify({ startDate, endDate, created })
+      }
+    })
+
+    return NextResponse.json({ success: true, created })
+  } catch (error) {
+    console.error('Error generating class sessions:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
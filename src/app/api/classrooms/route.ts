@@ -55,6 +55,7 @@ export async function GET(request: NextRequest) {
       id: classroom.id,
       roomCode: classroom.roomCode,
       name: classroom.name,
+      floor: classroom.floor,
       capacity: classroom.capacity,
       roomType: classroom.roomType,
       equipmentList: classroom.equipmentList,
@@ -106,6 +107,7 @@ export async function POST(request: NextRequest) {
     const {
       roomCode,
       name,
+      floor,
       capacity,
       roomType,
       equipmentList,
@@ -177,6 +179,7 @@ export async function POST(request: NextRequest) {
       data: {
         roomCode,
         name,
+        floor: floor !== undefined && floor !== null && floor !== '' ? parseInt(floor) : null,
         capacity: capacity ? parseInt(capacity) : null,
         roomType: roomType || null,
         equipmentList: equipmentList || null,
@@ -206,6 +209,7 @@ export async function POST(request: NextRequest) {
         id: classroom.id,
         roomCode: classroom.roomCode,
         name: classroom.name,
+        floor: classroom.floor,
         capacity: classroom.capacity,
         roomType: classroom.roomType,
         equipmentList: classroom.equipmentList,
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth-config'
+import {
+  formatServerSentEvent,
+  getRealtimeSubscriber,
+  subscribeToRealtimeEvents
+} from '@/lib/realtime-events'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_INTERVAL = 25000
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const subscriber = await getRealtimeSubscriber(session.user)
+    const encoder = new TextEncoder()
+    let cleanup = () => {}
+
+    const stream = new ReadableStream({
+      start(controller) {
+        const send = (chunk: string) => {
+          try {
+            controller.enqueue(encoder.encode(chunk))
+          } catch {
+            cleanup()
+          }
+        }
+
+        send('retry: 5000\n\n')
+
+        const unsubscribe = subscribeToRealtimeEvents(subscriber, event => send(formatServerSentEvent(event)))
+        const heartbeat = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_INTERVAL)
+
+        cleanup = () => {
+          clearInterval(heartbeat)
+          unsubscribe()
+        }
+
+        request.signal.addEventListener('abort', () => {
+          cleanup()
+          try {
+            controller.close()
+          } catch {
+            // Already closed
+          }
+        })
+      },
+      cancel() {
+        cleanup()
+      }
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no'
+      }
+    })
+  } catch (error) {
+    console.error('Error opening event stream:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth/next'
 import { prisma } from '@/lib/db'
 import { authOptions } from '@/lib/auth-config'
+import { createTemporaryPassword, linkBaseUrl, sendAccountSetup } from '@/lib/password-reset'
 import * as XLSX from 'xlsx'
 import { hash } from 'bcryptjs'
 
@@ -54,7 +55,7 @@ export async function POST(request: NextRequest) {
 
     switch (type) {
       case 'users':
-        result = await importUsers(data)
+        result = await importUsers(data, linkBaseUrl(request.nextUrl.origin))
         break
       case 'programmes':
         result = await importProgrammes(data)
@@ -85,7 +86,7 @@ export async function POST(request: NextRequest) {
   }
 }
 
-async function importUsers(data: any[]): Promise<ImportResult> {
+async function importUsers(data: any[], baseUrl: string): Promise<ImportResult> {
   const errors: string[] = []
   const warnings: string[] = []
   let imported = 0
@@ -111,8 +112,8 @@ async function importUsers(data: any[]): Promise<ImportResult> {
         continue
       }
 
-      // Create user
-      const hashedPassword = await hash('defaultPassword123', 12)
+      // Create user with a password nobody knows; they choose their own from the set-up email
+      const hashedPassword = await hash(createTemporaryPassword(), 12)
       const user = await prisma.user.create({
         data: {
           firstName: row.firstName,
@@ -120,7 +121,8 @@ async function importUsers(data: any[]): Promise<ImportResult> {
           email: row.email,
           passwordHash: hashedPassword,
           role: row.role.toUpperCase(),
-          isActive: true
+          isActive: true,
+          mustChangePassword: true
         }
       })
 
@@ -137,6 +139,11 @@ async function importUsers(data: any[]): Promise<ImportResult> {
         })
       }
 
+      const setup = await sendAccountSetup(user, baseUrl)
+      if (!setup.success) {
+        warnings.push(`Row ${rowNum}: Could not email ${row.email} a set-up link; they can use "Forgot your password?" to sign in`)
+      }
+
       imported++
     } catch (error) {
       errors.push(`Row ${rowNum}: ${error instanceof Error ? error.message : 'Unknown error'}`)
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth-config'
+import {
+  MAX_IMPORT_ROWS,
+  parseIcsTimetable,
+  parseTimetableRows,
+  previewTimetableImport
+} from '@/lib/timetable-import'
+import * as XLSX from 'xlsx'
+
+// POST - Read an ICS or timetable-system export and suggest matches for review
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file') as File
+
+    if (!file) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 })
+    }
+
+    const buffer = await file.arrayBuffer()
+    const text = new TextDecoder().decode(buffer)
+
+    let parsed
+    if (file.name.toLowerCase().endsWith('.ics') || text.trimStart().startsWith('BEGIN:VCALENDAR')) {
+      parsed = parseIcsTimetable(text)
+    } else {
+      // raw keeps CSV cells as written so times are not turned into dates
+      const workbook = XLSX.read(buffer, { type: 'buffer', raw: true })
+      const worksheet = workbook.Sheets[workbook.SheetNames[0]]
+      parsed = parseTimetableRows(XLSX.utils.sheet_to_json(worksheet, { raw: false, defval: '' }))
+    }
+
+    if (parsed.classes.length === 0) {
+      return NextResponse.json({
+        error: 'No classes found in file',
+        details: parsed.errors
+      }, { status: 400 })
+    }
+
+    if (parsed.classes.length > MAX_IMPORT_ROWS) {
+      return NextResponse.json({
+        error: `The file has ${parsed.classes.length} weekly classes; import at most ${MAX_IMPORT_ROWS} at a time`
+      }, { status: 400 })
+    }
+
+    const { rows, options } = await previewTimetableImport(parsed.classes)
+
+    return NextResponse.json({ rows, options, errors: parsed.errors })
+  } catch (error) {
+    console.error('Error previewing timetable import:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
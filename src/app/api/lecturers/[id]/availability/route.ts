@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { prisma } from '@/lib/db'
+import { auditActor } from '@/lib/audit'
+import { authOptions } from '@/lib/auth-config'
+import { availabilitySchema } from '@/lib/timetable-generator'
+import { z } from 'zod'
+
+async function findLecturer(id: string, user: { id: string; role: string }) {
+  const lecturer = await prisma.lecturer.findUnique({ where: { id } })
+
+  if (!lecturer || (user.role === 'LECTURER' && lecturer.userId !== user.id)) {
+    return null
+  }
+
+  return lecturer
+}
+
+// GET - The weekly blocks a lecturer can teach
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || !['ADMIN', 'COORDINATOR', 'LECTURER'].includes(session.user.role)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const lecturer = await findLecturer(id, session.user)
+
+    if (!lecturer) {
+      return NextResponse.json({ error: 'Lecturer not found' }, { status: 404 })
+    }
+
+    const windows = await prisma.lecturerAvailability.findMany({
+      where: { lecturerId: id },
+      orderBy: [{ dayOfWeek: 'asc' }, { startTime: 'asc' }]
+    })
+
+    return NextResponse.json(windows)
+  } catch (error) {
+    console.error('Error fetching lecturer availability:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT - Replace a lecturer's availability; an empty list means always available
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || !['ADMIN', 'COORDINATOR', 'LECTURER'].includes(session.user.role)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const { windows } = availabilitySchema.parse(body)
+
+    const lecturer = await findLecturer(id, session.user)
+
+    if (!lecturer) {
+      return NextResponse.json({ error: 'Lecturer not found' }, { status: 404 })
+    }
+
+    const saved = await prisma.$transaction(async tx => {
+      await tx.lecturerAvailability.deleteMany({ where: { lecturerId: id } })
+      await tx.lecturerAvailability.createMany({
+        data: windows.map(window => ({ ...window, lecturerId: id }))
+      })
+
+      return tx.lecturerAvailability.findMany({
+        where: { lecturerId: id },
+        orderBy: [{ dayOfWeek: 'asc' }, { startTime: 'asc' }]
+      })
+    })
+
+    await prisma.auditLog.create({
+      data: {
+        ...auditActor(session.user),
+        action: 'LECTURER_AVAILABILITY_UPDATED',
+        targetType: 'Lecturer',
+        targetId: id,
+        metadata: JSON.stringify({ windows })
+      }
+    })
+
+    return NextResponse.json(saved)
+  } catch (error) {
+    console.error('Error updating lecturer availability:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
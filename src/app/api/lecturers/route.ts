@@ -194,6 +194,7 @@ export async function POST(request: NextRequest) {
         lastName,
         role: 'LECTURER',
         phoneNumber: phoneNumber || null,
+        mustChangePassword: true,
         lecturer: {
           create: {
             employeeId,
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth/next'
 import { authOptions } from '@/lib/auth-config'
 import { prisma } from '@/lib/db'
+import { auditActor } from '@/lib/audit'
+import { publishNotificationEvent } from '@/lib/realtime-events'
 
 // Get notifications for the current user
 export async function GET(request: NextRequest) {
@@ -146,10 +148,12 @@ export async function POST(request: NextRequest) {
       }
     })
 
+    publishNotificationEvent(notification)
+
     // Log notification creation
     await prisma.auditLog.create({
       data: {
-        userId: session.user.id,
+        ...auditActor(session.user),
         action: 'NOTIFICATION_CREATED',
         entityType: 'Notification',
         entityId: notification.id,
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth-config'
+import { getLiveClasses } from '@/lib/online-monitoring'
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || (session.user.role !== 'ONLINE_SUPERVISOR' && session.user.role !== 'ADMIN')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const now = new Date()
+    const classes = await getLiveClasses(now)
+
+    return NextResponse.json({ generatedAt: now.toISOString(), classes })
+  } catch (error) {
+    console.error('Error fetching live online classes:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth/next'
 import { prisma } from '@/lib/db'
 import { authOptions } from '@/lib/auth-config'
 import { resolveMeetingLink } from '@/lib/meeting-link'
+import { toSessionDate } from '@/lib/class-sessions'
 
 export async function GET(request: NextRequest) {
   try {
@@ -15,9 +16,7 @@ export async function GET(request: NextRequest) {
 
     // Get today's day of week
     const today = new Date()
-    const todayDayOfWeek = today.getDay()
-    const startOfDay = new Date(today.getFullYear(), today.getMonth(), today.getDate())
-    const endOfDay = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1)
+    const todayDayOfWeek = today.getUTCDay()
 
     // Fetch today's ONLINE/HYBRID schedules
     const schedules = await prisma.courseSchedule.findMany({
@@ -40,11 +39,11 @@ export async function GET(request: NextRequest) {
             building: true
           }
         },
-        supervisorLogs: {
-           where: {
-            checkInTime: {
-              gte: startOfDay,
-              lt: endOfDay
+        classSessions: {
+          where: { date: toSessionDate(today) },
+          include: {
+            supervisorLogs: {
+              orderBy: { checkInTime: 'desc' }
             }
           }
         }
@@ -55,7 +54,8 @@ export async function GET(request: NextRequest) {
     })
 
     const formattedSchedules = schedules.map(schedule => {
-        const log = schedule.supervisorLogs[0];
+        const classSession = schedule.classSessions[0];
+        const log = classSession?.supervisorLogs[0];
 
         return {
             id: schedule.id,
@@ -81,7 +81,9 @@ export async function GET(request: NextRequest) {
               schedule.meetingLink,
               schedule.classroom?.virtualLink
             ),
-            verified: schedule.supervisorLogs.length > 0,
+            classSessionId: classSession?.id ?? null,
+            sessionStatus: classSession?.status ?? 'scheduled',
+            verified: !!log,
             verificationStatus: log ? log.status : 'pending',
             verificationComment: log ? log.comments : null,
             platform: log ? log.platform : null,
@@ -2,6 +2,13 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth/next'
 import { prisma } from '@/lib/db'
 import { authOptions } from '@/lib/auth-config'
+import { getOrCreateClassSession, sessionStatusFromSupervisorLog, updateClassSessionStatus } from '@/lib/class-sessions'
+import { getVerificationPolicy, applyVerificationRules } from '@/lib/verification-rules'
+import { reconcileAfterSignal } from '@/lib/session-reconciliation'
+import { publishScheduleEvent } from '@/lib/realtime-events'
+import { platformLabel, serializeTechnicalIssues, spotCheckSchema } from '@/lib/online-monitoring'
+import { resolveMeetingLink } from '@/lib/meeting-link'
+import { z } from 'zod'
 
 export async function POST(request: NextRequest) {
   try {
@@ -12,10 +19,34 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { scheduleId, status, comments, platform, connectionQuality, studentCountOnline, technicalIssues } = body
+    const {
+      scheduleId,
+      classSessionId,
+      status,
+      comments,
+      platform,
+      connectionQuality,
+      studentCountOnline,
+      issueCategories,
+      technicalIssues
+    } = spotCheckSchema.parse(body)
 
-    if (!scheduleId || !status) {
-      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 })
+    const schedule = await prisma.courseSchedule.findUnique({
+      where: { id: scheduleId },
+      include: { classGroup: true, classroom: true }
+    })
+
+    if (!schedule) {
+      return NextResponse.json({ error: 'Schedule not found' }, { status: 404 })
+    }
+
+    // Make-up sessions are checked against their own session rather than the weekly slot
+    const classSession = classSessionId
+      ? await prisma.classSession.findFirst({ where: { id: classSessionId, courseScheduleId: scheduleId } })
+      : await getOrCreateClassSession(schedule)
+
+    if (!classSession) {
+      return NextResponse.json({ error: 'Class session not found' }, { status: 404 })
     }
 
     // Create supervisor log
@@ -23,34 +54,36 @@ export async function POST(request: NextRequest) {
       data: {
         supervisorId: session.user.id,
         courseScheduleId: scheduleId,
+        classSessionId: classSession.id,
         status,
         comments,
         isOnline: true,
-        platform,
+        platform: platform || platformLabel(resolveMeetingLink(schedule.meetingLink, schedule.classroom?.virtualLink)),
         connectionQuality,
-        studentCountOnline: studentCountOnline ? parseInt(studentCountOnline) : null,
-        technicalIssues
+        studentCountOnline: studentCountOnline ?? null,
+        technicalIssues: serializeTechnicalIssues(issueCategories, technicalIssues)
       }
     })
 
+    const sessionStatus = sessionStatusFromSupervisorLog(status)
+    if (sessionStatus) {
+      await updateClassSessionStatus(classSession, sessionStatus, comments)
+    }
+
     // Also update AttendanceRecord if it exists
     try {
-      const today = new Date()
-      const startOfDay = new Date(today.getFullYear(), today.getMonth(), today.getDate())
-      const endOfDay = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1)
-
       const attendanceRecord = await prisma.attendanceRecord.findFirst({
-        where: {
-          courseScheduleId: scheduleId,
-          timestamp: {
-            gte: startOfDay,
-            lt: endOfDay
-          }
-        }
+        where: { classSessionId: classSession.id }
       })
 
-      if (attendanceRecord) {
-        const isVerified = status === 'ongoing' || status === 'online'
+      // Records on an approved claim keep the verification they were paid on
+      if (attendanceRecord && !attendanceRecord.lockedAt) {
+        const { policy } = await getVerificationPolicy({
+          programmeId: schedule.classGroup.programmeId,
+          deliveryMode: schedule.classGroup.deliveryMode,
+          sessionType: schedule.sessionType
+        })
+        const isVerified = policy.supervisorPresentStatuses.includes(status)
         await prisma.attendanceRecord.update({
           where: { id: attendanceRecord.id },
           data: {
@@ -58,13 +91,30 @@ export async function POST(request: NextRequest) {
             supervisorComment: comments
           }
         })
+        await applyVerificationRules(attendanceRecord.id)
       }
     } catch (err) {
       console.error('Error updating attendance record from online supervisor log:', err)
     }
 
+    await reconcileAfterSignal(classSession.id)
+
+    await publishScheduleEvent('attendance.verified', scheduleId, {
+      classSessionId: classSession.id,
+      supervisorLogId: log.id,
+      status,
+      verifiedByRole: session.user.role
+    })
+
     return NextResponse.json({ success: true, log })
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
     console.error('Error submitting online verification:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { prisma } from '@/lib/db'
+import { auditActor } from '@/lib/audit'
+import { authOptions } from '@/lib/auth-config'
+import * as XLSX from 'xlsx'
+import { ingestParticipantReport, parseParticipantRows, MEETING_PLATFORMS, MeetingPlatform } from '@/lib/participant-reports'
+
+const UPLOAD_ROLES = ['ADMIN', 'COORDINATOR', 'ONLINE_SUPERVISOR', 'LECTURER']
+
+// GET - Recently ingested participant reports
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || !UPLOAD_ROLES.includes(session.user.role)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const reports = await prisma.meetingParticipantReport.findMany({
+      where: session.user.role === 'LECTURER'
+        ? { courseSchedule: { lecturer: { userId: session.user.id } } }
+        : {},
+      include: {
+        courseSchedule: {
+          include: {
+            course: true,
+            classGroup: true
+          }
+        }
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 50
+    })
+
+    return NextResponse.json(reports.map(report => ({
+      id: report.id,
+      platform: report.platform,
+      source: report.source,
+      meetingId: report.meetingId,
+      status: report.status,
+      meetingStart: report.meetingStart,
+      participantCount: report.participantCount,
+      hostJoinTime: report.hostJoinTime,
+      hostLeaveTime: report.hostLeaveTime,
+      engagementScore: report.engagementScore,
+      fileName: report.fileName,
+      attendanceRecordId: report.attendanceRecordId,
+      course: report.courseSchedule
+        ? `${report.courseSchedule.course.courseCode} - ${report.courseSchedule.course.title}`
+        : null,
+      classGroup: report.courseSchedule?.classGroup.name ?? null,
+      createdAt: report.createdAt
+    })))
+  } catch (error) {
+    console.error('Error fetching participant reports:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Upload a Zoom, Teams or Meet participant report (CSV or Excel)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || !UPLOAD_ROLES.includes(session.user.role)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file') as File | null
+    const platform = formData.get('platform') as string | null
+    const meetingId = (formData.get('meetingId') as string | null) || null
+    const scheduleId = (formData.get('scheduleId') as string | null) || null
+    const meetingDate = (formData.get('meetingDate') as string | null) || null
+
+    if (!file) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 })
+    }
+
+    if (!platform || !MEETING_PLATFORMS.includes(platform as MeetingPlatform)) {
+      return NextResponse.json({ error: 'Platform must be one of: zoom, teams, meet' }, { status: 400 })
+    }
+
+    if (session.user.role === 'LECTURER') {
+      // Lecturers may only attach reports to their own classes
+      const ownSchedule = scheduleId
+        ? await prisma.courseSchedule.findFirst({
+            where: { id: scheduleId, lecturer: { userId: session.user.id } }
+          })
+        : null
+
+      if (!ownSchedule) {
+        return NextResponse.json({ error: 'Choose one of your classes for this report' }, { status: 400 })
+      }
+    }
+
+    // Raw parsing keeps timestamps as text so they are read in campus time
+    const buffer = await file.arrayBuffer()
+    const workbook = XLSX.read(buffer, { type: 'buffer', raw: true })
+    const worksheet = workbook.Sheets[workbook.SheetNames[0]]
+    const rows = XLSX.utils.sheet_to_json<string[]>(worksheet, { header: 1, raw: false, defval: '' })
+
+    const parsed = parseParticipantRows(platform as MeetingPlatform, rows, {
+      meetingId,
+      referenceDate: meetingDate ? new Date(meetingDate) : null
+    })
+
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    if (!parsed.report.meetingId && !scheduleId) {
+      return NextResponse.json({ error: 'The report has no meeting ID. Enter it or choose the class' }, { status: 400 })
+    }
+
+    const result = await ingestParticipantReport(parsed.report, {
+      source: 'csv',
+      scheduleId,
+      fileName: file.name,
+      uploadedBy: session.user.id
+    })
+
+    await prisma.auditLog.create({
+      data: {
+        ...auditActor(session.user),
+        action: 'PARTICIPANT_REPORT_UPLOADED',
+        targetType: 'MeetingParticipantReport',
+        targetId: result.report.id,
+        metadata: JSON.stringify({
+          platform,
+          meetingId: parsed.report.meetingId,
+          status: result.report.status,
+          attendanceRecordId: result.attendanceRecord?.id ?? null,
+          participantCount: result.report.participantCount
+        })
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: result.report.status === 'matched'
+        ? result.attendanceRecord
+          ? 'Report matched and attendance record updated'
+          : 'Report matched to the class, but no attendance was recorded for that day'
+        : 'Report stored, but no class with this meeting ID was found',
+      report: result.report
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Error uploading participant report:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
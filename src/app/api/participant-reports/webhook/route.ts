@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { timingSafeEqual } from 'crypto'
+import { ingestParticipantReport, normalizeMeetingId, parseReportTime, ParticipantInterval } from '@/lib/participant-reports'
+import { z } from 'zod'
+
+const participantSchema = z.object({
+  name: z.string(),
+  email: z.string().optional(),
+  role: z.string().optional(), // "host", "organizer" or any attendee role
+  joinTime: z.string(),
+  leaveTime: z.string()
+})
+
+const webhookReportSchema = z.object({
+  platform: z.enum(['zoom', 'teams', 'meet']),
+  meetingId: z.string().min(1),
+  meetingStart: z.string().optional(),
+  meetingEnd: z.string().optional(),
+  hostEmail: z.string().optional(),
+  participants: z.array(participantSchema).min(1)
+})
+
+function isAuthorized(request: NextRequest, secret: string): boolean {
+  const provided = Buffer.from(request.headers.get('x-webhook-secret') || '')
+  const expected = Buffer.from(secret)
+  return provided.length === expected.length && timingSafeEqual(provided, expected)
+}
+
+// POST - Participant report pushed by a meeting platform integration once a meeting ends
+export async function POST(request: NextRequest) {
+  try {
+    const secret = process.env.MEETING_WEBHOOK_SECRET
+    if (!secret) {
+      return NextResponse.json({ error: 'Participant report webhook is not configured' }, { status: 503 })
+    }
+
+    if (!isAuthorized(request, secret)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const data = webhookReportSchema.parse(body)
+    const platform = data.platform
+    const meetingStart = data.meetingStart ? parseReportTime(data.meetingStart) : null
+
+    const participants: ParticipantInterval[] = []
+    for (const participant of data.participants) {
+      const joinTime = parseReportTime(participant.joinTime, meetingStart)
+      const leaveTime = parseReportTime(participant.leaveTime, meetingStart)
+
+      if (!joinTime || !leaveTime || leaveTime < joinTime) {
+        return NextResponse.json({ error: `Invalid join or leave time for participant ${participant.name}` }, { status: 400 })
+      }
+
+      participants.push({
+        name: participant.name,
+        email: participant.email?.toLowerCase() ?? null,
+        role: participant.role?.toLowerCase() ?? null,
+        joinTime,
+        leaveTime
+      })
+    }
+
+    const result = await ingestParticipantReport({
+      platform,
+      meetingId: normalizeMeetingId(platform, data.meetingId),
+      meetingStart,
+      meetingEnd: data.meetingEnd ? parseReportTime(data.meetingEnd, meetingStart) : null,
+      hostEmail: data.hostEmail?.toLowerCase() ?? null,
+      participants
+    }, { source: 'webhook' })
+
+    return NextResponse.json({
+      success: true,
+      reportId: result.report.id,
+      status: result.report.status,
+      attendanceRecordId: result.attendanceRecord?.id ?? null
+    })
+  } catch (error) {
+    console.error('Error ingesting participant report webhook:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
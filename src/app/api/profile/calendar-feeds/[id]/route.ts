@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth-config'
+import { prisma } from '@/lib/db'
+import { auditActor } from '@/lib/audit'
+
+// DELETE - Revoke a feed so calendars subscribed to its URL stop updating
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const feed = await prisma.calendarFeedToken.findUnique({ where: { id } })
+
+    if (!feed || feed.userId !== session.user.id || feed.revokedAt) {
+      return NextResponse.json({ error: 'Calendar feed not found' }, { status: 404 })
+    }
+
+    await prisma.calendarFeedToken.update({
+      where: { id },
+      data: { revokedAt: new Date() }
+    })
+
+    await prisma.auditLog.create({
+      data: {
+        ...auditActor(session.user),
+        action: 'CALENDAR_FEED_REVOKED',
+        targetType: 'CalendarFeedToken',
+        targetId: id,
+        metadata: JSON.stringify({ scope: feed.scope, targetId: feed.targetId, label: feed.label })
+      }
+    })
+
+    return NextResponse.json({ message: 'Calendar feed revoked' })
+  } catch (error) {
+    console.error('Error revoking calendar feed:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth-config'
+import { prisma } from '@/lib/db'
+import { auditActor } from '@/lib/audit'
+import { calendarFeedSchema, createFeedToken, getFeedTargets } from '@/lib/calendar-feeds'
+
+// GET - The user's calendar feeds and what they may subscribe to
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const [feeds, targets] = await Promise.all([
+      prisma.calendarFeedToken.findMany({
+        where: { userId: session.user.id, revokedAt: null },
+        select: { id: true, scope: true, targetId: true, label: true, lastUsedAt: true, createdAt: true },
+        orderBy: { createdAt: 'desc' }
+      }),
+      getFeedTargets(session.user)
+    ])
+
+    return NextResponse.json({ feeds, targets })
+  } catch (error) {
+    console.error('Error fetching calendar feeds:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Create a feed; the URL holds the token and is only shown this once
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { scope, targetId } = calendarFeedSchema.parse(await request.json())
+
+    const targets = await getFeedTargets(session.user)
+    const target = targets.find(item => item.scope === scope && item.targetId === targetId)
+
+    if (!target) {
+      return NextResponse.json({ error: 'You cannot subscribe to this timetable' }, { status: 403 })
+    }
+
+    const { token, tokenHash } = createFeedToken()
+
+    const feed = await prisma.calendarFeedToken.create({
+      data: {
+        userId: session.user.id,
+        tokenHash,
+        scope,
+        targetId,
+        label: target.label
+      },
+      select: { id: true, scope: true, targetId: true, label: true, lastUsedAt: true, createdAt: true }
+    })
+
+    await prisma.auditLog.create({
+      data: {
+        ...auditActor(session.user),
+        action: 'CALENDAR_FEED_CREATED',
+        targetType: 'CalendarFeedToken',
+        targetId: feed.id,
+        metadata: JSON.stringify({ scope, targetId, label: target.label })
+      }
+    })
+
+    return NextResponse.json({
+      feed,
+      url: `${request.nextUrl.origin}/api/calendar/feed/${token}.ics`
+    }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error creating calendar feed:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth-config'
 import { prisma } from '@/lib/db'
+import { auditActor } from '@/lib/audit'
 import { hashPassword, verifyPassword } from '@/lib/auth'
 
 export async function POST(request: NextRequest) {
@@ -54,13 +55,30 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (await verifyPassword(newPassword, user.passwordHash)) {
+      return NextResponse.json(
+        { error: 'New password must be different from the current password' },
+        { status: 400 }
+      )
+    }
+
     // Hash new password
     const hashedNewPassword = await hashPassword(newPassword)
 
-    // Update password in database
+    // Update password in database; choosing a password satisfies a forced change
     await prisma.user.update({
       where: { id: session.user.id },
-      data: { passwordHash: hashedNewPassword }
+      data: { passwordHash: hashedNewPassword, mustChangePassword: false }
+    })
+
+    await prisma.auditLog.create({
+      data: {
+        ...auditActor(session.user),
+        action: 'PASSWORD_CHANGED',
+        targetType: 'User',
+        targetId: session.user.id,
+        metadata: JSON.stringify({ forced: user.mustChangePassword })
+      }
     })
 
     return NextResponse.json(
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth-config'
+import { regenerateRecoveryCodes, twoFactorCodeSchema } from '@/lib/two-factor'
+
+// POST - Replace the recovery codes, confirmed with a current code
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { code } = twoFactorCodeSchema.parse(await request.json())
+
+    const result = await regenerateRecoveryCodes(
+      session.user.id,
+      code,
+      request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip')
+    )
+
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error regenerating recovery codes:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
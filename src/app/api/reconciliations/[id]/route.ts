@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { prisma } from '@/lib/db'
+import { auditActor } from '@/lib/audit'
+import { authOptions } from '@/lib/auth-config'
+import { parseContradictions, resolveReconciliation } from '@/lib/session-reconciliation'
+import { enhancedNotificationService } from '@/lib/enhanced-notifications'
+import { z } from 'zod'
+
+const resolveReconciliationSchema = z.object({
+  verdict: z.enum(['held', 'not_held']),
+  comment: z.string().trim().min(1, 'A comment explaining the decision is required')
+})
+
+// PATCH - Coordinator settles a session whose accounts contradict each other
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || !['ADMIN', 'COORDINATOR'].includes(session.user.role)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const { verdict, comment } = resolveReconciliationSchema.parse(body)
+
+    const reconciliation = await prisma.sessionReconciliation.findUnique({
+      where: { id },
+      include: {
+        classSession: {
+          include: {
+            courseSchedule: {
+              include: {
+                course: { include: { programme: true } },
+                classGroup: true,
+                lecturer: true
+              }
+            }
+          }
+        }
+      }
+    })
+
+    if (!reconciliation) {
+      return NextResponse.json({ error: 'Reconciliation not found' }, { status: 404 })
+    }
+
+    const { course, classGroup, lecturer } = reconciliation.classSession.courseSchedule
+
+    if (session.user.role === 'COORDINATOR' && course.programme.coordinator !== session.user.id) {
+      return NextResponse.json({ error: 'Forbidden - You can only review sessions for your assigned programmes' }, { status: 403 })
+    }
+
+    const result = await resolveReconciliation(id, verdict, session.user.id, comment)
+
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    await prisma.auditLog.create({
+      data: {
+        ...auditActor(session.user),
+        action: 'SESSION_RECONCILIATION_RESOLVED',
+        targetType: 'SessionReconciliation',
+        targetId: id,
+        metadata: JSON.stringify({
+          classSessionId: reconciliation.classSessionId,
+          attendanceRecordId: result.attendanceRecordId,
+          course: course.title,
+          classGroup: classGroup.name,
+          date: reconciliation.classSession.date,
+          verdict,
+          comment,
+          computedVerdict: reconciliation.verdict,
+          confidence: reconciliation.confidence,
+          contradictions: parseContradictions(reconciliation.contradictions).map(contradiction => contradiction.detail),
+          previousSupervisorVerified: result.previousSupervisorVerified
+        })
+      }
+    })
+
+    await enhancedNotificationService.sendNotification({
+      userId: lecturer.userId,
+      title: 'Attendance Review Completed',
+      message: `Your ${course.title} (${classGroup.name}) class on ${reconciliation.classSession.date.toISOString().slice(0, 10)} was reviewed and recorded as ${verdict === 'held' ? 'held' : 'not held'}: ${comment}`,
+      category: 'verification',
+      priority: 'normal',
+      actionUrl: verdict === 'held' ? '/dashboard/attendance' : '/dashboard/appeals',
+      metadata: { reconciliationId: id }
+    })
+
+    return NextResponse.json(result.reconciliation)
+  } catch (error) {
+    console.error('Error resolving session reconciliation:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,166 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { prisma } from '@/lib/db'
+import { auditActor } from '@/lib/audit'
+import { authOptions } from '@/lib/auth-config'
+import { parseContradictions, reconcileClassSessions } from '@/lib/session-reconciliation'
+import { toSessionDate } from '@/lib/class-sessions'
+import { z } from 'zod'
+
+const MAX_RECONCILE_DAYS = 31
+
+const reconcileRangeSchema = z.object({
+  startDate: z.string().refine(value => !isNaN(Date.parse(value)), 'Invalid start date'),
+  endDate: z.string().refine(value => !isNaN(Date.parse(value)), 'Invalid end date')
+})
+
+// GET - Session verdicts, by default the contradictions awaiting review
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || !['ADMIN', 'COORDINATOR'].includes(session.user.role)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const reviewStatus = searchParams.get('reviewStatus') ?? 'pending'
+    const verdict = searchParams.get('verdict')
+
+    const whereClause: any = {}
+    if (reviewStatus !== 'all') whereClause.reviewStatus = reviewStatus
+    if (verdict) whereClause.verdict = verdict
+
+    if (session.user.role === 'COORDINATOR') {
+      whereClause.classSession = {
+        courseSchedule: { course: { programme: { coordinator: session.user.id } } }
+      }
+    }
+
+    const reconciliations = await prisma.sessionReconciliation.findMany({
+      where: whereClause,
+      include: {
+        classSession: {
+          select: {
+            id: true,
+            date: true,
+            startTime: true,
+            endTime: true,
+            status: true,
+            courseSchedule: {
+              select: {
+                course: { select: { courseCode: true, title: true } },
+                classGroup: { select: { name: true } },
+                lecturer: {
+                  select: { user: { select: { firstName: true, lastName: true } } }
+                }
+              }
+            },
+            attendanceRecords: {
+              select: {
+                id: true,
+                timestamp: true,
+                method: true,
+                locationVerified: true,
+                qrVerified: true,
+                supervisorVerified: true,
+                supervisorComment: true,
+                classRepComment: true
+              },
+              orderBy: { timestamp: 'asc' },
+              take: 1
+            },
+            supervisorLogs: {
+              select: {
+                status: true,
+                comments: true,
+                checkInTime: true,
+                supervisor: { select: { firstName: true, lastName: true } }
+              },
+              orderBy: { checkInTime: 'desc' },
+              take: 1
+            }
+          }
+        }
+      },
+      orderBy: { reconciledAt: 'desc' },
+      take: 200
+    })
+
+    return NextResponse.json(reconciliations.map(({ classSession, ...reconciliation }) => ({
+      ...reconciliation,
+      contradictions: parseContradictions(reconciliation.contradictions),
+      classSession: {
+        id: classSession.id,
+        date: classSession.date,
+        startTime: classSession.startTime,
+        endTime: classSession.endTime,
+        status: classSession.status,
+        course: classSession.courseSchedule.course,
+        classGroup: classSession.courseSchedule.classGroup,
+        lecturer: classSession.courseSchedule.lecturer.user
+      },
+      attendanceRecord: classSession.attendanceRecords[0] ?? null,
+      supervisorLog: classSession.supervisorLogs[0] ?? null
+    })))
+  } catch (error) {
+    console.error('Error fetching session reconciliations:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Re-run reconciliation for the sessions in a date range
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { startDate, endDate } = reconcileRangeSchema.parse(body)
+
+    const start = toSessionDate(new Date(startDate))
+    const end = toSessionDate(new Date(endDate))
+
+    if (end < start) {
+      return NextResponse.json({ error: 'End date must not be before start date' }, { status: 400 })
+    }
+
+    if (end.getTime() - start.getTime() > MAX_RECONCILE_DAYS * 24 * 60 * 60 * 1000) {
+      return NextResponse.json({ error: `Reconcile at most ${MAX_RECONCILE_DAYS} days at a time` }, { status: 400 })
+    }
+
+    const reconciled = await reconcileClassSessions(start, end)
+
+    await prisma.auditLog.create({
+      data: {
+        ...auditActor(session.user),
+        action: 'SESSIONS_RECONCILED',
+        targetType: 'ClassSession',
+        targetId: `${startDate}..${endDate}`,
+        metadata: JSON.stringify({ startDate, endDate, reconciled })
+      }
+    })
+
+    return NextResponse.json({ reconciled })
+  } catch (error) {
+    console.error('Error reconciling class sessions:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -3,6 +3,7 @@ import { prisma } from '@/lib/db'
 import { getServerSession } from 'next-auth/next'
 import { authOptions } from '@/lib/auth-config'
 import { startOfDay, endOfDay, differenceInHours, parse } from 'date-fns'
+import { loadAcademicCalendar, findSemesterForDate, getTeachingWeek } from '@/lib/academic-calendar'
 
 export async function GET(request: NextRequest) {
   try {
@@ -63,6 +64,14 @@ export async function GET(request: NextRequest) {
         supervisorVerified: true,
         courseScheduleId: true,
         sessionDuration: true,
+        classSession: {
+          select: {
+            status: true,
+            isMakeUp: true,
+            startTime: true,
+            endTime: true
+          }
+        },
         courseSchedule: {
           select: {
             startTime: true,
@@ -89,54 +98,19 @@ export async function GET(request: NextRequest) {
       }
     })
 
-    // Fetch supervisor logs to identify cancelled classes
-    const cancelledLogs = await prisma.supervisorLog.findMany({
-      where: {
-        courseSchedule: {
-            lecturerId: lecturerId
-        },
-        checkInTime: {
-          gte: startDate,
-          lte: endDate
-        },
-        status: 'cancelled'
-      }
-    })
-
-    // Filter out records that match cancelled classes
-    const validRecords = records.filter(record => {
-      // If the record is explicitly verified by a supervisor, include it regardless of cancellation logs
-      if (record.supervisorVerified) {
-        return true
-      }
-
-      const recordTime = record.timestamp.getTime()
-      
-      const isCancelled = cancelledLogs.some(log => {
-        const logTime = log.checkInTime.getTime()
-        // Check if it's the same schedule
-        if (log.courseScheduleId !== record.courseScheduleId) return false
-        
-        // Check if it's the same day
-        const logDay = startOfDay(log.checkInTime).getTime()
-        const recordDay = startOfDay(record.timestamp).getTime()
-        if (logDay !== recordDay) return false
-
-        // If it's the same day, check if the times are close (within 2 hours)
-        // This allows for rescheduled classes on the same day to be included
-        const timeDiff = Math.abs(recordTime - logTime)
-        const twoHoursInMs = 2 * 60 * 60 * 1000
-        
-        return timeDiff < twoHoursInMs
-      })
-
-      return !isCancelled
-    })
+    // Drop classes a supervisor disputed, and cancelled sessions unless a supervisor verified the class took place
+    const validRecords = records.filter(record =>
+      record.supervisorVerified !== false &&
+      (record.supervisorVerified || record.classSession?.status !== 'cancelled')
+    )
 
     const claimEligibleRecords = validRecords.filter((record) =>
       lecturer.isAdjunct || record.courseSchedule.isOverload
     )
 
+    // Week numbers follow the semester's teaching weeks when a calendar is set up
+    const calendar = await loadAcademicCalendar(startDate, endDate)
+
     // Group records by Course
     // We can key by courseCode or courseId
     const recordsByCourse: Record<string, any[]> = {}
@@ -159,12 +133,15 @@ export async function GET(request: NextRequest) {
       const course = firstRecord.courseSchedule.course
 
       const processedRecords = courseRecords.map((record, index) => {
-        const schedule = record.courseSchedule
+        // Make-up classes are claimed at the time they were actually held
+        const schedule = record.classSession?.isMakeUp ? record.classSession : record.courseSchedule
         const date = new Date(record.timestamp)
         
-        // Calculate Week Number relative to start date
+        // Use the semester teaching week, falling back to the week relative to the start date
+        const semester = findSemesterForDate(date, calendar)
+        const teachingWeek = semester ? getTeachingWeek(date, semester, calendar.events) : null
         const dayDiff = Math.floor((date.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24))
-        const weekNumber = Math.floor(dayDiff / 7) + 1
+        const weekNumber = teachingWeek ?? Math.floor(dayDiff / 7) + 1
 
         // Calculate Hours
         let hours = 0
@@ -190,7 +167,7 @@ export async function GET(request: NextRequest) {
           startTime: schedule.startTime,
           endTime: schedule.endTime,
           hours: Number(hours.toFixed(1)),
-          status: 'PRESENT'
+          status: record.classSession?.isMakeUp ? 'PRESENT (MAKE-UP)' : 'PRESENT'
         }
       })
 
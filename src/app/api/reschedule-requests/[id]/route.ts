@@ -0,0 +1,205 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { prisma } from '@/lib/db'
+import { auditActor } from '@/lib/audit'
+import { authOptions } from '@/lib/auth-config'
+import { toSessionDate } from '@/lib/class-sessions'
+import { canRescheduleClassSession, checkMakeUpSlot } from '@/lib/reschedule'
+import { enhancedNotificationService } from '@/lib/enhanced-notifications'
+import { z } from 'zod'
+
+const reviewRescheduleRequestSchema = z.object({
+  action: z.enum(['approve', 'reject', 'withdraw']),
+  comment: z.string().optional()
+})
+
+// PATCH - Coordinator approves or rejects, lecturer withdraws
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || !['ADMIN', 'COORDINATOR', 'LECTURER'].includes(session.user.role)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const resolvedParams = await params
+    const body = await request.json()
+    const { action, comment } = reviewRescheduleRequestSchema.parse(body)
+
+    const rescheduleRequest = await prisma.rescheduleRequest.findUnique({
+      where: { id: resolvedParams.id },
+      include: {
+        classSession: {
+          include: {
+            courseSchedule: {
+              include: {
+                course: {
+                  include: { programme: true }
+                },
+                classGroup: true
+              }
+            }
+          }
+        },
+        lecturer: {
+          include: { user: true }
+        }
+      }
+    })
+
+    if (!rescheduleRequest) {
+      return NextResponse.json({ error: 'Reschedule request not found' }, { status: 404 })
+    }
+
+    if (rescheduleRequest.status !== 'pending') {
+      return NextResponse.json({ error: `Reschedule request has already been ${rescheduleRequest.status}` }, { status: 400 })
+    }
+
+    const originalSession = rescheduleRequest.classSession
+    const schedule = originalSession.courseSchedule
+
+    if (action === 'withdraw') {
+      if (rescheduleRequest.lecturer.userId !== session.user.id) {
+        return NextResponse.json({ error: 'Only the requesting lecturer can withdraw this request' }, { status: 403 })
+      }
+    } else {
+      if (session.user.role === 'LECTURER') {
+        return NextResponse.json({ error: 'Only coordinators can review reschedule requests' }, { status: 403 })
+      }
+
+      if (session.user.role === 'COORDINATOR' && schedule.course.programme.coordinator !== session.user.id) {
+        return NextResponse.json({ error: 'Forbidden - You can only review requests for courses in your assigned programmes' }, { status: 403 })
+      }
+    }
+
+    const reviewData = {
+      reviewedBy: session.user.id,
+      reviewedAt: new Date(),
+      reviewComment: comment || null
+    }
+
+    let updatedRequest
+
+    if (action === 'approve') {
+      if (!canRescheduleClassSession(originalSession.status)) {
+        return NextResponse.json({ error: `A ${originalSession.status} session cannot be rescheduled` }, { status: 400 })
+      }
+
+      // The slot may have been taken since the lecturer proposed it
+      const slotError = await checkMakeUpSlot(schedule, {
+        date: rescheduleRequest.proposedDate,
+        startTime: rescheduleRequest.proposedStartTime,
+        endTime: rescheduleRequest.proposedEndTime,
+        classroomId: rescheduleRequest.proposedClassroomId
+      })
+
+      if (slotError) {
+        return NextResponse.json({ error: slotError.error }, { status: slotError.status })
+      }
+
+      updatedRequest = await prisma.$transaction(async (tx) => {
+        const makeUpSession = await tx.classSession.create({
+          data: {
+            courseScheduleId: schedule.id,
+            date: toSessionDate(rescheduleRequest.proposedDate),
+            startTime: rescheduleRequest.proposedStartTime,
+            endTime: rescheduleRequest.proposedEndTime,
+            classroomId: rescheduleRequest.proposedClassroomId,
+            isMakeUp: true,
+            makeUpForId: originalSession.id
+          }
+        })
+
+        await tx.classSession.update({
+          where: { id: originalSession.id },
+          data: {
+            status: 'rescheduled',
+            statusReason: rescheduleRequest.reason,
+            statusChangedAt: new Date()
+          }
+        })
+
+        return tx.rescheduleRequest.update({
+          where: { id: rescheduleRequest.id },
+          data: {
+            ...reviewData,
+            status: 'approved',
+            makeUpSessionId: makeUpSession.id
+          }
+        })
+      })
+    } else {
+      updatedRequest = await prisma.rescheduleRequest.update({
+        where: { id: rescheduleRequest.id },
+        data: {
+          ...reviewData,
+          status: action === 'reject' ? 'rejected' : 'withdrawn'
+        }
+      })
+    }
+
+    await prisma.auditLog.create({
+      data: {
+        ...auditActor(session.user),
+        action: `RESCHEDULE_${updatedRequest.status.toUpperCase()}`,
+        targetType: 'RescheduleRequest',
+        targetId: rescheduleRequest.id,
+        metadata: JSON.stringify({
+          classSessionId: originalSession.id,
+          makeUpSessionId: updatedRequest.makeUpSessionId,
+          course: schedule.course.courseCode,
+          classGroup: schedule.classGroup.name,
+          comment
+        })
+      }
+    })
+
+    const course = `${schedule.course.courseCode} (${schedule.classGroup.name})`
+    const makeUpSlot = `${rescheduleRequest.proposedDate.toISOString().split('T')[0]} ${rescheduleRequest.proposedStartTime}-${rescheduleRequest.proposedEndTime}`
+
+    if (action !== 'withdraw') {
+      await enhancedNotificationService.sendNotification({
+        userId: rescheduleRequest.lecturer.userId,
+        title: action === 'approve' ? 'Make-up Class Approved' : 'Make-up Class Rejected',
+        message: action === 'approve'
+          ? `Your make-up class for ${course} on ${makeUpSlot} has been approved.`
+          : `Your make-up request for ${course} was rejected${comment ? `: ${comment}` : '.'}`,
+        category: 'system',
+        priority: 'normal',
+        actionUrl: '/dashboard/reschedules',
+        metadata: { rescheduleRequestId: rescheduleRequest.id }
+      })
+    }
+
+    // Class reps pass the new time on to students
+    if (action === 'approve' && schedule.classGroup.classRepId) {
+      await enhancedNotificationService.sendNotification({
+        userId: schedule.classGroup.classRepId,
+        title: 'Class Rescheduled',
+        message: `${course} from ${originalSession.date.toISOString().split('T')[0]} ${originalSession.startTime} has been moved to ${makeUpSlot}.`,
+        category: 'reminder',
+        priority: 'high',
+        metadata: {
+          rescheduleRequestId: rescheduleRequest.id,
+          makeUpSessionId: updatedRequest.makeUpSessionId
+        }
+      })
+    }
+
+    return NextResponse.json(updatedRequest)
+  } catch (error) {
+    console.error('Error reviewing reschedule request:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,233 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { prisma } from '@/lib/db'
+import { auditActor } from '@/lib/audit'
+import { authOptions } from '@/lib/auth-config'
+import { getOrCreateClassSession } from '@/lib/class-sessions'
+import { canRescheduleClassSession, checkMakeUpSlot, RESCHEDULE_REQUEST_STATUSES } from '@/lib/reschedule'
+import { enhancedNotificationService } from '@/lib/enhanced-notifications'
+import { z } from 'zod'
+
+const createRescheduleRequestSchema = z.object({
+  courseScheduleId: z.string(),
+  originalDate: z.string(),
+  proposedDate: z.string(),
+  proposedStartTime: z.string(),
+  proposedEndTime: z.string(),
+  proposedClassroomId: z.string().optional(),
+  reason: z.string().min(1)
+})
+
+// GET - Reschedule requests visible to the current user
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || !['ADMIN', 'COORDINATOR', 'LECTURER'].includes(session.user.role)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status')
+
+    if (status && !RESCHEDULE_REQUEST_STATUSES.includes(status as any)) {
+      return NextResponse.json({ error: 'Invalid status' }, { status: 400 })
+    }
+
+    const where: any = status ? { status } : {}
+
+    if (session.user.role === 'LECTURER') {
+      const lecturer = await prisma.lecturer.findUnique({
+        where: { userId: session.user.id }
+      })
+
+      if (!lecturer) {
+        return NextResponse.json({ error: 'Lecturer not found' }, { status: 404 })
+      }
+
+      where.lecturerId = lecturer.id
+    } else if (session.user.role === 'COORDINATOR') {
+      // Coordinators review requests for courses in their programmes
+      where.classSession = {
+        courseSchedule: {
+          course: {
+            programme: { coordinator: session.user.id }
+          }
+        }
+      }
+    }
+
+    const requests = await prisma.rescheduleRequest.findMany({
+      where,
+      include: {
+        classSession: {
+          include: {
+            courseSchedule: {
+              include: {
+                course: true,
+                classGroup: true,
+                classroom: true
+              }
+            }
+          }
+        },
+        makeUpSession: true,
+        lecturer: {
+          include: {
+            user: {
+              select: { firstName: true, lastName: true, email: true }
+            }
+          }
+        }
+      },
+      orderBy: { createdAt: 'desc' }
+    })
+
+    return NextResponse.json(requests)
+  } catch (error) {
+    console.error('Error fetching reschedule requests:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Lecturer proposes a make-up for one occurrence of a schedule
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || session.user.role !== 'LECTURER') {
+      return NextResponse.json({ error: 'Unauthorized - Only lecturers can request a reschedule' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const data = createRescheduleRequestSchema.parse(body)
+
+    const originalDate = new Date(data.originalDate)
+    const proposedDate = new Date(data.proposedDate)
+    if (isNaN(originalDate.getTime()) || isNaN(proposedDate.getTime())) {
+      return NextResponse.json({ error: 'Invalid date' }, { status: 400 })
+    }
+
+    const lecturer = await prisma.lecturer.findUnique({
+      where: { userId: session.user.id },
+      include: { user: true }
+    })
+
+    if (!lecturer) {
+      return NextResponse.json({ error: 'Lecturer not found' }, { status: 404 })
+    }
+
+    const schedule = await prisma.courseSchedule.findFirst({
+      where: {
+        id: data.courseScheduleId,
+        lecturerId: lecturer.id
+      },
+      include: {
+        course: {
+          include: { programme: true }
+        },
+        classGroup: true
+      }
+    })
+
+    if (!schedule) {
+      return NextResponse.json({ error: 'Schedule not found or unauthorized' }, { status: 404 })
+    }
+
+    if (originalDate.getUTCDay() !== schedule.dayOfWeek) {
+      return NextResponse.json({ error: 'The original date does not fall on this schedule\'s day' }, { status: 400 })
+    }
+
+    const classSession = await getOrCreateClassSession(schedule, originalDate)
+
+    if (!canRescheduleClassSession(classSession.status)) {
+      return NextResponse.json({ error: `A ${classSession.status} session cannot be rescheduled` }, { status: 400 })
+    }
+
+    const pendingRequest = await prisma.rescheduleRequest.findFirst({
+      where: {
+        classSessionId: classSession.id,
+        status: 'pending'
+      }
+    })
+
+    if (pendingRequest) {
+      return NextResponse.json({ error: 'A reschedule request is already pending for this session' }, { status: 400 })
+    }
+
+    const slotError = await checkMakeUpSlot(schedule, {
+      date: proposedDate,
+      startTime: data.proposedStartTime,
+      endTime: data.proposedEndTime,
+      classroomId: data.proposedClassroomId
+    })
+
+    if (slotError) {
+      return NextResponse.json({ error: slotError.error }, { status: slotError.status })
+    }
+
+    const rescheduleRequest = await prisma.rescheduleRequest.create({
+      data: {
+        classSessionId: classSession.id,
+        lecturerId: lecturer.id,
+        proposedDate,
+        proposedStartTime: data.proposedStartTime,
+        proposedEndTime: data.proposedEndTime,
+        proposedClassroomId: data.proposedClassroomId || null,
+        reason: data.reason
+      }
+    })
+
+    await prisma.auditLog.create({
+      data: {
+        ...auditActor(session.user),
+        action: 'RESCHEDULE_REQUESTED',
+        targetType: 'RescheduleRequest',
+        targetId: rescheduleRequest.id,
+        metadata: JSON.stringify({
+          classSessionId: classSession.id,
+          course: schedule.course.courseCode,
+          classGroup: schedule.classGroup.name,
+          originalDate: data.originalDate,
+          proposedDate: data.proposedDate,
+          proposedStartTime: data.proposedStartTime,
+          proposedEndTime: data.proposedEndTime,
+          reason: data.reason
+        })
+      }
+    })
+
+    // Let the programme coordinator know there is a request to review
+    const coordinatorId = schedule.course.programme.coordinator
+    if (coordinatorId) {
+      await enhancedNotificationService.sendNotification({
+        userId: coordinatorId,
+        title: 'Make-up Class Request',
+        message: `${lecturer.user.firstName} ${lecturer.user.lastName} requested to move ${schedule.course.courseCode} (${schedule.classGroup.name}) to ${data.proposedDate} ${data.proposedStartTime}-${data.proposedEndTime}.`,
+        category: 'system',
+        priority: 'normal',
+        actionUrl: '/dashboard/reschedules',
+        metadata: { rescheduleRequestId: rescheduleRequest.id }
+      })
+    }
+
+    return NextResponse.json(rescheduleRequest, { status: 201 })
+  } catch (error) {
+    console.error('Error creating reschedule request:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
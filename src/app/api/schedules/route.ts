@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth/next'
 import { prisma } from '@/lib/db'
 import { authOptions } from '@/lib/auth-config'
 import { resolveMeetingLink } from '@/lib/meeting-link'
+import { findScheduleConflict } from '@/lib/schedule-conflicts'
 
 export async function POST(request: NextRequest) {
   try {
@@ -76,78 +77,20 @@ export async function POST(request: NextRequest) {
     }
 
     // Check for scheduling conflicts
-    // Time overlap logic: (StartA <= StartB AND EndA > StartB) OR (StartA < EndB AND EndA >= EndB) OR (StartA >= StartB AND EndA <= EndB)
-    const timeConflictConditions = [
-      {
-        AND: [
-          { startTime: { lte: startTimeStr } },
-          { endTime: { gt: startTimeStr } }
-        ]
-      },
-      {
-        AND: [
-          { startTime: { lt: endTimeStr } },
-          { endTime: { gte: endTimeStr } }
-        ]
-      },
-      {
-        AND: [
-          { startTime: { gte: startTimeStr } },
-          { endTime: { lte: endTimeStr } }
-        ]
-      }
-    ]
-
     console.log('[API] Checking conflicts separately for day:', dayOfWeekInt);
 
-    // 1. Check Lecturer Conflict
-    const lecturerConflict = await prisma.courseSchedule.findFirst({
-      where: {
-        dayOfWeek: dayOfWeekInt,
-        lecturerId: lecturerIdStr,
-        OR: [...timeConflictConditions]
-      }
-    });
-
-    if (lecturerConflict) {
-       console.log('[API] Lecturer conflict found:', lecturerConflict.id);
-       return NextResponse.json({ 
-         error: 'Scheduling conflict: The lecturer is already booked for this time slot.' 
-       }, { status: 409 });
-    }
-
-    // 2. Check Class Group Conflict
-    const classGroupConflict = await prisma.courseSchedule.findFirst({
-      where: {
-        dayOfWeek: dayOfWeekInt,
-        classGroupId: classGroupIdStr,
-        OR: [...timeConflictConditions]
-      }
-    });
-
-    if (classGroupConflict) {
-       console.log('[API] Class Group conflict found:', classGroupConflict.id);
-       return NextResponse.json({ 
-         error: 'Scheduling conflict: The class group is already booked for this time slot.' 
-       }, { status: 409 });
-    }
-
-    // 3. Check Classroom Conflict (if applicable)
-    if (classroomIdStr) {
-      const classroomConflict = await prisma.courseSchedule.findFirst({
-        where: {
-          dayOfWeek: dayOfWeekInt,
-          classroomId: classroomIdStr,
-          OR: [...timeConflictConditions]
-        }
-      });
+    const conflict = await findScheduleConflict({
+      dayOfWeek: dayOfWeekInt,
+      startTime: startTimeStr,
+      endTime: endTimeStr,
+      lecturerId: lecturerIdStr,
+      classGroupId: classGroupIdStr,
+      classroomId: classroomIdStr
+    })
 
-      if (classroomConflict) {
-         console.log('[API] Classroom conflict found:', classroomConflict.id);
-         return NextResponse.json({ 
-           error: 'Scheduling conflict: The classroom is already booked for this time slot.' 
-         }, { status: 409 });
-      }
+    if (conflict) {
+      console.log(`[API] ${conflict.type} conflict found:`, conflict.scheduleId);
+      return NextResponse.json({ error: conflict.message }, { status: 409 });
     }
 
     // Create schedule
@@ -3,6 +3,8 @@ import { getServerSession } from 'next-auth/next'
 import { prisma } from '@/lib/db'
 import { authOptions } from '@/lib/auth-config'
 import { resolveMeetingLink } from '@/lib/meeting-link'
+import { getAcademicDayStatus, describeDayStatus } from '@/lib/academic-calendar'
+import { toSessionDate } from '@/lib/class-sessions'
 
 export async function GET(request: NextRequest) {
   try {
@@ -24,12 +26,6 @@ export async function GET(request: NextRequest) {
     // Get today's day of week (0 = Sunday, 1 = Monday, etc.)
     const today = new Date()
     const todayDayOfWeek = today.getUTCDay()
-    
-    const startOfDay = new Date(today)
-    startOfDay.setUTCHours(0, 0, 0, 0)
-    
-    const endOfDay = new Date(today)
-    endOfDay.setUTCHours(23, 59, 59, 999)
 
     // Fetch today's schedules for this lecturer
     const schedules = await prisma.courseSchedule.findMany({
@@ -45,13 +41,9 @@ export async function GET(request: NextRequest) {
             building: true
           }
         },
-        attendanceRecords: {
-          where: {
-            timestamp: {
-              gte: startOfDay,
-              lt: endOfDay
-            }
-          }
+        classSessions: {
+          where: { date: toSessionDate(today), isMakeUp: false },
+          include: { attendanceRecords: true }
         }
       },
       orderBy: {
@@ -59,12 +51,17 @@ export async function GET(request: NextRequest) {
       }
     })
 
+    // Classes are not expected on holidays, exam periods or reading weeks
+    const dayStatus = await getAcademicDayStatus(today)
+    const calendarNote = describeDayStatus(dayStatus)
+
     // Include all schedules, but mark those with attendance
     const formattedSchedules = schedules.map(schedule => {
       const resolvedMeetingLink = resolveMeetingLink(
         schedule.meetingLink,
         schedule.classroom?.virtualLink
       )
+      const classSession = schedule.classSessions[0]
 
       return {
       id: schedule.id,
@@ -74,7 +71,13 @@ export async function GET(request: NextRequest) {
       sessionType: schedule.sessionType,
       meetingLink: schedule.meetingLink,
       resolvedMeetingLink,
-      hasAttendance: schedule.attendanceRecords.length > 0,
+      classSessionId: classSession?.id ?? null,
+      sessionStatus: classSession?.status ?? 'scheduled',
+      isMakeUp: false,
+      hasAttendance: (classSession?.attendanceRecords.length ?? 0) > 0,
+      isTeachingDay: dayStatus.teaching,
+      teachingWeek: dayStatus.teachingWeek ?? null,
+      calendarNote,
       course: {
         id: schedule.course.id,
         title: schedule.course.title,
@@ -94,7 +97,76 @@ export async function GET(request: NextRequest) {
     }
     })
 
-    return NextResponse.json(formattedSchedules)
+    // Approved make-up classes held today, possibly for a different weekday's schedule
+    const makeUpSessions = await prisma.classSession.findMany({
+      where: {
+        date: toSessionDate(today),
+        isMakeUp: true,
+        status: { in: ['scheduled', 'held'] },
+        courseSchedule: { lecturerId: lecturer.id }
+      },
+      include: {
+        attendanceRecords: true,
+        classroom: {
+          include: {
+            building: true
+          }
+        },
+        courseSchedule: {
+          include: {
+            course: true,
+            classGroup: true,
+            classroom: {
+              include: {
+                building: true
+              }
+            }
+          }
+        }
+      }
+    })
+
+    const formattedMakeUps = makeUpSessions.map(classSession => {
+      const schedule = classSession.courseSchedule
+      const classroom = classSession.classroom || schedule.classroom
+
+      return {
+        id: schedule.id,
+        sessionDate: today.toISOString().split('T')[0],
+        startTime: classSession.startTime,
+        endTime: classSession.endTime,
+        sessionType: schedule.sessionType,
+        meetingLink: schedule.meetingLink,
+        resolvedMeetingLink: resolveMeetingLink(schedule.meetingLink, classroom?.virtualLink),
+        classSessionId: classSession.id,
+        sessionStatus: classSession.status,
+        isMakeUp: true,
+        hasAttendance: classSession.attendanceRecords.length > 0,
+        isTeachingDay: dayStatus.teaching,
+        teachingWeek: dayStatus.teachingWeek ?? null,
+        calendarNote,
+        course: {
+          id: schedule.course.id,
+          title: schedule.course.title,
+          courseCode: schedule.course.courseCode
+        },
+        classGroup: {
+          id: schedule.classGroup.id,
+          name: schedule.classGroup.name
+        },
+        building: {
+          name: classroom?.building?.name || 'N/A'
+        },
+        classroom: {
+          name: classroom?.name || 'N/A',
+          virtualLink: classroom?.virtualLink || null
+        }
+      }
+    })
+
+    return NextResponse.json(
+      [...formattedSchedules, ...formattedMakeUps].sort((a, b) => a.startTime.localeCompare(b.startTime))
+    )
   } catch (error) {
     console.error('Error fetching today\'s schedules:', error)
     return NextResponse.json(
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { prisma } from '@/lib/db'
+import { auditActor } from '@/lib/audit'
+import { authOptions } from '@/lib/auth-config'
+import { getPunctualitySettings, updatePunctualitySettings } from '@/lib/punctuality'
+import { z } from 'zod'
+
+const punctualitySettingsSchema = z.object({
+  lateGraceMinutes: z.number().int().min(0).max(120),
+  earlyLeaveGraceMinutes: z.number().int().min(0).max(120)
+})
+
+// GET - Current lateness and early-leave grace periods
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    return NextResponse.json(await getPunctualitySettings())
+  } catch (error) {
+    console.error('Error fetching punctuality settings:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT - Update the grace periods (admin only)
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const settings = punctualitySettingsSchema.parse(body)
+
+    const previous = await getPunctualitySettings()
+    const updated = await updatePunctualitySettings(settings)
+
+    await prisma.auditLog.create({
+      data: {
+        ...auditActor(session.user),
+        action: 'PUNCTUALITY_SETTINGS_UPDATED',
+        targetType: 'SystemSettings',
+        targetId: 'attendance',
+        metadata: JSON.stringify({ previous, updated })
+      }
+    })
+
+    return NextResponse.json(updated)
+  } catch (error) {
+    console.error('Error updating punctuality settings:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
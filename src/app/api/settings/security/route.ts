@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { prisma } from '@/lib/db'
+import { auditActor } from '@/lib/audit'
+import { authOptions } from '@/lib/auth-config'
+import { getTwoFactorSettings, twoFactorSettingsSchema, updateTwoFactorSettings } from '@/lib/two-factor'
+import { z } from 'zod'
+
+// GET - Roles that must use two-factor authentication
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    return NextResponse.json(await getTwoFactorSettings())
+  } catch (error) {
+    console.error('Error fetching security settings:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT - Change which roles must use two-factor authentication (admin only)
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const settings = twoFactorSettingsSchema.parse(body)
+
+    const previous = await getTwoFactorSettings()
+    const updated = await updateTwoFactorSettings(settings)
+
+    await prisma.auditLog.create({
+      data: {
+        ...auditActor(session.user),
+        action: 'SECURITY_SETTINGS_UPDATED',
+        targetType: 'SystemSettings',
+        targetId: 'security',
+        metadata: JSON.stringify({ previous, updated })
+      }
+    })
+
+    return NextResponse.json(updated)
+  } catch (error) {
+    console.error('Error updating security settings:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
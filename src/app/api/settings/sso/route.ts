@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { prisma } from '@/lib/db'
+import { auditActor } from '@/lib/audit'
+import { authOptions } from '@/lib/auth-config'
+import { getOidcConfig, getSsoSettings, isSamlConfigured, ssoSettingsSchema, updateSsoSettings } from '@/lib/sso'
+import { z } from 'zod'
+
+// GET - Single sign-on mapping and which directory providers are configured
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    return NextResponse.json({
+      ...(await getSsoSettings()),
+      providers: {
+        oidc: getOidcConfig() !== null,
+        saml: isSamlConfigured()
+      }
+    })
+  } catch (error) {
+    console.error('Error fetching SSO settings:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT - Change attribute and role mapping and password-disabled domains (admin only)
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const settings = ssoSettingsSchema.parse(body)
+
+    const previous = await getSsoSettings()
+    const updated = await updateSsoSettings(settings)
+
+    await prisma.auditLog.create({
+      data: {
+        ...auditActor(session.user),
+        action: 'SSO_SETTINGS_UPDATED',
+        targetType: 'SystemSettings',
+        targetId: 'sso',
+        metadata: JSON.stringify({ previous, updated })
+      }
+    })
+
+    return NextResponse.json(updated)
+  } catch (error) {
+    console.error('Error updating SSO settings:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
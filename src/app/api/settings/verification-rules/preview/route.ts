@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth-config'
+import { policyScopeSchema, previewVerificationPolicy, verificationPolicyRulesSchema } from '@/lib/verification-rules'
+import { z } from 'zod'
+
+const previewSchema = z.object({
+  scope: policyScopeSchema,
+  rules: verificationPolicyRulesSchema
+})
+
+// POST - Evaluate a draft policy against recent attendance without saving it
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { scope, rules } = previewSchema.parse(body)
+
+    return NextResponse.json(await previewVerificationPolicy(scope, rules))
+  } catch (error) {
+    console.error('Error previewing verification policy:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { prisma } from '@/lib/db'
+import { auditActor } from '@/lib/audit'
+import { authOptions } from '@/lib/auth-config'
+import {
+  deleteVerificationPolicy,
+  getDefaultVerificationPolicy,
+  getVerificationPolicies,
+  policyScopeSchema,
+  saveVerificationPolicy,
+  toPolicyKey,
+  verificationPolicyRulesSchema
+} from '@/lib/verification-rules'
+import { z } from 'zod'
+
+const savePolicySchema = z.object({
+  scope: policyScopeSchema,
+  rules: verificationPolicyRulesSchema
+})
+
+// GET - Built-in defaults and the saved policy overrides (admin only)
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    return NextResponse.json({
+      defaults: getDefaultVerificationPolicy(),
+      policies: await getVerificationPolicies()
+    })
+  } catch (error) {
+    console.error('Error fetching verification policies:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT - Create or replace the policy for one scope
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { scope, rules } = savePolicySchema.parse(body)
+
+    const saved = await saveVerificationPolicy(scope, rules)
+
+    await prisma.auditLog.create({
+      data: {
+        ...auditActor(session.user),
+        action: 'VERIFICATION_POLICY_UPDATED',
+        targetType: 'SystemSettings',
+        targetId: toPolicyKey(scope),
+        metadata: JSON.stringify({ scope, rules })
+      }
+    })
+
+    return NextResponse.json(saved)
+  } catch (error) {
+    console.error('Error saving verification policy:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Remove an override so the scope falls back to the less specific policy
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const scope = policyScopeSchema.parse({
+      type: searchParams.get('type'),
+      value: searchParams.get('value')
+    })
+
+    await deleteVerificationPolicy(scope)
+
+    await prisma.auditLog.create({
+      data: {
+        ...auditActor(session.user),
+        action: 'VERIFICATION_POLICY_DELETED',
+        targetType: 'SystemSettings',
+        targetId: toPolicyKey(scope),
+        metadata: JSON.stringify({ scope })
+      }
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting verification policy:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
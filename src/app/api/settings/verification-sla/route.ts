@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { prisma } from '@/lib/db'
+import { auditActor } from '@/lib/audit'
+import { authOptions } from '@/lib/auth-config'
+import { getVerificationSlaSettings, updateVerificationSlaSettings } from '@/lib/verification-requests'
+import { z } from 'zod'
+
+const slaHours = z.number().positive().max(24 * 30)
+
+const verificationSlaSchema = z.object({
+  urgent: slaHours,
+  high: slaHours,
+  normal: slaHours,
+  low: slaHours
+})
+
+// GET - Hours each verification request priority may stay open
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    return NextResponse.json(await getVerificationSlaSettings())
+  } catch (error) {
+    console.error('Error fetching verification SLA settings:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT - Update the SLA hours (admin only); applies to requests from their next status change
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const settings = verificationSlaSchema.parse(body)
+
+    const previous = await getVerificationSlaSettings()
+    const updated = await updateVerificationSlaSettings(settings)
+
+    await prisma.auditLog.create({
+      data: {
+        ...auditActor(session.user),
+        action: 'VERIFICATION_SLA_UPDATED',
+        targetType: 'SystemSettings',
+        targetId: 'verification_requests',
+        metadata: JSON.stringify({ previous, updated })
+      }
+    })
+
+    return NextResponse.json(updated)
+  } catch (error) {
+    console.error('Error updating verification SLA settings:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
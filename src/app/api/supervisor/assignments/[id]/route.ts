@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { prisma } from '@/lib/db'
+import { auditActor } from '@/lib/audit'
+import { authOptions } from '@/lib/auth-config'
+import { supervisorAssignmentSchema } from '@/lib/supervisor-assignments'
+import { z } from 'zod'
+
+// PUT - Replace an assignment's scope or switch it on or off
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const data = supervisorAssignmentSchema.parse(body)
+
+    const existing = await prisma.supervisorAssignment.findUnique({ where: { id } })
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Assignment not found' }, { status: 404 })
+    }
+
+    const [supervisor, building] = await Promise.all([
+      prisma.user.findUnique({ where: { id: data.supervisorId } }),
+      prisma.building.findUnique({ where: { id: data.buildingId } })
+    ])
+
+    if (!supervisor || supervisor.role !== 'SUPERVISOR') {
+      return NextResponse.json({ error: 'Supervisor not found' }, { status: 404 })
+    }
+
+    if (!building) {
+      return NextResponse.json({ error: 'Building not found' }, { status: 404 })
+    }
+
+    const assignment = await prisma.supervisorAssignment.update({
+      where: { id },
+      data
+    })
+
+    await prisma.auditLog.create({
+      data: {
+        ...auditActor(session.user),
+        action: 'SUPERVISOR_ASSIGNMENT_UPDATED',
+        targetType: 'SupervisorAssignment',
+        targetId: id,
+        metadata: JSON.stringify({
+          before: {
+            supervisorId: existing.supervisorId,
+            buildingId: existing.buildingId,
+            floor: existing.floor,
+            dayOfWeek: existing.dayOfWeek,
+            startTime: existing.startTime,
+            endTime: existing.endTime,
+            isActive: existing.isActive
+          },
+          after: data
+        })
+      }
+    })
+
+    return NextResponse.json(assignment)
+  } catch (error) {
+    console.error('Error updating supervisor assignment:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Remove an assignment
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const existing = await prisma.supervisorAssignment.findUnique({ where: { id } })
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Assignment not found' }, { status: 404 })
+    }
+
+    await prisma.supervisorAssignment.delete({ where: { id } })
+
+    await prisma.auditLog.create({
+      data: {
+        ...auditActor(session.user),
+        action: 'SUPERVISOR_ASSIGNMENT_DELETED',
+        targetType: 'SupervisorAssignment',
+        targetId: id,
+        metadata: JSON.stringify({
+          supervisorId: existing.supervisorId,
+          buildingId: existing.buildingId,
+          floor: existing.floor,
+          dayOfWeek: existing.dayOfWeek,
+          startTime: existing.startTime,
+          endTime: existing.endTime
+        })
+      }
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting supervisor assignment:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
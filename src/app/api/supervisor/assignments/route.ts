@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { prisma } from '@/lib/db'
+import { auditActor } from '@/lib/audit'
+import { authOptions } from '@/lib/auth-config'
+import { supervisorAssignmentSchema } from '@/lib/supervisor-assignments'
+import { z } from 'zod'
+
+const assignmentInclude = {
+  supervisor: {
+    select: { id: true, firstName: true, lastName: true, email: true }
+  },
+  building: {
+    select: { id: true, name: true, code: true, totalFloors: true }
+  }
+}
+
+// GET - Supervisor assignments: admins see all (optionally for one supervisor), supervisors their own
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || !['ADMIN', 'SUPERVISOR'].includes(session.user.role)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const supervisorId = session.user.role === 'SUPERVISOR' ? session.user.id : searchParams.get('supervisorId')
+
+    const assignments = await prisma.supervisorAssignment.findMany({
+      where: supervisorId ? { supervisorId } : {},
+      include: assignmentInclude,
+      orderBy: [
+        { supervisor: { lastName: 'asc' } },
+        { building: { name: 'asc' } },
+        { dayOfWeek: 'asc' },
+        { startTime: 'asc' }
+      ]
+    })
+
+    return NextResponse.json(assignments)
+  } catch (error) {
+    console.error('Error fetching supervisor assignments:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Assign a supervisor to a building (or floor) for a block of time
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const data = supervisorAssignmentSchema.parse(body)
+
+    const [supervisor, building] = await Promise.all([
+      prisma.user.findUnique({ where: { id: data.supervisorId } }),
+      prisma.building.findUnique({ where: { id: data.buildingId } })
+    ])
+
+    if (!supervisor || supervisor.role !== 'SUPERVISOR') {
+      return NextResponse.json({ error: 'Supervisor not found' }, { status: 404 })
+    }
+
+    if (!building) {
+      return NextResponse.json({ error: 'Building not found' }, { status: 404 })
+    }
+
+    const assignment = await prisma.supervisorAssignment.create({
+      data: { ...data, createdBy: session.user.id },
+      include: assignmentInclude
+    })
+
+    await prisma.auditLog.create({
+      data: {
+        ...auditActor(session.user),
+        action: 'SUPERVISOR_ASSIGNMENT_CREATED',
+        targetType: 'SupervisorAssignment',
+        targetId: assignment.id,
+        metadata: JSON.stringify({
+          supervisor: `${supervisor.firstName} ${supervisor.lastName}`,
+          building: building.name,
+          floor: data.floor,
+          dayOfWeek: data.dayOfWeek,
+          startTime: data.startTime,
+          endTime: data.endTime
+        })
+      }
+    })
+
+    return NextResponse.json(assignment, { status: 201 })
+  } catch (error) {
+    console.error('Error creating supervisor assignment:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth-config'
+import { getDailyPatrolStops, summarizeCoverage } from '@/lib/supervisor-assignments'
+
+// GET - The day's in-person classes in patrol order, with which were never checked
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || !['ADMIN', 'SUPERVISOR'].includes(session.user.role)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const dateParam = searchParams.get('date')
+    const date = dateParam ? new Date(dateParam) : new Date()
+
+    if (isNaN(date.getTime())) {
+      return NextResponse.json({ error: 'Invalid date' }, { status: 400 })
+    }
+
+    // Supervisors see coverage of their own patrol; admins can narrow to one supervisor
+    const supervisorId = session.user.role === 'SUPERVISOR' ? session.user.id : searchParams.get('supervisorId')
+
+    const allStops = await getDailyPatrolStops(date)
+    const stops = supervisorId ? allStops.filter(stop => stop.supervisorIds.includes(supervisorId)) : allStops
+
+    return NextResponse.json({
+      date: date.toISOString().split('T')[0],
+      summary: summarizeCoverage(stops),
+      stops
+    })
+  } catch (error) {
+    console.error('Error fetching patrol coverage:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
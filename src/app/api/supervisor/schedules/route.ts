@@ -3,6 +3,9 @@ import { getServerSession } from 'next-auth/next'
 import { prisma } from '@/lib/db'
 import { authOptions } from '@/lib/auth-config'
 import { resolveMeetingLink } from '@/lib/meeting-link'
+import { getAcademicDayStatus, describeDayStatus } from '@/lib/academic-calendar'
+import { toSessionDate } from '@/lib/class-sessions'
+import { getActiveAssignments, isWithinAssignments, sortPatrolStops, toScopedClass } from '@/lib/supervisor-assignments'
 
 export async function GET(request: NextRequest) {
   try {
@@ -16,12 +19,6 @@ export async function GET(request: NextRequest) {
     // Use current date
     const today = new Date()
     const todayDayOfWeek = today.getUTCDay()
-    
-    const startOfDay = new Date(today)
-    startOfDay.setUTCHours(0, 0, 0, 0)
-    
-    const endOfDay = new Date(today)
-    endOfDay.setUTCHours(23, 59, 59, 999)
 
     // Fetch today's schedules
     const schedules = await prisma.courseSchedule.findMany({
@@ -41,20 +38,11 @@ export async function GET(request: NextRequest) {
             building: true
           }
         },
-        attendanceRecords: {
-          where: {
-            timestamp: {
-              gte: startOfDay,
-              lt: endOfDay
-            }
-          }
-        },
-        supervisorLogs: {
-           where: {
-            checkInTime: {
-              gte: startOfDay,
-              lt: endOfDay
-            }
+        classSessions: {
+          where: { date: toSessionDate(today) },
+          include: {
+            attendanceRecords: true,
+            supervisorLogs: true
           }
         }
       },
@@ -63,14 +51,26 @@ export async function GET(request: NextRequest) {
       }
     })
 
-    const formattedSchedules = schedules.map(schedule => {
-        // Determine status
-        let status = 'pending';
-        if (schedule.supervisorLogs.length > 0) {
-            status = 'verified'; // or use the specific status from the log
-        }
-        
-        const log = schedule.supervisorLogs[0]; // Assuming one log per session usually
+    const dayStatus = await getAcademicDayStatus(today)
+    const calendarNote = describeDayStatus(dayStatus)
+
+    // Supervisors patrol only their assigned buildings and hours, in walking order
+    const assignments = session.user.role === 'SUPERVISOR' ? await getActiveAssignments(session.user.id) : null
+    const patrol = sortPatrolStops(
+      schedules
+        .filter(schedule => !assignments || isWithinAssignments(assignments, toScopedClass(schedule)))
+        .map(schedule => ({
+          schedule,
+          buildingName: schedule.classroom?.building?.name ?? '',
+          floor: schedule.classroom?.floor ?? null,
+          startTime: schedule.startTime,
+          roomCode: schedule.classroom?.roomCode ?? ''
+        }))
+    )
+
+    const formattedSchedules = patrol.map(({ schedule }) => {
+        const classSession = schedule.classSessions[0];
+        const log = classSession?.supervisorLogs[0]; // One log per session
 
         const meetingLink = resolveMeetingLink(
             schedule.meetingLink,
@@ -102,13 +102,18 @@ export async function GET(request: NextRequest) {
             },
             classroom: {
                 id: schedule.classroom?.id,
+                floor: schedule.classroom?.floor ?? null,
                 name: schedule.classroom?.name || 'N/A',
                 roomCode: schedule.classroom?.roomCode || 'N/A',
                 virtualLink: schedule.classroom?.virtualLink || null
             },
             meetingLink,
-            attendanceTaken: schedule.attendanceRecords.length > 0,
-            verified: schedule.supervisorLogs.length > 0,
+            classSessionId: classSession?.id ?? null,
+            sessionStatus: classSession?.status ?? 'scheduled',
+            attendanceTaken: (classSession?.attendanceRecords.length ?? 0) > 0,
+            isTeachingDay: dayStatus.teaching,
+            calendarNote,
+            verified: !!log,
             verificationStatus: log ? log.status : 'pending',
             verificationComment: log ? log.comments : null
         };
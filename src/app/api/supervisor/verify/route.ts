@@ -2,11 +2,16 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth/next'
 import { prisma } from '@/lib/db'
 import { authOptions } from '@/lib/auth-config'
+import { getOrCreateClassSession, sessionStatusFromSupervisorLog, updateClassSessionStatus } from '@/lib/class-sessions'
+import { getVerificationPolicy, applyVerificationRules } from '@/lib/verification-rules'
+import { reconcileAfterSignal } from '@/lib/session-reconciliation'
+import { publishScheduleEvent } from '@/lib/realtime-events'
+import { checkSupervisorScope, toScopedClass } from '@/lib/supervisor-assignments'
 
 export async function POST(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions)
-    
+
     if (!session?.user?.id || (session.user.role !== 'SUPERVISOR' && session.user.role !== 'ADMIN')) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
@@ -18,94 +23,73 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Missing required fields' }, { status: 400 })
     }
 
-    // Check if a log already exists for today (optional, but good to prevent duplicates)
-    // Use current date
-    const today = new Date()
-    const startOfDay = new Date(today.getFullYear(), today.getMonth(), today.getDate())
-    const endOfDay = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1)
-    
-    // Create a timestamp
-    const now = new Date();
-    const currentCheckInTime = new Date(now);
-
-    const existingLog = await prisma.supervisorLog.findFirst({
-      where: {
-        courseScheduleId,
-        checkInTime: {
-          gte: startOfDay,
-          lt: endOfDay
-        }
-      }
+    const schedule = await prisma.courseSchedule.findUnique({
+      where: { id: courseScheduleId },
+      include: { classGroup: true, classroom: true }
     })
 
-    if (existingLog) {
-       // Update existing log? Or block? Let's update it.
-       const updatedLog = await prisma.supervisorLog.update({
-         where: { id: existingLog.id },
-         data: {
-           status,
-           comments,
-           isOnline,
-           supervisorId: session.user.id,
-           checkInTime: currentCheckInTime // Update time to latest check
-         }
-       })
-
-       // Also update AttendanceRecord if it exists
-       try {
-         const attendanceRecord = await prisma.attendanceRecord.findFirst({
-           where: {
-             courseScheduleId,
-             timestamp: {
-               gte: startOfDay,
-               lt: endOfDay
-             }
-           }
-         })
-
-         if (attendanceRecord) {
-           const isVerified = status === 'ongoing' || status === 'online'
-           await prisma.attendanceRecord.update({
-             where: { id: attendanceRecord.id },
-             data: {
-               supervisorVerified: isVerified,
-               supervisorComment: comments
-             }
-           })
-         }
-       } catch (err) {
-         console.error('Error updating attendance record from supervisor log:', err)
-       }
-
-       return NextResponse.json(updatedLog)
+    if (!schedule) {
+      return NextResponse.json({ error: 'Schedule not found' }, { status: 404 })
     }
 
-    const log = await prisma.supervisorLog.create({
-      data: {
-        supervisorId: session.user.id,
-        courseScheduleId,
-        status,
-        comments,
-        isOnline,
-        checkInTime: currentCheckInTime
-      }
+    // Supervisors log only classes in their assigned buildings and hours; admins can log any class
+    const scopeError = await checkSupervisorScope(session.user, toScopedClass(schedule))
+    if (scopeError) {
+      return NextResponse.json({ error: scopeError }, { status: 403 })
+    }
+
+    // Supervisor logs attach to today's occurrence of the schedule
+    const currentCheckInTime = new Date()
+    const classSession = await getOrCreateClassSession(schedule, currentCheckInTime)
+
+    // One log per session: a later check replaces the earlier observation
+    const existingLog = await prisma.supervisorLog.findFirst({
+      where: { classSessionId: classSession.id }
     })
 
+    const log = existingLog
+      ? await prisma.supervisorLog.update({
+          where: { id: existingLog.id },
+          data: {
+            status,
+            comments,
+            isOnline,
+            supervisorId: session.user.id,
+            checkInTime: currentCheckInTime // Update time to latest check
+          }
+        })
+      : await prisma.supervisorLog.create({
+          data: {
+            supervisorId: session.user.id,
+            courseScheduleId,
+            classSessionId: classSession.id,
+            status,
+            comments,
+            isOnline,
+            checkInTime: currentCheckInTime
+          }
+        })
+
+    const sessionStatus = sessionStatusFromSupervisorLog(status)
+    if (sessionStatus) {
+      await updateClassSessionStatus(classSession, sessionStatus, comments)
+    }
+
     // Also update AttendanceRecord if it exists
     try {
       const attendanceRecord = await prisma.attendanceRecord.findFirst({
-        where: {
-          courseScheduleId,
-          timestamp: {
-            gte: startOfDay,
-            lt: endOfDay
-          }
-        }
+        where: { classSessionId: classSession.id }
       })
 
-      if (attendanceRecord) {
-        // If status implies presence, verify it. If absence, mark as disputed (false).
-        const isVerified = status === 'ongoing' || status === 'online'
+      // Records on an approved claim keep the verification they were paid on
+      if (attendanceRecord && !attendanceRecord.lockedAt) {
+        // Statuses the class's policy treats as presence verify it; anything else disputes it
+        const { policy } = await getVerificationPolicy({
+          programmeId: schedule.classGroup.programmeId,
+          deliveryMode: schedule.classGroup.deliveryMode,
+          sessionType: schedule.sessionType
+        })
+        const isVerified = policy.supervisorPresentStatuses.includes(status)
         await prisma.attendanceRecord.update({
           where: { id: attendanceRecord.id },
           data: {
@@ -113,12 +97,22 @@ export async function POST(request: NextRequest) {
             supervisorComment: comments
           }
         })
+        await applyVerificationRules(attendanceRecord.id)
       }
     } catch (err) {
       console.error('Error updating attendance record from supervisor log:', err)
-      // Don't fail the request if this part fails, as the log was created
+      // Don't fail the request if this part fails, as the log was saved
     }
 
+    await reconcileAfterSignal(classSession.id)
+
+    await publishScheduleEvent('attendance.verified', courseScheduleId, {
+      classSessionId: classSession.id,
+      supervisorLogId: log.id,
+      status,
+      verifiedByRole: session.user.role
+    })
+
     return NextResponse.json(log)
   } catch (error) {
     console.error('Error verifying class:', error)
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth-config'
+import { runTimetableAudit, summarizeIssues, toAuditRows } from '@/lib/timetable-audit'
+import * as XLSX from 'xlsx'
+
+// GET - Clashes, undersized rooms, overloads and missing links across the timetable
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || !['ADMIN', 'COORDINATOR'].includes(session.user.role)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const format = searchParams.get('format') || 'json'
+
+    if (!['json', 'csv'].includes(format)) {
+      return NextResponse.json({ error: 'Format must be json or csv' }, { status: 400 })
+    }
+
+    const { scheduleCount, issues } = await runTimetableAudit(
+      session.user.role === 'COORDINATOR' ? session.user.id : undefined
+    )
+
+    if (format === 'csv') {
+      const sheet = XLSX.utils.json_to_sheet(toAuditRows(issues, request.nextUrl.origin))
+
+      return new NextResponse(XLSX.utils.sheet_to_csv(sheet), {
+        headers: {
+          'Content-Type': 'text/csv',
+          'Content-Disposition': `attachment; filename="timetable-audit-${new Date().toISOString().split('T')[0]}.csv"`
+        }
+      })
+    }
+
+    return NextResponse.json({
+      generatedAt: new Date().toISOString(),
+      scheduleCount,
+      summary: summarizeIssues(issues),
+      issues
+    })
+  } catch (error) {
+    console.error('Error auditing timetable:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { prisma } from '@/lib/db'
+import { authOptions } from '@/lib/auth-config'
+import { checkDraftEntrySlot, draftEntryUpdateSchema } from '@/lib/timetable-generator'
+import { z } from 'zod'
+
+type EntryParams = { params: Promise<{ id: string; entryId: string }> }
+
+async function findEditableEntry(draftId: string, entryId: string, user: { id: string; role: string }) {
+  const entry = await prisma.timetableDraftEntry.findUnique({
+    where: { id: entryId },
+    include: {
+      draft: true,
+      classGroup: { select: { studentCount: true } }
+    }
+  })
+
+  if (!entry || entry.draftId !== draftId || (user.role === 'COORDINATOR' && entry.draft.createdBy !== user.id)) {
+    return { error: 'Timetable entry not found', status: 404 }
+  }
+
+  if (entry.draft.status !== 'draft') {
+    return { error: `This timetable has already been ${entry.draft.status}`, status: 400 }
+  }
+
+  return { entry }
+}
+
+// PUT - Move a class to another slot, room or lecturer before publishing
+export async function PUT(request: NextRequest, { params }: EntryParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || !['ADMIN', 'COORDINATOR'].includes(session.user.role)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, entryId } = await params
+    const body = await request.json()
+    const data = draftEntryUpdateSchema.parse(body)
+
+    const found = await findEditableEntry(id, entryId, session.user)
+    if ('error' in found) {
+      return NextResponse.json({ error: found.error }, { status: found.status })
+    }
+    const { entry } = found
+
+    const lecturer = await prisma.lecturer.findUnique({ where: { id: data.lecturerId } })
+    if (!lecturer) {
+      return NextResponse.json({ error: 'Lecturer not found' }, { status: 404 })
+    }
+
+    if (data.classroomId) {
+      const classroom = await prisma.classroom.findUnique({ where: { id: data.classroomId } })
+
+      if (!classroom) {
+        return NextResponse.json({ error: 'Classroom not found' }, { status: 404 })
+      }
+
+      const studentCount = entry.classGroup.studentCount
+      if (studentCount && classroom.capacity !== null && classroom.capacity < studentCount) {
+        return NextResponse.json({ error: `${classroom.roomCode} only seats ${classroom.capacity} of the group's ${studentCount} students` }, { status: 400 })
+      }
+    } else if (entry.sessionType !== 'VIRTUAL') {
+      return NextResponse.json({ error: 'In-person classes need a classroom' }, { status: 400 })
+    }
+
+    const clash = await checkDraftEntrySlot(entryId, id, {
+      ...data,
+      classGroupId: entry.classGroupId
+    })
+
+    if (clash) {
+      return NextResponse.json({ error: clash }, { status: 409 })
+    }
+
+    const updated = await prisma.timetableDraftEntry.update({
+      where: { id: entryId },
+      data: { ...data, isAdjusted: true }
+    })
+
+    return NextResponse.json(updated)
+  } catch (error) {
+    console.error('Error updating timetable entry:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Leave a class out of the timetable when it is published
+export async function DELETE(request: NextRequest, { params }: EntryParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || !['ADMIN', 'COORDINATOR'].includes(session.user.role)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, entryId } = await params
+
+    const found = await findEditableEntry(id, entryId, session.user)
+    if ('error' in found) {
+      return NextResponse.json({ error: found.error }, { status: found.status })
+    }
+
+    await prisma.timetableDraftEntry.delete({ where: { id: entryId } })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error removing timetable entry:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
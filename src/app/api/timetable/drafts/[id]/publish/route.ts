@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { prisma } from '@/lib/db'
+import { auditActor } from '@/lib/audit'
+import { authOptions } from '@/lib/auth-config'
+import { publishTimetableDraft } from '@/lib/timetable-generator'
+
+// POST - Publish every class in a draft as a course schedule
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || !['ADMIN', 'COORDINATOR'].includes(session.user.role)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const draft = await prisma.timetableDraft.findUnique({ where: { id } })
+
+    if (!draft || (session.user.role === 'COORDINATOR' && draft.createdBy !== session.user.id)) {
+      return NextResponse.json({ error: 'Timetable draft not found' }, { status: 404 })
+    }
+
+    const result = await publishTimetableDraft(id, session.user.id)
+
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    await prisma.auditLog.create({
+      data: {
+        ...auditActor(session.user),
+        action: 'TIMETABLE_PUBLISHED',
+        targetType: 'TimetableDraft',
+        targetId: id,
+        metadata: JSON.stringify({ name: draft.name, schedules: result.scheduleCount })
+      }
+    })
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error publishing timetable draft:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
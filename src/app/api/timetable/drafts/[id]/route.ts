@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { prisma } from '@/lib/db'
+import { auditActor } from '@/lib/audit'
+import { authOptions } from '@/lib/auth-config'
+import { parseUnplaced } from '@/lib/timetable-generator'
+
+// GET - A draft with its classes and what could not be placed
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || !['ADMIN', 'COORDINATOR'].includes(session.user.role)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const draft = await prisma.timetableDraft.findUnique({
+      where: { id },
+      include: {
+        entries: {
+          include: {
+            course: { select: { id: true, courseCode: true, title: true } },
+            classGroup: { select: { id: true, name: true, studentCount: true, groupType: true, deliveryMode: true } },
+            lecturer: { select: { id: true, user: { select: { firstName: true, lastName: true } } } },
+            classroom: { select: { id: true, roomCode: true, name: true, capacity: true } }
+          },
+          orderBy: [{ dayOfWeek: 'asc' }, { startTime: 'asc' }]
+        }
+      }
+    })
+
+    if (!draft || (session.user.role === 'COORDINATOR' && draft.createdBy !== session.user.id)) {
+      return NextResponse.json({ error: 'Timetable draft not found' }, { status: 404 })
+    }
+
+    const unplaced = parseUnplaced(draft.unplaced)
+    const [courses, classGroups, lecturers] = await Promise.all([
+      prisma.course.findMany({
+        where: { id: { in: unplaced.map(item => item.courseId) } },
+        select: { id: true, courseCode: true, title: true }
+      }),
+      prisma.classGroup.findMany({
+        where: { id: { in: unplaced.map(item => item.classGroupId) } },
+        select: { id: true, name: true }
+      }),
+      prisma.lecturer.findMany({
+        where: { id: { in: unplaced.map(item => item.lecturerId) } },
+        select: { id: true, user: { select: { firstName: true, lastName: true } } }
+      })
+    ])
+
+    return NextResponse.json({
+      ...draft,
+      unplaced: unplaced.map(item => ({
+        ...item,
+        course: courses.find(course => course.id === item.courseId) ?? null,
+        classGroup: classGroups.find(group => group.id === item.classGroupId) ?? null,
+        lecturer: lecturers.find(lecturer => lecturer.id === item.lecturerId) ?? null
+      }))
+    })
+  } catch (error) {
+    console.error('Error fetching timetable draft:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Discard a draft that has not been published
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || !['ADMIN', 'COORDINATOR'].includes(session.user.role)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const draft = await prisma.timetableDraft.findUnique({ where: { id } })
+
+    if (!draft || (session.user.role === 'COORDINATOR' && draft.createdBy !== session.user.id)) {
+      return NextResponse.json({ error: 'Timetable draft not found' }, { status: 404 })
+    }
+
+    if (draft.status !== 'draft') {
+      return NextResponse.json({ error: `This timetable has already been ${draft.status}` }, { status: 400 })
+    }
+
+    await prisma.timetableDraft.update({
+      where: { id },
+      data: { status: 'discarded' }
+    })
+
+    await prisma.auditLog.create({
+      data: {
+        ...auditActor(session.user),
+        action: 'TIMETABLE_DRAFT_DISCARDED',
+        targetType: 'TimetableDraft',
+        targetId: id,
+        metadata: JSON.stringify({ name: draft.name })
+      }
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error discarding timetable draft:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { prisma } from '@/lib/db'
+import { auditActor } from '@/lib/audit'
+import { authOptions } from '@/lib/auth-config'
+import { generateTimetableDraft, generateTimetableSchema, parseUnplaced } from '@/lib/timetable-generator'
+import { z } from 'zod'
+
+// GET - Timetable drafts: admins see all, coordinators the ones they generated
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || !['ADMIN', 'COORDINATOR'].includes(session.user.role)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const drafts = await prisma.timetableDraft.findMany({
+      where: session.user.role === 'COORDINATOR' ? { createdBy: session.user.id } : {},
+      include: { _count: { select: { entries: true } } },
+      orderBy: { createdAt: 'desc' }
+    })
+
+    return NextResponse.json(drafts.map(({ _count, unplaced, ...draft }) => ({
+      ...draft,
+      entryCount: _count.entries,
+      unplacedCount: parseUnplaced(unplaced).length
+    })))
+  } catch (error) {
+    console.error('Error fetching timetable drafts:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Generate a draft timetable for the given courses, groups and lecturers
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || !['ADMIN', 'COORDINATOR'].includes(session.user.role)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const data = generateTimetableSchema.parse(body)
+
+    const courseIds = [...new Set(data.requirements.map(requirement => requirement.courseId))]
+    const classGroupIds = [...new Set(data.requirements.map(requirement => requirement.classGroupId))]
+    const lecturerIds = [...new Set(data.requirements.map(requirement => requirement.lecturerId))]
+
+    const [courses, classGroups, lecturerCount] = await Promise.all([
+      prisma.course.findMany({
+        where: { id: { in: courseIds } },
+        select: { id: true, programmeId: true, programme: { select: { coordinator: true } } }
+      }),
+      prisma.classGroup.findMany({
+        where: { id: { in: classGroupIds } },
+        select: { id: true, programmeId: true }
+      }),
+      prisma.lecturer.count({ where: { id: { in: lecturerIds } } })
+    ])
+
+    if (courses.length !== courseIds.length || classGroups.length !== classGroupIds.length || lecturerCount !== lecturerIds.length) {
+      return NextResponse.json({ error: 'Course, class group or lecturer not found' }, { status: 404 })
+    }
+
+    const courseProgrammes = new Map(courses.map(course => [course.id, course.programmeId]))
+    const groupProgrammes = new Map(classGroups.map(group => [group.id, group.programmeId]))
+    const mismatch = data.requirements.find(requirement =>
+      courseProgrammes.get(requirement.courseId) !== groupProgrammes.get(requirement.classGroupId)
+    )
+
+    if (mismatch) {
+      return NextResponse.json({ error: 'Each course must belong to its class group\'s programme' }, { status: 400 })
+    }
+
+    if (session.user.role === 'COORDINATOR' && courses.some(course => course.programme.coordinator !== session.user.id)) {
+      return NextResponse.json({ error: 'Forbidden - You can only generate timetables for your assigned programmes' }, { status: 403 })
+    }
+
+    const draft = await generateTimetableDraft(data, session.user.id)
+
+    await prisma.auditLog.create({
+      data: {
+        ...auditActor(session.user),
+        action: 'TIMETABLE_DRAFT_GENERATED',
+        targetType: 'TimetableDraft',
+        targetId: draft.id,
+        metadata: JSON.stringify({
+          name: draft.name,
+          requirements: data.requirements.length,
+          placed: draft.entries.length,
+          unplaced: parseUnplaced(draft.unplaced).length
+        })
+      }
+    })
+
+    return NextResponse.json(draft, { status: 201 })
+  } catch (error) {
+    console.error('Error generating timetable draft:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { prisma } from '@/lib/db'
+import { authOptions } from '@/lib/auth-config'
+import { suggestRequirements } from '@/lib/timetable-generator'
+
+// GET - Unscheduled courses for class groups' current semester, to start a draft from
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || !['ADMIN', 'COORDINATOR'].includes(session.user.role)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    let classGroupIds = (searchParams.get('classGroupIds') || '').split(',').filter(Boolean)
+
+    if (classGroupIds.length === 0) {
+      return NextResponse.json({ error: 'Select at least one class group' }, { status: 400 })
+    }
+
+    if (session.user.role === 'COORDINATOR') {
+      const managed = await prisma.classGroup.findMany({
+        where: { id: { in: classGroupIds }, programme: { coordinator: session.user.id } },
+        select: { id: true }
+      })
+      classGroupIds = managed.map(group => group.id)
+    }
+
+    const requirements = await suggestRequirements(classGroupIds)
+
+    return NextResponse.json(requirements)
+  } catch (error) {
+    console.error('Error suggesting timetable requirements:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -42,6 +42,11 @@ export async function GET(
             }
           }
         },
+        twoFactorAuth: {
+          select: {
+            enabledAt: true
+          }
+        },
         _count: {
           select: {
             importJobs: true,
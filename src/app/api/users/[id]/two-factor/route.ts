@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth-config'
+import { resetTwoFactor } from '@/lib/two-factor'
+
+// DELETE - Reset a user's two-factor authentication, e.g. after they lose their phone (admin only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    if (id === session.user.id) {
+      return NextResponse.json(
+        { error: 'Manage your own two-factor authentication from your profile' },
+        { status: 400 }
+      )
+    }
+
+    const result = await resetTwoFactor(
+      session.user.id,
+      id,
+      request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip')
+    )
+
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json({ message: 'Two-factor authentication has been reset' })
+  } catch (error) {
+    console.error('Error resetting two-factor authentication:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -95,6 +95,7 @@ export async function POST(request: NextRequest) {
         role,
         passwordHash,
         isActive: true,
+        mustChangePassword: true, // the admin chose this password, so the user replaces it at first sign-in
         ...(role === 'LECTURER' && lecturerData && {
           lecturer: {
             create: {
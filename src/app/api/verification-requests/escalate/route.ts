@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth-config'
+import { escalateOverdueVerificationRequests } from '@/lib/verification-requests'
+
+// POST - Escalate requests past their SLA; called by a scheduler with CRON_SECRET or by an admin.
+// The background service does this every minute on a long-running server.
+export async function POST(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET
+    const isScheduler = !!cronSecret && request.headers.get('authorization') === `Bearer ${cronSecret}`
+
+    if (!isScheduler) {
+      const session = await getServerSession(authOptions)
+
+      if (!session?.user?.id || session.user.role !== 'ADMIN') {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+    }
+
+    const escalated = await escalateOverdueVerificationRequests()
+
+    return NextResponse.json({ escalated })
+  } catch (error) {
+    console.error('Error escalating overdue verification requests:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// GET - Vercel Cron, where the background service does not run, calls scheduled routes with GET
+export async function GET(request: NextRequest) {
+  return POST(request)
+}
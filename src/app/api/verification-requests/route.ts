@@ -1,11 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth/next'
 import { prisma } from '@/lib/db'
+import { auditActor } from '@/lib/audit'
 import { authOptions } from '@/lib/auth-config'
+import { enhancedNotificationService } from '@/lib/enhanced-notifications'
+import { notifyEscalation } from '@/lib/notifications'
+import { checkAttendanceRecordScope } from '@/lib/supervisor-assignments'
+import { publishScheduleEvent } from '@/lib/realtime-events'
+import {
+  calculateSlaDueAt,
+  getAllowedTransitions,
+  getVerificationActors,
+  getVerificationSlaSettings,
+  isSlaBreached,
+  OPEN_VERIFICATION_STATUSES,
+  parseVerificationEvidence,
+  resolveTransitionActor,
+  transitionVerificationRequest,
+  VERIFICATION_REQUEST_PRIORITIES
+} from '@/lib/verification-requests'
 import { z } from 'zod'
 
 const createVerificationRequestSchema = z.object({
   attendanceRecordId: z.string(),
+  priority: z.enum(VERIFICATION_REQUEST_PRIORITIES).optional(),
   evidenceUrls: z.array(z.string()).optional(),
   verificationNotes: z.string().optional(),
   studentAttendanceData: z.object({
@@ -19,31 +37,56 @@ const createVerificationRequestSchema = z.object({
 
 const updateVerificationRequestSchema = z.object({
   verificationRequestId: z.string(),
-  status: z.enum(['approved', 'rejected', 'disputed']),
-  reviewNotes: z.string().optional(),
-  escalate: z.boolean().optional()
+  status: z.enum(['approved', 'rejected', 'disputed', 'escalated', 'withdrawn']),
+  reviewNotes: z.string().optional()
 })
 
+const verificationRequestInclude = {
+  courseSchedule: {
+    include: {
+      course: {
+        include: { programme: true }
+      },
+      classGroup: true,
+      lecturer: {
+        include: {
+          user: true
+        }
+      }
+    }
+  },
+  attendanceRecord: true,
+  requester: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      email: true
+    }
+  },
+  transitions: {
+    orderBy: { createdAt: 'asc' as const }
+  }
+}
+
 // POST - Create verification request
 export async function POST(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions)
-    
+
     if (!session?.user?.id || session.user.role !== 'SUPERVISOR') {
       return NextResponse.json({ error: 'Unauthorized - Only supervisors can create verification requests' }, { status: 401 })
     }
 
     const body = await request.json()
-    const { attendanceRecordId, evidenceUrls, verificationNotes, studentAttendanceData } = createVerificationRequestSchema.parse(body)
+    const { attendanceRecordId, priority, evidenceUrls, verificationNotes, studentAttendanceData } = createVerificationRequestSchema.parse(body)
+
+    // Supervisors can only raise requests for classes in their assigned buildings and hours
+    const scopeError = await checkAttendanceRecordScope(session.user, attendanceRecordId)
+    if (scopeError) {
+      return NextResponse.json({ error: scopeError }, { status: 403 })
+    }
 
-    // Get supervisor's info
-    const user = await prisma.user.findUnique({
-      where: { id: session.user.id }
-    })
-    
-    // In future, we might restrict supervisors to specific departments/faculties
-    // For now, any supervisor can verify any record
-    
     // Get the attendance record
     const attendanceRecord = await prisma.attendanceRecord.findFirst({
       where: {
@@ -79,45 +122,73 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Verification request already exists for this attendance record' }, { status: 400 })
     }
 
-    // Create verification request
+    const now = new Date()
+    const requestPriority = priority || 'normal'
+    const sla = await getVerificationSlaSettings()
+
+    // Create verification request with the first entry of its history
     const verificationRequest = await prisma.verificationRequest.create({
       data: {
         attendanceRecordId,
+        classSessionId: attendanceRecord.classSessionId,
+        lecturerId: attendanceRecord.lecturerId,
+        courseScheduleId: attendanceRecord.courseScheduleId,
+        requestType: 'attendance_verification',
         requesterId: session.user.id,
         status: 'pending',
-        evidence: evidenceUrls ? JSON.stringify(evidenceUrls) : null,
+        priority: requestPriority,
+        evidence: evidenceUrls || studentAttendanceData
+          ? JSON.stringify({ urls: evidenceUrls || [], studentAttendanceData: studentAttendanceData || null })
+          : null,
         description: verificationNotes || 'Verification Request',
-        createdAt: new Date()
+        slaDueAt: calculateSlaDueAt(now, requestPriority, sla),
+        createdAt: now,
+        transitions: {
+          create: {
+            fromStatus: null,
+            toStatus: 'pending',
+            actorId: session.user.id,
+            actorRole: 'REQUESTER',
+            comment: verificationNotes || null
+          }
+        }
       }
     })
 
-    // Create notification for lecturer
-    await prisma.notification.create({
-      data: {
-        userId: attendanceRecord.courseSchedule.lecturer.userId,
-        type: 'verification_request',
-        title: 'Attendance Verification Request',
-        message: `Supervisor has submitted a verification request for your ${attendanceRecord.courseSchedule.course.title} session`,
-        data: JSON.stringify({
-          verificationRequestId: verificationRequest.id,
-          attendanceRecordId,
-          course: attendanceRecord.courseSchedule.course.title,
-          classGroup: attendanceRecord.courseSchedule.classGroup.name,
-          timestamp: attendanceRecord.timestamp
-        }),
-        channel: 'web'
+    await enhancedNotificationService.sendNotification({
+      userId: attendanceRecord.courseSchedule.lecturer.userId,
+      title: 'Attendance Verification Request',
+      message: `A supervisor has submitted a verification request for your ${attendanceRecord.courseSchedule.course.title} session`,
+      category: 'verification',
+      priority: requestPriority,
+      actionUrl: `/dashboard/verification-requests?request=${verificationRequest.id}`,
+      metadata: {
+        verificationRequestId: verificationRequest.id,
+        attendanceRecordId,
+        course: attendanceRecord.courseSchedule.course.title,
+        classGroup: attendanceRecord.courseSchedule.classGroup.name,
+        timestamp: attendanceRecord.timestamp
       }
     })
 
+    await publishScheduleEvent('verification_request.updated', attendanceRecord.courseScheduleId, {
+      verificationRequestId: verificationRequest.id,
+      attendanceRecordId,
+      status: verificationRequest.status,
+      previousStatus: null
+    }, [session.user.id])
+
     // Create audit log
     await prisma.auditLog.create({
       data: {
-        userId: session.user.id,
+        ...auditActor(session.user),
         action: 'VERIFICATION_REQUEST_CREATED',
         targetType: 'VerificationRequest',
         targetId: verificationRequest.id,
         metadata: JSON.stringify({
           attendanceRecordId,
+          priority: requestPriority,
+          slaDueAt: verificationRequest.slaDueAt,
           lecturerName: `${attendanceRecord.courseSchedule.lecturer.user.firstName} ${attendanceRecord.courseSchedule.lecturer.user.lastName}`,
           course: attendanceRecord.courseSchedule.course.title,
           classGroup: attendanceRecord.courseSchedule.classGroup.name,
@@ -133,11 +204,21 @@ export async function POST(request: NextRequest) {
       verificationRequest: {
         id: verificationRequest.id,
         status: verificationRequest.status,
+        priority: verificationRequest.priority,
+        slaDueAt: verificationRequest.slaDueAt,
         submittedAt: verificationRequest.createdAt
       }
     })
   } catch (error) {
     console.error('Error creating verification request:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
@@ -145,167 +226,97 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// GET - Fetch verification requests
+// GET - Fetch verification requests; ?breached=true lists open requests past their SLA
 export async function GET(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions)
-    
-    if (!session?.user?.id) {
+
+    if (!session?.user?.id || !['ADMIN', 'COORDINATOR', 'LECTURER', 'SUPERVISOR'].includes(session.user.role)) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
     const { searchParams } = new URL(request.url)
     const status = searchParams.get('status')
+    const breached = searchParams.get('breached') === 'true'
     const role = session.user.role
+    const now = new Date()
 
-    let verificationRequests
+    const whereClause: any = {}
+    if (status) whereClause.status = status
+    if (breached) {
+      whereClause.status = { in: OPEN_VERIFICATION_STATUSES }
+      whereClause.slaDueAt = { lt: now }
+    }
 
     if (role === 'SUPERVISOR') {
-      // Get verification requests created by this supervisor
-      verificationRequests = await prisma.verificationRequest.findMany({
-        where: {
-          requesterId: session.user.id,
-          ...(status && { status: status as any })
-        },
-        include: {
-          attendanceRecord: {
-            include: {
-              courseSchedule: {
-                include: {
-                  course: true,
-                  classGroup: true,
-                  lecturer: {
-                    include: {
-                      user: true
-                    }
-                  }
-                }
-              }
-            }
-          },
-          requester: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-              email: true
-            }
-          }
-        },
-        orderBy: {
-          createdAt: 'desc'
-        }
-      })
+      whereClause.requesterId = session.user.id
     } else if (role === 'LECTURER') {
-      // Get verification requests for this lecturer's attendance records
-      const lecturer = await prisma.lecturer.findUnique({
-        where: { userId: session.user.id }
-      })
+      whereClause.courseSchedule = { lecturer: { userId: session.user.id } }
+    } else if (role === 'COORDINATOR') {
+      whereClause.courseSchedule = { course: { programme: { coordinator: session.user.id } } }
+    }
 
-      if (!lecturer) {
-        return NextResponse.json({ error: 'Lecturer profile not found' }, { status: 404 })
-      }
+    const verificationRequests = await prisma.verificationRequest.findMany({
+      where: whereClause,
+      include: verificationRequestInclude,
+      orderBy: breached ? { slaDueAt: 'asc' } : { createdAt: 'desc' }
+    })
 
-      verificationRequests = await prisma.verificationRequest.findMany({
-        where: {
-          attendanceRecord: {
-            lecturerId: lecturer.id
+    const formattedRequests = verificationRequests.map(request => {
+      const schedule = request.courseSchedule
+      const evidence = parseVerificationEvidence(request.evidence)
+      const actors = getVerificationActors({
+        requesterId: request.requesterId,
+        lecturerUserId: schedule.lecturer.userId,
+        programmeCoordinatorId: schedule.course.programme.coordinator
+      }, session.user)
+
+      return {
+        id: request.id,
+        status: request.status,
+        priority: request.priority,
+        createdAt: request.createdAt,
+        reviewedAt: request.reviewedAt,
+        escalatedAt: request.escalatedAt,
+        slaDueAt: request.slaDueAt,
+        slaBreached: isSlaBreached(request, now),
+        slaBreachedAt: request.slaBreachedAt,
+        verificationNotes: request.description,
+        reviewNotes: request.resolutionNotes || request.response,
+        evidenceUrls: evidence.urls,
+        studentAttendanceData: evidence.studentAttendanceData,
+        allowedTransitions: getAllowedTransitions(request.status, actors),
+        transitions: request.transitions.map(transition => ({
+          fromStatus: transition.fromStatus,
+          toStatus: transition.toStatus,
+          actorRole: transition.actorRole,
+          comment: transition.comment,
+          createdAt: transition.createdAt
+        })),
+        attendanceRecord: {
+          id: request.attendanceRecord?.id,
+          timestamp: request.attendanceRecord?.timestamp ?? request.createdAt,
+          method: request.attendanceRecord?.method,
+          locationVerified: request.attendanceRecord?.locationVerified ?? false,
+          course: {
+            title: schedule.course.title,
+            courseCode: schedule.course.courseCode
           },
-          ...(status && { status: status as any })
-        },
-        include: {
-          attendanceRecord: {
-            include: {
-              courseSchedule: {
-                include: {
-                  course: true,
-                  classGroup: true
-                }
-              }
-            }
+          classGroup: {
+            name: schedule.classGroup.name
           },
-          requester: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-              email: true
-            }
+          lecturer: {
+            name: `${schedule.lecturer.user.firstName} ${schedule.lecturer.user.lastName}`,
+            employeeId: schedule.lecturer.employeeId
           }
         },
-        orderBy: {
-          submittedAt: 'desc'
+        requester: {
+          firstName: request.requester.firstName,
+          lastName: request.requester.lastName,
+          email: request.requester.email
         }
-      })
-    } else {
-      // Admin or coordinator can see all verification requests
-      verificationRequests = await prisma.verificationRequest.findMany({
-        where: {
-          ...(status && { status: status as any })
-        },
-        include: {
-          attendanceRecord: {
-            include: {
-              courseSchedule: {
-                include: {
-                  course: true,
-                  classGroup: true,
-                  lecturer: {
-                    include: {
-                      user: true
-                    }
-                  }
-                }
-              }
-            }
-          },
-          requester: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-              email: true
-            }
-          }
-        },
-        orderBy: {
-          submittedAt: 'desc'
-        }
-      })
-    }
-
-    const formattedRequests = verificationRequests.map(request => ({
-      id: request.id,
-      status: request.status,
-      submittedAt: request.submittedAt,
-      reviewedAt: request.reviewedAt,
-      escalatedAt: request.escalatedAt,
-      verificationNotes: request.verificationNotes,
-      reviewNotes: request.reviewNotes,
-      evidenceUrls: request.evidenceUrls ? JSON.parse(request.evidenceUrls) : [],
-      studentAttendanceData: request.studentAttendanceData ? JSON.parse(request.studentAttendanceData) : null,
-      attendanceRecord: {
-        id: request.attendanceRecord.id,
-        timestamp: request.attendanceRecord.timestamp,
-        method: request.attendanceRecord.method,
-        locationVerified: request.attendanceRecord.locationVerified,
-        course: {
-          title: request.attendanceRecord.courseSchedule.course.title,
-          courseCode: request.attendanceRecord.courseSchedule.course.courseCode
-        },
-        classGroup: {
-          name: request.attendanceRecord.courseSchedule.classGroup.name
-        },
-        lecturer: {
-          name: `${request.attendanceRecord.courseSchedule.lecturer.user.firstName} ${request.attendanceRecord.courseSchedule.lecturer.user.lastName}`,
-          employeeId: request.attendanceRecord.courseSchedule.lecturer.employeeId
-        }
-      },
-      requester: {
-        name: `${request.requester.firstName} ${request.requester.lastName}`,
-        email: request.requester.email
       }
-    }))
+    })
 
     return NextResponse.json(formattedRequests)
   } catch (error) {
@@ -317,141 +328,117 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// PUT - Update verification request status
+// PUT - Move a verification request to a new status
 export async function PUT(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions)
-    
+
     if (!session?.user?.id) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
     const body = await request.json()
-    const { verificationRequestId, status, reviewNotes, escalate } = updateVerificationRequestSchema.parse(body)
+    const { verificationRequestId, status, reviewNotes } = updateVerificationRequestSchema.parse(body)
 
     // Get the verification request
     const verificationRequest = await prisma.verificationRequest.findUnique({
       where: { id: verificationRequestId },
-      include: {
-        attendanceRecord: {
-          include: {
-            courseSchedule: {
-              include: {
-                course: true,
-                classGroup: true,
-                lecturer: {
-                  include: {
-                    user: true
-                  }
-                }
-              }
-            }
-          }
-        },
-        requester: true
-      }
+      include: verificationRequestInclude
     })
 
     if (!verificationRequest) {
       return NextResponse.json({ error: 'Verification request not found' }, { status: 404 })
     }
 
-    // Check authorization
-    const userRole = session.user.role
-    const isLecturer = userRole === 'LECTURER' && verificationRequest.attendanceRecord.courseSchedule.lecturer.userId === session.user.id
-    const isRequester = verificationRequest.requesterId === session.user.id
-    const isAdminOrCoordinator = ['ADMIN', 'ACADEMIC_COORDINATOR'].includes(userRole)
+    const schedule = verificationRequest.courseSchedule
+    const actors = getVerificationActors({
+      requesterId: verificationRequest.requesterId,
+      lecturerUserId: schedule.lecturer.userId,
+      programmeCoordinatorId: schedule.course.programme.coordinator
+    }, session.user)
 
-    if (!isLecturer && !isRequester && !isAdminOrCoordinator) {
+    if (actors.length === 0) {
       return NextResponse.json({ error: 'Unauthorized to update this verification request' }, { status: 403 })
     }
 
-    // Update verification request
-    const updatedRequest = await prisma.verificationRequest.update({
-      where: { id: verificationRequestId },
-      data: {
-        status,
-        reviewNotes,
-        reviewedAt: new Date(),
-        ...(escalate && { escalatedAt: new Date() })
-      }
-    })
+    const actorRole = resolveTransitionActor(verificationRequest.status, status, actors)
 
-    // If approved, update the attendance record
-    if (status === 'approved' && !escalate) {
-      if (verificationRequest.attendanceRecordId) {
-        await prisma.attendanceRecord.update({
-          where: { id: verificationRequest.attendanceRecordId },
-          data: {
-            supervisorVerified: true, // Auto-verify if request approved
-            supervisorComment: `Verified via request: ${reviewNotes || 'Approved by lecturer'}`
-          }
-        })
-      }
-    } else if (status === 'rejected') {
-      if (verificationRequest.attendanceRecordId) {
-        await prisma.attendanceRecord.update({
-          where: { id: verificationRequest.attendanceRecordId },
-          data: {
-            supervisorVerified: false,
-            supervisorComment: `Rejected via request: ${reviewNotes || 'Rejected by lecturer'}`
-          }
-        })
-      }
+    if (!actorRole) {
+      const allowed = getAllowedTransitions(verificationRequest.status, actors)
+      return NextResponse.json({
+        error: `You cannot move a ${verificationRequest.status} request to ${status}`,
+        allowedTransitions: allowed
+      }, { status: 400 })
     }
 
-    // Create notifications
-    const notificationTargets = []
-    
-    if (isLecturer) {
-      // Notify requester (Supervisor)
-      notificationTargets.push({
-        userId: verificationRequest.requesterId,
-        title: `Verification Request ${status.charAt(0).toUpperCase() + status.slice(1)}`,
-        message: `Your verification request for ${verificationRequest.attendanceRecord.courseSchedule.course.title} has been ${status}`
-      })
-    } else if (isRequester || isAdminOrCoordinator) {
-      // Notify lecturer
-      notificationTargets.push({
-        userId: verificationRequest.attendanceRecord.courseSchedule.lecturer.userId,
-        title: `Verification Request ${status.charAt(0).toUpperCase() + status.slice(1)}`,
-        message: `Verification request for your ${verificationRequest.attendanceRecord.courseSchedule.course.title} session has been ${status}`
-      })
+    if (['rejected', 'disputed'].includes(status) && !reviewNotes?.trim()) {
+      return NextResponse.json({ error: `A comment is required when a request is ${status}` }, { status: 400 })
     }
 
-    // Create notifications
-    for (const target of notificationTargets) {
-      await prisma.notification.create({
-        data: {
-          userId: target.userId,
-          type: 'verification_update',
-          title: target.title,
-          message: target.message,
-          data: JSON.stringify({
-            verificationRequestId,
-            status,
-            course: verificationRequest.attendanceRecord.courseSchedule.course.title,
-            classGroup: verificationRequest.attendanceRecord.courseSchedule.classGroup.name
-          }),
-          channel: 'web'
-        }
+    const coordinatorId = schedule.course.programme.coordinator
+    const result = await transitionVerificationRequest(
+      verificationRequestId,
+      status,
+      { id: session.user.id, role: actorRole },
+      reviewNotes,
+      { escalatedTo: coordinatorId }
+    )
+
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    const updatedRequest = result.request
+    const course = `${schedule.course.title} (${schedule.classGroup.name})`
+    const title = `Verification Request ${status.charAt(0).toUpperCase() + status.slice(1)}`
+
+    // Tell the other parties; the lecturer and the requesting supervisor follow every move
+    const recipients = [schedule.lecturer.userId, verificationRequest.requesterId]
+      .filter((userId, index, ids) => userId !== session.user.id && ids.indexOf(userId) === index)
+
+    for (const userId of recipients) {
+      await enhancedNotificationService.sendNotification({
+        userId,
+        title,
+        message: `The verification request for ${course} is now ${status}${reviewNotes ? `: ${reviewNotes}` : ''}`,
+        category: 'verification',
+        priority: 'normal',
+        actionUrl: `/dashboard/verification-requests?request=${verificationRequestId}`,
+        metadata: { verificationRequestId, status }
       })
     }
 
+    if (status === 'escalated') {
+      const adminIds = coordinatorId
+        ? [coordinatorId]
+        : (await prisma.user.findMany({ where: { role: 'ADMIN', isActive: true }, select: { id: true } })).map(admin => admin.id)
+
+      for (const adminId of adminIds.filter(id => id !== session.user.id)) {
+        await notifyEscalation({
+          adminId,
+          verificationRequestId,
+          courseName: schedule.course.title,
+          lecturerName: `${schedule.lecturer.user.firstName} ${schedule.lecturer.user.lastName}`,
+          classRepName: `${verificationRequest.requester.firstName} ${verificationRequest.requester.lastName}`,
+          reason: reviewNotes
+        })
+      }
+    }
+
     // Create audit log
     await prisma.auditLog.create({
       data: {
-        userId: session.user.id,
-        action: 'VERIFICATION_REQUEST_UPDATED',
+        ...auditActor(session.user),
+        action: `VERIFICATION_REQUEST_${status.toUpperCase()}`,
         targetType: 'VerificationRequest',
         targetId: verificationRequestId,
         metadata: JSON.stringify({
-          status,
+          fromStatus: result.previousStatus,
+          toStatus: status,
+          actorRole,
           reviewNotes,
-          escalated: !!escalate,
-          reviewerRole: userRole,
-          course: verificationRequest.attendanceRecord.courseSchedule.course.title,
-          classGroup: verificationRequest.attendanceRecord.courseSchedule.classGroup.name
+          course: schedule.course.title,
+          classGroup: schedule.classGroup.name
         })
       }
     })
@@ -463,14 +450,23 @@ export async function PUT(request: NextRequest) {
         id: updatedRequest.id,
         status: updatedRequest.status,
         reviewedAt: updatedRequest.reviewedAt,
-        escalatedAt: updatedRequest.escalatedAt
+        escalatedAt: updatedRequest.escalatedAt,
+        slaDueAt: updatedRequest.slaDueAt
       }
     })
   } catch (error) {
     console.error('Error updating verification request:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,128 @@
+'use client'
+
+import { useState } from 'react'
+import { signOut, useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+
+const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, 'Current password is required'),
+  newPassword: z.string().min(8, 'Password must be at least 8 characters long'),
+  confirmPassword: z.string()
+}).refine(data => data.newPassword === data.confirmPassword, {
+  message: 'Passwords do not match',
+  path: ['confirmPassword']
+})
+
+type ChangePasswordForm = z.infer<typeof changePasswordSchema>
+
+const inputClass = 'appearance-none relative block w-full px-3 py-3 sm:py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 text-base sm:text-sm'
+
+// Where accounts with mustChangePassword are sent after signing in
+export default function ChangePasswordPage() {
+  const { update } = useSession()
+  const router = useRouter()
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors }
+  } = useForm<ChangePasswordForm>({
+    resolver: zodResolver(changePasswordSchema)
+  })
+
+  const onSubmit = async (data: ChangePasswordForm) => {
+    setIsLoading(true)
+    setError('')
+
+    try {
+      const response = await fetch('/api/profile/change-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ currentPassword: data.currentPassword, newPassword: data.newPassword })
+      })
+      const result = await response.json()
+
+      if (response.ok) {
+        // Refresh the session so it no longer requires a password change
+        await update()
+        router.push('/dashboard')
+      } else {
+        setError(result.error || 'Failed to change password')
+      }
+    } catch (error) {
+      setError('An error occurred. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-6 sm:py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-6 sm:space-y-8">
+        <div>
+          <h2 className="mt-4 sm:mt-6 text-center text-2xl sm:text-3xl font-extrabold text-gray-900">
+            Change your password
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            Your account was set up with a password chosen for you. Choose your own to continue.
+          </p>
+        </div>
+
+        <form className="mt-6 sm:mt-8 space-y-4 sm:space-y-6" onSubmit={handleSubmit(onSubmit)}>
+          <div>
+            <label htmlFor="currentPassword" className="block text-sm font-medium text-gray-700 mb-1">
+              Current password
+            </label>
+            <input {...register('currentPassword')} id="currentPassword" type="password" autoComplete="current-password" className={inputClass} />
+            {errors.currentPassword && (
+              <p className="mt-1 text-sm text-red-600">{errors.currentPassword.message}</p>
+            )}
+          </div>
+          <div>
+            <label htmlFor="newPassword" className="block text-sm font-medium text-gray-700 mb-1">
+              New password
+            </label>
+            <input {...register('newPassword')} id="newPassword" type="password" autoComplete="new-password" className={inputClass} />
+            {errors.newPassword && (
+              <p className="mt-1 text-sm text-red-600">{errors.newPassword.message}</p>
+            )}
+          </div>
+          <div>
+            <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700 mb-1">
+              Confirm new password
+            </label>
+            <input {...register('confirmPassword')} id="confirmPassword" type="password" autoComplete="new-password" className={inputClass} />
+            {errors.confirmPassword && (
+              <p className="mt-1 text-sm text-red-600">{errors.confirmPassword.message}</p>
+            )}
+          </div>
+
+          {error && (
+            <div className="text-red-600 text-sm text-center">{error}</div>
+          )}
+
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="group relative w-full flex justify-center py-3 sm:py-2 px-4 border border-transparent text-base sm:text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 transition-colors"
+          >
+            {isLoading ? 'Saving...' : 'Change password'}
+          </button>
+
+          <button
+            type="button"
+            onClick={() => signOut({ callbackUrl: '/auth/signin' })}
+            className="w-full text-center text-sm text-gray-600 hover:text-gray-900"
+          >
+            Sign out
+          </button>
+        </form>
+      </div>
+    </div>
+  )
+}
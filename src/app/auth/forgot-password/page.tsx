@@ -0,0 +1,124 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email('Invalid email address'),
+  channel: z.enum(['email', 'sms'])
+})
+
+type ForgotPasswordForm = z.infer<typeof forgotPasswordSchema>
+
+export default function ForgotPasswordPage() {
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [sent, setSent] = useState<string | null>(null)
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors }
+  } = useForm<ForgotPasswordForm>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: { channel: 'email' }
+  })
+
+  const onSubmit = async (data: ForgotPasswordForm) => {
+    setIsLoading(true)
+    setError('')
+
+    try {
+      const response = await fetch('/api/auth/forgot-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data)
+      })
+      const result = await response.json()
+
+      if (response.ok) {
+        setSent(result.message)
+      } else {
+        setError(result.error || 'Failed to send the reset link')
+      }
+    } catch (error) {
+      setError('An error occurred. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-6 sm:py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-6 sm:space-y-8">
+        <div>
+          <h2 className="mt-4 sm:mt-6 text-center text-2xl sm:text-3xl font-extrabold text-gray-900">
+            Forgot your password?
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            We will send you a link to choose a new one
+          </p>
+        </div>
+
+        {sent ? (
+          <div className="rounded-md bg-green-50 border border-green-200 p-4 text-sm text-green-800">
+            {sent}. The link expires in an hour.
+          </div>
+        ) : (
+          <form className="mt-6 sm:mt-8 space-y-4 sm:space-y-6" onSubmit={handleSubmit(onSubmit)}>
+            <div>
+              <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">
+                Email address
+              </label>
+              <input
+                {...register('email')}
+                type="email"
+                autoComplete="email"
+                className="appearance-none relative block w-full px-3 py-3 sm:py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 text-base sm:text-sm"
+                placeholder="Enter your email address"
+              />
+              {errors.email && (
+                <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>
+              )}
+            </div>
+
+            <fieldset>
+              <legend className="block text-sm font-medium text-gray-700 mb-1">Send the link by</legend>
+              <div className="flex space-x-6 text-sm text-gray-700">
+                <label className="flex items-center">
+                  <input {...register('channel')} type="radio" value="email" className="mr-2 h-4 w-4 text-indigo-600 border-gray-300" />
+                  Email
+                </label>
+                <label className="flex items-center">
+                  <input {...register('channel')} type="radio" value="sms" className="mr-2 h-4 w-4 text-indigo-600 border-gray-300" />
+                  SMS to my phone number on file
+                </label>
+              </div>
+            </fieldset>
+
+            {error && (
+              <div className="text-red-600 text-sm text-center">{error}</div>
+            )}
+
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="group relative w-full flex justify-center py-3 sm:py-2 px-4 border border-transparent text-base sm:text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 transition-colors"
+            >
+              {isLoading ? 'Sending...' : 'Send reset link'}
+            </button>
+          </form>
+        )}
+
+        <p className="text-center text-sm">
+          <Link href="/auth/signin" className="font-medium text-indigo-600 hover:text-indigo-500">
+            Back to sign in
+          </Link>
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,120 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+
+const resetPasswordSchema = z.object({
+  password: z.string().min(8, 'Password must be at least 8 characters long'),
+  confirmPassword: z.string()
+}).refine(data => data.password === data.confirmPassword, {
+  message: 'Passwords do not match',
+  path: ['confirmPassword']
+})
+
+type ResetPasswordForm = z.infer<typeof resetPasswordSchema>
+
+const inputClass = 'appearance-none relative block w-full px-3 py-3 sm:py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 text-base sm:text-sm'
+
+export default function ResetPasswordPage() {
+  const searchParams = useSearchParams()
+  const token = searchParams.get('token')
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [done, setDone] = useState(false)
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors }
+  } = useForm<ResetPasswordForm>({
+    resolver: zodResolver(resetPasswordSchema)
+  })
+
+  const onSubmit = async (data: ResetPasswordForm) => {
+    setIsLoading(true)
+    setError('')
+
+    try {
+      const response = await fetch('/api/auth/reset-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, password: data.password })
+      })
+      const result = await response.json()
+
+      if (response.ok) {
+        setDone(true)
+      } else {
+        setError(result.details?.[0]?.message || result.error || 'Failed to reset password')
+      }
+    } catch (error) {
+      setError('An error occurred. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-6 sm:py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-6 sm:space-y-8">
+        <div>
+          <h2 className="mt-4 sm:mt-6 text-center text-2xl sm:text-3xl font-extrabold text-gray-900">
+            Choose a new password
+          </h2>
+        </div>
+
+        {!token ? (
+          <div className="rounded-md bg-red-50 border border-red-200 p-4 text-sm text-red-700">
+            This link is incomplete. Open the link from your email or SMS again, or{' '}
+            <Link href="/auth/forgot-password" className="font-medium underline">request a new one</Link>.
+          </div>
+        ) : done ? (
+          <div className="rounded-md bg-green-50 border border-green-200 p-4 text-sm text-green-800">
+            Your password has been changed.{' '}
+            <Link href="/auth/signin" className="font-medium underline">Sign in</Link> with your new password.
+          </div>
+        ) : (
+          <form className="mt-6 sm:mt-8 space-y-4 sm:space-y-6" onSubmit={handleSubmit(onSubmit)}>
+            <div>
+              <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-1">
+                New password
+              </label>
+              <input {...register('password')} id="password" type="password" autoComplete="new-password" className={inputClass} />
+              {errors.password && (
+                <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>
+              )}
+            </div>
+            <div>
+              <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700 mb-1">
+                Confirm new password
+              </label>
+              <input {...register('confirmPassword')} id="confirmPassword" type="password" autoComplete="new-password" className={inputClass} />
+              {errors.confirmPassword && (
+                <p className="mt-1 text-sm text-red-600">{errors.confirmPassword.message}</p>
+              )}
+            </div>
+
+            {error && (
+              <div className="text-red-600 text-sm text-center">
+                {error}.{' '}
+                <Link href="/auth/forgot-password" className="font-medium underline">Request a new link</Link>
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="group relative w-full flex justify-center py-3 sm:py-2 px-4 border border-transparent text-base sm:text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 transition-colors"
+            >
+              {isLoading ? 'Saving...' : 'Set password'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,8 +1,9 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { signIn, getSession } from 'next-auth/react'
-import { useRouter } from 'next/navigation'
+import { useRouter, useSearchParams } from 'next/navigation'
+import Link from 'next/link'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
@@ -16,20 +17,83 @@ const signInSchema = z.object({
 
 type SignInForm = z.infer<typeof signInSchema>
 
+interface DirectoryProvider {
+  id: string
+  name: string
+}
+
+// Errors handed back in the query string after a directory sign-in fails
+const directoryErrors: Record<string, string> = {
+  SSOAccountRefused: 'Your university account could not be signed in here. Contact an administrator.',
+  SSOFailed: 'Single sign-on failed. Please try again.',
+  OAuthCallback: 'Single sign-on failed. Please try again.',
+  Callback: 'Your university account could not be signed in here. Contact an administrator.'
+}
+
 export default function SignInPage() {
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState('')
   const [showPassword, setShowPassword] = useState(false)
+  // Second step for accounts with two-factor authentication
+  const [needsCode, setNeedsCode] = useState(false)
+  const [code, setCode] = useState('')
+  const [smsMessage, setSmsMessage] = useState('')
+  const [directoryProviders, setDirectoryProviders] = useState<DirectoryProvider[]>([])
   const router = useRouter()
+  const searchParams = useSearchParams()
+
+  useEffect(() => {
+    const queryError = searchParams.get('error')
+    if (queryError && directoryErrors[queryError]) {
+      setError(directoryErrors[queryError])
+    }
+
+    fetch('/api/auth/sso')
+      .then(response => response.json())
+      .then(data => setDirectoryProviders(data.providers ?? []))
+      .catch(() => setDirectoryProviders([]))
+  }, [searchParams])
+
+  const signInWithDirectory = (providerId: string) => {
+    if (providerId === 'saml') {
+      // SAML starts at our own redirect to the identity provider
+      window.location.href = '/api/auth/saml/login'
+    } else {
+      signIn(providerId, { callbackUrl: '/dashboard' })
+    }
+  }
 
   const {
     register,
     handleSubmit,
+    getValues,
     formState: { errors }
   } = useForm<SignInForm>({
     resolver: zodResolver(signInSchema)
   })
 
+  const sendSmsCode = async () => {
+    setError('')
+    setSmsMessage('')
+
+    try {
+      const response = await fetch('/api/auth/two-factor/sms', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: getValues('email'), password: getValues('password') })
+      })
+      const result = await response.json()
+
+      if (response.ok) {
+        setSmsMessage(result.message)
+      } else {
+        setError(result.error || 'Failed to send the code')
+      }
+    } catch (error) {
+      setError('An error occurred. Please try again.')
+    }
+  }
+
   const onSubmit = async (data: SignInForm) => {
     setIsLoading(true)
     setError('')
@@ -38,14 +102,29 @@ export default function SignInPage() {
       const result = await signIn('credentials', {
         email: data.email,
         password: data.password,
+        code: needsCode ? code : undefined,
         redirect: false
       })
 
-      if (result?.error) {
+      if (result?.error === 'TWO_FACTOR_REQUIRED') {
+        setNeedsCode(true)
+      } else if (result?.error === 'TWO_FACTOR_INVALID') {
+        setError('Invalid verification code')
+      } else if (result?.error === 'ACCOUNT_LOCKED') {
+        setError('This account is locked after too many failed sign-ins. Try again later or ask an administrator to unlock it.')
+      } else if (result?.error === 'TOO_MANY_ATTEMPTS') {
+        setError('Too many failed sign-ins. Wait a little and try again.')
+      } else if (result?.error === 'SSO_REQUIRED') {
+        setError('Accounts on this email domain sign in with single sign-on. Use the university sign-in button below.')
+      } else if (result?.error) {
         setError('Invalid email or password')
       } else {
         const session = await getSession()
-        if (session?.user?.role) {
+        if (session?.user?.mustChangePassword) {
+          router.push('/auth/change-password')
+        } else if (session?.user?.twoFactorSetupRequired) {
+          router.push('/auth/two-factor-setup')
+        } else if (session?.user?.role) {
           // Redirect based on role
           switch (session.user.role) {
             case 'ADMIN':
@@ -128,6 +207,38 @@ export default function SignInPage() {
             </div>
           </div>
 
+          {needsCode && (
+            <div>
+              <label htmlFor="code" className="block text-sm font-medium text-gray-700 mb-1">
+                Verification code
+              </label>
+              <input
+                id="code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                autoComplete="one-time-code"
+                autoFocus
+                className="appearance-none relative block w-full px-3 py-3 sm:py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 text-base sm:text-sm"
+                placeholder="Code from your authenticator app"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                No phone? Enter one of your recovery codes instead, or{' '}
+                <button type="button" onClick={sendSmsCode} className="font-medium text-indigo-600 hover:text-indigo-500">
+                  text me a code
+                </button>.
+              </p>
+              {smsMessage && (
+                <p className="mt-1 text-sm text-green-700">{smsMessage}</p>
+              )}
+            </div>
+          )}
+
+          <div className="text-sm text-right">
+            <Link href="/auth/forgot-password" className="font-medium text-indigo-600 hover:text-indigo-500">
+              Forgot your password?
+            </Link>
+          </div>
+
           {error && (
             <div className="text-red-600 text-sm text-center">{error}</div>
           )}
@@ -138,10 +249,33 @@ export default function SignInPage() {
               disabled={isLoading}
               className="group relative w-full flex justify-center py-3 sm:py-2 px-4 border border-transparent text-base sm:text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 transition-colors"
             >
-              {isLoading ? 'Signing in...' : 'Sign in'}
+              {isLoading ? 'Signing in...' : needsCode ? 'Verify' : 'Sign in'}
             </button>
           </div>
 
+          {directoryProviders.length > 0 && (
+            <div className="space-y-3">
+              <div className="relative">
+                <div className="absolute inset-0 flex items-center">
+                  <div className="w-full border-t border-gray-300" />
+                </div>
+                <div className="relative flex justify-center text-sm">
+                  <span className="px-2 bg-gray-50 text-gray-500">or</span>
+                </div>
+              </div>
+              {directoryProviders.map(provider => (
+                <button
+                  key={provider.id}
+                  type="button"
+                  onClick={() => signInWithDirectory(provider.id)}
+                  className="w-full flex justify-center py-3 sm:py-2 px-4 border border-gray-300 text-base sm:text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors"
+                >
+                  Sign in with {provider.name}
+                </button>
+              ))}
+            </div>
+          )}
+
           <div className="text-xs sm:text-sm text-center text-gray-600 space-y-1">
             <p className="font-medium">Demo Accounts:</p>
             <div className="space-y-1">
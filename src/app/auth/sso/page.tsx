@@ -0,0 +1,114 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { signIn, getSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+
+// Directory sign-ins (OIDC and SAML) come back here to finish signing in
+export default function SsoCallbackPage() {
+  const [error, setError] = useState('')
+  const [needsCode, setNeedsCode] = useState(false)
+  const [code, setCode] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const started = useRef(false)
+  const router = useRouter()
+
+  const finishSignIn = async (verificationCode?: string) => {
+    setIsLoading(true)
+    setError('')
+
+    try {
+      const result = await signIn('sso', { code: verificationCode, redirect: false })
+
+      if (result?.error === 'TWO_FACTOR_REQUIRED') {
+        setNeedsCode(true)
+      } else if (result?.error === 'TWO_FACTOR_INVALID') {
+        setError('Invalid verification code')
+      } else if (result?.error === 'ACCOUNT_LOCKED') {
+        setError('This account is locked after too many failed sign-ins. Try again later or ask an administrator to unlock it.')
+      } else if (result?.error === 'TOO_MANY_ATTEMPTS') {
+        setError('Too many failed sign-ins. Wait a little and try again.')
+      } else if (result?.error) {
+        setError('Your sign-in has expired or could not be completed. Please sign in again.')
+        setNeedsCode(false)
+      } else {
+        const session = await getSession()
+        router.push(session?.user?.twoFactorSetupRequired ? '/auth/two-factor-setup' : '/dashboard')
+      }
+    } catch (error) {
+      setError('An error occurred. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    // Strict mode runs effects twice in development
+    if (started.current) return
+    started.current = true
+    finishSignIn()
+  }, [])
+
+  if (!needsCode && !error) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-gray-50">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-500"></div>
+        <p className="mt-4 text-sm text-gray-600">Signing you in...</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-6 sm:py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-6">
+        <h2 className="text-center text-2xl sm:text-3xl font-extrabold text-gray-900">
+          UPSA Attendance System
+        </h2>
+
+        {needsCode && (
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault()
+              finishSignIn(code)
+            }}
+          >
+            <div>
+              <label htmlFor="code" className="block text-sm font-medium text-gray-700 mb-1">
+                Verification code
+              </label>
+              <input
+                id="code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                autoComplete="one-time-code"
+                autoFocus
+                className="appearance-none relative block w-full px-3 py-3 sm:py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 text-base sm:text-sm"
+                placeholder="Code from your authenticator app"
+              />
+              <p className="mt-1 text-xs text-gray-500">No phone? Enter one of your recovery codes instead.</p>
+            </div>
+            <button
+              type="submit"
+              disabled={isLoading || !code}
+              className="w-full flex justify-center py-3 sm:py-2 px-4 border border-transparent text-base sm:text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 transition-colors"
+            >
+              {isLoading ? 'Signing in...' : 'Verify'}
+            </button>
+          </form>
+        )}
+
+        {error && (
+          <div className="text-red-600 text-sm text-center">{error}</div>
+        )}
+
+        <div className="text-sm text-center">
+          <Link href="/auth/signin" className="font-medium text-indigo-600 hover:text-indigo-500">
+            Back to sign in
+          </Link>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,42 @@
+'use client'
+
+import { signOut, useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import TwoFactorSettings from '@/components/profile/TwoFactorSettings'
+
+// Where accounts whose role requires two-factor authentication are sent until they set it up
+export default function TwoFactorSetupPage() {
+  const { update } = useSession()
+  const router = useRouter()
+
+  const handleEnabled = async () => {
+    // Refresh the session so it no longer requires set-up
+    await update()
+    router.push('/dashboard')
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-6 sm:py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-lg w-full space-y-6 sm:space-y-8">
+        <div>
+          <h2 className="mt-4 sm:mt-6 text-center text-2xl sm:text-3xl font-extrabold text-gray-900">
+            Set up two-factor authentication
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            Your role requires a second step at sign-in. Set it up to continue.
+          </p>
+        </div>
+
+        <TwoFactorSettings onEnabled={handleEnabled} />
+
+        <button
+          type="button"
+          onClick={() => signOut({ callbackUrl: '/auth/signin' })}
+          className="w-full text-center text-sm text-gray-600 hover:text-gray-900"
+        >
+          Sign out
+        </button>
+      </div>
+    </div>
+  )
+}
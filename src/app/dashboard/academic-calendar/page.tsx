@@ -0,0 +1,313 @@
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { useEffect, useState } from 'react'
+import { CalendarDaysIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline'
+
+interface Semester {
+  id: string
+  name: string
+  startDate: string
+  endDate: string
+  teachingWeeks: number | null
+}
+
+interface CalendarEvent {
+  id: string
+  semesterId: string | null
+  type: string
+  name: string
+  startDate: string
+  endDate: string
+  description: string | null
+}
+
+interface AcademicYear {
+  id: string
+  name: string
+  startDate: string
+  endDate: string
+  isCurrent: boolean
+  semesters: Semester[]
+  events: CalendarEvent[]
+}
+
+const EVENT_TYPE_LABELS: Record<string, string> = {
+  holiday: 'Public Holiday',
+  exam_period: 'Examination Period',
+  reading_week: 'Reading Week'
+}
+
+const EVENT_TYPE_COLORS: Record<string, string> = {
+  holiday: 'bg-red-100 text-red-800',
+  exam_period: 'bg-yellow-100 text-yellow-800',
+  reading_week: 'bg-blue-100 text-blue-800'
+}
+
+const inputClass = 'block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500'
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })
+}
+
+export default function AcademicCalendarPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [academicYears, setAcademicYears] = useState<AcademicYear[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const [yearForm, setYearForm] = useState({ name: '', startDate: '', endDate: '', isCurrent: true })
+  const [semesterForm, setSemesterForm] = useState({ academicYearId: '', name: '', startDate: '', endDate: '', teachingWeeks: '' })
+  const [eventForm, setEventForm] = useState({ academicYearId: '', semesterId: '', type: 'holiday', name: '', startDate: '', endDate: '' })
+
+  const canManage = !!session && ['ADMIN', 'COORDINATOR'].includes(session.user.role)
+
+  useEffect(() => {
+    if (status === 'loading') return
+
+    if (!session) {
+      router.push('/auth/signin')
+      return
+    }
+
+    fetchCalendar()
+  }, [session, status, router])
+
+  const fetchCalendar = async () => {
+    try {
+      const response = await fetch('/api/academic-calendar')
+      if (response.ok) {
+        const data = await response.json()
+        setAcademicYears(data)
+      } else {
+        const errorData = await response.json()
+        setError(errorData.error || 'Failed to fetch academic calendar')
+      }
+    } catch (error) {
+      console.error('Error fetching academic calendar:', error)
+      setError('An error occurred while fetching the academic calendar')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const submit = async (url: string, payload: Record<string, unknown>, reset: () => void) => {
+    setError(null)
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload)
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to save')
+      }
+
+      reset()
+      await fetchCalendar()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  const handleDeleteEvent = async (id: string) => {
+    if (!confirm('Remove this calendar event?')) return
+
+    const response = await fetch(`/api/academic-calendar/events/${id}`, { method: 'DELETE' })
+    if (response.ok) {
+      await fetchCalendar()
+    } else {
+      const errorData = await response.json()
+      setError(errorData.error || 'Failed to delete event')
+    }
+  }
+
+  if (status === 'loading' || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-indigo-500"></div>
+      </div>
+    )
+  }
+
+  if (!session) {
+    return null
+  }
+
+  const selectedYear = academicYears.find(year => year.id === eventForm.academicYearId)
+
+  return (
+    <div className="p-6">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-900">Academic Calendar</h1>
+        <p className="mt-2 text-sm text-gray-700">
+          Semesters, teaching weeks, public holidays, examination periods and reading weeks.
+          Classes are not expected, reminded or counted as missed on non-teaching days.
+        </p>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4 mb-6">
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+
+      {canManage && (
+        <div className="grid grid-cols-1 gap-6 lg:grid-cols-3 mb-8">
+          <form
+            className="bg-white shadow rounded-lg p-4 space-y-3"
+            onSubmit={(e) => {
+              e.preventDefault()
+              submit('/api/academic-calendar', yearForm, () => setYearForm({ name: '', startDate: '', endDate: '', isCurrent: true }))
+            }}
+          >
+            <h2 className="text-sm font-medium text-gray-900">New Academic Year</h2>
+            <input className={inputClass} placeholder="2025/2026" value={yearForm.name} onChange={e => setYearForm({ ...yearForm, name: e.target.value })} required />
+            <input type="date" className={inputClass} value={yearForm.startDate} onChange={e => setYearForm({ ...yearForm, startDate: e.target.value })} required />
+            <input type="date" className={inputClass} value={yearForm.endDate} onChange={e => setYearForm({ ...yearForm, endDate: e.target.value })} required />
+            <label className="flex items-center text-sm text-gray-700">
+              <input type="checkbox" className="mr-2" checked={yearForm.isCurrent} onChange={e => setYearForm({ ...yearForm, isCurrent: e.target.checked })} />
+              Current academic year
+            </label>
+            <button type="submit" className="inline-flex items-center rounded-md bg-indigo-600 px-3 py-2 text-sm font-medium text-white hover:bg-indigo-700">
+              <PlusIcon className="-ml-1 mr-1 h-4 w-4" /> Add Year
+            </button>
+          </form>
+
+          <form
+            className="bg-white shadow rounded-lg p-4 space-y-3"
+            onSubmit={(e) => {
+              e.preventDefault()
+              submit('/api/academic-calendar/semesters', {
+                ...semesterForm,
+                teachingWeeks: semesterForm.teachingWeeks ? parseInt(semesterForm.teachingWeeks) : undefined
+              }, () => setSemesterForm({ academicYearId: semesterForm.academicYearId, name: '', startDate: '', endDate: '', teachingWeeks: '' }))
+            }}
+          >
+            <h2 className="text-sm font-medium text-gray-900">New Semester</h2>
+            <select className={inputClass} value={semesterForm.academicYearId} onChange={e => setSemesterForm({ ...semesterForm, academicYearId: e.target.value })} required>
+              <option value="">Select academic year</option>
+              {academicYears.map(year => <option key={year.id} value={year.id}>{year.name}</option>)}
+            </select>
+            <input className={inputClass} placeholder="First Semester" value={semesterForm.name} onChange={e => setSemesterForm({ ...semesterForm, name: e.target.value })} required />
+            <input type="date" className={inputClass} value={semesterForm.startDate} onChange={e => setSemesterForm({ ...semesterForm, startDate: e.target.value })} required />
+            <input type="date" className={inputClass} value={semesterForm.endDate} onChange={e => setSemesterForm({ ...semesterForm, endDate: e.target.value })} required />
+            <input type="number" min="1" className={inputClass} placeholder="Teaching weeks" value={semesterForm.teachingWeeks} onChange={e => setSemesterForm({ ...semesterForm, teachingWeeks: e.target.value })} />
+            <button type="submit" className="inline-flex items-center rounded-md bg-indigo-600 px-3 py-2 text-sm font-medium text-white hover:bg-indigo-700">
+              <PlusIcon className="-ml-1 mr-1 h-4 w-4" /> Add Semester
+            </button>
+          </form>
+
+          <form
+            className="bg-white shadow rounded-lg p-4 space-y-3"
+            onSubmit={(e) => {
+              e.preventDefault()
+              submit('/api/academic-calendar/events', {
+                ...eventForm,
+                semesterId: eventForm.semesterId || undefined
+              }, () => setEventForm({ ...eventForm, name: '', startDate: '', endDate: '' }))
+            }}
+          >
+            <h2 className="text-sm font-medium text-gray-900">New Holiday / Exam / Reading Week</h2>
+            <select className={inputClass} value={eventForm.academicYearId} onChange={e => setEventForm({ ...eventForm, academicYearId: e.target.value, semesterId: '' })} required>
+              <option value="">Select academic year</option>
+              {academicYears.map(year => <option key={year.id} value={year.id}>{year.name}</option>)}
+            </select>
+            <select className={inputClass} value={eventForm.semesterId} onChange={e => setEventForm({ ...eventForm, semesterId: e.target.value })}>
+              <option value="">Whole academic year</option>
+              {selectedYear?.semesters.map(semester => <option key={semester.id} value={semester.id}>{semester.name}</option>)}
+            </select>
+            <select className={inputClass} value={eventForm.type} onChange={e => setEventForm({ ...eventForm, type: e.target.value })}>
+              {Object.entries(EVENT_TYPE_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+            </select>
+            <input className={inputClass} placeholder="Independence Day" value={eventForm.name} onChange={e => setEventForm({ ...eventForm, name: e.target.value })} required />
+            <input type="date" className={inputClass} value={eventForm.startDate} onChange={e => setEventForm({ ...eventForm, startDate: e.target.value })} required />
+            <input type="date" className={inputClass} value={eventForm.endDate} onChange={e => setEventForm({ ...eventForm, endDate: e.target.value })} required />
+            <button type="submit" className="inline-flex items-center rounded-md bg-indigo-600 px-3 py-2 text-sm font-medium text-white hover:bg-indigo-700">
+              <PlusIcon className="-ml-1 mr-1 h-4 w-4" /> Add Event
+            </button>
+          </form>
+        </div>
+      )}
+
+      {academicYears.length === 0 ? (
+        <div className="bg-white shadow sm:rounded-md px-6 py-12 text-center">
+          <CalendarDaysIcon className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">No academic calendar</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            Until semesters are added every scheduled day is treated as a teaching day.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {academicYears.map(year => (
+            <div key={year.id} className="bg-white shadow sm:rounded-md overflow-hidden">
+              <div className="px-6 py-4 border-b border-gray-200 bg-gray-50 flex items-center justify-between">
+                <div>
+                  <h2 className="text-lg font-medium text-gray-900">{year.name}</h2>
+                  <p className="text-sm text-gray-500">{formatDate(year.startDate)} – {formatDate(year.endDate)}</p>
+                </div>
+                {year.isCurrent && (
+                  <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                    Current
+                  </span>
+                )}
+              </div>
+              <div className="px-6 py-4 grid grid-cols-1 gap-6 md:grid-cols-2">
+                <div>
+                  <h3 className="text-sm font-medium text-gray-900 mb-2">Semesters</h3>
+                  {year.semesters.length === 0 ? (
+                    <p className="text-sm text-gray-500">No semesters yet.</p>
+                  ) : (
+                    <ul className="divide-y divide-gray-100">
+                      {year.semesters.map(semester => (
+                        <li key={semester.id} className="py-2 text-sm">
+                          <p className="font-medium text-gray-900">{semester.name}</p>
+                          <p className="text-gray-500">
+                            {formatDate(semester.startDate)} – {formatDate(semester.endDate)}
+                            {semester.teachingWeeks ? ` · ${semester.teachingWeeks} teaching weeks` : ''}
+                          </p>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+                <div>
+                  <h3 className="text-sm font-medium text-gray-900 mb-2">Non-teaching Days</h3>
+                  {year.events.length === 0 ? (
+                    <p className="text-sm text-gray-500">No holidays, exams or reading weeks yet.</p>
+                  ) : (
+                    <ul className="divide-y divide-gray-100">
+                      {year.events.map(event => (
+                        <li key={event.id} className="py-2 text-sm flex items-start justify-between">
+                          <div>
+                            <div className="flex items-center">
+                              <p className="font-medium text-gray-900">{event.name}</p>
+                              <span className={`ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${EVENT_TYPE_COLORS[event.type] || 'bg-gray-100 text-gray-800'}`}>
+                                {EVENT_TYPE_LABELS[event.type] || event.type}
+                              </span>
+                            </div>
+                            <p className="text-gray-500">{formatDate(event.startDate)} – {formatDate(event.endDate)}</p>
+                          </div>
+                          {canManage && (
+                            <button onClick={() => handleDeleteEvent(event.id)} className="text-gray-400 hover:text-red-600" title="Remove event">
+                              <TrashIcon className="h-4 w-4" />
+                            </button>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,411 @@
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { useEffect, useState } from 'react'
+import { CheckIcon, PaperClipIcon, ScaleIcon, XMarkIcon } from '@heroicons/react/24/outline'
+import type { AppealStatus } from '@/lib/appeals'
+
+interface CourseInfo {
+  course: { courseCode: string; title: string }
+  classGroup: { name: string }
+}
+
+interface EligibleRecord {
+  id: string
+  timestamp: string
+  supervisorComment: string | null
+  courseSchedule: CourseInfo
+  canAppeal: boolean
+  reason: string | null
+}
+
+interface Appeal {
+  id: string
+  status: AppealStatus
+  reason: string
+  evidence: string[]
+  originalComment: string | null
+  decisionComment: string | null
+  decidedAt: string | null
+  createdAt: string
+  lecturer: {
+    employeeId: string
+    user: { firstName: string; lastName: string }
+  }
+  attendanceRecord: {
+    id: string
+    timestamp: string
+    supervisorVerified: boolean | null
+    courseSchedule: CourseInfo
+  }
+}
+
+const STATUS_COLORS: Record<AppealStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  accepted: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  withdrawn: 'bg-gray-100 text-gray-800'
+}
+
+const STATUS_LABELS: Record<AppealStatus, string> = {
+  pending: 'Awaiting decision',
+  accepted: 'Upheld',
+  rejected: 'Dismissed',
+  withdrawn: 'Withdrawn'
+}
+
+const inputClass = 'block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500'
+
+function formatDateTime(value: string) {
+  return new Date(value).toLocaleString('en-GB', { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' })
+}
+
+function describeClass({ course, classGroup }: CourseInfo) {
+  return `${course.courseCode} - ${course.title} (${classGroup.name})`
+}
+
+export default function AppealsPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [appeals, setAppeals] = useState<Appeal[]>([])
+  const [eligible, setEligible] = useState<EligibleRecord[]>([])
+  const [statusFilter, setStatusFilter] = useState('')
+  const [appealingId, setAppealingId] = useState<string | null>(null)
+  const [reason, setReason] = useState('')
+  const [evidenceFiles, setEvidenceFiles] = useState<File[]>([])
+  const [submitting, setSubmitting] = useState(false)
+  const [comments, setComments] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const isLecturer = session?.user.role === 'LECTURER'
+
+  useEffect(() => {
+    if (status === 'loading') return
+
+    if (!session) {
+      router.push('/auth/signin')
+      return
+    }
+
+    if (!['ADMIN', 'COORDINATOR', 'LECTURER'].includes(session.user.role)) {
+      router.push('/dashboard')
+      return
+    }
+
+    if (session.user.role === 'LECTURER') {
+      fetchEligible()
+    }
+  }, [session, status, router])
+
+  useEffect(() => {
+    if (!session) return
+    fetchAppeals()
+  }, [session, statusFilter])
+
+  const fetchAppeals = async () => {
+    try {
+      const params = new URLSearchParams()
+      if (statusFilter) params.set('status', statusFilter)
+
+      const response = await fetch(`/api/appeals?${params.toString()}`)
+      if (response.ok) {
+        setAppeals(await response.json())
+      } else {
+        const errorData = await response.json()
+        setError(errorData.error || 'Failed to fetch appeals')
+      }
+    } catch (error) {
+      console.error('Error fetching appeals:', error)
+      setError('An error occurred while fetching appeals')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchEligible = async () => {
+    try {
+      const response = await fetch('/api/appeals/eligible')
+      if (response.ok) {
+        setEligible(await response.json())
+      }
+    } catch (error) {
+      console.error('Error fetching appealable attendance:', error)
+    }
+  }
+
+  const uploadEvidence = async (files: File[]) => {
+    const uploadedUrls: string[] = []
+
+    for (const file of files) {
+      const formData = new FormData()
+      formData.append('file', file)
+      formData.append('type', 'verification-evidence')
+
+      const response = await fetch('/api/upload', {
+        method: 'POST',
+        body: formData
+      })
+
+      if (!response.ok) {
+        throw new Error(`Failed to upload ${file.name}`)
+      }
+
+      const data = await response.json()
+      uploadedUrls.push(data.url)
+    }
+
+    return uploadedUrls
+  }
+
+  const handleSubmitAppeal = async (attendanceRecordId: string) => {
+    setSubmitting(true)
+    setError(null)
+
+    try {
+      const evidenceUrls = await uploadEvidence(evidenceFiles)
+
+      const response = await fetch('/api/appeals', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ attendanceRecordId, reason, evidenceUrls })
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to submit appeal')
+      }
+
+      setAppealingId(null)
+      setReason('')
+      setEvidenceFiles([])
+      await Promise.all([fetchAppeals(), fetchEligible()])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleAction = async (id: string, action: 'accept' | 'reject' | 'withdraw') => {
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/appeals/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, comment: comments[id] || undefined })
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || `Failed to ${action} appeal`)
+      }
+
+      await fetchAppeals()
+      if (isLecturer) {
+        await fetchEligible()
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  if (status === 'loading' || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-indigo-500"></div>
+      </div>
+    )
+  }
+
+  if (!session) {
+    return null
+  }
+
+  return (
+    <div className="p-6">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-900">Attendance Appeals</h1>
+        <p className="mt-2 text-sm text-gray-700">
+          {isLecturer
+            ? 'If a supervisor marked your attendance as unverified, you can appeal with an explanation and supporting evidence. Your programme coordinator decides each appeal.'
+            : 'Review appeals against rejected attendance. Upholding an appeal marks the class as verified and makes it claimable; the decision and the original comment are kept in the audit trail.'}
+        </p>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4 mb-6">
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+
+      {isLecturer && (
+        <div className="bg-white shadow rounded-lg p-4 mb-8">
+          <h2 className="text-sm font-medium text-gray-900">Unverified attendance</h2>
+          {eligible.length === 0 ? (
+            <p className="mt-2 text-sm text-gray-500">None of your attendance has been marked unverified.</p>
+          ) : (
+            <ul className="mt-2 divide-y divide-gray-100">
+              {eligible.map(record => (
+                <li key={record.id} className="py-3">
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">{describeClass(record.courseSchedule)}</p>
+                      <p className="text-sm text-gray-500">{formatDateTime(record.timestamp)}</p>
+                      {record.supervisorComment && (
+                        <p className="mt-1 text-sm text-gray-700">Supervisor: {record.supervisorComment}</p>
+                      )}
+                      {!record.canAppeal && record.reason && (
+                        <p className="mt-1 text-xs text-gray-500">{record.reason}</p>
+                      )}
+                    </div>
+                    {record.canAppeal && appealingId !== record.id && (
+                      <button
+                        onClick={() => { setAppealingId(record.id); setReason(''); setEvidenceFiles([]) }}
+                        className="inline-flex items-center rounded-md border border-gray-300 bg-white px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                      >
+                        <ScaleIcon className="-ml-1 mr-1 h-4 w-4" /> Appeal
+                      </button>
+                    )}
+                  </div>
+
+                  {appealingId === record.id && (
+                    <div className="mt-3 space-y-3">
+                      <textarea
+                        className={inputClass}
+                        rows={3}
+                        placeholder="Explain why this class should count as held"
+                        value={reason}
+                        onChange={e => setReason(e.target.value)}
+                      />
+                      <input
+                        type="file"
+                        multiple
+                        accept="image/*,.pdf"
+                        onChange={e => setEvidenceFiles(Array.from(e.target.files || []))}
+                        className="block text-sm text-gray-700"
+                      />
+                      <div className="flex justify-end space-x-2">
+                        <button
+                          onClick={() => setAppealingId(null)}
+                          className="inline-flex items-center rounded-md border border-gray-300 bg-white px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={() => handleSubmitAppeal(record.id)}
+                          disabled={submitting || !reason.trim()}
+                          className="inline-flex items-center rounded-md bg-indigo-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50"
+                        >
+                          {submitting ? 'Submitting...' : 'Submit Appeal'}
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="mb-4 flex items-center justify-between">
+        <h2 className="text-lg font-medium text-gray-900">{isLecturer ? 'My appeals' : 'Appeals'}</h2>
+        <select className={`${inputClass} max-w-xs`} value={statusFilter} onChange={e => setStatusFilter(e.target.value)}>
+          <option value="">All statuses</option>
+          {Object.entries(STATUS_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </div>
+
+      {appeals.length === 0 ? (
+        <div className="bg-white shadow sm:rounded-md px-6 py-12 text-center">
+          <ScaleIcon className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">No appeals</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            {isLecturer ? 'Appeals you lodge will appear here.' : 'There are no appeals matching this filter.'}
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white shadow overflow-hidden sm:rounded-md">
+          <ul className="divide-y divide-gray-200">
+            {appeals.map(appeal => (
+              <li key={appeal.id} className="px-6 py-4">
+                <div className="flex items-center">
+                  <p className="text-sm font-medium text-indigo-600">
+                    {describeClass(appeal.attendanceRecord.courseSchedule)}
+                  </p>
+                  <span className={`ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_COLORS[appeal.status]}`}>
+                    {STATUS_LABELS[appeal.status]}
+                  </span>
+                </div>
+                <p className="mt-1 text-sm text-gray-500">
+                  {!isLecturer && `${appeal.lecturer.user.firstName} ${appeal.lecturer.user.lastName} (${appeal.lecturer.employeeId}) · `}
+                  Class {formatDateTime(appeal.attendanceRecord.timestamp)} · Appealed {formatDateTime(appeal.createdAt)}
+                </p>
+                {appeal.originalComment && (
+                  <p className="mt-2 text-sm text-gray-700"><span className="font-medium">Supervisor:</span> {appeal.originalComment}</p>
+                )}
+                <p className="mt-1 text-sm text-gray-700"><span className="font-medium">Appeal:</span> {appeal.reason}</p>
+                {appeal.evidence.length > 0 && (
+                  <div className="mt-1 flex flex-wrap gap-2">
+                    {appeal.evidence.map((url, index) => (
+                      <a key={url} href={url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center text-sm text-indigo-600 hover:text-indigo-500">
+                        <PaperClipIcon className="mr-1 h-4 w-4" /> Evidence {index + 1}
+                      </a>
+                    ))}
+                  </div>
+                )}
+                {appeal.decisionComment && (
+                  <p className="mt-1 text-sm text-gray-700">
+                    <span className="font-medium">Decision:</span> {appeal.decisionComment}
+                    {appeal.decidedAt && <span className="text-gray-500"> ({formatDateTime(appeal.decidedAt)})</span>}
+                  </p>
+                )}
+
+                {appeal.status === 'pending' && (
+                  isLecturer ? (
+                    <div className="mt-3 flex justify-end">
+                      <button
+                        onClick={() => handleAction(appeal.id, 'withdraw')}
+                        className="inline-flex items-center rounded-md border border-gray-300 bg-white px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                      >
+                        Withdraw
+                      </button>
+                    </div>
+                  ) : (
+                    <div className="mt-3 flex items-center space-x-2">
+                      <input
+                        className={inputClass}
+                        placeholder="Reason for your decision"
+                        value={comments[appeal.id] || ''}
+                        onChange={e => setComments({ ...comments, [appeal.id]: e.target.value })}
+                      />
+                      <button
+                        onClick={() => handleAction(appeal.id, 'accept')}
+                        disabled={!comments[appeal.id]?.trim()}
+                        className="inline-flex items-center whitespace-nowrap rounded-md bg-green-600 px-3 py-2 text-sm font-medium text-white hover:bg-green-700 disabled:opacity-50"
+                      >
+                        <CheckIcon className="-ml-1 mr-1 h-4 w-4" /> Uphold
+                      </button>
+                      <button
+                        onClick={() => handleAction(appeal.id, 'reject')}
+                        disabled={!comments[appeal.id]?.trim()}
+                        className="inline-flex items-center whitespace-nowrap rounded-md bg-red-600 px-3 py-2 text-sm font-medium text-white hover:bg-red-700 disabled:opacity-50"
+                      >
+                        <XMarkIcon className="-ml-1 mr-1 h-4 w-4" /> Dismiss
+                      </button>
+                    </div>
+                  )
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
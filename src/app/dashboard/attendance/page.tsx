@@ -29,6 +29,9 @@ interface AttendanceRecord {
   supervisorComment?: string | null
   gpsLatitude?: number | null
   gpsLongitude?: number | null
+  sessionEndTime?: string | null
+  lateMinutes?: number | null
+  earlyLeaveMinutes?: number | null
 }
 
 export default function AttendancePage() {
@@ -37,6 +40,7 @@ export default function AttendancePage() {
   const [loading, setLoading] = useState(true)
   const [filter, setFilter] = useState<'all' | 'verified' | 'pending' | 'disputed'>('all')
   const [error, setError] = useState<string | null>(null)
+  const [checkingOutId, setCheckingOutId] = useState<string | null>(null)
 
   useEffect(() => {
     if (session?.user) {
@@ -64,6 +68,55 @@ export default function AttendancePage() {
     }
   }
 
+  const canCheckOut = (record: AttendanceRecord) =>
+    session?.user.role === 'LECTURER' &&
+    record.method !== 'virtual' &&
+    !record.sessionEndTime &&
+    new Date(record.timestamp).toDateString() === new Date().toDateString()
+
+  const handleCheckOut = (record: AttendanceRecord) => {
+    if (!navigator.geolocation) {
+      alert('Geolocation is not supported by this browser')
+      return
+    }
+
+    setCheckingOutId(record.id)
+    navigator.geolocation.getCurrentPosition(
+      async (position) => {
+        try {
+          const response = await fetch('/api/attendance/check-out', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              attendanceRecordId: record.id,
+              latitude: position.coords.latitude,
+              longitude: position.coords.longitude
+            })
+          })
+          const result = await response.json()
+
+          if (response.ok) {
+            alert(result.message)
+            await fetchAttendanceRecords()
+          } else {
+            alert(result.error || 'Failed to check out')
+          }
+        } catch (error) {
+          console.error('Error checking out:', error)
+          alert('An unexpected error occurred while checking out')
+        } finally {
+          setCheckingOutId(null)
+        }
+      },
+      (error) => {
+        console.error('Error getting location for check-out:', error)
+        alert('Unable to get your location. Please enable location access and try again.')
+        setCheckingOutId(null)
+      },
+      { enableHighAccuracy: true, timeout: 15000, maximumAge: 0 }
+    )
+  }
+
   const filteredRecords = attendanceRecords.filter(record => {
     if (filter === 'verified') return record.supervisorVerified === true
     if (filter === 'disputed') return record.supervisorVerified === false
@@ -252,6 +305,7 @@ export default function AttendancePage() {
                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
                          record.method === 'onsite' ? 'bg-blue-100 text-blue-800' :
                          record.method === 'virtual' ? 'bg-green-100 text-green-800' :
+                         record.method === 'qr' ? 'bg-purple-100 text-purple-800' :
                          'bg-gray-100 text-gray-800'
                        }`}>
                          {record.method.toUpperCase()}
@@ -269,9 +323,31 @@ export default function AttendancePage() {
                       </span>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      {new Date(record.timestamp).toLocaleTimeString()}
+                      <div>
+                        {new Date(record.timestamp).toLocaleTimeString()}
+                        {record.sessionEndTime && ` – ${new Date(record.sessionEndTime).toLocaleTimeString()}`}
+                      </div>
+                      {!!record.lateMinutes && (
+                        <span className="inline-flex mt-1 px-2 py-0.5 text-xs font-semibold rounded-full bg-orange-100 text-orange-800">
+                          Late {record.lateMinutes} min
+                        </span>
+                      )}
+                      {!!record.earlyLeaveMinutes && (
+                        <span className="inline-flex mt-1 ml-1 px-2 py-0.5 text-xs font-semibold rounded-full bg-orange-100 text-orange-800">
+                          Left {record.earlyLeaveMinutes} min early
+                        </span>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      {canCheckOut(record) && (
+                        <button
+                          onClick={() => handleCheckOut(record)}
+                          disabled={checkingOutId === record.id}
+                          className="mr-3 text-green-600 hover:text-green-900 disabled:text-gray-400"
+                        >
+                          {checkingOutId === record.id ? 'Checking out...' : 'Check Out'}
+                        </button>
+                      )}
                       {(session?.user.role === 'ADMIN' || session?.user.role === 'COORDINATOR' || session?.user.role === 'LECTURER') ? (
                         <a
                           href={`/dashboard/attendance/${record.id}/print`}
@@ -6,6 +6,8 @@ import { useRouter } from 'next/navigation'
 import { getUPSACoordinates, getUPSARadius, getDistance } from '@/lib/geolocation'
 import { useAttendanceLocation } from '@/hooks/useAttendanceLocation'
 import { resolveMeetingLink } from '@/lib/meeting-link'
+import { getDeviceId } from '@/lib/device-id'
+import QRScanner from '@/components/mobile/QRScanner'
 
 interface Schedule {
   id: string
@@ -15,6 +17,8 @@ interface Schedule {
   sessionType: string
   meetingLink?: string | null
   resolvedMeetingLink?: string | null
+  classSessionId?: string | null
+  isMakeUp?: boolean
   course: {
     id: string
     name: string
@@ -57,6 +61,7 @@ export default function TakeAttendancePage() {
   const [sessionStartTime, setSessionStartTime] = useState<Date | null>(null)
   const [timeRemaining, setTimeRemaining] = useState<string>('')
   const [remarks, setRemarks] = useState('')
+  const [showQRScanner, setShowQRScanner] = useState(false)
   
   // New state for editing link
   const [isEditingLink, setIsEditingLink] = useState(false)
@@ -255,9 +260,11 @@ export default function TakeAttendancePage() {
         },
         body: JSON.stringify({
           scheduleId: selectedSchedule.id,
+          classSessionId: selectedSchedule.isMakeUp ? selectedSchedule.classSessionId ?? undefined : undefined,
           method: 'virtual',
           action: 'start',
-          remarks
+          remarks,
+          deviceId: getDeviceId()
         })
       })
 
@@ -294,9 +301,11 @@ export default function TakeAttendancePage() {
         },
         body: JSON.stringify({
           scheduleId: selectedSchedule.id,
+          classSessionId: selectedSchedule.isMakeUp ? selectedSchedule.classSessionId ?? undefined : undefined,
           method: 'virtual',
           action: 'end',
-          remarks
+          remarks,
+          deviceId: getDeviceId()
         })
       })
 
@@ -318,7 +327,8 @@ export default function TakeAttendancePage() {
     }
   }
 
-  const handleTakeAttendance = async () => {
+  // qrToken is the class rep's code, scanned as a second factor on top of GPS
+  const handleTakeAttendance = async (qrToken?: string) => {
     if (!selectedSchedule) return
 
     if (attendanceMethod === 'onsite' && !location) {
@@ -331,10 +341,13 @@ export default function TakeAttendancePage() {
     try {
       const result = await submitAttendance({
         scheduleId: selectedSchedule.id,
-        method: attendanceMethod,
+        classSessionId: selectedSchedule.isMakeUp ? selectedSchedule.classSessionId ?? undefined : undefined,
+        method: qrToken ? 'qr' : attendanceMethod,
+        qrToken,
         remarks,
         latitude: location?.latitude,
-        longitude: location?.longitude
+        longitude: location?.longitude,
+        accuracy: location?.accuracy
       })
 
       if (result.success) {
@@ -419,9 +432,9 @@ export default function TakeAttendancePage() {
               <div className="space-y-3">
                 {schedules.map((schedule) => (
                   <div
-                    key={schedule.id}
+                    key={schedule.classSessionId || schedule.id}
                     className={`p-4 border rounded-lg cursor-pointer transition-colors ${
-                      selectedSchedule?.id === schedule.id
+                      selectedSchedule === schedule
                         ? 'border-indigo-500 bg-indigo-50'
                         : 'border-gray-200 hover:border-gray-300'
                     }`}
@@ -431,6 +444,11 @@ export default function TakeAttendancePage() {
                       <div>
                         <h4 className="font-medium text-gray-900">
                           {schedule.course.code} - {schedule.course.name}
+                          {schedule.isMakeUp && (
+                            <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+                              Make-up
+                            </span>
+                          )}
                         </h4>
                         <p className="text-sm text-gray-600">
                           {schedule.classGroup.name} • {schedule.sessionType}
@@ -724,7 +742,7 @@ export default function TakeAttendancePage() {
 
                         <div className="mt-6">
                           <button
-                            onClick={handleTakeAttendance}
+                            onClick={() => handleTakeAttendance()}
                             disabled={submitting}
                             className="w-full inline-flex justify-center items-center px-6 py-3 border border-transparent text-base font-bold rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:opacity-50"
                           >
@@ -745,6 +763,19 @@ export default function TakeAttendancePage() {
                               </>
                             )}
                           </button>
+                          <button
+                            onClick={() => setShowQRScanner(true)}
+                            disabled={submitting || isOffline}
+                            className="mt-3 w-full inline-flex justify-center items-center px-6 py-3 border border-indigo-600 text-base font-medium rounded-md text-indigo-700 bg-white hover:bg-indigo-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+                          >
+                            <svg className="-ml-1 mr-2 h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v1m6 11h2m-6 0h-2v4m0-11v3m0 0h.01M12 12h4.01M16 20h4M4 12h4m12 0h.01M5 8h2a1 1 0 001-1V5a1 1 0 00-1-1H5a1 1 0 00-1 1v2a1 1 0 001 1zm12 0h2a1 1 0 001-1V5a1 1 0 00-1-1h-2a1 1 0 00-1 1v2a1 1 0 001 1zM5 20h2a1 1 0 001-1v-2a1 1 0 00-1-1H5a1 1 0 00-1 1v2a1 1 0 001 1z" />
+                            </svg>
+                            Scan Class Rep QR Code
+                          </button>
+                          <p className="mt-2 text-xs text-gray-500 text-center">
+                            Scanning the code on your class rep's phone confirms your presence in addition to GPS.
+                          </p>
                         </div>
                       </div>
                     )}
@@ -755,6 +786,13 @@ export default function TakeAttendancePage() {
           )}
         </div>
       )}
+
+      <QRScanner
+        isOpen={showQRScanner}
+        onClose={() => setShowQRScanner(false)}
+        onScan={(data) => handleTakeAttendance(data)}
+        title="Scan Class Rep QR Code"
+      />
     </div>
   )
 }
@@ -13,6 +13,8 @@ interface FormData {
   gpsLatitude: string
   gpsLongitude: string
   totalFloors: string
+  geofenceRadius: string
+  geofencePolygon: string
 }
 
 export default function CreateBuildingPage() {
@@ -28,7 +30,9 @@ export default function CreateBuildingPage() {
     address: '',
     gpsLatitude: '',
     gpsLongitude: '',
-    totalFloors: ''
+    totalFloors: '',
+    geofenceRadius: '',
+    geofencePolygon: ''
   })
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
@@ -225,6 +229,43 @@ export default function CreateBuildingPage() {
             />
           </div>
 
+          <div>
+            <label htmlFor="geofenceRadius" className="block text-sm font-medium text-gray-700 mb-1">
+              Geofence Radius (meters)
+            </label>
+            <input
+              type="number"
+              id="geofenceRadius"
+              name="geofenceRadius"
+              value={formData.geofenceRadius}
+              onChange={handleChange}
+              min="10"
+              placeholder="Campus default"
+              className="block w-full sm:w-1/2 border border-gray-300 rounded-md px-3 py-2 text-sm sm:text-base focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              Lecturers must check in within this distance of the building. Leave blank to use the campus default.
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="geofencePolygon" className="block text-sm font-medium text-gray-700 mb-1">
+              Geofence Boundary (optional)
+            </label>
+            <textarea
+              id="geofencePolygon"
+              name="geofencePolygon"
+              value={formData.geofencePolygon}
+              onChange={handleChange}
+              rows={3}
+              placeholder='[{"latitude": 5.6601, "longitude": -0.1672}, ...]'
+              className="block w-full border border-gray-300 rounded-md px-3 py-2 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              JSON list of at least three boundary points. When set, it replaces the radius check.
+            </p>
+          </div>
+
           <div className="flex items-center justify-end pt-4 sm:pt-6 border-t border-gray-200">
             <Link
               href="/dashboard"
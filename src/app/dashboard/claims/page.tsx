@@ -0,0 +1,456 @@
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { useEffect, useState } from 'react'
+import { ArrowDownTrayIcon, BanknotesIcon, CheckIcon, Cog6ToothIcon, XMarkIcon } from '@heroicons/react/24/outline'
+import type { PreparedClaim } from '@/lib/claims'
+
+interface ClaimPeriod {
+  id: string
+  name: string
+  startDate: string
+  endDate: string
+  submissionDeadline: string | null
+  status: string
+}
+
+interface ClaimLine {
+  id: string
+  courseCode: string
+  courseTitle: string
+  date: string
+  hours: number
+  hourlyRate: number
+  amount: number
+}
+
+interface Claim {
+  id: string
+  status: string
+  totalHours: number
+  totalAmount: number
+  currency: string
+  lecturerComment: string | null
+  submittedAt: string
+  hodComment: string | null
+  financeComment: string | null
+  payrollExportedAt: string | null
+  claimPeriod: ClaimPeriod
+  lecturer: {
+    employeeId: string
+    user: { firstName: string; lastName: string }
+  }
+  _count: { lines: number }
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  submitted: 'Awaiting HOD',
+  hod_approved: 'Awaiting finance',
+  approved: 'Approved',
+  rejected: 'Rejected'
+}
+
+const STATUS_COLORS: Record<string, string> = {
+  submitted: 'bg-yellow-100 text-yellow-800',
+  hod_approved: 'bg-blue-100 text-blue-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800'
+}
+
+const inputClass = 'block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500'
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' })
+}
+
+function formatAmount(currency: string, amount: number) {
+  return `${currency} ${amount.toFixed(2)}`
+}
+
+export default function ClaimsPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [periods, setPeriods] = useState<ClaimPeriod[]>([])
+  const [claims, setClaims] = useState<Claim[]>([])
+  const [selectedPeriodId, setSelectedPeriodId] = useState('')
+  const [statusFilter, setStatusFilter] = useState('')
+  const [preview, setPreview] = useState<PreparedClaim | null>(null)
+  const [submitComment, setSubmitComment] = useState('')
+  const [comments, setComments] = useState<Record<string, string>>({})
+  const [expandedLines, setExpandedLines] = useState<Record<string, ClaimLine[]>>({})
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const role = session?.user.role
+  const isLecturer = role === 'LECTURER'
+  const isAdmin = role === 'ADMIN'
+
+  useEffect(() => {
+    if (status === 'loading') return
+
+    if (!session) {
+      router.push('/auth/signin')
+      return
+    }
+
+    if (!['ADMIN', 'COORDINATOR', 'LECTURER'].includes(session.user.role)) {
+      router.push('/dashboard')
+      return
+    }
+
+    fetchPeriods()
+  }, [session, status, router])
+
+  useEffect(() => {
+    if (!session) return
+    fetchClaims()
+  }, [session, selectedPeriodId, statusFilter])
+
+  const fetchPeriods = async () => {
+    try {
+      const response = await fetch('/api/claims/periods')
+      if (response.ok) {
+        const data: ClaimPeriod[] = await response.json()
+        setPeriods(data)
+        const openPeriod = data.find(period => period.status === 'open')
+        if (openPeriod) {
+          setSelectedPeriodId(openPeriod.id)
+        }
+      }
+    } catch (error) {
+      console.error('Error fetching claim periods:', error)
+    }
+  }
+
+  const fetchClaims = async () => {
+    try {
+      const params = new URLSearchParams()
+      if (selectedPeriodId) params.set('claimPeriodId', selectedPeriodId)
+      if (statusFilter) params.set('status', statusFilter)
+
+      const response = await fetch(`/api/claims?${params.toString()}`)
+      if (response.ok) {
+        setClaims(await response.json())
+      } else {
+        const errorData = await response.json()
+        setError(errorData.error || 'Failed to fetch claims')
+      }
+    } catch (error) {
+      console.error('Error fetching claims:', error)
+      setError('An error occurred while fetching claims')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handlePreview = async () => {
+    setError(null)
+    setPreview(null)
+
+    try {
+      const response = await fetch(`/api/claims/preview?claimPeriodId=${selectedPeriodId}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to prepare claim')
+      }
+
+      setPreview(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  const handleSubmit = async () => {
+    setError(null)
+
+    try {
+      const response = await fetch('/api/claims', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ claimPeriodId: selectedPeriodId, comment: submitComment || undefined })
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to submit claim')
+      }
+
+      setPreview(null)
+      setSubmitComment('')
+      await fetchClaims()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  const handleReview = async (id: string, decision: 'approve' | 'reject') => {
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/claims/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision, comment: comments[id] || undefined })
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || `Failed to ${decision} claim`)
+      }
+
+      await fetchClaims()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  const toggleLines = async (id: string) => {
+    if (expandedLines[id]) {
+      const { [id]: _, ...rest } = expandedLines
+      setExpandedLines(rest)
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/claims/${id}`)
+      if (response.ok) {
+        const data = await response.json()
+        setExpandedLines({ ...expandedLines, [id]: data.lines })
+      }
+    } catch (error) {
+      console.error('Error fetching claim lines:', error)
+    }
+  }
+
+  const canReview = (claim: Claim) =>
+    (claim.status === 'submitted' && !isLecturer) || (claim.status === 'hod_approved' && isAdmin)
+
+  if (status === 'loading' || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-indigo-500"></div>
+      </div>
+    )
+  }
+
+  if (!session) {
+    return null
+  }
+
+  const selectedPeriod = periods.find(period => period.id === selectedPeriodId)
+
+  return (
+    <div className="p-6">
+      <div className="mb-8 flex items-start justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Teaching Claims</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            {isLecturer
+              ? 'Claims are built from your verified adjunct and overload classes. Your head of department and then finance approve each claim.'
+              : 'Review lecturer claims. Heads of department approve first; finance gives final approval, which locks the attendance records on the claim.'}
+          </p>
+        </div>
+        {isAdmin && (
+          <Link href="/dashboard/claims/settings" className="inline-flex items-center rounded-md border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50">
+            <Cog6ToothIcon className="-ml-1 mr-1 h-4 w-4" /> Rates &amp; Periods
+          </Link>
+        )}
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4 mb-6">
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+
+      <div className="bg-white shadow rounded-lg p-4 mb-8 grid grid-cols-1 gap-4 md:grid-cols-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Claim period</label>
+          <select className={inputClass} value={selectedPeriodId} onChange={e => { setSelectedPeriodId(e.target.value); setPreview(null) }}>
+            <option value="">All periods</option>
+            {periods.map(period => (
+              <option key={period.id} value={period.id}>
+                {period.name} ({period.status})
+              </option>
+            ))}
+          </select>
+        </div>
+        {!isLecturer && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Status</label>
+            <select className={inputClass} value={statusFilter} onChange={e => setStatusFilter(e.target.value)}>
+              <option value="">All statuses</option>
+              {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+        )}
+        {isAdmin && selectedPeriodId && (
+          <div className="flex items-end space-x-2">
+            {(['csv', 'xlsx'] as const).map(format => (
+              <a
+                key={format}
+                href={`/api/claims/export?claimPeriodId=${selectedPeriodId}&format=${format}`}
+                className="inline-flex items-center rounded-md border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                <ArrowDownTrayIcon className="-ml-1 mr-1 h-4 w-4" /> Payroll {format.toUpperCase()}
+              </a>
+            ))}
+          </div>
+        )}
+        {selectedPeriod && (
+          <p className="md:col-span-3 text-sm text-gray-500">
+            {formatDate(selectedPeriod.startDate)} - {formatDate(selectedPeriod.endDate)}
+            {selectedPeriod.submissionDeadline && ` · Submit by ${formatDate(selectedPeriod.submissionDeadline)}`}
+          </p>
+        )}
+      </div>
+
+      {isLecturer && selectedPeriod?.status === 'open' && (
+        <div className="bg-white shadow rounded-lg p-4 mb-8">
+          <div className="flex items-center justify-between">
+            <h2 className="text-sm font-medium text-gray-900">Prepare my claim for {selectedPeriod.name}</h2>
+            <button onClick={handlePreview} className="inline-flex items-center rounded-md border border-gray-300 bg-white px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50">
+              Preview
+            </button>
+          </div>
+
+          {preview && (
+            preview.lines.length === 0 ? (
+              <p className="mt-4 text-sm text-gray-500">There are no claimable classes in this period.</p>
+            ) : (
+              <div className="mt-4">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="py-2">Date</th>
+                      <th className="py-2">Course</th>
+                      <th className="py-2 text-right">Hours</th>
+                      <th className="py-2 text-right">Rate</th>
+                      <th className="py-2 text-right">Amount</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {preview.lines.map(line => (
+                      <tr key={line.attendanceRecordId}>
+                        <td className="py-2">{formatDate(String(line.date))}</td>
+                        <td className="py-2">{line.courseCode} - {line.courseTitle}</td>
+                        <td className="py-2 text-right">{line.hours}</td>
+                        <td className="py-2 text-right">{line.hourlyRate.toFixed(2)}</td>
+                        <td className="py-2 text-right">{line.amount.toFixed(2)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                  <tfoot>
+                    <tr className="font-medium text-gray-900">
+                      <td className="py-2" colSpan={2}>Total</td>
+                      <td className="py-2 text-right">{preview.totalHours}</td>
+                      <td></td>
+                      <td className="py-2 text-right">{formatAmount(preview.currency, preview.totalAmount)}</td>
+                    </tr>
+                  </tfoot>
+                </table>
+                <div className="mt-4 flex items-center space-x-2">
+                  <input
+                    className={inputClass}
+                    placeholder="Comment for your head of department (optional)"
+                    value={submitComment}
+                    onChange={e => setSubmitComment(e.target.value)}
+                  />
+                  <button onClick={handleSubmit} className="inline-flex items-center whitespace-nowrap rounded-md bg-indigo-600 px-3 py-2 text-sm font-medium text-white hover:bg-indigo-700">
+                    <BanknotesIcon className="-ml-1 mr-1 h-4 w-4" /> Submit Claim
+                  </button>
+                </div>
+              </div>
+            )
+          )}
+        </div>
+      )}
+
+      {claims.length === 0 ? (
+        <div className="bg-white shadow sm:rounded-md px-6 py-12 text-center">
+          <BanknotesIcon className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">No claims</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            {isLecturer ? 'Claims you submit will appear here.' : 'There are no claims matching these filters.'}
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white shadow overflow-hidden sm:rounded-md">
+          <ul className="divide-y divide-gray-200">
+            {claims.map(claim => (
+              <li key={claim.id} className="px-6 py-4">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <div className="flex items-center">
+                      <p className="text-sm font-medium text-indigo-600">
+                        {isLecturer ? claim.claimPeriod.name : `${claim.lecturer.user.firstName} ${claim.lecturer.user.lastName} (${claim.lecturer.employeeId})`}
+                      </p>
+                      <span className={`ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_COLORS[claim.status] || 'bg-gray-100 text-gray-800'}`}>
+                        {STATUS_LABELS[claim.status] || claim.status}
+                      </span>
+                      {claim.payrollExportedAt && (
+                        <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                          exported
+                        </span>
+                      )}
+                    </div>
+                    <p className="mt-1 text-sm text-gray-700">
+                      {claim._count.lines} classes · {claim.totalHours} hours · {formatAmount(claim.currency, claim.totalAmount)}
+                      {!isLecturer && ` · ${claim.claimPeriod.name}`}
+                    </p>
+                    <p className="mt-1 text-sm text-gray-500">Submitted {formatDate(claim.submittedAt)}</p>
+                    {claim.lecturerComment && <p className="mt-1 text-sm text-gray-500">Lecturer: {claim.lecturerComment}</p>}
+                    {claim.hodComment && <p className="mt-1 text-sm text-gray-500">HOD: {claim.hodComment}</p>}
+                    {claim.financeComment && <p className="mt-1 text-sm text-gray-500">Finance: {claim.financeComment}</p>}
+                    <button onClick={() => toggleLines(claim.id)} className="mt-1 text-sm text-indigo-600 hover:text-indigo-800">
+                      {expandedLines[claim.id] ? 'Hide classes' : 'Show classes'}
+                    </button>
+                    {expandedLines[claim.id] && (
+                      <ul className="mt-2 space-y-1 text-sm text-gray-600">
+                        {expandedLines[claim.id].map(line => (
+                          <li key={line.id}>
+                            {formatDate(line.date)} · {line.courseCode} · {line.hours}h × {line.hourlyRate.toFixed(2)} = {line.amount.toFixed(2)}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+
+                  {canReview(claim) && (
+                    <div className="ml-4 flex flex-col items-end space-y-2">
+                      <input
+                        className={inputClass}
+                        placeholder="Comment (required to reject)"
+                        value={comments[claim.id] || ''}
+                        onChange={e => setComments({ ...comments, [claim.id]: e.target.value })}
+                      />
+                      <div className="flex space-x-2">
+                        <button
+                          onClick={() => handleReview(claim.id, 'approve')}
+                          className="inline-flex items-center rounded-md bg-green-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-green-700"
+                        >
+                          <CheckIcon className="-ml-1 mr-1 h-4 w-4" /> Approve
+                        </button>
+                        <button
+                          onClick={() => handleReview(claim.id, 'reject')}
+                          className="inline-flex items-center rounded-md bg-red-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-red-700"
+                        >
+                          <XMarkIcon className="-ml-1 mr-1 h-4 w-4" /> Reject
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
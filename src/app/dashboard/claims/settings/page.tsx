@@ -0,0 +1,275 @@
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { useEffect, useState } from 'react'
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline'
+
+interface ClaimRate {
+  id: string
+  rank: string
+  programmeLevel: string
+  hourlyRate: number
+  currency: string
+}
+
+interface ClaimPeriod {
+  id: string
+  name: string
+  startDate: string
+  endDate: string
+  submissionDeadline: string | null
+  status: string
+  _count: { claims: number }
+}
+
+const inputClass = 'block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500'
+
+const emptyRateForm = { rank: '*', programmeLevel: '*', hourlyRate: '', currency: 'GHS' }
+const emptyPeriodForm = { name: '', startDate: '', endDate: '', submissionDeadline: '' }
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' })
+}
+
+function describeMatch(value: string) {
+  return value === '*' ? 'Any' : value
+}
+
+export default function ClaimSettingsPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [rates, setRates] = useState<ClaimRate[]>([])
+  const [periods, setPeriods] = useState<ClaimPeriod[]>([])
+  const [rateForm, setRateForm] = useState(emptyRateForm)
+  const [periodForm, setPeriodForm] = useState(emptyPeriodForm)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (status === 'loading') return
+
+    if (!session) {
+      router.push('/auth/signin')
+      return
+    }
+
+    if (session.user.role !== 'ADMIN') {
+      router.push('/dashboard/claims')
+      return
+    }
+
+    fetchData()
+  }, [session, status, router])
+
+  const fetchData = async () => {
+    try {
+      const [ratesResponse, periodsResponse] = await Promise.all([
+        fetch('/api/claims/rates'),
+        fetch('/api/claims/periods')
+      ])
+
+      if (ratesResponse.ok) {
+        setRates(await ratesResponse.json())
+      }
+      if (periodsResponse.ok) {
+        setPeriods(await periodsResponse.json())
+      }
+    } catch (error) {
+      console.error('Error fetching claim settings:', error)
+      setError('An error occurred while fetching claim settings')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const request = async (url: string, init: RequestInit, fallbackError: string) => {
+    setError(null)
+
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' }
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || fallbackError)
+      }
+
+      await fetchData()
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+      return false
+    }
+  }
+
+  const handleSaveRate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const saved = await request('/api/claims/rates', {
+      method: 'PUT',
+      body: JSON.stringify({ ...rateForm, hourlyRate: Number(rateForm.hourlyRate) })
+    }, 'Failed to save rate')
+
+    if (saved) {
+      setRateForm(emptyRateForm)
+    }
+  }
+
+  const handleCreatePeriod = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const saved = await request('/api/claims/periods', {
+      method: 'POST',
+      body: JSON.stringify({ ...periodForm, submissionDeadline: periodForm.submissionDeadline || undefined })
+    }, 'Failed to create claim period')
+
+    if (saved) {
+      setPeriodForm(emptyPeriodForm)
+    }
+  }
+
+  if (status === 'loading' || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-indigo-500"></div>
+      </div>
+    )
+  }
+
+  if (!session) {
+    return null
+  }
+
+  return (
+    <div className="p-6">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-900">Claim Rates &amp; Periods</h1>
+        <p className="mt-2 text-sm text-gray-700">
+          Set hourly pay rates by lecturer rank and programme level, and open claim periods for submission. Use &quot;*&quot; to match any rank or level; the most specific rate wins.
+        </p>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4 mb-6">
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 gap-8 lg:grid-cols-2">
+        <section>
+          <h2 className="text-lg font-medium text-gray-900 mb-4">Hourly Rates</h2>
+          <form onSubmit={handleSaveRate} className="bg-white shadow rounded-lg p-4 mb-4 grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Rank</label>
+              <input className={inputClass} placeholder="e.g. Senior Lecturer" value={rateForm.rank} onChange={e => setRateForm({ ...rateForm, rank: e.target.value })} required />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Programme level</label>
+              <input className={inputClass} placeholder="e.g. MBA" value={rateForm.programmeLevel} onChange={e => setRateForm({ ...rateForm, programmeLevel: e.target.value })} required />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Hourly rate</label>
+              <input type="number" min="0" step="0.01" className={inputClass} value={rateForm.hourlyRate} onChange={e => setRateForm({ ...rateForm, hourlyRate: e.target.value })} required />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Currency</label>
+              <input className={inputClass} maxLength={3} value={rateForm.currency} onChange={e => setRateForm({ ...rateForm, currency: e.target.value.toUpperCase() })} required />
+            </div>
+            <div className="col-span-2">
+              <button type="submit" className="inline-flex items-center rounded-md bg-indigo-600 px-3 py-2 text-sm font-medium text-white hover:bg-indigo-700">
+                <PlusIcon className="-ml-1 mr-1 h-4 w-4" /> Save Rate
+              </button>
+            </div>
+          </form>
+
+          <div className="bg-white shadow overflow-hidden sm:rounded-md">
+            {rates.length === 0 ? (
+              <p className="px-6 py-8 text-center text-sm text-gray-500">No rates set. Lecturers cannot submit claims until a matching rate exists.</p>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {rates.map(rate => (
+                  <li key={rate.id} className="px-6 py-3 flex items-center justify-between">
+                    <div className="text-sm">
+                      <p className="font-medium text-gray-900">{describeMatch(rate.rank)} · {describeMatch(rate.programmeLevel)}</p>
+                      <p className="text-gray-500">{rate.currency} {rate.hourlyRate.toFixed(2)} per hour</p>
+                    </div>
+                    <button
+                      onClick={() => request(`/api/claims/rates?id=${rate.id}`, { method: 'DELETE' }, 'Failed to delete rate')}
+                      className="text-red-600 hover:text-red-800"
+                      title="Delete rate"
+                    >
+                      <TrashIcon className="h-5 w-5" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </section>
+
+        <section>
+          <h2 className="text-lg font-medium text-gray-900 mb-4">Claim Periods</h2>
+          <form onSubmit={handleCreatePeriod} className="bg-white shadow rounded-lg p-4 mb-4 grid grid-cols-2 gap-4">
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input className={inputClass} placeholder="e.g. October 2026" value={periodForm.name} onChange={e => setPeriodForm({ ...periodForm, name: e.target.value })} required />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Start date</label>
+              <input type="date" className={inputClass} value={periodForm.startDate} onChange={e => setPeriodForm({ ...periodForm, startDate: e.target.value })} required />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">End date</label>
+              <input type="date" className={inputClass} value={periodForm.endDate} onChange={e => setPeriodForm({ ...periodForm, endDate: e.target.value })} required />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Submission deadline</label>
+              <input type="date" className={inputClass} value={periodForm.submissionDeadline} onChange={e => setPeriodForm({ ...periodForm, submissionDeadline: e.target.value })} />
+            </div>
+            <div className="col-span-2">
+              <button type="submit" className="inline-flex items-center rounded-md bg-indigo-600 px-3 py-2 text-sm font-medium text-white hover:bg-indigo-700">
+                <PlusIcon className="-ml-1 mr-1 h-4 w-4" /> Open Period
+              </button>
+            </div>
+          </form>
+
+          <div className="bg-white shadow overflow-hidden sm:rounded-md">
+            {periods.length === 0 ? (
+              <p className="px-6 py-8 text-center text-sm text-gray-500">No claim periods yet.</p>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {periods.map(period => (
+                  <li key={period.id} className="px-6 py-3 flex items-center justify-between">
+                    <div className="text-sm">
+                      <p className="font-medium text-gray-900">
+                        {period.name}
+                        <span className={`ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${period.status === 'open' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}`}>
+                          {period.status}
+                        </span>
+                      </p>
+                      <p className="text-gray-500">
+                        {formatDate(period.startDate)} - {formatDate(period.endDate)}
+                        {period.submissionDeadline && ` · deadline ${formatDate(period.submissionDeadline)}`}
+                        {` · ${period._count.claims} claims`}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => request(`/api/claims/periods/${period.id}`, {
+                        method: 'PATCH',
+                        body: JSON.stringify({ status: period.status === 'open' ? 'closed' : 'open' })
+                      }, 'Failed to update claim period')}
+                      className="inline-flex items-center rounded-md border border-gray-300 bg-white px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                    >
+                      {period.status === 'open' ? 'Close' : 'Reopen'}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </section>
+      </div>
+    </div>
+  )
+}
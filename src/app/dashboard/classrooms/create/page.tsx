@@ -15,6 +15,7 @@ interface FormData {
   roomCode: string
   name: string
   buildingId: string
+  floor: number
   capacity: number
   roomType: string
   equipmentList: string
@@ -35,6 +36,7 @@ export default function CreateClassroomPage() {
     roomCode: '',
     name: '',
     buildingId: '',
+    floor: 0,
     capacity: 30,
     roomType: 'Lecture Hall',
     equipmentList: '',
@@ -206,7 +208,23 @@ export default function CreateClassroomPage() {
             </select>
           </div>
 
-          <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+          <div className="grid grid-cols-1 gap-6 sm:grid-cols-3">
+            <div>
+              <label htmlFor="floor" className="block text-sm font-medium text-gray-700 mb-1">
+                Floor
+              </label>
+              <input
+                type="number"
+                id="floor"
+                name="floor"
+                value={formData.floor}
+                onChange={handleChange}
+                min="0"
+                className="block w-full border border-gray-300 rounded-md px-3 py-2 text-sm sm:text-base focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              />
+              <p className="mt-1 text-xs text-gray-500">0 for the ground floor</p>
+            </div>
+
             <div>
               <label htmlFor="capacity" className="block text-sm font-medium text-gray-700 mb-1">
                 Capacity
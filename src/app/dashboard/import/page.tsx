@@ -4,6 +4,7 @@ import { useSession } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
 import { useEffect, useState } from 'react'
 import { useDropzone } from 'react-dropzone'
+import Link from 'next/link'
 
 interface ImportResult {
   success: boolean
@@ -193,6 +194,14 @@ export default function ImportPage() {
             <p className="text-sm text-gray-600">
               {tabs.find(t => t.id === activeTab)?.description}
             </p>
+            {activeTab === 'schedules' && (
+              <p className="mt-2 text-sm text-gray-600">
+                Have an iCalendar file or another timetabling system&apos;s export?{' '}
+                <Link href="/dashboard/import/timetable" className="text-indigo-600 font-medium hover:text-indigo-500">
+                  Import and review it here
+                </Link>
+              </p>
+            )}
           </div>
 
           {/* File Upload */}
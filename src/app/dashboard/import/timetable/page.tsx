@@ -0,0 +1,353 @@
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useDropzone } from 'react-dropzone'
+import { ArrowUpTrayIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline'
+import type { ImportEntity, ImportPreviewRow } from '@/lib/timetable-import'
+
+interface Option {
+  id: string
+  label: string
+}
+
+interface ImportResult {
+  success: boolean
+  message: string
+  imported: number
+  errors: string[]
+  warnings: string[]
+}
+
+type Selection = Record<ImportEntity, string> & { include: boolean; edited: boolean }
+
+const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+// Same threshold as CONFIDENT_MATCH_SCORE in lib/timetable-import
+const CONFIDENT_MATCH_SCORE = 0.85
+
+const ENTITY_LABELS: Record<ImportEntity, string> = {
+  course: 'Course',
+  classGroup: 'Class group',
+  lecturer: 'Lecturer',
+  classroom: 'Room'
+}
+
+const SOURCE_FIELDS: Record<ImportEntity, keyof ImportPreviewRow> = {
+  course: 'course',
+  classGroup: 'classGroup',
+  lecturer: 'lecturer',
+  classroom: 'classroom'
+}
+
+const inputClass = 'block w-full border rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500'
+
+export default function TimetableImportPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [selectedFile, setSelectedFile] = useState<File | null>(null)
+  const [rows, setRows] = useState<ImportPreviewRow[]>([])
+  const [options, setOptions] = useState<Record<ImportEntity, Option[]> | null>(null)
+  const [selections, setSelections] = useState<Selection[]>([])
+  const [parseErrors, setParseErrors] = useState<string[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [importResult, setImportResult] = useState<ImportResult | null>(null)
+
+  useEffect(() => {
+    if (status === 'loading') return
+
+    if (!session || session.user.role !== 'ADMIN') {
+      router.push('/dashboard')
+    }
+  }, [session, status, router])
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop: (acceptedFiles: File[]) => {
+      if (acceptedFiles.length > 0) {
+        setSelectedFile(acceptedFiles[0])
+        setRows([])
+        setImportResult(null)
+      }
+    },
+    accept: {
+      'text/calendar': ['.ics'],
+      'text/csv': ['.csv'],
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+      'application/vnd.ms-excel': ['.xls']
+    },
+    multiple: false
+  })
+
+  const handlePreview = async () => {
+    if (!selectedFile) return
+
+    setLoading(true)
+    setError(null)
+    setImportResult(null)
+
+    const formData = new FormData()
+    formData.append('file', selectedFile)
+
+    try {
+      const response = await fetch('/api/import/timetable/preview', { method: 'POST', body: formData })
+      const data = await response.json()
+
+      if (response.ok) {
+        setRows(data.rows)
+        setOptions(data.options)
+        setParseErrors(data.errors)
+        setSelections(data.rows.map((row: ImportPreviewRow) => ({
+          course: row.matches.course?.id ?? '',
+          classGroup: row.matches.classGroup?.id ?? '',
+          lecturer: row.matches.lecturer?.id ?? '',
+          classroom: row.matches.classroom?.id ?? '',
+          include: Boolean(row.matches.course && row.matches.classGroup && row.matches.lecturer && !row.issue),
+          edited: false
+        })))
+      } else {
+        setError(data.error || 'Failed to read the file')
+        setParseErrors(data.details ?? [])
+      }
+    } catch (error) {
+      console.error('Error previewing timetable import:', error)
+      setError('Failed to read the file')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const updateSelection = (index: number, changes: Partial<Selection>) => {
+    setSelections(prev => prev.map((selection, i) => {
+      if (i !== index) return selection
+      const next = { ...selection, ...changes, edited: selection.edited || !('include' in changes) }
+      // Only rows with a course, class group and lecturer can be imported
+      return { ...next, include: next.include && Boolean(next.course && next.classGroup && next.lecturer) }
+    }))
+  }
+
+  const handleImport = async () => {
+    const chosen = rows
+      .map((row, index) => ({ row, selection: selections[index] }))
+      .filter(({ selection }) => selection.include)
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/import/timetable', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          rows: chosen.map(({ row, selection }) => ({
+            row: row.row,
+            courseId: selection.course,
+            classGroupId: selection.classGroup,
+            lecturerId: selection.lecturer,
+            classroomId: selection.classroom || null,
+            dayOfWeek: row.dayOfWeek,
+            startTime: row.startTime,
+            endTime: row.endTime,
+            sessionType: row.sessionType,
+            meetingLink: row.meetingLink
+          }))
+        })
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        setImportResult(data)
+        setRows([])
+        setSelectedFile(null)
+      } else {
+        setError(data.details?.[0]?.message || data.error || 'Failed to import the timetable')
+      }
+    } catch (error) {
+      console.error('Error importing timetable:', error)
+      setError('Failed to import the timetable')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-indigo-500"></div>
+      </div>
+    )
+  }
+
+  if (!session || session.user.role !== 'ADMIN') {
+    return null
+  }
+
+  const includedCount = selections.filter(selection => selection.include).length
+
+  const matchClass = (row: ImportPreviewRow, index: number, entity: ImportEntity) => {
+    const match = row.matches[entity]
+    if (selections[index].edited || !row[SOURCE_FIELDS[entity]]) return 'border-gray-300'
+    if (!match) return 'border-red-400 bg-red-50'
+    return match.score < CONFIDENT_MATCH_SCORE ? 'border-amber-400 bg-amber-50' : 'border-gray-300'
+  }
+
+  return (
+    <div>
+      <div className="mb-8">
+        <Link href="/dashboard/import" className="text-sm text-indigo-600 hover:text-indigo-500">
+          &larr; Bulk Data Import
+        </Link>
+        <h1 className="mt-2 text-3xl font-bold text-gray-900">Import Timetable</h1>
+        <p className="mt-2 text-gray-600">
+          Bring in classes from an iCalendar (.ics) file or a timetabling system&apos;s CSV or Excel export. Courses,
+          class groups, lecturers and rooms are matched by name for you to check before anything is saved.
+        </p>
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-6 mb-6">
+        <div
+          {...getRootProps()}
+          className={`border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition-colors ${
+            isDragActive ? 'border-indigo-500 bg-indigo-50' : 'border-gray-300 hover:border-gray-400'
+          }`}
+        >
+          <input {...getInputProps()} />
+          <ArrowUpTrayIcon className="mx-auto h-10 w-10 text-gray-400" />
+          <div className="mt-2 text-sm text-gray-600">
+            {selectedFile ? (
+              <p className="font-medium text-gray-900">{selectedFile.name}</p>
+            ) : (
+              <>
+                <p>Drop your file here, or <span className="text-indigo-600 font-medium">browse</span></p>
+                <p className="text-xs">
+                  ICS, CSV, XLS or XLSX. Spreadsheets need course, day or date, and start and end time columns; class
+                  group, lecturer, room and type columns are used when present.
+                </p>
+              </>
+            )}
+          </div>
+        </div>
+        <div className="mt-4 flex justify-end">
+          <button
+            onClick={handlePreview}
+            disabled={!selectedFile || loading}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loading && rows.length === 0 ? 'Reading...' : 'Review Classes'}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4 mb-6">
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+
+      {parseErrors.length > 0 && (
+        <div className="rounded-md bg-yellow-50 border border-yellow-200 p-4 mb-6">
+          <h4 className="text-sm font-medium text-yellow-800">Skipped while reading the file:</h4>
+          <ul className="mt-1 text-sm text-yellow-700 list-disc list-inside">
+            {parseErrors.map((message, index) => (
+              <li key={index}>{message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {importResult && (
+        <div className={`p-4 mb-6 rounded-md ${importResult.success ? 'bg-green-50 border border-green-200' : 'bg-red-50 border border-red-200'}`}>
+          <h3 className={`text-sm font-medium ${importResult.success ? 'text-green-800' : 'text-red-800'}`}>
+            {importResult.message}
+          </h3>
+          <p className="mt-1 text-sm text-gray-700">
+            {importResult.imported} classes added to the timetable.{' '}
+            <Link href="/dashboard/schedules/audit" className="text-indigo-600 hover:text-indigo-500">Audit the timetable</Link>
+          </p>
+          {[...importResult.errors, ...importResult.warnings].length > 0 && (
+            <ul className="mt-2 text-sm text-red-700 list-disc list-inside">
+              {[...importResult.errors, ...importResult.warnings].map((message, index) => (
+                <li key={index}>{message}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {rows.length > 0 && options && (
+        <div className="bg-white shadow rounded-lg">
+          <div className="flex flex-wrap items-center justify-between gap-4 px-6 py-4 border-b border-gray-200">
+            <p className="text-sm text-gray-600">
+              {rows.length} weekly classes found. Amber matches are uncertain and red ones were not found; check them
+              before importing.
+            </p>
+            <button
+              onClick={handleImport}
+              disabled={includedCount === 0 || loading}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? 'Importing...' : `Import ${includedCount} Classes`}
+            </button>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2"></th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">When</th>
+                  {(Object.keys(ENTITY_LABELS) as ImportEntity[]).map(entity => (
+                    <th key={entity} className="px-3 py-2 text-left font-medium text-gray-500">{ENTITY_LABELS[entity]}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {rows.map((row, index) => (
+                  <tr key={index} className={selections[index].include ? '' : 'bg-gray-50 text-gray-500'}>
+                    <td className="px-3 py-2 align-top">
+                      <input
+                        type="checkbox"
+                        checked={selections[index].include}
+                        onChange={e => updateSelection(index, { include: e.target.checked })}
+                        className="h-4 w-4 text-indigo-600 border-gray-300 rounded"
+                      />
+                    </td>
+                    <td className="px-3 py-2 align-top whitespace-nowrap">
+                      <div className="font-medium text-gray-900">{DAYS[row.dayOfWeek]}</div>
+                      <div>{row.startTime}-{row.endTime}</div>
+                      <div className="text-xs text-gray-500">{row.sessionType.toLowerCase()}</div>
+                      {row.issue && !selections[index].edited && (
+                        <div className="mt-1 flex items-start text-xs text-red-600">
+                          <ExclamationTriangleIcon className="mr-1 h-4 w-4 flex-shrink-0" />
+                          {row.issue}
+                        </div>
+                      )}
+                    </td>
+                    {(Object.keys(ENTITY_LABELS) as ImportEntity[]).map(entity => (
+                      <td key={entity} className="px-3 py-2 align-top min-w-[12rem]">
+                        <div className="mb-1 text-xs text-gray-500 truncate" title={String(row[SOURCE_FIELDS[entity]] ?? '')}>
+                          {String(row[SOURCE_FIELDS[entity]] ?? '—')}
+                        </div>
+                        <select
+                          className={`${inputClass} ${matchClass(row, index, entity)}`}
+                          value={selections[index][entity]}
+                          onChange={e => updateSelection(index, { [entity]: e.target.value })}
+                        >
+                          <option value="">{entity === 'classroom' ? 'No room' : `Choose ${ENTITY_LABELS[entity].toLowerCase()}`}</option>
+                          {options[entity].map(option => (
+                            <option key={option.id} value={option.id}>{option.label}</option>
+                          ))}
+                        </select>
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
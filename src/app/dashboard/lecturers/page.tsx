@@ -193,7 +193,7 @@ export default function LecturersPage() {
       window.location.href = '/dashboard'
     } catch (err) {
       console.error('Impersonation failed:', err)
-      alert('Failed to switch user. Please try again.')
+      alert(err instanceof Error && err.message ? err.message : 'Failed to switch user. Please try again.')
     }
   }
 
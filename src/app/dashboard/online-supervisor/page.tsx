@@ -3,6 +3,8 @@
 import { useState, useEffect } from 'react'
 import { useSession } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
+import OnlineLiveConsole, { ISSUE_LABELS } from '@/components/dashboard/OnlineLiveConsole'
+import type { IssueCategory, LiveClass } from '@/lib/online-monitoring'
 
 interface OnlineSchedule {
   id: string
@@ -35,13 +37,16 @@ export default function OnlineSupervisorDashboard() {
   
   // Monitoring State
   const [monitoringId, setMonitoringId] = useState<string | null>(null)
+  const [monitoringSessionId, setMonitoringSessionId] = useState<string | null>(null)
   const [monitorStatus, setMonitorStatus] = useState('ongoing')
   const [comments, setComments] = useState('')
   const [platform, setPlatform] = useState('')
   const [connectionQuality, setConnectionQuality] = useState('Good')
   const [studentCount, setStudentCount] = useState('')
   const [technicalIssues, setTechnicalIssues] = useState('')
+  const [issueCategories, setIssueCategories] = useState<IssueCategory[]>([])
   const [submitting, setSubmitting] = useState(false)
+  const [consoleRefreshKey, setConsoleRefreshKey] = useState(0)
 
   useEffect(() => {
     if (status === 'unauthenticated') {
@@ -69,24 +74,37 @@ export default function OnlineSupervisorDashboard() {
     }
   }
 
-  const openMonitoring = (schedule: OnlineSchedule) => {
-    setMonitoringId(schedule.id)
+  const openMonitoring = (scheduleId: string, meetingLink: string | null, classSessionId: string | null = null) => {
+    setMonitoringId(scheduleId)
+    setMonitoringSessionId(classSessionId)
     setComments('')
     setMonitorStatus('ongoing')
     setConnectionQuality('Good')
     setStudentCount('')
     setTechnicalIssues('')
+    setIssueCategories([])
     
     // Auto-detect platform
-    const link = (schedule.meetingLink || '').toLowerCase()
+    const link = (meetingLink || '').toLowerCase()
     if (link.includes('zoom')) setPlatform('Zoom')
     else if (link.includes('meet.google')) setPlatform('Google Meet')
     else if (link.includes('teams')) setPlatform('Microsoft Teams')
     else setPlatform('Other')
   }
 
+  const reportLiveClass = (liveClass: LiveClass) => {
+    openMonitoring(liveClass.scheduleId, liveClass.meetingLink, liveClass.isMakeUp ? liveClass.classSessionId : null)
+  }
+
+  const toggleIssueCategory = (category: IssueCategory) => {
+    setIssueCategories(current =>
+      current.includes(category) ? current.filter(item => item !== category) : [...current, category]
+    )
+  }
+
   const closeMonitoring = () => {
     setMonitoringId(null)
+    setMonitoringSessionId(null)
   }
 
   const submitMonitoring = async (e: React.FormEvent) => {
@@ -102,11 +120,13 @@ export default function OnlineSupervisorDashboard() {
         },
         body: JSON.stringify({
           scheduleId: monitoringId,
+          classSessionId: monitoringSessionId,
           status: monitorStatus,
           comments,
           platform,
           connectionQuality,
-          studentCountOnline: studentCount,
+          studentCountOnline: studentCount ? parseInt(studentCount) : null,
+          issueCategories,
           technicalIssues
         }),
       })
@@ -114,6 +134,7 @@ export default function OnlineSupervisorDashboard() {
       if (response.ok) {
         closeMonitoring()
         fetchSchedules()
+        setConsoleRefreshKey(key => key + 1)
       } else {
         alert('Failed to submit monitoring report')
       }
@@ -131,12 +152,14 @@ export default function OnlineSupervisorDashboard() {
 
   return (
     <div className="space-y-6">
+      <OnlineLiveConsole onReport={reportLiveClass} onChecked={fetchSchedules} refreshKey={consoleRefreshKey} />
+
       <div className="bg-white shadow px-4 py-5 sm:rounded-lg sm:p-6">
         <div className="md:grid md:grid-cols-3 md:gap-6">
           <div className="md:col-span-1">
-            <h3 className="text-lg font-medium leading-6 text-gray-900">Online Monitoring Dashboard</h3>
+            <h3 className="text-lg font-medium leading-6 text-gray-900">Today&apos;s Online Classes</h3>
             <p className="mt-1 text-sm text-gray-500">
-              Monitor ongoing virtual and hybrid classes.
+              Every virtual and hybrid class scheduled today.
               Join sessions directly to verify attendance and technical quality.
             </p>
           </div>
@@ -227,7 +250,7 @@ export default function OnlineSupervisorDashboard() {
                                 )}
                                 {!schedule.verified && (
                                   <button
-                                    onClick={() => openMonitoring(schedule)}
+                                    onClick={() => openMonitoring(schedule.id, schedule.meetingLink)}
                                     className="text-purple-600 hover:text-purple-900"
                                   >
                                     Report
@@ -325,6 +348,23 @@ export default function OnlineSupervisorDashboard() {
                           />
                         </div>
 
+                        <div>
+                          <span className="block text-sm font-medium text-gray-700">Issues</span>
+                          <div className="mt-2 grid grid-cols-2 gap-2">
+                            {(Object.keys(ISSUE_LABELS) as IssueCategory[]).map(category => (
+                              <label key={category} className="flex items-center text-sm text-gray-700">
+                                <input
+                                  type="checkbox"
+                                  checked={issueCategories.includes(category)}
+                                  onChange={() => toggleIssueCategory(category)}
+                                  className="mr-2 h-4 w-4 text-purple-600 border-gray-300 rounded"
+                                />
+                                {ISSUE_LABELS[category]}
+                              </label>
+                            ))}
+                          </div>
+                        </div>
+
                          <div>
                           <label className="block text-sm font-medium text-gray-700">Technical Issues Detail</label>
                           <textarea
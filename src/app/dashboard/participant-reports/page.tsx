@@ -0,0 +1,307 @@
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { useEffect, useState } from 'react'
+import { ArrowUpTrayIcon } from '@heroicons/react/24/outline'
+
+interface ParticipantReport {
+  id: string
+  platform: string
+  source: string
+  meetingId: string | null
+  status: string
+  meetingStart: string | null
+  participantCount: number
+  hostJoinTime: string | null
+  hostLeaveTime: string | null
+  engagementScore: number | null
+  fileName: string | null
+  attendanceRecordId: string | null
+  course: string | null
+  classGroup: string | null
+  createdAt: string
+}
+
+interface ScheduleOption {
+  id: string
+  dayOfWeek: number
+  startTime: string
+  endTime: string
+  resolvedMeetingLink: string | null
+  course: {
+    code: string
+  }
+  classGroup: {
+    name: string
+  }
+}
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+const PLATFORM_LABELS: Record<string, string> = {
+  zoom: 'Zoom',
+  teams: 'Microsoft Teams',
+  meet: 'Google Meet'
+}
+
+const inputClass = 'block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500'
+
+const emptyForm = { platform: 'zoom', meetingId: '', scheduleId: '', meetingDate: '' }
+
+function formatTime(value: string | null) {
+  return value ? new Date(value).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit', timeZone: 'UTC' }) : '—'
+}
+
+export default function ParticipantReportsPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [reports, setReports] = useState<ParticipantReport[]>([])
+  const [schedules, setSchedules] = useState<ScheduleOption[]>([])
+  const [form, setForm] = useState(emptyForm)
+  const [file, setFile] = useState<File | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [uploading, setUploading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const isLecturer = session?.user.role === 'LECTURER'
+
+  useEffect(() => {
+    if (status === 'loading') return
+
+    if (!session) {
+      router.push('/auth/signin')
+      return
+    }
+
+    if (!['ADMIN', 'COORDINATOR', 'ONLINE_SUPERVISOR', 'LECTURER'].includes(session.user.role)) {
+      router.push('/dashboard')
+      return
+    }
+
+    fetchReports()
+    if (session.user.role !== 'ONLINE_SUPERVISOR') {
+      fetchSchedules()
+    }
+  }, [session, status, router])
+
+  const fetchReports = async () => {
+    try {
+      const response = await fetch('/api/participant-reports')
+      if (response.ok) {
+        setReports(await response.json())
+      } else {
+        const errorData = await response.json()
+        setError(errorData.error || 'Failed to fetch participant reports')
+      }
+    } catch (error) {
+      console.error('Error fetching participant reports:', error)
+      setError('An error occurred while fetching participant reports')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchSchedules = async () => {
+    try {
+      const response = await fetch('/api/schedules')
+      if (response.ok) {
+        const data: ScheduleOption[] = await response.json()
+        setSchedules(data.filter(schedule => schedule.resolvedMeetingLink))
+      }
+    } catch (error) {
+      console.error('Error fetching schedules:', error)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!file) return
+
+    setUploading(true)
+    setError(null)
+    setMessage(null)
+
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+      formData.append('platform', form.platform)
+      if (form.meetingId) formData.append('meetingId', form.meetingId)
+      if (form.scheduleId) formData.append('scheduleId', form.scheduleId)
+      if (form.meetingDate) formData.append('meetingDate', form.meetingDate)
+
+      const response = await fetch('/api/participant-reports', {
+        method: 'POST',
+        body: formData
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to upload participant report')
+      }
+
+      setMessage(data.message)
+      setForm(emptyForm)
+      setFile(null)
+      await fetchReports()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  if (status === 'loading' || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-indigo-500"></div>
+      </div>
+    )
+  }
+
+  if (!session) {
+    return null
+  }
+
+  return (
+    <div className="p-6">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-900">Meeting Participant Reports</h1>
+        <p className="mt-2 text-sm text-gray-700">
+          Upload the participant or attendance report exported from Zoom, Teams or Google Meet after a virtual class.
+          It is matched to the class by meeting ID and date, and the lecturer&apos;s join and leave times, the number of
+          students and their engagement are filled in from it. Students&apos; names are not stored.
+        </p>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4 mb-6">
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+      {message && (
+        <div className="rounded-md bg-green-50 p-4 mb-6">
+          <div className="text-sm text-green-700">{message}</div>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="bg-white shadow rounded-lg p-4 mb-8 grid grid-cols-1 gap-4 md:grid-cols-2">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Platform</label>
+          <select className={inputClass} value={form.platform} onChange={e => setForm({ ...form, platform: e.target.value })}>
+            {Object.entries(PLATFORM_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Report file (CSV or Excel)</label>
+          <input
+            type="file"
+            accept=".csv,.tsv,.txt,.xls,.xlsx"
+            className={inputClass}
+            onChange={e => setFile(e.target.files?.[0] ?? null)}
+            required
+          />
+        </div>
+        {schedules.length > 0 && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Class {isLecturer ? '' : '(optional, if the report has no meeting ID)'}
+            </label>
+            <select className={inputClass} value={form.scheduleId} onChange={e => setForm({ ...form, scheduleId: e.target.value })} required={isLecturer}>
+              <option value="">{isLecturer ? 'Select class' : 'Match by meeting ID'}</option>
+              {schedules.map(schedule => (
+                <option key={schedule.id} value={schedule.id}>
+                  {schedule.course.code} - {schedule.classGroup.name} ({DAY_NAMES[schedule.dayOfWeek]} {schedule.startTime}-{schedule.endTime})
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Meeting ID (optional)</label>
+          <input
+            className={inputClass}
+            value={form.meetingId}
+            onChange={e => setForm({ ...form, meetingId: e.target.value })}
+            placeholder="e.g. 812 3456 7890 or abc-defg-hij"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Class date (Google Meet reports only list times)</label>
+          <input
+            type="date"
+            className={inputClass}
+            value={form.meetingDate}
+            onChange={e => setForm({ ...form, meetingDate: e.target.value })}
+          />
+        </div>
+        <div className="md:col-span-2 flex justify-end">
+          <button
+            type="submit"
+            disabled={uploading || !file}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+          >
+            <ArrowUpTrayIcon className="h-4 w-4 mr-2" />
+            {uploading ? 'Uploading...' : 'Upload Report'}
+          </button>
+        </div>
+      </form>
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        {reports.length === 0 ? (
+          <div className="p-6 text-center text-sm text-gray-500">No participant reports have been received yet.</div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Received</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Class</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Platform</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Host Joined / Left</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Participants</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Engagement</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {reports.map(report => (
+                <tr key={report.id}>
+                  <td className="px-4 py-3 text-sm text-gray-900">
+                    {new Date(report.createdAt).toLocaleString()}
+                    <div className="text-xs text-gray-500">{report.source === 'webhook' ? 'Webhook' : report.fileName}</div>
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-900">
+                    {report.course ?? <span className="text-gray-400">Unknown meeting {report.meetingId}</span>}
+                    {report.classGroup && <div className="text-xs text-gray-500">{report.classGroup}</div>}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-900">{PLATFORM_LABELS[report.platform] ?? report.platform}</td>
+                  <td className="px-4 py-3 text-sm text-gray-900">
+                    {formatTime(report.hostJoinTime)} – {formatTime(report.hostLeaveTime)}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-900">{report.participantCount}</td>
+                  <td className="px-4 py-3 text-sm text-gray-900">
+                    {report.engagementScore !== null ? `${report.engagementScore}%` : '—'}
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                      report.status === 'matched'
+                        ? report.attendanceRecordId ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
+                        : 'bg-red-100 text-red-800'
+                    }`}>
+                      {report.status === 'matched'
+                        ? report.attendanceRecordId ? 'Attendance updated' : 'No attendance record'
+                        : 'Unmatched'}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -7,6 +7,8 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Alert, AlertDescription } from '@/components/ui/alert'
+import CalendarSubscriptions from '@/components/profile/CalendarSubscriptions'
+import TwoFactorSettings from '@/components/profile/TwoFactorSettings'
 
 import { Eye, EyeOff, User, Lock, CheckCircle, AlertCircle } from 'lucide-react'
 
@@ -315,6 +317,14 @@ export default function ProfilePage() {
         </Card>
       </div>
 
+      <div className="mt-6">
+        <TwoFactorSettings />
+      </div>
+
+      <div className="mt-6">
+        <CalendarSubscriptions />
+      </div>
+
       <hr className="my-8 border-gray-200" />
 
       {/* Account Information */}
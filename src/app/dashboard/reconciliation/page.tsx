@@ -0,0 +1,339 @@
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { useEffect, useState } from 'react'
+import { ArrowPathIcon, ArrowsRightLeftIcon, CheckIcon, ExclamationTriangleIcon, XMarkIcon } from '@heroicons/react/24/outline'
+import type { ReconciliationVerdict, SignalContradiction, SessionSignal } from '@/lib/session-reconciliation'
+
+interface Reconciliation {
+  id: string
+  verdict: ReconciliationVerdict
+  confidence: number
+  lecturerSignal: SessionSignal | null
+  supervisorSignal: SessionSignal | null
+  classRepSignal: SessionSignal | null
+  contradictions: SignalContradiction[]
+  reviewStatus: string
+  resolvedVerdict: ReconciliationVerdict | null
+  reviewComment: string | null
+  reviewedAt: string | null
+  reconciledAt: string
+  classSession: {
+    id: string
+    date: string
+    startTime: string
+    endTime: string
+    status: string
+    course: { courseCode: string; title: string }
+    classGroup: { name: string }
+    lecturer: { firstName: string; lastName: string }
+  }
+  attendanceRecord: {
+    timestamp: string
+    method: string
+    supervisorComment: string | null
+    classRepComment: string | null
+  } | null
+  supervisorLog: {
+    status: string
+    comments: string | null
+    checkInTime: string
+    supervisor: { firstName: string; lastName: string }
+  } | null
+}
+
+const VERDICT_LABELS: Record<ReconciliationVerdict, string> = {
+  held: 'Held',
+  not_held: 'Not held',
+  undetermined: 'Undetermined'
+}
+
+const VERDICT_COLORS: Record<ReconciliationVerdict, string> = {
+  held: 'bg-green-100 text-green-800',
+  not_held: 'bg-red-100 text-red-800',
+  undetermined: 'bg-gray-100 text-gray-800'
+}
+
+const SIGNAL_COLORS: Record<SessionSignal, string> = {
+  present: 'text-green-700',
+  absent: 'text-red-700'
+}
+
+const REVIEW_FILTERS = [
+  { value: 'pending', label: 'Awaiting review' },
+  { value: 'resolved', label: 'Resolved' },
+  { value: 'none', label: 'Consistent' },
+  { value: 'all', label: 'All sessions' }
+]
+
+const inputClass = 'block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500'
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' })
+}
+
+function SignalBadge({ label, signal }: { label: string; signal: SessionSignal | null }) {
+  return (
+    <div className="text-sm">
+      <span className="text-gray-500">{label}: </span>
+      <span className={signal ? SIGNAL_COLORS[signal] : 'text-gray-400'}>{signal ?? 'no account'}</span>
+    </div>
+  )
+}
+
+export default function ReconciliationPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [reconciliations, setReconciliations] = useState<Reconciliation[]>([])
+  const [reviewFilter, setReviewFilter] = useState('pending')
+  const [comments, setComments] = useState<Record<string, string>>({})
+  const [rangeStart, setRangeStart] = useState('')
+  const [rangeEnd, setRangeEnd] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const isAdmin = session?.user.role === 'ADMIN'
+
+  useEffect(() => {
+    if (status === 'loading') return
+
+    if (!session) {
+      router.push('/auth/signin')
+      return
+    }
+
+    if (!['ADMIN', 'COORDINATOR'].includes(session.user.role)) {
+      router.push('/dashboard')
+    }
+  }, [session, status, router])
+
+  useEffect(() => {
+    if (!session) return
+    fetchReconciliations()
+  }, [session, reviewFilter])
+
+  const fetchReconciliations = async () => {
+    try {
+      const response = await fetch(`/api/reconciliations?reviewStatus=${reviewFilter}`)
+      if (response.ok) {
+        setReconciliations(await response.json())
+      } else {
+        const errorData = await response.json()
+        setError(errorData.error || 'Failed to fetch sessions')
+      }
+    } catch (error) {
+      console.error('Error fetching session reconciliations:', error)
+      setError('An error occurred while fetching sessions')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleResolve = async (id: string, verdict: 'held' | 'not_held') => {
+    setError(null)
+    setMessage(null)
+
+    try {
+      const response = await fetch(`/api/reconciliations/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ verdict, comment: comments[id] })
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to resolve session')
+      }
+
+      await fetchReconciliations()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  const handleReconcile = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/reconciliations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ startDate: rangeStart, endDate: rangeEnd })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to reconcile sessions')
+      }
+
+      setMessage(`Reconciled ${data.reconciled} session${data.reconciled === 1 ? '' : 's'}.`)
+      await fetchReconciliations()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  if (status === 'loading' || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-indigo-500"></div>
+      </div>
+    )
+  }
+
+  if (!session) {
+    return null
+  }
+
+  return (
+    <div className="p-6">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-900">Session Reconciliation</h1>
+        <p className="mt-2 text-sm text-gray-700">
+          Each session&apos;s verdict weighs the lecturer&apos;s check-in, the supervisor&apos;s log and the class
+          rep&apos;s verification. Sessions where these accounts contradict each other wait here for your decision,
+          which becomes the session&apos;s outcome and the attendance record&apos;s verification.
+        </p>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4 mb-6">
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+      {message && (
+        <div className="rounded-md bg-green-50 p-4 mb-6">
+          <div className="text-sm text-green-700">{message}</div>
+        </div>
+      )}
+
+      <div className="bg-white shadow rounded-lg p-4 mb-8 grid grid-cols-1 gap-4 md:grid-cols-2">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Show</label>
+          <select className={inputClass} value={reviewFilter} onChange={e => setReviewFilter(e.target.value)}>
+            {REVIEW_FILTERS.map(filter => (
+              <option key={filter.value} value={filter.value}>{filter.label}</option>
+            ))}
+          </select>
+        </div>
+        {isAdmin && (
+          <form onSubmit={handleReconcile} className="flex items-end space-x-2">
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Re-run from</label>
+              <input type="date" required className={inputClass} value={rangeStart} onChange={e => setRangeStart(e.target.value)} />
+            </div>
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700 mb-1">to</label>
+              <input type="date" required className={inputClass} value={rangeEnd} onChange={e => setRangeEnd(e.target.value)} />
+            </div>
+            <button type="submit" className="inline-flex items-center rounded-md border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50">
+              <ArrowPathIcon className="-ml-1 mr-1 h-4 w-4" /> Reconcile
+            </button>
+          </form>
+        )}
+      </div>
+
+      {reconciliations.length === 0 ? (
+        <div className="bg-white shadow sm:rounded-md px-6 py-12 text-center">
+          <ArrowsRightLeftIcon className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">No sessions</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            {reviewFilter === 'pending' ? 'No sessions have conflicting accounts.' : 'There are no sessions matching this filter.'}
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white shadow overflow-hidden sm:rounded-md">
+          <ul className="divide-y divide-gray-200">
+            {reconciliations.map(reconciliation => {
+              const { classSession, attendanceRecord, supervisorLog } = reconciliation
+              const verdict = reconciliation.resolvedVerdict ?? reconciliation.verdict
+
+              return (
+                <li key={reconciliation.id} className="px-6 py-4">
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <div className="flex items-center">
+                        <p className="text-sm font-medium text-indigo-600">
+                          {classSession.course.courseCode} - {classSession.course.title} ({classSession.classGroup.name})
+                        </p>
+                        <span className={`ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${VERDICT_COLORS[verdict]}`}>
+                          {VERDICT_LABELS[verdict]}
+                        </span>
+                        {reconciliation.resolvedVerdict ? (
+                          <span className="ml-2 text-xs text-gray-500">coordinator decision</span>
+                        ) : (
+                          <span className="ml-2 text-xs text-gray-500">{Math.round(reconciliation.confidence * 100)}% confidence</span>
+                        )}
+                      </div>
+                      <p className="mt-1 text-sm text-gray-500">
+                        {classSession.lecturer.firstName} {classSession.lecturer.lastName} · {formatDate(classSession.date)} {classSession.startTime}-{classSession.endTime}
+                      </p>
+                    </div>
+                    <div className="text-right space-y-0.5">
+                      <SignalBadge label="Lecturer" signal={reconciliation.lecturerSignal} />
+                      <SignalBadge label="Supervisor" signal={reconciliation.supervisorSignal} />
+                      <SignalBadge label="Class rep" signal={reconciliation.classRepSignal} />
+                    </div>
+                  </div>
+
+                  {reconciliation.contradictions.length > 0 && (
+                    <ul className="mt-2 space-y-1">
+                      {reconciliation.contradictions.map(contradiction => (
+                        <li key={contradiction.signals.join('-')} className="flex items-start text-sm text-amber-800">
+                          <ExclamationTriangleIcon className="mr-1 mt-0.5 h-4 w-4 flex-shrink-0" /> {contradiction.detail}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+
+                  <div className="mt-2 space-y-1 text-sm text-gray-700">
+                    {attendanceRecord && (
+                      <p>Check-in: {new Date(attendanceRecord.timestamp).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' })} ({attendanceRecord.method})</p>
+                    )}
+                    {supervisorLog && (
+                      <p>
+                        Supervisor {supervisorLog.supervisor.firstName} {supervisorLog.supervisor.lastName}: {supervisorLog.status}
+                        {supervisorLog.comments && ` - ${supervisorLog.comments}`}
+                      </p>
+                    )}
+                    {attendanceRecord?.classRepComment && <p>Class rep: {attendanceRecord.classRepComment}</p>}
+                    {reconciliation.reviewComment && <p>Decision: {reconciliation.reviewComment}</p>}
+                  </div>
+
+                  {reconciliation.reviewStatus === 'pending' && (
+                    <div className="mt-3 flex items-center space-x-2">
+                      <input
+                        className={inputClass}
+                        placeholder="Reason for your decision"
+                        value={comments[reconciliation.id] || ''}
+                        onChange={e => setComments({ ...comments, [reconciliation.id]: e.target.value })}
+                      />
+                      <button
+                        onClick={() => handleResolve(reconciliation.id, 'held')}
+                        disabled={!comments[reconciliation.id]?.trim()}
+                        className="inline-flex items-center whitespace-nowrap rounded-md bg-green-600 px-3 py-2 text-sm font-medium text-white hover:bg-green-700 disabled:opacity-50"
+                      >
+                        <CheckIcon className="-ml-1 mr-1 h-4 w-4" /> Class held
+                      </button>
+                      <button
+                        onClick={() => handleResolve(reconciliation.id, 'not_held')}
+                        disabled={!comments[reconciliation.id]?.trim()}
+                        className="inline-flex items-center whitespace-nowrap rounded-md bg-red-600 px-3 py-2 text-sm font-medium text-white hover:bg-red-700 disabled:opacity-50"
+                      >
+                        <XMarkIcon className="-ml-1 mr-1 h-4 w-4" /> Not held
+                      </button>
+                    </div>
+                  )}
+                </li>
+              )
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,373 @@
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { useEffect, useState } from 'react'
+import { ArrowPathIcon, CheckIcon, XMarkIcon } from '@heroicons/react/24/outline'
+
+interface ScheduleOption {
+  id: string
+  dayOfWeek: number
+  startTime: string
+  endTime: string
+  course: {
+    code: string
+    name: string
+  }
+  classGroup: {
+    name: string
+  }
+}
+
+interface ClassroomOption {
+  id: string
+  name: string
+  building?: {
+    name: string
+  } | null
+}
+
+interface RescheduleRequest {
+  id: string
+  proposedDate: string
+  proposedStartTime: string
+  proposedEndTime: string
+  proposedClassroomId: string | null
+  reason: string
+  status: string
+  reviewComment: string | null
+  createdAt: string
+  classSession: {
+    id: string
+    date: string
+    startTime: string
+    endTime: string
+    status: string
+    courseSchedule: {
+      course: { courseCode: string; title: string }
+      classGroup: { name: string }
+    }
+  }
+  lecturer: {
+    user: { firstName: string; lastName: string }
+  }
+}
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+const STATUS_COLORS: Record<string, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  withdrawn: 'bg-gray-100 text-gray-800'
+}
+
+const inputClass = 'block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500'
+
+const emptyForm = {
+  courseScheduleId: '',
+  originalDate: '',
+  proposedDate: '',
+  proposedStartTime: '',
+  proposedEndTime: '',
+  proposedClassroomId: '',
+  reason: ''
+}
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' })
+}
+
+export default function ReschedulesPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [requests, setRequests] = useState<RescheduleRequest[]>([])
+  const [schedules, setSchedules] = useState<ScheduleOption[]>([])
+  const [classrooms, setClassrooms] = useState<ClassroomOption[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [form, setForm] = useState(emptyForm)
+  const [comments, setComments] = useState<Record<string, string>>({})
+
+  const isLecturer = session?.user.role === 'LECTURER'
+  const canReview = !!session && ['ADMIN', 'COORDINATOR'].includes(session.user.role)
+
+  useEffect(() => {
+    if (status === 'loading') return
+
+    if (!session) {
+      router.push('/auth/signin')
+      return
+    }
+
+    if (!['ADMIN', 'COORDINATOR', 'LECTURER'].includes(session.user.role)) {
+      router.push('/dashboard')
+      return
+    }
+
+    fetchRequests()
+    if (session.user.role === 'LECTURER') {
+      fetchFormOptions()
+    }
+  }, [session, status, router])
+
+  const fetchRequests = async () => {
+    try {
+      const response = await fetch('/api/reschedule-requests')
+      if (response.ok) {
+        const data = await response.json()
+        setRequests(data)
+      } else {
+        const errorData = await response.json()
+        setError(errorData.error || 'Failed to fetch reschedule requests')
+      }
+    } catch (error) {
+      console.error('Error fetching reschedule requests:', error)
+      setError('An error occurred while fetching reschedule requests')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchFormOptions = async () => {
+    try {
+      const [schedulesResponse, classroomsResponse] = await Promise.all([
+        fetch('/api/schedules'),
+        fetch('/api/classrooms')
+      ])
+
+      if (schedulesResponse.ok) {
+        setSchedules(await schedulesResponse.json())
+      }
+      if (classroomsResponse.ok) {
+        setClassrooms(await classroomsResponse.json())
+      }
+    } catch (error) {
+      console.error('Error fetching schedules and classrooms:', error)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    try {
+      const response = await fetch('/api/reschedule-requests', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...form,
+          proposedClassroomId: form.proposedClassroomId || undefined
+        })
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to submit reschedule request')
+      }
+
+      setForm(emptyForm)
+      await fetchRequests()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  const handleAction = async (id: string, action: 'approve' | 'reject' | 'withdraw') => {
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/reschedule-requests/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, comment: comments[id] || undefined })
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || `Failed to ${action} reschedule request`)
+      }
+
+      await fetchRequests()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  if (status === 'loading' || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-indigo-500"></div>
+      </div>
+    )
+  }
+
+  if (!session) {
+    return null
+  }
+
+  const selectedSchedule = schedules.find(schedule => schedule.id === form.courseScheduleId)
+
+  return (
+    <div className="p-6">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-900">Make-up Classes</h1>
+        <p className="mt-2 text-sm text-gray-700">
+          {isLecturer
+            ? 'Propose a new date and time for a class you cannot hold. Your coordinator approves the make-up before it replaces the original session.'
+            : 'Review make-up class requests. Approved make-ups are checked for clashes and appear on the lecturer\'s attendance list on the new date.'}
+        </p>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4 mb-6">
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+
+      {isLecturer && (
+        <form onSubmit={handleSubmit} className="bg-white shadow rounded-lg p-4 mb-8 grid grid-cols-1 gap-4 md:grid-cols-2">
+          <div className="md:col-span-2">
+            <h2 className="text-sm font-medium text-gray-900">Request a Make-up Class</h2>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Class</label>
+            <select className={inputClass} value={form.courseScheduleId} onChange={e => setForm({ ...form, courseScheduleId: e.target.value })} required>
+              <option value="">Select class</option>
+              {schedules.map(schedule => (
+                <option key={schedule.id} value={schedule.id}>
+                  {schedule.course.code} - {schedule.classGroup.name} ({DAY_NAMES[schedule.dayOfWeek]} {schedule.startTime}-{schedule.endTime})
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Original date{selectedSchedule ? ` (a ${DAY_NAMES[selectedSchedule.dayOfWeek]})` : ''}
+            </label>
+            <input type="date" className={inputClass} value={form.originalDate} onChange={e => setForm({ ...form, originalDate: e.target.value })} required />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Make-up date</label>
+            <input type="date" className={inputClass} value={form.proposedDate} onChange={e => setForm({ ...form, proposedDate: e.target.value })} required />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Start</label>
+              <input type="time" className={inputClass} value={form.proposedStartTime} onChange={e => setForm({ ...form, proposedStartTime: e.target.value })} required />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">End</label>
+              <input type="time" className={inputClass} value={form.proposedEndTime} onChange={e => setForm({ ...form, proposedEndTime: e.target.value })} required />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Room</label>
+            <select className={inputClass} value={form.proposedClassroomId} onChange={e => setForm({ ...form, proposedClassroomId: e.target.value })}>
+              <option value="">Same as the regular class</option>
+              {classrooms.map(classroom => (
+                <option key={classroom.id} value={classroom.id}>
+                  {classroom.building?.name ? `${classroom.building.name} - ` : ''}{classroom.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+            <input className={inputClass} placeholder="e.g. Attending a conference" value={form.reason} onChange={e => setForm({ ...form, reason: e.target.value })} required />
+          </div>
+          <div className="md:col-span-2">
+            <button type="submit" className="inline-flex items-center rounded-md bg-indigo-600 px-3 py-2 text-sm font-medium text-white hover:bg-indigo-700">
+              <ArrowPathIcon className="-ml-1 mr-1 h-4 w-4" /> Submit Request
+            </button>
+          </div>
+        </form>
+      )}
+
+      {requests.length === 0 ? (
+        <div className="bg-white shadow sm:rounded-md px-6 py-12 text-center">
+          <ArrowPathIcon className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">No reschedule requests</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            {isLecturer ? 'Requests you submit will appear here.' : 'There are no make-up class requests to review.'}
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white shadow overflow-hidden sm:rounded-md">
+          <ul className="divide-y divide-gray-200">
+            {requests.map(request => {
+              const schedule = request.classSession.courseSchedule
+
+              return (
+                <li key={request.id} className="px-6 py-4">
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <div className="flex items-center">
+                        <p className="text-sm font-medium text-indigo-600">
+                          {schedule.course.courseCode} - {schedule.course.title}
+                        </p>
+                        <span className={`ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_COLORS[request.status] || 'bg-gray-100 text-gray-800'}`}>
+                          {request.status}
+                        </span>
+                      </div>
+                      <p className="mt-1 text-sm text-gray-500">
+                        {schedule.classGroup.name}
+                        {!isLecturer && ` · ${request.lecturer.user.firstName} ${request.lecturer.user.lastName}`}
+                      </p>
+                      <p className="mt-1 text-sm text-gray-700">
+                        {formatDate(request.classSession.date)} {request.classSession.startTime}-{request.classSession.endTime}
+                        {' → '}
+                        {formatDate(request.proposedDate)} {request.proposedStartTime}-{request.proposedEndTime}
+                      </p>
+                      <p className="mt-1 text-sm text-gray-500">Reason: {request.reason}</p>
+                      {request.reviewComment && (
+                        <p className="mt-1 text-sm text-gray-500">Comment: {request.reviewComment}</p>
+                      )}
+                    </div>
+
+                    {request.status === 'pending' && (
+                      <div className="ml-4 flex flex-col items-end space-y-2">
+                        {canReview && (
+                          <>
+                            <input
+                              className={inputClass}
+                              placeholder="Comment (optional)"
+                              value={comments[request.id] || ''}
+                              onChange={e => setComments({ ...comments, [request.id]: e.target.value })}
+                            />
+                            <div className="flex space-x-2">
+                              <button
+                                onClick={() => handleAction(request.id, 'approve')}
+                                className="inline-flex items-center rounded-md bg-green-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-green-700"
+                              >
+                                <CheckIcon className="-ml-1 mr-1 h-4 w-4" /> Approve
+                              </button>
+                              <button
+                                onClick={() => handleAction(request.id, 'reject')}
+                                className="inline-flex items-center rounded-md bg-red-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-red-700"
+                              >
+                                <XMarkIcon className="-ml-1 mr-1 h-4 w-4" /> Reject
+                              </button>
+                            </div>
+                          </>
+                        )}
+                        {isLecturer && (
+                          <button
+                            onClick={() => handleAction(request.id, 'withdraw')}
+                            className="inline-flex items-center rounded-md border border-gray-300 bg-white px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                          >
+                            Withdraw
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                </li>
+              )
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,163 @@
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { ArrowDownTrayIcon, ArrowPathIcon, CheckCircleIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline'
+import type { TimetableIssue, TimetableIssueType } from '@/lib/timetable-audit'
+
+interface AuditReport {
+  generatedAt: string
+  scheduleCount: number
+  summary: Record<TimetableIssueType, number>
+  issues: TimetableIssue[]
+}
+
+// Labels for the issue types defined in lib/timetable-audit
+const ISSUE_LABELS: Record<TimetableIssueType, string> = {
+  lecturer_double_booking: 'Lecturer double-bookings',
+  class_group_overlap: 'Class group overlaps',
+  room_clash: 'Room clashes',
+  room_too_small: 'Rooms too small',
+  lecturer_overloaded: 'Lecturers over load',
+  missing_meeting_link: 'Missing meeting links'
+}
+
+export default function TimetableAuditPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [report, setReport] = useState<AuditReport | null>(null)
+  const [typeFilter, setTypeFilter] = useState<TimetableIssueType | 'all'>('all')
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (status === 'loading') return
+
+    if (!session || !['ADMIN', 'COORDINATOR'].includes(session.user.role)) {
+      router.push('/dashboard')
+      return
+    }
+
+    fetchReport()
+  }, [session, status, router])
+
+  const fetchReport = async () => {
+    setLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/timetable/audit')
+      if (response.ok) {
+        setReport(await response.json())
+      } else {
+        setError('Failed to run the timetable audit')
+      }
+    } catch (error) {
+      console.error('Error running timetable audit:', error)
+      setError('Failed to run the timetable audit')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (status === 'loading' || (loading && !report)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-indigo-500"></div>
+      </div>
+    )
+  }
+
+  const issues = report?.issues.filter(issue => typeFilter === 'all' || issue.type === typeFilter) ?? []
+
+  return (
+    <div className="p-6">
+      <div className="mb-8 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Timetable Audit</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            Every weekly schedule checked together for clashes, rooms too small for their class, lecturers over their
+            regular load and online classes without a meeting link.
+            {report && ` ${report.scheduleCount} schedules checked at ${new Date(report.generatedAt).toLocaleTimeString()}.`}
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          <button
+            onClick={fetchReport}
+            disabled={loading}
+            className="inline-flex items-center rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            <ArrowPathIcon className="mr-1 h-4 w-4" />
+            Run again
+          </button>
+          <a
+            href="/api/timetable/audit?format=csv"
+            className="inline-flex items-center rounded-md bg-indigo-600 px-3 py-2 text-sm font-medium text-white hover:bg-indigo-700"
+          >
+            <ArrowDownTrayIcon className="mr-1 h-4 w-4" />
+            Export CSV
+          </a>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4 mb-6">
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+
+      {report && (
+        <>
+          <div className="grid grid-cols-2 gap-4 md:grid-cols-3 lg:grid-cols-6 mb-6">
+            {(Object.keys(ISSUE_LABELS) as TimetableIssueType[]).map(type => (
+              <button
+                key={type}
+                onClick={() => setTypeFilter(typeFilter === type ? 'all' : type)}
+                className={`bg-white shadow rounded-lg p-4 text-left ${typeFilter === type ? 'ring-2 ring-indigo-500' : ''}`}
+              >
+                <p className="text-sm text-gray-500">{ISSUE_LABELS[type]}</p>
+                <p className={`mt-1 text-2xl font-semibold ${report.summary[type] > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                  {report.summary[type]}
+                </p>
+              </button>
+            ))}
+          </div>
+
+          <div className="bg-white shadow overflow-hidden sm:rounded-md">
+            {issues.length === 0 ? (
+              <div className="px-6 py-12 text-center">
+                <CheckCircleIcon className="mx-auto h-12 w-12 text-green-500" />
+                <p className="mt-2 text-sm text-gray-500">
+                  {typeFilter === 'all' ? 'No issues found in the timetable.' : `No ${ISSUE_LABELS[typeFilter].toLowerCase()}.`}
+                </p>
+              </div>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {issues.map(issue => (
+                  <li key={issue.key} className="px-6 py-4 text-sm">
+                    <div className="flex items-start">
+                      <ExclamationTriangleIcon className={`mr-3 h-5 w-5 flex-shrink-0 ${issue.severity === 'error' ? 'text-red-500' : 'text-amber-500'}`} />
+                      <div>
+                        <p className="text-xs font-medium uppercase text-gray-500">{ISSUE_LABELS[issue.type]}</p>
+                        <p className="mt-1 text-gray-900">{issue.message}</p>
+                        <div className="mt-2 flex flex-wrap gap-4">
+                          {issue.links.map(link => (
+                            <Link key={link.href} href={link.href} className="text-indigo-600 hover:text-indigo-500">
+                              {link.label}
+                            </Link>
+                          ))}
+                        </div>
+                      </div>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
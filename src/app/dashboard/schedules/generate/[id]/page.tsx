@@ -0,0 +1,365 @@
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useParams, useRouter } from 'next/navigation'
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { ExclamationTriangleIcon, PencilSquareIcon, TrashIcon } from '@heroicons/react/24/outline'
+
+interface DraftEntry {
+  id: string
+  dayOfWeek: number
+  startTime: string
+  endTime: string
+  sessionType: string
+  isAdjusted: boolean
+  lecturerId: string
+  classroomId: string | null
+  course: { id: string; courseCode: string; title: string }
+  classGroup: { id: string; name: string; studentCount: number | null; groupType: string | null; deliveryMode: string }
+  lecturer: { id: string; user: { firstName: string; lastName: string } }
+  classroom: { id: string; roomCode: string; name: string; capacity: number | null } | null
+}
+
+interface UnplacedItem {
+  courseId: string
+  classGroupId: string
+  reason: string
+  course: { courseCode: string; title: string } | null
+  classGroup: { name: string } | null
+  lecturer: { user: { firstName: string; lastName: string } } | null
+}
+
+interface Draft {
+  id: string
+  name: string
+  status: string
+  publishedAt: string | null
+  entries: DraftEntry[]
+  unplaced: UnplacedItem[]
+}
+
+interface Option {
+  id: string
+  label: string
+}
+
+const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+// Monday first, weekend last
+const DAY_ORDER = [1, 2, 3, 4, 5, 6, 0]
+
+const inputClass = 'block w-full border border-gray-300 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500'
+
+export default function TimetableDraftPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const { id } = useParams<{ id: string }>()
+  const [draft, setDraft] = useState<Draft | null>(null)
+  const [lecturers, setLecturers] = useState<Option[]>([])
+  const [classrooms, setClassrooms] = useState<Option[]>([])
+  const [editing, setEditing] = useState<{ entryId: string; dayOfWeek: number; startTime: string; endTime: string; lecturerId: string; classroomId: string } | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (status === 'loading') return
+
+    if (!session || !['ADMIN', 'COORDINATOR'].includes(session.user.role)) {
+      router.push('/dashboard')
+      return
+    }
+
+    fetchDraft()
+    fetchOptions()
+  }, [session, status, router, id])
+
+  const fetchDraft = async () => {
+    try {
+      const response = await fetch(`/api/timetable/drafts/${id}`)
+      if (response.ok) {
+        setDraft(await response.json())
+      } else {
+        setError('Timetable draft not found')
+      }
+    } catch (error) {
+      console.error('Error fetching timetable draft:', error)
+      setError('Failed to load timetable draft')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchOptions = async () => {
+    try {
+      const [lecturersResponse, classroomsResponse] = await Promise.all([
+        fetch('/api/lecturers'),
+        fetch('/api/classrooms')
+      ])
+
+      if (lecturersResponse.ok) {
+        const data: { id: string; user: { firstName: string; lastName: string } }[] = await lecturersResponse.json()
+        setLecturers(data.map(lecturer => ({ id: lecturer.id, label: `${lecturer.user.firstName} ${lecturer.user.lastName}` })))
+      }
+
+      if (classroomsResponse.ok) {
+        const data: { id: string; roomCode: string; name: string; capacity: number | null }[] = await classroomsResponse.json()
+        setClassrooms(data.map(room => ({ id: room.id, label: `${room.roomCode} ${room.name} (${room.capacity ?? '?'} seats)` })))
+      }
+    } catch (error) {
+      console.error('Error fetching lecturers and classrooms:', error)
+    }
+  }
+
+  const startEditing = (entry: DraftEntry) => {
+    setError(null)
+    setEditing({
+      entryId: entry.id,
+      dayOfWeek: entry.dayOfWeek,
+      startTime: entry.startTime,
+      endTime: entry.endTime,
+      lecturerId: entry.lecturerId,
+      classroomId: entry.classroomId ?? ''
+    })
+  }
+
+  const saveEntry = async () => {
+    if (!editing) return
+    setError(null)
+
+    try {
+      const { entryId, ...slot } = editing
+      const response = await fetch(`/api/timetable/drafts/${id}/entries/${entryId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...slot, classroomId: slot.classroomId || null })
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to move class')
+      }
+
+      setEditing(null)
+      await fetchDraft()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  const removeEntry = async (entryId: string) => {
+    if (!confirm('Leave this class out of the timetable?')) return
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/timetable/drafts/${id}/entries/${entryId}`, { method: 'DELETE' })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to remove class')
+      }
+
+      await fetchDraft()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  const handlePublish = async () => {
+    if (!draft || !confirm(`Publish ${draft.entries.length} classes to the timetable?`)) return
+    setBusy(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/timetable/drafts/${id}/publish`, { method: 'POST' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to publish timetable')
+      }
+
+      await fetchDraft()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleDiscard = async () => {
+    if (!confirm('Discard this draft?')) return
+    setBusy(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/timetable/drafts/${id}`, { method: 'DELETE' })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to discard draft')
+      }
+
+      router.push('/dashboard/schedules/generate')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+      setBusy(false)
+    }
+  }
+
+  if (status === 'loading' || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-indigo-500"></div>
+      </div>
+    )
+  }
+
+  if (!draft) {
+    return (
+      <div className="p-6">
+        <div className="rounded-md bg-red-50 p-4 text-sm text-red-700">{error}</div>
+      </div>
+    )
+  }
+
+  const editable = draft.status === 'draft'
+
+  return (
+    <div className="p-6">
+      <div className="mb-8 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <Link href="/dashboard/schedules/generate" className="text-sm text-indigo-600 hover:text-indigo-500">
+            All drafts
+          </Link>
+          <h1 className="mt-1 text-2xl font-bold text-gray-900">{draft.name}</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            {draft.entries.length} classes
+            {draft.status === 'published' && draft.publishedAt && ` · published ${new Date(draft.publishedAt).toLocaleString()}`}
+            {draft.status === 'discarded' && ' · discarded'}
+          </p>
+        </div>
+        {editable && (
+          <div className="flex space-x-2">
+            <button
+              onClick={handleDiscard}
+              disabled={busy}
+              className="rounded-md border border-gray-300 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              Discard
+            </button>
+            <button
+              onClick={handlePublish}
+              disabled={busy || draft.entries.length === 0}
+              className="rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {busy ? 'Publishing...' : 'Publish timetable'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4 mb-6">
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+
+      {draft.unplaced.length > 0 && (
+        <div className="rounded-md bg-amber-50 p-4 mb-6">
+          <h2 className="flex items-center text-sm font-medium text-amber-800">
+            <ExclamationTriangleIcon className="mr-2 h-5 w-5" />
+            {draft.unplaced.length} {draft.unplaced.length === 1 ? 'class' : 'classes'} could not be placed
+          </h2>
+          <ul className="mt-2 space-y-1 text-sm text-amber-800">
+            {draft.unplaced.map((item, index) => (
+              <li key={index}>
+                {item.course?.courseCode ?? 'Unknown course'} · {item.classGroup?.name ?? 'Unknown group'}
+                {item.lecturer && ` · ${item.lecturer.user.firstName} ${item.lecturer.user.lastName}`}: {item.reason}
+              </li>
+            ))}
+          </ul>
+          {editable && <p className="mt-2 text-xs text-amber-700">Schedule these by hand after publishing, or adjust availability and generate again.</p>}
+        </div>
+      )}
+
+      {DAY_ORDER.map(day => {
+        const entries = draft.entries.filter(entry => entry.dayOfWeek === day)
+        if (entries.length === 0) return null
+
+        return (
+          <div key={day} className="bg-white shadow overflow-hidden sm:rounded-md mb-6">
+            <h2 className="px-6 py-3 bg-gray-50 text-sm font-medium text-gray-900">{DAYS[day]}</h2>
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <tbody className="divide-y divide-gray-100">
+                {entries.map(entry => editing?.entryId === entry.id ? (
+                  <tr key={entry.id} className="bg-indigo-50">
+                    <td className="px-6 py-3" colSpan={2}>
+                      <div className="flex space-x-2">
+                        <select className={inputClass} value={editing.dayOfWeek} onChange={e => setEditing({ ...editing, dayOfWeek: Number(e.target.value) })}>
+                          {DAYS.map((name, index) => (
+                            <option key={name} value={index}>{name}</option>
+                          ))}
+                        </select>
+                        <input type="time" className={inputClass} value={editing.startTime} onChange={e => setEditing({ ...editing, startTime: e.target.value })} />
+                        <input type="time" className={inputClass} value={editing.endTime} onChange={e => setEditing({ ...editing, endTime: e.target.value })} />
+                      </div>
+                    </td>
+                    <td className="px-6 py-3">
+                      <select className={inputClass} value={editing.lecturerId} onChange={e => setEditing({ ...editing, lecturerId: e.target.value })}>
+                        {lecturers.map(lecturer => (
+                          <option key={lecturer.id} value={lecturer.id}>{lecturer.label}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-6 py-3">
+                      <select className={inputClass} value={editing.classroomId} onChange={e => setEditing({ ...editing, classroomId: e.target.value })}>
+                        <option value="">No room (virtual)</option>
+                        {classrooms.map(room => (
+                          <option key={room.id} value={room.id}>{room.label}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-6 py-3 text-right space-x-3 whitespace-nowrap">
+                      <button onClick={saveEntry} className="text-indigo-600 hover:text-indigo-500">Save</button>
+                      <button onClick={() => setEditing(null)} className="text-gray-600 hover:text-gray-500">Cancel</button>
+                    </td>
+                  </tr>
+                ) : (
+                  <tr key={entry.id}>
+                    <td className="px-6 py-3 whitespace-nowrap">
+                      {entry.startTime} - {entry.endTime}
+                      {entry.isAdjusted && <span className="ml-2 text-xs text-indigo-600">moved</span>}
+                    </td>
+                    <td className="px-6 py-3">
+                      <p className="font-medium text-gray-900">{entry.course.courseCode} {entry.course.title}</p>
+                      <p className="text-gray-500">
+                        {entry.classGroup.name} · {entry.classGroup.studentCount ?? '?'} students · {entry.sessionType.toLowerCase()}
+                      </p>
+                    </td>
+                    <td className="px-6 py-3">{entry.lecturer.user.firstName} {entry.lecturer.user.lastName}</td>
+                    <td className="px-6 py-3">
+                      {entry.classroom ? `${entry.classroom.roomCode} (${entry.classroom.capacity ?? '?'} seats)` : 'Online'}
+                    </td>
+                    <td className="px-6 py-3 text-right space-x-3 whitespace-nowrap">
+                      {editable && (
+                        <>
+                          <button onClick={() => startEditing(entry)} className="text-indigo-600 hover:text-indigo-500" title="Move">
+                            <PencilSquareIcon className="inline h-4 w-4" />
+                          </button>
+                          <button onClick={() => removeEntry(entry.id)} className="text-red-600 hover:text-red-500" title="Leave out">
+                            <TrashIcon className="inline h-4 w-4" />
+                          </button>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,382 @@
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { CalendarDaysIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline'
+import type { AvailabilityWindow, TimetableRequirement } from '@/lib/timetable-generator'
+
+interface ClassGroup {
+  id: string
+  name: string
+  semester: string | null
+  studentCount: number | null
+  deliveryMode: string
+  groupType: string | null
+  programme: { id: string; name: string }
+}
+
+interface Course {
+  id: string
+  courseCode: string
+  title: string
+}
+
+interface Lecturer {
+  id: string
+  user: { firstName: string; lastName: string }
+}
+
+interface Draft {
+  id: string
+  name: string
+  status: string
+  entryCount: number
+  unplacedCount: number
+  createdAt: string
+  publishedAt: string | null
+}
+
+type RequirementRow = Omit<TimetableRequirement, 'lecturerId'> & { lecturerId: string }
+
+const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+const STATUS_BADGES: Record<string, string> = {
+  draft: 'bg-yellow-100 text-yellow-800',
+  published: 'bg-green-100 text-green-800',
+  discarded: 'bg-gray-100 text-gray-700'
+}
+
+const inputClass = 'block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500'
+
+export default function GenerateTimetablePage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [classGroups, setClassGroups] = useState<ClassGroup[]>([])
+  const [courses, setCourses] = useState<Course[]>([])
+  const [lecturers, setLecturers] = useState<Lecturer[]>([])
+  const [drafts, setDrafts] = useState<Draft[]>([])
+  const [selectedGroupIds, setSelectedGroupIds] = useState<string[]>([])
+  const [requirements, setRequirements] = useState<RequirementRow[]>([])
+  const [name, setName] = useState('')
+  const [availabilityLecturerId, setAvailabilityLecturerId] = useState('')
+  const [windows, setWindows] = useState<AvailabilityWindow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [generating, setGenerating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (status === 'loading') return
+
+    if (!session || !['ADMIN', 'COORDINATOR'].includes(session.user.role)) {
+      router.push('/dashboard')
+      return
+    }
+
+    fetchData()
+  }, [session, status, router])
+
+  const fetchData = async () => {
+    try {
+      const [groupsResponse, coursesResponse, lecturersResponse, draftsResponse] = await Promise.all([
+        fetch('/api/class-groups'),
+        fetch('/api/courses'),
+        fetch('/api/lecturers'),
+        fetch('/api/timetable/drafts')
+      ])
+
+      if (groupsResponse.ok) setClassGroups(await groupsResponse.json())
+      if (coursesResponse.ok) setCourses(await coursesResponse.json())
+      if (lecturersResponse.ok) setLecturers(await lecturersResponse.json())
+      if (draftsResponse.ok) setDrafts(await draftsResponse.json())
+    } catch (error) {
+      console.error('Error fetching timetable data:', error)
+      setError('Failed to load data')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const toggleGroup = (id: string) => {
+    setSelectedGroupIds(ids => ids.includes(id) ? ids.filter(groupId => groupId !== id) : [...ids, id])
+  }
+
+  const loadCourses = async () => {
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/timetable/requirements?classGroupIds=${selectedGroupIds.join(',')}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load courses')
+      }
+
+      setRequirements(data.map((requirement: TimetableRequirement & { lecturerId: string | null }) => ({
+        ...requirement,
+        lecturerId: requirement.lecturerId ?? ''
+      })))
+      if (data.length === 0) {
+        setMessage('Every course for these class groups this semester already has a schedule.')
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  const updateRequirement = (index: number, changes: Partial<RequirementRow>) => {
+    setRequirements(rows => rows.map((row, i) => i === index ? { ...row, ...changes } : row))
+  }
+
+  const handleGenerate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setGenerating(true)
+
+    try {
+      const response = await fetch('/api/timetable/drafts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, requirements })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to generate timetable')
+      }
+
+      router.push(`/dashboard/schedules/generate/${data.id}`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+      setGenerating(false)
+    }
+  }
+
+  const loadAvailability = async (lecturerId: string) => {
+    setAvailabilityLecturerId(lecturerId)
+    setWindows([])
+    if (!lecturerId) return
+
+    try {
+      const response = await fetch(`/api/lecturers/${lecturerId}/availability`)
+      if (response.ok) {
+        const data: AvailabilityWindow[] = await response.json()
+        setWindows(data.map(({ dayOfWeek, startTime, endTime }) => ({ dayOfWeek, startTime, endTime })))
+      }
+    } catch (error) {
+      console.error('Error fetching lecturer availability:', error)
+    }
+  }
+
+  const saveAvailability = async () => {
+    setError(null)
+    setMessage(null)
+
+    try {
+      const response = await fetch(`/api/lecturers/${availabilityLecturerId}/availability`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ windows })
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to save availability')
+      }
+
+      setMessage('Availability saved')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  if (status === 'loading' || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-indigo-500"></div>
+      </div>
+    )
+  }
+
+  const courseLabels = new Map(courses.map(course => [course.id, `${course.courseCode} ${course.title}`]))
+  const groupNames = new Map(classGroups.map(group => [group.id, group.name]))
+
+  return (
+    <div className="p-6">
+      <div className="mb-8 flex items-start justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Generate Timetable</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            Pick class groups and the courses they take this semester. The generator places every class around
+            the published timetable without clashes, within each group&apos;s regular, evening or weekend hours and
+            its lecturer&apos;s availability, in a room that seats the group. Review the draft before publishing it.
+          </p>
+        </div>
+        <Link href="/dashboard/schedules" className="text-sm text-indigo-600 hover:text-indigo-500 whitespace-nowrap">
+          Back to schedules
+        </Link>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4 mb-6">
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+      {message && (
+        <div className="rounded-md bg-green-50 p-4 mb-6">
+          <div className="text-sm text-green-700">{message}</div>
+        </div>
+      )}
+
+      <div className="bg-white shadow rounded-lg p-4 mb-8">
+        <h2 className="text-lg font-medium text-gray-900 mb-3">1. Class groups</h2>
+        <div className="grid grid-cols-1 gap-2 md:grid-cols-3">
+          {classGroups.map(group => (
+            <label key={group.id} className="flex items-start text-sm text-gray-700">
+              <input type="checkbox" className="mr-2 mt-1" checked={selectedGroupIds.includes(group.id)} onChange={() => toggleGroup(group.id)} />
+              <span>
+                {group.name} · {group.programme.name}
+                <span className="block text-xs text-gray-500">
+                  Semester {group.semester ?? '-'} · {group.studentCount ?? '?'} students · {group.deliveryMode} · {group.groupType || 'regular'}
+                </span>
+              </span>
+            </label>
+          ))}
+        </div>
+        <div className="mt-4 flex justify-end">
+          <button
+            type="button"
+            onClick={loadCourses}
+            disabled={selectedGroupIds.length === 0}
+            className="inline-flex items-center rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50"
+          >
+            Load courses
+          </button>
+        </div>
+      </div>
+
+      {requirements.length > 0 && (
+        <form onSubmit={handleGenerate} className="bg-white shadow rounded-lg p-4 mb-8">
+          <h2 className="text-lg font-medium text-gray-900 mb-3">2. Courses to schedule</h2>
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr className="text-left text-gray-500">
+                <th className="px-3 py-2">Course</th>
+                <th className="px-3 py-2">Class group</th>
+                <th className="px-3 py-2">Lecturer</th>
+                <th className="px-3 py-2">Sessions / week</th>
+                <th className="px-3 py-2">Minutes each</th>
+                <th className="px-3 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {requirements.map((requirement, index) => (
+                <tr key={`${requirement.classGroupId}-${requirement.courseId}`}>
+                  <td className="px-3 py-2">{courseLabels.get(requirement.courseId) ?? requirement.courseId}</td>
+                  <td className="px-3 py-2">{groupNames.get(requirement.classGroupId) ?? requirement.classGroupId}</td>
+                  <td className="px-3 py-2">
+                    <select required className={inputClass} value={requirement.lecturerId} onChange={e => updateRequirement(index, { lecturerId: e.target.value })}>
+                      <option value="">Select a lecturer</option>
+                      {lecturers.map(lecturer => (
+                        <option key={lecturer.id} value={lecturer.id}>{lecturer.user.firstName} {lecturer.user.lastName}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-3 py-2 w-28">
+                    <input type="number" min={1} max={5} required className={inputClass} value={requirement.sessionsPerWeek} onChange={e => updateRequirement(index, { sessionsPerWeek: Number(e.target.value) })} />
+                  </td>
+                  <td className="px-3 py-2 w-28">
+                    <input type="number" min={30} max={360} step={30} className={inputClass} value={requirement.durationMinutes ?? ''} onChange={e => updateRequirement(index, { durationMinutes: e.target.value ? Number(e.target.value) : undefined })} />
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    <button type="button" onClick={() => setRequirements(rows => rows.filter((_, i) => i !== index))} className="text-red-600 hover:text-red-500" title="Leave out">
+                      <TrashIcon className="inline h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="mt-4 flex flex-wrap items-end justify-end gap-4">
+            <div className="w-72">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Draft name</label>
+              <input required className={inputClass} placeholder="e.g. Semester 1 2026/2027" value={name} onChange={e => setName(e.target.value)} />
+            </div>
+            <button
+              type="submit"
+              disabled={generating}
+              className="inline-flex items-center rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50"
+            >
+              <CalendarDaysIcon className="mr-2 h-4 w-4" />
+              {generating ? 'Generating...' : 'Generate draft'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="bg-white shadow rounded-lg p-4 mb-8">
+        <h2 className="text-lg font-medium text-gray-900">Lecturer availability</h2>
+        <p className="mt-1 mb-3 text-sm text-gray-500">Lecturers without any availability can be scheduled whenever their class groups meet.</p>
+        <select className={`${inputClass} md:w-80 mb-3`} value={availabilityLecturerId} onChange={e => loadAvailability(e.target.value)}>
+          <option value="">Select a lecturer</option>
+          {lecturers.map(lecturer => (
+            <option key={lecturer.id} value={lecturer.id}>{lecturer.user.firstName} {lecturer.user.lastName}</option>
+          ))}
+        </select>
+        {availabilityLecturerId && (
+          <>
+            {windows.map((window, index) => (
+              <div key={index} className="flex items-center space-x-2 mb-2">
+                <select className={`${inputClass} w-40`} value={window.dayOfWeek} onChange={e => setWindows(list => list.map((w, i) => i === index ? { ...w, dayOfWeek: Number(e.target.value) } : w))}>
+                  {DAYS.map((day, dayIndex) => (
+                    <option key={day} value={dayIndex}>{day}</option>
+                  ))}
+                </select>
+                <input type="time" className={`${inputClass} w-32`} value={window.startTime} onChange={e => setWindows(list => list.map((w, i) => i === index ? { ...w, startTime: e.target.value } : w))} />
+                <input type="time" className={`${inputClass} w-32`} value={window.endTime} onChange={e => setWindows(list => list.map((w, i) => i === index ? { ...w, endTime: e.target.value } : w))} />
+                <button type="button" onClick={() => setWindows(list => list.filter((_, i) => i !== index))} className="text-red-600 hover:text-red-500" title="Remove">
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+            <div className="flex space-x-3">
+              <button type="button" onClick={() => setWindows(list => [...list, { dayOfWeek: 1, startTime: '08:00', endTime: '17:00' }])} className="inline-flex items-center text-sm text-indigo-600 hover:text-indigo-500">
+                <PlusIcon className="mr-1 h-4 w-4" /> Add block
+              </button>
+              <button type="button" onClick={saveAvailability} className="rounded-md border border-gray-300 px-3 py-1 text-sm text-gray-700 hover:bg-gray-50">
+                Save availability
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="bg-white shadow overflow-hidden sm:rounded-md">
+        <h2 className="px-6 pt-4 text-lg font-medium text-gray-900">Drafts</h2>
+        {drafts.length === 0 ? (
+          <p className="px-6 py-8 text-center text-sm text-gray-500">No timetables generated yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {drafts.map(draft => (
+              <li key={draft.id} className="px-6 py-3 flex items-center justify-between text-sm">
+                <div>
+                  <Link href={`/dashboard/schedules/generate/${draft.id}`} className="font-medium text-indigo-600 hover:text-indigo-500">
+                    {draft.name}
+                  </Link>
+                  <p className="text-gray-500">
+                    {draft.entryCount} classes{draft.unplacedCount > 0 && `, ${draft.unplacedCount} not placed`} · generated {new Date(draft.createdAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_BADGES[draft.status] ?? STATUS_BADGES.discarded}`}>
+                  {draft.status}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
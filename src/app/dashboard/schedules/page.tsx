@@ -1,7 +1,7 @@
 'use client'
 
 import { useSession } from 'next-auth/react'
-import { useRouter } from 'next/navigation'
+import { useRouter, useSearchParams } from 'next/navigation'
 import { useEffect, useState } from 'react'
 import Link from 'next/link'
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
@@ -59,6 +59,8 @@ const getDayShort = (dayNumber: number): string => {
 export default function SchedulesPage() {
   const { data: session, status } = useSession()
   const router = useRouter()
+  const searchParams = useSearchParams()
+  const lecturerFilter = searchParams.get('lecturerId')
   const [schedules, setSchedules] = useState<Schedule[]>([])
   const [loading, setLoading] = useState(true)
   const [dayFilter, setDayFilter] = useState('all')
@@ -181,6 +183,7 @@ export default function SchedulesPage() {
   }
 
   const filteredSchedules = schedules.filter(schedule => {
+    if (lecturerFilter && schedule.lecturer.id !== lecturerFilter) return false
     if (dayFilter !== 'all' && schedule.dayOfWeek !== parseInt(dayFilter)) return false
     if (statusFilter === 'active' && !schedule.isActive) return false
     if (statusFilter === 'inactive' && schedule.isActive) return false
@@ -189,6 +192,8 @@ export default function SchedulesPage() {
     return true
   })
 
+  const filteredLecturer = schedules.find(schedule => schedule.lecturer.id === lecturerFilter)?.lecturer
+
   const getDayBadgeColor = (dayNumber: number) => {
     const colors = [
       'bg-purple-100 text-purple-800', // Sunday
@@ -221,6 +226,13 @@ export default function SchedulesPage() {
         </p>
       </div>
 
+      {lecturerFilter && (
+        <div className="mb-6 rounded-md bg-indigo-50 p-3 text-sm text-indigo-800">
+          Showing schedules for {filteredLecturer ? `${filteredLecturer.firstName} ${filteredLecturer.lastName}` : 'one lecturer'}.{' '}
+          <Link href="/dashboard/schedules" className="font-medium underline">Show all</Link>
+        </div>
+      )}
+
       <div className="mb-6 space-y-4 sm:space-y-0 sm:flex sm:items-center sm:justify-between">
         <div className="flex flex-col space-y-2 sm:space-y-0 sm:flex-row sm:space-x-2">
           <select
@@ -254,6 +266,18 @@ export default function SchedulesPage() {
           >
             Add Schedule
           </Link>
+          <Link
+            href="/dashboard/schedules/generate"
+            className="w-full sm:w-auto inline-flex items-center justify-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            Generate Timetable
+          </Link>
+          <Link
+            href="/dashboard/schedules/audit"
+            className="w-full sm:w-auto inline-flex items-center justify-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            Audit Timetable
+          </Link>
           <Link
             href="/dashboard/import"
             className="w-full sm:w-auto inline-flex items-center justify-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
@@ -9,7 +9,11 @@ import {
   Database, 
   Server, 
   Globe, 
-  Lock 
+  Lock,
+  Clock,
+  ShieldCheck,
+  AlarmClock,
+  KeyRound
 } from 'lucide-react'
 
 export default function SettingsPage() {
@@ -39,9 +43,33 @@ export default function SettingsPage() {
         },
         {
           name: 'Security Settings',
-          description: 'Configure password policies and session timeouts',
+          description: 'Require two-factor authentication for privileged roles',
           icon: Shield,
-          href: '#' // Placeholder
+          href: '/dashboard/settings/security'
+        },
+        {
+          name: 'Single Sign-On',
+          description: 'Map university directory attributes and roles, and turn off passwords for SSO domains',
+          icon: KeyRound,
+          href: '/dashboard/settings/sso'
+        },
+        {
+          name: 'Punctuality',
+          description: 'Set grace periods for late arrivals and early departures',
+          icon: Clock,
+          href: '/dashboard/settings/punctuality'
+        },
+        {
+          name: 'Verification Rules',
+          description: 'Set attendance verification policy per programme, delivery mode or session type',
+          icon: ShieldCheck,
+          href: '/dashboard/settings/verification-rules'
+        },
+        {
+          name: 'Verification SLAs',
+          description: 'Set how long verification requests may stay open before escalation',
+          icon: AlarmClock,
+          href: '/dashboard/settings/verification-sla'
         }
       ]
     },
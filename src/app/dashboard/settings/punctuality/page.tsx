@@ -0,0 +1,153 @@
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { useEffect, useState } from 'react'
+import { ClockIcon } from '@heroicons/react/24/outline'
+
+const inputClass = 'block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500'
+
+export default function PunctualitySettingsPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [form, setForm] = useState({ lateGraceMinutes: '', earlyLeaveGraceMinutes: '' })
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (status === 'loading') return
+
+    if (!session || session.user.role !== 'ADMIN') {
+      router.push('/dashboard')
+      return
+    }
+
+    fetchSettings()
+  }, [session, status, router])
+
+  const fetchSettings = async () => {
+    try {
+      const response = await fetch('/api/settings/punctuality')
+      if (response.ok) {
+        const data = await response.json()
+        setForm({
+          lateGraceMinutes: String(data.lateGraceMinutes),
+          earlyLeaveGraceMinutes: String(data.earlyLeaveGraceMinutes)
+        })
+      } else {
+        setError('Failed to load punctuality settings')
+      }
+    } catch (error) {
+      console.error('Error fetching punctuality settings:', error)
+      setError('Failed to load punctuality settings')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    setError(null)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/settings/punctuality', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          lateGraceMinutes: Number(form.lateGraceMinutes),
+          earlyLeaveGraceMinutes: Number(form.earlyLeaveGraceMinutes)
+        })
+      })
+
+      if (response.ok) {
+        setMessage('Grace periods saved. They apply to check-ins and check-outs from now on.')
+      } else {
+        const data = await response.json()
+        setError(data.error || 'Failed to save punctuality settings')
+      }
+    } catch (error) {
+      console.error('Error saving punctuality settings:', error)
+      setError('Failed to save punctuality settings')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-500"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+          <ClockIcon className="h-8 w-8 mr-2 text-indigo-600" />
+          Punctuality
+        </h1>
+        <p className="mt-2 text-gray-600">
+          Lecturers who check in after the grace period are recorded as late, and those who check out
+          before it as leaving early. Lateness is measured from the scheduled start time.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-4 rounded-md bg-red-50 p-4 text-sm text-red-700">{error}</div>
+      )}
+      {message && (
+        <div className="mb-4 rounded-md bg-green-50 p-4 text-sm text-green-700">{message}</div>
+      )}
+
+      <form onSubmit={handleSubmit} className="bg-white shadow rounded-lg p-6 space-y-6">
+        <div>
+          <label htmlFor="lateGraceMinutes" className="block text-sm font-medium text-gray-700 mb-1">
+            Late arrival grace period (minutes)
+          </label>
+          <input
+            id="lateGraceMinutes"
+            type="number"
+            min={0}
+            max={120}
+            required
+            value={form.lateGraceMinutes}
+            onChange={(e) => setForm({ ...form, lateGraceMinutes: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="earlyLeaveGraceMinutes" className="block text-sm font-medium text-gray-700 mb-1">
+            Early departure grace period (minutes)
+          </label>
+          <input
+            id="earlyLeaveGraceMinutes"
+            type="number"
+            min={0}
+            max={120}
+            required
+            value={form.earlyLeaveGraceMinutes}
+            onChange={(e) => setForm({ ...form, earlyLeaveGraceMinutes: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={saving}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,145 @@
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { useEffect, useState } from 'react'
+import { ShieldCheckIcon } from '@heroicons/react/24/outline'
+
+const ROLES = [
+  { value: 'ADMIN', label: 'Administrators' },
+  { value: 'COORDINATOR', label: 'Coordinators' },
+  { value: 'LECTURER', label: 'Lecturers' },
+  { value: 'CLASS_REP', label: 'Class reps' },
+  { value: 'SUPERVISOR', label: 'Supervisors' },
+  { value: 'ONLINE_SUPERVISOR', label: 'Online supervisors' }
+]
+
+export default function SecuritySettingsPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [requiredRoles, setRequiredRoles] = useState<string[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (status === 'loading') return
+
+    if (!session || session.user.role !== 'ADMIN') {
+      router.push('/dashboard')
+      return
+    }
+
+    fetchSettings()
+  }, [session, status, router])
+
+  const fetchSettings = async () => {
+    try {
+      const response = await fetch('/api/settings/security')
+      if (response.ok) {
+        const data = await response.json()
+        setRequiredRoles(data.requiredRoles)
+      } else {
+        setError('Failed to load security settings')
+      }
+    } catch (error) {
+      console.error('Error fetching security settings:', error)
+      setError('Failed to load security settings')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const toggleRole = (role: string) => {
+    setRequiredRoles(prev => prev.includes(role) ? prev.filter(item => item !== role) : [...prev, role])
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    setError(null)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/settings/security', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ requiredRoles })
+      })
+
+      if (response.ok) {
+        setMessage('Saved. Users in these roles without two-factor authentication will be asked to set it up when they next sign in.')
+      } else {
+        const data = await response.json()
+        setError(data.error || 'Failed to save security settings')
+      }
+    } catch (error) {
+      console.error('Error saving security settings:', error)
+      setError('Failed to save security settings')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-500"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+          <ShieldCheckIcon className="h-8 w-8 mr-2 text-indigo-600" />
+          Security
+        </h1>
+        <p className="mt-2 text-gray-600">
+          Choose which roles must use two-factor authentication. Anyone can still turn it on for themselves from
+          their profile. If someone loses their phone, reset their two-factor authentication from their user page.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-4 rounded-md bg-red-50 p-4 text-sm text-red-700">{error}</div>
+      )}
+      {message && (
+        <div className="mb-4 rounded-md bg-green-50 p-4 text-sm text-green-700">{message}</div>
+      )}
+
+      <form onSubmit={handleSubmit} className="bg-white shadow rounded-lg p-6 space-y-6">
+        <fieldset>
+          <legend className="block text-sm font-medium text-gray-700 mb-2">
+            Require two-factor authentication for
+          </legend>
+          <div className="space-y-2">
+            {ROLES.map(role => (
+              <label key={role.value} className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={requiredRoles.includes(role.value)}
+                  onChange={() => toggleRole(role.value)}
+                  className="mr-2 h-4 w-4 text-indigo-600 border-gray-300 rounded"
+                />
+                {role.label}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={saving}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
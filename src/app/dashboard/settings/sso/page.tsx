@@ -0,0 +1,260 @@
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { useEffect, useState } from 'react'
+import { KeyIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline'
+
+const ROLES = [
+  { value: 'ADMIN', label: 'Administrator' },
+  { value: 'COORDINATOR', label: 'Coordinator' },
+  { value: 'LECTURER', label: 'Lecturer' },
+  { value: 'CLASS_REP', label: 'Class rep' },
+  { value: 'SUPERVISOR', label: 'Supervisor' },
+  { value: 'ONLINE_SUPERVISOR', label: 'Online supervisor' }
+]
+
+const ATTRIBUTES = [
+  { key: 'email', label: 'Email' },
+  { key: 'firstName', label: 'First name' },
+  { key: 'lastName', label: 'Last name' },
+  { key: 'role', label: 'Role or group' },
+  { key: 'department', label: 'Department' },
+  { key: 'employeeId', label: 'Employee ID' }
+] as const
+
+type AttributeKey = typeof ATTRIBUTES[number]['key']
+
+interface RoleMapping {
+  value: string
+  role: string
+}
+
+const inputClass = 'block w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500'
+
+export default function SsoSettingsPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [domains, setDomains] = useState('')
+  const [defaultRole, setDefaultRole] = useState('LECTURER')
+  const [roleMappings, setRoleMappings] = useState<RoleMapping[]>([])
+  const [attributeMap, setAttributeMap] = useState<Record<AttributeKey, string> | null>(null)
+  const [providers, setProviders] = useState({ oidc: false, saml: false })
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (status === 'loading') return
+
+    if (!session || session.user.role !== 'ADMIN') {
+      router.push('/dashboard')
+      return
+    }
+
+    fetchSettings()
+  }, [session, status, router])
+
+  const fetchSettings = async () => {
+    try {
+      const response = await fetch('/api/settings/sso')
+      if (response.ok) {
+        const data = await response.json()
+        setDomains(data.passwordDisabledDomains.join('\n'))
+        setDefaultRole(data.defaultRole)
+        setRoleMappings(Object.entries(data.roleMap as Record<string, string>).map(([value, role]) => ({ value, role })))
+        setAttributeMap(data.attributeMap)
+        setProviders(data.providers)
+      } else {
+        setError('Failed to load single sign-on settings')
+      }
+    } catch (error) {
+      console.error('Error fetching SSO settings:', error)
+      setError('Failed to load single sign-on settings')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const updateMapping = (index: number, change: Partial<RoleMapping>) => {
+    setRoleMappings(prev => prev.map((mapping, i) => i === index ? { ...mapping, ...change } : mapping))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    setError(null)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/settings/sso', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          passwordDisabledDomains: domains.split(/[\s,]+/).filter(Boolean),
+          defaultRole,
+          roleMap: Object.fromEntries(
+            roleMappings.filter(mapping => mapping.value.trim()).map(mapping => [mapping.value.trim(), mapping.role])
+          ),
+          attributeMap
+        })
+      })
+
+      if (response.ok) {
+        setMessage('Saved. Mapping changes apply to accounts created from now on; existing accounts keep their role.')
+      } else {
+        const data = await response.json()
+        setError(data.details?.[0]?.message || data.error || 'Failed to save single sign-on settings')
+      }
+    } catch (error) {
+      console.error('Error saving SSO settings:', error)
+      setError('Failed to save single sign-on settings')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading || !attributeMap) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-500"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+          <KeyIcon className="h-8 w-8 mr-2 text-indigo-600" />
+          Single Sign-On
+        </h1>
+        <p className="mt-2 text-gray-600">
+          Staff can sign in with their university account. The first sign-in creates their account here, and a
+          lecturer profile for lecturers, from the attributes the directory sends.
+        </p>
+        <p className="mt-2 text-sm text-gray-500">
+          OpenID Connect: {providers.oidc ? 'configured' : 'not configured'}. SAML: {providers.saml ? 'configured' : 'not configured'}.
+          {' '}Providers are set up with the SSO_OIDC_* and SSO_SAML_* environment variables.
+          {providers.saml && ' Register /api/auth/saml/metadata with the identity provider.'}
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-4 rounded-md bg-red-50 p-4 text-sm text-red-700">{error}</div>
+      )}
+      {message && (
+        <div className="mb-4 rounded-md bg-green-50 p-4 text-sm text-green-700">{message}</div>
+      )}
+
+      <form onSubmit={handleSubmit} className="bg-white shadow rounded-lg p-6 space-y-6">
+        <div>
+          <label htmlFor="domains" className="block text-sm font-medium text-gray-700 mb-1">
+            Domains that must use single sign-on
+          </label>
+          <textarea
+            id="domains"
+            rows={3}
+            value={domains}
+            onChange={(e) => setDomains(e.target.value)}
+            placeholder="upsa.edu.gh"
+            className={inputClass}
+          />
+          <p className="mt-1 text-xs text-gray-500">
+            One per line. Accounts on these domains cannot sign in with a local password. Leave a domain off until
+            single sign-on has been tested, or everyone on it will be locked out.
+          </p>
+        </div>
+
+        <div>
+          <label htmlFor="defaultRole" className="block text-sm font-medium text-gray-700 mb-1">
+            Role for new accounts
+          </label>
+          <select id="defaultRole" value={defaultRole} onChange={(e) => setDefaultRole(e.target.value)} className={inputClass}>
+            {ROLES.map(role => (
+              <option key={role.value} value={role.value}>{role.label}</option>
+            ))}
+          </select>
+          <p className="mt-1 text-xs text-gray-500">Used when none of the directory roles below match.</p>
+        </div>
+
+        <fieldset>
+          <legend className="block text-sm font-medium text-gray-700 mb-2">Directory roles</legend>
+          <div className="space-y-2">
+            {roleMappings.map((mapping, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <input
+                  value={mapping.value}
+                  onChange={(e) => updateMapping(index, { value: e.target.value })}
+                  placeholder="e.g. faculty"
+                  aria-label="Directory value"
+                  className={inputClass}
+                />
+                <select
+                  value={mapping.role}
+                  onChange={(e) => updateMapping(index, { role: e.target.value })}
+                  aria-label="Role"
+                  className={inputClass}
+                >
+                  {ROLES.map(role => (
+                    <option key={role.value} value={role.value}>{role.label}</option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => setRoleMappings(prev => prev.filter((_, i) => i !== index))}
+                  className="p-2 text-gray-400 hover:text-red-600"
+                  aria-label="Remove mapping"
+                >
+                  <TrashIcon className="h-5 w-5" />
+                </button>
+              </div>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => setRoleMappings(prev => [...prev, { value: '', role: 'LECTURER' }])}
+            className="mt-2 inline-flex items-center text-sm font-medium text-indigo-600 hover:text-indigo-500"
+          >
+            <PlusIcon className="h-4 w-4 mr-1" />
+            Add mapping
+          </button>
+        </fieldset>
+
+        <fieldset>
+          <legend className="block text-sm font-medium text-gray-700 mb-2">Attribute names</legend>
+          <p className="mb-2 text-xs text-gray-500">
+            The claim or SAML attribute each field is read from. Common names such as mail, givenName and sn are
+            tried as well.
+          </p>
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+            {ATTRIBUTES.map(attribute => (
+              <div key={attribute.key}>
+                <label htmlFor={`attribute-${attribute.key}`} className="block text-xs font-medium text-gray-600 mb-1">
+                  {attribute.label}
+                </label>
+                <input
+                  id={`attribute-${attribute.key}`}
+                  value={attributeMap[attribute.key]}
+                  onChange={(e) => setAttributeMap({ ...attributeMap, [attribute.key]: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            ))}
+          </div>
+        </fieldset>
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={saving}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
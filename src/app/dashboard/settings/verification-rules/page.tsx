@@ -0,0 +1,497 @@
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { useEffect, useState } from 'react'
+import { ShieldCheckIcon, TrashIcon } from '@heroicons/react/24/outline'
+import type {
+  PolicyPreview,
+  PolicyScope,
+  PolicyScopeType,
+  StoredVerificationPolicy,
+  VerificationPolicy,
+  VerificationRule
+} from '@/lib/verification-rules'
+
+interface ProgrammeOption {
+  id: string
+  name: string
+}
+
+type PolicyField = keyof VerificationPolicy
+
+const SCOPE_LABELS: Record<PolicyScopeType, string> = {
+  default: 'All classes',
+  programme: 'Programme',
+  delivery_mode: 'Delivery mode',
+  session_type: 'Session type'
+}
+
+const DELIVERY_MODES = [
+  { value: 'FACE_TO_FACE', label: 'Face to Face' },
+  { value: 'ONLINE', label: 'Online' },
+  { value: 'HYBRID', label: 'Hybrid' }
+]
+
+const SESSION_TYPES = ['LECTURE', 'SEMINAR', 'LAB', 'VIRTUAL', 'HYBRID']
+
+const SUPERVISOR_STATUSES = [
+  { value: 'ongoing', label: 'Ongoing' },
+  { value: 'online', label: 'Online' },
+  { value: 'not_started', label: 'Not started' },
+  { value: 'cancelled', label: 'Cancelled' },
+  { value: 'lecturer_absent', label: 'Lecturer absent' }
+]
+
+const RULE_LABELS: Record<VerificationRule, string> = {
+  location: 'Location',
+  qr_check_in: 'QR check-in',
+  time_window: 'Time window',
+  meeting_link: 'Meeting link',
+  session_duration: 'Session duration',
+  punctuality: 'Punctuality',
+  check_out: 'Check-out',
+  supervisor: 'Supervisor'
+}
+
+const FIELD_LABELS: Record<PolicyField, string> = {
+  virtualTimeWindowMinutes: 'Virtual start window (minutes either side)',
+  minimumSessionDurationPercentage: 'Minimum virtual session length (% of scheduled)',
+  geofenceRadiusMeters: 'Default geofence radius (metres)',
+  requireQrCheckIn: 'Require class rep QR check-in for onsite classes',
+  maxLateMinutes: 'Fail check-ins later than (minutes)',
+  requireCheckOut: 'Require check-out for onsite classes',
+  supervisorPresentStatuses: 'Supervisor statuses that confirm presence'
+}
+
+const inputClass = 'block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 disabled:bg-gray-100 disabled:text-gray-500'
+
+function outcomeLabel(passed: boolean | null) {
+  return passed === true ? 'Pass' : passed === false ? 'Fail' : 'Pending'
+}
+
+export default function VerificationRulesPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [defaults, setDefaults] = useState<VerificationPolicy | null>(null)
+  const [policies, setPolicies] = useState<StoredVerificationPolicy[]>([])
+  const [programmes, setProgrammes] = useState<ProgrammeOption[]>([])
+  const [scope, setScope] = useState<PolicyScope>({ type: 'default', value: null })
+  const [values, setValues] = useState<VerificationPolicy | null>(null)
+  const [overridden, setOverridden] = useState<Partial<Record<PolicyField, boolean>>>({})
+  const [preview, setPreview] = useState<PolicyPreview | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [working, setWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (status === 'loading') return
+
+    if (!session || session.user.role !== 'ADMIN') {
+      router.push('/dashboard')
+      return
+    }
+
+    fetchPolicies()
+    fetchProgrammes()
+  }, [session, status, router])
+
+  const fetchPolicies = async () => {
+    try {
+      const response = await fetch('/api/settings/verification-rules')
+      if (response.ok) {
+        const data = await response.json()
+        setDefaults(data.defaults)
+        setPolicies(data.policies)
+        return data.policies as StoredVerificationPolicy[]
+      }
+      setError('Failed to load verification policies')
+    } catch (error) {
+      console.error('Error fetching verification policies:', error)
+      setError('Failed to load verification policies')
+    } finally {
+      setLoading(false)
+    }
+    return null
+  }
+
+  const fetchProgrammes = async () => {
+    try {
+      const response = await fetch('/api/programmes')
+      if (response.ok) {
+        setProgrammes(await response.json())
+      }
+    } catch (error) {
+      console.error('Error fetching programmes:', error)
+    }
+  }
+
+  const findPolicy = (target: PolicyScope, list = policies) =>
+    list.find(policy => policy.scope.type === target.type && policy.scope.value === target.value)
+
+  // Load the saved override for a scope into the editor, showing inherited fields at their defaults
+  const selectScope = (target: PolicyScope, list = policies) => {
+    const saved = findPolicy(target, list)
+    const inherited = target.type === 'default' ? {} : findPolicy({ type: 'default', value: null }, list)?.rules ?? {}
+    setScope(target)
+    setValues({ ...defaults!, ...inherited, ...saved?.rules })
+    setOverridden(Object.fromEntries(Object.keys(saved?.rules ?? {}).map(field => [field, true])))
+    setPreview(null)
+    setMessage(null)
+  }
+
+  useEffect(() => {
+    if (defaults && !values) {
+      selectScope({ type: 'default', value: null })
+    }
+  }, [defaults])
+
+  const scopeLabel = (target: PolicyScope) => {
+    if (target.type === 'default') return SCOPE_LABELS.default
+    if (target.type === 'programme') {
+      return `${SCOPE_LABELS.programme}: ${programmes.find(programme => programme.id === target.value)?.name ?? target.value}`
+    }
+    if (target.type === 'delivery_mode') {
+      return `${SCOPE_LABELS.delivery_mode}: ${DELIVERY_MODES.find(mode => mode.value === target.value)?.label ?? target.value}`
+    }
+    return `${SCOPE_LABELS.session_type}: ${target.value}`
+  }
+
+  const draftRules = (): Partial<VerificationPolicy> => {
+    if (!values) return {}
+    return Object.fromEntries(
+      (Object.keys(values) as PolicyField[])
+        .filter(field => overridden[field])
+        .map(field => [field, values[field]])
+    )
+  }
+
+  const setField = <K extends PolicyField>(field: K, value: VerificationPolicy[K]) => {
+    setValues(current => current ? { ...current, [field]: value } : current)
+    setPreview(null)
+  }
+
+  const toggleOverride = (field: PolicyField) => {
+    setOverridden(current => ({ ...current, [field]: !current[field] }))
+    setPreview(null)
+  }
+
+  const submit = async (method: 'PUT' | 'DELETE' | 'PREVIEW') => {
+    if (scope.type !== 'default' && !scope.value) {
+      setError(`Choose a ${SCOPE_LABELS[scope.type].toLowerCase()} first`)
+      return
+    }
+
+    setWorking(true)
+    setError(null)
+    setMessage(null)
+
+    try {
+      const response = method === 'DELETE'
+        ? await fetch(`/api/settings/verification-rules?type=${scope.type}&value=${encodeURIComponent(scope.value!)}`, { method })
+        : await fetch(method === 'PREVIEW' ? '/api/settings/verification-rules/preview' : '/api/settings/verification-rules', {
+            method: method === 'PREVIEW' ? 'POST' : 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ scope, rules: draftRules() })
+          })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Request failed')
+      }
+
+      if (method === 'PREVIEW') {
+        setPreview(data)
+        return
+      }
+
+      const updated = await fetchPolicies()
+      if (updated) {
+        selectScope(method === 'DELETE' ? { type: 'default', value: null } : scope, updated)
+      }
+      setMessage(method === 'DELETE'
+        ? 'Override removed. Those classes now follow the less specific policy.'
+        : 'Policy saved. It applies to attendance recorded or reviewed from now on.')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  if (loading || !values) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-500"></div>
+      </div>
+    )
+  }
+
+  const renderField = (field: PolicyField) => {
+    const disabled = !overridden[field]
+
+    switch (field) {
+      case 'requireQrCheckIn':
+      case 'requireCheckOut':
+        return (
+          <input
+            type="checkbox"
+            className="h-4 w-4 text-indigo-600 border-gray-300 rounded"
+            checked={values[field]}
+            disabled={disabled}
+            onChange={e => setField(field, e.target.checked)}
+          />
+        )
+      case 'minimumSessionDurationPercentage':
+        return (
+          <input
+            type="number"
+            min={0}
+            max={100}
+            className={inputClass}
+            value={Math.round(values.minimumSessionDurationPercentage * 100)}
+            disabled={disabled}
+            onChange={e => setField(field, Number(e.target.value) / 100)}
+          />
+        )
+      case 'maxLateMinutes':
+        return (
+          <input
+            type="number"
+            min={0}
+            max={240}
+            placeholder="Not enforced"
+            className={inputClass}
+            value={values.maxLateMinutes ?? ''}
+            disabled={disabled}
+            onChange={e => setField(field, e.target.value === '' ? null : Number(e.target.value))}
+          />
+        )
+      case 'supervisorPresentStatuses':
+        return (
+          <div className="flex flex-wrap gap-3">
+            {SUPERVISOR_STATUSES.map(option => (
+              <label key={option.value} className="inline-flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 mr-1 text-indigo-600 border-gray-300 rounded"
+                  checked={values.supervisorPresentStatuses.includes(option.value)}
+                  disabled={disabled}
+                  onChange={e => setField(field, e.target.checked
+                    ? [...values.supervisorPresentStatuses, option.value]
+                    : values.supervisorPresentStatuses.filter(value => value !== option.value))}
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+        )
+      default:
+        return (
+          <input
+            type="number"
+            min={0}
+            className={inputClass}
+            value={values[field]}
+            disabled={disabled}
+            onChange={e => setField(field, Number(e.target.value))}
+          />
+        )
+    }
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+          <ShieldCheckIcon className="h-8 w-8 mr-2 text-indigo-600" />
+          Verification Rules
+        </h1>
+        <p className="mt-2 text-gray-600">
+          Every attendance record is checked against the policy for its class. Overrides for a programme,
+          delivery mode or session type are layered on the policy for all classes, in that order, so the
+          most specific setting wins. Fields that are not overridden are inherited.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-4 rounded-md bg-red-50 p-4 text-sm text-red-700">{error}</div>
+      )}
+      {message && (
+        <div className="mb-4 rounded-md bg-green-50 p-4 text-sm text-green-700">{message}</div>
+      )}
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+        <div className="bg-white shadow rounded-lg p-4">
+          <h2 className="text-sm font-medium text-gray-900 mb-3">Saved policies</h2>
+          <ul className="space-y-2">
+            {[{ scope: { type: 'default', value: null } as PolicyScope, rules: findPolicy({ type: 'default', value: null })?.rules ?? {} },
+              ...policies.filter(policy => policy.scope.type !== 'default')].map(policy => (
+              <li key={`${policy.scope.type}:${policy.scope.value}`}>
+                <button
+                  onClick={() => selectScope(policy.scope)}
+                  className={`w-full text-left px-3 py-2 rounded-md text-sm ${
+                    policy.scope.type === scope.type && policy.scope.value === scope.value
+                      ? 'bg-indigo-50 text-indigo-700'
+                      : 'text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {scopeLabel(policy.scope)}
+                  <span className="block text-xs text-gray-500">
+                    {Object.keys(policy.rules).length} field{Object.keys(policy.rules).length === 1 ? '' : 's'} overridden
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="bg-white shadow rounded-lg p-6 lg:col-span-2 space-y-5">
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Applies to</label>
+              <select
+                className={inputClass}
+                value={scope.type}
+                onChange={e => {
+                  const type = e.target.value as PolicyScopeType
+                  selectScope({ type, value: type === 'default' ? null : '' })
+                }}
+              >
+                {(Object.keys(SCOPE_LABELS) as PolicyScopeType[]).map(type => (
+                  <option key={type} value={type}>{SCOPE_LABELS[type]}</option>
+                ))}
+              </select>
+            </div>
+            {scope.type !== 'default' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{SCOPE_LABELS[scope.type]}</label>
+                <select
+                  className={inputClass}
+                  value={scope.value ?? ''}
+                  onChange={e => selectScope({ type: scope.type, value: e.target.value })}
+                >
+                  <option value="">Select...</option>
+                  {scope.type === 'programme' && programmes.map(programme => (
+                    <option key={programme.id} value={programme.id}>{programme.name}</option>
+                  ))}
+                  {scope.type === 'delivery_mode' && DELIVERY_MODES.map(mode => (
+                    <option key={mode.value} value={mode.value}>{mode.label}</option>
+                  ))}
+                  {scope.type === 'session_type' && SESSION_TYPES.map(type => (
+                    <option key={type} value={type}>{type}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+
+          <div className="divide-y divide-gray-100">
+            {(Object.keys(FIELD_LABELS) as PolicyField[]).map(field => (
+              <div key={field} className="py-3 grid grid-cols-1 gap-2 sm:grid-cols-5 sm:items-center">
+                <label className="sm:col-span-2 inline-flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4 mr-2 text-indigo-600 border-gray-300 rounded"
+                    checked={!!overridden[field]}
+                    onChange={() => toggleOverride(field)}
+                    title="Override this field"
+                  />
+                  {FIELD_LABELS[field]}
+                </label>
+                <div className="sm:col-span-3">{renderField(field)}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap justify-end gap-3">
+            {scope.type !== 'default' && findPolicy(scope) && (
+              <button
+                onClick={() => submit('DELETE')}
+                disabled={working}
+                className="inline-flex items-center px-4 py-2 border border-red-300 text-sm font-medium rounded-md text-red-700 bg-white hover:bg-red-50 disabled:opacity-50"
+              >
+                <TrashIcon className="h-4 w-4 mr-2" />
+                Remove Override
+              </button>
+            )}
+            <button
+              onClick={() => submit('PREVIEW')}
+              disabled={working}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              Preview
+            </button>
+            <button
+              onClick={() => submit('PUT')}
+              disabled={working}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {working ? 'Working...' : 'Save Policy'}
+            </button>
+          </div>
+
+          {preview && (
+            <div className="border-t border-gray-200 pt-5">
+              <h3 className="text-sm font-medium text-gray-900">
+                Preview against the last {preview.evaluated} attendance record{preview.evaluated === 1 ? '' : 's'} in this scope
+              </h3>
+              <div className="mt-3 grid grid-cols-2 gap-3 sm:grid-cols-4">
+                <div className="rounded-md bg-green-50 p-3 text-sm text-green-800">{preview.passed} pass</div>
+                <div className="rounded-md bg-red-50 p-3 text-sm text-red-800">{preview.failed} fail</div>
+                <div className="rounded-md bg-gray-50 p-3 text-sm text-gray-700">{preview.pending} pending</div>
+                <div className="rounded-md bg-yellow-50 p-3 text-sm text-yellow-800">{preview.changed} change outcome</div>
+              </div>
+
+              <table className="mt-4 min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs font-medium text-gray-500 uppercase">
+                    <th className="py-2">Rule</th>
+                    <th className="py-2">Pass</th>
+                    <th className="py-2">Fail</th>
+                    <th className="py-2">Pending</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {(Object.keys(preview.rules) as VerificationRule[]).map(rule => (
+                    <tr key={rule}>
+                      <td className="py-2 text-gray-900">{RULE_LABELS[rule]}</td>
+                      <td className="py-2 text-green-700">{preview.rules[rule]!.passed}</td>
+                      <td className="py-2 text-red-700">{preview.rules[rule]!.failed}</td>
+                      <td className="py-2 text-gray-500">{preview.rules[rule]!.pending}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {preview.samples.length > 0 && (
+                <>
+                  <h4 className="mt-5 text-sm font-medium text-gray-900">Records that would change</h4>
+                  <ul className="mt-2 divide-y divide-gray-100 text-sm">
+                    {preview.samples.map(sample => (
+                      <li key={sample.id} className="py-2 flex justify-between">
+                        <span className="text-gray-900">
+                          {sample.course} · {sample.lecturer}
+                          <span className="ml-2 text-xs text-gray-500">{new Date(sample.timestamp).toLocaleString()}</span>
+                        </span>
+                        <span className="text-gray-600">
+                          {outcomeLabel(sample.currentPassed)} → {outcomeLabel(sample.previewPassed)}
+                          {sample.failedRules.length > 0 && (
+                            <span className="ml-2 text-xs text-red-600">
+                              ({sample.failedRules.map(rule => RULE_LABELS[rule]).join(', ')})
+                            </span>
+                          )}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
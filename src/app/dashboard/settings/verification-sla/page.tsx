@@ -0,0 +1,151 @@
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { useEffect, useState } from 'react'
+import { BellAlertIcon } from '@heroicons/react/24/outline'
+import type { VerificationSlaSettings } from '@/lib/verification-requests'
+
+const inputClass = 'block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500'
+
+const PRIORITIES: { key: keyof VerificationSlaSettings; label: string }[] = [
+  { key: 'urgent', label: 'Urgent' },
+  { key: 'high', label: 'High' },
+  { key: 'normal', label: 'Normal' },
+  { key: 'low', label: 'Low' }
+]
+
+export default function VerificationSlaSettingsPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [form, setForm] = useState<Record<keyof VerificationSlaSettings, string>>({ urgent: '', high: '', normal: '', low: '' })
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (status === 'loading') return
+
+    if (!session || session.user.role !== 'ADMIN') {
+      router.push('/dashboard')
+      return
+    }
+
+    fetchSettings()
+  }, [session, status, router])
+
+  const fetchSettings = async () => {
+    try {
+      const response = await fetch('/api/settings/verification-sla')
+      if (response.ok) {
+        const data: VerificationSlaSettings = await response.json()
+        setForm({
+          urgent: String(data.urgent),
+          high: String(data.high),
+          normal: String(data.normal),
+          low: String(data.low)
+        })
+      } else {
+        setError('Failed to load SLA settings')
+      }
+    } catch (error) {
+      console.error('Error fetching verification SLA settings:', error)
+      setError('Failed to load SLA settings')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    setError(null)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/settings/verification-sla', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          urgent: Number(form.urgent),
+          high: Number(form.high),
+          normal: Number(form.normal),
+          low: Number(form.low)
+        })
+      })
+
+      if (response.ok) {
+        setMessage('SLA hours saved. Open requests keep their current due time until their next status change.')
+      } else {
+        const data = await response.json()
+        setError(data.error || 'Failed to save SLA settings')
+      }
+    } catch (error) {
+      console.error('Error saving verification SLA settings:', error)
+      setError('Failed to save SLA settings')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-500"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+          <BellAlertIcon className="h-8 w-8 mr-2 text-indigo-600" />
+          Verification SLAs
+        </h1>
+        <p className="mt-2 text-gray-600">
+          Pending and disputed verification requests still open after these hours are escalated to the
+          programme coordinator. Escalated requests get a new SLA and appear as breached if it runs out.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-4 rounded-md bg-red-50 p-4 text-sm text-red-700">{error}</div>
+      )}
+      {message && (
+        <div className="mb-4 rounded-md bg-green-50 p-4 text-sm text-green-700">{message}</div>
+      )}
+
+      <form onSubmit={handleSubmit} className="bg-white shadow rounded-lg p-6 space-y-6">
+        {PRIORITIES.map(({ key, label }) => (
+          <div key={key}>
+            <label htmlFor={key} className="block text-sm font-medium text-gray-700 mb-1">
+              {label} priority (hours)
+            </label>
+            <input
+              id={key}
+              type="number"
+              min={1}
+              max={720}
+              required
+              value={form[key]}
+              onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+        ))}
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={saving}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,369 @@
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { useEffect, useState } from 'react'
+import { CheckCircleIcon, ExclamationTriangleIcon, MapIcon, TrashIcon } from '@heroicons/react/24/outline'
+import type { PatrolCoverage, PatrolStop } from '@/lib/supervisor-assignments'
+
+interface Assignment {
+  id: string
+  supervisorId: string
+  buildingId: string
+  floor: number | null
+  dayOfWeek: number | null
+  startTime: string
+  endTime: string
+  isActive: boolean
+  supervisor: { id: string; firstName: string; lastName: string; email: string }
+  building: { id: string; name: string; code: string; totalFloors: number | null }
+}
+
+interface Option {
+  id: string
+  label: string
+}
+
+const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+const EMPTY_FORM = { supervisorId: '', buildingId: '', floor: '', dayOfWeek: '', startTime: '08:00', endTime: '17:00' }
+
+const inputClass = 'block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500'
+
+function describeFloor(floor: number | null) {
+  if (floor === null) return 'All floors'
+  return floor === 0 ? 'Ground floor' : `Floor ${floor}`
+}
+
+export default function SupervisorAssignmentsPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [assignments, setAssignments] = useState<Assignment[]>([])
+  const [supervisors, setSupervisors] = useState<Option[]>([])
+  const [buildings, setBuildings] = useState<Option[]>([])
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [coverageDate, setCoverageDate] = useState(new Date().toISOString().split('T')[0])
+  const [coverage, setCoverage] = useState<{ summary: PatrolCoverage; stops: PatrolStop[] } | null>(null)
+  const [uncheckedOnly, setUncheckedOnly] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (status === 'loading') return
+
+    if (!session || session.user.role !== 'ADMIN') {
+      router.push('/dashboard')
+      return
+    }
+
+    fetchAssignments()
+    fetchOptions()
+  }, [session, status, router])
+
+  useEffect(() => {
+    if (session?.user.role !== 'ADMIN') return
+    fetchCoverage()
+  }, [session, coverageDate])
+
+  const fetchAssignments = async () => {
+    try {
+      const response = await fetch('/api/supervisor/assignments')
+      if (response.ok) {
+        setAssignments(await response.json())
+      } else {
+        setError('Failed to load assignments')
+      }
+    } catch (error) {
+      console.error('Error fetching supervisor assignments:', error)
+      setError('Failed to load assignments')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchOptions = async () => {
+    try {
+      const [usersResponse, buildingsResponse] = await Promise.all([
+        fetch('/api/users'),
+        fetch('/api/buildings')
+      ])
+
+      if (usersResponse.ok) {
+        const users: { id: string; firstName: string; lastName: string; role: string; isActive: boolean }[] = await usersResponse.json()
+        setSupervisors(users
+          .filter(user => user.role === 'SUPERVISOR' && user.isActive)
+          .map(user => ({ id: user.id, label: `${user.firstName} ${user.lastName}` })))
+      }
+
+      if (buildingsResponse.ok) {
+        const data: { id: string; name: string; code: string }[] = await buildingsResponse.json()
+        setBuildings(data.map(building => ({ id: building.id, label: `${building.name} (${building.code})` })))
+      }
+    } catch (error) {
+      console.error('Error fetching supervisors and buildings:', error)
+    }
+  }
+
+  const fetchCoverage = async () => {
+    try {
+      const response = await fetch(`/api/supervisor/coverage?date=${coverageDate}`)
+      if (response.ok) {
+        setCoverage(await response.json())
+      }
+    } catch (error) {
+      console.error('Error fetching patrol coverage:', error)
+    }
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    try {
+      const response = await fetch('/api/supervisor/assignments', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          supervisorId: form.supervisorId,
+          buildingId: form.buildingId,
+          floor: form.floor === '' ? null : Number(form.floor),
+          dayOfWeek: form.dayOfWeek === '' ? null : Number(form.dayOfWeek),
+          startTime: form.startTime,
+          endTime: form.endTime
+        })
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to create assignment')
+      }
+
+      setForm({ ...EMPTY_FORM, supervisorId: form.supervisorId })
+      await Promise.all([fetchAssignments(), fetchCoverage()])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  const handleToggle = async (assignment: Assignment) => {
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/supervisor/assignments/${assignment.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          supervisorId: assignment.supervisorId,
+          buildingId: assignment.buildingId,
+          floor: assignment.floor,
+          dayOfWeek: assignment.dayOfWeek,
+          startTime: assignment.startTime,
+          endTime: assignment.endTime,
+          isActive: !assignment.isActive
+        })
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to update assignment')
+      }
+
+      await Promise.all([fetchAssignments(), fetchCoverage()])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Remove this assignment?')) return
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/supervisor/assignments/${id}`, { method: 'DELETE' })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to remove assignment')
+      }
+
+      await Promise.all([fetchAssignments(), fetchCoverage()])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  if (status === 'loading' || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-indigo-500"></div>
+      </div>
+    )
+  }
+
+  const supervisorNames = new Map(supervisors.map(supervisor => [supervisor.id, supervisor.label]))
+  const stops = coverage?.stops.filter(stop => !uncheckedOnly || !stop.checked) ?? []
+
+  return (
+    <div className="p-6">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-900">Supervisor Patrols</h1>
+        <p className="mt-2 text-sm text-gray-700">
+          Assign supervisors to buildings or single floors for blocks of time. Supervisors only see and verify the
+          in-person classes their assignments cover; administrators can verify any class.
+        </p>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4 mb-6">
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+
+      <form onSubmit={handleCreate} className="bg-white shadow rounded-lg p-4 mb-8 grid grid-cols-1 gap-4 md:grid-cols-7 items-end">
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Supervisor</label>
+          <select required className={inputClass} value={form.supervisorId} onChange={e => setForm({ ...form, supervisorId: e.target.value })}>
+            <option value="">Select a supervisor</option>
+            {supervisors.map(supervisor => (
+              <option key={supervisor.id} value={supervisor.id}>{supervisor.label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Building</label>
+          <select required className={inputClass} value={form.buildingId} onChange={e => setForm({ ...form, buildingId: e.target.value })}>
+            <option value="">Select a building</option>
+            {buildings.map(building => (
+              <option key={building.id} value={building.id}>{building.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Floor</label>
+          <input type="number" min={0} placeholder="All" className={inputClass} value={form.floor} onChange={e => setForm({ ...form, floor: e.target.value })} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Day</label>
+          <select className={inputClass} value={form.dayOfWeek} onChange={e => setForm({ ...form, dayOfWeek: e.target.value })}>
+            <option value="">Every day</option>
+            {DAYS.map((day, index) => (
+              <option key={day} value={index}>{day}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex space-x-2">
+          <input type="time" required className={inputClass} value={form.startTime} onChange={e => setForm({ ...form, startTime: e.target.value })} />
+          <input type="time" required className={inputClass} value={form.endTime} onChange={e => setForm({ ...form, endTime: e.target.value })} />
+        </div>
+        <div className="md:col-span-7 flex justify-end">
+          <button type="submit" className="inline-flex items-center rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700">
+            Add Assignment
+          </button>
+        </div>
+      </form>
+
+      <div className="bg-white shadow overflow-hidden sm:rounded-md mb-8">
+        {assignments.length === 0 ? (
+          <div className="px-6 py-12 text-center">
+            <MapIcon className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No assignments</h3>
+            <p className="mt-1 text-sm text-gray-500">Supervisors without an assignment have no classes to patrol.</p>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr className="text-left text-gray-500">
+                <th className="px-6 py-3">Supervisor</th>
+                <th className="px-6 py-3">Building</th>
+                <th className="px-6 py-3">Floor</th>
+                <th className="px-6 py-3">Day</th>
+                <th className="px-6 py-3">Hours</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {assignments.map(assignment => (
+                <tr key={assignment.id} className={assignment.isActive ? '' : 'text-gray-400'}>
+                  <td className="px-6 py-3">{assignment.supervisor.firstName} {assignment.supervisor.lastName}</td>
+                  <td className="px-6 py-3">{assignment.building.name}</td>
+                  <td className="px-6 py-3">{describeFloor(assignment.floor)}</td>
+                  <td className="px-6 py-3">{assignment.dayOfWeek === null ? 'Every day' : DAYS[assignment.dayOfWeek]}</td>
+                  <td className="px-6 py-3">{assignment.startTime} - {assignment.endTime}</td>
+                  <td className="px-6 py-3 text-right space-x-3">
+                    <button onClick={() => handleToggle(assignment)} className="text-indigo-600 hover:text-indigo-500">
+                      {assignment.isActive ? 'Pause' : 'Resume'}
+                    </button>
+                    <button onClick={() => handleDelete(assignment.id)} className="text-red-600 hover:text-red-500" title="Remove">
+                      <TrashIcon className="inline h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-4">
+        <h2 className="text-lg font-medium text-gray-900">Coverage</h2>
+        <div className="flex items-center space-x-4">
+          <label className="flex items-center text-sm text-gray-700">
+            <input type="checkbox" className="mr-2" checked={uncheckedOnly} onChange={e => setUncheckedOnly(e.target.checked)} />
+            Never checked only
+          </label>
+          <input type="date" className={inputClass} value={coverageDate} onChange={e => setCoverageDate(e.target.value)} />
+        </div>
+      </div>
+
+      {coverage && (
+        <>
+          <div className="grid grid-cols-2 gap-4 md:grid-cols-4 mb-4">
+            {[
+              { label: 'In-person classes', value: coverage.summary.total },
+              { label: 'Checked', value: `${coverage.summary.checked} (${Math.round(coverage.summary.coverageRate * 100)}%)` },
+              { label: 'Never checked', value: coverage.summary.unchecked },
+              { label: 'No supervisor assigned', value: coverage.summary.unassigned }
+            ].map(card => (
+              <div key={card.label} className="bg-white shadow rounded-lg p-4">
+                <p className="text-sm text-gray-500">{card.label}</p>
+                <p className="mt-1 text-2xl font-semibold text-gray-900">{card.value}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-white shadow overflow-hidden sm:rounded-md">
+            {stops.length === 0 ? (
+              <p className="px-6 py-8 text-center text-sm text-gray-500">No classes to show for this day.</p>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {stops.map(stop => (
+                  <li key={stop.classSessionId ?? `${stop.scheduleId}-${stop.startTime}`} className="px-6 py-3 flex items-start justify-between text-sm">
+                    <div>
+                      <p className="font-medium text-gray-900">
+                        {stop.buildingName} · {describeFloor(stop.floor)} · {stop.roomCode}
+                        {stop.isMakeUp && <span className="ml-2 text-xs text-indigo-600">make-up</span>}
+                      </p>
+                      <p className="text-gray-500">
+                        {stop.startTime}-{stop.endTime} · {stop.courseCode} {stop.courseTitle} ({stop.classGroupName}) · {stop.lecturerName}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {stop.supervisorIds.length
+                          ? stop.supervisorIds.map(id => supervisorNames.get(id) ?? 'Unknown supervisor').join(', ')
+                          : 'No supervisor assigned'}
+                      </p>
+                    </div>
+                    {stop.checked ? (
+                      <span className="inline-flex items-center text-green-700"><CheckCircleIcon className="mr-1 h-4 w-4" /> {stop.logStatus}</span>
+                    ) : (
+                      <span className="inline-flex items-center text-amber-700"><ExclamationTriangleIcon className="mr-1 h-4 w-4" /> Not checked</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -4,6 +4,7 @@ import { useSession } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
 import { useEffect, useState } from 'react'
 import Link from 'next/link'
+import { useRealtimeEvents } from '@/hooks/useRealtimeEvents'
 
 interface Schedule {
   id: string
@@ -32,6 +33,7 @@ interface Schedule {
     id: string
     name: string
     roomCode: string
+    floor: number | null
     virtualLink: string | null
   }
   meetingLink?: string | null
@@ -90,6 +92,13 @@ export default function SupervisorDashboard() {
     }
   }
 
+  // Check-ins and other supervisors' visits show up as they happen
+  useRealtimeEvents(
+    ['attendance.recorded', 'attendance.verified'],
+    () => fetchSchedules(),
+    session?.user.role === 'SUPERVISOR' || session?.user.role === 'ADMIN'
+  )
+
   const openVerification = (schedule: Schedule) => {
     setVerifyingId(schedule.id)
     setVerificationStatus(schedule.verificationStatus !== 'pending' ? schedule.verificationStatus : 'ongoing')
@@ -165,7 +174,9 @@ export default function SupervisorDashboard() {
           <ul role="list" className="divide-y divide-gray-200">
             {schedules.length === 0 ? (
               <li className="px-4 py-8 text-center text-gray-500">
-                No classes scheduled for today.
+                {session?.user.role === 'SUPERVISOR'
+                  ? 'No classes scheduled for today in the buildings you are assigned to.'
+                  : 'No classes scheduled for today.'}
               </li>
             ) : (
               schedules.map((schedule) => (
@@ -208,7 +219,7 @@ export default function SupervisorDashboard() {
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
                           </svg>
-                          {schedule.classroom.roomCode} ({schedule.building.name})
+                          {schedule.classroom.roomCode} ({schedule.building.name}{schedule.classroom.floor !== null && `, floor ${schedule.classroom.floor}`})
                         </p>
                         {schedule.meetingLink && (
                              <p className="mt-2 flex items-center text-sm text-blue-500 sm:mt-0 sm:ml-6">
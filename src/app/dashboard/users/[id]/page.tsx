@@ -14,6 +14,9 @@ interface User {
   isActive: boolean
   createdAt: string
   updatedAt: string
+  twoFactorAuth?: {
+    enabledAt: string | null
+  } | null
   profile?: {
     phoneNumber?: string
     dateOfBirth?: string
@@ -111,6 +114,27 @@ export default function UserDetailPage({ params }: { params: Promise<{ id: strin
     }
   }
 
+  const resetTwoFactor = async () => {
+    if (!user) return
+
+    if (!confirm(`Reset two-factor authentication for ${user.firstName} ${user.lastName}? They will sign in with their password alone, or be asked to set it up again if their role requires it.`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/users/${resolvedParams.id}/two-factor`, { method: 'DELETE' })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to reset two-factor authentication')
+      }
+
+      setUser(prev => prev ? { ...prev, twoFactorAuth: null } : null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reset two-factor authentication')
+    }
+  }
+
   if (status === 'loading' || loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -236,6 +260,10 @@ export default function UserDetailPage({ params }: { params: Promise<{ id: strin
                   </span>
                 </dd>
               </div>
+              <div>
+                <dt className="text-sm font-medium text-gray-500">Two-Factor Authentication</dt>
+                <dd className="mt-1 text-sm text-gray-900">{user.twoFactorAuth?.enabledAt ? 'On' : 'Off'}</dd>
+              </div>
               <div>
                 <dt className="text-sm font-medium text-gray-500">Created</dt>
                 <dd className="mt-1 text-sm text-gray-900">{formatDate(user.createdAt)}</dd>
@@ -359,6 +387,14 @@ export default function UserDetailPage({ params }: { params: Promise<{ id: strin
               >
                 {user.isActive ? 'Deactivate User' : 'Activate User'}
               </button>
+              {user.twoFactorAuth && user.id !== session.user.id && (
+                <button
+                  onClick={resetTwoFactor}
+                  className="block w-full text-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                >
+                  Reset Two-Factor Authentication
+                </button>
+              )}
             </div>
           </div>
 
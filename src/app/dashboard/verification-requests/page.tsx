@@ -5,12 +5,28 @@ import { useSession } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
 import Image from 'next/image'
 
+type RequestStatus = 'pending' | 'disputed' | 'escalated' | 'approved' | 'rejected' | 'withdrawn'
+
+type TransitionTarget = Exclude<RequestStatus, 'pending'>
+
 interface VerificationRequest {
   id: string
-  status: 'pending' | 'approved' | 'rejected' | 'disputed'
+  status: RequestStatus
+  priority: string
   createdAt: string
   reviewedAt?: string
   escalatedAt?: string
+  slaDueAt?: string
+  slaBreached: boolean
+  slaBreachedAt?: string
+  allowedTransitions: TransitionTarget[]
+  transitions: {
+    fromStatus: string | null
+    toStatus: string
+    actorRole: string
+    comment: string | null
+    createdAt: string
+  }[]
   verificationNotes?: string
   reviewNotes?: string
   evidenceUrls: string[]
@@ -70,6 +86,26 @@ export interface PendingAttendanceRecord {
   gpsLongitude?: number
 }
 
+const TRANSITION_ACTIONS: Record<TransitionTarget, { label: string; className: string }> = {
+  approved: { label: 'Approve', className: 'bg-green-600 hover:bg-green-700 focus:ring-green-500' },
+  rejected: { label: 'Reject', className: 'bg-red-600 hover:bg-red-700 focus:ring-red-500' },
+  disputed: { label: 'Dispute', className: 'bg-purple-600 hover:bg-purple-700 focus:ring-purple-500' },
+  escalated: { label: 'Escalate', className: 'bg-orange-600 hover:bg-orange-700 focus:ring-orange-500' },
+  withdrawn: { label: 'Withdraw', className: 'bg-gray-600 hover:bg-gray-700 focus:ring-gray-500' }
+}
+
+const PRIORITY_STYLES: Record<string, string> = {
+  urgent: 'bg-red-100 text-red-800',
+  high: 'bg-orange-100 text-orange-800',
+  normal: 'bg-gray-100 text-gray-800',
+  low: 'bg-blue-100 text-blue-800'
+}
+
+function formatOverdue(dueAt: string) {
+  const hours = Math.floor((Date.now() - new Date(dueAt).getTime()) / (60 * 60 * 1000))
+  return hours >= 24 ? `${Math.floor(hours / 24)}d ${hours % 24}h overdue` : `${hours}h overdue`
+}
+
 export default function VerificationRequestsPage() {
   const { data: session, status } = useSession()
   const router = useRouter()
@@ -91,13 +127,17 @@ export default function VerificationRequestsPage() {
     technicalIssues: '',
     additionalNotes: ''
   })
+  const [priority, setPriority] = useState('normal')
   const [reviewNotes, setReviewNotes] = useState('')
   const [selectedRequest, setSelectedRequest] = useState<string | null>(null)
+  const [showBreachedOnly, setShowBreachedOnly] = useState(false)
+
+  const canSeeBreaches = ['ADMIN', 'COORDINATOR'].includes(session?.user.role || '')
 
   useEffect(() => {
     if (status === 'loading') return
     
-    if (!session || !['SUPERVISOR', 'LECTURER', 'ADMIN', 'ACADEMIC_COORDINATOR'].includes(session.user.role)) {
+    if (!session || !['SUPERVISOR', 'LECTURER', 'ADMIN', 'COORDINATOR'].includes(session.user.role)) {
       router.push('/dashboard')
       return
     }
@@ -170,6 +210,7 @@ export default function VerificationRequestsPage() {
         },
         body: JSON.stringify({
           attendanceRecordId,
+          priority,
           evidenceUrls,
           verificationNotes: verificationNotes.trim() || undefined,
           studentAttendanceData: {
@@ -199,7 +240,7 @@ export default function VerificationRequestsPage() {
     }
   }
 
-  const updateVerificationRequest = async (requestId: string, status: 'approved' | 'rejected' | 'disputed', escalate = false) => {
+  const updateVerificationRequest = async (requestId: string, status: TransitionTarget) => {
     setUpdating(requestId)
     
     try {
@@ -211,8 +252,7 @@ export default function VerificationRequestsPage() {
         body: JSON.stringify({
           verificationRequestId: requestId,
           status,
-          reviewNotes: reviewNotes.trim() || undefined,
-          escalate
+          reviewNotes: reviewNotes.trim() || undefined
         })
       })
 
@@ -234,6 +274,7 @@ export default function VerificationRequestsPage() {
   }
 
   const resetForm = () => {
+    setPriority('normal')
     setVerificationNotes('')
     setEvidenceFiles([])
     setStudentData({
@@ -254,7 +295,9 @@ export default function VerificationRequestsPage() {
       pending: 'bg-yellow-100 text-yellow-800',
       approved: 'bg-green-100 text-green-800',
       rejected: 'bg-red-100 text-red-800',
-      disputed: 'bg-purple-100 text-purple-800'
+      disputed: 'bg-purple-100 text-purple-800',
+      escalated: 'bg-orange-100 text-orange-800',
+      withdrawn: 'bg-gray-100 text-gray-800'
     }
     
     return (
@@ -279,6 +322,9 @@ export default function VerificationRequestsPage() {
     )
   }
 
+  const breachedRequests = verificationRequests.filter(request => request.slaBreached)
+  const visibleRequests = showBreachedOnly ? breachedRequests : verificationRequests
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -401,6 +447,23 @@ export default function VerificationRequestsPage() {
                         <div className="bg-gray-50 rounded-lg p-6 mt-4">
                           <h4 className="text-lg font-medium text-gray-900 mb-4">Create Detailed Verification Request</h4>
                           
+                          {/* Priority sets the SLA for a response */}
+                          <div className="mb-4">
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                              Priority
+                            </label>
+                            <select
+                              value={priority}
+                              onChange={(e) => setPriority(e.target.value)}
+                              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                            >
+                              <option value="low">Low</option>
+                              <option value="normal">Normal</option>
+                              <option value="high">High</option>
+                              <option value="urgent">Urgent</option>
+                            </select>
+                          </div>
+
                           {/* Verification Notes */}
                           <div className="mb-4">
                             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -563,19 +626,62 @@ export default function VerificationRequestsPage() {
         </div>
       )}
 
+      {/* SLA Breaches */}
+      {canSeeBreaches && breachedRequests.length > 0 && (
+        <div className="bg-white rounded-lg shadow border border-red-200 mb-6">
+          <div className="px-6 py-4 border-b border-red-200 flex items-center justify-between">
+            <div>
+              <h2 className="text-lg font-medium text-red-800">
+                SLA Breaches ({breachedRequests.length})
+              </h2>
+              <p className="text-sm text-gray-600 mt-1">
+                Open requests past their response deadline. Pending and disputed requests are escalated to the programme coordinator automatically.
+              </p>
+            </div>
+            <button
+              onClick={() => setShowBreachedOnly(!showBreachedOnly)}
+              className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              {showBreachedOnly ? 'Show all requests' : 'Show breached only'}
+            </button>
+          </div>
+          <div className="px-6 py-4 grid grid-cols-2 md:grid-cols-4 gap-4">
+            {['urgent', 'high', 'normal', 'low'].map(level => (
+              <div key={level} className="text-center">
+                <p className="text-2xl font-semibold text-gray-900">
+                  {breachedRequests.filter(request => request.priority === level).length}
+                </p>
+                <p className="text-xs uppercase tracking-wide text-gray-500">{level}</p>
+              </div>
+            ))}
+          </div>
+          <ul className="divide-y divide-gray-100 border-t border-gray-100">
+            {breachedRequests.map(request => (
+              <li key={request.id} className="px-6 py-3 flex items-center justify-between text-sm">
+                <div>
+                  <span className="font-medium text-gray-900">{request.attendanceRecord.course.courseCode}</span>
+                  <span className="text-gray-500"> · {request.attendanceRecord.lecturer.name} · {request.status}</span>
+                </div>
+                <span className="text-red-600">{request.slaDueAt && formatOverdue(request.slaDueAt)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Verification Requests Tab */}
       {(activeTab === 'requests' || session?.user.role !== 'CLASS_REP') && (
         <div className="bg-white rounded-lg shadow border border-gray-200">
           <div className="px-6 py-4 border-b border-gray-200">
             <h2 className="text-lg font-medium text-gray-900">
-              Verification Requests ({verificationRequests.length})
+              Verification Requests ({visibleRequests.length})
             </h2>
             <p className="text-sm text-gray-600 mt-1">
               Review and manage verification requests with detailed evidence
             </p>
           </div>
           
-          {verificationRequests.length === 0 ? (
+          {visibleRequests.length === 0 ? (
             <div className="p-8 text-center">
               <div className="text-gray-500">
                 <svg className="mx-auto h-12 w-12 text-gray-400 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -587,7 +693,7 @@ export default function VerificationRequestsPage() {
             </div>
           ) : (
             <div className="divide-y divide-gray-200">
-              {verificationRequests.map((request) => (
+              {visibleRequests.map((request) => (
                 <div key={request.id} className="p-6">
                   <div className="flex items-start justify-between mb-4">
                     <div className="flex-1">
@@ -601,6 +707,14 @@ export default function VerificationRequestsPage() {
                           </p>
                         </div>
                         {getStatusBadge(request.status)}
+                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${PRIORITY_STYLES[request.priority] || PRIORITY_STYLES.normal}`}>
+                          {request.priority}
+                        </span>
+                        {request.slaBreached && request.slaDueAt && (
+                          <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-red-100 text-red-800">
+                            SLA breached · {formatOverdue(request.slaDueAt)}
+                          </span>
+                        )}
                       </div>
                       
                       <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
@@ -627,6 +741,9 @@ export default function VerificationRequestsPage() {
                           {request.escalatedAt && (
                             <p className="text-xs text-red-500">Escalated: {formatDateTime(request.escalatedAt)}</p>
                           )}
+                          {request.slaDueAt && !request.slaBreached && (
+                            <p className="text-xs text-gray-500">Due: {formatDateTime(request.slaDueAt)}</p>
+                          )}
                         </div>
                       </div>
 
@@ -716,8 +833,23 @@ export default function VerificationRequestsPage() {
                         </div>
                       )}
 
+                      {/* Status History */}
+                      {request.transitions.length > 0 && (
+                        <div className="mb-4">
+                          <p className="text-sm font-medium text-gray-700 mb-1">History</p>
+                          <ol className="text-xs text-gray-600 space-y-1">
+                            {request.transitions.map((transition, index) => (
+                              <li key={index}>
+                                {formatDateTime(transition.createdAt)} · {transition.fromStatus ? `${transition.fromStatus} → ` : ''}{transition.toStatus} by {transition.actorRole.toLowerCase()}
+                                {transition.comment && ` — ${transition.comment}`}
+                              </li>
+                            ))}
+                          </ol>
+                        </div>
+                      )}
+
                       {/* Review Actions */}
-                      {request.status === 'pending' && ['LECTURER', 'ADMIN', 'ACADEMIC_COORDINATOR'].includes(session?.user.role || '') && (
+                      {request.allowedTransitions.length > 0 && (
                         <div className="mt-4">
                           {selectedRequest === request.id ? (
                             <div className="bg-gray-50 rounded-lg p-4">
@@ -730,31 +862,20 @@ export default function VerificationRequestsPage() {
                                   onChange={(e) => setReviewNotes(e.target.value)}
                                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
                                   rows={3}
-                                  placeholder="Add your review comments..."
+                                  placeholder="Add your review comments (required to reject or dispute)..."
                                 />
                               </div>
                               <div className="flex items-center space-x-3">
-                                <button
-                                  onClick={() => updateVerificationRequest(request.id, 'approved')}
-                                  disabled={updating === request.id}
-                                  className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:opacity-50"
-                                >
-                                  Approve
-                                </button>
-                                <button
-                                  onClick={() => updateVerificationRequest(request.id, 'rejected')}
-                                  disabled={updating === request.id}
-                                  className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50"
-                                >
-                                  Reject
-                                </button>
-                                <button
-                                  onClick={() => updateVerificationRequest(request.id, 'disputed', true)}
-                                  disabled={updating === request.id}
-                                  className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-purple-600 hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 disabled:opacity-50"
-                                >
-                                  Dispute & Escalate
-                                </button>
+                                {request.allowedTransitions.map(target => (
+                                  <button
+                                    key={target}
+                                    onClick={() => updateVerificationRequest(request.id, target)}
+                                    disabled={updating === request.id}
+                                    className={`inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white focus:outline-none focus:ring-2 focus:ring-offset-2 disabled:opacity-50 ${TRANSITION_ACTIONS[target].className}`}
+                                  >
+                                    {TRANSITION_ACTIONS[target].label}
+                                  </button>
+                                ))}
                                 <button
                                   onClick={() => {
                                     setSelectedRequest(null)
@@ -771,7 +892,7 @@ export default function VerificationRequestsPage() {
                               onClick={() => setSelectedRequest(request.id)}
                               className="inline-flex items-center px-4 py-2 border border-indigo-300 shadow-sm text-sm leading-4 font-medium rounded-md text-indigo-700 bg-indigo-50 hover:bg-indigo-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
                             >
-                              Review Request
+                              {session?.user.role === 'SUPERVISOR' ? 'Update Request' : 'Review Request'}
                             </button>
                           )}
                         </div>
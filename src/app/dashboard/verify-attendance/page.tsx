@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react'
 import { useSession } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
+import type { RuleResult } from '@/lib/verification-rules'
 
 interface PendingAttendanceRecord {
   id: string
@@ -27,6 +28,7 @@ interface PendingAttendanceRecord {
   method: string
   gpsLatitude?: number
   gpsLongitude?: number
+  ruleResults: RuleResult[]
 }
 
 export default function VerifyAttendancePage() {
@@ -220,7 +222,20 @@ export default function VerifyAttendancePage() {
                       </div>
                     </div>
 
-                    {record.method === 'onsite' && record.gpsLatitude && record.gpsLongitude && (
+                    {record.ruleResults.some(result => result.passed === false) && (
+                      <div className="mb-4">
+                        <p className="text-sm font-medium text-gray-700 mb-1">Failed verification rules</p>
+                        <div className="flex flex-wrap gap-2">
+                          {record.ruleResults.filter(result => result.passed === false).map(result => (
+                            <span key={result.rule} className="inline-flex px-2 py-0.5 text-xs font-medium rounded bg-red-100 text-red-800">
+                              {result.detail}
+                            </span>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    {record.method !== 'virtual' && record.gpsLatitude && record.gpsLongitude && (
                       <div className="mb-4">
                         <p className="text-sm font-medium text-gray-700 mb-1">GPS Coordinates</p>
                         <p className="text-xs text-gray-600">
@@ -4,6 +4,7 @@ import "./globals.css";
 import SessionWrapper from "@/components/providers/SessionWrapper";
 import PWAProvider from "@/components/providers/PWAProvider";
 import MobileNavigation, { QuickActionFAB } from "@/components/mobile/MobileNavigation";
+import ImpersonationBanner from "@/components/ImpersonationBanner";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth-config";
 
@@ -101,6 +102,7 @@ export default async function RootLayout({
       >
         <SessionWrapper initialSession={session}>
           <PWAProvider>
+            <ImpersonationBanner />
             <div className="flex-1 flex flex-col">
               {children}
             </div>
@@ -0,0 +1,62 @@
+'use client'
+
+import { useState } from 'react'
+import { signIn, useSession } from 'next-auth/react'
+import { EyeIcon } from '@heroicons/react/24/outline'
+
+// Shown on every page while an admin is viewing as another user
+export default function ImpersonationBanner() {
+  const { data: session } = useSession()
+  const [exiting, setExiting] = useState(false)
+
+  if (!session?.user?.impersonatorId) {
+    return null
+  }
+
+  const handleExit = async () => {
+    setExiting(true)
+
+    try {
+      const response = await fetch('/api/admin/impersonate', { method: 'DELETE' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to return to your account')
+      }
+
+      const result = await signIn('impersonation', { token: data.token, redirect: false })
+      if (result?.error) {
+        throw new Error(result.error)
+      }
+
+      window.location.href = '/dashboard'
+    } catch (error) {
+      console.error('Error ending impersonation:', error)
+      alert('Could not return to your account. Sign out and sign in again.')
+      setExiting(false)
+    }
+  }
+
+  return (
+    <div className="sticky top-0 z-50 bg-amber-400 text-amber-950">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex flex-wrap items-center justify-between gap-2 text-sm">
+        <p className="flex items-center gap-2">
+          <EyeIcon className="h-5 w-5 shrink-0" />
+          <span>
+            Viewing as <span className="font-semibold">{session.user.name}</span> ({session.user.role.replace('_', ' ').toLowerCase()}).
+            {session.user.impersonatorName && <> Signed in as {session.user.impersonatorName}.</>}
+            {' '}Password changes, claims and attendance are disabled.
+          </span>
+        </p>
+        <button
+          type="button"
+          onClick={handleExit}
+          disabled={exiting}
+          className="px-3 py-1 rounded-md bg-amber-950 text-white font-medium hover:bg-amber-900 disabled:opacity-50"
+        >
+          {exiting ? 'Returning...' : 'Exit'}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -8,7 +8,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Badge } from '@/components/ui/badge'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
-import { Calendar, Download, Search, Shield, AlertTriangle, Activity, Users, TrendingUp } from 'lucide-react'
+import { Calendar, Download, Search, Shield, AlertTriangle, Activity, Users, TrendingUp, Lock, Unlock } from 'lucide-react'
 import { format } from 'date-fns'
 
 interface AuditLog {
@@ -23,6 +23,12 @@ interface AuditLog {
   sessionId?: string
   riskScore?: number
   dataHash?: string
+  impersonatorId?: string | null
+  impersonator?: {
+    firstName: string
+    lastName: string
+    email: string
+  } | null
   timestamp: string
   user: {
     id: string
@@ -42,6 +48,42 @@ interface AuditAnalytics {
   suspiciousActivity: number
 }
 
+interface LoginActivity {
+  days: number
+  recent: {
+    id: string
+    email: string
+    ipAddress?: string
+    device: string
+    outcome: string
+    createdAt: string
+    user?: { firstName: string; lastName: string; role: string }
+  }[]
+  lockedAccounts: {
+    id: string
+    email: string
+    firstName: string
+    lastName: string
+    role: string
+    lockedUntil: string
+  }[]
+  suspiciousAddresses: { ipAddress: string; failures: number }[]
+  targetedAccounts: { email: string; failures: number }[]
+  outcomes: Record<string, number>
+}
+
+const OUTCOME_LABELS: Record<string, string> = {
+  success: 'Signed in',
+  invalid_password: 'Wrong password',
+  invalid_code: 'Wrong 2FA code',
+  unknown_user: 'Unknown account',
+  inactive: 'Inactive account',
+  locked: 'Refused: locked',
+  throttled: 'Refused: throttled',
+  unlocked: 'Unlocked by admin',
+  reset_requested: 'Password reset requested'
+}
+
 interface AuditFilter {
   userId?: string
   action?: string
@@ -68,12 +110,17 @@ export default function AuditTrailDashboard() {
   const [selectedTargetType, setSelectedTargetType] = useState<string>('')
   const [total, setTotal] = useState(0)
   const [hasMore, setHasMore] = useState(false)
+  const [loginActivity, setLoginActivity] = useState<LoginActivity | null>(null)
 
   useEffect(() => {
     fetchAuditLogs()
     fetchAnalytics()
   }, [filter])
 
+  useEffect(() => {
+    fetchLoginActivity()
+  }, [])
+
   const fetchAuditLogs = async () => {
     try {
       setLoading(true)
@@ -115,6 +162,39 @@ export default function AuditTrailDashboard() {
     }
   }
 
+  const fetchLoginActivity = async () => {
+    try {
+      const response = await fetch('/api/audit/logins?days=7')
+      const data = await response.json()
+
+      if (data.success) {
+        setLoginActivity(data.data)
+      }
+    } catch (err) {
+      console.error('Failed to fetch login activity:', err)
+    }
+  }
+
+  const handleUnlock = async (userId: string) => {
+    try {
+      const response = await fetch('/api/audit/logins/unlock', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ userId })
+      })
+
+      if (response.ok) {
+        await fetchLoginActivity()
+      } else {
+        setError('Failed to unlock account')
+      }
+    } catch (err) {
+      setError('Failed to unlock account')
+    }
+  }
+
   const handleSearch = () => {
     setFilter(prev => ({
       ...prev,
@@ -253,6 +333,7 @@ export default function AuditTrailDashboard() {
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="logs">Audit Logs</TabsTrigger>
           <TabsTrigger value="analytics">Analytics</TabsTrigger>
+          <TabsTrigger value="logins">Sign-ins</TabsTrigger>
         </TabsList>
 
         <TabsContent value="overview" className="space-y-4">
@@ -399,6 +480,11 @@ export default function AuditTrailDashboard() {
                           </div>
                           <div className="text-sm text-muted-foreground">
                             by {log.user.firstName} {log.user.lastName} ({log.user.email})
+                            {log.impersonatorId && (
+                              <Badge variant="outline" className="ml-2">
+                                via {log.impersonator ? `${log.impersonator.firstName} ${log.impersonator.lastName}` : 'impersonation'}
+                              </Badge>
+                            )}
                           </div>
                         </div>
                         <div className="text-right text-sm text-muted-foreground">
@@ -486,6 +572,122 @@ export default function AuditTrailDashboard() {
             </div>
           )}
         </TabsContent>
+
+        <TabsContent value="logins" className="space-y-4">
+          {loginActivity && (
+            <>
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Lock className="h-4 w-4" />
+                    Locked Accounts ({loginActivity.lockedAccounts.length})
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {loginActivity.lockedAccounts.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No accounts are locked.</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {loginActivity.lockedAccounts.map((account) => (
+                        <div key={account.id} className="flex justify-between items-center border rounded-lg p-3">
+                          <div>
+                            <div className="font-medium">{account.firstName} {account.lastName}</div>
+                            <div className="text-sm text-muted-foreground">
+                              {account.email} · locked until {format(new Date(account.lockedUntil), 'MMM dd, HH:mm')}
+                            </div>
+                          </div>
+                          <Button size="sm" variant="outline" onClick={() => handleUnlock(account.id)}>
+                            <Unlock className="h-4 w-4 mr-2" />
+                            Unlock
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Addresses With Many Failures</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {loginActivity.suspiciousAddresses.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">Nothing unusual in the last {loginActivity.days} days.</p>
+                    ) : (
+                      <div className="space-y-2">
+                        {loginActivity.suspiciousAddresses.map((entry) => (
+                          <div key={entry.ipAddress} className="flex justify-between items-center">
+                            <span className="text-sm font-mono">{entry.ipAddress}</span>
+                            <Badge variant="destructive">{entry.failures} failed</Badge>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Most Targeted Accounts</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {loginActivity.targetedAccounts.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">Nothing unusual in the last {loginActivity.days} days.</p>
+                    ) : (
+                      <div className="space-y-2">
+                        {loginActivity.targetedAccounts.map((entry) => (
+                          <div key={entry.email} className="flex justify-between items-center">
+                            <span className="text-sm">{entry.email}</span>
+                            <Badge variant="warning">{entry.failures} failed</Badge>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              </div>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Recent Sign-in Attempts</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex flex-wrap gap-2 mb-4">
+                    {Object.entries(loginActivity.outcomes).map(([outcome, count]) => (
+                      <Badge key={outcome} variant={outcome === 'success' ? 'secondary' : 'outline'}>
+                        {OUTCOME_LABELS[outcome] || outcome}: {count}
+                      </Badge>
+                    ))}
+                  </div>
+                  <div className="space-y-2">
+                    {loginActivity.recent.map((attempt) => (
+                      <div key={attempt.id} className="flex justify-between items-start border-b pb-2 text-sm">
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <Badge variant={attempt.outcome === 'success' ? 'secondary' : attempt.outcome === 'locked' ? 'destructive' : 'default'}>
+                              {OUTCOME_LABELS[attempt.outcome] || attempt.outcome}
+                            </Badge>
+                            <span className="font-medium">
+                              {attempt.user ? `${attempt.user.firstName} ${attempt.user.lastName}` : attempt.email}
+                            </span>
+                          </div>
+                          <div className="text-xs text-muted-foreground mt-1">
+                            {attempt.device}{attempt.ipAddress && ` · ${attempt.ipAddress}`}
+                          </div>
+                        </div>
+                        <div className="text-right text-xs text-muted-foreground">
+                          {format(new Date(attempt.createdAt), 'MMM dd, HH:mm:ss')}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </TabsContent>
       </Tabs>
     </div>
   )
@@ -59,6 +59,13 @@ interface AnalyticsData {
   };
 }
 
+interface LecturerPunctuality {
+  lecturerName: string;
+  punctualityRate: number;
+  lateArrivals: number;
+  earlyDepartures: number;
+}
+
 interface AnalyticsDashboardProps {
   className?: string;
 }
@@ -67,6 +74,7 @@ export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
   className = '',
 }) => {
   const [data, setData] = useState<AnalyticsData | null>(null);
+  const [punctuality, setPunctuality] = useState<LecturerPunctuality[]>([]);
   const [loading, setLoading] = useState(true);
   const [dateRange, setDateRange] = useState<DateRange | undefined>({
     from: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000), // 30 days ago
@@ -87,11 +95,24 @@ export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
         ...(selectedCourse !== 'all' && { courseId: selectedCourse }),
       });
 
-      const response = await fetch(`/api/analytics?${params}`);
+      const punctualityParams = new URLSearchParams({
+        type: 'punctuality',
+        startDate: dateRange?.from?.toISOString() || '',
+        endDate: dateRange?.to?.toISOString() || '',
+      });
+
+      const [response, punctualityResponse] = await Promise.all([
+        fetch(`/api/analytics?${params}`),
+        fetch(`/api/analytics?${punctualityParams}`),
+      ]);
       if (response.ok) {
         const analyticsData = await response.json();
         setData(analyticsData);
       }
+      if (punctualityResponse.ok) {
+        const punctualityData = await punctualityResponse.json();
+        setPunctuality(punctualityData.lecturers);
+      }
     } catch (error) {
       console.error('Failed to fetch analytics data:', error);
     } finally {
@@ -156,6 +177,17 @@ export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
     );
   }
 
+  // Punctuality comes from its own query; lecturers without performance data still get a bar
+  const lecturerPunctuality = punctuality.map(item => ({
+    ...(data.lecturerPerformance.find(lecturer => lecturer.lecturerName === item.lecturerName) ?? {
+      totalSessions: 0,
+      averageAttendance: 0,
+      verificationRate: 0,
+      totalStudents: 0,
+    }),
+    ...item,
+  }));
+
   return (
     <div className={className}>
       {/* Header */}
@@ -358,6 +390,34 @@ export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
               />
             </CardContent>
           </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mt-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Punctuality</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <LecturerPerformanceChart
+                  data={lecturerPunctuality}
+                  height={300}
+                  metric="punctuality"
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Late Arrivals and Early Departures</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <LecturerPerformanceChart
+                  data={lecturerPunctuality}
+                  height={300}
+                  metric="lateness"
+                />
+              </CardContent>
+            </Card>
+          </div>
         </TabsContent>
         
         <TabsContent value="courses">
@@ -9,13 +9,17 @@ interface LecturerPerformanceData {
   averageAttendance: number;
   verificationRate: number;
   totalStudents: number;
+  // Punctuality, from /api/analytics?type=punctuality
+  punctualityRate?: number;
+  lateArrivals?: number;
+  earlyDepartures?: number;
 }
 
 interface LecturerPerformanceChartProps {
   data: LecturerPerformanceData[];
   className?: string;
   height?: number;
-  metric?: 'attendance' | 'verification' | 'sessions';
+  metric?: 'attendance' | 'verification' | 'sessions' | 'punctuality' | 'lateness';
   showLegend?: boolean;
 }
 
@@ -84,6 +88,41 @@ export const LecturerPerformanceChart: React.FC<LecturerPerformanceChartProps> =
           ],
         };
       
+      case 'punctuality':
+        return {
+          labels,
+          datasets: [
+            {
+              label: 'On-time Rate (%)',
+              data: data.map(item => item.punctualityRate ?? 0),
+              backgroundColor: 'rgba(20, 184, 166, 0.8)',
+              borderColor: 'rgb(20, 184, 166)',
+              borderWidth: 1,
+            },
+          ],
+        };
+
+      case 'lateness':
+        return {
+          labels,
+          datasets: [
+            {
+              label: 'Late Arrivals',
+              data: data.map(item => item.lateArrivals ?? 0),
+              backgroundColor: 'rgba(249, 115, 22, 0.8)',
+              borderColor: 'rgb(249, 115, 22)',
+              borderWidth: 1,
+            },
+            {
+              label: 'Early Departures',
+              data: data.map(item => item.earlyDepartures ?? 0),
+              backgroundColor: 'rgba(239, 68, 68, 0.8)',
+              borderColor: 'rgb(239, 68, 68)',
+              borderWidth: 1,
+            },
+          ],
+        };
+      
       default:
         return { labels: [], datasets: [] };
     }
@@ -97,6 +136,10 @@ export const LecturerPerformanceChart: React.FC<LecturerPerformanceChartProps> =
         return 'Verification Rate by Lecturer';
       case 'sessions':
         return 'Sessions and Students by Lecturer';
+      case 'punctuality':
+        return 'On-time Rate by Lecturer';
+      case 'lateness':
+        return 'Late Arrivals and Early Departures by Lecturer';
       default:
         return 'Lecturer Performance';
     }
@@ -106,8 +149,10 @@ export const LecturerPerformanceChart: React.FC<LecturerPerformanceChartProps> =
     switch (metric) {
       case 'attendance':
       case 'verification':
+      case 'punctuality':
         return 'Percentage (%)';
       case 'sessions':
+      case 'lateness':
         return 'Count';
       default:
         return 'Value';
@@ -125,7 +170,7 @@ export const LecturerPerformanceChart: React.FC<LecturerPerformanceChartProps> =
         text: getTitle(),
       },
       legend: {
-        display: showLegend && metric === 'sessions',
+        display: showLegend && (metric === 'sessions' || metric === 'lateness'),
         position: 'top',
       },
       tooltip: {
@@ -147,7 +192,7 @@ export const LecturerPerformanceChart: React.FC<LecturerPerformanceChartProps> =
           text: getYAxisLabel(),
         },
         beginAtZero: true,
-        ...(metric !== 'sessions' && {
+        ...(metric !== 'sessions' && metric !== 'lateness' && {
           max: 100, // For percentage metrics
         }),
       },
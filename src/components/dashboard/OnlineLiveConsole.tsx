@@ -0,0 +1,272 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import {
+  ArrowPathIcon,
+  CheckCircleIcon,
+  ClockIcon,
+  ExclamationTriangleIcon,
+  SignalIcon,
+  VideoCameraIcon
+} from '@heroicons/react/24/outline'
+import type { IssueCategory, LiveClass, LiveState } from '@/lib/online-monitoring'
+import { useRealtimeEvents } from '@/hooks/useRealtimeEvents'
+
+// Labels for the categories defined in lib/online-monitoring
+export const ISSUE_LABELS: Record<IssueCategory, string> = {
+  audio: 'Audio',
+  video: 'Video',
+  connectivity: 'Connection drops',
+  screen_sharing: 'Screen sharing',
+  link_or_access: 'Link or waiting room',
+  low_attendance: 'Low attendance',
+  other: 'Other'
+}
+
+// Lecturers opening sessions arrive as events; this only moves classes between time windows
+const REFRESH_INTERVAL = 60000
+
+const STATE_BADGES: Record<LiveState, { label: string; className: string }> = {
+  live: { label: 'Live', className: 'bg-green-100 text-green-800' },
+  awaiting_start: { label: 'Not started', className: 'bg-red-100 text-red-800' },
+  upcoming: { label: 'Starting soon', className: 'bg-blue-100 text-blue-800' },
+  ended: { label: 'Ended', className: 'bg-gray-100 text-gray-700' },
+  no_show: { label: 'Not held', className: 'bg-gray-100 text-gray-700' }
+}
+
+interface OnlineLiveConsoleProps {
+  onReport: (liveClass: LiveClass) => void
+  onChecked?: () => void
+  refreshKey?: number // bump to refresh after a report filed elsewhere on the page
+}
+
+function minutesBetween(from: string, now: Date) {
+  return Math.max(0, Math.floor((now.getTime() - new Date(from).getTime()) / 60000))
+}
+
+function formatMinutes(minutes: number) {
+  if (minutes < 60) return `${minutes} min`
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+}
+
+function describeTiming(liveClass: LiveClass, now: Date) {
+  switch (liveClass.state) {
+    case 'live':
+      return `Live for ${formatMinutes(minutesBetween(liveClass.startedAt!, now))}`
+    case 'awaiting_start':
+      return `Due ${formatMinutes(minutesBetween(liveClass.scheduledStartAt, now))} ago`
+    case 'upcoming':
+      return `Starts in ${formatMinutes(Math.max(0, Math.ceil((new Date(liveClass.scheduledStartAt).getTime() - now.getTime()) / 60000)))}`
+    case 'ended':
+      return `Ended at ${new Date(liveClass.endedAt!).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+    default:
+      return `${liveClass.startTime} - ${liveClass.endTime}`
+  }
+}
+
+export default function OnlineLiveConsole({ onReport, onChecked, refreshKey = 0 }: OnlineLiveConsoleProps) {
+  const [classes, setClasses] = useState<LiveClass[]>([])
+  const [loading, setLoading] = useState(true)
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null)
+  const [now, setNow] = useState(new Date())
+  const [checking, setChecking] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchLiveClasses = useCallback(async () => {
+    try {
+      const response = await fetch('/api/online-supervisor/live')
+      if (response.ok) {
+        const data = await response.json()
+        setClasses(data.classes)
+        setLastUpdated(new Date(data.generatedAt))
+        setNow(new Date())
+      }
+    } catch (error) {
+      console.error('Error fetching live classes:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchLiveClasses()
+
+    const refresh = setInterval(fetchLiveClasses, REFRESH_INTERVAL)
+    // Keep the timers moving between refreshes
+    const tick = setInterval(() => setNow(new Date()), 15000)
+
+    return () => {
+      clearInterval(refresh)
+      clearInterval(tick)
+    }
+  }, [fetchLiveClasses, refreshKey])
+
+  useRealtimeEvents(['attendance.recorded', 'attendance.verified'], () => fetchLiveClasses())
+
+  const spotCheck = async (liveClass: LiveClass, status: 'ongoing' | 'not_started') => {
+    const key = liveClass.classSessionId ?? liveClass.scheduleId
+    setChecking(key)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/online-supervisor/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          scheduleId: liveClass.scheduleId,
+          classSessionId: liveClass.isMakeUp ? liveClass.classSessionId : null,
+          status,
+          platform: liveClass.platform
+        })
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to log spot check')
+      }
+
+      await fetchLiveClasses()
+      onChecked?.()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setChecking(null)
+    }
+  }
+
+  const liveCount = classes.filter(liveClass => liveClass.state === 'live').length
+  const awaitingCount = classes.filter(liveClass => liveClass.state === 'awaiting_start').length
+
+  return (
+    <div className="bg-white shadow px-4 py-5 sm:rounded-lg sm:p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-lg font-medium leading-6 text-gray-900 flex items-center">
+            <SignalIcon className="h-5 w-5 mr-2 text-green-600" />
+            Live Console
+          </h3>
+          <p className="mt-1 text-sm text-gray-500">
+            {liveCount} live, {awaitingCount} not started
+            {lastUpdated && ` · updated ${lastUpdated.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}`}
+          </p>
+        </div>
+        <button
+          onClick={fetchLiveClasses}
+          className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+        >
+          <ArrowPathIcon className="h-4 w-4 mr-1" />
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-3 mb-4 text-sm text-red-700">{error}</div>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading live classes...</p>
+      ) : classes.length === 0 ? (
+        <div className="py-8 text-center">
+          <VideoCameraIcon className="mx-auto h-10 w-10 text-gray-400" />
+          <p className="mt-2 text-sm text-gray-500">No virtual or hybrid classes are running right now.</p>
+        </div>
+      ) : (
+        <ul className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+          {classes.map(liveClass => {
+            const key = liveClass.classSessionId ?? liveClass.scheduleId
+            const badge = STATE_BADGES[liveClass.state]
+
+            return (
+              <li key={key} className="border border-gray-200 rounded-lg p-4">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      {liveClass.course.courseCode} · {liveClass.classGroup.name}
+                      {liveClass.isMakeUp && <span className="ml-2 text-xs text-indigo-600">make-up</span>}
+                    </p>
+                    <p className="text-sm text-gray-500">{liveClass.lecturer.name}</p>
+                  </div>
+                  <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${badge.className}`}>
+                    {badge.label}
+                  </span>
+                </div>
+
+                <p className="mt-2 flex items-center text-sm text-gray-700">
+                  <ClockIcon className="h-4 w-4 mr-1 text-gray-400" />
+                  {describeTiming(liveClass, now)}
+                  <span className="ml-2 text-gray-400">({liveClass.startTime} - {liveClass.endTime}, {liveClass.sessionType.toLowerCase()})</span>
+                </p>
+
+                <div className="mt-2 text-xs text-gray-500">
+                  {liveClass.lastCheck ? (
+                    <>
+                      <span className="inline-flex items-center">
+                        {liveClass.lastCheck.issues.categories.length ? (
+                          <ExclamationTriangleIcon className="h-4 w-4 mr-1 text-amber-500" />
+                        ) : (
+                          <CheckCircleIcon className="h-4 w-4 mr-1 text-green-500" />
+                        )}
+                        Checked {formatMinutes(minutesBetween(liveClass.lastCheck.checkedAt, now))} ago by {liveClass.lastCheck.supervisorName}: {liveClass.lastCheck.status.replace('_', ' ')}
+                        {liveClass.lastCheck.connectionQuality && `, ${liveClass.lastCheck.connectionQuality.toLowerCase()} connection`}
+                      </span>
+                      {liveClass.lastCheck.issues.categories.length > 0 && (
+                        <span className="block mt-1">
+                          {liveClass.lastCheck.issues.categories.map(category => (
+                            <span key={category} className="inline-block mr-1 px-2 rounded-full bg-amber-50 text-amber-800">
+                              {ISSUE_LABELS[category]}
+                            </span>
+                          ))}
+                        </span>
+                      )}
+                      {liveClass.spotChecks > 1 && <span className="block mt-1">{liveClass.spotChecks} spot checks today</span>}
+                    </>
+                  ) : (
+                    'Not checked yet'
+                  )}
+                </div>
+
+                <div className="mt-3 flex flex-wrap gap-2 text-sm">
+                  {liveClass.meetingLink ? (
+                    <a
+                      href={liveClass.meetingLink}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="inline-flex items-center px-3 py-1 rounded border border-indigo-600 text-indigo-600 hover:bg-indigo-50"
+                    >
+                      <VideoCameraIcon className="h-4 w-4 mr-1" />
+                      Join{liveClass.platform && ` ${liveClass.platform}`}
+                    </a>
+                  ) : (
+                    <span className="px-3 py-1 rounded border border-gray-300 text-gray-400">No Link</span>
+                  )}
+                  <button
+                    onClick={() => spotCheck(liveClass, 'ongoing')}
+                    disabled={checking === key}
+                    className="px-3 py-1 rounded bg-green-600 text-white hover:bg-green-700 disabled:opacity-50"
+                  >
+                    Class running
+                  </button>
+                  {liveClass.state !== 'live' && (
+                    <button
+                      onClick={() => spotCheck(liveClass, 'not_started')}
+                      disabled={checking === key}
+                      className="px-3 py-1 rounded border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      Not started
+                    </button>
+                  )}
+                  <button
+                    onClick={() => onReport(liveClass)}
+                    className="px-3 py-1 rounded text-purple-600 hover:text-purple-900"
+                  >
+                    Report issue
+                  </button>
+                </div>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
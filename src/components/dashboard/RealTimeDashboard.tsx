@@ -1,7 +1,8 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useSession } from 'next-auth/react';
+import { useRealtimeEvents } from '@/hooks/useRealtimeEvents';
 import { AttendanceChart, StatusDistributionChart } from '@/components/charts/AttendanceChart';
 import {
   ChartBarIcon,
@@ -41,14 +42,18 @@ interface RecentActivity {
 interface RealTimeDashboardProps {
   compact?: boolean;
   showCharts?: boolean;
-  refreshInterval?: number; // in milliseconds
   className?: string;
 }
 
+// Bursts of events (e.g. an offline sync) are folded into one refresh
+const EVENT_REFRESH_DELAY = 1000;
+
+// Polling takes over while the event stream is down
+const FALLBACK_REFRESH_INTERVAL = 30000;
+
 export default function RealTimeDashboard({ 
   compact = false, 
   showCharts = true, 
-  refreshInterval = 30000, // 30 seconds
   className = '' 
 }: RealTimeDashboardProps) {
   const { data: session, status } = useSession();
@@ -57,6 +62,7 @@ export default function RealTimeDashboard({
   const [loading, setLoading] = useState(true);
   const [lastUpdated, setLastUpdated] = useState<Date>(new Date());
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const refreshTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const fetchDashboardData = async (showLoader = false) => {
     // Don't fetch if user is not authenticated
@@ -105,16 +111,31 @@ export default function RealTimeDashboard({
     // Only fetch data when session is loaded and user is authenticated
     if (status === 'authenticated') {
       fetchDashboardData(true);
-      
-      const interval = setInterval(() => {
-        fetchDashboardData(false);
-      }, refreshInterval);
-      
-      return () => clearInterval(interval);
     } else if (status === 'unauthenticated') {
       setLoading(false);
     }
-  }, [refreshInterval, status, session]);
+  }, [status, session]);
+
+  // The server pushes attendance and verification changes within the user's scope
+  const { connected } = useRealtimeEvents(
+    ['attendance.recorded', 'attendance.verified', 'verification_request.updated'],
+    () => {
+      if (refreshTimer.current) clearTimeout(refreshTimer.current);
+      refreshTimer.current = setTimeout(() => fetchDashboardData(false), EVENT_REFRESH_DELAY);
+    },
+    status === 'authenticated'
+  );
+
+  useEffect(() => () => {
+    if (refreshTimer.current) clearTimeout(refreshTimer.current);
+  }, []);
+
+  useEffect(() => {
+    if (connected || status !== 'authenticated') return;
+
+    const interval = setInterval(() => fetchDashboardData(false), FALLBACK_REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [connected, status]);
 
   const handleManualRefresh = () => {
     fetchDashboardData(true);
@@ -195,7 +216,11 @@ export default function RealTimeDashboard({
             <h2 className={`font-semibold text-gray-900 ${compact ? 'text-lg' : 'text-xl'}`}>
               Real-Time Dashboard
             </h2>
-            <p className="text-sm text-gray-600">
+            <p className="text-sm text-gray-600 flex items-center gap-2">
+              <span
+                className={`inline-block w-2 h-2 rounded-full ${connected ? 'bg-green-500' : 'bg-gray-300'}`}
+                title={connected ? 'Receiving live updates' : 'Live updates unavailable, refreshing every 30 seconds'}
+              />
               Last updated: {format(lastUpdated, 'HH:mm:ss')}
             </p>
           </div>
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { useSession } from 'next-auth/react';
+import QRCode from 'qrcode';
 import {
   CheckCircleIcon,
   XCircleIcon,
@@ -13,6 +14,7 @@ import {
   WifiIcon,
   ArrowPathIcon,
   ExclamationTriangleIcon,
+  QrCodeIcon,
 } from '@heroicons/react/24/outline';
 import {
   CheckCircleIcon as CheckCircleSolidIcon,
@@ -34,6 +36,17 @@ interface AttendanceRecord {
   verificationDeadline: string;
 }
 
+interface CheckInClass {
+  scheduleId: string;
+  classSessionId: string | null;
+  isMakeUp: boolean;
+  startTime: string;
+  endTime: string;
+  course: string;
+  classGroup: string;
+  lecturerName: string;
+}
+
 interface ClassInfo {
   id: string;
   name: string;
@@ -51,6 +64,8 @@ export default function ClassRepMobileDashboard() {
   const [selectedRecord, setSelectedRecord] = useState<AttendanceRecord | null>(null);
   const [verificationNotes, setVerificationNotes] = useState('');
   const [submitting, setSubmitting] = useState(false);
+  const [checkInClasses, setCheckInClasses] = useState<CheckInClass[]>([]);
+  const [checkInClass, setCheckInClass] = useState<CheckInClass | null>(null);
 
   useEffect(() => {
     loadDashboardData();
@@ -73,9 +88,10 @@ export default function ClassRepMobileDashboard() {
       }
 
       // Load fresh data from API
-      const [recordsResponse, classResponse] = await Promise.all([
+      const [recordsResponse, classResponse, checkInResponse] = await Promise.all([
         fetch('/api/attendance/pending-verification'),
-        fetch('/api/class-groups/my-class')
+        fetch('/api/class-groups/my-class'),
+        fetch('/api/attendance/qr-token')
       ]);
 
       if (recordsResponse.ok) {
@@ -91,6 +107,11 @@ export default function ClassRepMobileDashboard() {
         // Cache for offline access
         await pwaService.cacheData('class-info', classData, 3600000); // 1 hour
       }
+
+      // QR codes are signed by the server and expire quickly, so they are never cached
+      if (checkInResponse.ok) {
+        setCheckInClasses(await checkInResponse.json());
+      }
     } catch (error) {
       console.error('Failed to load dashboard data:', error);
     } finally {
@@ -280,6 +301,38 @@ export default function ClassRepMobileDashboard() {
         </div>
       )}
 
+      {/* QR Check-in */}
+      {isOnline && checkInClasses.length > 0 && (
+        <div className="mx-4 mt-4">
+          <MobileCard>
+            <div className="flex items-center gap-2 mb-3">
+              <QrCodeIcon className="w-5 h-5 text-blue-500" />
+              <h2 className="font-semibold text-gray-900">Lecturer Check-in QR</h2>
+            </div>
+            <p className="text-sm text-gray-600 mb-3">
+              Show the code to your lecturer when the class starts. It changes every few seconds.
+            </p>
+            <div className="space-y-2">
+              {checkInClasses.map((item) => (
+                <button
+                  key={item.classSessionId || item.scheduleId}
+                  onClick={() => setCheckInClass(item)}
+                  className="w-full text-left p-3 rounded-lg border border-gray-200 hover:border-blue-300 hover:bg-blue-50"
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium text-gray-900 text-sm">{item.course}</span>
+                    <span className="text-xs text-gray-500">{item.startTime} - {item.endTime}</span>
+                  </div>
+                  <p className="text-xs text-gray-600">
+                    {item.lecturerName}{item.isMakeUp ? ' • Make-up' : ''}
+                  </p>
+                </button>
+              ))}
+            </div>
+          </MobileCard>
+        </div>
+      )}
+
       {/* Urgent Verifications */}
       {urgentRecords.length > 0 && (
         <div className="mx-4 mt-4">
@@ -340,10 +393,127 @@ export default function ClassRepMobileDashboard() {
           isOffline={!isOnline}
         />
       )}
+
+      {/* Check-in QR Modal */}
+      {checkInClass && (
+        <CheckInQRModal
+          checkInClass={checkInClass}
+          onClose={() => setCheckInClass(null)}
+        />
+      )}
     </MobilePageWrapper>
   );
 }
 
+// Check-in QR Modal Component
+interface CheckInQRModalProps {
+  checkInClass: CheckInClass;
+  onClose: () => void;
+}
+
+function CheckInQRModal({ checkInClass, onClose }: CheckInQRModalProps) {
+  const [qrImage, setQrImage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    let refreshTimer: NodeJS.Timeout | null = null;
+
+    const refreshToken = async () => {
+      try {
+        const response = await fetch('/api/attendance/qr-token', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            scheduleId: checkInClass.scheduleId,
+            classSessionId: checkInClass.isMakeUp ? checkInClass.classSessionId ?? undefined : undefined,
+          }),
+        });
+
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load check-in code');
+        }
+
+        const image = await QRCode.toDataURL(data.token, { width: 320, margin: 1, errorCorrectionLevel: 'M' });
+        if (cancelled) return;
+
+        setQrImage(image);
+        setError(null);
+        setSecondsLeft(data.rotationSeconds);
+        refreshTimer = setTimeout(refreshToken, data.rotationSeconds * 1000);
+      } catch (err) {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : 'Failed to load check-in code');
+        setQrImage(null);
+      }
+    };
+
+    refreshToken();
+
+    return () => {
+      cancelled = true;
+      if (refreshTimer) {
+        clearTimeout(refreshTimer);
+      }
+    };
+  }, [checkInClass]);
+
+  useEffect(() => {
+    const countdown = setInterval(() => {
+      setSecondsLeft(prev => Math.max(0, prev - 1));
+    }, 1000);
+
+    return () => clearInterval(countdown);
+  }, []);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-2xl w-full max-w-md mx-4">
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">Check-in Code</h2>
+              <p className="text-sm text-gray-600">{checkInClass.course}</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 rounded-full hover:bg-gray-100"
+            >
+              <XCircleIcon className="w-6 h-6 text-gray-400" />
+            </button>
+          </div>
+
+          {error ? (
+            <div className="text-center py-8">
+              <ExclamationTriangleIcon className="w-12 h-12 text-red-500 mx-auto mb-3" />
+              <p className="text-red-600">{error}</p>
+            </div>
+          ) : qrImage ? (
+            <div className="text-center">
+              <img src={qrImage} alt="Lecturer check-in QR code" className="mx-auto w-64 h-64" />
+              <p className="mt-3 text-sm text-gray-600">
+                New code in <span className="font-medium">{secondsLeft}s</span>
+              </p>
+              <p className="mt-1 text-xs text-gray-500">
+                {checkInClass.lecturerName} • {checkInClass.startTime} - {checkInClass.endTime}
+              </p>
+            </div>
+          ) : (
+            <div className="text-center py-8">
+              <ArrowPathIcon className="w-8 h-8 text-blue-500 animate-spin mx-auto mb-2" />
+              <p className="text-gray-600">Generating code...</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
 // Attendance Card Component
 interface AttendanceCardProps {
   record: AttendanceRecord;
@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
+import jsQR from 'jsqr';
 import {
   XMarkIcon,
   CameraIcon,
@@ -26,7 +27,9 @@ export default function QRScanner({ isOpen, onClose, onScan, title = 'Scan QR Co
   const [isScanning, setIsScanning] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [hasPermission, setHasPermission] = useState<boolean | null>(null);
-  const [lastScan, setLastScan] = useState<ScanResult | null>(null);
+  // Refs rather than state because the scan interval outlives the render that started it
+  const isScanningRef = useRef(false);
+  const lastScanRef = useRef<ScanResult | null>(null);
   const scanIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
 
@@ -41,10 +44,25 @@ export default function QRScanner({ isOpen, onClose, onScan, title = 'Scan QR Co
     return cleanup;
   }, [isOpen]);
 
+  // The video element only mounts once permission is granted, so attach the stream afterwards
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!hasPermission || !video || !streamRef.current) {
+      return;
+    }
+
+    video.srcObject = streamRef.current;
+    video.onloadedmetadata = () => {
+      startScanning();
+    };
+    video.play().catch(err => console.error('Camera playback error:', err));
+  }, [hasPermission]);
+
   const initializeCamera = async () => {
     try {
       setError(null);
       setIsScanning(true);
+      isScanningRef.current = true;
 
       // Check if getUserMedia is supported
       if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
@@ -62,16 +80,6 @@ export default function QRScanner({ isOpen, onClose, onScan, title = 'Scan QR Co
 
       streamRef.current = stream;
       setHasPermission(true);
-
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-        videoRef.current.play();
-        
-        // Start scanning after video loads
-        videoRef.current.onloadedmetadata = () => {
-          startScanning();
-        };
-      }
     } catch (err) {
       console.error('Camera initialization error:', err);
       setHasPermission(false);
@@ -91,6 +99,7 @@ export default function QRScanner({ isOpen, onClose, onScan, title = 'Scan QR Co
       }
       
       setIsScanning(false);
+      isScanningRef.current = false;
     }
   };
 
@@ -106,13 +115,13 @@ export default function QRScanner({ isOpen, onClose, onScan, title = 'Scan QR Co
   };
 
   const scanFrame = () => {
-    if (!videoRef.current || !canvasRef.current || !isScanning) {
+    if (!videoRef.current || !canvasRef.current || !isScanningRef.current) {
       return;
     }
 
     const video = videoRef.current;
     const canvas = canvasRef.current;
-    const context = canvas.getContext('2d');
+    const context = canvas.getContext('2d', { willReadFrequently: true });
 
     if (!context || video.readyState !== video.HAVE_ENOUGH_DATA) {
       return;
@@ -126,48 +135,31 @@ export default function QRScanner({ isOpen, onClose, onScan, title = 'Scan QR Co
     context.drawImage(video, 0, 0, canvas.width, canvas.height);
 
     try {
-      // Get image data for QR code detection
       const imageData = context.getImageData(0, 0, canvas.width, canvas.height);
-      
-      // Simple QR code detection simulation
-      // In a real implementation, you would use a library like jsQR
-      const qrData = detectQRCode(imageData);
-      
-      if (qrData) {
-        handleScanResult(qrData);
+      const code = jsQR(imageData.data, imageData.width, imageData.height, {
+        inversionAttempts: 'dontInvert',
+      });
+
+      if (code?.data) {
+        handleScanResult(code.data);
       }
     } catch (err) {
       console.error('Scan error:', err);
     }
   };
 
-  // Simulated QR code detection
-  // In production, replace this with a real QR code library like jsQR
-  const detectQRCode = (imageData: ImageData): string | null => {
-    // This is a placeholder implementation
-    // In a real app, you would use a library like jsQR:
-    // import jsQR from 'jsqr';
-    // const code = jsQR(imageData.data, imageData.width, imageData.height);
-    // return code ? code.data : null;
-    
-    // For demo purposes, simulate finding a QR code occasionally
-    if (Math.random() < 0.1) { // 10% chance to simulate finding a QR code
-      const studentIds = ['STU001', 'STU002', 'STU003', 'STU004', 'STU005'];
-      return studentIds[Math.floor(Math.random() * studentIds.length)];
-    }
-    
-    return null;
-  };
-
   const handleScanResult = (data: string) => {
     const now = Date.now();
     
+    const lastScan = lastScanRef.current;
+
     // Prevent duplicate scans within 2 seconds
     if (lastScan && now - lastScan.timestamp < 2000 && lastScan.data === data) {
       return;
     }
 
-    setLastScan({ data, timestamp: now });
+    lastScanRef.current = { data, timestamp: now };
+    isScanningRef.current = false;
     
     // Provide haptic feedback if available
     if ('vibrate' in navigator) {
@@ -195,8 +187,10 @@ export default function QRScanner({ isOpen, onClose, onScan, title = 'Scan QR Co
     }
 
     setIsScanning(false);
+    isScanningRef.current = false;
     setError(null);
-    setLastScan(null);
+    setHasPermission(null);
+    lastScanRef.current = null;
   };
 
   const retryCamera = () => {
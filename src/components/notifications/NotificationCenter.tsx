@@ -4,6 +4,7 @@ import React, { useState, useEffect, useCallback } from 'react'
 import { Bell, X, Check, AlertCircle, Info, CheckCircle, Clock, Settings } from 'lucide-react'
 import { formatDistanceToNow } from 'date-fns'
 import Link from 'next/link'
+import { useRealtimeEvents } from '@/hooks/useRealtimeEvents'
 
 interface Notification {
   id: string
@@ -17,6 +18,9 @@ interface Notification {
   metadata?: Record<string, any>
 }
 
+// Polling takes over while the event stream is down
+const FALLBACK_REFRESH_INTERVAL = 30000
+
 interface NotificationCenterProps {
   className?: string
 }
@@ -138,11 +142,31 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({ className = ''
     fetchNotifications()
   }, [])
 
-  // Auto-refresh notifications every 30 seconds
+  // New notifications are pushed by the server instead of polled
+  const { connected } = useRealtimeEvents(['notification.created'], (_type, data) => {
+    if (typeof data.id !== 'string') {
+      fetchNotifications()
+      return
+    }
+
+    const notification = data as unknown as Notification
+    setNotifications(prev =>
+      prev.some(existing => existing.id === notification.id) ? prev : [notification, ...prev]
+    )
+    setUnreadCount(count => count + 1)
+  })
+
+  // Catch up on anything sent while the stream was reconnecting
+  useEffect(() => {
+    if (connected) fetchNotifications()
+  }, [connected, fetchNotifications])
+
   useEffect(() => {
-    const interval = setInterval(fetchNotifications, 30000)
+    if (connected) return
+
+    const interval = setInterval(fetchNotifications, FALLBACK_REFRESH_INTERVAL)
     return () => clearInterval(interval)
-  }, [fetchNotifications])
+  }, [connected, fetchNotifications])
 
   return (
     <div className={`relative ${className}`}>
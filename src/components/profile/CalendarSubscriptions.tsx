@@ -0,0 +1,187 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { CalendarDays, Copy, Trash2 } from 'lucide-react'
+import type { CalendarFeedScope, FeedTarget } from '@/lib/calendar-feeds'
+
+interface CalendarFeed {
+  id: string
+  scope: CalendarFeedScope
+  targetId: string
+  label: string
+  lastUsedAt: string | null
+  createdAt: string
+}
+
+// Labels for the scopes defined in lib/calendar-feeds
+const SCOPE_LABELS: Record<CalendarFeedScope, string> = {
+  lecturer: 'Lecturer',
+  class_group: 'Class group',
+  classroom: 'Room'
+}
+
+export default function CalendarSubscriptions() {
+  const [feeds, setFeeds] = useState<CalendarFeed[]>([])
+  const [targets, setTargets] = useState<FeedTarget[]>([])
+  const [selected, setSelected] = useState('')
+  const [newUrl, setNewUrl] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchFeeds()
+  }, [])
+
+  const fetchFeeds = async () => {
+    try {
+      const response = await fetch('/api/profile/calendar-feeds')
+      if (response.ok) {
+        const data = await response.json()
+        setFeeds(data.feeds)
+        setTargets(data.targets)
+        setSelected(current => current || (data.targets[0] ? `${data.targets[0].scope}:${data.targets[0].targetId}` : ''))
+      } else {
+        setError('Failed to load calendar subscriptions')
+      }
+    } catch (error) {
+      console.error('Error fetching calendar feeds:', error)
+      setError('Failed to load calendar subscriptions')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleCreate = async () => {
+    const [scope, targetId] = selected.split(':')
+    setSaving(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/profile/calendar-feeds', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ scope, targetId })
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        setNewUrl(data.url)
+        setFeeds(prev => [data.feed, ...prev])
+      } else {
+        setError(data.error || 'Failed to create calendar subscription')
+      }
+    } catch (error) {
+      console.error('Error creating calendar feed:', error)
+      setError('Failed to create calendar subscription')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRevoke = async (feed: CalendarFeed) => {
+    if (!confirm(`Revoke the calendar feed for ${feed.label}? Calendars subscribed to it will stop updating.`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/profile/calendar-feeds/${feed.id}`, { method: 'DELETE' })
+      if (response.ok) {
+        setFeeds(prev => prev.filter(item => item.id !== feed.id))
+      } else {
+        const data = await response.json()
+        setError(data.error || 'Failed to revoke calendar subscription')
+      }
+    } catch (error) {
+      console.error('Error revoking calendar feed:', error)
+      setError('Failed to revoke calendar subscription')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarDays className="h-5 w-5" />
+          Calendar Subscriptions
+        </CardTitle>
+        <CardDescription>
+          Subscribe to a timetable from Google Calendar, Outlook or your phone. Feeds include rooms, meeting links,
+          cancellations and make-up classes, and refresh every few hours.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : targets.length === 0 ? (
+          <p className="text-sm text-gray-500">There are no timetables you can subscribe to.</p>
+        ) : (
+          <div className="flex flex-col gap-2 sm:flex-row sm:items-end">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="feedTarget">Timetable</Label>
+              <select
+                id="feedTarget"
+                value={selected}
+                onChange={(e) => setSelected(e.target.value)}
+                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              >
+                {targets.map(target => (
+                  <option key={`${target.scope}:${target.targetId}`} value={`${target.scope}:${target.targetId}`}>
+                    {SCOPE_LABELS[target.scope]}: {target.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <Button onClick={handleCreate} disabled={saving || !selected}>
+              {saving ? 'Creating...' : 'Create Feed'}
+            </Button>
+          </div>
+        )}
+
+        {newUrl && (
+          <div className="rounded-md border border-green-200 bg-green-50 p-4 space-y-2">
+            <p className="text-sm text-green-800">
+              Copy this address now; it is only shown once. Anyone with it can see the timetable, so revoke the feed if it leaks.
+            </p>
+            <div className="flex gap-2">
+              <Input value={newUrl} readOnly onFocus={(e) => e.target.select()} />
+              <Button type="button" variant="outline" onClick={() => navigator.clipboard.writeText(newUrl)}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <a href={newUrl.replace(/^https?:/, 'webcal:')} className="text-sm text-indigo-600 hover:text-indigo-500">
+              Open in calendar app
+            </a>
+          </div>
+        )}
+
+        {feeds.length > 0 && (
+          <ul className="divide-y divide-gray-200">
+            {feeds.map(feed => (
+              <li key={feed.id} className="flex items-center justify-between py-3">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{SCOPE_LABELS[feed.scope]}: {feed.label}</p>
+                  <p className="text-xs text-gray-500">
+                    Created {new Date(feed.createdAt).toLocaleDateString()}
+                    {' · '}
+                    {feed.lastUsedAt ? `last synced ${new Date(feed.lastUsedAt).toLocaleString()}` : 'never synced'}
+                  </p>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => handleRevoke(feed)}>
+                  <Trash2 className="h-4 w-4 text-red-600" />
+                  <span className="ml-1">Revoke</span>
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,227 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Copy, KeyRound } from 'lucide-react'
+import type { TwoFactorStatus } from '@/lib/two-factor'
+
+interface Enrolment {
+  secret: string
+  qrCode: string
+}
+
+interface TwoFactorSettingsProps {
+  // Called once the recovery codes from a new enrolment have been acknowledged
+  onEnabled?: () => void
+}
+
+export default function TwoFactorSettings({ onEnabled }: TwoFactorSettingsProps) {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null)
+  const [enrolment, setEnrolment] = useState<Enrolment | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [code, setCode] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchStatus()
+  }, [])
+
+  const fetchStatus = async () => {
+    try {
+      const response = await fetch('/api/profile/two-factor')
+      if (response.ok) {
+        setStatus(await response.json())
+      } else {
+        setError('Failed to load two-factor settings')
+      }
+    } catch (error) {
+      console.error('Error fetching two-factor status:', error)
+      setError('Failed to load two-factor settings')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const send = async (url: string, method: string, body?: object) => {
+    setSaving(true)
+    setError(null)
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.details?.[0]?.message || data.error || 'Something went wrong')
+        return null
+      }
+      return data
+    } catch (error) {
+      console.error('Error updating two-factor authentication:', error)
+      setError('Something went wrong')
+      return null
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleBegin = async () => {
+    const data = await send('/api/profile/two-factor', 'POST')
+    if (data) {
+      setEnrolment({ secret: data.secret, qrCode: data.qrCode })
+      setCode('')
+    }
+  }
+
+  const handleConfirm = async () => {
+    const data = await send('/api/profile/two-factor/verify', 'POST', { code })
+    if (data) {
+      setEnrolment(null)
+      setRecoveryCodes(data.recoveryCodes)
+      setCode('')
+      await fetchStatus()
+    }
+  }
+
+  const handleRegenerate = async () => {
+    const data = await send('/api/profile/two-factor/recovery-codes', 'POST', { code })
+    if (data) {
+      setRecoveryCodes(data.recoveryCodes)
+      setCode('')
+      await fetchStatus()
+    }
+  }
+
+  const handleDisable = async () => {
+    if (!confirm('Turn off two-factor authentication? Your account will be protected by your password alone.')) {
+      return
+    }
+
+    const data = await send('/api/profile/two-factor', 'DELETE', { code })
+    if (data) {
+      setCode('')
+      await fetchStatus()
+    }
+  }
+
+  const handleCodesSaved = () => {
+    setRecoveryCodes(null)
+    onEnabled?.()
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          Two-Factor Authentication
+        </CardTitle>
+        <CardDescription>
+          Ask for a code from an authenticator app such as Google Authenticator or Microsoft Authenticator each
+          time you sign in. If your phone is not to hand you can have a code texted to you or use a recovery code.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {loading || !status ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : recoveryCodes ? (
+          <div className="rounded-md border border-green-200 bg-green-50 p-4 space-y-3">
+            <p className="text-sm text-green-800">
+              Save these recovery codes somewhere safe; they are only shown once. Each one signs you in a single
+              time if you lose your phone.
+            </p>
+            <ul className="grid grid-cols-2 gap-2 font-mono text-sm text-gray-900">
+              {recoveryCodes.map(recoveryCode => (
+                <li key={recoveryCode}>{recoveryCode}</li>
+              ))}
+            </ul>
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" onClick={() => navigator.clipboard.writeText(recoveryCodes.join('\n'))}>
+                <Copy className="h-4 w-4" />
+                <span className="ml-1">Copy</span>
+              </Button>
+              <Button type="button" onClick={handleCodesSaved}>I have saved these codes</Button>
+            </div>
+          </div>
+        ) : enrolment ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-700">
+              Scan this QR code with your authenticator app, or enter the key by hand, then type the 6-digit code it shows.
+            </p>
+            <img src={enrolment.qrCode} alt="QR code for your authenticator app" className="h-48 w-48" />
+            <p className="text-sm text-gray-600">
+              Key: <span className="font-mono break-all">{enrolment.secret}</span>
+            </p>
+            <div className="flex flex-col gap-2 sm:flex-row sm:items-end">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="enrolmentCode">Code from the app</Label>
+                <Input
+                  id="enrolmentCode"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                />
+              </div>
+              <Button onClick={handleConfirm} disabled={saving || !code}>
+                {saving ? 'Checking...' : 'Turn on'}
+              </Button>
+            </div>
+          </div>
+        ) : status.enabled ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-700">
+              Two-factor authentication is <span className="font-medium text-green-700">on</span>.
+              {' '}{status.recoveryCodesRemaining} recovery {status.recoveryCodesRemaining === 1 ? 'code' : 'codes'} left.
+              {!status.hasPhoneNumber && ' Add a phone number to your profile to be able to get codes by SMS.'}
+            </p>
+            <div className="flex flex-col gap-2 sm:flex-row sm:items-end">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="managementCode">Current code</Label>
+                <Input
+                  id="managementCode"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  autoComplete="one-time-code"
+                  placeholder="Authenticator or recovery code"
+                />
+              </div>
+              <Button variant="outline" onClick={handleRegenerate} disabled={saving || !code}>
+                New recovery codes
+              </Button>
+              {!status.required && (
+                <Button variant="outline" onClick={handleDisable} disabled={saving || !code}>
+                  Turn off
+                </Button>
+              )}
+            </div>
+            {status.required && (
+              <p className="text-xs text-gray-500">Your role requires two-factor authentication, so it cannot be turned off.</p>
+            )}
+          </div>
+        ) : (
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm text-gray-700">
+              {status.required
+                ? 'Your role requires two-factor authentication. Set it up to continue.'
+                : 'Two-factor authentication is off.'}
+            </p>
+            <Button onClick={handleBegin} disabled={saving}>
+              {saving ? 'Starting...' : 'Set up'}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -14,7 +14,14 @@ import {
   ArrowUpTrayIcon,
   ComputerDesktopIcon,
   CheckCircleIcon,
-  BellIcon
+  BellIcon,
+  CalendarDaysIcon,
+  ArrowPathIcon,
+  VideoCameraIcon,
+  BanknotesIcon,
+  ScaleIcon,
+  ArrowsRightLeftIcon,
+  MapIcon
 } from '@heroicons/react/24/outline';
 import {
   HomeIcon as HomeSolidIcon,
@@ -31,7 +38,14 @@ import {
   ArrowUpTrayIcon as ArrowUpTraySolidIcon,
   ComputerDesktopIcon as ComputerDesktopSolidIcon,
   CheckCircleIcon as CheckCircleSolidIcon,
-  BellIcon as BellSolidIcon
+  BellIcon as BellSolidIcon,
+  CalendarDaysIcon as CalendarDaysSolidIcon,
+  ArrowPathIcon as ArrowPathSolidIcon,
+  VideoCameraIcon as VideoCameraSolidIcon,
+  BanknotesIcon as BanknotesSolidIcon,
+  ScaleIcon as ScaleSolidIcon,
+  ArrowsRightLeftIcon as ArrowsRightLeftSolidIcon,
+  MapIcon as MapSolidIcon
 } from '@heroicons/react/24/solid';
 import { UserRole } from '@prisma/client';
 
@@ -115,6 +129,55 @@ export const navigationItems: NavigationItem[] = [
     solidIcon: CalendarSolidIcon,
     roles: ['ADMIN', 'LECTURER']
   },
+  {
+    name: 'Academic Calendar',
+    href: '/dashboard/academic-calendar',
+    icon: CalendarDaysIcon,
+    solidIcon: CalendarDaysSolidIcon,
+    roles: ['ADMIN', 'COORDINATOR']
+  },
+  {
+    name: 'Make-up Classes',
+    href: '/dashboard/reschedules',
+    icon: ArrowPathIcon,
+    solidIcon: ArrowPathSolidIcon,
+    roles: ['ADMIN', 'COORDINATOR', 'LECTURER']
+  },
+  {
+    name: 'Participant Reports',
+    href: '/dashboard/participant-reports',
+    icon: VideoCameraIcon,
+    solidIcon: VideoCameraSolidIcon,
+    roles: ['ADMIN', 'COORDINATOR', 'ONLINE_SUPERVISOR', 'LECTURER']
+  },
+  {
+    name: 'Claims',
+    href: '/dashboard/claims',
+    icon: BanknotesIcon,
+    solidIcon: BanknotesSolidIcon,
+    roles: ['ADMIN', 'COORDINATOR', 'LECTURER']
+  },
+  {
+    name: 'Appeals',
+    href: '/dashboard/appeals',
+    icon: ScaleIcon,
+    solidIcon: ScaleSolidIcon,
+    roles: ['ADMIN', 'COORDINATOR', 'LECTURER']
+  },
+  {
+    name: 'Reconciliation',
+    href: '/dashboard/reconciliation',
+    icon: ArrowsRightLeftIcon,
+    solidIcon: ArrowsRightLeftSolidIcon,
+    roles: ['ADMIN', 'COORDINATOR']
+  },
+  {
+    name: 'Supervisor Patrols',
+    href: '/dashboard/supervisor/assignments',
+    icon: MapIcon,
+    solidIcon: MapSolidIcon,
+    roles: ['ADMIN']
+  },
   {
     name: 'Lecturers',
     href: '/dashboard/lecturers',
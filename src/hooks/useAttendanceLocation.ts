@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
 import { pwaService } from '@/lib/pwa';
+import { getDeviceId } from '@/lib/device-id';
 import { toast } from 'react-hot-toast'; // Assuming react-hot-toast is used, based on package.json
 
 interface Location {
@@ -10,10 +11,13 @@ interface Location {
 
 interface AttendanceSubmission {
   scheduleId: string;
-  method: 'onsite' | 'virtual';
+  classSessionId?: string;
+  method: 'onsite' | 'virtual' | 'qr';
+  qrToken?: string;
   remarks?: string;
   latitude?: number;
   longitude?: number;
+  accuracy?: number;
 }
 
 export function useAttendanceLocation() {
@@ -163,7 +167,10 @@ export function useAttendanceLocation() {
     }
   }, []);
 
-  const submitAttendance = async (data: AttendanceSubmission) => {
+  const submitAttendance = async (submission: AttendanceSubmission) => {
+    // Queued submissions carry the device ID too, so replays from the service worker keep it
+    const data = { ...submission, deviceId: getDeviceId() };
+
     try {
       // If offline, store locally
       if (isOffline) {
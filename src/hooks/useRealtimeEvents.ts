@@ -0,0 +1,95 @@
+import { useEffect, useRef, useState } from 'react';
+import type { RealtimeEventType } from '@/lib/realtime-events';
+
+type Listener = (type: RealtimeEventType, data: Record<string, unknown>) => void;
+
+const EVENT_TYPES: RealtimeEventType[] = [
+  'attendance.recorded',
+  'attendance.verified',
+  'verification_request.updated',
+  'notification.created'
+];
+
+// One stream per tab, shared by every component that listens
+let source: EventSource | null = null;
+const listeners = new Set<Listener>();
+const connectionListeners = new Set<(connected: boolean) => void>();
+
+function setConnected(connected: boolean) {
+  connectionListeners.forEach(listener => listener(connected));
+}
+
+function openStream() {
+  source = new EventSource('/api/events');
+  source.onopen = () => setConnected(true);
+  // EventSource reconnects by itself; report the gap meanwhile
+  source.onerror = () => setConnected(false);
+
+  for (const type of EVENT_TYPES) {
+    source.addEventListener(type, (event) => {
+      let data: Record<string, unknown> = {};
+      try {
+        data = JSON.parse((event as MessageEvent).data);
+      } catch {
+        // Keep the empty payload
+      }
+      listeners.forEach(listener => listener(type, data));
+    });
+  }
+}
+
+function closeStreamIfUnused() {
+  if (listeners.size === 0 && source) {
+    source.close();
+    source = null;
+  }
+}
+
+/**
+ * Subscribe to server-sent events for the signed-in user. The server only
+ * sends events within the user's role and class group scope.
+ */
+export function useRealtimeEvents(
+  types: RealtimeEventType[],
+  onEvent: (type: RealtimeEventType, data: Record<string, unknown>) => void,
+  enabled = true
+) {
+  const [connected, setConnectedState] = useState(false);
+  const handlerRef = useRef(onEvent);
+  const typesKey = types.join(',');
+
+  // Listeners always call the latest handler without resubscribing
+  useEffect(() => {
+    handlerRef.current = onEvent;
+  });
+
+  useEffect(() => {
+    if (!enabled || typeof window === 'undefined' || !('EventSource' in window)) {
+      return;
+    }
+
+    const wanted = new Set(typesKey.split(','));
+    const listener: Listener = (type, data) => {
+      if (wanted.has(type)) {
+        handlerRef.current(type, data);
+      }
+    };
+
+    listeners.add(listener);
+    connectionListeners.add(setConnectedState);
+
+    if (!source) {
+      openStream();
+    } else if (source.readyState === EventSource.OPEN) {
+      setConnectedState(true);
+    }
+
+    return () => {
+      listeners.delete(listener);
+      connectionListeners.delete(setConnectedState);
+      closeStreamIfUnused();
+    };
+  }, [enabled, typesKey]);
+
+  return { connected };
+}
@@ -0,0 +1,103 @@
+import {
+  getDayStatus,
+  getTeachingWeek,
+  countTeachingOccurrences,
+  describeDayStatus,
+  AcademicCalendar,
+  SemesterInfo
+} from '../academic-calendar'
+
+jest.mock('@/lib/db', () => ({
+  prisma: {}
+}))
+
+const firstSemester: SemesterInfo = {
+  id: 'semester-1',
+  academicYearId: 'year-1',
+  name: 'First Semester',
+  startDate: new Date('2026-09-07T00:00:00.000Z'), // Monday
+  endDate: new Date('2026-12-18T00:00:00.000Z'),
+  teachingWeeks: 13
+}
+
+const calendar: AcademicCalendar = {
+  configured: true,
+  semesters: [firstSemester],
+  events: [
+    {
+      id: 'holiday-1',
+      semesterId: null,
+      type: 'holiday',
+      name: 'Founders Day',
+      startDate: new Date('2026-09-21T00:00:00.000Z'),
+      endDate: new Date('2026-09-21T00:00:00.000Z')
+    },
+    {
+      id: 'reading-1',
+      semesterId: 'semester-1',
+      type: 'reading_week',
+      name: 'Mid-semester Break',
+      startDate: new Date('2026-10-19T00:00:00.000Z'),
+      endDate: new Date('2026-10-23T00:00:00.000Z')
+    }
+  ]
+}
+
+describe('Academic calendar', () => {
+  describe('getDayStatus', () => {
+    it('treats every day as teaching when no calendar is configured', () => {
+      const status = getDayStatus(new Date('2026-08-01T10:00:00.000Z'), { semesters: [], events: [], configured: false })
+
+      expect(status.teaching).toBe(true)
+      expect(status.teachingWeek).toBeNull()
+    })
+
+    it('marks holidays as non-teaching days', () => {
+      const status = getDayStatus(new Date('2026-09-21T09:00:00.000Z'), calendar)
+
+      expect(status.teaching).toBe(false)
+      expect(status.reason).toBe('holiday')
+      expect(describeDayStatus(status)).toBe('Public holiday: Founders Day')
+    })
+
+    it('marks days outside any semester as non-teaching', () => {
+      const status = getDayStatus(new Date('2027-01-05T09:00:00.000Z'), calendar)
+
+      expect(status.teaching).toBe(false)
+      expect(status.reason).toBe('outside_semester')
+    })
+
+    it('returns the semester and teaching week for a regular teaching day', () => {
+      const status = getDayStatus(new Date('2026-09-16T09:00:00.000Z'), calendar)
+
+      expect(status.teaching).toBe(true)
+      expect(status.semester?.id).toBe('semester-1')
+      expect(status.teachingWeek).toBe(2)
+    })
+  })
+
+  describe('getTeachingWeek', () => {
+    it('does not count a reading week that has already passed', () => {
+      // Calendar week 7 is the reading week, so calendar week 8 is teaching week 7
+      expect(getTeachingWeek(new Date('2026-10-26T09:00:00.000Z'), firstSemester, calendar.events)).toBe(7)
+    })
+
+    it('returns null for dates outside the semester', () => {
+      expect(getTeachingWeek(new Date('2026-08-31T09:00:00.000Z'), firstSemester, calendar.events)).toBeNull()
+    })
+  })
+
+  describe('countTeachingOccurrences', () => {
+    it('skips holidays and reading weeks when counting expected classes', () => {
+      // Mondays from 7 Sep to 26 Oct: 8 Mondays, minus Founders Day and the reading week
+      const count = countTeachingOccurrences(
+        1,
+        new Date('2026-09-07T00:00:00.000Z'),
+        new Date('2026-10-26T23:59:59.999Z'),
+        calendar
+      )
+
+      expect(count).toBe(6)
+    })
+  })
+})
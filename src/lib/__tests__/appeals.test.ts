@@ -0,0 +1,55 @@
+import { APPEAL_WINDOW_DAYS, getAppealBlocker, getAppealOutcome, parseAppealEvidence } from '../appeals'
+
+jest.mock('@/lib/db', () => ({
+  prisma: {}
+}))
+
+const now = new Date('2026-10-19T12:00:00.000Z')
+
+const rejectedRecord = {
+  timestamp: new Date('2026-10-12T09:00:00.000Z'),
+  supervisorVerified: false,
+  lockedAt: null,
+  appeals: []
+}
+
+describe('Attendance appeals', () => {
+  describe('getAppealBlocker', () => {
+    it('allows appeals against recent rejections', () => {
+      expect(getAppealBlocker(rejectedRecord, now)).toBeNull()
+    })
+
+    it('only allows appeals against rejected attendance', () => {
+      expect(getAppealBlocker({ ...rejectedRecord, supervisorVerified: true }, now)).not.toBeNull()
+      expect(getAppealBlocker({ ...rejectedRecord, supervisorVerified: null }, now)).not.toBeNull()
+    })
+
+    it('allows one live appeal per record but a new one after withdrawal', () => {
+      expect(getAppealBlocker({ ...rejectedRecord, appeals: [{ status: 'pending' }] }, now)).toMatch(/awaiting a decision/)
+      expect(getAppealBlocker({ ...rejectedRecord, appeals: [{ status: 'rejected' }] }, now)).toMatch(/already been appealed/)
+      expect(getAppealBlocker({ ...rejectedRecord, appeals: [{ status: 'withdrawn' }] }, now)).toBeNull()
+    })
+
+    it('refuses locked records and appeals after the window', () => {
+      expect(getAppealBlocker({ ...rejectedRecord, lockedAt: now }, now)).toMatch(/locked/)
+
+      const late = new Date(rejectedRecord.timestamp.getTime() + (APPEAL_WINDOW_DAYS + 1) * 24 * 60 * 60 * 1000)
+      expect(getAppealBlocker(rejectedRecord, late)).toMatch(/within 30 days/)
+    })
+  })
+
+  it('writes the decision back as the supervisor verification', () => {
+    expect(getAppealOutcome('accept', 'Room change confirmed')).toEqual({
+      status: 'accepted',
+      supervisorVerified: true,
+      supervisorComment: 'Appeal upheld: Room change confirmed'
+    })
+    expect(getAppealOutcome('reject', 'No evidence').supervisorVerified).toBe(false)
+  })
+
+  it('reads stored evidence defensively', () => {
+    expect(parseAppealEvidence('["/uploads/a.pdf"]')).toEqual(['/uploads/a.pdf'])
+    expect(parseAppealEvidence('not json')).toEqual([])
+    expect(parseAppealEvidence(null)).toEqual([])
+  })
+})
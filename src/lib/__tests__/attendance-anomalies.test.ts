@@ -0,0 +1,114 @@
+import {
+  AnomalyCheckRecord,
+  calculateAnomalyRiskScore,
+  detectAttendanceAnomalies
+} from '../attendance-anomalies'
+
+jest.mock('@/lib/db', () => ({
+  prisma: {}
+}))
+
+jest.mock('@/lib/notifications', () => ({
+  notifyAttendanceAnomaly: jest.fn()
+}))
+
+const baseRecord: AnomalyCheckRecord = {
+  id: 'record-1',
+  lecturerId: 'lecturer-1',
+  timestamp: new Date('2026-10-19T09:00:00.000Z'),
+  gpsLatitude: 5.6037,
+  gpsLongitude: -0.187,
+  locationAccuracy: 12,
+  deviceFingerprint: 'device-a'
+}
+
+function record(overrides: Partial<AnomalyCheckRecord>): AnomalyCheckRecord {
+  return { ...baseRecord, ...overrides }
+}
+
+const noHistory = { lecturerRecords: [], deviceRecords: [] }
+
+describe('Attendance anomaly detection', () => {
+  it('finds nothing for an ordinary first check-in', () => {
+    expect(detectAttendanceAnomalies(baseRecord, noHistory)).toEqual([])
+  })
+
+  it('flags implausibly perfect GPS accuracy', () => {
+    const anomalies = detectAttendanceAnomalies(record({ locationAccuracy: 0 }), noHistory)
+    expect(anomalies.map(anomaly => anomaly.type)).toEqual(['perfect_accuracy'])
+  })
+
+  it('flags identical coordinates reused on a different day', () => {
+    const earlier = record({ id: 'record-0', timestamp: new Date('2026-10-12T09:00:00.000Z') })
+    const anomalies = detectAttendanceAnomalies(baseRecord, { lecturerRecords: [earlier], deviceRecords: [] })
+
+    expect(anomalies).toEqual([
+      expect.objectContaining({ type: 'reused_coordinates', relatedRecordId: 'record-0' })
+    ])
+  })
+
+  it('ignores identical coordinates on the same day', () => {
+    const earlier = record({ id: 'record-0', timestamp: new Date('2026-10-19T07:00:00.000Z') })
+    expect(detectAttendanceAnomalies(baseRecord, { lecturerRecords: [earlier], deviceRecords: [] })).toEqual([])
+  })
+
+  it('flags travel faster than is physically possible', () => {
+    // Kumasi, roughly 200km from Accra, twenty minutes earlier
+    const earlier = record({
+      id: 'record-0',
+      timestamp: new Date('2026-10-19T08:40:00.000Z'),
+      gpsLatitude: 6.6885,
+      gpsLongitude: -1.6244
+    })
+    const anomalies = detectAttendanceAnomalies(baseRecord, { lecturerRecords: [earlier], deviceRecords: [] })
+
+    expect(anomalies).toEqual([
+      expect.objectContaining({ type: 'impossible_travel', relatedRecordId: 'record-0' })
+    ])
+  })
+
+  it('allows realistic travel between campuses', () => {
+    const earlier = record({
+      id: 'record-0',
+      timestamp: new Date('2026-10-19T07:00:00.000Z'),
+      gpsLatitude: 5.65,
+      gpsLongitude: -0.187
+    })
+    expect(detectAttendanceAnomalies(baseRecord, { lecturerRecords: [earlier], deviceRecords: [] })).toEqual([])
+  })
+
+  it('flags a device not previously used by the lecturer', () => {
+    const earlier = record({
+      id: 'record-0',
+      timestamp: new Date('2026-10-18T09:00:00.000Z'),
+      gpsLatitude: 5.6,
+      deviceFingerprint: 'device-b'
+    })
+    const anomalies = detectAttendanceAnomalies(baseRecord, { lecturerRecords: [earlier], deviceRecords: [] })
+
+    expect(anomalies.map(anomaly => anomaly.type)).toEqual(['fingerprint_change'])
+  })
+
+  it('flags one device checking in several lecturers', () => {
+    const deviceRecords = [
+      record({ id: 'record-2', lecturerId: 'lecturer-2' }),
+      record({ id: 'record-3', lecturerId: 'lecturer-3' })
+    ]
+    const anomalies = detectAttendanceAnomalies(baseRecord, { lecturerRecords: [], deviceRecords })
+
+    expect(anomalies.map(anomaly => anomaly.type)).toEqual(['shared_device'])
+  })
+
+  it('sums anomaly weights into a risk score capped at 100', () => {
+    expect(calculateAnomalyRiskScore([])).toBe(0)
+    expect(calculateAnomalyRiskScore([
+      { type: 'perfect_accuracy', weight: 25, message: '' },
+      { type: 'fingerprint_change', weight: 15, message: '' }
+    ])).toBe(40)
+    expect(calculateAnomalyRiskScore([
+      { type: 'impossible_travel', weight: 45, message: '' },
+      { type: 'reused_coordinates', weight: 35, message: '' },
+      { type: 'shared_device', weight: 35, message: '' }
+    ])).toBe(100)
+  })
+})
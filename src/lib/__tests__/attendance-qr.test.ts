@@ -0,0 +1,104 @@
+import {
+  createAttendanceQrToken,
+  verifyAttendanceQrToken,
+  QR_TOKEN_MAX_AGE_SECONDS
+} from '../attendance-qr'
+
+jest.mock('@/lib/db', () => ({
+  prisma: {}
+}))
+
+const session = {
+  scheduleId: 'schedule-123',
+  classSessionId: 'session-123',
+  date: new Date('2026-10-19T00:00:00.000Z')
+}
+
+const issuedAt = new Date('2026-10-19T09:00:00.000Z')
+
+describe('Attendance QR tokens', () => {
+  const originalSecret = process.env.ATTENDANCE_QR_SECRET
+
+  beforeAll(() => {
+    process.env.ATTENDANCE_QR_SECRET = 'test-qr-secret'
+  })
+
+  afterAll(() => {
+    process.env.ATTENDANCE_QR_SECRET = originalSecret
+  })
+
+  it('accepts a freshly issued token for the same class session', () => {
+    const { token, nonce } = createAttendanceQrToken(session, issuedAt)
+    const result = verifyAttendanceQrToken(token, session, new Date(issuedAt.getTime() + 10000))
+
+    expect(result).toEqual({
+      valid: true,
+      payload: {
+        scheduleId: 'schedule-123',
+        classSessionId: 'session-123',
+        date: '2026-10-19',
+        issuedAt: issuedAt.getTime(),
+        nonce
+      }
+    })
+  })
+
+  it('issues a different nonce every time', () => {
+    const first = createAttendanceQrToken(session, issuedAt)
+    const second = createAttendanceQrToken(session, issuedAt)
+
+    expect(first.nonce).not.toBe(second.nonce)
+    expect(first.token).not.toBe(second.token)
+  })
+
+  it('rejects tokens whose payload has been altered', () => {
+    const { token } = createAttendanceQrToken(session, issuedAt)
+    const [, signature] = token.split('.')
+    const forgedPayload = Buffer.from(JSON.stringify({
+      s: 'schedule-123',
+      c: 'session-123',
+      d: '2026-10-19',
+      t: issuedAt.getTime() + 3600000,
+      n: 'forged'
+    })).toString('base64url')
+
+    const result = verifyAttendanceQrToken(`${forgedPayload}.${signature}`, session, issuedAt)
+    expect(result).toEqual({ valid: false, error: 'QR code signature is invalid' })
+  })
+
+  it('rejects tokens signed with another secret', () => {
+    const { token } = createAttendanceQrToken(session, issuedAt)
+    process.env.ATTENDANCE_QR_SECRET = 'rotated-secret'
+
+    try {
+      expect(verifyAttendanceQrToken(token, session, issuedAt)).toEqual({ valid: false, error: 'QR code signature is invalid' })
+    } finally {
+      process.env.ATTENDANCE_QR_SECRET = 'test-qr-secret'
+    }
+  })
+
+  it('rejects tokens for a different class session', () => {
+    const { token } = createAttendanceQrToken(session, issuedAt)
+    const result = verifyAttendanceQrToken(token, { ...session, classSessionId: 'session-999' }, issuedAt)
+
+    expect(result).toEqual({ valid: false, error: 'QR code is for a different class' })
+  })
+
+  it('rejects tokens older than the maximum age', () => {
+    const { token } = createAttendanceQrToken(session, issuedAt)
+    const result = verifyAttendanceQrToken(token, session, new Date(issuedAt.getTime() + (QR_TOKEN_MAX_AGE_SECONDS + 1) * 1000))
+
+    expect(result.valid).toBe(false)
+  })
+
+  it('rejects tokens issued for another day', () => {
+    const { token } = createAttendanceQrToken(session, issuedAt)
+    const result = verifyAttendanceQrToken(token, session, new Date('2026-10-20T09:00:00.000Z'))
+
+    expect(result).toEqual({ valid: false, error: 'QR code is not for today\'s class' })
+  })
+
+  it('rejects malformed tokens', () => {
+    expect(verifyAttendanceQrToken('not-a-token', session, issuedAt)).toEqual({ valid: false, error: 'Invalid QR code' })
+  })
+})
@@ -0,0 +1,110 @@
+import { buildFeedEvents, buildICalendar, hashFeedToken, createFeedToken, type FeedSchedule, type FeedSession } from '../calendar-feeds'
+
+jest.mock('@/lib/db', () => ({
+  prisma: {}
+}))
+
+const room = { roomCode: 'LT1', name: 'Lecture Theatre 1', virtualLink: null, building: { name: 'Main Block' } }
+
+function schedule(overrides: Partial<FeedSchedule> = {}): FeedSchedule {
+  return {
+    id: 'sched-1',
+    dayOfWeek: 1,
+    startTime: '09:00',
+    endTime: '12:00',
+    sessionType: 'LECTURE',
+    meetingLink: null,
+    course: { courseCode: 'ACC101', title: 'Financial Accounting' },
+    classGroup: { name: 'BSc ACC 1A' },
+    lecturer: { user: { firstName: 'Kofi', lastName: 'Mensah' } },
+    classroom: room,
+    ...overrides
+  }
+}
+
+function session(overrides: Partial<FeedSession>): FeedSession {
+  return {
+    id: 'session-1',
+    courseScheduleId: 'sched-1',
+    date: new Date('2026-10-12T00:00:00Z'),
+    startTime: '09:00',
+    endTime: '12:00',
+    status: 'scheduled',
+    statusReason: null,
+    isMakeUp: false,
+    classroom: null,
+    ...overrides
+  }
+}
+
+// Monday 5 October to Sunday 25 October 2026
+const range = { start: new Date('2026-10-05T00:00:00Z'), end: new Date('2026-10-25T23:59:59Z') }
+const openCalendar = { semesters: [], events: [] }
+
+describe('Calendar feeds', () => {
+  it('lists each weekly class with its room', () => {
+    const events = buildFeedEvents([schedule()], [], openCalendar, range)
+
+    expect(events.map(event => event.uid)).toEqual(['sched-1-20261005', 'sched-1-20261012', 'sched-1-20261019'])
+    expect(events[0]).toMatchObject({
+      start: new Date('2026-10-05T09:00:00Z'),
+      end: new Date('2026-10-05T12:00:00Z'),
+      summary: 'ACC101 Financial Accounting (BSc ACC 1A)',
+      location: 'LT1 Lecture Theatre 1, Main Block',
+      url: null,
+      cancelled: false
+    })
+  })
+
+  it('marks cancelled classes, adds make-ups and skips holidays', () => {
+    const calendar = {
+      semesters: [],
+      events: [{ id: 'h1', type: 'holiday', name: 'Farmers Day', startDate: new Date('2026-10-19T00:00:00Z'), endDate: new Date('2026-10-19T00:00:00Z') }]
+    }
+    const events = buildFeedEvents([schedule()], [
+      session({ status: 'cancelled', statusReason: 'Lecturer ill' }),
+      session({ id: 'makeup-1', date: new Date('2026-10-15T00:00:00Z'), startTime: '14:00', endTime: '17:00', isMakeUp: true, classroom: { ...room, roomCode: 'LT2' } })
+    ], calendar, range)
+
+    expect(events.map(event => [event.uid, event.cancelled])).toEqual([
+      ['sched-1-20261005', false],
+      ['sched-1-20261012', true],
+      ['session-makeup-1', false]
+    ])
+    expect(events[1]).toMatchObject({ summary: 'Cancelled: ACC101 Financial Accounting (BSc ACC 1A)', description: expect.stringContaining('Cancelled: Lecturer ill') })
+    expect(events[2]).toMatchObject({ start: new Date('2026-10-15T14:00:00Z'), summary: expect.stringMatching(/^Make-up: /), location: expect.stringContaining('LT2') })
+  })
+
+  it('includes meeting links for online classes', () => {
+    const [event] = buildFeedEvents([schedule({ sessionType: 'VIRTUAL', classroom: null, meetingLink: 'https://meet.example.com/acc101' })], [], openCalendar, {
+      start: range.start,
+      end: new Date('2026-10-06T00:00:00Z')
+    })
+
+    expect(event).toMatchObject({ location: 'Online', url: 'https://meet.example.com/acc101', description: expect.stringContaining('Join: https://meet.example.com/acc101') })
+  })
+
+  it('writes escaped, folded iCalendar text', () => {
+    const [event] = buildFeedEvents([schedule({ course: { courseCode: 'ACC101', title: 'Accounting; Theory, and Practice of Financial Reporting for Public Sector Entities' } })], [], openCalendar, {
+      start: range.start,
+      end: new Date('2026-10-06T00:00:00Z')
+    })
+    const ics = buildICalendar('My teaching timetable', [event], new Date('2026-10-01T08:00:00Z'))
+    const lines = ics.split('\r\n')
+
+    expect(lines[0]).toBe('BEGIN:VCALENDAR')
+    expect(ics).toContain('DTSTART:20261005T090000Z\r\n')
+    expect(ics).toContain('UID:sched-1-20261005@upsa-attendance\r\n')
+    expect(lines.every(line => line.length <= 75)).toBe(true)
+    expect(ics.replace(/\r\n /g, '')).toContain('SUMMARY:ACC101 Accounting\\; Theory\\, and Practice of Financial Reporting for Public Sector Entities (BSc ACC 1A)')
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true)
+  })
+
+  it('stores only a hash of feed tokens', () => {
+    const { token, tokenHash } = createFeedToken()
+
+    expect(token).toMatch(/^[A-Za-z0-9_-]{32}$/)
+    expect(tokenHash).toBe(hashFeedToken(token))
+    expect(tokenHash).not.toContain(token)
+  })
+})
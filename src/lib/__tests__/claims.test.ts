@@ -0,0 +1,179 @@
+import {
+  buildClaimLines,
+  calculateSessionHours,
+  canReviewClaimStep,
+  ClaimableRecord,
+  ClaimRateEntry,
+  findClaimRate,
+  getClaimReviewStep,
+  getClaimStatusAfterReview,
+  isClaimableRecord,
+  isClaimPeriodOpen,
+  toPayrollRows
+} from '../claims'
+
+jest.mock('@/lib/db', () => ({
+  prisma: {}
+}))
+
+const rates: ClaimRateEntry[] = [
+  { rank: '*', programmeLevel: '*', hourlyRate: 100, currency: 'GHS' },
+  { rank: '*', programmeLevel: 'PhD', hourlyRate: 180, currency: 'GHS' },
+  { rank: 'Senior Lecturer', programmeLevel: '*', hourlyRate: 150, currency: 'GHS' },
+  { rank: 'Senior Lecturer', programmeLevel: 'MBA', hourlyRate: 160, currency: 'GHS' }
+]
+
+const record: ClaimableRecord = {
+  id: 'record-1',
+  timestamp: new Date('2026-10-05T09:00:00.000Z'),
+  supervisorVerified: true,
+  classSession: { status: 'held', isMakeUp: false, startTime: '09:00', endTime: '11:30' },
+  courseSchedule: {
+    startTime: '09:00',
+    endTime: '11:30',
+    isOverload: false,
+    course: { courseCode: 'MBA 601', title: 'Corporate Finance', programme: { level: 'MBA' } }
+  },
+  claimLine: null
+}
+
+const adjunct = { rank: 'Senior Lecturer', isAdjunct: true }
+
+describe('Lecturer claims', () => {
+  describe('review steps', () => {
+    it('moves claims from the head of department to finance', () => {
+      expect(getClaimReviewStep('submitted')).toBe('hod')
+      expect(getClaimReviewStep('hod_approved')).toBe('finance')
+      expect(getClaimReviewStep('approved')).toBeNull()
+      expect(getClaimStatusAfterReview('hod', 'approve')).toBe('hod_approved')
+      expect(getClaimStatusAfterReview('finance', 'approve')).toBe('approved')
+      expect(getClaimStatusAfterReview('finance', 'reject')).toBe('rejected')
+    })
+
+    it('reserves final approval for administrators', () => {
+      expect(canReviewClaimStep('hod', 'COORDINATOR')).toBe(true)
+      expect(canReviewClaimStep('finance', 'COORDINATOR')).toBe(false)
+      expect(canReviewClaimStep('finance', 'ADMIN')).toBe(true)
+      expect(canReviewClaimStep('hod', 'LECTURER')).toBe(false)
+    })
+
+    it('accepts submissions until the end of the deadline day', () => {
+      const period = { status: 'open', submissionDeadline: new Date('2026-10-31T00:00:00.000Z') }
+      expect(isClaimPeriodOpen(period, new Date('2026-10-31T23:00:00.000Z'))).toBe(true)
+      expect(isClaimPeriodOpen(period, new Date('2026-11-01T00:00:00.000Z'))).toBe(false)
+      expect(isClaimPeriodOpen({ ...period, status: 'closed' }, new Date('2026-10-20T00:00:00.000Z'))).toBe(false)
+    })
+  })
+
+  describe('findClaimRate', () => {
+    it('prefers the most specific rate', () => {
+      expect(findClaimRate(rates, 'Senior Lecturer', 'MBA')?.hourlyRate).toBe(160)
+      expect(findClaimRate(rates, 'Senior Lecturer', 'MSc')?.hourlyRate).toBe(150)
+      expect(findClaimRate(rates, 'Lecturer', 'PhD')?.hourlyRate).toBe(180)
+      expect(findClaimRate(rates, null, 'MSc')?.hourlyRate).toBe(100)
+    })
+
+    it('returns nothing when no rate matches', () => {
+      expect(findClaimRate(rates.slice(1), 'Lecturer', 'MSc')).toBeNull()
+    })
+  })
+
+  it('calculates class hours to one decimal place', () => {
+    expect(calculateSessionHours('09:00', '11:30')).toBe(2.5)
+    expect(calculateSessionHours('14:00', '14:50')).toBe(0.8)
+    expect(calculateSessionHours('11:00', '09:00')).toBe(0)
+  })
+
+  describe('isClaimableRecord', () => {
+    it('only claims adjunct teaching or overload schedules', () => {
+      expect(isClaimableRecord(record, { isAdjunct: true })).toBe(true)
+      expect(isClaimableRecord(record, { isAdjunct: false })).toBe(false)
+      expect(isClaimableRecord(
+        { ...record, courseSchedule: { ...record.courseSchedule, isOverload: true } },
+        { isAdjunct: false }
+      )).toBe(true)
+    })
+
+    it('skips disputed and cancelled classes', () => {
+      expect(isClaimableRecord({ ...record, supervisorVerified: false }, adjunct)).toBe(false)
+      expect(isClaimableRecord(
+        { ...record, supervisorVerified: null, classSession: { ...record.classSession!, status: 'cancelled' } },
+        adjunct
+      )).toBe(false)
+    })
+
+    it('allows records from a rejected claim to be claimed again', () => {
+      expect(isClaimableRecord({ ...record, claimLine: { claimId: 'claim-1', claim: { status: 'submitted' } } }, adjunct)).toBe(false)
+      expect(isClaimableRecord({ ...record, claimLine: { claimId: 'claim-1', claim: { status: 'rejected' } } }, adjunct)).toBe(true)
+    })
+  })
+
+  describe('buildClaimLines', () => {
+    it('prices each class and totals the claim', () => {
+      const makeUp: ClaimableRecord = {
+        ...record,
+        id: 'record-2',
+        classSession: { status: 'held', isMakeUp: true, startTime: '17:00', endTime: '18:00' }
+      }
+
+      expect(buildClaimLines([record, makeUp], adjunct, rates)).toEqual({
+        lines: [
+          expect.objectContaining({ attendanceRecordId: 'record-1', hours: 2.5, hourlyRate: 160, amount: 400 }),
+          expect.objectContaining({ attendanceRecordId: 'record-2', hours: 1, hourlyRate: 160, amount: 160 })
+        ],
+        totalHours: 3.5,
+        totalAmount: 560,
+        currency: 'GHS'
+      })
+    })
+
+    it('fails when a class has no pay rate', () => {
+      expect(buildClaimLines([record], { rank: 'Lecturer', isAdjunct: true }, rates.slice(1))).toEqual({
+        error: 'No pay rate is set for Lecturer lecturers teaching MBA courses',
+        status: 400
+      })
+    })
+
+    it('refuses to mix currencies in one claim', () => {
+      const phd: ClaimableRecord = {
+        ...record,
+        id: 'record-3',
+        courseSchedule: { ...record.courseSchedule, course: { ...record.courseSchedule.course, programme: { level: 'PhD' } } }
+      }
+      const mixed = [...rates.slice(1, 2).map(rate => ({ ...rate, currency: 'USD' })), rates[0]]
+
+      expect(buildClaimLines([record, phd], { rank: 'Lecturer', isAdjunct: true }, mixed)).toEqual({
+        error: 'The pay rates for this claim use more than one currency',
+        status: 400
+      })
+    })
+  })
+
+  it('builds payroll rows from approved claims', () => {
+    expect(toPayrollRows([{
+      id: 'claim-1',
+      totalHours: 3.5,
+      totalAmount: 560,
+      currency: 'GHS',
+      financeReviewedAt: new Date('2026-11-03T10:00:00.000Z'),
+      claimPeriod: { name: 'October 2026' },
+      lecturer: {
+        employeeId: 'EMP-042',
+        rank: 'Senior Lecturer',
+        department: null,
+        user: { firstName: 'Akosua', lastName: 'Darko' }
+      }
+    }])).toEqual([{
+      'Employee ID': 'EMP-042',
+      'Lecturer': 'Akosua Darko',
+      'Department': '',
+      'Rank': 'Senior Lecturer',
+      'Claim Period': 'October 2026',
+      'Hours': 3.5,
+      'Amount': 560,
+      'Currency': 'GHS',
+      'Approved On': '2026-11-03',
+      'Claim Reference': 'claim-1'
+    }])
+  })
+})
@@ -0,0 +1,99 @@
+import {
+  planClassSessions,
+  canTransitionClassSession,
+  sessionStatusFromSupervisorLog,
+  toSessionDate,
+  ScheduleOccurrence
+} from '../class-sessions'
+import { AcademicCalendar } from '../academic-calendar'
+
+jest.mock('@/lib/db', () => ({
+  prisma: {}
+}))
+
+const mondayLecture: ScheduleOccurrence = {
+  id: 'schedule-mon',
+  dayOfWeek: 1,
+  startTime: '09:00',
+  endTime: '12:00'
+}
+
+const wednesdaySeminar: ScheduleOccurrence = {
+  id: 'schedule-wed',
+  dayOfWeek: 3,
+  startTime: '14:00',
+  endTime: '16:00'
+}
+
+describe('Class sessions', () => {
+  describe('toSessionDate', () => {
+    it('normalises any time of day to UTC midnight', () => {
+      expect(toSessionDate(new Date('2026-10-19T23:45:00.000Z')).toISOString()).toBe('2026-10-19T00:00:00.000Z')
+    })
+  })
+
+  describe('planClassSessions', () => {
+    const openCalendar: AcademicCalendar = { semesters: [], events: [], configured: false }
+
+    it('creates one occurrence per matching weekday in the range', () => {
+      const planned = planClassSessions(
+        [mondayLecture, wednesdaySeminar],
+        new Date('2026-10-19T00:00:00.000Z'),
+        new Date('2026-10-30T00:00:00.000Z'),
+        openCalendar
+      )
+
+      expect(planned.map(p => `${p.courseScheduleId}@${p.date.toISOString().split('T')[0]}`)).toEqual([
+        'schedule-mon@2026-10-19',
+        'schedule-wed@2026-10-21',
+        'schedule-mon@2026-10-26',
+        'schedule-wed@2026-10-28'
+      ])
+      expect(planned[0]).toMatchObject({ startTime: '09:00', endTime: '12:00' })
+    })
+
+    it('skips non-teaching days from the academic calendar', () => {
+      const calendar: AcademicCalendar = {
+        configured: false,
+        semesters: [],
+        events: [{
+          id: 'holiday-1',
+          type: 'holiday',
+          name: 'Farmers Day',
+          startDate: new Date('2026-10-21T00:00:00.000Z'),
+          endDate: new Date('2026-10-21T00:00:00.000Z')
+        }]
+      }
+
+      const planned = planClassSessions(
+        [mondayLecture, wednesdaySeminar],
+        new Date('2026-10-19T00:00:00.000Z'),
+        new Date('2026-10-23T00:00:00.000Z'),
+        calendar
+      )
+
+      expect(planned.map(p => p.courseScheduleId)).toEqual(['schedule-mon'])
+    })
+  })
+
+  describe('status lifecycle', () => {
+    it('allows a scheduled session to be held, missed, cancelled or rescheduled', () => {
+      expect(canTransitionClassSession('scheduled', 'held')).toBe(true)
+      expect(canTransitionClassSession('scheduled', 'missed')).toBe(true)
+      expect(canTransitionClassSession('scheduled', 'cancelled')).toBe(true)
+      expect(canTransitionClassSession('scheduled', 'rescheduled')).toBe(true)
+    })
+
+    it('keeps rescheduled sessions closed', () => {
+      expect(canTransitionClassSession('rescheduled', 'held')).toBe(false)
+      expect(canTransitionClassSession('rescheduled', 'scheduled')).toBe(false)
+    })
+
+    it('maps supervisor observations onto session statuses', () => {
+      expect(sessionStatusFromSupervisorLog('ongoing')).toBe('held')
+      expect(sessionStatusFromSupervisorLog('cancelled')).toBe('cancelled')
+      expect(sessionStatusFromSupervisorLog('lecturer_absent')).toBe('missed')
+      expect(sessionStatusFromSupervisorLog('not_started')).toBeNull()
+    })
+  })
+})
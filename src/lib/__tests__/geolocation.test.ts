@@ -5,6 +5,9 @@ import {
   getUPSACoordinates,
   getUPSARadius,
   isValidCoordinates,
+  isPointInPolygon,
+  parseGeofencePolygon,
+  resolveAttendanceGeofences,
   Coordinates
 } from '../geolocation'
 
@@ -277,4 +280,107 @@ describe('Geolocation Functions', () => {
       })
     })
   })
+
+  describe('Building and classroom geofences', () => {
+    const annex = {
+      id: 'building-annex',
+      name: 'City Annex',
+      gpsLatitude: 5.5600,
+      gpsLongitude: -0.2050,
+      geofenceRadius: 150,
+      geofencePolygon: null
+    }
+    const annexRoom = {
+      id: 'room-annex-1',
+      name: 'Annex Room 1',
+      gpsLatitude: null,
+      gpsLongitude: null,
+      building: annex
+    }
+
+    it('should fall back to the campus fence when no classroom is scheduled', () => {
+      const fences = resolveAttendanceGeofences(null)
+      expect(fences).toHaveLength(1)
+      expect(fences[0].type).toBe('campus')
+    })
+
+    it('should not accept campus coordinates for an off-site annex class', () => {
+      const result = verifyLocationForAttendance(upsaCoordinates, resolveAttendanceGeofences(annexRoom))
+      expect(result.verified).toBe(false)
+      expect(result.radius).toBe(150)
+      expect(result.geofence).toBeNull()
+    })
+
+    it('should accept a check-in at the annex and report the matched building', () => {
+      const atAnnex: Coordinates = { latitude: annex.gpsLatitude + 0.0005, longitude: annex.gpsLongitude }
+      const result = verifyLocationForAttendance(atAnnex, resolveAttendanceGeofences(annexRoom))
+      expect(result.verified).toBe(true)
+      expect(result.geofence?.type).toBe('building')
+      expect(result.geofence?.id).toBe('building-annex')
+      expect(result.distance).toBeLessThan(150)
+    })
+
+    it('should prefer the classroom fence when the classroom has coordinates', () => {
+      const room = { ...annexRoom, gpsLatitude: 5.5610, gpsLongitude: -0.2050 }
+      const fences = resolveAttendanceGeofences(room)
+      expect(fences.map(f => f.type)).toEqual(['classroom', 'building'])
+
+      const result = verifyLocationForAttendance({ latitude: 5.5610, longitude: -0.2050 }, fences)
+      expect(result.geofence?.type).toBe('classroom')
+      expect(result.distance).toBe(0)
+    })
+
+    it('should use the building polygon instead of the radius when configured', () => {
+      const polygon = [
+        { latitude: 5.5595, longitude: -0.2055 },
+        { latitude: 5.5595, longitude: -0.2045 },
+        { latitude: 5.5605, longitude: -0.2045 },
+        { latitude: 5.5605, longitude: -0.2055 }
+      ]
+      const room = { ...annexRoom, building: { ...annex, geofenceRadius: 1000, geofencePolygon: JSON.stringify(polygon) } }
+      const fences = resolveAttendanceGeofences(room)
+
+      expect(verifyLocationForAttendance({ latitude: 5.5600, longitude: -0.2050 }, fences).verified).toBe(true)
+      // Inside the 1km radius but outside the drawn boundary
+      expect(verifyLocationForAttendance({ latitude: 5.5620, longitude: -0.2050 }, fences).verified).toBe(false)
+    })
+
+    it('should not let the classroom radius accept points outside the building polygon', () => {
+      const polygon = [
+        { latitude: 5.5595, longitude: -0.2055 },
+        { latitude: 5.5595, longitude: -0.2045 },
+        { latitude: 5.5605, longitude: -0.2045 },
+        { latitude: 5.5605, longitude: -0.2055 }
+      ]
+      const room = {
+        ...annexRoom,
+        gpsLatitude: 5.5600,
+        gpsLongitude: -0.2050,
+        building: { ...annex, geofenceRadius: 1000, geofencePolygon: JSON.stringify(polygon) }
+      }
+      const fences = resolveAttendanceGeofences(room)
+
+      expect(fences.map(f => f.type)).toEqual(['building'])
+      expect(verifyLocationForAttendance({ latitude: 5.5602, longitude: -0.2050 }, fences).verified).toBe(true)
+      // Outside the polygon, inside the classroom's 1km radius
+      expect(verifyLocationForAttendance({ latitude: 5.5620, longitude: -0.2050 }, fences).verified).toBe(false)
+    })
+
+    it('should detect points inside and outside a polygon', () => {
+      const square = [
+        { latitude: 0, longitude: 0 },
+        { latitude: 0, longitude: 1 },
+        { latitude: 1, longitude: 1 },
+        { latitude: 1, longitude: 0 }
+      ]
+      expect(isPointInPolygon({ latitude: 0.5, longitude: 0.5 }, square)).toBe(true)
+      expect(isPointInPolygon({ latitude: 1.5, longitude: 0.5 }, square)).toBe(false)
+    })
+
+    it('should ignore malformed polygon JSON', () => {
+      expect(parseGeofencePolygon('not-json')).toBeNull()
+      expect(parseGeofencePolygon(JSON.stringify([{ latitude: 1, longitude: 1 }]))).toBeNull()
+      expect(parseGeofencePolygon(null)).toBeNull()
+    })
+  })
 })
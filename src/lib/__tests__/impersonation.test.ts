@@ -0,0 +1,65 @@
+import { UserRole } from '@prisma/client'
+import { canImpersonate, isTokenForSession, redeemImpersonationToken } from '../impersonation'
+import { auditActor } from '../audit'
+
+const deleteManyUsedTokens = jest.fn()
+const createManyUsedTokens = jest.fn()
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    usedImpersonationToken: {
+      deleteMany: (...args: any[]) => deleteManyUsedTokens(...args),
+      createMany: (...args: any[]) => createManyUsedTokens(...args)
+    }
+  }
+}))
+
+describe('Impersonation', () => {
+  it('lets admins view as anyone but another admin, and coordinators only below them', () => {
+    expect(canImpersonate(UserRole.ADMIN, UserRole.COORDINATOR)).toBe(true)
+    expect(canImpersonate(UserRole.ADMIN, UserRole.LECTURER)).toBe(true)
+    expect(canImpersonate(UserRole.ADMIN, UserRole.ADMIN)).toBe(false)
+
+    expect(canImpersonate(UserRole.COORDINATOR, UserRole.CLASS_REP)).toBe(true)
+    expect(canImpersonate(UserRole.COORDINATOR, UserRole.COORDINATOR)).toBe(false)
+    expect(canImpersonate(UserRole.COORDINATOR, UserRole.ADMIN)).toBe(false)
+
+    expect(canImpersonate(UserRole.LECTURER, UserRole.CLASS_REP)).toBe(false)
+  })
+
+  it('tags audit entries with the admin viewing as the user', () => {
+    expect(auditActor({ id: 'lecturer-user', impersonatorId: 'admin-user' })).toEqual({
+      userId: 'lecturer-user',
+      impersonatorId: 'admin-user'
+    })
+    expect(auditActor({ id: 'lecturer-user' })).toEqual({ userId: 'lecturer-user', impersonatorId: null })
+  })
+
+  it('only accepts view-as tokens from the session they were issued to', () => {
+    const start = { type: 'impersonation' as const, targetUserId: 'lecturer-user', initiatorId: 'admin-user' }
+    expect(isTokenForSession(start, { id: 'admin-user' })).toBe(true)
+    expect(isTokenForSession(start, { id: 'other-admin' })).toBe(false)
+    expect(isTokenForSession(start, null)).toBe(false)
+
+    const end = { type: 'impersonation_end' as const, targetUserId: 'admin-user', impersonatedUserId: 'lecturer-user' }
+    expect(isTokenForSession(end, { id: 'lecturer-user', impersonatorId: 'admin-user' })).toBe(true)
+    // Once back in their own account, or in a browser that is not viewing as the user
+    expect(isTokenForSession(end, { id: 'admin-user' })).toBe(false)
+    expect(isTokenForSession(end, { id: 'lecturer-user' })).toBe(false)
+  })
+
+  it('redeems each view-as token once', async () => {
+    const payload = { type: 'impersonation_end' as const, targetUserId: 'admin-user', jti: 'token-1', exp: 1792400000 }
+
+    createManyUsedTokens.mockResolvedValueOnce({ count: 1 })
+    expect(await redeemImpersonationToken(payload)).toBe(true)
+    expect(createManyUsedTokens).toHaveBeenCalledWith({
+      data: [{ id: 'token-1', expiresAt: new Date(1792400000 * 1000) }],
+      skipDuplicates: true
+    })
+
+    createManyUsedTokens.mockResolvedValueOnce({ count: 0 })
+    expect(await redeemImpersonationToken(payload)).toBe(false)
+    expect(await redeemImpersonationToken({ ...payload, jti: undefined })).toBe(false)
+  })
+})
@@ -0,0 +1,130 @@
+import {
+  ACCOUNT_LOCK_THRESHOLD,
+  checkLoginAllowed,
+  clientIpAddress,
+  describeDevice,
+  recordLoginAttempt,
+  summarizeAttempts,
+  throttleDelaySeconds
+} from '../login-security'
+import { emailService } from '@/lib/email'
+import { notifyNewDeviceSignIn } from '@/lib/notifications'
+
+const findManyAttempts = jest.fn()
+const createAttempt = jest.fn()
+const updateUser = jest.fn()
+const findUniqueUser = jest.fn()
+const createAuditLog = jest.fn()
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    loginAttempt: {
+      findMany: (...args: any[]) => findManyAttempts(...args),
+      create: (...args: any[]) => createAttempt(...args)
+    },
+    user: {
+      update: (...args: any[]) => updateUser(...args),
+      findUnique: (...args: any[]) => findUniqueUser(...args)
+    },
+    auditLog: {
+      create: (...args: any[]) => createAuditLog(...args)
+    }
+  }
+}))
+jest.mock('@/lib/email', () => ({
+  ...jest.requireActual('@/lib/email'),
+  emailService: { sendEmail: jest.fn(() => Promise.resolve({ success: true })) }
+}))
+jest.mock('@/lib/notifications', () => ({
+  notifyNewDeviceSignIn: jest.fn(() => Promise.resolve())
+}))
+
+const now = new Date('2026-10-20T10:00:00Z')
+const secondsAgo = (seconds: number) => new Date(now.getTime() - seconds * 1000)
+const failures = (count: number, latestSecondsAgo: number) =>
+  Array.from({ length: count }, (_, index) => ({ outcome: 'invalid_password', createdAt: secondsAgo(latestSecondsAgo + index) }))
+
+const CHROME_WINDOWS = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0 Safari/537.36'
+const SAFARI_IPHONE = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1'
+
+describe('Login security', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    findManyAttempts.mockResolvedValue([])
+  })
+
+  it('doubles the delay after the free attempts, up to a cap', () => {
+    expect([0, 2, 3, 4, 5, 6].map(count => throttleDelaySeconds(count, 3))).toEqual([0, 0, 1, 2, 4, 8])
+    expect(throttleDelaySeconds(40, 3)).toBe(60)
+  })
+
+  it('trusts only the address appended by the proxy', () => {
+    expect(clientIpAddress(new Headers({ 'x-forwarded-for': '10.9.9.9, 41.66.200.7' }))).toBe('41.66.200.7')
+    expect(clientIpAddress(new Headers({ 'x-forwarded-for': '41.66.200.7' }))).toBe('41.66.200.7')
+    expect(clientIpAddress(new Headers({ 'x-real-ip': '41.66.200.7' }))).toBe('41.66.200.7')
+    expect(clientIpAddress(new Headers())).toBeNull()
+  })
+
+  it('counts failures back to the last success or unlock', () => {
+    const attempts = [
+      { outcome: 'invalid_password', createdAt: secondsAgo(5) },
+      { outcome: 'throttled', createdAt: secondsAgo(8) },
+      { outcome: 'unknown_user', createdAt: secondsAgo(10) },
+      { outcome: 'unlocked', createdAt: secondsAgo(20) },
+      { outcome: 'invalid_password', createdAt: secondsAgo(30) }
+    ]
+
+    expect(summarizeAttempts(attempts)).toEqual({ failures: 2, lastFailureAt: secondsAgo(5) })
+    expect(summarizeAttempts(attempts, false).failures).toBe(3)
+  })
+
+  it('refuses locked accounts and throttles repeated failures by account and address', async () => {
+    expect(await checkLoginAllowed('a@upsa.edu.gh', null, new Date(now.getTime() + 90_000), now))
+      .toEqual({ allowed: false, reason: 'locked', retryAfterSeconds: 90 })
+
+    // Six failures means an eight-second wait after the latest
+    findManyAttempts.mockResolvedValueOnce(failures(6, 3))
+    expect(await checkLoginAllowed('a@upsa.edu.gh', null, null, now))
+      .toEqual({ allowed: false, reason: 'throttled', retryAfterSeconds: 5 })
+
+    findManyAttempts.mockResolvedValueOnce(failures(6, 10))
+    expect(await checkLoginAllowed('a@upsa.edu.gh', null, null, now)).toEqual({ allowed: true })
+
+    // Successes on other accounts do not clear the count for an address
+    findManyAttempts
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([{ outcome: 'success', createdAt: secondsAgo(1) }, ...failures(12, 2)])
+    expect(await checkLoginAllowed('b@upsa.edu.gh', '41.66.1.1', null, now))
+      .toMatchObject({ allowed: false, reason: 'throttled' })
+  })
+
+  it('locks the account once the failures reach the threshold', async () => {
+    findManyAttempts.mockResolvedValue(failures(ACCOUNT_LOCK_THRESHOLD, 1))
+
+    await recordLoginAttempt({ email: 'a@upsa.edu.gh', userId: 'user-1', ipAddress: '41.66.1.1' }, 'invalid_password')
+
+    expect(createAttempt).toHaveBeenCalledWith({
+      data: { userId: 'user-1', email: 'a@upsa.edu.gh', ipAddress: '41.66.1.1', userAgent: null, outcome: 'invalid_password' }
+    })
+    expect(updateUser).toHaveBeenCalledWith({ where: { id: 'user-1' }, data: { lockedUntil: expect.any(Date) } })
+    expect(createAuditLog).toHaveBeenCalledWith({
+      data: expect.objectContaining({ action: 'ACCOUNT_LOCKED', targetId: 'user-1' })
+    })
+  })
+
+  it('alerts the user when a new device signs in, but not on the first sign-in', async () => {
+    findUniqueUser.mockResolvedValue({ email: 'a@upsa.edu.gh', firstName: 'Kofi', lastName: 'Mensah' })
+
+    findManyAttempts.mockResolvedValueOnce([{ userAgent: CHROME_WINDOWS }])
+    await recordLoginAttempt({ email: 'a@upsa.edu.gh', userId: 'user-1', userAgent: CHROME_WINDOWS }, 'success')
+    expect(notifyNewDeviceSignIn).not.toHaveBeenCalled()
+
+    findManyAttempts.mockResolvedValueOnce([{ userAgent: SAFARI_IPHONE }, { userAgent: CHROME_WINDOWS }])
+    await recordLoginAttempt({ email: 'a@upsa.edu.gh', userId: 'user-1', userAgent: SAFARI_IPHONE, ipAddress: '41.66.1.1' }, 'success')
+
+    expect(updateUser).toHaveBeenCalledWith({ where: { id: 'user-1' }, data: { lastLoginAt: expect.any(Date) } })
+    expect(notifyNewDeviceSignIn).toHaveBeenCalledWith({ userId: 'user-1', device: 'Safari on iOS', ipAddress: '41.66.1.1' })
+    expect(emailService.sendEmail).toHaveBeenCalledWith(expect.objectContaining({ to: 'a@upsa.edu.gh' }))
+    expect(describeDevice(CHROME_WINDOWS)).toBe('Chrome on Windows')
+  })
+})
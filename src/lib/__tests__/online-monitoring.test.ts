@@ -0,0 +1,78 @@
+import {
+  getLiveState,
+  isOnConsole,
+  parseTechnicalIssues,
+  platformLabel,
+  serializeTechnicalIssues,
+  sortLiveClasses,
+  spotCheckSchema
+} from '../online-monitoring'
+
+jest.mock('@/lib/db', () => ({
+  prisma: {}
+}))
+
+const occurrence = { sessionDate: new Date('2026-10-19T00:00:00.000Z'), startTime: '10:00', endTime: '12:00' }
+const at = (time: string) => new Date(`2026-10-19T${time}:00.000Z`)
+
+describe('Online monitoring', () => {
+  describe('getLiveState', () => {
+    it('follows the lecturer opening and closing the virtual session', () => {
+      expect(getLiveState(occurrence, { sessionStartTime: at('10:02'), sessionEndTime: null }, at('10:30'))).toBe('live')
+      expect(getLiveState(occurrence, { sessionStartTime: at('10:02'), sessionEndTime: at('11:50') }, at('11:55'))).toBe('ended')
+    })
+
+    it('flags classes past their start that nobody opened', () => {
+      expect(getLiveState(occurrence, null, at('09:50'))).toBe('upcoming')
+      expect(getLiveState(occurrence, null, at('10:10'))).toBe('awaiting_start')
+      expect(getLiveState(occurrence, null, at('12:00'))).toBe('no_show')
+    })
+  })
+
+  it('shows classes from shortly before they start until they end, or while still live', () => {
+    expect(isOnConsole(occurrence, 'upcoming', at('09:40'))).toBe(false)
+    expect(isOnConsole(occurrence, 'upcoming', at('09:45'))).toBe(true)
+    expect(isOnConsole(occurrence, 'ended', at('12:00'))).toBe(false)
+    expect(isOnConsole(occurrence, 'live', at('12:20'))).toBe(true)
+  })
+
+  it('puts classes that have not started ahead of running ones', () => {
+    const sorted = sortLiveClasses([
+      { state: 'upcoming' as const, startTime: '10:00' },
+      { state: 'live' as const, startTime: '09:00' },
+      { state: 'awaiting_start' as const, startTime: '09:30' },
+      { state: 'live' as const, startTime: '08:00' }
+    ])
+
+    expect(sorted.map(item => `${item.state}@${item.startTime}`)).toEqual([
+      'awaiting_start@09:30',
+      'live@08:00',
+      'live@09:00',
+      'upcoming@10:00'
+    ])
+  })
+
+  describe('technical issues', () => {
+    it('round-trips categorised issues', () => {
+      const stored = serializeTechnicalIssues(['audio', 'connectivity'], '  Echo on the lecturer mic ')
+
+      expect(parseTechnicalIssues(stored)).toEqual({ categories: ['audio', 'connectivity'], notes: 'Echo on the lecturer mic' })
+      expect(serializeTechnicalIssues([], '  ')).toBeNull()
+    })
+
+    it('keeps free-text issues from older logs as notes', () => {
+      expect(parseTechnicalIssues('Screen share froze twice')).toEqual({ categories: [], notes: 'Screen share froze twice' })
+      expect(parseTechnicalIssues(null)).toEqual({ categories: [], notes: null })
+    })
+  })
+
+  it('names the meeting platform from the link', () => {
+    expect(platformLabel('https://us02web.zoom.us/j/123456789')).toBe('Zoom')
+    expect(platformLabel('https://example.com/room')).toBeNull()
+  })
+
+  it('rejects unknown issue categories in a spot check', () => {
+    expect(spotCheckSchema.safeParse({ scheduleId: 's1', status: 'ongoing' }).data?.issueCategories).toEqual([])
+    expect(spotCheckSchema.safeParse({ scheduleId: 's1', status: 'ongoing', issueCategories: ['smells'] }).success).toBe(false)
+  })
+})
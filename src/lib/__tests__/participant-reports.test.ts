@@ -0,0 +1,117 @@
+import {
+  extractMeetingId,
+  parseParticipantRows,
+  parseReportTime,
+  summarizeParticipantReport,
+  ParticipantReport
+} from '../participant-reports'
+
+jest.mock('@/lib/db', () => ({
+  prisma: {}
+}))
+
+describe('Participant report ingestion', () => {
+  describe('parseReportTime', () => {
+    it('reads US-style export timestamps as campus (UTC) time', () => {
+      expect(parseReportTime('10/19/2026 09:02:11 AM')?.toISOString()).toBe('2026-10-19T09:02:11.000Z')
+      expect(parseReportTime('10/19/26, 1:05:00 PM')?.toISOString()).toBe('2026-10-19T13:05:00.000Z')
+      expect(parseReportTime('2026-10-19 14:30:00')?.toISOString()).toBe('2026-10-19T14:30:00.000Z')
+    })
+
+    it('places time-only values on the reference date', () => {
+      const reference = new Date('2026-10-19T00:00:00.000Z')
+      expect(parseReportTime('9:15 AM', reference)?.toISOString()).toBe('2026-10-19T09:15:00.000Z')
+      expect(parseReportTime('9:15 AM')).toBeNull()
+    })
+  })
+
+  describe('extractMeetingId', () => {
+    it('reads meeting IDs from Zoom and Meet links', () => {
+      expect(extractMeetingId('zoom', 'https://us02web.zoom.us/j/81234567890?pwd=abc')).toBe('81234567890')
+      expect(extractMeetingId('meet', 'https://meet.google.com/ABC-defg-hij')).toBe('abc-defg-hij')
+      expect(extractMeetingId('zoom', 'https://example.com/room')).toBeNull()
+    })
+  })
+
+  describe('parseParticipantRows', () => {
+    it('parses a Zoom meeting report with its meeting header', () => {
+      const result = parseParticipantRows('zoom', [
+        ['Meeting ID', 'Topic', 'Start Time', 'End Time', 'User Email', 'Duration (Minutes)', 'Participants'],
+        ['812 3456 7890', 'ACCT 201', '10/19/2026 08:55:00 AM', '10/19/2026 11:02:00 AM', 'lecturer@upsa.edu.gh', '127', '3'],
+        [],
+        ['Name (Original Name)', 'User Email', 'Join Time', 'Leave Time', 'Duration (Minutes)', 'Guest'],
+        ['Dr Mensah', 'lecturer@upsa.edu.gh', '10/19/2026 08:55:00 AM', '10/19/2026 11:02:00 AM', '127', 'No'],
+        ['Ama Owusu', 'ama@student.upsa.edu.gh', '10/19/2026 09:00:00 AM', '10/19/2026 11:00:00 AM', '120', 'No']
+      ])
+
+      expect('report' in result).toBe(true)
+      if (!('report' in result)) return
+      expect(result.report.meetingId).toBe('81234567890')
+      expect(result.report.hostEmail).toBe('lecturer@upsa.edu.gh')
+      expect(result.report.meetingStart?.toISOString()).toBe('2026-10-19T08:55:00.000Z')
+      expect(result.report.participants).toHaveLength(2)
+    })
+
+    it('pairs joins and leaves from a Teams event log', () => {
+      const result = parseParticipantRows('teams', [
+        ['Full Name', 'User Action', 'Timestamp'],
+        ['Kofi Boateng', 'Joined', '10/19/2026, 9:00:00 AM'],
+        ['Kofi Boateng', 'Left', '10/19/2026, 10:00:00 AM']
+      ], { meetingId: 'Teams-Meeting' })
+
+      expect(result).toEqual({
+        report: expect.objectContaining({
+          meetingId: 'teams-meeting',
+          participants: [expect.objectContaining({
+            name: 'Kofi Boateng',
+            joinTime: new Date('2026-10-19T09:00:00.000Z'),
+            leaveTime: new Date('2026-10-19T10:00:00.000Z')
+          })]
+        })
+      })
+    })
+
+    it('rejects files without a participant list', () => {
+      expect(parseParticipantRows('meet', [['Course', 'Room'], ['ACCT 201', 'Block A']])).toEqual({
+        error: 'No participant list found. Export the participant or attendance report from the meeting platform'
+      })
+    })
+  })
+
+  describe('summarizeParticipantReport', () => {
+    const window = {
+      start: new Date('2026-10-19T09:00:00.000Z'),
+      end: new Date('2026-10-19T11:00:00.000Z')
+    }
+
+    const report: ParticipantReport = {
+      platform: 'zoom',
+      meetingId: '81234567890',
+      meetingStart: null,
+      meetingEnd: null,
+      hostEmail: null,
+      participants: [
+        { name: 'Dr Mensah', email: 'lecturer@upsa.edu.gh', role: null, joinTime: new Date('2026-10-19T08:55:00.000Z'), leaveTime: new Date('2026-10-19T11:02:00.000Z') },
+        { name: 'Ama Owusu', email: 'ama@student.upsa.edu.gh', role: null, joinTime: new Date('2026-10-19T09:00:00.000Z'), leaveTime: new Date('2026-10-19T11:00:00.000Z') },
+        // Rejoined after a dropped connection; the overlap must not be counted twice
+        { name: 'Yaw Asante', email: null, role: null, joinTime: new Date('2026-10-19T09:00:00.000Z'), leaveTime: new Date('2026-10-19T09:40:00.000Z') },
+        { name: 'Yaw Asante', email: null, role: null, joinTime: new Date('2026-10-19T09:30:00.000Z'), leaveTime: new Date('2026-10-19T10:00:00.000Z') }
+      ]
+    }
+
+    it('separates the host from attendees and scores engagement over the class window', () => {
+      expect(summarizeParticipantReport(report, window, ['lecturer@upsa.edu.gh'])).toEqual({
+        participantCount: 2,
+        hostJoinTime: new Date('2026-10-19T08:55:00.000Z'),
+        hostLeaveTime: new Date('2026-10-19T11:02:00.000Z'),
+        engagementScore: 75
+      })
+    })
+
+    it('has no host times when the host cannot be identified', () => {
+      const summary = summarizeParticipantReport(report, window)
+      expect(summary.hostJoinTime).toBeNull()
+      expect(summary.participantCount).toBe(3)
+    })
+  })
+})
@@ -0,0 +1,154 @@
+import jwt from 'jsonwebtoken'
+import {
+  createResetToken,
+  linkBaseUrl,
+  passwordFingerprint,
+  requestPasswordReset,
+  resetPassword,
+  RESET_REQUESTS_PER_EMAIL,
+  verifyResetToken
+} from '../password-reset'
+import { emailService } from '@/lib/email'
+import { smsService } from '@/lib/sms'
+
+const findUniqueUser = jest.fn()
+const updateUser = jest.fn()
+const createAuditLog = jest.fn()
+const countAttempts = jest.fn()
+const createAttempt = jest.fn()
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    user: {
+      findUnique: (...args: any[]) => findUniqueUser(...args),
+      update: (...args: any[]) => updateUser(...args)
+    },
+    auditLog: {
+      create: (...args: any[]) => createAuditLog(...args)
+    },
+    loginAttempt: {
+      count: (...args: any[]) => countAttempts(...args),
+      create: (...args: any[]) => createAttempt(...args)
+    }
+  }
+}))
+jest.mock('@/lib/auth', () => ({
+  hashPassword: jest.fn((password: string) => Promise.resolve(`hashed:${password}`))
+}))
+jest.mock('@/lib/email', () => ({
+  ...jest.requireActual('@/lib/email'),
+  emailService: { sendEmail: jest.fn(() => Promise.resolve({ success: true })) }
+}))
+jest.mock('@/lib/sms', () => ({
+  ...jest.requireActual('@/lib/sms'),
+  smsService: { sendSMS: jest.fn(() => Promise.resolve({ success: true })) }
+}))
+
+const user = {
+  id: 'user-1',
+  email: 'ama.owusu@upsa.edu.gh',
+  firstName: 'Ama',
+  lastName: 'Owusu',
+  phoneNumber: '0241234567',
+  isActive: true,
+  mustChangePassword: true,
+  passwordHash: '$2a$12$original'
+}
+
+describe('Password reset', () => {
+  const originalSecret = process.env.NEXTAUTH_SECRET
+
+  beforeAll(() => {
+    process.env.NEXTAUTH_SECRET = 'test-secret'
+  })
+
+  afterAll(() => {
+    process.env.NEXTAUTH_SECRET = originalSecret
+  })
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    findUniqueUser.mockResolvedValue(user)
+    countAttempts.mockResolvedValue(0)
+  })
+
+  it('signs tokens that expire and are tied to the current password', () => {
+    const token = createResetToken(user)
+    const payload = verifyResetToken(token)
+
+    expect(payload).toMatchObject({ sub: 'user-1', purpose: 'reset', fingerprint: passwordFingerprint(user.passwordHash) })
+    expect(payload!.exp! - payload!.iat!).toBe(60 * 60)
+    expect(verifyResetToken(token.slice(0, -2))).toBeNull()
+    expect(verifyResetToken(jwt.sign({ type: 'impersonation', sub: 'user-1' }, 'test-secret'))).toBeNull()
+    expect(verifyResetToken(jwt.sign({ type: 'password_reset', sub: 'user-1' }, 'test-secret', { expiresIn: -1 }))).toBeNull()
+  })
+
+  it('sets the new password, clears a forced change and audits the reset', async () => {
+    const result = await resetPassword(createResetToken(user), 'new-password', '10.0.0.1')
+
+    expect(result).toEqual({ email: user.email })
+    expect(updateUser).toHaveBeenCalledWith({
+      where: { id: 'user-1' },
+      data: { passwordHash: 'hashed:new-password', mustChangePassword: false }
+    })
+    expect(createAuditLog).toHaveBeenCalledWith({
+      data: expect.objectContaining({ userId: 'user-1', action: 'PASSWORD_RESET', ipAddress: '10.0.0.1' })
+    })
+  })
+
+  it('refuses a link once the password has changed', async () => {
+    const token = createResetToken(user)
+    findUniqueUser.mockResolvedValue({ ...user, passwordHash: '$2a$12$changed' })
+
+    expect(await resetPassword(token, 'new-password')).toEqual({
+      error: 'This reset link is invalid or has already been used',
+      status: 400
+    })
+    expect(updateUser).not.toHaveBeenCalled()
+  })
+
+  it('sends the link by SMS when asked, by email otherwise, and says nothing about unknown accounts', async () => {
+    await requestPasswordReset(user.email, 'sms', 'https://attendance.example.com')
+    expect(smsService.sendSMS).toHaveBeenCalledWith(expect.objectContaining({
+      to: '0241234567',
+      message: expect.stringContaining('https://attendance.example.com/auth/reset-password?token=')
+    }))
+
+    findUniqueUser.mockResolvedValue({ ...user, phoneNumber: null })
+    await requestPasswordReset(user.email, 'sms', 'https://attendance.example.com')
+    expect(emailService.sendEmail).toHaveBeenCalledWith(expect.objectContaining({ to: user.email }))
+    expect(createAuditLog).toHaveBeenLastCalledWith({
+      data: expect.objectContaining({ action: 'PASSWORD_RESET_REQUESTED', metadata: expect.stringContaining('"channel":"email"') })
+    })
+
+    findUniqueUser.mockResolvedValue(null)
+    await expect(requestPasswordReset('nobody@upsa.edu.gh', 'email', 'https://attendance.example.com')).resolves.toBeUndefined()
+    expect(createAuditLog).toHaveBeenCalledTimes(2)
+    expect(createAttempt).toHaveBeenLastCalledWith({
+      data: { userId: null, email: 'nobody@upsa.edu.gh', ipAddress: null, outcome: 'reset_requested' }
+    })
+  })
+
+  it('stops sending links once an email address or client address has asked too often', async () => {
+    countAttempts.mockImplementation(({ where }) => Promise.resolve(where.email ? RESET_REQUESTS_PER_EMAIL : 0))
+    await requestPasswordReset(user.email, 'email', 'https://attendance.example.com', '41.66.200.7')
+
+    expect(countAttempts).toHaveBeenCalledWith({ where: expect.objectContaining({ outcome: 'reset_requested', ipAddress: '41.66.200.7' }) })
+    expect(emailService.sendEmail).not.toHaveBeenCalled()
+    expect(createAttempt).not.toHaveBeenCalled()
+  })
+
+  it('builds links from NEXTAUTH_URL rather than the request host', () => {
+    const originalUrl = process.env.NEXTAUTH_URL
+
+    process.env.NEXTAUTH_URL = 'https://attendance.upsa.edu.gh/'
+    expect(linkBaseUrl('https://evil.example.com')).toBe('https://attendance.upsa.edu.gh')
+
+    delete process.env.NEXTAUTH_URL
+    expect(linkBaseUrl('http://localhost:3000')).toBe('http://localhost:3000')
+
+    if (originalUrl !== undefined) {
+      process.env.NEXTAUTH_URL = originalUrl
+    }
+  })
+})
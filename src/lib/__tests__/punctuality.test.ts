@@ -0,0 +1,66 @@
+import {
+  calculateEarlyLeaveMinutes,
+  calculateLateMinutes,
+  summarizePunctuality,
+  toScheduledTime
+} from '../punctuality'
+
+jest.mock('@/lib/db', () => ({
+  prisma: {}
+}))
+
+const sessionDate = new Date('2026-10-19T00:00:00.000Z')
+
+describe('Punctuality', () => {
+  it('places schedule times on the session day', () => {
+    expect(toScheduledTime(sessionDate, '08:30').toISOString()).toBe('2026-10-19T08:30:00.000Z')
+  })
+
+  describe('calculateLateMinutes', () => {
+    it('treats arrivals before the start or within the grace period as on time', () => {
+      expect(calculateLateMinutes(new Date('2026-10-19T08:20:00.000Z'), sessionDate, '08:30', 10)).toBe(0)
+      expect(calculateLateMinutes(new Date('2026-10-19T08:40:00.000Z'), sessionDate, '08:30', 10)).toBe(0)
+    })
+
+    it('reports the full delay once the grace period is exceeded', () => {
+      expect(calculateLateMinutes(new Date('2026-10-19T08:45:30.000Z'), sessionDate, '08:30', 10)).toBe(15)
+    })
+  })
+
+  describe('calculateEarlyLeaveMinutes', () => {
+    it('treats leaving after the end or within the grace period as a full session', () => {
+      expect(calculateEarlyLeaveMinutes(new Date('2026-10-19T10:35:00.000Z'), sessionDate, '10:30', 10)).toBe(0)
+      expect(calculateEarlyLeaveMinutes(new Date('2026-10-19T10:25:00.000Z'), sessionDate, '10:30', 10)).toBe(0)
+    })
+
+    it('reports how long before the end the lecturer left', () => {
+      expect(calculateEarlyLeaveMinutes(new Date('2026-10-19T10:00:00.000Z'), sessionDate, '10:30', 10)).toBe(30)
+    })
+  })
+
+  describe('summarizePunctuality', () => {
+    it('summarises lateness and early departures', () => {
+      const summary = summarizePunctuality([
+        { lateMinutes: 0, earlyLeaveMinutes: 0 },
+        { lateMinutes: 20, earlyLeaveMinutes: null },
+        { lateMinutes: 0, earlyLeaveMinutes: 15 },
+        { lateMinutes: 30, earlyLeaveMinutes: 0 },
+        { lateMinutes: null, earlyLeaveMinutes: null }
+      ])
+
+      expect(summary).toEqual({
+        checkIns: 4,
+        lateArrivals: 2,
+        averageLateMinutes: 25,
+        checkOuts: 3,
+        earlyDepartures: 1,
+        averageEarlyLeaveMinutes: 15,
+        punctualityRate: 25
+      })
+    })
+
+    it('returns zeros when nothing has been timed', () => {
+      expect(summarizePunctuality([]).punctualityRate).toBe(0)
+    })
+  })
+})
@@ -0,0 +1,105 @@
+import {
+  canReceiveEvent,
+  formatServerSentEvent,
+  publishRealtimeEvent,
+  subscribeToRealtimeEvents,
+  type RealtimeEvent
+} from '../realtime-events'
+
+const executeRaw = jest.fn()
+const listener = {
+  on: jest.fn(),
+  connect: jest.fn(() => Promise.resolve()),
+  query: jest.fn(() => Promise.resolve()),
+  end: jest.fn(() => Promise.resolve())
+}
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    $executeRaw: (...args: any[]) => executeRaw(...args)
+  }
+}))
+jest.mock('pg', () => ({
+  Client: jest.fn(() => listener)
+}))
+
+const scope = { userIds: ['lecturer-1'], classGroupId: 'group-1', coordinatorId: 'coord-1' }
+const attendanceEvent = { type: 'attendance.recorded' as const, scope }
+const subscriber = (userId: string, role: string, classGroupIds: string[] = []) => ({ userId, role, classGroupIds })
+
+describe('Realtime events', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    executeRaw.mockResolvedValue(1)
+  })
+
+  describe('canReceiveEvent', () => {
+    it('sends class events to the people and roles responsible for the class', () => {
+      expect(canReceiveEvent(subscriber('lecturer-1', 'LECTURER'), attendanceEvent)).toBe(true)
+      expect(canReceiveEvent(subscriber('admin-1', 'ADMIN'), attendanceEvent)).toBe(true)
+      expect(canReceiveEvent(subscriber('sup-1', 'SUPERVISOR'), attendanceEvent)).toBe(true)
+      expect(canReceiveEvent(subscriber('coord-1', 'COORDINATOR'), attendanceEvent)).toBe(true)
+      expect(canReceiveEvent(subscriber('rep-1', 'CLASS_REP', ['group-1']), attendanceEvent)).toBe(true)
+    })
+
+    it('keeps other programmes, groups and lecturers out', () => {
+      expect(canReceiveEvent(subscriber('coord-2', 'COORDINATOR'), attendanceEvent)).toBe(false)
+      expect(canReceiveEvent(subscriber('rep-2', 'CLASS_REP', ['group-2']), attendanceEvent)).toBe(false)
+      expect(canReceiveEvent(subscriber('lecturer-2', 'LECTURER'), attendanceEvent)).toBe(false)
+      expect(canReceiveEvent(subscriber('coord-2', 'COORDINATOR'), { ...attendanceEvent, scope: { userIds: [] } })).toBe(false)
+    })
+
+    it('only sends notifications to their recipients', () => {
+      const notification = { type: 'notification.created' as const, scope: { userIds: ['user-1'] } }
+
+      expect(canReceiveEvent(subscriber('user-1', 'LECTURER'), notification)).toBe(true)
+      expect(canReceiveEvent(subscriber('admin-1', 'ADMIN'), notification)).toBe(false)
+    })
+  })
+
+  it('delivers published events to matching subscribers until they unsubscribe', () => {
+    const received: RealtimeEvent[] = []
+    const unsubscribe = subscribeToRealtimeEvents(subscriber('coord-1', 'COORDINATOR'), event => received.push(event))
+
+    publishRealtimeEvent('attendance.verified', scope, { attendanceRecordId: 'rec-1' })
+    publishRealtimeEvent('attendance.verified', { ...scope, coordinatorId: 'coord-2' }, { attendanceRecordId: 'rec-2' })
+    unsubscribe()
+    publishRealtimeEvent('attendance.verified', scope, { attendanceRecordId: 'rec-3' })
+
+    expect(received.map(event => event.data.attendanceRecordId)).toEqual(['rec-1'])
+  })
+
+  it('passes events between server processes through Postgres', async () => {
+    const received: RealtimeEvent[] = []
+    const unsubscribe = subscribeToRealtimeEvents(subscriber('coord-1', 'COORDINATOR'), event => received.push(event))
+    await Promise.resolve()
+
+    expect(listener.query).toHaveBeenCalledWith('LISTEN realtime_events')
+    const onNotification = listener.on.mock.calls.find(([name]) => name === 'notification')![1]
+
+    // Sent by this process: already delivered locally, so the echo is ignored
+    const own = publishRealtimeEvent('attendance.verified', scope, { attendanceRecordId: 'rec-1' })
+    const [, channel, payload] = executeRaw.mock.calls[0]
+    expect(channel).toBe('realtime_events')
+    onNotification({ channel, payload })
+
+    // Sent by another process
+    onNotification({
+      channel,
+      payload: JSON.stringify({ origin: 'other-process', event: { ...own, id: 'remote', data: { attendanceRecordId: 'rec-2' } } })
+    })
+
+    expect(received.map(event => event.data.attendanceRecordId)).toEqual(['rec-1', 'rec-2'])
+
+    unsubscribe()
+    expect(listener.end).toHaveBeenCalled()
+  })
+
+  it('formats events for an event stream without exposing their scope', () => {
+    const event = publishRealtimeEvent('notification.created', { userIds: ['user-1'] }, { id: 'n1' })
+    const message = formatServerSentEvent(event)
+
+    expect(message).toBe(`id: ${event.id}\nevent: notification.created\ndata: {"id":"n1","createdAt":"${event.createdAt}"}\n\n`)
+    expect(message).not.toContain('user-1')
+  })
+})
@@ -0,0 +1,119 @@
+import { canRescheduleClassSession, checkMakeUpSlot, MakeUpSchedule } from '../reschedule'
+import { getAcademicDayStatus } from '../academic-calendar'
+import { findDatedSessionConflict } from '../schedule-conflicts'
+
+jest.mock('@/lib/db', () => ({
+  prisma: {}
+}))
+
+jest.mock('@/lib/academic-calendar', () => ({
+  ...jest.requireActual('@/lib/academic-calendar'),
+  getAcademicDayStatus: jest.fn()
+}))
+
+jest.mock('@/lib/schedule-conflicts', () => ({
+  findDatedSessionConflict: jest.fn()
+}))
+
+const mockGetAcademicDayStatus = getAcademicDayStatus as jest.MockedFunction<typeof getAcademicDayStatus>
+const mockFindDatedSessionConflict = findDatedSessionConflict as jest.MockedFunction<typeof findDatedSessionConflict>
+
+const schedule: MakeUpSchedule = {
+  id: 'schedule-1',
+  lecturerId: 'lecturer-1',
+  classGroupId: 'group-1',
+  classroomId: 'room-1'
+}
+
+const now = new Date('2026-10-19T08:00:00.000Z')
+
+describe('Make-up class rescheduling', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockGetAcademicDayStatus.mockResolvedValue({ date: '2026-10-21', teaching: true })
+    mockFindDatedSessionConflict.mockResolvedValue(null)
+  })
+
+  describe('canRescheduleClassSession', () => {
+    it('allows scheduled, missed and cancelled sessions', () => {
+      expect(canRescheduleClassSession('scheduled')).toBe(true)
+      expect(canRescheduleClassSession('missed')).toBe(true)
+      expect(canRescheduleClassSession('cancelled')).toBe(true)
+    })
+
+    it('refuses sessions that were held or already rescheduled', () => {
+      expect(canRescheduleClassSession('held')).toBe(false)
+      expect(canRescheduleClassSession('rescheduled')).toBe(false)
+    })
+  })
+
+  describe('checkMakeUpSlot', () => {
+    const slot = {
+      date: new Date('2026-10-21T00:00:00.000Z'),
+      startTime: '14:00',
+      endTime: '16:00'
+    }
+
+    it('accepts a free slot on a teaching day', async () => {
+      await expect(checkMakeUpSlot(schedule, slot, now)).resolves.toBeNull()
+      expect(mockFindDatedSessionConflict).toHaveBeenCalledWith(slot.date, {
+        startTime: '14:00',
+        endTime: '16:00',
+        lecturerId: 'lecturer-1',
+        classGroupId: 'group-1',
+        classroomId: 'room-1'
+      })
+    })
+
+    it('checks the proposed room instead of the regular one', async () => {
+      await checkMakeUpSlot(schedule, { ...slot, classroomId: 'room-2' }, now)
+      expect(mockFindDatedSessionConflict).toHaveBeenCalledWith(slot.date, expect.objectContaining({ classroomId: 'room-2' }))
+    })
+
+    it('rejects malformed or inverted times', async () => {
+      await expect(checkMakeUpSlot(schedule, { ...slot, startTime: '2pm' }, now)).resolves.toEqual({
+        error: 'Times must be in HH:MM format',
+        status: 400
+      })
+      await expect(checkMakeUpSlot(schedule, { ...slot, endTime: '13:00' }, now)).resolves.toEqual({
+        error: 'End time must be after start time',
+        status: 400
+      })
+    })
+
+    it('rejects dates in the past', async () => {
+      const result = await checkMakeUpSlot(schedule, { ...slot, date: new Date('2026-10-18T00:00:00.000Z') }, now)
+      expect(result).toEqual({ error: 'Make-up date cannot be in the past', status: 400 })
+    })
+
+    it('rejects non-teaching days', async () => {
+      mockGetAcademicDayStatus.mockResolvedValue({
+        date: '2026-10-21',
+        teaching: false,
+        reason: 'holiday',
+        event: { id: 'event-1', semesterId: null, type: 'holiday', name: 'Founders Day', startDate: slot.date, endDate: slot.date }
+      })
+
+      const result = await checkMakeUpSlot(schedule, slot, now)
+      expect(result).toEqual({
+        error: 'Make-up classes cannot be held on 2026-10-21: Public holiday: Founders Day',
+        status: 400
+      })
+      expect(mockFindDatedSessionConflict).not.toHaveBeenCalled()
+    })
+
+    it('reports clashes as conflicts', async () => {
+      mockFindDatedSessionConflict.mockResolvedValue({
+        type: 'classroom',
+        scheduleId: 'schedule-2',
+        message: 'Scheduling conflict: The classroom is already booked for this time slot.'
+      })
+
+      const result = await checkMakeUpSlot(schedule, slot, now)
+      expect(result).toEqual({
+        error: 'Scheduling conflict: The classroom is already booked for this time slot.',
+        status: 409
+      })
+    })
+  })
+})
@@ -0,0 +1,108 @@
+import {
+  classRepSignal,
+  getAttendanceVerificationUpdate,
+  getReviewStatus,
+  lecturerSignal,
+  reconcileSignals,
+  supervisorSignal
+} from '../session-reconciliation'
+
+jest.mock('@/lib/db', () => ({
+  prisma: {}
+}))
+
+const presentStatuses = ['ongoing', 'online']
+const checkIn = { method: 'onsite', locationVerified: true, qrVerified: false }
+
+describe('Session reconciliation', () => {
+  describe('signals', () => {
+    it('only counts a missing check-in once the class is over', () => {
+      expect(lecturerSignal(checkIn, false)).toEqual({ signal: 'present', detail: 'the lecturer checked in on site' })
+      expect(lecturerSignal(null, false)).toBeNull()
+      expect(lecturerSignal(null, true)?.signal).toBe('absent')
+    })
+
+    it('reads supervisor statuses through the verification policy', () => {
+      expect(supervisorSignal('ongoing', presentStatuses)?.signal).toBe('present')
+      expect(supervisorSignal('lecturer_absent', presentStatuses)?.signal).toBe('absent')
+      expect(supervisorSignal('cancelled', presentStatuses)?.signal).toBe('absent')
+      expect(supervisorSignal('not_started', presentStatuses)).toBeNull()
+      expect(supervisorSignal(null, presentStatuses)).toBeNull()
+    })
+
+    it('has no class rep signal until the rep verifies', () => {
+      expect(classRepSignal(null)).toBeNull()
+      expect(classRepSignal(false)?.signal).toBe('absent')
+    })
+  })
+
+  describe('reconcileSignals', () => {
+    it('is fully confident when all three accounts agree', () => {
+      expect(reconcileSignals({
+        lecturer: lecturerSignal(checkIn, true),
+        supervisor: supervisorSignal('ongoing', presentStatuses),
+        class_rep: classRepSignal(true)
+      })).toEqual({ verdict: 'held', confidence: 1, contradictions: [] })
+    })
+
+    it('flags a check-in contradicted by the supervisor', () => {
+      const result = reconcileSignals({
+        lecturer: lecturerSignal(checkIn, true),
+        supervisor: supervisorSignal('lecturer_absent', presentStatuses),
+        class_rep: null
+      })
+
+      expect(result.verdict).toBe('not_held')
+      expect(result.confidence).toBe(0.15)
+      expect(result.contradictions).toEqual([{
+        signals: ['lecturer', 'supervisor'],
+        detail: 'The lecturer checked in on site but the supervisor logged lecturer_absent'
+      }])
+    })
+
+    it('lets the class rep and supervisor outweigh the lecturer', () => {
+      const result = reconcileSignals({
+        lecturer: lecturerSignal(null, true),
+        supervisor: supervisorSignal('ongoing', presentStatuses),
+        class_rep: classRepSignal(true)
+      })
+
+      expect(result.verdict).toBe('held')
+      expect(result.confidence).toBe(0.5)
+      expect(result.contradictions).toHaveLength(2)
+    })
+
+    it('cannot decide without any account', () => {
+      expect(reconcileSignals({ lecturer: null, supervisor: null, class_rep: null }))
+        .toEqual({ verdict: 'undetermined', confidence: 0, contradictions: [] })
+    })
+  })
+
+  it('keeps resolved reviews closed and queues new contradictions', () => {
+    const contradiction = { signals: ['lecturer', 'supervisor'] as ['lecturer', 'supervisor'], detail: 'x' }
+
+    expect(getReviewStatus(undefined, [contradiction])).toBe('pending')
+    expect(getReviewStatus('pending', [])).toBe('none')
+    expect(getReviewStatus('resolved', [contradiction])).toBe('resolved')
+  })
+
+  describe('getAttendanceVerificationUpdate', () => {
+    const now = new Date('2026-10-19T10:00:00.000Z')
+
+    it('does not let a class rep overwrite the supervisor', () => {
+      expect(getAttendanceVerificationUpdate('CLASS_REP', { supervisorVerified: true }, false, 'Not seen', 'rep-1', now)).toEqual({
+        classRepVerified: false,
+        classRepComment: 'Not seen',
+        classRepVerifiedBy: 'rep-1',
+        classRepVerifiedAt: now
+      })
+    })
+
+    it('fills in the verification while no supervisor has given one', () => {
+      expect(getAttendanceVerificationUpdate('CLASS_REP', { supervisorVerified: null }, true, undefined, 'rep-1', now))
+        .toMatchObject({ classRepVerified: true, supervisorVerified: true, supervisorComment: null })
+      expect(getAttendanceVerificationUpdate('SUPERVISOR', { supervisorVerified: true }, false, 'Absent', 'sup-1', now))
+        .toEqual({ supervisorVerified: false, supervisorComment: 'Absent' })
+    })
+  })
+})
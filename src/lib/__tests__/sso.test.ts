@@ -0,0 +1,195 @@
+import { UserRole } from '@prisma/client'
+import {
+  DEFAULT_ATTRIBUTE_MAP,
+  DEFAULT_SSO_SETTINGS,
+  isPasswordLoginDisabled,
+  mapSsoAttributes,
+  provisionSsoUser,
+  recordSamlAssertion,
+  resolveSsoRole,
+  samlRequestCache,
+  ssoNeedsTwoFactorSetup,
+  SsoSettings
+} from '../sso'
+
+const findUniqueSetting = jest.fn()
+const findUniqueUser = jest.fn()
+const createUser = jest.fn()
+const findUniqueLecturer = jest.fn()
+const createLecturer = jest.fn()
+const updateLecturer = jest.fn()
+const createAuditLog = jest.fn()
+const createManySamlMessages = jest.fn()
+const findUniqueSamlMessage = jest.fn()
+const deleteManySamlMessages = jest.fn()
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    systemSettings: {
+      findUnique: (...args: any[]) => findUniqueSetting(...args)
+    },
+    user: {
+      findUnique: (...args: any[]) => findUniqueUser(...args),
+      create: (...args: any[]) => createUser(...args)
+    },
+    lecturer: {
+      findUnique: (...args: any[]) => findUniqueLecturer(...args),
+      create: (...args: any[]) => createLecturer(...args),
+      update: (...args: any[]) => updateLecturer(...args)
+    },
+    auditLog: {
+      create: (...args: any[]) => createAuditLog(...args)
+    },
+    samlMessage: {
+      createMany: (...args: any[]) => createManySamlMessages(...args),
+      findUnique: (...args: any[]) => findUniqueSamlMessage(...args),
+      deleteMany: (...args: any[]) => deleteManySamlMessages(...args)
+    }
+  }
+}))
+
+const settings: SsoSettings = {
+  ...DEFAULT_SSO_SETTINGS,
+  defaultRole: UserRole.CLASS_REP,
+  roleMap: { faculty: UserRole.LECTURER, 'registry-staff': UserRole.COORDINATOR }
+}
+
+const identity = {
+  email: 'ama.owusu@upsa.edu.gh',
+  firstName: 'Ama',
+  lastName: 'Owusu',
+  roles: ['member', 'faculty'],
+  department: 'Accounting',
+  employeeId: 'UPSA-L-9001'
+}
+
+describe('Single sign-on', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    findUniqueLecturer.mockResolvedValue(null)
+  })
+
+  it('maps OIDC claims and SAML directory attributes', () => {
+    expect(mapSsoAttributes({
+      email: 'Ama.Owusu@UPSA.edu.gh',
+      given_name: 'Ama',
+      family_name: 'Owusu',
+      role: ['member', 'faculty'],
+      department: 'Accounting',
+      employee_id: 'UPSA-L-9001'
+    }, DEFAULT_ATTRIBUTE_MAP)).toEqual(identity)
+
+    expect(mapSsoAttributes({
+      nameID: 'kwame.asante@upsa.edu.gh',
+      displayName: 'Kwame Boateng Asante',
+      eduPersonAffiliation: 'staff',
+      employeeNumber: 1234
+    }, DEFAULT_ATTRIBUTE_MAP)).toEqual({
+      email: 'kwame.asante@upsa.edu.gh',
+      firstName: 'Kwame',
+      lastName: 'Boateng Asante',
+      roles: ['staff'],
+      department: undefined,
+      employeeId: '1234'
+    })
+
+    expect(mapSsoAttributes({ given_name: 'Ama' }, DEFAULT_ATTRIBUTE_MAP)).toBeNull()
+  })
+
+  it('uses the first mapped directory role, otherwise the default', () => {
+    expect(resolveSsoRole(['member', 'faculty'], settings)).toBe(UserRole.LECTURER)
+    expect(resolveSsoRole(['member'], settings)).toBe(UserRole.CLASS_REP)
+    expect(resolveSsoRole([], DEFAULT_SSO_SETTINGS)).toBe(UserRole.LECTURER)
+  })
+
+  it('creates a user and lecturer profile on first sign-in', async () => {
+    findUniqueUser.mockResolvedValue(null)
+    createUser.mockImplementation(({ data }) => Promise.resolve({ id: 'user-1', isActive: true, lecturer: null, ...data }))
+    createLecturer.mockResolvedValue({ id: 'lecturer-1', department: 'Accounting' })
+
+    const result = await provisionSsoUser(identity, 'saml', settings)
+
+    expect(createUser).toHaveBeenCalledWith({
+      data: expect.objectContaining({ email: 'ama.owusu@upsa.edu.gh', role: UserRole.LECTURER, passwordHash: expect.any(String) }),
+      include: { lecturer: true }
+    })
+    expect(createLecturer).toHaveBeenCalledWith({
+      data: { userId: 'user-1', employeeId: 'UPSA-L-9001', department: 'Accounting' }
+    })
+    expect(createAuditLog).toHaveBeenCalledWith({
+      data: expect.objectContaining({ action: 'SSO_USER_PROVISIONED', targetId: 'user-1' })
+    })
+    expect(result).toEqual({
+      user: expect.objectContaining({ id: 'user-1', role: UserRole.LECTURER, lecturerId: 'lecturer-1' })
+    })
+  })
+
+  it('keeps existing accounts and refuses employee IDs held by someone else', async () => {
+    findUniqueUser.mockResolvedValue({
+      id: 'user-2', email: identity.email, firstName: 'Ama', lastName: 'Owusu', role: UserRole.COORDINATOR, isActive: true, lecturer: null
+    })
+
+    const result = await provisionSsoUser({ ...identity, employeeId: undefined }, 'oidc', settings)
+    expect(result).toEqual({ user: expect.objectContaining({ id: 'user-2', role: UserRole.COORDINATOR }) })
+    expect(createUser).not.toHaveBeenCalled()
+    expect(createLecturer).not.toHaveBeenCalled()
+    expect(createAuditLog).not.toHaveBeenCalled()
+
+    findUniqueLecturer.mockResolvedValue({ id: 'lecturer-9', userId: 'user-9' })
+    expect(await provisionSsoUser(identity, 'oidc', settings)).toEqual({ error: expect.stringContaining('UPSA-L-9001'), status: 409 })
+  })
+
+  it('makes administrators, coordinators and required roles enrol a second factor', async () => {
+    findUniqueSetting.mockResolvedValue({ isActive: true, value: JSON.stringify([UserRole.LECTURER]) })
+
+    expect(await ssoNeedsTwoFactorSetup(UserRole.ADMIN, null)).toBe(true)
+    expect(await ssoNeedsTwoFactorSetup(UserRole.COORDINATOR, { enabledAt: null })).toBe(true)
+    expect(await ssoNeedsTwoFactorSetup(UserRole.LECTURER, null)).toBe(true)
+    expect(await ssoNeedsTwoFactorSetup(UserRole.CLASS_REP, null)).toBe(false)
+    expect(await ssoNeedsTwoFactorSetup(UserRole.ADMIN, { enabledAt: new Date() })).toBe(false)
+  })
+
+  it('turns off local passwords only for the listed domains', async () => {
+    findUniqueSetting.mockResolvedValue({ isActive: true, value: JSON.stringify({ passwordDisabledDomains: ['upsa.edu.gh'] }) })
+
+    expect(await isPasswordLoginDisabled('Someone@UPSA.edu.gh')).toBe(true)
+    expect(await isPasswordLoginDisabled('someone@student.upsa.edu.gh')).toBe(false)
+  })
+
+  it('remembers SAML request IDs until the response to them arrives', async () => {
+    deleteManySamlMessages.mockResolvedValue({ count: 1 })
+    createManySamlMessages.mockResolvedValue({ count: 1 })
+
+    expect(await samlRequestCache.saveAsync('_request-1', '2026-10-19T09:00:00.000Z')).toEqual(
+      expect.objectContaining({ value: '2026-10-19T09:00:00.000Z' })
+    )
+    expect(createManySamlMessages).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ kind: 'request', messageId: '_request-1' })],
+      skipDuplicates: true
+    })
+
+    findUniqueSamlMessage.mockResolvedValue({ value: '2026-10-19T09:00:00.000Z', expiresAt: new Date(Date.now() + 60000) })
+    expect(await samlRequestCache.getAsync('_request-1')).toBe('2026-10-19T09:00:00.000Z')
+    findUniqueSamlMessage.mockResolvedValue({ value: '2026-10-19T09:00:00.000Z', expiresAt: new Date(Date.now() - 60000) })
+    expect(await samlRequestCache.getAsync('_request-1')).toBeNull()
+
+    expect(await samlRequestCache.removeAsync('_request-1')).toBe('_request-1')
+    deleteManySamlMessages.mockResolvedValue({ count: 0 })
+    expect(await samlRequestCache.removeAsync('_request-1')).toBeNull()
+  })
+
+  it('accepts each SAML assertion once', async () => {
+    const profile = { getAssertion: () => ({ Assertion: { $: { ID: '_assertion-1' } } }) } as any
+
+    createManySamlMessages.mockResolvedValueOnce({ count: 1 })
+    expect(await recordSamlAssertion(profile)).toBe(true)
+    expect(createManySamlMessages).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ kind: 'assertion', messageId: '_assertion-1' })],
+      skipDuplicates: true
+    })
+
+    createManySamlMessages.mockResolvedValueOnce({ count: 0 })
+    expect(await recordSamlAssertion(profile)).toBe(false)
+    expect(await recordSamlAssertion({ getAssertion: () => ({ Assertion: { $: {} } }) } as any)).toBe(false)
+  })
+})
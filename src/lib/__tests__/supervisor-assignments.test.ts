@@ -0,0 +1,114 @@
+import {
+  assignmentCoversClass,
+  sortPatrolStops,
+  summarizeCoverage,
+  supervisorAssignmentSchema,
+  toScopedClass,
+  type PatrolStop
+} from '../supervisor-assignments'
+
+jest.mock('@/lib/db', () => ({
+  prisma: {}
+}))
+
+const assignment = { buildingId: 'b1', floor: 2, dayOfWeek: 1, startTime: '08:00', endTime: '12:00' }
+const cls = { buildingId: 'b1', floor: 2, dayOfWeek: 1, startTime: '10:00', endTime: '12:00' }
+
+const stop = (overrides: Partial<PatrolStop>): PatrolStop => ({
+  scheduleId: 's1',
+  classSessionId: null,
+  buildingId: 'b1',
+  buildingName: 'Science Block',
+  floor: 0,
+  classroomId: 'r1',
+  roomCode: 'SB001',
+  roomName: 'Lab 1',
+  startTime: '08:00',
+  endTime: '10:00',
+  courseCode: 'CS101',
+  courseTitle: 'Intro',
+  classGroupName: 'CS Y1',
+  lecturerName: 'Ama Mensah',
+  sessionStatus: 'scheduled',
+  isMakeUp: false,
+  checked: false,
+  logStatus: null,
+  supervisorIds: ['sup-1'],
+  ...overrides
+})
+
+describe('Supervisor assignments', () => {
+  describe('assignmentCoversClass', () => {
+    it('covers classes on its floor, day and hours', () => {
+      expect(assignmentCoversClass(assignment, cls)).toBe(true)
+      expect(assignmentCoversClass(assignment, { ...cls, floor: 3 })).toBe(false)
+      expect(assignmentCoversClass(assignment, { ...cls, dayOfWeek: 2 })).toBe(false)
+      expect(assignmentCoversClass(assignment, { ...cls, startTime: '12:00', endTime: '14:00' })).toBe(false)
+      expect(assignmentCoversClass(assignment, { ...cls, buildingId: 'b2' })).toBe(false)
+    })
+
+    it('treats a missing floor or day as the whole building or week', () => {
+      const buildingWide = { ...assignment, floor: null, dayOfWeek: null }
+
+      expect(assignmentCoversClass(buildingWide, { ...cls, floor: 5, dayOfWeek: 4 })).toBe(true)
+      expect(assignmentCoversClass(buildingWide, { ...cls, floor: null })).toBe(true)
+      expect(assignmentCoversClass(assignment, { ...cls, floor: null })).toBe(false)
+    })
+
+    it('never covers classes without a room', () => {
+      expect(assignmentCoversClass({ ...assignment, floor: null }, { ...cls, buildingId: null })).toBe(false)
+    })
+  })
+
+  it('places a make-up session in its own room and time', () => {
+    const schedule = { dayOfWeek: 1, startTime: '08:00', endTime: '10:00', classroom: { buildingId: 'b1', floor: 0 } }
+    const session = {
+      date: new Date('2026-10-22T00:00:00.000Z'),
+      startTime: '14:00',
+      endTime: '16:00',
+      classroom: { buildingId: 'b2', floor: 1 }
+    }
+
+    expect(toScopedClass(schedule)).toEqual({ buildingId: 'b1', floor: 0, dayOfWeek: 1, startTime: '08:00', endTime: '10:00' })
+    expect(toScopedClass(schedule, session)).toEqual({ buildingId: 'b2', floor: 1, dayOfWeek: 4, startTime: '14:00', endTime: '16:00' })
+  })
+
+  it('orders a patrol building by building, then floor by floor', () => {
+    const stops = sortPatrolStops([
+      stop({ buildingName: 'Science Block', floor: 1, startTime: '08:00', roomCode: 'SB101' }),
+      stop({ buildingName: 'Arts Block', floor: 2, startTime: '10:00', roomCode: 'AB201' }),
+      stop({ buildingName: 'Science Block', floor: 0, startTime: '10:00', roomCode: 'SB002' }),
+      stop({ buildingName: 'Science Block', floor: 0, startTime: '08:00', roomCode: 'SB001' })
+    ])
+
+    expect(stops.map(s => s.roomCode)).toEqual(['AB201', 'SB001', 'SB002', 'SB101'])
+  })
+
+  it('summarises which classes were checked and which nobody covers', () => {
+    const summary = summarizeCoverage([
+      stop({ checked: true, logStatus: 'ongoing' }),
+      stop({ roomCode: 'SB002' }),
+      stop({ buildingId: 'b2', buildingName: 'Arts Block', supervisorIds: [] })
+    ])
+
+    expect(summary).toEqual({
+      total: 3,
+      checked: 1,
+      unchecked: 2,
+      unassigned: 1,
+      coverageRate: 0.33,
+      buildings: [
+        { buildingId: 'b2', buildingName: 'Arts Block', total: 1, checked: 0 },
+        { buildingId: 'b1', buildingName: 'Science Block', total: 2, checked: 1 }
+      ]
+    })
+    expect(summarizeCoverage([]).coverageRate).toBe(0)
+  })
+
+  it('rejects assignments that end before they start', () => {
+    const result = supervisorAssignmentSchema.safeParse({ ...assignment, supervisorId: 'sup-1', startTime: '12:00', endTime: '08:00' })
+
+    expect(result.success).toBe(false)
+    expect(result.error?.issues[0].path).toEqual(['endTime'])
+  })
+})
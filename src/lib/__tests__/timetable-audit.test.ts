@@ -0,0 +1,82 @@
+import { auditTimetable, summarizeIssues, toAuditRows, type AuditSchedule } from '../timetable-audit'
+
+jest.mock('@/lib/db', () => ({
+  prisma: {}
+}))
+
+function schedule(id: string, overrides: Partial<AuditSchedule> = {}): AuditSchedule {
+  return {
+    id,
+    dayOfWeek: 1,
+    startTime: '09:00',
+    endTime: '12:00',
+    sessionType: 'LECTURE',
+    meetingLink: null,
+    isOverload: false,
+    course: { courseCode: `C-${id}`, programme: { coordinator: 'coord-1' } },
+    classGroup: { id: `group-${id}`, name: `Group ${id}`, studentCount: 30 },
+    lecturer: { id: `lecturer-${id}`, isAdjunct: false, user: { firstName: 'Ama', lastName: id } },
+    classroom: { id: `room-${id}`, roomCode: `R-${id}`, capacity: 50, virtualLink: null },
+    ...overrides
+  }
+}
+
+const lecturer = { id: 'lecturer-x', isAdjunct: false, user: { firstName: 'Kofi', lastName: 'Mensah' } }
+const room = { id: 'room-x', roomCode: 'LT1', capacity: 50, virtualLink: null }
+
+describe('Timetable audit', () => {
+  it('reports double-booked lecturers, groups and rooms with links to both classes', () => {
+    const issues = auditTimetable([
+      schedule('a', { lecturer, classroom: room }),
+      schedule('b', { lecturer, classroom: room, startTime: '11:00', endTime: '13:00', classGroup: { id: 'group-a', name: 'Group a', studentCount: 30 } })
+    ])
+
+    expect(issues.map(issue => issue.type)).toEqual(['lecturer_double_booking', 'class_group_overlap', 'room_clash'])
+    expect(issues[0].links.map(link => link.href)).toEqual(['/dashboard/schedules/a/edit', '/dashboard/schedules/b/edit'])
+    expect(issues[2].message).toContain('Room LT1 is booked twice on Monday')
+  })
+
+  it('ignores classes that only touch or fall on other days', () => {
+    expect(auditTimetable([
+      schedule('a', { lecturer }),
+      schedule('b', { lecturer, startTime: '12:00', endTime: '14:00' }),
+      schedule('c', { lecturer, dayOfWeek: 2 })
+    ])).toEqual([])
+  })
+
+  it('flags rooms smaller than the class and online classes without a link', () => {
+    const issues = auditTimetable([
+      schedule('a', { classGroup: { id: 'g', name: 'MBA 1', studentCount: 80 } }),
+      schedule('b', { sessionType: 'VIRTUAL', classroom: null }),
+      schedule('c', { sessionType: 'HYBRID', classroom: { ...room, virtualLink: 'https://meet.example.com/lt1' } })
+    ])
+
+    expect(issues.map(issue => [issue.type, issue.scheduleIds])).toEqual([
+      ['room_too_small', ['a']],
+      ['missing_meeting_link', ['b']]
+    ])
+  })
+
+  it('flags lecturers over their regular weekly load, not counting overload classes', () => {
+    const week = [1, 2, 3, 4].map(day => schedule(`d${day}`, { lecturer, dayOfWeek: day }))
+
+    expect(auditTimetable(week)).toEqual([])
+    expect(auditTimetable([...week, schedule('d5', { lecturer, dayOfWeek: 5 })])[0]).toMatchObject({
+      type: 'lecturer_overloaded',
+      message: expect.stringContaining('teaches 15 regular hours a week, over the 12 hour limit'),
+      links: [{ href: '/dashboard/schedules?lecturerId=lecturer-x' }]
+    })
+    expect(auditTimetable([...week, schedule('d5', { lecturer, dayOfWeek: 5, isOverload: true })])).toEqual([])
+    expect(auditTimetable(week.map(item => ({ ...item, lecturer: { ...lecturer, isAdjunct: true } })))).toHaveLength(1)
+  })
+
+  it('summarises and exports issues with absolute fix links', () => {
+    const issues = auditTimetable([schedule('a', { sessionType: 'VIRTUAL', classroom: null })])
+
+    expect(summarizeIssues(issues)).toMatchObject({ missing_meeting_link: 1, room_clash: 0 })
+    expect(toAuditRows(issues, 'https://attendance.example.com')[0]).toMatchObject({
+      Day: 'Monday',
+      Fix: 'https://attendance.example.com/dashboard/schedules/a/edit'
+    })
+  })
+})
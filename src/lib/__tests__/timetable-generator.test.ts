@@ -0,0 +1,101 @@
+import {
+  findSlotClash,
+  isLecturerAvailable,
+  sessionDuration,
+  sessionTypeFor,
+  solveTimetable,
+  type TimetableProblem
+} from '../timetable-generator'
+
+jest.mock('@/lib/db', () => ({
+  prisma: {}
+}))
+
+const course = (id: string, overrides = {}) => ({ id, creditHours: 3, virtualEnabled: false, hybridEnabled: false, ...overrides })
+const group = (id: string, overrides = {}) => ({ id, deliveryMode: 'FACE_TO_FACE', groupType: 'regular', studentCount: 40, ...overrides })
+const requirement = (courseId: string, classGroupId: string, lecturerId: string, sessionsPerWeek = 1) => ({ courseId, classGroupId, lecturerId, sessionsPerWeek })
+
+function problem(overrides: Partial<TimetableProblem>): TimetableProblem {
+  return {
+    requirements: [],
+    classGroups: [group('g1')],
+    courses: [course('c1'), course('c2')],
+    rooms: [{ id: 'small', capacity: 30 }, { id: 'medium', capacity: 50 }, { id: 'hall', capacity: 200 }],
+    availability: {},
+    booked: [],
+    ...overrides
+  }
+}
+
+describe('Timetable generator', () => {
+  it('produces a timetable without clashes, spread over the week in the smallest room that fits', () => {
+    const { sessions, unplaced } = solveTimetable(problem({
+      classGroups: [group('g1'), group('g2', { studentCount: 120 })],
+      requirements: [requirement('c1', 'g1', 'l1'), requirement('c2', 'g1', 'l1'), requirement('c1', 'g2', 'l2')]
+    }))
+
+    expect(unplaced).toEqual([])
+    expect(sessions).toHaveLength(3)
+    sessions.forEach((session, index) => {
+      expect(findSlotClash(session, sessions.filter((_, i) => i !== index))).toBeNull()
+    })
+    expect(sessions.find(session => session.classGroupId === 'g2')?.classroomId).toBe('hall')
+
+    const g1Days = sessions.filter(session => session.classGroupId === 'g1').map(session => session.dayOfWeek)
+    expect(new Set(g1Days).size).toBe(2)
+    expect(sessions.find(session => session.classGroupId === 'g1')).toMatchObject({ classroomId: 'medium', startTime: '08:00', endTime: '11:00' })
+  })
+
+  it('keeps evening and weekend groups to their hours', () => {
+    const { sessions } = solveTimetable(problem({
+      classGroups: [group('evening', { groupType: 'evening' }), group('weekend', { groupType: 'WEEKEND' })],
+      requirements: [requirement('c1', 'evening', 'l1'), requirement('c1', 'weekend', 'l2')]
+    }))
+
+    expect(sessions.find(session => session.classGroupId === 'evening')).toMatchObject({ dayOfWeek: 1, startTime: '17:30', endTime: '20:30' })
+    expect(sessions.find(session => session.classGroupId === 'weekend')).toMatchObject({ dayOfWeek: 6, startTime: '08:00' })
+  })
+
+  it('works around the published timetable and lecturer availability', () => {
+    const { sessions } = solveTimetable(problem({
+      requirements: [requirement('c1', 'g1', 'l1')],
+      availability: { l1: [{ dayOfWeek: 2, startTime: '09:00', endTime: '17:00' }] },
+      booked: [{ dayOfWeek: 2, startTime: '09:00', endTime: '12:00', lecturerId: 'l9', classGroupId: 'g9', classroomId: 'medium' }]
+    }))
+
+    expect(sessions).toEqual([expect.objectContaining({ dayOfWeek: 2, startTime: '09:00', endTime: '12:00', classroomId: 'hall' })])
+  })
+
+  it('teaches online groups virtually without a room', () => {
+    const { sessions, unplaced } = solveTimetable(problem({
+      classGroups: [group('online', { deliveryMode: 'ONLINE', studentCount: 500 })],
+      courses: [course('c1', { virtualEnabled: true }), course('c2')],
+      requirements: [requirement('c1', 'online', 'l1'), requirement('c2', 'online', 'l1')]
+    }))
+
+    expect(sessions).toEqual([expect.objectContaining({ courseId: 'c1', sessionType: 'VIRTUAL', classroomId: null })])
+    expect(unplaced).toEqual([expect.objectContaining({ courseId: 'c2', reason: expect.stringContaining('not enabled for virtual delivery') })])
+  })
+
+  it('reports classes it cannot place', () => {
+    const { unplaced } = solveTimetable(problem({
+      classGroups: [group('huge', { studentCount: 400 }), group('g1')],
+      availability: { l2: [{ dayOfWeek: 6, startTime: '08:00', endTime: '12:00' }] },
+      requirements: [requirement('c1', 'huge', 'l1'), requirement('c1', 'g1', 'l2')]
+    }))
+
+    expect(unplaced.map(item => item.reason)).toEqual([
+      'No classroom seats 400 students',
+      'The lecturer is not available when the class group meets'
+    ])
+  })
+
+  it('derives delivery, duration and availability rules', () => {
+    expect(sessionTypeFor('HYBRID', { virtualEnabled: false, hybridEnabled: true })).toBe('HYBRID')
+    expect(sessionTypeFor('HYBRID', { virtualEnabled: false, hybridEnabled: false })).toBe('LECTURE')
+    expect(sessionDuration({ sessionsPerWeek: 2 }, 3)).toBe(90)
+    expect(sessionDuration({ sessionsPerWeek: 1, durationMinutes: 120 }, 3)).toBe(120)
+    expect(isLecturerAvailable([], { dayOfWeek: 0, startTime: '07:00', endTime: '08:00' })).toBe(true)
+    expect(isLecturerAvailable([{ dayOfWeek: 1, startTime: '09:00', endTime: '12:00' }], { dayOfWeek: 1, startTime: '11:00', endTime: '13:00' })).toBe(false)
+  })
+})
@@ -0,0 +1,136 @@
+import {
+  findImportIssues,
+  matchEntity,
+  nameSimilarity,
+  parseIcsTimetable,
+  parseImportTime,
+  parseTimetableRows
+} from '../timetable-import'
+
+jest.mock('@/lib/db', () => ({
+  prisma: {}
+}))
+
+const ics = [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'BEGIN:VEVENT',
+  'UID:sched-1-20261005@upsa-attendance',
+  'DTSTART:20261005T090000Z',
+  'DTEND:20261005T120000Z',
+  'SUMMARY:ACC101 Financial Accounting (BSc ACC 1A)',
+  'LOCATION:LT1 Lecture Theatre 1\\, Main Block',
+  'DESCRIPTION:ACC101 Financial Accounting\\nClass group: BSc ACC 1A\\nLecturer: K',
+  ' ofi Mensah\\nDelivery: lecture',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'UID:sched-1-20261012@upsa-attendance',
+  'DTSTART:20261012T090000Z',
+  'DTEND:20261012T120000Z',
+  'SUMMARY:ACC101 Financial Accounting (BSc ACC 1A)',
+  'LOCATION:LT1 Lecture Theatre 1\\, Main Block',
+  'DESCRIPTION:ACC101 Financial Accounting\\nClass group: BSc ACC 1A\\nLecturer: Kofi Mensah\\nDelivery: lecture',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'DTSTART;TZID=Africa/Accra:20261006T173000',
+  'DTEND;TZID=Africa/Accra:20261006T193000',
+  'RRULE:FREQ=WEEKLY;BYDAY=TU,TH',
+  'SUMMARY:MKT 201 Principles of Marketing',
+  'ORGANIZER;CN="Dr. Ama Owusu":mailto:ama.owusu@upsa.edu.gh',
+  'URL:https://meet.example.com/mkt201',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'DTSTART;VALUE=DATE:20261007',
+  'SUMMARY:Founders Day',
+  'END:VEVENT',
+  'END:VCALENDAR'
+].join('\r\n')
+
+describe('Timetable import', () => {
+  it('reads weekly classes from an iCalendar file, one per slot', () => {
+    const { classes, errors } = parseIcsTimetable(ics)
+
+    expect(classes).toEqual([
+      {
+        row: 1,
+        dayOfWeek: 1,
+        startTime: '09:00',
+        endTime: '12:00',
+        course: 'ACC101 Financial Accounting',
+        classGroup: 'BSc ACC 1A',
+        lecturer: 'Kofi Mensah',
+        classroom: 'LT1 Lecture Theatre 1, Main Block',
+        sessionType: 'LECTURE',
+        meetingLink: null
+      },
+      expect.objectContaining({ row: 3, dayOfWeek: 2, startTime: '17:30', endTime: '19:30', lecturer: 'Dr. Ama Owusu', classroom: null, sessionType: 'VIRTUAL' }),
+      expect.objectContaining({ row: 3, dayOfWeek: 4, course: 'MKT 201 Principles of Marketing', meetingLink: 'https://meet.example.com/mkt201' })
+    ])
+    expect(errors).toEqual(['Event 4 (Founders Day): all-day events and events without an end time are skipped'])
+  })
+
+  it('reads timetable-system exports by column name', () => {
+    const { classes, errors } = parseTimetableRows([
+      { 'Module Code': 'ACC101', 'Student Set': 'BSc ACC 1A', 'Date': '05/10/2026', 'Time': '9:00 am - 12:00 pm', 'Staff': 'Mensah, Kofi; Ama Owusu', 'Venue': 'LT1', 'Activity Type': 'Practical' },
+      { 'Module Code': 'ACC101', 'Student Set': 'BSc ACC 1A', 'Date': '12/10/2026', 'Time': '9:00 am - 12:00 pm', 'Staff': 'Mensah, Kofi; Ama Owusu', 'Venue': 'LT1', 'Activity Type': 'Practical' },
+      { 'Module Code': '', 'Student Set': '', 'Date': '', 'Time': '', 'Staff': '', 'Venue': '', 'Activity Type': '' },
+      { 'Module Code': 'MKT201', 'Student Set': 'BSc MKT 2', 'Date': 'someday', 'Time': '14.00-16.00', 'Staff': '', 'Venue': '', 'Activity Type': '' }
+    ])
+
+    expect(classes).toEqual([{
+      row: 2,
+      dayOfWeek: 1,
+      startTime: '09:00',
+      endTime: '12:00',
+      course: 'ACC101',
+      classGroup: 'BSc ACC 1A',
+      lecturer: 'Mensah, Kofi',
+      classroom: 'LT1',
+      sessionType: 'LAB',
+      meetingLink: null
+    }])
+    expect(errors).toEqual(['Row 5: Invalid day "someday"'])
+    expect(parseTimetableRows([{ Subject: 'ACC101' }]).errors[0]).toContain('found: Subject')
+  })
+
+  it('reads the ways exports write times', () => {
+    expect(['08:00', '8.30', '0800', '2:30 pm', '12 a.m.', '14h15', 0.75].map(parseImportTime))
+      .toEqual(['08:00', '08:30', '08:00', '14:30', '00:00', '14:15', '18:00'])
+    expect(['25:00', '13pm', 'noon'].map(parseImportTime)).toEqual([null, null, null])
+  })
+
+  it('matches names despite titles, order, punctuation and spelling slips', () => {
+    const lecturers = [
+      { id: 'l1', label: 'Kofi Mensah', keys: ['Kofi Mensah', 'kofi.mensah@upsa.edu.gh'] },
+      { id: 'l2', label: 'Ama Owusu', keys: ['Ama Owusu', 'ama.owusu@upsa.edu.gh'] }
+    ]
+    const courses = [
+      { id: 'c1', label: 'ACC101 Financial Accounting', keys: ['ACC101', 'Financial Accounting'] },
+      { id: 'c2', label: 'ACC102 Cost Accounting', keys: ['ACC102', 'Cost Accounting'] }
+    ]
+
+    expect(nameSimilarity('Dr. Mensah, Kofi', 'Kofi Mensah')).toBe(1)
+    expect(matchEntity('Prof Kofi Mensa', lecturers)).toMatchObject({ id: 'l1' })
+    expect(matchEntity('ama.owusu@upsa.edu.gh', lecturers)).toMatchObject({ id: 'l2', score: 1 })
+    expect(matchEntity('ACC 102 - Introduction to Costing', courses)).toMatchObject({ id: 'c2', score: 1 })
+    expect(matchEntity('Financial Acounting', courses)?.id).toBe('c1')
+    expect(matchEntity('Business Law', courses)).toBeNull()
+  })
+
+  it('flags rows already on the timetable or clashing with it or each other', () => {
+    const slot = { dayOfWeek: 1, startTime: '09:00', endTime: '12:00', classroomId: null }
+    const existing = [{ ...slot, courseId: 'c1', classGroupId: 'g1', lecturerId: 'l1' }]
+
+    expect(findImportIssues([
+      { ...slot, row: 2, courseId: 'c1', classGroupId: 'g1', lecturerId: 'l1' },
+      { ...slot, row: 3, courseId: 'c2', classGroupId: 'g2', lecturerId: 'l1', startTime: '11:00', endTime: '13:00' },
+      { ...slot, row: 4, courseId: 'c3', classGroupId: 'g3', lecturerId: 'l3', startTime: '13:00', endTime: '15:00' },
+      { ...slot, row: 5, courseId: 'c4', classGroupId: 'g3', lecturerId: 'l4', startTime: '14:00', endTime: '16:00' }
+    ], existing)).toEqual([
+      'Already on the timetable',
+      'Clashes with the timetable: the lecturer is already teaching then',
+      null,
+      'Clashes with row 4: the class group already has a class then'
+    ])
+  })
+})
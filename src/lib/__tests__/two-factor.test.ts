@@ -0,0 +1,105 @@
+import {
+  base32Decode,
+  base32Encode,
+  decryptSecret,
+  encryptSecret,
+  generateRecoveryCodes,
+  generateTotp,
+  normalizeRecoveryCode,
+  verifySecondFactor,
+  verifyTotp
+} from '../two-factor'
+
+const findUniqueTwoFactor = jest.fn()
+const updateTwoFactor = jest.fn()
+const createAuditLog = jest.fn()
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    twoFactorAuth: {
+      findUnique: (...args: any[]) => findUniqueTwoFactor(...args),
+      update: (...args: any[]) => updateTwoFactor(...args)
+    },
+    auditLog: {
+      create: (...args: any[]) => createAuditLog(...args)
+    }
+  }
+}))
+jest.mock('@/lib/sms', () => ({
+  ...jest.requireActual('@/lib/sms'),
+  smsService: { sendSMS: jest.fn(() => Promise.resolve({ success: true })) }
+}))
+
+// The SHA-1 seed from the RFC 6238 test vectors
+const RFC_SECRET = Buffer.from('12345678901234567890')
+
+describe('Two-factor authentication', () => {
+  const originalSecret = process.env.NEXTAUTH_SECRET
+
+  beforeAll(() => {
+    process.env.NEXTAUTH_SECRET = 'test-secret'
+  })
+
+  afterAll(() => {
+    process.env.NEXTAUTH_SECRET = originalSecret
+  })
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('generates the RFC 6238 codes', () => {
+    expect(generateTotp(RFC_SECRET, Math.floor(59 / 30), 8)).toBe('94287082')
+    expect(generateTotp(RFC_SECRET, Math.floor(1111111109 / 30), 8)).toBe('07081804')
+    expect(generateTotp(RFC_SECRET, Math.floor(1234567890 / 30), 8)).toBe('89005924')
+    expect(generateTotp(RFC_SECRET, Math.floor(1111111109 / 30))).toBe('081804')
+  })
+
+  it('accepts codes from neighbouring steps but not replayed ones', () => {
+    const now = 1111111109 * 1000
+    const step = Math.floor(1111111109 / 30)
+
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step), now)).toBe(step)
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), now)).toBe(step - 1)
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 2), now)).toBeNull()
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step), now, step)).toBeNull()
+    expect(verifyTotp(RFC_SECRET, '12345', now)).toBeNull()
+  })
+
+  it('round-trips base32 and encrypted secrets', () => {
+    expect(base32Encode(Buffer.from('foobar'))).toBe('MZXW6YTBOI')
+    expect(base32Decode('mzxw 6ytb oi').toString()).toBe('foobar')
+
+    const encrypted = encryptSecret('JBSWY3DPEHPK3PXP')
+    expect(encrypted).not.toContain('JBSWY3DPEHPK3PXP')
+    expect(decryptSecret(encrypted)).toBe('JBSWY3DPEHPK3PXP')
+  })
+
+  it('spends a recovery code once', async () => {
+    const { codes, hashes } = generateRecoveryCodes()
+    expect(codes).toHaveLength(10)
+    expect(codes[0]).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/)
+    expect(normalizeRecoveryCode(' ABCDE-12345 ')).toBe('abcde12345')
+
+    findUniqueTwoFactor.mockResolvedValue({
+      userId: 'user-1',
+      secret: encryptSecret(base32Encode(RFC_SECRET)),
+      enabledAt: new Date(),
+      recoveryCodes: JSON.stringify(hashes),
+      lastUsedStep: null,
+      smsCodeHash: null,
+      smsCodeExpiresAt: null
+    })
+
+    expect(await verifySecondFactor('user-1', codes[3].toUpperCase())).toBe(true)
+    expect(updateTwoFactor).toHaveBeenCalledWith({
+      where: { userId: 'user-1' },
+      data: { recoveryCodes: JSON.stringify(hashes.filter((_, index) => index !== 3)) }
+    })
+    expect(createAuditLog).toHaveBeenCalledWith({
+      data: expect.objectContaining({ action: 'TWO_FACTOR_RECOVERY_CODE_USED', userId: 'user-1' })
+    })
+
+    expect(await verifySecondFactor('user-1', 'zzzzz-zzzzz')).toBe(false)
+  })
+})
@@ -0,0 +1,90 @@
+import {
+  calculateSlaDueAt,
+  DEFAULT_VERIFICATION_SLA_HOURS,
+  getAllowedTransitions,
+  getVerificationActors,
+  isSlaBreached,
+  parseVerificationEvidence,
+  resolveTransitionActor
+} from '../verification-requests'
+
+jest.mock('@/lib/db', () => ({
+  prisma: {}
+}))
+
+const parties = {
+  requesterId: 'supervisor-1',
+  lecturerUserId: 'lecturer-user-1',
+  programmeCoordinatorId: 'coordinator-1'
+}
+
+describe('Verification request workflow', () => {
+  describe('getVerificationActors', () => {
+    it('relates users to the request by role and ownership', () => {
+      expect(getVerificationActors(parties, { id: 'supervisor-1', role: 'SUPERVISOR' })).toEqual(['REQUESTER'])
+      expect(getVerificationActors(parties, { id: 'lecturer-user-1', role: 'LECTURER' })).toEqual(['LECTURER'])
+      expect(getVerificationActors(parties, { id: 'coordinator-1', role: 'COORDINATOR' })).toEqual(['COORDINATOR'])
+      expect(getVerificationActors(parties, { id: 'admin-1', role: 'ADMIN' })).toEqual(['ADMIN'])
+    })
+
+    it('gives coordinators of other programmes no say', () => {
+      expect(getVerificationActors(parties, { id: 'coordinator-2', role: 'COORDINATOR' })).toEqual([])
+      expect(getVerificationActors(parties, { id: 'lecturer-user-2', role: 'LECTURER' })).toEqual([])
+    })
+  })
+
+  describe('transitions', () => {
+    it('lets the lecturer confirm or dispute a pending request but not reject it', () => {
+      expect(getAllowedTransitions('pending', ['LECTURER'])).toEqual(['approved', 'disputed'])
+      expect(resolveTransitionActor('pending', 'rejected', ['LECTURER'])).toBeNull()
+    })
+
+    it('leaves disputes for coordinators to settle', () => {
+      expect(getAllowedTransitions('disputed', ['LECTURER'])).toEqual(['escalated'])
+      expect(getAllowedTransitions('disputed', ['COORDINATOR'])).toEqual(['approved', 'rejected', 'escalated'])
+      expect(getAllowedTransitions('escalated', ['REQUESTER'])).toEqual([])
+    })
+
+    it('treats settled requests as final', () => {
+      expect(getAllowedTransitions('approved', ['ADMIN'])).toEqual([])
+      expect(getAllowedTransitions('withdrawn', ['REQUESTER'])).toEqual([])
+      expect(getAllowedTransitions('unknown', ['ADMIN'])).toEqual([])
+    })
+
+    it('records the most authoritative permitted relation', () => {
+      expect(resolveTransitionActor('pending', 'escalated', ['REQUESTER', 'ADMIN'])).toBe('ADMIN')
+      expect(resolveTransitionActor('pending', 'withdrawn', ['REQUESTER', 'ADMIN'])).toBe('REQUESTER')
+    })
+  })
+
+  describe('SLA', () => {
+    const created = new Date('2026-10-19T08:00:00.000Z')
+
+    it('times requests by priority', () => {
+      expect(calculateSlaDueAt(created, 'urgent')).toEqual(new Date('2026-10-19T12:00:00.000Z'))
+      expect(calculateSlaDueAt(created, 'normal')).toEqual(new Date('2026-10-22T08:00:00.000Z'))
+      expect(calculateSlaDueAt(created, 'unexpected', { ...DEFAULT_VERIFICATION_SLA_HOURS, normal: 1 }))
+        .toEqual(new Date('2026-10-19T09:00:00.000Z'))
+    })
+
+    it('only counts open requests as breached', () => {
+      const slaDueAt = new Date('2026-10-19T12:00:00.000Z')
+      const later = new Date('2026-10-19T13:00:00.000Z')
+
+      expect(isSlaBreached({ status: 'pending', slaDueAt }, later)).toBe(true)
+      expect(isSlaBreached({ status: 'escalated', slaDueAt }, later)).toBe(true)
+      expect(isSlaBreached({ status: 'approved', slaDueAt }, later)).toBe(false)
+      expect(isSlaBreached({ status: 'pending', slaDueAt }, created)).toBe(false)
+      expect(isSlaBreached({ status: 'pending', slaDueAt: null }, later)).toBe(false)
+    })
+  })
+
+  it('reads evidence stored as a bare list or with student data', () => {
+    expect(parseVerificationEvidence('["/uploads/a.jpg"]')).toEqual({ urls: ['/uploads/a.jpg'], studentAttendanceData: null })
+    expect(parseVerificationEvidence(JSON.stringify({
+      urls: [],
+      studentAttendanceData: { totalStudentsPresent: 40, sessionQuality: 'good' }
+    }))).toEqual({ urls: [], studentAttendanceData: { totalStudentsPresent: 40, sessionQuality: 'good' } })
+    expect(parseVerificationEvidence(null)).toEqual({ urls: [], studentAttendanceData: null })
+  })
+})
@@ -0,0 +1,164 @@
+import {
+  evaluateVerificationRules,
+  getDefaultVerificationPolicy,
+  parsePolicyKey,
+  resolveVerificationPolicy,
+  RuleEvaluationRecord,
+  summarizeRuleResults,
+  toPolicyKey
+} from '../verification-rules'
+
+jest.mock('@/lib/db', () => ({
+  prisma: {}
+}))
+
+const onsiteRecord: RuleEvaluationRecord = {
+  method: 'onsite',
+  timestamp: new Date('2026-10-19T09:05:00.000Z'),
+  locationVerified: true,
+  locationDistance: 120,
+  geofenceType: 'building',
+  qrVerified: false,
+  meetingLinkVerified: false,
+  sessionStartTime: null,
+  sessionEndTime: null,
+  sessionDuration: null,
+  lateMinutes: 0,
+  supervisorVerified: true,
+  scheduledStart: new Date('2026-10-19T09:00:00.000Z'),
+  scheduledEnd: new Date('2026-10-19T11:00:00.000Z')
+}
+
+const virtualRecord: RuleEvaluationRecord = {
+  ...onsiteRecord,
+  method: 'virtual',
+  locationVerified: false,
+  locationDistance: null,
+  geofenceType: null,
+  meetingLinkVerified: true,
+  sessionStartTime: new Date('2026-10-19T09:00:00.000Z'),
+  sessionEndTime: new Date('2026-10-19T10:00:00.000Z'),
+  sessionDuration: 60
+}
+
+describe('Verification rules', () => {
+  describe('policy keys', () => {
+    it('round-trips scopes through setting keys', () => {
+      expect(toPolicyKey({ type: 'default', value: null })).toBe('default')
+      expect(toPolicyKey({ type: 'session_type', value: 'LAB' })).toBe('session_type:LAB')
+      expect(parsePolicyKey('programme:prog-1')).toEqual({ type: 'programme', value: 'prog-1' })
+      expect(parsePolicyKey('default')).toEqual({ type: 'default', value: null })
+    })
+
+    it('ignores keys that are not policy scopes', () => {
+      expect(parsePolicyKey('campus:main')).toBeNull()
+      expect(parsePolicyKey('programme:')).toBeNull()
+      expect(parsePolicyKey('late_grace_minutes')).toBeNull()
+    })
+  })
+
+  describe('resolveVerificationPolicy', () => {
+    const stored = [
+      { scope: { type: 'default' as const, value: null }, rules: { virtualTimeWindowMinutes: 60, maxLateMinutes: 30 } },
+      { scope: { type: 'programme' as const, value: 'prog-1' }, rules: { maxLateMinutes: 15, requireQrCheckIn: true } },
+      { scope: { type: 'session_type' as const, value: 'LAB' }, rules: { requireQrCheckIn: false } }
+    ]
+
+    it('uses the built-in defaults when nothing is saved', () => {
+      expect(resolveVerificationPolicy({ programmeId: 'prog-1' }, [])).toEqual({
+        policy: getDefaultVerificationPolicy(),
+        scopes: []
+      })
+    })
+
+    it('layers overrides from least to most specific', () => {
+      const { policy, scopes } = resolveVerificationPolicy(
+        { programmeId: 'prog-1', deliveryMode: 'ONLINE', sessionType: 'LAB' },
+        stored
+      )
+
+      expect(scopes).toEqual(['default', 'programme:prog-1', 'session_type:LAB'])
+      expect(policy.virtualTimeWindowMinutes).toBe(60)
+      expect(policy.maxLateMinutes).toBe(15)
+      expect(policy.requireQrCheckIn).toBe(false)
+      expect(policy.minimumSessionDurationPercentage).toBe(0.75)
+    })
+
+    it('skips overrides for other programmes', () => {
+      const { policy } = resolveVerificationPolicy({ programmeId: 'prog-2', sessionType: 'LECTURE' }, stored)
+      expect(policy.maxLateMinutes).toBe(30)
+      expect(policy.requireQrCheckIn).toBe(false)
+    })
+  })
+
+  describe('evaluateVerificationRules', () => {
+    const policy = getDefaultVerificationPolicy()
+
+    it('passes an onsite check-in confirmed by a supervisor', () => {
+      const results = evaluateVerificationRules(onsiteRecord, policy)
+
+      expect(results.map(result => result.rule)).toEqual(['location', 'supervisor'])
+      expect(summarizeRuleResults(results)).toBe(true)
+    })
+
+    it('applies the optional QR, lateness and check-out rules when the policy asks for them', () => {
+      const strict = { ...policy, requireQrCheckIn: true, maxLateMinutes: 10, requireCheckOut: true }
+      const results = evaluateVerificationRules(
+        { ...onsiteRecord, lateMinutes: 25 },
+        strict,
+        new Date('2026-10-19T12:00:00.000Z')
+      )
+
+      expect(results).toEqual(expect.arrayContaining([
+        expect.objectContaining({ rule: 'qr_check_in', passed: false }),
+        expect.objectContaining({ rule: 'punctuality', passed: false, detail: '25 min late (limit 10 min)' }),
+        expect.objectContaining({ rule: 'check_out', passed: false })
+      ]))
+      expect(summarizeRuleResults(results)).toBe(false)
+    })
+
+    it('keeps check-out pending until the class has ended', () => {
+      const results = evaluateVerificationRules(
+        onsiteRecord,
+        { ...policy, requireCheckOut: true },
+        new Date('2026-10-19T10:00:00.000Z')
+      )
+
+      expect(results.find(result => result.rule === 'check_out')?.passed).toBeNull()
+      expect(summarizeRuleResults(results)).toBeNull()
+    })
+
+    it('fails campus check-ins beyond the policy radius', () => {
+      const results = evaluateVerificationRules(
+        { ...onsiteRecord, geofenceType: 'campus', locationDistance: 280 },
+        { ...policy, geofenceRadiusMeters: 200 }
+      )
+
+      expect(results[0]).toEqual({ rule: 'location', passed: false, detail: '280m from the campus (limit 200m)' })
+    })
+
+    it('measures virtual sessions against the policy thresholds', () => {
+      const lenient = evaluateVerificationRules(virtualRecord, { ...policy, minimumSessionDurationPercentage: 0.5 })
+      const strict = evaluateVerificationRules(virtualRecord, policy)
+
+      expect(lenient.find(result => result.rule === 'session_duration')).toEqual({
+        rule: 'session_duration', passed: true, detail: '60 of 60 required minutes'
+      })
+      expect(strict.find(result => result.rule === 'session_duration')?.passed).toBe(false)
+    })
+
+    it('fails virtual sessions started outside the time window', () => {
+      const results = evaluateVerificationRules(
+        { ...virtualRecord, sessionStartTime: new Date('2026-10-19T07:30:00.000Z') },
+        { ...policy, virtualTimeWindowMinutes: 60 }
+      )
+
+      expect(results.find(result => result.rule === 'time_window')?.passed).toBe(false)
+    })
+
+    it('waits for supervisor review before passing a record', () => {
+      const results = evaluateVerificationRules({ ...onsiteRecord, supervisorVerified: null }, policy)
+      expect(summarizeRuleResults(results)).toBeNull()
+    })
+  })
+})
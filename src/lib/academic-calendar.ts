@@ -0,0 +1,179 @@
+import { prisma } from '@/lib/db'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type CalendarEventType = 'holiday' | 'exam_period' | 'reading_week'
+
+export const CALENDAR_EVENT_TYPES: CalendarEventType[] = ['holiday', 'exam_period', 'reading_week']
+
+export interface SemesterInfo {
+  id: string
+  academicYearId: string
+  name: string
+  startDate: Date
+  endDate: Date
+  teachingWeeks?: number | null
+}
+
+export interface CalendarEventInfo {
+  id: string
+  semesterId?: string | null
+  type: string
+  name: string
+  startDate: Date
+  endDate: Date
+}
+
+export interface AcademicCalendar {
+  semesters: SemesterInfo[]
+  events: CalendarEventInfo[]
+  // False when the institution has not set up any semesters yet
+  configured?: boolean
+}
+
+export interface CalendarDayStatus {
+  date: string // YYYY-MM-DD
+  teaching: boolean
+  reason?: 'holiday' | 'exam_period' | 'reading_week' | 'outside_semester'
+  event?: CalendarEventInfo
+  semester?: SemesterInfo
+  teachingWeek?: number | null
+}
+
+// Calendar days are compared in UTC, which matches local time in Ghana
+export function toDateKey(date: Date): string {
+  return date.toISOString().split('T')[0]
+}
+
+function dayIndex(date: Date): number {
+  return Math.floor(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()) / DAY_MS)
+}
+
+function coversDay(start: Date, end: Date, date: Date): boolean {
+  const day = dayIndex(date)
+  return day >= dayIndex(start) && day <= dayIndex(end)
+}
+
+export function findSemesterForDate(date: Date, calendar: AcademicCalendar): SemesterInfo | undefined {
+  return calendar.semesters.find(semester => coversDay(semester.startDate, semester.endDate, date))
+}
+
+/**
+ * Teaching week of a date within its semester. Reading weeks that finished
+ * before the date are not counted, so week numbering resumes where it left off.
+ */
+export function getTeachingWeek(date: Date, semester: SemesterInfo, events: CalendarEventInfo[] = []): number | null {
+  if (!coversDay(semester.startDate, semester.endDate, date)) {
+    return null
+  }
+
+  const calendarWeek = Math.floor((dayIndex(date) - dayIndex(semester.startDate)) / 7) + 1
+
+  const skippedWeeks = events
+    .filter(event =>
+      event.type === 'reading_week' &&
+      dayIndex(event.endDate) < dayIndex(date) &&
+      coversDay(semester.startDate, semester.endDate, event.startDate)
+    )
+    .reduce((total, event) => total + Math.ceil((dayIndex(event.endDate) - dayIndex(event.startDate) + 1) / 7), 0)
+
+  return Math.max(1, calendarWeek - skippedWeeks)
+}
+
+/**
+ * Decide whether classes run on a date. When no semesters are configured the
+ * calendar is considered open so existing deployments keep their behaviour.
+ */
+export function getDayStatus(date: Date, calendar: AcademicCalendar): CalendarDayStatus {
+  const key = toDateKey(date)
+  const event = calendar.events.find(e => coversDay(e.startDate, e.endDate, date))
+
+  if (event && CALENDAR_EVENT_TYPES.includes(event.type as CalendarEventType)) {
+    return {
+      date: key,
+      teaching: false,
+      reason: event.type as CalendarDayStatus['reason'],
+      event,
+      semester: findSemesterForDate(date, calendar)
+    }
+  }
+
+  const configured = calendar.configured ?? calendar.semesters.length > 0
+  if (!configured) {
+    return { date: key, teaching: true, teachingWeek: null }
+  }
+
+  const semester = findSemesterForDate(date, calendar)
+  if (!semester) {
+    return { date: key, teaching: false, reason: 'outside_semester' }
+  }
+
+  return {
+    date: key,
+    teaching: true,
+    semester,
+    teachingWeek: getTeachingWeek(date, semester, calendar.events)
+  }
+}
+
+/**
+ * Count the dates between start and end (inclusive) that fall on dayOfWeek
+ * (0-6, Sunday-Saturday) and are teaching days.
+ */
+export function countTeachingOccurrences(dayOfWeek: number, start: Date, end: Date, calendar: AcademicCalendar): number {
+  const first = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate()))
+  first.setUTCDate(first.getUTCDate() + ((dayOfWeek - first.getUTCDay() + 7) % 7))
+
+  let count = 0
+  for (let cursor = first; cursor.getTime() <= end.getTime(); cursor = new Date(cursor.getTime() + 7 * DAY_MS)) {
+    if (getDayStatus(cursor, calendar).teaching) {
+      count++
+    }
+  }
+
+  return count
+}
+
+export function describeDayStatus(status: CalendarDayStatus): string | null {
+  if (status.teaching) {
+    return null
+  }
+
+  switch (status.reason) {
+    case 'holiday':
+      return `Public holiday: ${status.event?.name}`
+    case 'exam_period':
+      return `Examination period: ${status.event?.name}`
+    case 'reading_week':
+      return `Reading week: ${status.event?.name}`
+    case 'outside_semester':
+      return 'Outside the teaching semester'
+    default:
+      return null
+  }
+}
+
+/**
+ * Load the semesters and calendar events overlapping a date range
+ */
+export async function loadAcademicCalendar(start: Date, end: Date): Promise<AcademicCalendar> {
+  const rangeStart = new Date(dayIndex(start) * DAY_MS)
+  const rangeEnd = new Date((dayIndex(end) + 1) * DAY_MS - 1)
+  const overlap = {
+    startDate: { lte: rangeEnd },
+    endDate: { gte: rangeStart }
+  }
+
+  const [semesters, events, semesterCount] = await Promise.all([
+    prisma.semester.findMany({ where: overlap, orderBy: { startDate: 'asc' } }),
+    prisma.academicCalendarEvent.findMany({ where: overlap, orderBy: { startDate: 'asc' } }),
+    prisma.semester.count()
+  ])
+
+  return { semesters, events, configured: semesterCount > 0 }
+}
+
+export async function getAcademicDayStatus(date: Date = new Date()): Promise<CalendarDayStatus> {
+  const calendar = await loadAcademicCalendar(date, date)
+  return getDayStatus(date, calendar)
+}
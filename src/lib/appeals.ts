@@ -0,0 +1,132 @@
+import { prisma } from '@/lib/db'
+import { ATTENDANCE_LOCKED_ERROR } from '@/lib/claims'
+import { applyVerificationRules } from '@/lib/verification-rules'
+
+export type AppealStatus = 'pending' | 'accepted' | 'rejected' | 'withdrawn'
+
+export type AppealDecision = 'accept' | 'reject'
+
+// Lecturers have this long after the class to contest a rejection
+export const APPEAL_WINDOW_DAYS = 30
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface AppealableRecord {
+  timestamp: Date
+  supervisorVerified: boolean | null
+  lockedAt: Date | null
+  appeals: { status: string }[]
+}
+
+/**
+ * Why a record cannot be appealed, or null when it can. Only rejected records
+ * are appealable, once each: a withdrawn appeal can be lodged again, but an
+ * open or decided one cannot.
+ */
+export function getAppealBlocker(record: AppealableRecord, now: Date = new Date()): string | null {
+  if (record.supervisorVerified !== false) {
+    return 'Only attendance that has been marked unverified can be appealed'
+  }
+
+  if (record.lockedAt) {
+    return ATTENDANCE_LOCKED_ERROR
+  }
+
+  if (record.appeals.some(appeal => appeal.status === 'pending')) {
+    return 'An appeal for this attendance record is already awaiting a decision'
+  }
+
+  if (record.appeals.some(appeal => appeal.status === 'accepted' || appeal.status === 'rejected')) {
+    return 'This attendance record has already been appealed'
+  }
+
+  if (now.getTime() - record.timestamp.getTime() > APPEAL_WINDOW_DAYS * DAY_MS) {
+    return `Appeals must be lodged within ${APPEAL_WINDOW_DAYS} days of the class`
+  }
+
+  return null
+}
+
+export function parseAppealEvidence(evidence: string | null): string[] {
+  if (!evidence) {
+    return []
+  }
+
+  try {
+    const urls = JSON.parse(evidence)
+    return Array.isArray(urls) ? urls : []
+  } catch {
+    return []
+  }
+}
+
+// The verification written back to the attendance record once the coordinator decides
+export function getAppealOutcome(decision: AppealDecision, comment: string) {
+  return decision === 'accept'
+    ? { status: 'accepted' as const, supervisorVerified: true, supervisorComment: `Appeal upheld: ${comment}` }
+    : { status: 'rejected' as const, supervisorVerified: false, supervisorComment: `Appeal dismissed: ${comment}` }
+}
+
+/**
+ * Record a coordinator's decision on an appeal and write the outcome back to
+ * the attendance record, so claims and reports use the final verification.
+ */
+export async function decideAppeal(
+  appealId: string,
+  decision: AppealDecision,
+  decidedBy: string,
+  comment: string
+) {
+  const appeal = await prisma.attendanceAppeal.findUnique({
+    where: { id: appealId },
+    include: { attendanceRecord: true }
+  })
+
+  if (!appeal) {
+    return { error: 'Appeal not found', status: 404 }
+  }
+
+  if (appeal.status !== 'pending') {
+    return { error: `Appeal has already been ${appeal.status}`, status: 400 }
+  }
+
+  if (appeal.attendanceRecord.lockedAt) {
+    return { error: ATTENDANCE_LOCKED_ERROR, status: 400 }
+  }
+
+  const outcome = getAppealOutcome(decision, comment)
+
+  const updated = await prisma.$transaction(async (tx) => {
+    await tx.attendanceRecord.update({
+      where: { id: appeal.attendanceRecordId },
+      data: {
+        supervisorVerified: outcome.supervisorVerified,
+        supervisorComment: outcome.supervisorComment
+      }
+    })
+
+    return tx.attendanceAppeal.update({
+      where: { id: appealId },
+      data: {
+        status: outcome.status,
+        decidedBy,
+        decidedAt: new Date(),
+        decisionComment: comment
+      }
+    })
+  })
+
+  try {
+    await applyVerificationRules(appeal.attendanceRecordId)
+  } catch (error) {
+    console.error('Error applying verification rules after appeal decision:', error)
+  }
+
+  return {
+    appeal: updated,
+    previous: {
+      supervisorVerified: appeal.attendanceRecord.supervisorVerified,
+      supervisorComment: appeal.attendanceRecord.supervisorComment
+    }
+  }
+}
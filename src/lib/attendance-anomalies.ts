@@ -0,0 +1,289 @@
+import { prisma } from '@/lib/db'
+import { getDistance } from '@/lib/geolocation'
+import { toDateKey } from '@/lib/academic-calendar'
+import { notifyAttendanceAnomaly } from '@/lib/notifications'
+
+export type AttendanceAnomalyType =
+  | 'perfect_accuracy'
+  | 'reused_coordinates'
+  | 'impossible_travel'
+  | 'fingerprint_change'
+  | 'shared_device'
+
+export interface AttendanceAnomaly {
+  type: AttendanceAnomalyType
+  weight: number
+  message: string
+  relatedRecordId?: string
+}
+
+export interface AnomalyCheckRecord {
+  id: string
+  lecturerId: string
+  timestamp: Date
+  gpsLatitude: number | null
+  gpsLongitude: number | null
+  locationAccuracy: number | null
+  deviceFingerprint: string | null
+}
+
+export interface AnomalyHistory {
+  // The same lecturer's other check-ins in the look-back window
+  lecturerRecords: AnomalyCheckRecord[]
+  // Other lecturers' check-ins from the same device fingerprint in the window
+  deviceRecords: AnomalyCheckRecord[]
+}
+
+// Contribution of each finding to the 0-100 risk score
+export const ANOMALY_WEIGHTS: Record<AttendanceAnomalyType, number> = {
+  perfect_accuracy: 25,
+  reused_coordinates: 35,
+  impossible_travel: 45,
+  fingerprint_change: 15,
+  shared_device: 35
+}
+
+export const ANOMALY_LOOKBACK_DAYS = 30
+
+// Risk at or above which supervisors are alerted
+export const ANOMALY_NOTIFY_THRESHOLD = 30
+
+// Phone GPS fixes are rarely better than a few metres; mock-location apps often report 0 or 1
+const PERFECT_ACCURACY_METRES = 1
+
+// Faster than a car across Accra traffic; short hops are ignored as GPS noise
+const MAX_TRAVEL_SPEED_KMH = 120
+const MIN_TRAVEL_DISTANCE_METRES = 1000
+
+// Lecturers (including the current one) seen on one device before it looks shared
+const SHARED_DEVICE_LECTURER_THRESHOLD = 3
+
+function hasCoordinates(record: AnomalyCheckRecord): record is AnomalyCheckRecord & { gpsLatitude: number; gpsLongitude: number } {
+  return record.gpsLatitude !== null && record.gpsLongitude !== null
+}
+
+function sameCoordinates(a: { gpsLatitude: number; gpsLongitude: number }, b: { gpsLatitude: number; gpsLongitude: number }) {
+  // Six decimal places is ~10cm; a real receiver never lands on the same point twice
+  return a.gpsLatitude.toFixed(6) === b.gpsLatitude.toFixed(6) &&
+    a.gpsLongitude.toFixed(6) === b.gpsLongitude.toFixed(6)
+}
+
+/**
+ * Run every check against one check-in. History records are expected to
+ * exclude the record itself.
+ */
+export function detectAttendanceAnomalies(record: AnomalyCheckRecord, history: AnomalyHistory): AttendanceAnomaly[] {
+  const anomalies: AttendanceAnomaly[] = []
+
+  if (record.locationAccuracy !== null && hasCoordinates(record) && record.locationAccuracy <= PERFECT_ACCURACY_METRES) {
+    anomalies.push({
+      type: 'perfect_accuracy',
+      weight: ANOMALY_WEIGHTS.perfect_accuracy,
+      message: `Reported GPS accuracy of ${record.locationAccuracy}m is implausibly precise`
+    })
+  }
+
+  if (hasCoordinates(record)) {
+    const recordDay = toDateKey(record.timestamp)
+    const reused = history.lecturerRecords.find(other =>
+      hasCoordinates(other) && toDateKey(other.timestamp) !== recordDay && sameCoordinates(record, other)
+    )
+
+    if (reused) {
+      anomalies.push({
+        type: 'reused_coordinates',
+        weight: ANOMALY_WEIGHTS.reused_coordinates,
+        message: `Identical coordinates were used on ${toDateKey(reused.timestamp)}`,
+        relatedRecordId: reused.id
+      })
+    }
+
+    // Compare against the nearest located check-ins either side in time
+    const located = history.lecturerRecords.filter(hasCoordinates)
+    const previous = located
+      .filter(other => other.timestamp <= record.timestamp)
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())[0]
+    const next = located
+      .filter(other => other.timestamp > record.timestamp)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())[0]
+
+    for (const neighbour of [previous, next]) {
+      if (!neighbour) continue
+
+      const distance = getDistance(
+        { latitude: record.gpsLatitude, longitude: record.gpsLongitude },
+        { latitude: neighbour.gpsLatitude, longitude: neighbour.gpsLongitude }
+      )
+      if (distance < MIN_TRAVEL_DISTANCE_METRES) continue
+
+      const hours = Math.abs(record.timestamp.getTime() - neighbour.timestamp.getTime()) / 3600000
+      const speed = hours > 0 ? (distance / 1000) / hours : Infinity
+
+      if (speed > MAX_TRAVEL_SPEED_KMH) {
+        anomalies.push({
+          type: 'impossible_travel',
+          weight: ANOMALY_WEIGHTS.impossible_travel,
+          message: `${(distance / 1000).toFixed(1)}km from another check-in ${Math.round(hours * 60)} minutes apart`,
+          relatedRecordId: neighbour.id
+        })
+        break
+      }
+    }
+  }
+
+  if (record.deviceFingerprint) {
+    const fingerprinted = history.lecturerRecords.filter(other => other.deviceFingerprint)
+    const knownDevice = fingerprinted.some(other => other.deviceFingerprint === record.deviceFingerprint)
+
+    if (fingerprinted.length > 0 && !knownDevice) {
+      const latest = [...fingerprinted].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())[0]
+      anomalies.push({
+        type: 'fingerprint_change',
+        weight: ANOMALY_WEIGHTS.fingerprint_change,
+        message: 'Check-in came from a device not seen for this lecturer before',
+        relatedRecordId: latest.id
+      })
+    }
+
+    const otherLecturers = new Set(
+      history.deviceRecords
+        .filter(other => other.deviceFingerprint === record.deviceFingerprint && other.lecturerId !== record.lecturerId)
+        .map(other => other.lecturerId)
+    )
+
+    if (otherLecturers.size + 1 >= SHARED_DEVICE_LECTURER_THRESHOLD) {
+      anomalies.push({
+        type: 'shared_device',
+        weight: ANOMALY_WEIGHTS.shared_device,
+        message: `The same device checked in ${otherLecturers.size + 1} different lecturers`
+      })
+    }
+  }
+
+  return anomalies
+}
+
+export function calculateAnomalyRiskScore(anomalies: AttendanceAnomaly[]): number {
+  return Math.min(100, anomalies.reduce((total, anomaly) => total + anomaly.weight, 0))
+}
+
+const NOTIFICATION_TYPES: Record<AttendanceAnomalyType, 'gps_spoofing' | 'impossible_travel' | 'device_anomaly'> = {
+  perfect_accuracy: 'gps_spoofing',
+  reused_coordinates: 'gps_spoofing',
+  impossible_travel: 'impossible_travel',
+  fingerprint_change: 'device_anomaly',
+  shared_device: 'device_anomaly'
+}
+
+const checkRecordSelect = {
+  id: true,
+  lecturerId: true,
+  timestamp: true,
+  gpsLatitude: true,
+  gpsLongitude: true,
+  locationAccuracy: true,
+  deviceFingerprint: true
+} as const
+
+/**
+ * Analyse a stored check-in, save its risk score in verificationConfidenceScore
+ * and alert supervisors when the score crosses the notification threshold.
+ */
+export async function analyzeAttendanceRecord(recordId: string) {
+  const record = await prisma.attendanceRecord.findUnique({
+    where: { id: recordId },
+    include: {
+      lecturer: {
+        select: { userId: true }
+      },
+      courseSchedule: {
+        include: { course: true }
+      }
+    }
+  })
+
+  if (!record) {
+    return null
+  }
+
+  const windowStart = new Date(record.timestamp.getTime() - ANOMALY_LOOKBACK_DAYS * 24 * 60 * 60 * 1000)
+  const windowEnd = new Date(record.timestamp.getTime() + ANOMALY_LOOKBACK_DAYS * 24 * 60 * 60 * 1000)
+
+  const [lecturerRecords, deviceRecords] = await Promise.all([
+    prisma.attendanceRecord.findMany({
+      where: {
+        lecturerId: record.lecturerId,
+        id: { not: record.id },
+        timestamp: { gte: windowStart, lte: windowEnd }
+      },
+      select: checkRecordSelect
+    }),
+    record.deviceFingerprint
+      ? prisma.attendanceRecord.findMany({
+          where: {
+            deviceFingerprint: record.deviceFingerprint,
+            lecturerId: { not: record.lecturerId },
+            timestamp: { gte: windowStart, lte: windowEnd }
+          },
+          select: checkRecordSelect
+        })
+      : Promise.resolve([])
+  ])
+
+  const anomalies = detectAttendanceAnomalies(record, { lecturerRecords, deviceRecords })
+  const riskScore = calculateAnomalyRiskScore(anomalies)
+
+  await prisma.attendanceRecord.update({
+    where: { id: record.id },
+    data: { verificationConfidenceScore: riskScore }
+  })
+
+  if (anomalies.length > 0) {
+    await prisma.auditLog.create({
+      data: {
+        userId: record.lecturer.userId,
+        action: 'ATTENDANCE_ANOMALY_DETECTED',
+        targetType: 'AttendanceRecord',
+        targetId: record.id,
+        metadata: JSON.stringify({
+          lecturerId: record.lecturerId,
+          riskScore,
+          anomalies
+        }),
+        // Audit risk is on a 0-10 scale
+        riskScore: riskScore / 10
+      }
+    })
+  }
+
+  if (riskScore >= ANOMALY_NOTIFY_THRESHOLD) {
+    // Virtual check-ins are reviewed by online supervisors, the rest by roaming supervisors
+    const supervisors = await prisma.user.findMany({
+      where: {
+        role: record.method === 'virtual' ? 'ONLINE_SUPERVISOR' : 'SUPERVISOR',
+        isActive: true
+      },
+      select: { id: true }
+    })
+
+    const primary = [...anomalies].sort((a, b) => b.weight - a.weight)[0]
+    const details = `Risk score ${riskScore}/100: ${anomalies.map(anomaly => anomaly.message).join('; ')}.`
+
+    for (const supervisor of supervisors) {
+      try {
+        await notifyAttendanceAnomaly({
+          recipientId: supervisor.id,
+          lecturerId: record.lecturerId,
+          courseName: record.courseSchedule.course.title,
+          anomalyType: NOTIFICATION_TYPES[primary.type],
+          details,
+          attendanceRecordId: record.id
+        })
+      } catch (error) {
+        console.error('Error notifying supervisor of attendance anomaly:', error)
+      }
+    }
+  }
+
+  return { riskScore, anomalies }
+}
@@ -0,0 +1,125 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+import { toDateKey } from '@/lib/academic-calendar'
+
+// Class reps' screens show a new code every rotation; a scanned code is accepted for one extra rotation
+export const QR_TOKEN_ROTATION_SECONDS = 30
+export const QR_TOKEN_MAX_AGE_SECONDS = QR_TOKEN_ROTATION_SECONDS * 2
+
+// Tolerate small clock differences between the class rep's request and the lecturer's scan
+const CLOCK_SKEW_MS = 5000
+
+export interface AttendanceQrPayload {
+  scheduleId: string
+  classSessionId: string
+  date: string // YYYY-MM-DD
+  issuedAt: number // epoch ms
+  nonce: string
+}
+
+export interface AttendanceQrToken {
+  token: string
+  nonce: string
+  issuedAt: Date
+  expiresAt: Date
+}
+
+export type AttendanceQrVerification =
+  | { valid: true; payload: AttendanceQrPayload }
+  | { valid: false; error: string }
+
+function getQrSecret(): string {
+  const secret = process.env.ATTENDANCE_QR_SECRET || process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new Error('ATTENDANCE_QR_SECRET or NEXTAUTH_SECRET must be set to sign attendance QR codes')
+  }
+  return secret
+}
+
+function sign(encodedPayload: string): Buffer {
+  return createHmac('sha256', getQrSecret()).update(encodedPayload).digest()
+}
+
+/**
+ * Issue a signed token bound to one class session. Tokens are kept short so
+ * the QR code stays readable from across a lecture room.
+ */
+export function createAttendanceQrToken(
+  session: { scheduleId: string; classSessionId: string; date: Date },
+  now: Date = new Date()
+): AttendanceQrToken {
+  const nonce = randomBytes(12).toString('base64url')
+  const payload = {
+    s: session.scheduleId,
+    c: session.classSessionId,
+    d: toDateKey(session.date),
+    t: now.getTime(),
+    n: nonce
+  }
+
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url')
+  const signature = sign(encodedPayload).toString('base64url')
+
+  return {
+    token: `${encodedPayload}.${signature}`,
+    nonce,
+    issuedAt: now,
+    expiresAt: new Date(now.getTime() + QR_TOKEN_ROTATION_SECONDS * 1000)
+  }
+}
+
+/**
+ * Check a scanned token's signature, that it belongs to the session being
+ * recorded and that it is still fresh. Replay is checked by the caller
+ * against the nonces already stored on attendance records.
+ */
+export function verifyAttendanceQrToken(
+  token: string,
+  expected: { scheduleId: string; classSessionId: string },
+  now: Date = new Date()
+): AttendanceQrVerification {
+  const [encodedPayload, encodedSignature, extra] = token.trim().split('.')
+  if (!encodedPayload || !encodedSignature || extra !== undefined) {
+    return { valid: false, error: 'Invalid QR code' }
+  }
+
+  const expectedSignature = sign(encodedPayload)
+  const signature = Buffer.from(encodedSignature, 'base64url')
+  if (signature.length !== expectedSignature.length || !timingSafeEqual(signature, expectedSignature)) {
+    return { valid: false, error: 'QR code signature is invalid' }
+  }
+
+  let raw: { s?: unknown; c?: unknown; d?: unknown; t?: unknown; n?: unknown }
+  try {
+    raw = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'))
+  } catch {
+    return { valid: false, error: 'Invalid QR code' }
+  }
+
+  if (typeof raw.s !== 'string' || typeof raw.c !== 'string' || typeof raw.d !== 'string' ||
+      typeof raw.t !== 'number' || typeof raw.n !== 'string') {
+    return { valid: false, error: 'Invalid QR code' }
+  }
+
+  const payload: AttendanceQrPayload = {
+    scheduleId: raw.s,
+    classSessionId: raw.c,
+    date: raw.d,
+    issuedAt: raw.t,
+    nonce: raw.n
+  }
+
+  if (payload.scheduleId !== expected.scheduleId || payload.classSessionId !== expected.classSessionId) {
+    return { valid: false, error: 'QR code is for a different class' }
+  }
+
+  if (payload.date !== toDateKey(now)) {
+    return { valid: false, error: 'QR code is not for today\'s class' }
+  }
+
+  const age = now.getTime() - payload.issuedAt
+  if (age < -CLOCK_SKEW_MS || age > QR_TOKEN_MAX_AGE_SECONDS * 1000) {
+    return { valid: false, error: 'QR code has expired. Scan the code currently shown by the class rep' }
+  }
+
+  return { valid: true, payload }
+}
@@ -12,6 +12,22 @@ export interface AuditLogData {
   userAgent?: string
   sessionId?: string
   riskScore?: number
+  impersonatorId?: string | null
+}
+
+// The signed-in user behind an audit entry, as found on the session
+export interface AuditActor {
+  id: string
+  impersonatorId?: string | null
+}
+
+/**
+ * The userId and impersonatorId of an audit entry, to spread into its data.
+ * While an admin is viewing as someone, entries are written as that user and
+ * record the admin alongside.
+ */
+export function auditActor(actor: AuditActor) {
+  return { userId: actor.id, impersonatorId: actor.impersonatorId ?? null }
 }
 
 export interface AuditLogFilter {
@@ -58,7 +74,8 @@ export class AuditService {
           userAgent: data.userAgent,
           sessionId: data.sessionId,
           riskScore,
-          dataHash
+          dataHash,
+          impersonatorId: data.impersonatorId
         }
       })
     } catch (error) {
@@ -120,10 +137,20 @@ export class AuditService {
       prisma.auditLog.count({ where })
     ])
 
+    // Admins who were viewing as the user when the entry was written
+    const impersonatorIds = Array.from(new Set(logs.map(log => log.impersonatorId).filter((id): id is string => Boolean(id))))
+    const impersonators = impersonatorIds.length > 0
+      ? await prisma.user.findMany({
+          where: { id: { in: impersonatorIds } },
+          select: { id: true, firstName: true, lastName: true, email: true }
+        })
+      : []
+
     return {
       logs: logs.map(log => ({
         ...log,
-        metadata: log.metadata ? JSON.parse(log.metadata) : null
+        metadata: log.metadata ? JSON.parse(log.metadata) : null,
+        impersonator: impersonators.find(user => user.id === log.impersonatorId) ?? null
       })),
       total,
       hasMore: offset + limit < total
@@ -245,7 +272,7 @@ export class AuditService {
     }
     
     // CSV format
-    const headers = ['ID', 'User ID', 'User Name', 'Action', 'Target Type', 'Target ID', 'Timestamp', 'Risk Score', 'IP Address']
+    const headers = ['ID', 'User ID', 'User Name', 'Action', 'Target Type', 'Target ID', 'Timestamp', 'Risk Score', 'IP Address', 'Impersonated By']
     const rows = logs.map(log => [
       log.id,
       log.userId,
@@ -255,7 +282,8 @@ export class AuditService {
       log.targetId,
       log.timestamp.toISOString(),
       log.riskScore || 0,
-      log.ipAddress || ''
+      log.ipAddress || '',
+      log.impersonator?.email || log.impersonatorId || ''
     ])
     
     return [headers, ...rows].map(row => row.join(',')).join('\n')
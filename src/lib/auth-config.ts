@@ -1,10 +1,139 @@
-import NextAuth, { NextAuthOptions } from 'next-auth'
+import NextAuth, { NextAuthOptions, getServerSession } from 'next-auth'
 import CredentialsProvider from 'next-auth/providers/credentials'
+import type { Provider } from 'next-auth/providers/index'
 import { prisma } from '@/lib/db'
 import { verifyPassword } from '@/lib/auth'
+import { needsTwoFactorSetup, getEnabledTwoFactor, verifySecondFactor, TWO_FACTOR_INVALID, TWO_FACTOR_REQUIRED } from '@/lib/two-factor'
+import { checkLoginAllowed, clientIpAddress, recordLoginAttempt, ACCOUNT_LOCKED, TOO_MANY_ATTEMPTS } from '@/lib/login-security'
+import {
+  clearPendingSsoLogin,
+  getOidcConfig,
+  getPendingSsoLogin,
+  isPasswordLoginDisabled,
+  setPendingSsoLogin,
+  signInWithDirectory,
+  ssoNeedsTwoFactorSetup,
+  SSO_REQUIRED
+} from '@/lib/sso'
+import { isTokenForSession, redeemImpersonationToken, ImpersonationTokenPayload } from '@/lib/impersonation'
 import { UserRole } from '@prisma/client'
 import jwt from 'jsonwebtoken'
 
+// University directory sign-in, enabled by the SSO_OIDC_* and SSO_SAML_* environment variables
+function directoryProviders(): Provider[] {
+  const providers: Provider[] = []
+  const oidc = getOidcConfig()
+
+  if (oidc) {
+    providers.push({
+      id: 'oidc',
+      name: oidc.name,
+      type: 'oauth',
+      wellKnown: `${oidc.issuer}/.well-known/openid-configuration`,
+      clientId: oidc.clientId,
+      clientSecret: oidc.clientSecret,
+      idToken: true,
+      checks: ['pkce', 'state'],
+      authorization: { params: { scope: 'openid email profile' } },
+      // Accounts are matched by email and created on first sign-in; the signIn
+      // callback hands the user to the 'sso' provider rather than signing in here
+      async profile(profile) {
+        const result = await signInWithDirectory(profile, 'oidc')
+        if ('error' in result) {
+          throw new Error(result.error)
+        }
+        return result.user
+      }
+    })
+  }
+
+  // Finishes every directory sign-in. OIDC (via the signIn callback) and the
+  // SAML assertion consumer leave the verified user in a short-lived cookie;
+  // from there the account gets the same lockout and two-factor checks as a
+  // password sign-in.
+  providers.push(CredentialsProvider({
+    id: 'sso',
+    name: 'Single sign-on',
+    credentials: {
+      code: { label: 'Verification code', type: 'text' }
+    },
+    async authorize(credentials, req) {
+      const userId = await getPendingSsoLogin()
+      if (!userId) return null
+
+      const headers = new Headers(req?.headers ?? {})
+
+      try {
+        const user = await prisma.user.findUnique({
+          where: { id: userId },
+          include: {
+            lecturer: true,
+            twoFactorAuth: { select: { enabledAt: true } }
+          }
+        })
+
+        if (!user) {
+          await clearPendingSsoLogin()
+          return null
+        }
+
+        const attempt = {
+          email: user.email,
+          userId: user.id,
+          ipAddress: clientIpAddress(headers),
+          userAgent: headers.get('user-agent')
+        }
+
+        const check = await checkLoginAllowed(user.email, attempt.ipAddress, user.lockedUntil)
+        if (!check.allowed) {
+          await recordLoginAttempt(attempt, check.reason)
+          await clearPendingSsoLogin()
+          throw new Error(check.reason === 'locked' ? ACCOUNT_LOCKED : TOO_MANY_ATTEMPTS)
+        }
+
+        if (!user.isActive) {
+          await recordLoginAttempt(attempt, 'inactive')
+          await clearPendingSsoLogin()
+          return null
+        }
+
+        // /auth/sso asks for the code and retries while the cookie is still valid
+        if (await getEnabledTwoFactor(user.id)) {
+          if (!credentials?.code) {
+            throw new Error(TWO_FACTOR_REQUIRED)
+          }
+          if (!(await verifySecondFactor(user.id, credentials.code))) {
+            await recordLoginAttempt(attempt, 'invalid_code')
+            throw new Error(TWO_FACTOR_INVALID)
+          }
+        }
+
+        await clearPendingSsoLogin()
+        await recordLoginAttempt(attempt, 'success')
+
+        return {
+          id: user.id,
+          email: user.email,
+          name: `${user.firstName} ${user.lastName}`,
+          role: user.role,
+          lecturerId: user.lecturer?.id,
+          // The directory owns the password for these accounts
+          mustChangePassword: false,
+          twoFactorSetupRequired: await ssoNeedsTwoFactorSetup(user.role, user.twoFactorAuth)
+        }
+      } catch (error) {
+        if (error instanceof Error && [TWO_FACTOR_REQUIRED, TWO_FACTOR_INVALID, ACCOUNT_LOCKED, TOO_MANY_ATTEMPTS].includes(error.message)) {
+          throw error
+        }
+        console.error('SSO auth error:', error)
+        return null
+      }
+    }
+  }))
+
+  return providers
+}
+
 export const authOptions: NextAuthOptions = {
   secret: process.env.NEXTAUTH_SECRET,
   providers: [
@@ -24,18 +153,30 @@ export const authOptions: NextAuthOptions = {
             return null
           }
 
-          const payload = jwt.verify(credentials.token, secret) as any
+          const payload = jwt.verify(credentials.token, secret) as ImpersonationTokenPayload
           console.log("Impersonation token verified for user:", payload.targetUserId)
           
-          if (payload.type !== 'impersonation' || !payload.targetUserId) {
+          // 'impersonation' starts viewing as the target; 'impersonation_end' signs the admin back in
+          if (!['impersonation', 'impersonation_end'].includes(payload.type) || !payload.targetUserId) {
             console.error("Invalid impersonation payload", payload)
             return null
           }
 
+          // Only the session the token was issued to may use it, and only once
+          if (!isTokenForSession(payload, (await getServerSession(authOptions))?.user)) {
+            console.error("Impersonation token presented by a different session")
+            return null
+          }
+          if (!(await redeemImpersonationToken(payload))) {
+            console.error("Impersonation token already used")
+            return null
+          }
+
           const user = await prisma.user.findUnique({
             where: { id: payload.targetUserId },
             include: {
-              lecturer: true
+              lecturer: true,
+              twoFactorAuth: { select: { enabledAt: true } }
             }
           })
 
@@ -44,12 +185,26 @@ export const authOptions: NextAuthOptions = {
             return null
           }
 
+          if (payload.type === 'impersonation_end') {
+            return {
+              id: user.id,
+              email: user.email,
+              name: `${user.firstName} ${user.lastName}`,
+              role: user.role,
+              lecturerId: user.lecturer?.id,
+              mustChangePassword: user.mustChangePassword,
+              twoFactorSetupRequired: await needsTwoFactorSetup(user.role, user.twoFactorAuth)
+            }
+          }
+
           return {
             id: user.id,
             email: user.email,
             name: `${user.firstName} ${user.lastName}`,
             role: user.role,
-            lecturerId: user.lecturer?.id
+            lecturerId: user.lecturer?.id,
+            impersonatorId: payload.initiatorId,
+            impersonatorName: payload.initiatorName
           }
         } catch (error) {
           console.error('Impersonation auth error:', error)
@@ -62,22 +217,44 @@ export const authOptions: NextAuthOptions = {
       name: 'credentials',
       credentials: {
         email: { label: 'Email', type: 'email' },
-        password: { label: 'Password', type: 'password' }
+        password: { label: 'Password', type: 'password' },
+        code: { label: 'Verification code', type: 'text' }
       },
-      async authorize(credentials) {
+      async authorize(credentials, req) {
         if (!credentials?.email || !credentials?.password) {
           return null
         }
 
+        const headers = new Headers(req?.headers ?? {})
+        const attempt = {
+          email: credentials.email,
+          ipAddress: clientIpAddress(headers),
+          userAgent: headers.get('user-agent')
+        }
+
         try {
+          // Domains that sign in through the directory cannot use local passwords
+          if (await isPasswordLoginDisabled(credentials.email)) {
+            throw new Error(SSO_REQUIRED)
+          }
+
           const user = await prisma.user.findUnique({
             where: { email: credentials.email },
             include: {
-              lecturer: true
+              lecturer: true,
+              twoFactorAuth: { select: { enabledAt: true } }
             }
           })
 
+          // Throttled and locked sign-ins are refused before the password is looked at
+          const check = await checkLoginAllowed(credentials.email, attempt.ipAddress, user?.lockedUntil ?? null)
+          if (!check.allowed) {
+            await recordLoginAttempt({ ...attempt, userId: user?.id }, check.reason)
+            throw new Error(check.reason === 'locked' ? ACCOUNT_LOCKED : TOO_MANY_ATTEMPTS)
+          }
+
           if (!user || !user.isActive) {
+            await recordLoginAttempt({ ...attempt, userId: user?.id }, user ? 'inactive' : 'unknown_user')
             return null
           }
 
@@ -87,32 +264,77 @@ export const authOptions: NextAuthOptions = {
           )
 
           if (!isValidPassword) {
+            await recordLoginAttempt({ ...attempt, userId: user.id }, 'invalid_password')
             return null
           }
 
+          // Second step: the sign-in page retries with a code when it sees TWO_FACTOR_REQUIRED
+          if (await getEnabledTwoFactor(user.id)) {
+            if (!credentials.code) {
+              throw new Error(TWO_FACTOR_REQUIRED)
+            }
+            if (!(await verifySecondFactor(user.id, credentials.code))) {
+              await recordLoginAttempt({ ...attempt, userId: user.id }, 'invalid_code')
+              throw new Error(TWO_FACTOR_INVALID)
+            }
+          }
+
+          await recordLoginAttempt({ ...attempt, userId: user.id }, 'success')
+
           return {
             id: user.id,
             email: user.email,
             name: `${user.firstName} ${user.lastName}`,
             role: user.role,
-            lecturerId: user.lecturer?.id
+            lecturerId: user.lecturer?.id,
+            mustChangePassword: user.mustChangePassword,
+            twoFactorSetupRequired: await needsTwoFactorSetup(user.role, user.twoFactorAuth)
           }
         } catch (error) {
+          if (error instanceof Error && [TWO_FACTOR_REQUIRED, TWO_FACTOR_INVALID, ACCOUNT_LOCKED, TOO_MANY_ATTEMPTS, SSO_REQUIRED].includes(error.message)) {
+            throw error
+          }
           console.error('Auth error:', error)
           return null
         }
       }
-    })
+    }),
+    ...directoryProviders()
   ],
   debug: true,
   session: {
     strategy: 'jwt' as const
   },
   callbacks: {
-    async jwt({ token, user }: any) {
+    async signIn({ user, account }) {
+      // OIDC only vouches for the user; the 'sso' provider on /auth/sso signs them in
+      if (account?.provider === 'oidc') {
+        await setPendingSsoLogin(user.id)
+        return '/auth/sso'
+      }
+      return true
+    },
+    async jwt({ token, user, trigger }: any) {
       if (user) {
         token.role = user.role
         token.lecturerId = user.lecturerId
+        token.mustChangePassword = Boolean(user.mustChangePassword)
+        token.twoFactorSetupRequired = Boolean(user.twoFactorSetupRequired)
+        token.impersonatorId = user.impersonatorId
+        token.impersonatorName = user.impersonatorName
+      }
+
+      // The change-password and two-factor set-up pages refresh the session once they are done.
+      // Set-up stays required until a second factor is enabled, whichever rule asked for it.
+      if (trigger === 'update' && (token.mustChangePassword || token.twoFactorSetupRequired)) {
+        const current = await prisma.user.findUnique({
+          where: { id: token.sub },
+          select: { role: true, mustChangePassword: true, twoFactorAuth: { select: { enabledAt: true } } }
+        })
+        token.mustChangePassword = Boolean(current?.mustChangePassword)
+        token.twoFactorSetupRequired = current
+          ? !current.twoFactorAuth?.enabledAt && (Boolean(token.twoFactorSetupRequired) || await needsTwoFactorSetup(current.role, current.twoFactorAuth))
+          : false
       }
       return token
     },
@@ -121,6 +343,10 @@ export const authOptions: NextAuthOptions = {
         session.user.id = token.sub!
         session.user.role = token.role as UserRole
         session.user.lecturerId = token.lecturerId as string
+        session.user.mustChangePassword = Boolean(token.mustChangePassword)
+        session.user.twoFactorSetupRequired = Boolean(token.twoFactorSetupRequired)
+        session.user.impersonatorId = token.impersonatorId
+        session.user.impersonatorName = token.impersonatorName
       }
       return session
     },
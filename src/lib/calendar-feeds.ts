@@ -0,0 +1,377 @@
+import { createHash, randomBytes } from 'crypto'
+import { z } from 'zod'
+import { prisma } from '@/lib/db'
+import { getDayStatus, loadAcademicCalendar, toDateKey, type AcademicCalendar } from '@/lib/academic-calendar'
+import { resolveMeetingLink } from '@/lib/meeting-link'
+import { toScheduledTime } from '@/lib/punctuality'
+
+export type CalendarFeedScope = 'lecturer' | 'class_group' | 'classroom'
+
+export const CALENDAR_FEED_SCOPES = ['lecturer', 'class_group', 'classroom'] as const
+
+// Feeds list concrete classes rather than recurrence rules so cancellations,
+// make-ups and holidays show exactly as they stand
+export const FEED_PAST_DAYS = 14
+export const FEED_FUTURE_DAYS = 120
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const calendarFeedSchema = z.object({
+  scope: z.enum(CALENDAR_FEED_SCOPES),
+  targetId: z.string().min(1, 'Choose what to subscribe to')
+})
+
+export interface FeedTarget {
+  scope: CalendarFeedScope
+  targetId: string
+  label: string
+}
+
+export interface FeedSchedule {
+  id: string
+  dayOfWeek: number
+  startTime: string
+  endTime: string
+  sessionType: string
+  meetingLink: string | null
+  classroomId?: string | null
+  course: { courseCode: string; title: string }
+  classGroup: { name: string }
+  lecturer: { user: { firstName: string; lastName: string } }
+  classroom: FeedRoom | null
+}
+
+interface FeedRoom {
+  roomCode: string
+  name: string
+  virtualLink?: string | null
+  building: { name: string }
+}
+
+export interface FeedSession {
+  id: string
+  courseScheduleId: string
+  date: Date
+  startTime: string
+  endTime: string
+  status: string
+  statusReason: string | null
+  isMakeUp: boolean
+  classroom: FeedRoom | null
+}
+
+export interface CalendarEvent {
+  uid: string
+  start: Date
+  end: Date
+  summary: string
+  location: string | null
+  description: string
+  url: string | null
+  cancelled: boolean
+}
+
+export function hashFeedToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+export function createFeedToken() {
+  const token = randomBytes(24).toString('base64url')
+  return { token, tokenHash: hashFeedToken(token) }
+}
+
+function describeRoom(room: FeedRoom | null): string | null {
+  return room ? `${room.roomCode} ${room.name}, ${room.building.name}` : null
+}
+
+function toEvent(
+  uid: string,
+  schedule: FeedSchedule,
+  occurrence: { date: Date; startTime: string; endTime: string; classroom: FeedRoom | null },
+  extra: { prefix?: string; cancelled?: boolean; note?: string | null } = {}
+): CalendarEvent {
+  const meetingLink = schedule.sessionType === 'LECTURE' || schedule.sessionType === 'SEMINAR' || schedule.sessionType === 'LAB'
+    ? null
+    : resolveMeetingLink(schedule.meetingLink, schedule.classroom?.virtualLink)
+
+  const description = [
+    extra.note,
+    `${schedule.course.courseCode} ${schedule.course.title}`,
+    `Class group: ${schedule.classGroup.name}`,
+    `Lecturer: ${schedule.lecturer.user.firstName} ${schedule.lecturer.user.lastName}`,
+    `Delivery: ${schedule.sessionType.toLowerCase()}`,
+    meetingLink && `Join: ${meetingLink}`
+  ].filter(Boolean).join('\n')
+
+  return {
+    uid,
+    start: toScheduledTime(occurrence.date, occurrence.startTime),
+    end: toScheduledTime(occurrence.date, occurrence.endTime),
+    summary: `${extra.prefix ?? ''}${schedule.course.courseCode} ${schedule.course.title} (${schedule.classGroup.name})`,
+    location: describeRoom(occurrence.classroom) ?? (meetingLink ? 'Online' : null),
+    description,
+    url: meetingLink,
+    cancelled: extra.cancelled ?? false
+  }
+}
+
+/**
+ * Expand weekly schedules into the classes between start and end. Days the
+ * academic calendar closes are left out, cancelled or rescheduled classes
+ * stay in the feed marked as cancelled so calendars remove them, and make-up
+ * sessions are added on their own dates.
+ */
+export function buildFeedEvents(
+  schedules: FeedSchedule[],
+  sessions: FeedSession[],
+  calendar: AcademicCalendar,
+  range: { start: Date; end: Date },
+  makeUpSchedules: FeedSchedule[] = schedules // schedules of make-ups held elsewhere, e.g. in a room feed
+): CalendarEvent[] {
+  const events: CalendarEvent[] = []
+  const first = new Date(Date.UTC(range.start.getUTCFullYear(), range.start.getUTCMonth(), range.start.getUTCDate()))
+  const sessionsByKey = new Map(sessions
+    .filter(session => !session.isMakeUp)
+    .map(session => [`${session.courseScheduleId}:${toDateKey(session.date)}`, session]))
+
+  for (const schedule of schedules) {
+    const firstDate = new Date(first.getTime() + ((schedule.dayOfWeek - first.getUTCDay() + 7) % 7) * DAY_MS)
+
+    for (let date = firstDate; date.getTime() <= range.end.getTime(); date = new Date(date.getTime() + 7 * DAY_MS)) {
+      const session = sessionsByKey.get(`${schedule.id}:${toDateKey(date)}`)
+      const uid = `${schedule.id}-${toDateKey(date).replace(/-/g, '')}`
+
+      if (session && ['cancelled', 'rescheduled'].includes(session.status)) {
+        events.push(toEvent(uid, schedule, { ...session, classroom: session.classroom ?? schedule.classroom }, {
+          prefix: 'Cancelled: ',
+          cancelled: true,
+          note: session.status === 'rescheduled'
+            ? `Rescheduled${session.statusReason ? `: ${session.statusReason}` : ''}`
+            : `Cancelled${session.statusReason ? `: ${session.statusReason}` : ''}`
+        }))
+        continue
+      }
+
+      if (!session && !getDayStatus(date, calendar).teaching) {
+        continue
+      }
+
+      events.push(toEvent(uid, schedule, {
+        date,
+        startTime: session?.startTime ?? schedule.startTime,
+        endTime: session?.endTime ?? schedule.endTime,
+        classroom: session?.classroom ?? schedule.classroom
+      }))
+    }
+  }
+
+  const schedulesById = new Map(makeUpSchedules.map(schedule => [schedule.id, schedule]))
+
+  for (const session of sessions) {
+    const schedule = schedulesById.get(session.courseScheduleId)
+    if (!session.isMakeUp || !schedule) {
+      continue
+    }
+
+    const cancelled = ['cancelled', 'rescheduled'].includes(session.status)
+    events.push(toEvent(`session-${session.id}`, schedule, { ...session, classroom: session.classroom ?? schedule.classroom }, {
+      prefix: cancelled ? 'Cancelled: ' : 'Make-up: ',
+      cancelled,
+      note: cancelled ? 'This make-up class was cancelled' : 'Make-up class'
+    }))
+  }
+
+  return events.sort((a, b) => a.start.getTime() - b.start.getTime() || a.uid.localeCompare(b.uid))
+}
+
+function formatIcsDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+function escapeIcsText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+// Lines longer than 75 characters continue on the next line after a space
+function foldIcsLine(line: string): string {
+  const parts = [line.slice(0, 75)]
+  for (let i = 75; i < line.length; i += 74) {
+    parts.push(line.slice(i, i + 74))
+  }
+  return parts.join('\r\n ')
+}
+
+export function buildICalendar(name: string, events: CalendarEvent[], now: Date = new Date()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//UPSA//Attendance Management System//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(name)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT6H',
+    'X-PUBLISHED-TTL:PT6H'
+  ]
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}@upsa-attendance`,
+      `DTSTAMP:${formatIcsDate(now)}`,
+      `DTSTART:${formatIcsDate(event.start)}`,
+      `DTEND:${formatIcsDate(event.end)}`,
+      `SUMMARY:${escapeIcsText(event.summary)}`,
+      `DESCRIPTION:${escapeIcsText(event.description)}`
+    )
+    if (event.location) lines.push(`LOCATION:${escapeIcsText(event.location)}`)
+    if (event.url) lines.push(`URL:${event.url}`)
+    lines.push(`STATUS:${event.cancelled ? 'CANCELLED' : 'CONFIRMED'}`, 'END:VEVENT')
+  }
+
+  lines.push('END:VCALENDAR')
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n'
+}
+
+/**
+ * What a user may subscribe to: lecturers their own classes, class reps the
+ * groups they represent, coordinators their programmes' groups, and staff who
+ * look after rooms every room. Admins may subscribe to anything.
+ */
+export async function getFeedTargets(user: { id: string; role: string }): Promise<FeedTarget[]> {
+  const targets: FeedTarget[] = []
+  const isAdmin = user.role === 'ADMIN'
+
+  if (user.role === 'LECTURER' || isAdmin) {
+    const lecturers = await prisma.lecturer.findMany({
+      where: isAdmin ? {} : { userId: user.id },
+      include: { user: { select: { firstName: true, lastName: true } } },
+      orderBy: { user: { lastName: 'asc' } }
+    })
+    targets.push(...lecturers.map(lecturer => ({
+      scope: 'lecturer' as const,
+      targetId: lecturer.id,
+      label: isAdmin ? `${lecturer.user.firstName} ${lecturer.user.lastName}` : 'My teaching timetable'
+    })))
+  }
+
+  if (['CLASS_REP', 'COORDINATOR', 'ADMIN'].includes(user.role)) {
+    const groups = await prisma.classGroup.findMany({
+      where: user.role === 'CLASS_REP'
+        ? { classRepId: user.id }
+        : user.role === 'COORDINATOR' ? { programme: { coordinator: user.id } } : {},
+      include: { programme: { select: { name: true } } },
+      orderBy: { name: 'asc' }
+    })
+    targets.push(...groups.map(group => ({
+      scope: 'class_group' as const,
+      targetId: group.id,
+      label: `${group.name} (${group.programme.name})`
+    })))
+  }
+
+  if (['ADMIN', 'COORDINATOR', 'SUPERVISOR'].includes(user.role)) {
+    const rooms = await prisma.classroom.findMany({
+      include: { building: { select: { name: true } } },
+      orderBy: { roomCode: 'asc' }
+    })
+    targets.push(...rooms.map(room => ({
+      scope: 'classroom' as const,
+      targetId: room.id,
+      label: `Room ${room.roomCode} ${room.name}, ${room.building.name}`
+    })))
+  }
+
+  return targets
+}
+
+const feedScheduleSelect = {
+  id: true,
+  dayOfWeek: true,
+  startTime: true,
+  endTime: true,
+  sessionType: true,
+  meetingLink: true,
+  classroomId: true,
+  course: { select: { courseCode: true, title: true } },
+  classGroup: { select: { name: true } },
+  lecturer: { select: { user: { select: { firstName: true, lastName: true } } } },
+  classroom: { select: { roomCode: true, name: true, virtualLink: true, building: { select: { name: true } } } }
+}
+
+const feedRoomSelect = { select: { roomCode: true, name: true, building: { select: { name: true } } } }
+
+/**
+ * Build the calendar behind a feed token, or null when the token is unknown,
+ * revoked, or its owner may no longer see the timetable it points at.
+ */
+export async function renderCalendarFeed(token: string, now: Date = new Date()): Promise<{ name: string; ics: string } | null> {
+  const feed = await prisma.calendarFeedToken.findUnique({
+    where: { tokenHash: hashFeedToken(token) },
+    include: { user: { select: { id: true, role: true, isActive: true } } }
+  })
+
+  if (!feed || feed.revokedAt || !feed.user.isActive) {
+    return null
+  }
+
+  const targets = await getFeedTargets(feed.user)
+  if (!targets.some(target => target.scope === feed.scope && target.targetId === feed.targetId)) {
+    return null
+  }
+
+  const range = {
+    start: new Date(now.getTime() - FEED_PAST_DAYS * DAY_MS),
+    end: new Date(now.getTime() + FEED_FUTURE_DAYS * DAY_MS)
+  }
+
+  const schedules = await prisma.courseSchedule.findMany({
+    where: feed.scope === 'lecturer'
+      ? { lecturerId: feed.targetId }
+      : feed.scope === 'class_group' ? { classGroupId: feed.targetId } : { classroomId: feed.targetId },
+    select: feedScheduleSelect
+  })
+
+  // Make-ups moved into a room belong to its feed even when the class normally meets elsewhere
+  const movedIn = feed.scope === 'classroom'
+    ? await prisma.classSession.findMany({
+        where: { classroomId: feed.targetId, isMakeUp: true, date: { gte: range.start, lte: range.end } },
+        select: { courseSchedule: { select: feedScheduleSelect } }
+      })
+    : []
+
+  const lookup = new Map(schedules.map(schedule => [schedule.id, schedule]))
+  for (const { courseSchedule } of movedIn) {
+    lookup.set(courseSchedule.id, courseSchedule)
+  }
+
+  const [sessions, calendar] = await Promise.all([
+    prisma.classSession.findMany({
+      where: {
+        courseScheduleId: { in: [...lookup.keys()] },
+        date: { gte: range.start, lte: range.end }
+      },
+      include: { classroom: feedRoomSelect }
+    }),
+    loadAcademicCalendar(range.start, range.end)
+  ])
+
+  // A room's feed leaves out make-ups its classes hold in other rooms
+  const relevant = feed.scope === 'classroom'
+    ? sessions.filter(session => session.isMakeUp
+        ? (session.classroomId ?? lookup.get(session.courseScheduleId)?.classroomId) === feed.targetId
+        : schedules.some(schedule => schedule.id === session.courseScheduleId))
+    : sessions
+
+  const events = buildFeedEvents(schedules, relevant, calendar, range, [...lookup.values()])
+
+  await prisma.calendarFeedToken.update({
+    where: { id: feed.id },
+    data: { lastUsedAt: now }
+  })
+
+  return { name: feed.label, ics: buildICalendar(feed.label, events, now) }
+}
@@ -0,0 +1,314 @@
+import { prisma } from '@/lib/db'
+
+export type ClaimStatus = 'submitted' | 'hod_approved' | 'approved' | 'rejected'
+
+export const CLAIM_STATUSES: ClaimStatus[] = ['submitted', 'hod_approved', 'approved', 'rejected']
+
+export type ClaimReviewStep = 'hod' | 'finance'
+
+export type ClaimDecision = 'approve' | 'reject'
+
+// Rates can be set for any rank or any programme level with this wildcard
+export const ANY_RATE_MATCH = '*'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const ATTENDANCE_LOCKED_ERROR = 'This attendance record is locked because it is on an approved claim'
+
+export interface ClaimRateEntry {
+  rank: string
+  programmeLevel: string
+  hourlyRate: number
+  currency: string
+}
+
+export interface ClaimableRecord {
+  id: string
+  timestamp: Date
+  supervisorVerified: boolean | null
+  classSession: {
+    status: string
+    isMakeUp: boolean
+    startTime: string
+    endTime: string
+  } | null
+  courseSchedule: {
+    startTime: string
+    endTime: string
+    isOverload: boolean
+    course: {
+      courseCode: string
+      title: string
+      programme: {
+        level: string
+      }
+    }
+  }
+  claimLine: {
+    claimId: string
+    claim: {
+      status: string
+    }
+  } | null
+}
+
+export interface ClaimLineDraft {
+  attendanceRecordId: string
+  courseCode: string
+  courseTitle: string
+  programmeLevel: string
+  date: Date
+  hours: number
+  hourlyRate: number
+  amount: number
+}
+
+export interface PreparedClaim {
+  lines: ClaimLineDraft[]
+  totalHours: number
+  totalAmount: number
+  currency: string
+}
+
+export interface ClaimError {
+  error: string
+  status: number
+}
+
+export interface PayrollClaim {
+  id: string
+  totalHours: number
+  totalAmount: number
+  currency: string
+  financeReviewedAt: Date | null
+  claimPeriod: { name: string }
+  lecturer: {
+    employeeId: string
+    rank: string | null
+    department: string | null
+    user: { firstName: string; lastName: string }
+  }
+}
+
+/**
+ * The review step a claim is waiting on: heads of department first, then
+ * finance. Approved and rejected claims are closed.
+ */
+export function getClaimReviewStep(status: string): ClaimReviewStep | null {
+  switch (status) {
+    case 'submitted':
+      return 'hod'
+    case 'hod_approved':
+      return 'finance'
+    default:
+      return null
+  }
+}
+
+export function getClaimStatusAfterReview(step: ClaimReviewStep, decision: ClaimDecision): ClaimStatus {
+  if (decision === 'reject') {
+    return 'rejected'
+  }
+
+  return step === 'hod' ? 'hod_approved' : 'approved'
+}
+
+// Coordinators act as heads of department for their programmes; finance sign-off is an administrator task
+export function canReviewClaimStep(step: ClaimReviewStep, role: string): boolean {
+  return step === 'hod' ? ['ADMIN', 'COORDINATOR'].includes(role) : role === 'ADMIN'
+}
+
+// Deadlines are whole days, so submissions are accepted until the end of the deadline day
+export function isClaimPeriodOpen(
+  period: { status: string; submissionDeadline: Date | null },
+  now: Date = new Date()
+): boolean {
+  if (period.status !== 'open') {
+    return false
+  }
+
+  return !period.submissionDeadline || now.getTime() < period.submissionDeadline.getTime() + DAY_MS
+}
+
+/**
+ * Pick the most specific rate for a rank and programme level: an exact match,
+ * then the rank at any level, then any rank at the level, then the catch-all.
+ */
+export function findClaimRate(
+  rates: ClaimRateEntry[],
+  rank: string | null | undefined,
+  programmeLevel: string
+): ClaimRateEntry | null {
+  const candidates: [string, string][] = [
+    [rank ?? ANY_RATE_MATCH, programmeLevel],
+    [rank ?? ANY_RATE_MATCH, ANY_RATE_MATCH],
+    [ANY_RATE_MATCH, programmeLevel],
+    [ANY_RATE_MATCH, ANY_RATE_MATCH]
+  ]
+
+  for (const [candidateRank, candidateLevel] of candidates) {
+    const rate = rates.find(entry => entry.rank === candidateRank && entry.programmeLevel === candidateLevel)
+    if (rate) {
+      return rate
+    }
+  }
+
+  return null
+}
+
+export function calculateSessionHours(startTime: string, endTime: string): number {
+  const [startHour, startMinute] = startTime.split(':').map(Number)
+  const [endHour, endMinute] = endTime.split(':').map(Number)
+  const minutes = (endHour * 60 + endMinute) - (startHour * 60 + startMinute)
+  return minutes > 0 ? Math.round((minutes / 60) * 10) / 10 : 0
+}
+
+/**
+ * Classes that can go on a claim: adjunct teaching or overload schedules, not
+ * disputed by a supervisor, not in a cancelled session unless a supervisor saw
+ * it held, and not already on a live claim.
+ */
+export function isClaimableRecord(record: ClaimableRecord, lecturer: { isAdjunct: boolean }): boolean {
+  if (!lecturer.isAdjunct && !record.courseSchedule.isOverload) {
+    return false
+  }
+
+  if (record.supervisorVerified === false) {
+    return false
+  }
+
+  if (record.classSession?.status === 'cancelled' && !record.supervisorVerified) {
+    return false
+  }
+
+  return !record.claimLine || record.claimLine.claim.status === 'rejected'
+}
+
+export function buildClaimLines(
+  records: ClaimableRecord[],
+  lecturer: { rank: string | null; isAdjunct: boolean },
+  rates: ClaimRateEntry[]
+): PreparedClaim | ClaimError {
+  const lines: ClaimLineDraft[] = []
+  const currencies = new Set<string>()
+
+  for (const record of records) {
+    if (!isClaimableRecord(record, lecturer)) continue
+
+    const course = record.courseSchedule.course
+    const rate = findClaimRate(rates, lecturer.rank, course.programme.level)
+    if (!rate) {
+      return {
+        error: `No pay rate is set for ${lecturer.rank || 'unranked'} lecturers teaching ${course.programme.level} courses`,
+        status: 400
+      }
+    }
+
+    // Make-up classes are claimed at the time they were actually held
+    const times = record.classSession?.isMakeUp ? record.classSession : record.courseSchedule
+    const hours = calculateSessionHours(times.startTime, times.endTime)
+
+    currencies.add(rate.currency)
+    lines.push({
+      attendanceRecordId: record.id,
+      courseCode: course.courseCode,
+      courseTitle: course.title,
+      programmeLevel: course.programme.level,
+      date: record.timestamp,
+      hours,
+      hourlyRate: rate.hourlyRate,
+      amount: Math.round(hours * rate.hourlyRate * 100) / 100
+    })
+  }
+
+  if (currencies.size > 1) {
+    return { error: 'The pay rates for this claim use more than one currency', status: 400 }
+  }
+
+  return {
+    lines,
+    totalHours: Math.round(lines.reduce((sum, line) => sum + line.hours, 0) * 10) / 10,
+    totalAmount: Math.round(lines.reduce((sum, line) => sum + line.amount, 0) * 100) / 100,
+    currency: currencies.values().next().value ?? 'GHS'
+  }
+}
+
+/**
+ * Work out a lecturer's claim for a period from their attendance. Period dates
+ * are whole days, so the end date is included.
+ */
+export async function prepareClaim(
+  lecturerId: string,
+  period: { startDate: Date; endDate: Date }
+): Promise<PreparedClaim | ClaimError> {
+  const lecturer = await prisma.lecturer.findUnique({ where: { id: lecturerId } })
+
+  if (!lecturer) {
+    return { error: 'Lecturer not found', status: 404 }
+  }
+
+  const periodRange = {
+    gte: period.startDate,
+    lt: new Date(period.endDate.getTime() + DAY_MS)
+  }
+
+  // Classes restored on appeal are claimed in the period the appeal was upheld
+  const [rates, records] = await Promise.all([
+    prisma.claimRate.findMany(),
+    prisma.attendanceRecord.findMany({
+      where: {
+        lecturerId,
+        OR: [
+          { timestamp: periodRange },
+          { appeals: { some: { status: 'accepted', decidedAt: periodRange } } }
+        ]
+      },
+      select: {
+        id: true,
+        timestamp: true,
+        supervisorVerified: true,
+        classSession: {
+          select: { status: true, isMakeUp: true, startTime: true, endTime: true }
+        },
+        courseSchedule: {
+          select: {
+            startTime: true,
+            endTime: true,
+            isOverload: true,
+            course: {
+              select: {
+                courseCode: true,
+                title: true,
+                programme: { select: { level: true } }
+              }
+            }
+          }
+        },
+        claimLine: {
+          select: {
+            claimId: true,
+            claim: { select: { status: true } }
+          }
+        }
+      },
+      orderBy: { timestamp: 'asc' }
+    })
+  ])
+
+  return buildClaimLines(records, lecturer, rates)
+}
+
+export function toPayrollRows(claims: PayrollClaim[]): Record<string, string | number>[] {
+  return claims.map(claim => ({
+    'Employee ID': claim.lecturer.employeeId,
+    'Lecturer': `${claim.lecturer.user.firstName} ${claim.lecturer.user.lastName}`,
+    'Department': claim.lecturer.department || '',
+    'Rank': claim.lecturer.rank || '',
+    'Claim Period': claim.claimPeriod.name,
+    'Hours': claim.totalHours,
+    'Amount': claim.totalAmount,
+    'Currency': claim.currency,
+    'Approved On': claim.financeReviewedAt ? claim.financeReviewedAt.toISOString().split('T')[0] : '',
+    'Claim Reference': claim.id
+  }))
+}
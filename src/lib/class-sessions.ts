@@ -0,0 +1,215 @@
+import { prisma } from '@/lib/db'
+import { AcademicCalendar, getDayStatus, loadAcademicCalendar, toDateKey } from '@/lib/academic-calendar'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type ClassSessionStatus = 'scheduled' | 'held' | 'missed' | 'cancelled' | 'rescheduled'
+
+export const CLASS_SESSION_STATUSES: ClassSessionStatus[] = ['scheduled', 'held', 'missed', 'cancelled', 'rescheduled']
+
+/**
+ * Allowed status changes. Supervisors can correct their own observations during
+ * the day, so held, missed and cancelled may move between each other. A
+ * rescheduled occurrence is replaced by its make-up session and stays closed.
+ */
+const CLASS_SESSION_TRANSITIONS: Record<ClassSessionStatus, ClassSessionStatus[]> = {
+  scheduled: ['held', 'missed', 'cancelled', 'rescheduled'],
+  held: ['missed', 'cancelled'],
+  missed: ['held', 'cancelled', 'rescheduled'],
+  cancelled: ['scheduled', 'held', 'rescheduled'],
+  rescheduled: []
+}
+
+export interface ScheduleOccurrence {
+  id: string
+  dayOfWeek: number
+  startTime: string
+  endTime: string
+}
+
+export interface PlannedClassSession {
+  courseScheduleId: string
+  date: Date
+  startTime: string
+  endTime: string
+}
+
+// Sessions are keyed by the UTC calendar day, the same convention as the academic calendar
+export function toSessionDate(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+}
+
+export function canTransitionClassSession(from: string, to: string): boolean {
+  if (from === to) {
+    return true
+  }
+
+  const allowed = CLASS_SESSION_TRANSITIONS[from as ClassSessionStatus]
+  return !!allowed && allowed.includes(to as ClassSessionStatus)
+}
+
+/**
+ * Map a supervisor log status onto the session lifecycle. "not_started" is an
+ * observation rather than an outcome, so it leaves the session untouched.
+ */
+export function sessionStatusFromSupervisorLog(logStatus: string): ClassSessionStatus | null {
+  switch (logStatus) {
+    case 'ongoing':
+    case 'online':
+      return 'held'
+    case 'cancelled':
+      return 'cancelled'
+    case 'lecturer_absent':
+      return 'missed'
+    default:
+      return null
+  }
+}
+
+/**
+ * Expand weekly schedules into dated occurrences between start and end
+ * (inclusive), skipping days the academic calendar marks as non-teaching.
+ */
+export function planClassSessions(
+  schedules: ScheduleOccurrence[],
+  start: Date,
+  end: Date,
+  calendar: AcademicCalendar
+): PlannedClassSession[] {
+  const planned: PlannedClassSession[] = []
+  const last = toSessionDate(end).getTime()
+
+  for (let cursor = toSessionDate(start); cursor.getTime() <= last; cursor = new Date(cursor.getTime() + DAY_MS)) {
+    const daySchedules = schedules.filter(schedule => schedule.dayOfWeek === cursor.getUTCDay())
+    if (daySchedules.length === 0 || !getDayStatus(cursor, calendar).teaching) {
+      continue
+    }
+
+    for (const schedule of daySchedules) {
+      planned.push({
+        courseScheduleId: schedule.id,
+        date: cursor,
+        startTime: schedule.startTime,
+        endTime: schedule.endTime
+      })
+    }
+  }
+
+  return planned
+}
+
+/**
+ * Return the session for a schedule on a given day, creating it on first use
+ */
+export async function getOrCreateClassSession(schedule: ScheduleOccurrence, date: Date = new Date()) {
+  const sessionDate = toSessionDate(date)
+
+  return prisma.classSession.upsert({
+    where: {
+      courseScheduleId_date_startTime: {
+        courseScheduleId: schedule.id,
+        date: sessionDate,
+        startTime: schedule.startTime
+      }
+    },
+    update: {},
+    create: {
+      courseScheduleId: schedule.id,
+      date: sessionDate,
+      startTime: schedule.startTime,
+      endTime: schedule.endTime
+    }
+  })
+}
+
+/**
+ * Move a session to a new status if the lifecycle allows it. Invalid
+ * transitions are ignored and the session is returned unchanged.
+ */
+export async function updateClassSessionStatus(
+  classSession: { id: string; status: string },
+  status: ClassSessionStatus,
+  reason?: string | null
+) {
+  if (classSession.status === status || !canTransitionClassSession(classSession.status, status)) {
+    return classSession
+  }
+
+  return prisma.classSession.update({
+    where: { id: classSession.id },
+    data: {
+      status,
+      statusReason: reason ?? null,
+      statusChangedAt: new Date()
+    }
+  })
+}
+
+/**
+ * Materialize sessions for every active schedule in the date range
+ */
+export async function generateClassSessions(start: Date, end: Date): Promise<number> {
+  const [schedules, calendar] = await Promise.all([
+    prisma.courseSchedule.findMany({
+      where: {
+        course: { isActive: true },
+        classGroup: { isActive: true }
+      },
+      select: {
+        id: true,
+        dayOfWeek: true,
+        startTime: true,
+        endTime: true
+      }
+    }),
+    loadAcademicCalendar(start, end)
+  ])
+
+  const planned = planClassSessions(schedules, start, end, calendar)
+  if (planned.length === 0) {
+    return 0
+  }
+
+  const result = await prisma.classSession.createMany({
+    data: planned,
+    skipDuplicates: true
+  })
+
+  return result.count
+}
+
+/**
+ * Close out earlier days: sessions still "scheduled" with no attendance become "missed"
+ */
+export async function markMissedClassSessions(now: Date = new Date()): Promise<number> {
+  const result = await prisma.classSession.updateMany({
+    where: {
+      status: 'scheduled',
+      date: { lt: toSessionDate(now) },
+      attendanceRecords: { none: {} }
+    },
+    data: {
+      status: 'missed',
+      statusReason: 'No attendance recorded',
+      statusChangedAt: now
+    }
+  })
+
+  return result.count
+}
+
+let lastMaintenanceDay: string | null = null
+
+/**
+ * Once per day, create today's sessions and mark the previous days' leftovers as missed
+ */
+export async function runDailyClassSessionMaintenance(now: Date = new Date()): Promise<void> {
+  const today = toDateKey(now)
+  if (lastMaintenanceDay === today) {
+    return
+  }
+
+  await markMissedClassSessions(now)
+  await generateClassSessions(now, now)
+  lastMaintenanceDay = today
+}
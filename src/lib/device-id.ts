@@ -0,0 +1,21 @@
+'use client';
+
+const DEVICE_ID_KEY = 'upsa-attendance-device-id';
+
+// Random ID kept in this browser's storage, sent with attendance so the server
+// can tell devices apart without relying on the network the lecturer is on
+export function getDeviceId(): string | undefined {
+  if (typeof window === 'undefined') return undefined;
+
+  try {
+    let deviceId = window.localStorage.getItem(DEVICE_ID_KEY);
+    if (!deviceId) {
+      deviceId = crypto.randomUUID();
+      window.localStorage.setItem(DEVICE_ID_KEY, deviceId);
+    }
+    return deviceId;
+  } catch {
+    // Storage can be disabled (private browsing); record no fingerprint rather than a fresh one each time
+    return undefined;
+  }
+}
@@ -325,6 +325,121 @@ export const emailTemplates = {
       
       This is an automated reminder from the UPSA Attendance Management System.
     `
+  }),
+
+  passwordReset: (data: {
+    recipientName: string
+    resetUrl: string
+    expiresIn: string
+  }): EmailTemplate => ({
+    subject: 'Reset your UPSA Attendance password',
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #1f2937;">Reset Your Password</h2>
+        <p>Dear ${data.recipientName},</p>
+        <p>We received a request to reset the password for your account. Use the button below to choose a new one.</p>
+
+        <a href="${data.resetUrl}" style="display: inline-block; background-color: #3b82f6; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; margin: 20px 0;">Reset Password</a>
+
+        <p>This link expires in ${data.expiresIn} and can only be used once. If you did not ask to reset your password, you can ignore this email.</p>
+
+        <p style="color: #6b7280; font-size: 14px; margin-top: 30px;">
+          This is an automated message from the UPSA Attendance Management System.
+        </p>
+      </div>
+    `,
+    text: `
+      Reset Your Password
+
+      Dear ${data.recipientName},
+
+      We received a request to reset the password for your account. Choose a new one here: ${data.resetUrl}
+
+      This link expires in ${data.expiresIn} and can only be used once. If you did not ask to reset your password, you can ignore this email.
+
+      This is an automated message from the UPSA Attendance Management System.
+    `
+  }),
+
+  accountSetup: (data: {
+    recipientName: string
+    email: string
+    setupUrl: string
+    expiresIn: string
+  }): EmailTemplate => ({
+    subject: 'Set up your UPSA Attendance account',
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #1f2937;">Welcome to the UPSA Attendance Management System</h2>
+        <p>Dear ${data.recipientName},</p>
+        <p>An account has been created for you with the email address <strong>${data.email}</strong>. Choose a password to start using it:</p>
+
+        <a href="${data.setupUrl}" style="display: inline-block; background-color: #3b82f6; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; margin: 20px 0;">Choose Password</a>
+
+        <p>This link expires in ${data.expiresIn}. After that, use "Forgot your password?" on the sign-in page.</p>
+
+        <p style="color: #6b7280; font-size: 14px; margin-top: 30px;">
+          This is an automated message from the UPSA Attendance Management System.
+        </p>
+      </div>
+    `,
+    text: `
+      Welcome to the UPSA Attendance Management System
+
+      Dear ${data.recipientName},
+
+      An account has been created for you with the email address ${data.email}. Choose a password to start using it: ${data.setupUrl}
+
+      This link expires in ${data.expiresIn}. After that, use "Forgot your password?" on the sign-in page.
+
+      This is an automated message from the UPSA Attendance Management System.
+    `
+  }),
+
+  newDeviceSignIn: (data: {
+    recipientName: string
+    signedInAt: string
+    device: string
+    ipAddress: string
+    resetUrl: string
+  }): EmailTemplate => ({
+    subject: 'New sign-in to your UPSA Attendance account',
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #1f2937;">New Sign-in Detected</h2>
+        <p>Dear ${data.recipientName},</p>
+        <p>Your account was just signed in to from a device we have not seen before.</p>
+
+        <div style="background-color: #f3f4f6; padding: 20px; border-radius: 8px; margin: 20px 0;">
+          <p><strong>When:</strong> ${data.signedInAt}</p>
+          <p><strong>Device:</strong> ${data.device}</p>
+          <p><strong>IP address:</strong> ${data.ipAddress}</p>
+        </div>
+
+        <p>If this was you, there is nothing to do. If not, change your password straight away:</p>
+
+        <a href="${data.resetUrl}" style="display: inline-block; background-color: #dc2626; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; margin: 20px 0;">Secure My Account</a>
+
+        <p style="color: #6b7280; font-size: 14px; margin-top: 30px;">
+          This is an automated message from the UPSA Attendance Management System.
+        </p>
+      </div>
+    `,
+    text: `
+      New Sign-in Detected
+
+      Dear ${data.recipientName},
+
+      Your account was just signed in to from a device we have not seen before.
+
+      When: ${data.signedInAt}
+      Device: ${data.device}
+      IP address: ${data.ipAddress}
+
+      If this was you, there is nothing to do. If not, change your password straight away: ${data.resetUrl}
+
+      This is an automated message from the UPSA Attendance Management System.
+    `
   })
 }
 
@@ -11,6 +11,40 @@ export interface Coordinates {
   longitude: number
 }
 
+export type GeofenceType = 'classroom' | 'building' | 'campus'
+
+export interface Geofence {
+  type: GeofenceType
+  id: string | null
+  name: string
+  center: Coordinates
+  radius: number // meters
+  polygon?: Coordinates[] | null
+}
+
+export interface GeofenceSource {
+  id: string
+  name: string
+  gpsLatitude?: number | null
+  gpsLongitude?: number | null
+  building?: {
+    id: string
+    name: string
+    gpsLatitude: number
+    gpsLongitude: number
+    geofenceRadius?: number | null
+    geofencePolygon?: string | null
+  } | null
+}
+
+export interface LocationVerificationResult {
+  verified: boolean
+  distance: number
+  withinRadius: boolean
+  radius: number
+  geofence: Geofence | null
+}
+
 // Calculate distance between two points using Haversine formula
 export function getDistance(point1: Coordinates, point2: Coordinates): number {
   const R = 6371e3; // metres
@@ -36,18 +70,141 @@ export function isWithinUPSARadius(userCoordinates: Coordinates): boolean {
   return distance <= UPSA_RADIUS
 }
 
-export function verifyLocationForAttendance(userCoordinates: Coordinates): {
-  verified: boolean
-  distance: number
-  withinRadius: boolean
-} {
-  const distance = calculateDistance(userCoordinates, UPSA_COORDINATES)
-  const withinRadius = distance <= UPSA_RADIUS
-  
+/**
+ * Verify a check-in against an ordered list of geofences. The first fence the
+ * user is inside wins; when none match, the nearest fence is reported so the
+ * caller can tell the lecturer how far off they are. Without fences the campus
+ * fence is used.
+ */
+export function verifyLocationForAttendance(
+  userCoordinates: Coordinates,
+  geofences: Geofence[] = [getCampusGeofence()]
+): LocationVerificationResult {
+  const fences = geofences.length > 0 ? geofences : [getCampusGeofence()]
+  let nearest: { geofence: Geofence; distance: number } | null = null
+
+  for (const geofence of fences) {
+    const distance = calculateDistance(userCoordinates, geofence.center)
+    const inside = geofence.polygon && geofence.polygon.length >= 3
+      ? isPointInPolygon(userCoordinates, geofence.polygon)
+      : distance <= geofence.radius
+
+    if (inside) {
+      return {
+        verified: true,
+        distance,
+        withinRadius: true,
+        radius: geofence.radius,
+        geofence
+      }
+    }
+
+    if (!nearest || distance < nearest.distance) {
+      nearest = { geofence, distance }
+    }
+  }
+
+  return {
+    verified: false,
+    distance: nearest!.distance,
+    withinRadius: false,
+    radius: nearest!.geofence.radius,
+    geofence: null
+  }
+}
+
+export function getCampusGeofence(radius: number = UPSA_RADIUS): Geofence {
   return {
-    verified: withinRadius,
-    distance,
-    withinRadius
+    type: 'campus',
+    id: null,
+    name: 'UPSA campus',
+    center: UPSA_COORDINATES,
+    radius
+  }
+}
+
+/**
+ * Build the geofences that apply to a scheduled classroom, most specific first:
+ * the classroom's own coordinates, then its building (radius or polygon). A
+ * building polygon replaces the radius checks, so the classroom circle is left
+ * out when one is drawn. The campus fence is only used when the schedule has no located classroom, so an
+ * off-site annex is never validated against the main campus. Buildings without
+ * their own radius use the default radius (UPSA_GPS_RADIUS unless a
+ * verification policy sets one).
+ */
+export function resolveAttendanceGeofences(
+  classroom?: GeofenceSource | null,
+  defaultRadius: number = UPSA_RADIUS
+): Geofence[] {
+  const fences: Geofence[] = []
+  const building = classroom?.building
+  const buildingRadius = building?.geofenceRadius || defaultRadius
+  const polygon = parseGeofencePolygon(building?.geofencePolygon)
+
+  if (!polygon && classroom && typeof classroom.gpsLatitude === 'number' && typeof classroom.gpsLongitude === 'number') {
+    fences.push({
+      type: 'classroom',
+      id: classroom.id,
+      name: classroom.name,
+      center: { latitude: classroom.gpsLatitude, longitude: classroom.gpsLongitude },
+      radius: buildingRadius
+    })
+  }
+
+  if (building) {
+    fences.push({
+      type: 'building',
+      id: building.id,
+      name: building.name,
+      center: { latitude: building.gpsLatitude, longitude: building.gpsLongitude },
+      radius: buildingRadius,
+      polygon
+    })
+  }
+
+  if (fences.length === 0) {
+    fences.push(getCampusGeofence(defaultRadius))
+  }
+
+  return fences
+}
+
+// Ray casting test; adequate for building-sized polygons where curvature is negligible
+export function isPointInPolygon(point: Coordinates, polygon: Coordinates[]): boolean {
+  let inside = false
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const xi = polygon[i].longitude
+    const yi = polygon[i].latitude
+    const xj = polygon[j].longitude
+    const yj = polygon[j].latitude
+
+    const intersects = ((yi > point.latitude) !== (yj > point.latitude)) &&
+      (point.longitude < (xj - xi) * (point.latitude - yi) / (yj - yi) + xi)
+
+    if (intersects) {
+      inside = !inside
+    }
+  }
+
+  return inside
+}
+
+export function parseGeofencePolygon(value?: string | null): Coordinates[] | null {
+  if (!value) {
+    return null
+  }
+
+  try {
+    const parsed = JSON.parse(value)
+    if (!Array.isArray(parsed)) {
+      return null
+    }
+
+    const vertices = parsed.filter(isValidCoordinates)
+    return vertices.length >= 3 ? vertices : null
+  } catch {
+    return null
   }
 }
 
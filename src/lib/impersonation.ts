@@ -0,0 +1,60 @@
+import { UserRole } from '@prisma/client'
+import { prisma } from '@/lib/db'
+
+// Impersonation tokens only have to survive the round trip to the sign-in callback
+export const IMPERSONATION_TOKEN_TTL = '5m'
+
+// Who each role may view as. Nobody views as an administrator, and
+// coordinators cannot view as each other.
+const IMPERSONATABLE_ROLES: Partial<Record<UserRole, UserRole[]>> = {
+  ADMIN: [UserRole.COORDINATOR, UserRole.LECTURER, UserRole.CLASS_REP, UserRole.SUPERVISOR, UserRole.ONLINE_SUPERVISOR],
+  COORDINATOR: [UserRole.LECTURER, UserRole.CLASS_REP, UserRole.SUPERVISOR, UserRole.ONLINE_SUPERVISOR]
+}
+
+export function canImpersonate(initiatorRole: UserRole, targetRole: UserRole): boolean {
+  return IMPERSONATABLE_ROLES[initiatorRole]?.includes(targetRole) ?? false
+}
+
+export interface ImpersonationTokenPayload {
+  // 'impersonation' starts viewing as the target; 'impersonation_end' signs the admin back in
+  type: 'impersonation' | 'impersonation_end'
+  targetUserId: string
+  initiatorId?: string
+  initiatorName?: string
+  // For 'impersonation_end', the user being viewed as when the token was issued
+  impersonatedUserId?: string
+  jti?: string
+  exp?: number
+}
+
+/**
+ * Whether the token was issued to the session redeeming it: a start token to
+ * the admin's own session, an end token to the session viewing as the user.
+ * A token copied into another browser is useless there.
+ */
+export function isTokenForSession(
+  payload: ImpersonationTokenPayload,
+  sessionUser: { id: string; impersonatorId?: string | null } | null | undefined
+): boolean {
+  if (!sessionUser) {
+    return false
+  }
+  if (payload.type === 'impersonation_end') {
+    return sessionUser.id === payload.impersonatedUserId && sessionUser.impersonatorId === payload.targetUserId
+  }
+  return sessionUser.id === payload.initiatorId && !sessionUser.impersonatorId
+}
+
+/** Mark the token as used. False when it has no ID or was already redeemed. */
+export async function redeemImpersonationToken(payload: ImpersonationTokenPayload): Promise<boolean> {
+  if (!payload.jti || !payload.exp) {
+    return false
+  }
+
+  await prisma.usedImpersonationToken.deleteMany({ where: { expiresAt: { lt: new Date() } } })
+  const redeemed = await prisma.usedImpersonationToken.createMany({
+    data: [{ id: payload.jti, expiresAt: new Date(payload.exp * 1000) }],
+    skipDuplicates: true
+  })
+  return redeemed.count > 0
+}
@@ -0,0 +1,362 @@
+import { prisma } from '@/lib/db'
+import { emailService, emailTemplates } from '@/lib/email'
+import { notifyNewDeviceSignIn } from '@/lib/notifications'
+
+export type LoginOutcome =
+  | 'success'
+  | 'invalid_password'
+  | 'invalid_code'
+  | 'unknown_user'
+  | 'inactive'
+  | 'locked'
+  | 'throttled'
+  | 'unlocked'
+  | 'reset_requested'
+
+// Outcomes that count towards throttling and lockout. Attempts turned away
+// because of throttling or a lock are not counted again.
+export const FAILED_OUTCOMES: LoginOutcome[] = ['invalid_password', 'invalid_code', 'unknown_user', 'inactive']
+
+// A success, or an admin unlocking the account, starts the count again
+const RESET_OUTCOMES: LoginOutcome[] = ['success', 'unlocked']
+
+// Failures are counted over a sliding window
+export const ATTEMPT_WINDOW_MINUTES = 15
+
+// Failed attempts allowed before each new one has to wait, then the wait
+// doubles with every failure up to the cap
+export const ACCOUNT_FREE_ATTEMPTS = 3
+export const IP_FREE_ATTEMPTS = 10
+export const MAX_DELAY_SECONDS = 60
+
+// Failures on one account before it is locked, and for how long
+export const ACCOUNT_LOCK_THRESHOLD = 10
+export const ACCOUNT_LOCK_MINUTES = 30
+
+// Thrown from the credentials provider so the sign-in page can explain
+export const ACCOUNT_LOCKED = 'ACCOUNT_LOCKED'
+export const TOO_MANY_ATTEMPTS = 'TOO_MANY_ATTEMPTS'
+
+export interface AttemptSummary {
+  failures: number
+  lastFailureAt: Date | null
+}
+
+export type LoginCheck =
+  | { allowed: true }
+  | { allowed: false; reason: 'locked' | 'throttled'; retryAfterSeconds: number }
+
+interface RecentAttempt {
+  outcome: string
+  createdAt: Date
+}
+
+export interface LoginAttemptContext {
+  email: string
+  userId?: string | null
+  ipAddress?: string | null
+  userAgent?: string | null
+}
+
+/**
+ * The caller's address for throttling and login history. Only the last
+ * x-forwarded-for entry, the one our proxy appended, is trusted; anything
+ * before it is whatever the caller chose to send.
+ */
+export function clientIpAddress(headers: Headers): string | null {
+  const forwarded = headers.get('x-forwarded-for')?.split(',').map(entry => entry.trim()).filter(Boolean)
+  return forwarded?.[forwarded.length - 1] || headers.get('x-real-ip') || null
+}
+
+/** How long to wait after a number of failures before trying again */
+export function throttleDelaySeconds(failures: number, freeAttempts: number): number {
+  if (failures < freeAttempts) {
+    return 0
+  }
+  return Math.min(2 ** (failures - freeAttempts), MAX_DELAY_SECONDS)
+}
+
+/** Failures since the last success or unlock, from attempts newest first */
+export function summarizeAttempts(attempts: RecentAttempt[], stopAtReset: boolean = true): AttemptSummary {
+  let failures = 0
+  let lastFailureAt: Date | null = null
+
+  for (const attempt of attempts) {
+    if (stopAtReset && RESET_OUTCOMES.includes(attempt.outcome as LoginOutcome)) {
+      break
+    }
+    if (FAILED_OUTCOMES.includes(attempt.outcome as LoginOutcome)) {
+      failures++
+      lastFailureAt = lastFailureAt ?? attempt.createdAt
+    }
+  }
+
+  return { failures, lastFailureAt }
+}
+
+function secondsUntilAllowed(summary: AttemptSummary, freeAttempts: number, now: Date): number {
+  if (!summary.lastFailureAt) {
+    return 0
+  }
+  const delay = throttleDelaySeconds(summary.failures, freeAttempts)
+  const waitUntil = summary.lastFailureAt.getTime() + delay * 1000
+  return Math.max(0, Math.ceil((waitUntil - now.getTime()) / 1000))
+}
+
+function windowStart(now: Date): Date {
+  return new Date(now.getTime() - ATTEMPT_WINDOW_MINUTES * 60 * 1000)
+}
+
+async function recentAttempts(where: { email: string } | { ipAddress: string }, now: Date) {
+  return prisma.loginAttempt.findMany({
+    where: { ...where, createdAt: { gte: windowStart(now) } },
+    orderBy: { createdAt: 'desc' },
+    select: { outcome: true, createdAt: true },
+    take: 100
+  })
+}
+
+/**
+ * Whether a sign-in may be tried now. Checked before the password so that a
+ * locked or throttled account gives nothing away about whether it was right.
+ */
+export async function checkLoginAllowed(
+  email: string,
+  ipAddress: string | null,
+  lockedUntil: Date | null,
+  now: Date = new Date()
+): Promise<LoginCheck> {
+  if (lockedUntil && lockedUntil > now) {
+    return { allowed: false, reason: 'locked', retryAfterSeconds: Math.ceil((lockedUntil.getTime() - now.getTime()) / 1000) }
+  }
+
+  const accountWait = secondsUntilAllowed(summarizeAttempts(await recentAttempts({ email }, now)), ACCOUNT_FREE_ATTEMPTS, now)
+
+  // One address guessing across many accounts is throttled as a whole. A
+  // success on one account does not reset the count for the address.
+  const ipWait = ipAddress
+    ? secondsUntilAllowed(summarizeAttempts(await recentAttempts({ ipAddress }, now), false), IP_FREE_ATTEMPTS, now)
+    : 0
+
+  const retryAfterSeconds = Math.max(accountWait, ipWait)
+  return retryAfterSeconds > 0 ? { allowed: false, reason: 'throttled', retryAfterSeconds } : { allowed: true }
+}
+
+/** A short description such as "Chrome on Windows" for alerts and the admin view */
+export function describeDevice(userAgent: string | null | undefined): string {
+  if (!userAgent) {
+    return 'an unknown device'
+  }
+
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /OPR\/|Opera/.test(userAgent) ? 'Opera'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'a browser'
+  const os = /Android/.test(userAgent) ? 'Android'
+    : /iPhone|iPad|iPod/.test(userAgent) ? 'iOS'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Mac OS X|Macintosh/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : 'an unknown system'
+
+  return `${browser} on ${os}`
+}
+
+/**
+ * Record the outcome of a sign-in. Failures lock the account once there
+ * are too many; successes update lastLoginAt and alert the user when the
+ * device has not signed in to the account before.
+ */
+export async function recordLoginAttempt(
+  context: LoginAttemptContext,
+  outcome: LoginOutcome,
+  baseUrl?: string
+): Promise<void> {
+  try {
+    const now = new Date()
+
+    await prisma.loginAttempt.create({
+      data: {
+        userId: context.userId ?? null,
+        email: context.email,
+        ipAddress: context.ipAddress ?? null,
+        userAgent: context.userAgent ?? null,
+        outcome
+      }
+    })
+
+    if (!context.userId) {
+      return
+    }
+
+    if (FAILED_OUTCOMES.includes(outcome)) {
+      const { failures } = summarizeAttempts(await recentAttempts({ email: context.email }, now))
+      if (failures >= ACCOUNT_LOCK_THRESHOLD) {
+        await lockAccount(context, failures, now)
+      }
+      return
+    }
+
+    if (outcome === 'success') {
+      await prisma.user.update({
+        where: { id: context.userId },
+        data: { lastLoginAt: now }
+      })
+      await alertIfNewDevice(context, baseUrl)
+    }
+  } catch (error) {
+    // Never let bookkeeping stop someone signing in
+    console.error('Error recording login attempt:', error)
+  }
+}
+
+async function lockAccount(context: LoginAttemptContext, failures: number, now: Date) {
+  const lockedUntil = new Date(now.getTime() + ACCOUNT_LOCK_MINUTES * 60 * 1000)
+
+  await prisma.user.update({
+    where: { id: context.userId! },
+    data: { lockedUntil }
+  })
+
+  await prisma.auditLog.create({
+    data: {
+      userId: context.userId!,
+      action: 'ACCOUNT_LOCKED',
+      targetType: 'User',
+      targetId: context.userId!,
+      metadata: JSON.stringify({ failures, lockedUntil: lockedUntil.toISOString() }),
+      ipAddress: context.ipAddress ?? null
+    }
+  })
+}
+
+async function alertIfNewDevice(context: LoginAttemptContext, baseUrl?: string) {
+  const previous = await prisma.loginAttempt.findMany({
+    where: { userId: context.userId!, outcome: 'success' },
+    orderBy: { createdAt: 'desc' },
+    select: { userAgent: true },
+    take: 50
+  })
+
+  // The first sign-in has nothing to compare with; the attempt just recorded is previous[0]
+  const earlier = previous.slice(1)
+  if (earlier.length === 0 || earlier.some(attempt => attempt.userAgent === (context.userAgent ?? null))) {
+    return
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: context.userId! },
+    select: { email: true, firstName: true, lastName: true }
+  })
+  if (!user) {
+    return
+  }
+
+  const device = describeDevice(context.userAgent)
+
+  await notifyNewDeviceSignIn({ userId: context.userId!, device, ipAddress: context.ipAddress ?? null })
+
+  await emailService.sendEmail({
+    to: user.email,
+    ...emailTemplates.newDeviceSignIn({
+      recipientName: `${user.firstName} ${user.lastName}`,
+      signedInAt: new Date().toLocaleString(),
+      device,
+      ipAddress: context.ipAddress || 'unknown',
+      resetUrl: `${baseUrl ?? process.env.NEXTAUTH_URL ?? ''}/auth/forgot-password`
+    })
+  })
+}
+
+/** Lift a lockout and start the failure count again (admin only) */
+export async function unlockAccount(adminId: string, userId: string, ipAddress?: string | null) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true, lockedUntil: true }
+  })
+
+  if (!user) {
+    return { error: 'User not found', status: 404 }
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { lockedUntil: null }
+  })
+
+  await prisma.loginAttempt.create({
+    data: { userId, email: user.email, ipAddress: ipAddress ?? null, outcome: 'unlocked' }
+  })
+
+  await prisma.auditLog.create({
+    data: {
+      userId: adminId,
+      action: 'ACCOUNT_UNLOCKED',
+      targetType: 'User',
+      targetId: userId,
+      metadata: JSON.stringify({ lockedUntil: user.lockedUntil?.toISOString() ?? null }),
+      ipAddress: ipAddress ?? null
+    }
+  })
+
+  return { unlocked: true }
+}
+
+/**
+ * Recent sign-ins for the audit dashboard, with the patterns worth a look:
+ * locked accounts, addresses with many failures and accounts being guessed at.
+ */
+export async function getLoginActivity(days: number = 7) {
+  const now = new Date()
+  const since = new Date(now.getTime() - days * 24 * 60 * 60 * 1000)
+  const failedSince = { outcome: { in: FAILED_OUTCOMES }, createdAt: { gte: since } }
+
+  const [recent, lockedAccounts, failingAddresses, targetedAccounts, totals] = await Promise.all([
+    prisma.loginAttempt.findMany({
+      where: { createdAt: { gte: since } },
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+      include: { user: { select: { firstName: true, lastName: true, role: true } } }
+    }),
+    prisma.user.findMany({
+      where: { lockedUntil: { gt: now } },
+      select: { id: true, email: true, firstName: true, lastName: true, role: true, lockedUntil: true },
+      orderBy: { lockedUntil: 'desc' }
+    }),
+    prisma.loginAttempt.groupBy({
+      by: ['ipAddress'],
+      where: { ...failedSince, ipAddress: { not: null } },
+      _count: { _all: true },
+      orderBy: { _count: { ipAddress: 'desc' } },
+      take: 10
+    }),
+    prisma.loginAttempt.groupBy({
+      by: ['email'],
+      where: failedSince,
+      _count: { _all: true },
+      orderBy: { _count: { email: 'desc' } },
+      take: 10
+    }),
+    prisma.loginAttempt.groupBy({
+      by: ['outcome'],
+      where: { createdAt: { gte: since } },
+      _count: { _all: true }
+    })
+  ])
+
+  return {
+    days,
+    recent: recent.map(attempt => ({ ...attempt, device: describeDevice(attempt.userAgent) })),
+    lockedAccounts,
+    // Only addresses and accounts past the point where throttling starts are worth listing
+    suspiciousAddresses: failingAddresses
+      .filter(entry => entry._count._all >= IP_FREE_ATTEMPTS)
+      .map(entry => ({ ipAddress: entry.ipAddress, failures: entry._count._all })),
+    targetedAccounts: targetedAccounts
+      .filter(entry => entry._count._all >= ACCOUNT_FREE_ATTEMPTS)
+      .map(entry => ({ email: entry.email, failures: entry._count._all })),
+    outcomes: Object.fromEntries(totals.map(entry => [entry.outcome, entry._count._all]))
+  }
+}
@@ -1,5 +1,6 @@
 import { prisma } from '@/lib/db'
 import { enhancedNotificationService } from '@/lib/enhanced-notifications'
+import { getAcademicDayStatus } from '@/lib/academic-calendar'
 
 export class NotificationScheduler {
   private static instance: NotificationScheduler
@@ -27,6 +28,12 @@ export class NotificationScheduler {
       const currentMinute = targetTime.getMinutes().toString().padStart(2, '0')
       const targetTimeStr = `${currentHour}:${currentMinute}`
 
+      // No reminders on holidays, exam periods, reading weeks or between semesters
+      const dayStatus = await getAcademicDayStatus(targetTime)
+      if (!dayStatus.teaching) {
+        return
+      }
+
       console.log(`Checking for classes starting at ${targetTimeStr} on day ${currentDay}`)
 
       // Find classes starting exactly at this time (minute precision)
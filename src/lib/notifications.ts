@@ -1,4 +1,5 @@
 import { prisma } from '@/lib/db'
+import { publishNotificationEvent, publishNotificationsChanged } from '@/lib/realtime-events'
 
 export interface NotificationData {
   userId: string
@@ -36,6 +37,8 @@ export async function createNotification(data: NotificationData) {
       }
     })
 
+    publishNotificationEvent(notification)
+
     return notification
   } catch (error) {
     console.error('Error creating notification:', error)
@@ -64,6 +67,8 @@ export async function createBulkNotifications(notifications: NotificationData[])
       data: notificationData
     })
 
+    publishNotificationsChanged(notifications.map(notification => notification.userId))
+
     return result
   } catch (error) {
     console.error('Error creating bulk notifications:', error)
@@ -256,42 +261,77 @@ export async function notifySystemMaintenance({
  * Send attendance anomaly notification
  */
 export async function notifyAttendanceAnomaly({
-  coordinatorId,
+  recipientId,
   lecturerId,
   courseName,
   anomalyType,
-  details
+  details,
+  attendanceRecordId
 }: {
-  coordinatorId: string
+  recipientId: string
   lecturerId: string
   courseName: string
-  anomalyType: 'frequent_absence' | 'location_mismatch' | 'time_anomaly' | 'suspicious_pattern'
+  anomalyType: 'frequent_absence' | 'location_mismatch' | 'time_anomaly' | 'suspicious_pattern' | 'gps_spoofing' | 'impossible_travel' | 'device_anomaly'
   details: string
+  attendanceRecordId?: string
 }) {
   const anomalyMessages = {
     frequent_absence: 'Frequent absence pattern detected',
     location_mismatch: 'Location verification issues detected',
     time_anomaly: 'Unusual timing patterns detected',
-    suspicious_pattern: 'Suspicious attendance pattern detected'
+    suspicious_pattern: 'Suspicious attendance pattern detected',
+    gps_spoofing: 'Possible GPS spoofing detected',
+    impossible_travel: 'Impossible travel between check-ins detected',
+    device_anomaly: 'Unusual check-in device detected'
   }
 
   return createNotification({
-    userId: coordinatorId,
+    userId: recipientId,
     title: 'Attendance Anomaly Detected',
     message: `${anomalyMessages[anomalyType]} for ${courseName}. ${details}`,
     type: 'warning',
     priority: 'high',
-    actionUrl: `/dashboard/analytics?lecturer=${lecturerId}&course=${courseName}`,
+    actionUrl: attendanceRecordId
+      ? `/dashboard/verify-attendance?record=${attendanceRecordId}`
+      : `/dashboard/analytics?lecturer=${lecturerId}&course=${courseName}`,
     metadata: {
       lecturerId,
       courseName,
       anomalyType,
       details,
+      attendanceRecordId,
       type: 'attendance_anomaly'
     }
   })
 }
 
+/**
+ * Warn a user that their account was signed in to from a new device
+ */
+export async function notifyNewDeviceSignIn({
+  userId,
+  device,
+  ipAddress
+}: {
+  userId: string
+  device: string
+  ipAddress: string | null
+}) {
+  return createNotification({
+    userId,
+    title: 'New Sign-in Detected',
+    message: `Your account was signed in to from ${device}${ipAddress ? ` (${ipAddress})` : ''}. If this was not you, change your password now.`,
+    type: 'warning',
+    priority: 'high',
+    actionUrl: '/dashboard/profile',
+    metadata: {
+      device,
+      ipAddress,
+      type: 'new_device_sign_in'
+    }
+  })
+}
+
 /**
  * Send report generation notification
  */
@@ -0,0 +1,279 @@
+import { SessionType } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { toSessionDate } from '@/lib/class-sessions'
+import { resolveMeetingLink } from '@/lib/meeting-link'
+import { detectPlatform, type MeetingPlatform } from '@/lib/participant-reports'
+import { toScheduledTime } from '@/lib/punctuality'
+import { z } from 'zod'
+
+export const ISSUE_CATEGORIES = [
+  'audio',
+  'video',
+  'connectivity',
+  'screen_sharing',
+  'link_or_access',
+  'low_attendance',
+  'other'
+] as const
+
+export type IssueCategory = (typeof ISSUE_CATEGORIES)[number]
+
+export const MONITOR_STATUSES = ['ongoing', 'not_started', 'lecturer_absent', 'cancelled', 'technical_issues'] as const
+
+export const CONNECTION_QUALITIES = ['Excellent', 'Good', 'Poor', 'Unstable'] as const
+
+export const PLATFORM_LABELS: Record<MeetingPlatform, string> = {
+  zoom: 'Zoom',
+  meet: 'Google Meet',
+  teams: 'Microsoft Teams'
+}
+
+// Classes join the console this long before they are due to start
+export const LIVE_LOOKAHEAD_MINUTES = 15
+
+export const spotCheckSchema = z.object({
+  scheduleId: z.string().min(1, 'Schedule is required'),
+  classSessionId: z.string().min(1).nullable().optional(), // a make-up session; defaults to today's regular session
+  status: z.enum(MONITOR_STATUSES),
+  comments: z.string().max(2000).nullable().optional(),
+  platform: z.string().max(100).nullable().optional(),
+  connectionQuality: z.enum(CONNECTION_QUALITIES).nullable().optional(),
+  studentCountOnline: z.number().int().min(0).nullable().optional(),
+  issueCategories: z.array(z.enum(ISSUE_CATEGORIES)).default([]),
+  technicalIssues: z.string().max(2000).nullable().optional()
+})
+
+export type SpotCheckInput = z.infer<typeof spotCheckSchema>
+
+export interface TechnicalIssues {
+  categories: IssueCategory[]
+  notes: string | null
+}
+
+/**
+ * Where a class is from the console's point of view. "awaiting_start" is a
+ * class past its start time that the lecturer has not opened yet, the case
+ * supervisors most need to see.
+ */
+export type LiveState = 'upcoming' | 'awaiting_start' | 'live' | 'ended' | 'no_show'
+
+export interface LiveClass {
+  scheduleId: string
+  classSessionId: string | null
+  isMakeUp: boolean
+  sessionType: string
+  startTime: string
+  endTime: string
+  scheduledStartAt: string
+  course: { id: string; courseCode: string; title: string }
+  classGroup: { id: string; name: string }
+  lecturer: { id: string; name: string; email: string }
+  meetingLink: string | null
+  platform: string | null
+  state: LiveState
+  startedAt: string | null
+  endedAt: string | null
+  spotChecks: number
+  lastCheck: {
+    status: string
+    checkedAt: string
+    supervisorName: string
+    connectionQuality: string | null
+    issues: TechnicalIssues
+  } | null
+}
+
+export function serializeTechnicalIssues(categories: IssueCategory[], notes: string | null | undefined): string | null {
+  const trimmed = notes?.trim() || null
+  if (categories.length === 0 && !trimmed) {
+    return null
+  }
+
+  return JSON.stringify({ categories, notes: trimmed })
+}
+
+// Logs written before issues were categorised hold free text, which is kept as notes
+export function parseTechnicalIssues(value: string | null | undefined): TechnicalIssues {
+  if (!value) {
+    return { categories: [], notes: null }
+  }
+
+  try {
+    const parsed = JSON.parse(value)
+    if (parsed && typeof parsed === 'object' && Array.isArray(parsed.categories)) {
+      return {
+        categories: parsed.categories.filter((category: string): category is IssueCategory =>
+          (ISSUE_CATEGORIES as readonly string[]).includes(category)),
+        notes: typeof parsed.notes === 'string' ? parsed.notes : null
+      }
+    }
+  } catch {
+    // Not JSON
+  }
+
+  return { categories: [], notes: value }
+}
+
+export function platformLabel(link: string | null | undefined): string | null {
+  const platform = detectPlatform(link)
+  return platform ? PLATFORM_LABELS[platform] : null
+}
+
+export function getLiveState(
+  occurrence: { sessionDate: Date; startTime: string; endTime: string },
+  record: { sessionStartTime: Date | null; sessionEndTime: Date | null } | null,
+  now: Date
+): LiveState {
+  if (record?.sessionEndTime) {
+    return 'ended'
+  }
+
+  if (record?.sessionStartTime) {
+    return 'live'
+  }
+
+  if (now < toScheduledTime(occurrence.sessionDate, occurrence.startTime)) {
+    return 'upcoming'
+  }
+
+  return now < toScheduledTime(occurrence.sessionDate, occurrence.endTime) ? 'awaiting_start' : 'no_show'
+}
+
+/**
+ * Classes that belong on the console: anything due within the lookahead or
+ * within its scheduled hours, plus sessions still running past their end.
+ */
+export function isOnConsole(
+  occurrence: { sessionDate: Date; startTime: string; endTime: string },
+  state: LiveState,
+  now: Date
+): boolean {
+  if (state === 'live') {
+    return true
+  }
+
+  const opensAt = toScheduledTime(occurrence.sessionDate, occurrence.startTime).getTime() - LIVE_LOOKAHEAD_MINUTES * 60 * 1000
+  return now.getTime() >= opensAt && now < toScheduledTime(occurrence.sessionDate, occurrence.endTime)
+}
+
+const STATE_ORDER: Record<LiveState, number> = {
+  awaiting_start: 0,
+  live: 1,
+  upcoming: 2,
+  ended: 3,
+  no_show: 4
+}
+
+// Classes the lecturer has not opened come first, then running ones, then those about to start
+export function sortLiveClasses<T extends Pick<LiveClass, 'state' | 'startTime'>>(classes: T[]): T[] {
+  return [...classes].sort((a, b) =>
+    STATE_ORDER[a.state] - STATE_ORDER[b.state] || a.startTime.localeCompare(b.startTime)
+  )
+}
+
+export function minutesSince(from: Date, now: Date): number {
+  return Math.max(0, Math.floor((now.getTime() - from.getTime()) / 60000))
+}
+
+/**
+ * Virtual and hybrid classes running now or about to start, with whether the
+ * lecturer has opened the virtual session and the latest spot check.
+ * Make-up sessions are listed at their own times.
+ */
+export async function getLiveClasses(now: Date = new Date()): Promise<LiveClass[]> {
+  const sessionDate = toSessionDate(now)
+  const online = { sessionType: { in: [SessionType.VIRTUAL, SessionType.HYBRID] } }
+  const include = {
+    course: true,
+    classGroup: true,
+    classroom: true,
+    lecturer: { include: { user: true } }
+  }
+  const sessionInclude = {
+    attendanceRecords: { orderBy: { timestamp: 'asc' as const }, take: 1 },
+    supervisorLogs: {
+      where: { isOnline: true },
+      orderBy: { checkInTime: 'desc' as const },
+      include: { supervisor: { select: { firstName: true, lastName: true } } }
+    }
+  }
+
+  const [schedules, makeUpSessions] = await Promise.all([
+    prisma.courseSchedule.findMany({
+      where: { ...online, dayOfWeek: sessionDate.getUTCDay(), course: { isActive: true }, classGroup: { isActive: true } },
+      include: {
+        ...include,
+        classSessions: { where: { date: sessionDate, isMakeUp: false }, include: sessionInclude }
+      }
+    }),
+    prisma.classSession.findMany({
+      where: { date: sessionDate, isMakeUp: true, status: { notIn: ['cancelled', 'rescheduled'] }, courseSchedule: online },
+      include: { ...sessionInclude, courseSchedule: { include } }
+    })
+  ])
+
+  const classes: LiveClass[] = []
+
+  const addClass = (
+    schedule: (typeof makeUpSessions)[number]['courseSchedule'],
+    session: (typeof makeUpSessions)[number] | (typeof schedules)[number]['classSessions'][number] | null,
+    isMakeUp: boolean
+  ) => {
+    const occurrence = {
+      sessionDate,
+      startTime: session?.startTime ?? schedule.startTime,
+      endTime: session?.endTime ?? schedule.endTime
+    }
+    const record = session?.attendanceRecords[0] ?? null
+    const state = getLiveState(occurrence, record, now)
+
+    if (!isOnConsole(occurrence, state, now)) return
+
+    const meetingLink = resolveMeetingLink(schedule.meetingLink, schedule.classroom?.virtualLink)
+    const log = session?.supervisorLogs[0]
+
+    classes.push({
+      scheduleId: schedule.id,
+      classSessionId: session?.id ?? null,
+      isMakeUp,
+      sessionType: schedule.sessionType,
+      startTime: occurrence.startTime,
+      endTime: occurrence.endTime,
+      scheduledStartAt: toScheduledTime(sessionDate, occurrence.startTime).toISOString(),
+      course: { id: schedule.course.id, courseCode: schedule.course.courseCode, title: schedule.course.title },
+      classGroup: { id: schedule.classGroup.id, name: schedule.classGroup.name },
+      lecturer: {
+        id: schedule.lecturer.id,
+        name: `${schedule.lecturer.user.firstName} ${schedule.lecturer.user.lastName}`,
+        email: schedule.lecturer.user.email
+      },
+      meetingLink,
+      platform: platformLabel(meetingLink),
+      state,
+      startedAt: record?.sessionStartTime?.toISOString() ?? null,
+      endedAt: record?.sessionEndTime?.toISOString() ?? null,
+      spotChecks: session?.supervisorLogs.length ?? 0,
+      lastCheck: log
+        ? {
+            status: log.status,
+            checkedAt: log.checkInTime.toISOString(),
+            supervisorName: `${log.supervisor.firstName} ${log.supervisor.lastName}`,
+            connectionQuality: log.connectionQuality,
+            issues: parseTechnicalIssues(log.technicalIssues)
+          }
+        : null
+    })
+  }
+
+  for (const schedule of schedules) {
+    const session = schedule.classSessions[0] ?? null
+    if (session && ['cancelled', 'rescheduled'].includes(session.status)) continue
+    addClass(schedule, session, false)
+  }
+
+  for (const session of makeUpSessions) {
+    addClass(session.courseSchedule, session, true)
+  }
+
+  return sortLiveClasses(classes)
+}
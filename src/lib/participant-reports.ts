@@ -0,0 +1,547 @@
+import { prisma } from '@/lib/db'
+import { toSessionDate } from '@/lib/class-sessions'
+import { resolveMeetingLink } from '@/lib/meeting-link'
+import { toScheduledTime } from '@/lib/punctuality'
+import { verifySessionDuration } from '@/lib/virtual-verification'
+import { getVerificationPolicy, applyVerificationRules } from '@/lib/verification-rules'
+
+export type MeetingPlatform = 'zoom' | 'teams' | 'meet'
+
+export const MEETING_PLATFORMS: MeetingPlatform[] = ['zoom', 'teams', 'meet']
+
+export interface ParticipantInterval {
+  name: string
+  email: string | null
+  role: string | null
+  joinTime: Date
+  leaveTime: Date
+}
+
+export interface ParticipantReport {
+  platform: MeetingPlatform
+  meetingId: string | null
+  meetingStart: Date | null
+  meetingEnd: Date | null
+  hostEmail: string | null
+  participants: ParticipantInterval[]
+}
+
+export interface ParticipantSummary {
+  participantCount: number
+  hostJoinTime: Date | null
+  hostLeaveTime: Date | null
+  engagementScore: number | null
+}
+
+export type ParticipantReportParseResult =
+  | { report: ParticipantReport }
+  | { error: string }
+
+// Report roles that identify the meeting owner
+const HOST_ROLES = ['host', 'organizer', 'organiser']
+
+// Header spellings used by the Zoom, Teams and Meet exports, after normalisation
+const COLUMN_ALIASES = {
+  name: ['nameoriginalname', 'name', 'fullname', 'participantname', 'displayname', 'participant'],
+  firstName: ['firstname'],
+  lastName: ['lastname'],
+  email: ['useremail', 'email', 'emailaddress', 'participantidupn', 'upn'],
+  role: ['role', 'participantrole'],
+  joinTime: ['jointime', 'firstjoin', 'timejoined', 'joined', 'firstseen', 'jointimestamp'],
+  leaveTime: ['leavetime', 'lastleave', 'timeexited', 'left', 'lastseen', 'leavetimestamp'],
+  action: ['useraction', 'action'],
+  timestamp: ['timestamp']
+}
+
+const SUMMARY_ALIASES = {
+  meetingId: ['meetingid', 'meetingcode', 'conferenceid'],
+  meetingStart: ['starttime', 'meetingstarttime'],
+  meetingEnd: ['endtime', 'meetingendtime'],
+  hostEmail: ['useremail', 'organizeremail', 'organiseremail', 'hostemail']
+}
+
+function normalizeHeader(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+function findColumn(headers: string[], aliases: string[]): number {
+  for (const alias of aliases) {
+    const index = headers.indexOf(alias)
+    if (index !== -1) return index
+  }
+  return -1
+}
+
+/**
+ * Normalise a platform meeting ID so report and timetable values compare
+ * equal: Zoom IDs are digits shown with spaces, Meet codes are lower case.
+ */
+export function normalizeMeetingId(platform: MeetingPlatform, meetingId: string): string {
+  const trimmed = meetingId.trim()
+  if (platform === 'zoom') {
+    return trimmed.replace(/\D/g, '')
+  }
+  return trimmed.toLowerCase()
+}
+
+/**
+ * Pull the meeting ID out of a timetable meeting link
+ */
+export function extractMeetingId(platform: MeetingPlatform, link: string | null | undefined): string | null {
+  if (!link) return null
+
+  try {
+    const url = new URL(link)
+
+    if (platform === 'zoom') {
+      const match = url.pathname.match(/\/(?:j|s|w|wc\/join)\/(\d{9,11})/)
+      return match ? match[1] : null
+    }
+
+    if (platform === 'meet') {
+      const match = url.pathname.match(/^\/([a-z]{3}-[a-z]{4}-[a-z]{3})/i)
+      return match ? match[1].toLowerCase() : null
+    }
+
+    // Teams links carry the meeting thread after meetup-join/
+    const match = url.pathname.match(/meetup-join\/([^/]+)/)
+    return match ? normalizeMeetingId('teams', decodeURIComponent(match[1])) : null
+  } catch {
+    return null
+  }
+}
+
+export function detectPlatform(link: string | null | undefined): MeetingPlatform | null {
+  if (!link) return null
+  if (link.includes('zoom.us')) return 'zoom'
+  if (link.includes('meet.google.com')) return 'meet'
+  if (link.includes('teams.microsoft.com') || link.includes('teams.live.com')) return 'teams'
+  return null
+}
+
+/**
+ * Parse a report timestamp. Exports use the account's local time without a
+ * zone; campus time is UTC, so zone-less values are read as UTC. Time-only
+ * values (Meet) are placed on the reference date.
+ */
+export function parseReportTime(value: string, referenceDate?: Date | null): Date | null {
+  const text = value.trim()
+  if (!text) return null
+
+  const usDate = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4}),?\s+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([ap]\.?m\.?)?$/i)
+  if (usDate) {
+    const [, month, day, rawYear, rawHour, minute, second, meridiem] = usDate
+    const year = rawYear.length === 2 ? 2000 + Number(rawYear) : Number(rawYear)
+    return new Date(Date.UTC(year, Number(month) - 1, Number(day), to24Hour(Number(rawHour), meridiem), Number(minute), Number(second ?? 0)))
+  }
+
+  const isoLocal = text.match(/^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2})(?::(\d{2}))?$/)
+  if (isoLocal) {
+    const [, year, month, day, hour, minute, second] = isoLocal
+    return new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second ?? 0)))
+  }
+
+  const timeOnly = text.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([ap]\.?m\.?)?$/i)
+  if (timeOnly) {
+    if (!referenceDate) return null
+    const [, rawHour, minute, second, meridiem] = timeOnly
+    const result = toSessionDate(referenceDate)
+    result.setUTCHours(to24Hour(Number(rawHour), meridiem), Number(minute), Number(second ?? 0), 0)
+    return result
+  }
+
+  const parsed = Date.parse(text)
+  return isNaN(parsed) ? null : new Date(parsed)
+}
+
+function to24Hour(hour: number, meridiem?: string): number {
+  if (!meridiem) return hour
+  const pm = meridiem.toLowerCase().startsWith('p')
+  if (hour === 12) return pm ? 12 : 0
+  return pm ? hour + 12 : hour
+}
+
+/**
+ * Read a participant report from spreadsheet rows. Handles Zoom's participant
+ * and meeting reports, Teams attendance reports (summary + participants, or
+ * the older joined/left event log) and Meet attendance exports.
+ */
+export function parseParticipantRows(
+  platform: MeetingPlatform,
+  rows: string[][],
+  options: { meetingId?: string | null; referenceDate?: Date | null } = {}
+): ParticipantReportParseResult {
+  const cells = rows.map(row => row.map(cell => String(cell ?? '').trim()))
+  const headerIndex = cells.findIndex(row => {
+    const headers = row.map(normalizeHeader)
+    return findColumn(headers, COLUMN_ALIASES.joinTime) !== -1 || findColumn(headers, COLUMN_ALIASES.action) !== -1
+  })
+
+  if (headerIndex === -1) {
+    return { error: 'No participant list found. Export the participant or attendance report from the meeting platform' }
+  }
+
+  // Meeting details above the participant list, either as a header row with
+  // values below it (Zoom) or as label/value pairs (Teams)
+  const summary: Record<keyof typeof SUMMARY_ALIASES, string | null> = {
+    meetingId: null,
+    meetingStart: null,
+    meetingEnd: null,
+    hostEmail: null
+  }
+  for (let i = 0; i < headerIndex; i++) {
+    const headers = cells[i].map(normalizeHeader)
+    const isLabelValuePair = cells[i].filter(cell => cell !== '').length <= 2
+    for (const key of Object.keys(SUMMARY_ALIASES) as (keyof typeof SUMMARY_ALIASES)[]) {
+      if (summary[key]) continue
+      const column = findColumn(headers, SUMMARY_ALIASES[key])
+      if (column === -1) continue
+      if (isLabelValuePair) {
+        if (column === 0 && cells[i][1]) summary[key] = cells[i][1]
+      } else if (cells[i + 1]?.[column] && i + 1 < headerIndex) {
+        summary[key] = cells[i + 1][column]
+      }
+    }
+  }
+
+  const meetingStart = summary.meetingStart ? parseReportTime(summary.meetingStart, options.referenceDate) : null
+  const referenceDate = options.referenceDate ?? meetingStart
+  const headers = cells[headerIndex].map(normalizeHeader)
+  const column = {
+    name: findColumn(headers, COLUMN_ALIASES.name),
+    firstName: findColumn(headers, COLUMN_ALIASES.firstName),
+    lastName: findColumn(headers, COLUMN_ALIASES.lastName),
+    email: findColumn(headers, COLUMN_ALIASES.email),
+    role: findColumn(headers, COLUMN_ALIASES.role),
+    joinTime: findColumn(headers, COLUMN_ALIASES.joinTime),
+    leaveTime: findColumn(headers, COLUMN_ALIASES.leaveTime),
+    action: findColumn(headers, COLUMN_ALIASES.action),
+    timestamp: findColumn(headers, COLUMN_ALIASES.timestamp)
+  }
+
+  const bodyRows = cells.slice(headerIndex + 1).filter(row => row.some(cell => cell !== ''))
+  const nameOf = (row: string[]) => {
+    if (column.name !== -1 && row[column.name]) return row[column.name]
+    return [row[column.firstName] ?? '', row[column.lastName] ?? ''].join(' ').trim()
+  }
+
+  const participants: ParticipantInterval[] = []
+
+  if (column.joinTime !== -1 && column.leaveTime !== -1) {
+    for (const row of bodyRows) {
+      const joinTime = parseReportTime(row[column.joinTime] ?? '', referenceDate)
+      const leaveTime = parseReportTime(row[column.leaveTime] ?? '', referenceDate)
+      // Rows without both times are section breaks or totals
+      if (!joinTime || !leaveTime || leaveTime < joinTime) continue
+
+      participants.push({
+        name: nameOf(row),
+        email: column.email !== -1 && row[column.email] ? row[column.email].toLowerCase() : null,
+        role: column.role !== -1 && row[column.role] ? row[column.role].toLowerCase() : null,
+        joinTime,
+        leaveTime
+      })
+    }
+  } else if (column.action !== -1 && column.timestamp !== -1) {
+    // Teams event log: pair each join with the next leave for the same person
+    const open = new Map<string, { row: string[]; joinTime: Date }>()
+    for (const row of bodyRows) {
+      const time = parseReportTime(row[column.timestamp] ?? '', referenceDate)
+      if (!time) continue
+      const key = (column.email !== -1 && row[column.email]) || nameOf(row)
+      const action = row[column.action].toLowerCase()
+
+      if (action.startsWith('joined')) {
+        if (!open.has(key)) open.set(key, { row, joinTime: time })
+      } else if (action.startsWith('left')) {
+        const joined = open.get(key)
+        if (!joined) continue
+        open.delete(key)
+        participants.push({
+          name: nameOf(joined.row),
+          email: column.email !== -1 && joined.row[column.email] ? joined.row[column.email].toLowerCase() : null,
+          role: column.role !== -1 && joined.row[column.role] ? joined.row[column.role].toLowerCase() : null,
+          joinTime: joined.joinTime,
+          leaveTime: time
+        })
+      }
+    }
+  } else {
+    return { error: 'The participant list needs join and leave times' }
+  }
+
+  if (participants.length === 0) {
+    return { error: 'No participants with join and leave times were found in the report' }
+  }
+
+  const meetingId = options.meetingId || summary.meetingId
+
+  return {
+    report: {
+      platform,
+      meetingId: meetingId ? normalizeMeetingId(platform, meetingId) : null,
+      meetingStart,
+      meetingEnd: summary.meetingEnd ? parseReportTime(summary.meetingEnd, referenceDate) : null,
+      hostEmail: summary.hostEmail ? summary.hostEmail.toLowerCase() : null,
+      participants
+    }
+  }
+}
+
+function isHost(participant: ParticipantInterval, hostEmails: string[]): boolean {
+  if (participant.role && HOST_ROLES.includes(participant.role)) return true
+  if (participant.email && hostEmails.includes(participant.email)) return true
+  // Zoom marks the host in the display name
+  return /\(host\)/i.test(participant.name)
+}
+
+/**
+ * Aggregate a report against the scheduled class window: the host's first
+ * join and last leave, how many distinct attendees joined, and engagement as
+ * the average share of the class each attendee was present for.
+ */
+export function summarizeParticipantReport(
+  report: ParticipantReport,
+  window: { start: Date; end: Date },
+  hostEmails: string[] = []
+): ParticipantSummary {
+  const emails = [...hostEmails, ...(report.hostEmail ? [report.hostEmail] : [])].map(email => email.toLowerCase())
+  const hostIntervals = report.participants.filter(participant => isHost(participant, emails))
+  const attendees = new Map<string, ParticipantInterval[]>()
+
+  for (const participant of report.participants) {
+    if (hostIntervals.includes(participant)) continue
+    const key = participant.email || participant.name.toLowerCase()
+    attendees.set(key, [...(attendees.get(key) ?? []), participant])
+  }
+
+  const windowMs = window.end.getTime() - window.start.getTime()
+  let engagementScore: number | null = null
+
+  if (windowMs > 0 && attendees.size > 0) {
+    const shares = Array.from(attendees.values()).map(intervals => {
+      // Merge rejoins so overlapping rows are not double counted
+      const sorted = intervals
+        .map(interval => ({
+          start: Math.max(interval.joinTime.getTime(), window.start.getTime()),
+          end: Math.min(interval.leaveTime.getTime(), window.end.getTime())
+        }))
+        .filter(interval => interval.end > interval.start)
+        .sort((a, b) => a.start - b.start)
+
+      let attended = 0
+      let cursor = -Infinity
+      for (const interval of sorted) {
+        const start = Math.max(interval.start, cursor)
+        if (interval.end > start) attended += interval.end - start
+        cursor = Math.max(cursor, interval.end)
+      }
+      return Math.min(1, attended / windowMs)
+    })
+
+    engagementScore = Math.round((shares.reduce((sum, share) => sum + share, 0) / shares.length) * 1000) / 10
+  }
+
+  return {
+    participantCount: attendees.size,
+    hostJoinTime: hostIntervals.length > 0
+      ? new Date(Math.min(...hostIntervals.map(interval => interval.joinTime.getTime())))
+      : null,
+    hostLeaveTime: hostIntervals.length > 0
+      ? new Date(Math.max(...hostIntervals.map(interval => interval.leaveTime.getTime())))
+      : null,
+    engagementScore
+  }
+}
+
+function reportStart(report: ParticipantReport): Date {
+  return report.meetingStart ?? new Date(Math.min(...report.participants.map(participant => participant.joinTime.getTime())))
+}
+
+/**
+ * Find the timetabled class a report belongs to: an explicitly chosen
+ * schedule, then a VirtualSession with the same meeting ID, then any schedule
+ * whose meeting link carries the ID. Only schedules on the report's weekday
+ * (or with a make-up that day) are considered.
+ */
+async function findReportSchedule(report: ParticipantReport, scheduleId?: string | null) {
+  const include = { lecturer: { include: { user: true } }, classroom: true, classGroup: true }
+
+  if (scheduleId) {
+    return prisma.courseSchedule.findUnique({ where: { id: scheduleId }, include })
+  }
+
+  if (!report.meetingId) return null
+
+  const start = reportStart(report)
+  const sessionDate = toSessionDate(start)
+  const onReportDay = {
+    OR: [
+      { dayOfWeek: start.getUTCDay() },
+      { classSessions: { some: { date: sessionDate, isMakeUp: true } } }
+    ]
+  }
+
+  const virtualSession = await prisma.virtualSession.findFirst({
+    where: {
+      meetingId: report.meetingId,
+      platform: report.platform,
+      courseSchedule: onReportDay
+    },
+    include: { courseSchedule: { include } }
+  })
+
+  if (virtualSession) return virtualSession.courseSchedule
+
+  const candidates = await prisma.courseSchedule.findMany({
+    where: {
+      ...onReportDay,
+      OR: [
+        { meetingLink: { not: null } },
+        { classroom: { virtualLink: { not: null } } }
+      ]
+    },
+    include
+  })
+
+  return candidates.find(schedule =>
+    extractMeetingId(report.platform, resolveMeetingLink(schedule.meetingLink, schedule.classroom?.virtualLink)) === report.meetingId
+  ) ?? null
+}
+
+/**
+ * Store a parsed report, match it to the class it belongs to and fill the
+ * virtual attendance record with the host's real join/leave times, the
+ * participant count and an engagement score.
+ */
+export async function ingestParticipantReport(
+  report: ParticipantReport,
+  options: { source: 'csv' | 'webhook'; scheduleId?: string | null; fileName?: string | null; uploadedBy?: string | null }
+) {
+  const schedule = await findReportSchedule(report, options.scheduleId)
+  const start = reportStart(report)
+
+  if (!schedule) {
+    const summary = summarizeParticipantReport(report, {
+      start,
+      end: report.meetingEnd ?? new Date(Math.max(...report.participants.map(participant => participant.leaveTime.getTime())))
+    })
+
+    const stored = await prisma.meetingParticipantReport.create({
+      data: {
+        platform: report.platform,
+        source: options.source,
+        meetingId: report.meetingId,
+        meetingStart: report.meetingStart,
+        meetingEnd: report.meetingEnd,
+        status: 'unmatched',
+        ...summary,
+        fileName: options.fileName ?? null,
+        uploadedBy: options.uploadedBy ?? null
+      }
+    })
+
+    return { report: stored, schedule: null, attendanceRecord: null }
+  }
+
+  // A make-up that day keeps its own times; otherwise use the regular session
+  const sessionDate = toSessionDate(start)
+  const classSessions = await prisma.classSession.findMany({
+    where: { courseScheduleId: schedule.id, date: sessionDate }
+  })
+  const classSession = classSessions.find(candidate =>
+    toScheduledTime(sessionDate, candidate.startTime) <= (report.meetingEnd ?? start) &&
+    toScheduledTime(sessionDate, candidate.endTime) >= start
+  ) ?? classSessions[0] ?? null
+
+  const startTime = classSession?.startTime ?? schedule.startTime
+  const endTime = classSession?.endTime ?? schedule.endTime
+  const summary = summarizeParticipantReport(
+    report,
+    { start: toScheduledTime(sessionDate, startTime), end: toScheduledTime(sessionDate, endTime) },
+    [schedule.lecturer.user.email]
+  )
+
+  const meetingLink = resolveMeetingLink(schedule.meetingLink, schedule.classroom?.virtualLink) ?? ''
+  const existingVirtualSession = await prisma.virtualSession.findFirst({
+    where: {
+      courseScheduleId: schedule.id,
+      platform: report.platform,
+      ...(report.meetingId ? { meetingId: report.meetingId } : {})
+    }
+  })
+  const virtualSession = existingVirtualSession
+    ? await prisma.virtualSession.update({
+        where: { id: existingVirtualSession.id },
+        data: { actualParticipants: summary.participantCount }
+      })
+    : await prisma.virtualSession.create({
+        data: {
+          lecturerId: schedule.lecturerId,
+          courseScheduleId: schedule.id,
+          meetingLink,
+          meetingId: report.meetingId,
+          platform: report.platform,
+          actualParticipants: summary.participantCount
+        }
+      })
+
+  const existingRecord = await prisma.attendanceRecord.findFirst({
+    where: classSession
+      ? { courseScheduleId: schedule.id, classSessionId: classSession.id }
+      : {
+          courseScheduleId: schedule.id,
+          timestamp: { gte: sessionDate, lt: new Date(sessionDate.getTime() + 24 * 60 * 60 * 1000) }
+        }
+  })
+
+  let attendanceRecord = null
+  // Records on an approved claim are linked to the report but keep the figures they were paid on
+  if (existingRecord?.lockedAt) {
+    attendanceRecord = existingRecord
+  } else if (existingRecord) {
+    const { policy } = await getVerificationPolicy({
+      programmeId: schedule.classGroup.programmeId,
+      deliveryMode: schedule.classGroup.deliveryMode,
+      sessionType: schedule.sessionType
+    })
+    const sessionStartTime = summary.hostJoinTime ?? existingRecord.sessionStartTime
+    const sessionEndTime = summary.hostLeaveTime ?? existingRecord.sessionEndTime
+
+    attendanceRecord = await prisma.attendanceRecord.update({
+      where: { id: existingRecord.id },
+      data: {
+        virtualSessionId: virtualSession.id,
+        sessionStartTime,
+        sessionEndTime,
+        ...(sessionStartTime && sessionEndTime
+          ? {
+              sessionDuration: Math.floor((sessionEndTime.getTime() - sessionStartTime.getTime()) / 60000),
+              sessionDurationMet: verifySessionDuration(sessionStartTime, sessionEndTime, startTime, endTime, policy.minimumSessionDurationPercentage).verified
+            }
+          : {}),
+        engagementScore: summary.engagementScore
+      }
+    })
+    await applyVerificationRules(attendanceRecord.id)
+  }
+
+  const stored = await prisma.meetingParticipantReport.create({
+    data: {
+      platform: report.platform,
+      source: options.source,
+      meetingId: report.meetingId,
+      meetingStart: report.meetingStart,
+      meetingEnd: report.meetingEnd,
+      status: 'matched',
+      courseScheduleId: schedule.id,
+      virtualSessionId: virtualSession.id,
+      attendanceRecordId: attendanceRecord?.id ?? null,
+      ...summary,
+      fileName: options.fileName ?? null,
+      uploadedBy: options.uploadedBy ?? null
+    }
+  })
+
+  return { report: stored, schedule, attendanceRecord }
+}
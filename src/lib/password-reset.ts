@@ -0,0 +1,216 @@
+import { createHash, randomBytes } from 'crypto'
+import jwt from 'jsonwebtoken'
+import { z } from 'zod'
+import { prisma } from '@/lib/db'
+import { hashPassword } from '@/lib/auth'
+import { emailService, emailTemplates } from '@/lib/email'
+import { smsService, smsTemplates } from '@/lib/sms'
+
+export type PasswordResetChannel = 'email' | 'sms'
+
+export type PasswordResetPurpose = 'reset' | 'setup'
+
+// Reset links are short-lived; set-up links for new accounts wait a few days
+// for the person to get round to their email
+export const PASSWORD_RESET_TTL_MINUTES = 60
+export const ACCOUNT_SETUP_TTL_HOURS = 72
+
+// Reset requests allowed per email address and per client address in each
+// window. Requests over the limit get the usual answer but send nothing.
+export const RESET_REQUEST_WINDOW_MINUTES = 60
+export const RESET_REQUESTS_PER_EMAIL = 3
+export const RESET_REQUESTS_PER_IP = 10
+
+export const MIN_PASSWORD_LENGTH = 8
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().email('Invalid email address'),
+  channel: z.enum(['email', 'sms']).default('email')
+})
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Reset token is required'),
+  password: z.string().min(MIN_PASSWORD_LENGTH, `Password must be at least ${MIN_PASSWORD_LENGTH} characters long`)
+})
+
+interface ResetTokenPayload extends jwt.JwtPayload {
+  type: 'password_reset'
+  purpose: PasswordResetPurpose
+  fingerprint: string
+  sub: string
+}
+
+function getSecret(): string {
+  const secret = process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new Error('NEXTAUTH_SECRET is not set')
+  }
+  return secret
+}
+
+/**
+ * Part of a hash of the current password hash. It goes into every reset
+ * token, so a token stops working once the password it was issued against
+ * has been changed, which makes each link single-use.
+ */
+export function passwordFingerprint(passwordHash: string): string {
+  return createHash('sha256').update(passwordHash).digest('hex').slice(0, 16)
+}
+
+export function createResetToken(
+  user: { id: string; passwordHash: string },
+  purpose: PasswordResetPurpose = 'reset'
+): string {
+  return jwt.sign(
+    { type: 'password_reset', purpose, fingerprint: passwordFingerprint(user.passwordHash) },
+    getSecret(),
+    {
+      subject: user.id,
+      expiresIn: purpose === 'setup' ? `${ACCOUNT_SETUP_TTL_HOURS}h` : `${PASSWORD_RESET_TTL_MINUTES}m`
+    }
+  )
+}
+
+export function verifyResetToken(token: string): ResetTokenPayload | null {
+  try {
+    const payload = jwt.verify(token, getSecret()) as ResetTokenPayload
+    return payload.type === 'password_reset' && payload.sub ? payload : null
+  } catch {
+    return null
+  }
+}
+
+// Links go out by email and SMS, so they are built from NEXTAUTH_URL rather
+// than the Host header of whoever asked for them
+export function linkBaseUrl(requestOrigin: string): string {
+  return (process.env.NEXTAUTH_URL || requestOrigin).replace(/\/$/, '')
+}
+
+export function resetPasswordUrl(baseUrl: string, token: string): string {
+  return `${baseUrl}/auth/reset-password?token=${encodeURIComponent(token)}`
+}
+
+// A password nobody knows, for accounts whose owner sets their own by link
+export function createTemporaryPassword(): string {
+  return randomBytes(18).toString('base64url')
+}
+
+/**
+ * Send a reset link by email or SMS. Nothing tells the caller whether the
+ * account exists, so the form cannot be used to find out who has one.
+ */
+export async function requestPasswordReset(
+  email: string,
+  channel: PasswordResetChannel,
+  baseUrl: string,
+  ipAddress?: string | null
+): Promise<void> {
+  if (!(await isResetRequestAllowed(email, ipAddress ?? null))) {
+    return
+  }
+
+  const user = await prisma.user.findUnique({ where: { email } })
+
+  // Kept with the sign-in attempts, whether or not the account exists
+  await prisma.loginAttempt.create({
+    data: { userId: user?.id ?? null, email, ipAddress: ipAddress ?? null, outcome: 'reset_requested' }
+  })
+
+  if (!user || !user.isActive) {
+    return
+  }
+
+  const resetUrl = resetPasswordUrl(baseUrl, createResetToken(user))
+  const expiresIn = `${PASSWORD_RESET_TTL_MINUTES} minutes`
+
+  // Users without a phone number get the email instead
+  const deliveredBy: PasswordResetChannel = channel === 'sms' && user.phoneNumber ? 'sms' : 'email'
+
+  const result = deliveredBy === 'sms'
+    ? await smsService.sendSMS({
+        to: user.phoneNumber!,
+        message: smsTemplates.passwordReset({ resetUrl, expiresIn }).message,
+        priority: 'high'
+      })
+    : await emailService.sendEmail({
+        to: user.email,
+        ...emailTemplates.passwordReset({ recipientName: `${user.firstName} ${user.lastName}`, resetUrl, expiresIn })
+      })
+
+  await prisma.auditLog.create({
+    data: {
+      userId: user.id,
+      action: 'PASSWORD_RESET_REQUESTED',
+      targetType: 'User',
+      targetId: user.id,
+      metadata: JSON.stringify({ channel: deliveredBy, delivered: result.success, error: result.error }),
+      ipAddress: ipAddress ?? null
+    }
+  })
+}
+
+async function isResetRequestAllowed(email: string, ipAddress: string | null, now: Date = new Date()): Promise<boolean> {
+  const since = new Date(now.getTime() - RESET_REQUEST_WINDOW_MINUTES * 60 * 1000)
+  const recent = { outcome: 'reset_requested', createdAt: { gte: since } }
+
+  const [byEmail, byAddress] = await Promise.all([
+    prisma.loginAttempt.count({ where: { ...recent, email } }),
+    ipAddress ? prisma.loginAttempt.count({ where: { ...recent, ipAddress } }) : Promise.resolve(0)
+  ])
+
+  return byEmail < RESET_REQUESTS_PER_EMAIL && byAddress < RESET_REQUESTS_PER_IP
+}
+
+/**
+ * Set a new password from a reset or set-up link. Clears any forced
+ * password change, since the user has just chosen their own.
+ */
+export async function resetPassword(token: string, password: string, ipAddress?: string | null) {
+  const payload = verifyResetToken(token)
+
+  if (!payload) {
+    return { error: 'This reset link is invalid or has expired', status: 400 }
+  }
+
+  const user = await prisma.user.findUnique({ where: { id: payload.sub } })
+
+  if (!user || !user.isActive || passwordFingerprint(user.passwordHash) !== payload.fingerprint) {
+    return { error: 'This reset link is invalid or has already been used', status: 400 }
+  }
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { passwordHash: await hashPassword(password), mustChangePassword: false }
+  })
+
+  await prisma.auditLog.create({
+    data: {
+      userId: user.id,
+      action: payload.purpose === 'setup' ? 'ACCOUNT_SETUP_COMPLETED' : 'PASSWORD_RESET',
+      targetType: 'User',
+      targetId: user.id,
+      metadata: JSON.stringify({ purpose: payload.purpose }),
+      ipAddress: ipAddress ?? null
+    }
+  })
+
+  return { email: user.email }
+}
+
+/** Email a new account a link to choose its password */
+export async function sendAccountSetup(
+  user: { id: string; email: string; firstName: string; lastName: string; passwordHash: string },
+  baseUrl: string
+) {
+  const setupUrl = resetPasswordUrl(baseUrl, createResetToken(user, 'setup'))
+
+  return emailService.sendEmail({
+    to: user.email,
+    ...emailTemplates.accountSetup({
+      recipientName: `${user.firstName} ${user.lastName}`,
+      email: user.email,
+      setupUrl,
+      expiresIn: `${ACCOUNT_SETUP_TTL_HOURS} hours`
+    })
+  })
+}
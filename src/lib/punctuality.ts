@@ -0,0 +1,130 @@
+import { prisma } from '@/lib/db'
+
+export interface PunctualitySettings {
+  lateGraceMinutes: number
+  earlyLeaveGraceMinutes: number
+}
+
+export const DEFAULT_PUNCTUALITY_SETTINGS: PunctualitySettings = {
+  lateGraceMinutes: 10,
+  earlyLeaveGraceMinutes: 10
+}
+
+const SETTINGS_CATEGORY = 'attendance'
+const SETTING_KEYS: Record<keyof PunctualitySettings, string> = {
+  lateGraceMinutes: 'late_grace_minutes',
+  earlyLeaveGraceMinutes: 'early_leave_grace_minutes'
+}
+
+export interface PunctualityRecord {
+  lateMinutes: number | null
+  earlyLeaveMinutes: number | null
+}
+
+export interface PunctualitySummary {
+  checkIns: number
+  lateArrivals: number
+  averageLateMinutes: number
+  checkOuts: number
+  earlyDepartures: number
+  averageEarlyLeaveMinutes: number
+  punctualityRate: number // % of timed sessions with neither a late arrival nor an early departure
+}
+
+/**
+ * Combine a session's calendar day with an HH:MM schedule time. Session dates
+ * are stored at UTC midnight, matching the rest of the timetable code.
+ */
+export function toScheduledTime(sessionDate: Date, time: string): Date {
+  const [hours, minutes] = time.split(':').map(Number)
+  const scheduled = new Date(sessionDate)
+  scheduled.setUTCHours(hours, minutes, 0, 0)
+  return scheduled
+}
+
+/**
+ * Minutes after the scheduled start, or 0 when the lecturer arrived within the
+ * grace period. Once the grace period is exceeded the full delay is reported.
+ */
+export function calculateLateMinutes(checkIn: Date, sessionDate: Date, startTime: string, graceMinutes: number): number {
+  const minutesLate = Math.floor((checkIn.getTime() - toScheduledTime(sessionDate, startTime).getTime()) / 60000)
+  return minutesLate > graceMinutes ? minutesLate : 0
+}
+
+/**
+ * Minutes before the scheduled end, or 0 when the lecturer left within the
+ * grace period or after the class ended.
+ */
+export function calculateEarlyLeaveMinutes(checkOut: Date, sessionDate: Date, endTime: string, graceMinutes: number): number {
+  const minutesEarly = Math.floor((toScheduledTime(sessionDate, endTime).getTime() - checkOut.getTime()) / 60000)
+  return minutesEarly > graceMinutes ? minutesEarly : 0
+}
+
+export function summarizePunctuality(records: PunctualityRecord[]): PunctualitySummary {
+  const checkedIn = records.filter(record => record.lateMinutes !== null)
+  const checkedOut = records.filter(record => record.earlyLeaveMinutes !== null)
+  const late = checkedIn.filter(record => record.lateMinutes! > 0)
+  const early = checkedOut.filter(record => record.earlyLeaveMinutes! > 0)
+  const onTime = checkedIn.filter(record => record.lateMinutes === 0 && !record.earlyLeaveMinutes)
+
+  const average = (values: number[]) =>
+    values.length > 0 ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10 : 0
+
+  return {
+    checkIns: checkedIn.length,
+    lateArrivals: late.length,
+    averageLateMinutes: average(late.map(record => record.lateMinutes!)),
+    checkOuts: checkedOut.length,
+    earlyDepartures: early.length,
+    averageEarlyLeaveMinutes: average(early.map(record => record.earlyLeaveMinutes!)),
+    punctualityRate: checkedIn.length > 0 ? Math.round((onTime.length / checkedIn.length) * 10000) / 100 : 0
+  }
+}
+
+export async function getPunctualitySettings(): Promise<PunctualitySettings> {
+  const settings = await prisma.systemSettings.findMany({
+    where: {
+      category: SETTINGS_CATEGORY,
+      key: { in: Object.values(SETTING_KEYS) },
+      isActive: true
+    }
+  })
+
+  const result = { ...DEFAULT_PUNCTUALITY_SETTINGS }
+  for (const field of Object.keys(SETTING_KEYS) as (keyof PunctualitySettings)[]) {
+    const stored = settings.find(setting => setting.key === SETTING_KEYS[field])
+    const value = stored ? Number(stored.value) : NaN
+    if (Number.isFinite(value) && value >= 0) {
+      result[field] = value
+    }
+  }
+
+  return result
+}
+
+export async function updatePunctualitySettings(settings: PunctualitySettings): Promise<PunctualitySettings> {
+  await prisma.$transaction([
+    prisma.systemSettings.upsert({
+      where: { category_key: { category: SETTINGS_CATEGORY, key: SETTING_KEYS.lateGraceMinutes } },
+      update: { value: JSON.stringify(settings.lateGraceMinutes), isActive: true },
+      create: {
+        category: SETTINGS_CATEGORY,
+        key: SETTING_KEYS.lateGraceMinutes,
+        value: JSON.stringify(settings.lateGraceMinutes),
+        description: 'Minutes after the scheduled start before a check-in counts as late'
+      }
+    }),
+    prisma.systemSettings.upsert({
+      where: { category_key: { category: SETTINGS_CATEGORY, key: SETTING_KEYS.earlyLeaveGraceMinutes } },
+      update: { value: JSON.stringify(settings.earlyLeaveGraceMinutes), isActive: true },
+      create: {
+        category: SETTINGS_CATEGORY,
+        key: SETTING_KEYS.earlyLeaveGraceMinutes,
+        value: JSON.stringify(settings.earlyLeaveGraceMinutes),
+        description: 'Minutes before the scheduled end before a check-out counts as leaving early'
+      }
+    })
+  ])
+
+  return settings
+}
@@ -0,0 +1,236 @@
+import { EventEmitter } from 'events'
+import { randomUUID } from 'crypto'
+import { Client } from 'pg'
+import type { Notification } from '@prisma/client'
+import { prisma } from '@/lib/db'
+
+export type RealtimeEventType =
+  | 'attendance.recorded'
+  | 'attendance.verified'
+  | 'verification_request.updated'
+  | 'notification.created'
+
+/**
+ * Who an event concerns. Notifications only go to the listed users; other
+ * events also reach the class group's rep, the programme coordinator and
+ * the roles that oversee every class.
+ */
+export interface RealtimeScope {
+  userIds: string[]
+  classGroupId?: string | null
+  coordinatorId?: string | null
+}
+
+export interface RealtimeEvent {
+  id: string
+  type: RealtimeEventType
+  data: Record<string, unknown>
+  scope: RealtimeScope
+  createdAt: string
+}
+
+export interface RealtimeSubscriber {
+  userId: string
+  role: string
+  classGroupIds: string[] // groups the user is class rep for
+}
+
+// Roles whose dashboards cover every class
+const OVERSIGHT_ROLES = ['ADMIN', 'SUPERVISOR', 'ONLINE_SUPERVISOR']
+
+export function canReceiveEvent(subscriber: RealtimeSubscriber, event: Pick<RealtimeEvent, 'type' | 'scope'>): boolean {
+  const { scope } = event
+
+  if (scope.userIds.includes(subscriber.userId)) {
+    return true
+  }
+
+  if (event.type === 'notification.created') {
+    return false
+  }
+
+  if (OVERSIGHT_ROLES.includes(subscriber.role)) {
+    return true
+  }
+
+  if (subscriber.role === 'COORDINATOR') {
+    return !!scope.coordinatorId && scope.coordinatorId === subscriber.userId
+  }
+
+  if (subscriber.role === 'CLASS_REP') {
+    return !!scope.classGroupId && subscriber.classGroupIds.includes(scope.classGroupId)
+  }
+
+  return false
+}
+
+export function formatServerSentEvent(event: RealtimeEvent): string {
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify({ ...event.data, createdAt: event.createdAt })}\n\n`
+}
+
+// Postgres channel that carries events between server processes
+const NOTIFY_CHANNEL = 'realtime_events'
+const LISTEN_RETRY_DELAY = 5000
+
+// Lets a process skip its own events when they come back from Postgres
+const PROCESS_ID = randomUUID()
+
+/**
+ * Events reach this process's streams straight from the emitter, and other
+ * server processes through Postgres NOTIFY. The emitter and the LISTEN
+ * connection live on globalThis so every route bundle, and the dev server
+ * across reloads, shares one of each.
+ */
+const globalForEvents = globalThis as unknown as {
+  realtimeEvents: EventEmitter | undefined
+  realtimeListener: Client | undefined
+}
+
+const emitter = globalForEvents.realtimeEvents ?? new EventEmitter()
+emitter.setMaxListeners(0)
+globalForEvents.realtimeEvents = emitter
+
+// Connected while anyone in this process is subscribed. LISTEN needs a
+// session of its own, so it bypasses the pool and any transaction pooler.
+function ensureListening() {
+  if (globalForEvents.realtimeListener) {
+    return
+  }
+
+  const client = new Client({ connectionString: process.env.DIRECT_URL || process.env.DATABASE_URL })
+  globalForEvents.realtimeListener = client
+
+  const reconnect = (error: unknown) => {
+    console.error('Realtime event listener disconnected:', error)
+    if (globalForEvents.realtimeListener === client) {
+      globalForEvents.realtimeListener = undefined
+    }
+    client.end().catch(() => {})
+    setTimeout(() => {
+      if (emitter.listenerCount('event') > 0) ensureListening()
+    }, LISTEN_RETRY_DELAY)
+  }
+
+  client.on('notification', message => {
+    if (message.channel !== NOTIFY_CHANNEL || !message.payload) {
+      return
+    }
+    try {
+      const { origin, event } = JSON.parse(message.payload)
+      if (origin !== PROCESS_ID) {
+        emitter.emit('event', event)
+      }
+    } catch (error) {
+      console.error('Error reading realtime event:', error)
+    }
+  })
+  client.on('error', reconnect)
+
+  client.connect()
+    .then(() => client.query(`LISTEN ${NOTIFY_CHANNEL}`))
+    .catch(reconnect)
+}
+
+function stopListeningIfUnused() {
+  const client = globalForEvents.realtimeListener
+  if (client && emitter.listenerCount('event') === 0) {
+    globalForEvents.realtimeListener = undefined
+    client.end().catch(() => {})
+  }
+}
+
+export function publishRealtimeEvent(type: RealtimeEventType, scope: RealtimeScope, data: Record<string, unknown>) {
+  const event: RealtimeEvent = {
+    id: randomUUID(),
+    type,
+    data,
+    scope,
+    createdAt: new Date().toISOString()
+  }
+
+  try {
+    emitter.emit('event', event)
+    prisma.$executeRaw`SELECT pg_notify(${NOTIFY_CHANNEL}, ${JSON.stringify({ origin: PROCESS_ID, event })})`
+      .catch(error => console.error('Error sending realtime event to other servers:', error))
+  } catch (error) {
+    console.error('Error publishing realtime event:', error)
+  }
+
+  return event
+}
+
+export function subscribeToRealtimeEvents(subscriber: RealtimeSubscriber, listener: (event: RealtimeEvent) => void) {
+  const handler = (event: RealtimeEvent) => {
+    if (canReceiveEvent(subscriber, event)) {
+      listener(event)
+    }
+  }
+
+  emitter.on('event', handler)
+  ensureListening()
+  return () => {
+    emitter.off('event', handler)
+    stopListeningIfUnused()
+  }
+}
+
+export async function getRealtimeSubscriber(user: { id: string; role: string }): Promise<RealtimeSubscriber> {
+  const classGroups = user.role === 'CLASS_REP'
+    ? await prisma.classGroup.findMany({ where: { classRepId: user.id }, select: { id: true } })
+    : []
+
+  return { userId: user.id, role: user.role, classGroupIds: classGroups.map(group => group.id) }
+}
+
+/**
+ * Publish an event about a class, scoped to its group, its programme
+ * coordinator and its lecturer plus anyone else listed. Publishing must never
+ * fail the write that triggered it.
+ */
+export async function publishScheduleEvent(
+  type: Exclude<RealtimeEventType, 'notification.created'>,
+  courseScheduleId: string,
+  data: Record<string, unknown>,
+  userIds: string[] = []
+) {
+  try {
+    const schedule = await prisma.courseSchedule.findUnique({
+      where: { id: courseScheduleId },
+      select: {
+        classGroupId: true,
+        lecturer: { select: { userId: true } },
+        course: { select: { programme: { select: { coordinator: true } } } }
+      }
+    })
+
+    if (!schedule) {
+      return
+    }
+
+    publishRealtimeEvent(type, {
+      userIds: [schedule.lecturer.userId, ...userIds],
+      classGroupId: schedule.classGroupId,
+      coordinatorId: schedule.course.programme.coordinator
+    }, { courseScheduleId, ...data })
+  } catch (error) {
+    console.error('Error publishing realtime event:', error)
+  }
+}
+
+export function publishNotificationEvent(notification: Notification) {
+  publishRealtimeEvent('notification.created', { userIds: [notification.recipientId] }, {
+    id: notification.id,
+    title: notification.title,
+    message: notification.message,
+    type: notification.category,
+    priority: notification.priority,
+    isRead: false
+  })
+}
+
+// Bulk inserts return no rows, so recipients are told to reload instead
+export function publishNotificationsChanged(userIds: string[]) {
+  if (userIds.length > 0) {
+    publishRealtimeEvent('notification.created', { userIds: [...new Set(userIds)] }, {})
+  }
+}
@@ -0,0 +1,76 @@
+import { getAcademicDayStatus, describeDayStatus, toDateKey } from '@/lib/academic-calendar'
+import { canTransitionClassSession, toSessionDate } from '@/lib/class-sessions'
+import { findDatedSessionConflict } from '@/lib/schedule-conflicts'
+
+export type RescheduleRequestStatus = 'pending' | 'approved' | 'rejected' | 'withdrawn'
+
+export const RESCHEDULE_REQUEST_STATUSES: RescheduleRequestStatus[] = ['pending', 'approved', 'rejected', 'withdrawn']
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+
+export interface MakeUpSlot {
+  date: Date
+  startTime: string
+  endTime: string
+  classroomId?: string | null
+}
+
+export interface MakeUpSchedule {
+  id: string
+  lecturerId: string
+  classGroupId: string
+  classroomId: string | null
+}
+
+export interface MakeUpSlotError {
+  error: string
+  status: number
+}
+
+export function canRescheduleClassSession(status: string): boolean {
+  return canTransitionClassSession(status, 'rescheduled') && status !== 'rescheduled'
+}
+
+/**
+ * Check a proposed make-up slot: well-formed times, not in the past, on a
+ * teaching day and free of lecturer, class group and room clashes.
+ */
+export async function checkMakeUpSlot(
+  schedule: MakeUpSchedule,
+  slot: MakeUpSlot,
+  now: Date = new Date()
+): Promise<MakeUpSlotError | null> {
+  if (!TIME_PATTERN.test(slot.startTime) || !TIME_PATTERN.test(slot.endTime)) {
+    return { error: 'Times must be in HH:MM format', status: 400 }
+  }
+
+  if (slot.endTime <= slot.startTime) {
+    return { error: 'End time must be after start time', status: 400 }
+  }
+
+  if (toSessionDate(slot.date) < toSessionDate(now)) {
+    return { error: 'Make-up date cannot be in the past', status: 400 }
+  }
+
+  const dayStatus = await getAcademicDayStatus(slot.date)
+  if (!dayStatus.teaching) {
+    return {
+      error: `Make-up classes cannot be held on ${toDateKey(slot.date)}: ${describeDayStatus(dayStatus)}`,
+      status: 400
+    }
+  }
+
+  const conflict = await findDatedSessionConflict(slot.date, {
+    startTime: slot.startTime,
+    endTime: slot.endTime,
+    lecturerId: schedule.lecturerId,
+    classGroupId: schedule.classGroupId,
+    classroomId: slot.classroomId ?? schedule.classroomId
+  })
+
+  if (conflict) {
+    return { error: conflict.message, status: 409 }
+  }
+
+  return null
+}
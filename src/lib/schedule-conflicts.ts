@@ -0,0 +1,170 @@
+import { prisma } from '@/lib/db'
+import { toSessionDate } from '@/lib/class-sessions'
+
+export type ScheduleConflictType = 'lecturer' | 'classGroup' | 'classroom'
+
+export interface ScheduleSlot {
+  dayOfWeek: number
+  startTime: string // HH:MM
+  endTime: string   // HH:MM
+  lecturerId: string
+  classGroupId: string
+  classroomId?: string | null
+}
+
+export interface ScheduleConflict {
+  type: ScheduleConflictType
+  scheduleId: string
+  classSessionId?: string
+  message: string
+}
+
+const CONFLICT_MESSAGES: Record<ScheduleConflictType, string> = {
+  lecturer: 'Scheduling conflict: The lecturer is already booked for this time slot.',
+  classGroup: 'Scheduling conflict: The class group is already booked for this time slot.',
+  classroom: 'Scheduling conflict: The classroom is already booked for this time slot.'
+}
+
+/**
+ * Time overlap logic: (StartA <= StartB AND EndA > StartB) OR (StartA < EndB AND EndA >= EndB) OR (StartA >= StartB AND EndA <= EndB)
+ */
+export function buildTimeConflictConditions(startTime: string, endTime: string) {
+  return [
+    {
+      AND: [
+        { startTime: { lte: startTime } },
+        { endTime: { gt: startTime } }
+      ]
+    },
+    {
+      AND: [
+        { startTime: { lt: endTime } },
+        { endTime: { gte: endTime } }
+      ]
+    },
+    {
+      AND: [
+        { startTime: { gte: startTime } },
+        { endTime: { lte: endTime } }
+      ]
+    }
+  ]
+}
+
+export function timesOverlap(startA: string, endA: string, startB: string, endB: string): boolean {
+  return startA < endB && startB < endA
+}
+
+/**
+ * Find the first weekly schedule clashing with the slot. The lecturer is
+ * checked first, then the class group, then the classroom.
+ */
+export async function findScheduleConflict(
+  slot: ScheduleSlot,
+  options: { excludeScheduleIds?: string[] } = {}
+): Promise<ScheduleConflict | null> {
+  const timeConflictConditions = buildTimeConflictConditions(slot.startTime, slot.endTime)
+  const exclude = options.excludeScheduleIds?.length ? { id: { notIn: options.excludeScheduleIds } } : {}
+
+  const checks: { type: ScheduleConflictType; where: Record<string, unknown> }[] = [
+    { type: 'lecturer', where: { lecturerId: slot.lecturerId } },
+    { type: 'classGroup', where: { classGroupId: slot.classGroupId } }
+  ]
+
+  if (slot.classroomId) {
+    checks.push({ type: 'classroom', where: { classroomId: slot.classroomId } })
+  }
+
+  for (const check of checks) {
+    const conflict = await prisma.courseSchedule.findFirst({
+      where: {
+        dayOfWeek: slot.dayOfWeek,
+        ...check.where,
+        ...exclude,
+        OR: [...timeConflictConditions]
+      }
+    })
+
+    if (conflict) {
+      return { type: check.type, scheduleId: conflict.id, message: CONFLICT_MESSAGES[check.type] }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Conflict check for a one-off class on a specific date, e.g. a make-up.
+ * Weekly schedules whose occurrence on that date is cancelled or rescheduled
+ * free up their slot, while other one-off sessions that day occupy theirs.
+ */
+export async function findDatedSessionConflict(
+  date: Date,
+  slot: Omit<ScheduleSlot, 'dayOfWeek'>,
+  options: { excludeScheduleIds?: string[] } = {}
+): Promise<ScheduleConflict | null> {
+  const sessionDate = toSessionDate(date)
+
+  const freedSessions = await prisma.classSession.findMany({
+    where: {
+      date: sessionDate,
+      status: { in: ['cancelled', 'rescheduled'] },
+      isMakeUp: false
+    },
+    select: { courseScheduleId: true }
+  })
+
+  const weeklyConflict = await findScheduleConflict(
+    { ...slot, dayOfWeek: sessionDate.getUTCDay() },
+    {
+      excludeScheduleIds: [
+        ...(options.excludeScheduleIds || []),
+        ...freedSessions.map(session => session.courseScheduleId)
+      ]
+    }
+  )
+
+  if (weeklyConflict) {
+    return weeklyConflict
+  }
+
+  const makeUpSessions = await prisma.classSession.findMany({
+    where: {
+      date: sessionDate,
+      isMakeUp: true,
+      status: { in: ['scheduled', 'held'] }
+    },
+    include: {
+      courseSchedule: {
+        select: { lecturerId: true, classGroupId: true, classroomId: true }
+      }
+    }
+  })
+
+  for (const session of makeUpSessions) {
+    if (!timesOverlap(slot.startTime, slot.endTime, session.startTime, session.endTime)) {
+      continue
+    }
+
+    const roomId = session.classroomId ?? session.courseSchedule.classroomId
+    let type: ScheduleConflictType | null = null
+    if (session.courseSchedule.lecturerId === slot.lecturerId) {
+      type = 'lecturer'
+    } else if (session.courseSchedule.classGroupId === slot.classGroupId) {
+      type = 'classGroup'
+    } else if (slot.classroomId && roomId === slot.classroomId) {
+      type = 'classroom'
+    }
+
+    if (type) {
+      return {
+        type,
+        scheduleId: session.courseScheduleId,
+        classSessionId: session.id,
+        message: CONFLICT_MESSAGES[type]
+      }
+    }
+  }
+
+  return null
+}
@@ -3,6 +3,9 @@ import { generateReport, calculateNextRun } from '@/lib/report-generator'
 import { emailService } from '@/lib/email'
 import { notifyReportGenerated } from '@/lib/notifications'
 import { notificationScheduler } from '@/lib/notification-scheduler'
+import { runDailyClassSessionMaintenance } from '@/lib/class-sessions'
+import { runDailySessionReconciliation } from '@/lib/session-reconciliation'
+import { escalateOverdueVerificationRequests } from '@/lib/verification-requests'
 import * as cron from 'node-cron'
 
 export class ScheduledReportsService {
@@ -39,6 +42,21 @@ export class ScheduledReportsService {
       notificationScheduler.checkUpcomingClasses().catch(error => {
         console.error('Error checking upcoming classes:', error)
       })
+
+      // Materialize today's class sessions and close out missed ones
+      runDailyClassSessionMaintenance().catch(error => {
+        console.error('Error maintaining class sessions:', error)
+      })
+
+      // Weigh up yesterday's attendance accounts once the day is over
+      runDailySessionReconciliation().catch(error => {
+        console.error('Error reconciling class sessions:', error)
+      })
+
+      // Hand verification requests past their SLA to the coordinator
+      escalateOverdueVerificationRequests().catch(error => {
+        console.error('Error escalating overdue verification requests:', error)
+      })
     }, 60 * 1000) // Check every minute
     
     console.log('Scheduled reports service started')
@@ -0,0 +1,411 @@
+import { prisma } from '@/lib/db'
+import { ATTENDANCE_LOCKED_ERROR } from '@/lib/claims'
+import { toSessionDate, updateClassSessionStatus } from '@/lib/class-sessions'
+import { toDateKey } from '@/lib/academic-calendar'
+import { enhancedNotificationService } from '@/lib/enhanced-notifications'
+import { toScheduledTime } from '@/lib/punctuality'
+import { applyVerificationRules, getVerificationPolicy } from '@/lib/verification-rules'
+
+export type SessionSignal = 'present' | 'absent'
+
+export type SignalSource = 'lecturer' | 'supervisor' | 'class_rep'
+
+export type ReconciliationVerdict = 'held' | 'not_held' | 'undetermined'
+
+export type ReconciliationReviewStatus = 'none' | 'pending' | 'resolved'
+
+export interface SignalReading {
+  signal: SessionSignal
+  detail: string // what the source reported, phrased to complete "... but ..."
+}
+
+export type SessionSignals = Record<SignalSource, SignalReading | null>
+
+export interface SignalContradiction {
+  signals: [SignalSource, SignalSource]
+  detail: string
+}
+
+export interface ReconciliationResult {
+  verdict: ReconciliationVerdict
+  confidence: number
+  contradictions: SignalContradiction[]
+}
+
+/**
+ * How much each account counts towards the verdict. The supervisor is an
+ * independent observer; the class rep is in the room but not staff; the
+ * lecturer's check-in is their own claim. The weights add up to 1, so
+ * confidence is the share of the full weight behind the verdict.
+ */
+export const SIGNAL_WEIGHTS: Record<SignalSource, number> = {
+  supervisor: 0.4,
+  class_rep: 0.35,
+  lecturer: 0.25
+}
+
+const SIGNAL_SOURCES: SignalSource[] = ['lecturer', 'supervisor', 'class_rep']
+
+export function lecturerSignal(
+  record: { method: string; locationVerified: boolean; qrVerified: boolean } | null,
+  sessionEnded: boolean
+): SignalReading | null {
+  if (record) {
+    const evidence = record.qrVerified ? ' with a QR scan' : record.locationVerified ? ' on site' : ''
+    return { signal: 'present', detail: `the lecturer checked in${record.method === 'virtual' ? ' online' : evidence}` }
+  }
+
+  // Before the class ends a missing check-in is not yet evidence of anything
+  return sessionEnded ? { signal: 'absent', detail: 'the lecturer never checked in' } : null
+}
+
+/**
+ * A supervisor status counts as presence when the class's verification policy
+ * says so. "not_started" is an observation rather than an outcome, like in
+ * the session lifecycle, so it gives no signal.
+ */
+export function supervisorSignal(status: string | null, presentStatuses: string[]): SignalReading | null {
+  if (!status || status === 'not_started') {
+    return null
+  }
+
+  return presentStatuses.includes(status)
+    ? { signal: 'present', detail: `the supervisor logged the class as ${status}` }
+    : { signal: 'absent', detail: `the supervisor logged ${status}` }
+}
+
+export function classRepSignal(verified: boolean | null): SignalReading | null {
+  if (verified === null) {
+    return null
+  }
+
+  return verified
+    ? { signal: 'present', detail: 'the class rep confirmed the class' }
+    : { signal: 'absent', detail: 'the class rep reported the class did not hold' }
+}
+
+export function reconcileSignals(signals: SessionSignals): ReconciliationResult {
+  let score = 0
+  const contradictions: SignalContradiction[] = []
+
+  SIGNAL_SOURCES.forEach((source, index) => {
+    const reading = signals[source]
+    if (!reading) return
+
+    score += (reading.signal === 'present' ? 1 : -1) * SIGNAL_WEIGHTS[source]
+
+    for (const other of SIGNAL_SOURCES.slice(index + 1)) {
+      const otherReading = signals[other]
+      if (otherReading && otherReading.signal !== reading.signal) {
+        const detail = `${reading.detail} but ${otherReading.detail}`
+        contradictions.push({
+          signals: [source, other],
+          detail: detail.charAt(0).toUpperCase() + detail.slice(1)
+        })
+      }
+    }
+  })
+
+  // Floating point sums of the weights can leave a tie a hair off zero
+  const confidence = Math.round(Math.abs(score) * 100) / 100
+  const verdict: ReconciliationVerdict = confidence === 0 ? 'undetermined' : score > 0 ? 'held' : 'not_held'
+
+  return { verdict, confidence, contradictions }
+}
+
+// A resolved review is final; otherwise the queue follows whether the accounts disagree
+export function getReviewStatus(
+  current: string | null | undefined,
+  contradictions: SignalContradiction[]
+): ReconciliationReviewStatus {
+  if (current === 'resolved') {
+    return 'resolved'
+  }
+
+  return contradictions.length > 0 ? 'pending' : 'none'
+}
+
+export function parseContradictions(value: string | null): SignalContradiction[] {
+  if (!value) {
+    return []
+  }
+
+  try {
+    const contradictions = JSON.parse(value)
+    return Array.isArray(contradictions) ? contradictions : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * The update a verification writes to an attendance record. Class reps and
+ * supervisors keep separate accounts; a class rep only fills in the overall
+ * verification while no supervisor has given one, so the supervisor is not
+ * overwritten by whoever happens to verify last.
+ */
+export function getAttendanceVerificationUpdate(
+  role: string,
+  current: { supervisorVerified: boolean | null },
+  verified: boolean,
+  comment: string | null | undefined,
+  userId: string,
+  now: Date = new Date()
+) {
+  if (role !== 'CLASS_REP') {
+    return {
+      supervisorVerified: verified,
+      supervisorComment: comment || null
+    }
+  }
+
+  return {
+    classRepVerified: verified,
+    classRepComment: comment || null,
+    classRepVerifiedBy: userId,
+    classRepVerifiedAt: now,
+    ...(current.supervisorVerified === null
+      ? { supervisorVerified: verified, supervisorComment: comment || null }
+      : {})
+  }
+}
+
+async function notifyReviewers(
+  coordinatorId: string | null,
+  classSessionId: string,
+  courseTitle: string,
+  classGroupName: string,
+  contradictions: SignalContradiction[]
+) {
+  const reviewerIds = coordinatorId
+    ? [coordinatorId]
+    : (await prisma.user.findMany({ where: { role: 'ADMIN', isActive: true }, select: { id: true } })).map(admin => admin.id)
+
+  for (const userId of reviewerIds) {
+    await enhancedNotificationService.sendNotification({
+      userId,
+      title: 'Conflicting Attendance Accounts',
+      message: `${courseTitle} (${classGroupName}): ${contradictions[0].detail}. Please review the session.`,
+      category: 'verification',
+      priority: 'high',
+      actionUrl: '/dashboard/reconciliation',
+      metadata: { classSessionId }
+    })
+  }
+}
+
+/**
+ * Recompute the verdict for a session from the current check-in, supervisor
+ * log and class rep verification. Called whenever one of them changes;
+ * sessions that newly contradict themselves are queued for their coordinator.
+ */
+export async function reconcileClassSession(classSessionId: string, now: Date = new Date()) {
+  const classSession = await prisma.classSession.findUnique({
+    where: { id: classSessionId },
+    include: {
+      courseSchedule: {
+        include: {
+          classGroup: true,
+          course: { include: { programme: true } }
+        }
+      },
+      attendanceRecords: {
+        orderBy: { timestamp: 'asc' },
+        take: 1
+      },
+      supervisorLogs: {
+        orderBy: { checkInTime: 'desc' },
+        take: 1
+      },
+      reconciliation: true
+    }
+  })
+
+  if (!classSession) {
+    return null
+  }
+
+  const schedule = classSession.courseSchedule
+  const { policy } = await getVerificationPolicy({
+    programmeId: schedule.classGroup.programmeId,
+    deliveryMode: schedule.classGroup.deliveryMode,
+    sessionType: schedule.sessionType
+  })
+
+  const record = classSession.attendanceRecords[0] ?? null
+  const signals: SessionSignals = {
+    lecturer: lecturerSignal(record, toScheduledTime(classSession.date, classSession.endTime) <= now),
+    supervisor: supervisorSignal(classSession.supervisorLogs[0]?.status ?? null, policy.supervisorPresentStatuses),
+    class_rep: classRepSignal(record?.classRepVerified ?? null)
+  }
+
+  const result = reconcileSignals(signals)
+  const previousStatus = classSession.reconciliation?.reviewStatus
+  const reviewStatus = getReviewStatus(previousStatus, result.contradictions)
+
+  const data = {
+    verdict: result.verdict,
+    confidence: result.confidence,
+    lecturerSignal: signals.lecturer?.signal ?? null,
+    supervisorSignal: signals.supervisor?.signal ?? null,
+    classRepSignal: signals.class_rep?.signal ?? null,
+    contradictions: result.contradictions.length ? JSON.stringify(result.contradictions) : null,
+    reviewStatus,
+    reconciledAt: now
+  }
+
+  const reconciliation = await prisma.sessionReconciliation.upsert({
+    where: { classSessionId },
+    update: data,
+    create: { classSessionId, ...data }
+  })
+
+  if (reviewStatus === 'pending' && previousStatus !== 'pending') {
+    try {
+      await notifyReviewers(
+        schedule.course.programme.coordinator,
+        classSessionId,
+        schedule.course.title,
+        schedule.classGroup.name,
+        result.contradictions
+      )
+    } catch (error) {
+      console.error('Error notifying reviewers of conflicting attendance:', error)
+    }
+  }
+
+  return reconciliation
+}
+
+// Signal writers call this; reconciliation problems must never fail the write itself
+export async function reconcileAfterSignal(classSessionId: string | null | undefined) {
+  if (!classSessionId) {
+    return
+  }
+
+  try {
+    await reconcileClassSession(classSessionId)
+  } catch (error) {
+    console.error('Error reconciling class session:', error)
+  }
+}
+
+/**
+ * Reconcile every session in a date range that has at least one account,
+ * e.g. to pick up missing check-ins once the day is over.
+ */
+export async function reconcileClassSessions(start: Date, end: Date, now: Date = new Date()): Promise<number> {
+  const sessions = await prisma.classSession.findMany({
+    where: {
+      date: { gte: start, lte: end },
+      status: { notIn: ['cancelled', 'rescheduled'] },
+      OR: [
+        { attendanceRecords: { some: {} } },
+        { supervisorLogs: { some: {} } }
+      ]
+    },
+    select: { id: true }
+  })
+
+  for (const session of sessions) {
+    await reconcileClassSession(session.id, now)
+  }
+
+  return sessions.length
+}
+
+let lastReconciledDay: string | null = null
+
+/**
+ * Once per day, reconcile the previous day's sessions so that check-ins that
+ * never came in count against the other accounts
+ */
+export async function runDailySessionReconciliation(now: Date = new Date()): Promise<void> {
+  const today = toDateKey(now)
+  if (lastReconciledDay === today) {
+    return
+  }
+
+  const yesterday = new Date(toSessionDate(now).getTime() - 24 * 60 * 60 * 1000)
+  await reconcileClassSessions(yesterday, yesterday, now)
+  lastReconciledDay = today
+}
+
+/**
+ * A coordinator's ruling on a contradicted session. It becomes the session's
+ * outcome and the attendance record's verification, which claims rely on.
+ */
+export async function resolveReconciliation(
+  reconciliationId: string,
+  verdict: Exclude<ReconciliationVerdict, 'undetermined'>,
+  reviewerId: string,
+  comment: string
+) {
+  const reconciliation = await prisma.sessionReconciliation.findUnique({
+    where: { id: reconciliationId },
+    include: {
+      classSession: {
+        include: {
+          attendanceRecords: {
+            orderBy: { timestamp: 'asc' },
+            take: 1
+          }
+        }
+      }
+    }
+  })
+
+  if (!reconciliation) {
+    return { error: 'Reconciliation not found', status: 404 }
+  }
+
+  if (reconciliation.reviewStatus !== 'pending') {
+    return { error: 'This session is not awaiting review', status: 400 }
+  }
+
+  const record = reconciliation.classSession.attendanceRecords[0]
+  if (record?.lockedAt) {
+    return { error: ATTENDANCE_LOCKED_ERROR, status: 400 }
+  }
+
+  const held = verdict === 'held'
+
+  const updated = await prisma.$transaction(async (tx) => {
+    if (record) {
+      await tx.attendanceRecord.update({
+        where: { id: record.id },
+        data: {
+          supervisorVerified: held,
+          supervisorComment: `Coordinator review: ${comment}`
+        }
+      })
+    }
+
+    return tx.sessionReconciliation.update({
+      where: { id: reconciliationId },
+      data: {
+        reviewStatus: 'resolved',
+        resolvedVerdict: verdict,
+        reviewedBy: reviewerId,
+        reviewedAt: new Date(),
+        reviewComment: comment
+      }
+    })
+  })
+
+  await updateClassSessionStatus(reconciliation.classSession, held ? 'held' : 'missed', comment)
+
+  if (record) {
+    try {
+      await applyVerificationRules(record.id)
+    } catch (error) {
+      console.error('Error applying verification rules after reconciliation review:', error)
+    }
+  }
+
+  return {
+    reconciliation: updated,
+    attendanceRecordId: record?.id ?? null,
+    previousSupervisorVerified: record?.supervisorVerified ?? null
+  }
+}
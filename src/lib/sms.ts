@@ -241,6 +241,20 @@ export const smsTemplates = {
     reporterName: string
   }): SMSTemplate => ({
     message: `ESCALATION: ${data.issueType} reported for ${data.courseName} by ${data.reporterName}. Immediate attention required. Check dashboard.`
+  }),
+
+  passwordReset: (data: {
+    resetUrl: string
+    expiresIn: string
+  }): SMSTemplate => ({
+    message: `UPSA Attendance: reset your password at ${data.resetUrl} (expires in ${data.expiresIn}). Ignore this if you did not ask for it.`
+  }),
+
+  twoFactorCode: (data: {
+    code: string
+    expiresIn: string
+  }): SMSTemplate => ({
+    message: `UPSA Attendance: your sign-in code is ${data.code}. It expires in ${data.expiresIn}. Never share it with anyone.`
   })
 }
 
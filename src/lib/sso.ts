@@ -0,0 +1,488 @@
+import { randomBytes } from 'crypto'
+import jwt from 'jsonwebtoken'
+import { z } from 'zod'
+import { UserRole } from '@prisma/client'
+import { ValidateInResponseTo } from '@node-saml/node-saml'
+import type { CacheProvider, Profile, SamlConfig } from '@node-saml/node-saml'
+import { cookies } from 'next/headers'
+import { prisma } from '@/lib/db'
+import { hashPassword } from '@/lib/auth'
+import { createTemporaryPassword, linkBaseUrl } from '@/lib/password-reset'
+import { needsTwoFactorSetup } from '@/lib/two-factor'
+
+export type SsoProvider = 'oidc' | 'saml'
+
+export interface SsoAttributeMap {
+  email: string
+  firstName: string
+  lastName: string
+  role: string
+  department: string
+  employeeId: string
+}
+
+export interface SsoSettings {
+  // Email domains whose users must sign in through the university directory
+  passwordDisabledDomains: string[]
+  // Role for new accounts whose directory role is not in roleMap
+  defaultRole: UserRole
+  // Directory role or group value to role here, e.g. { "faculty": "LECTURER" }
+  roleMap: Record<string, UserRole>
+  attributeMap: SsoAttributeMap
+}
+
+export interface SsoIdentity {
+  email: string
+  firstName: string
+  lastName: string
+  roles: string[]
+  department?: string
+  employeeId?: string
+}
+
+// OIDC standard claims; SAML directories can be pointed at their own names in settings
+export const DEFAULT_ATTRIBUTE_MAP: SsoAttributeMap = {
+  email: 'email',
+  firstName: 'given_name',
+  lastName: 'family_name',
+  role: 'role',
+  department: 'department',
+  employeeId: 'employee_id'
+}
+
+// Names most directories use, tried when the configured attribute is missing
+const FALLBACK_ATTRIBUTES: Record<keyof SsoAttributeMap, string[]> = {
+  email: ['mail', 'emailAddress', 'urn:oid:0.9.2342.19200300.100.1.3', 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/emailaddress', 'nameID'],
+  firstName: ['givenName', 'urn:oid:2.5.4.42', 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/givenname'],
+  lastName: ['sn', 'surname', 'urn:oid:2.5.4.4', 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/surname'],
+  role: ['eduPersonAffiliation', 'urn:oid:1.3.6.1.4.1.5923.1.1.1.1', 'groups'],
+  department: ['ou', 'urn:oid:2.5.4.11'],
+  employeeId: ['employeeNumber', 'urn:oid:2.16.840.1.113730.3.1.3']
+}
+
+export const DEFAULT_SSO_SETTINGS: SsoSettings = {
+  passwordDisabledDomains: [],
+  defaultRole: UserRole.LECTURER,
+  roleMap: {},
+  attributeMap: DEFAULT_ATTRIBUTE_MAP
+}
+
+const SETTINGS_CATEGORY = 'security'
+const SETTINGS_KEY = 'sso_settings'
+
+// Thrown from the credentials provider for accounts that must use single sign-on
+export const SSO_REQUIRED = 'SSO_REQUIRED'
+
+// A verified directory sign-in waits in this cookie until the 'sso' provider
+// finishes it, which may need a two-factor code first
+export const SSO_LOGIN_COOKIE = 'sso_login'
+export const SSO_LOGIN_TTL_SECONDS = 300
+
+// Ties a SAML response to the browser that started the sign-in
+export const SAML_RELAY_STATE_COOKIE = 'saml_relay_state'
+// How long a sign-in at the identity provider may take; assertion IDs are kept as
+// long, since responses to requests older than this are refused anyway
+export const SAML_REQUEST_TTL_SECONDS = 30 * 60
+
+// Roles that must have a second factor here even when the directory vouches for them
+const SSO_SECOND_FACTOR_ROLES: UserRole[] = [UserRole.ADMIN, UserRole.COORDINATOR]
+
+export const ssoSettingsSchema = z.object({
+  passwordDisabledDomains: z.array(
+    z.string().trim().toLowerCase().regex(/^[a-z0-9.-]+\.[a-z]{2,}$/, 'Enter domains like upsa.edu.gh')
+  ),
+  defaultRole: z.nativeEnum(UserRole),
+  roleMap: z.record(z.string().min(1), z.nativeEnum(UserRole)),
+  attributeMap: z.object({
+    email: z.string().min(1),
+    firstName: z.string().min(1),
+    lastName: z.string().min(1),
+    role: z.string().min(1),
+    department: z.string().min(1),
+    employeeId: z.string().min(1)
+  })
+})
+
+export async function getSsoSettings(): Promise<SsoSettings> {
+  const setting = await prisma.systemSettings.findUnique({
+    where: { category_key: { category: SETTINGS_CATEGORY, key: SETTINGS_KEY } }
+  })
+
+  if (!setting || !setting.isActive) {
+    return { ...DEFAULT_SSO_SETTINGS }
+  }
+
+  const parsed = ssoSettingsSchema.partial().safeParse(JSON.parse(setting.value))
+  if (!parsed.success) {
+    return { ...DEFAULT_SSO_SETTINGS }
+  }
+
+  return {
+    ...DEFAULT_SSO_SETTINGS,
+    ...parsed.data,
+    attributeMap: { ...DEFAULT_ATTRIBUTE_MAP, ...parsed.data.attributeMap }
+  }
+}
+
+export async function updateSsoSettings(settings: SsoSettings): Promise<SsoSettings> {
+  const value = JSON.stringify({
+    ...settings,
+    passwordDisabledDomains: Array.from(new Set(settings.passwordDisabledDomains))
+  })
+
+  await prisma.systemSettings.upsert({
+    where: { category_key: { category: SETTINGS_CATEGORY, key: SETTINGS_KEY } },
+    update: { value, isActive: true },
+    create: {
+      category: SETTINGS_CATEGORY,
+      key: SETTINGS_KEY,
+      value,
+      description: 'Single sign-on attribute mapping, role mapping and domains that may not use local passwords'
+    }
+  })
+
+  return JSON.parse(value)
+}
+
+export function emailDomain(email: string): string {
+  return email.slice(email.lastIndexOf('@') + 1).toLowerCase()
+}
+
+/** Whether local passwords are turned off for this address's domain */
+export async function isPasswordLoginDisabled(email: string): Promise<boolean> {
+  const { passwordDisabledDomains } = await getSsoSettings()
+  return passwordDisabledDomains.includes(emailDomain(email))
+}
+
+// Attributes can arrive as strings or, from SAML, as arrays of strings
+function readValues(attributes: Record<string, unknown>, names: string[]): string[] {
+  for (const name of names) {
+    const value = attributes[name]
+    const values = (Array.isArray(value) ? value : [value])
+      .filter((item): item is string | number => typeof item === 'string' || typeof item === 'number')
+      .map(item => String(item).trim())
+      .filter(Boolean)
+    if (values.length > 0) {
+      return values
+    }
+  }
+  return []
+}
+
+/**
+ * Pull the fields we need out of OIDC claims or SAML attributes. Returns
+ * null without an email, since that is how accounts are matched.
+ */
+export function mapSsoAttributes(attributes: Record<string, unknown>, attributeMap: SsoAttributeMap): SsoIdentity | null {
+  const read = (field: keyof SsoAttributeMap) => readValues(attributes, [attributeMap[field], ...FALLBACK_ATTRIBUTES[field]])
+
+  const email = read('email')[0]?.toLowerCase()
+  if (!email || !email.includes('@')) {
+    return null
+  }
+
+  let firstName = read('firstName')[0]
+  let lastName = read('lastName')[0]
+
+  // Some directories only release a display name
+  if (!firstName || !lastName) {
+    const [first, ...rest] = (readValues(attributes, ['name', 'displayName', 'cn'])[0] || email.split('@')[0]).split(/\s+/)
+    firstName = firstName || first
+    lastName = lastName || rest.join(' ') || first
+  }
+
+  return {
+    email,
+    firstName,
+    lastName,
+    roles: read('role'),
+    department: read('department')[0],
+    employeeId: read('employeeId')[0]
+  }
+}
+
+/** The first directory role with a mapping wins; otherwise the default role */
+export function resolveSsoRole(roles: string[], settings: Pick<SsoSettings, 'roleMap' | 'defaultRole'>): UserRole {
+  const mapped = roles.map(role => settings.roleMap[role]).find(Boolean)
+  return mapped ?? settings.defaultRole
+}
+
+function generatedEmployeeId(): string {
+  return `SSO-${randomBytes(4).toString('hex').toUpperCase()}`
+}
+
+/**
+ * Find or create the account for a directory sign-in. New accounts get a
+ * role from the role mapping and a password nobody knows; existing accounts
+ * keep the role they have here. Lecturers without a Lecturer profile get
+ * one, using the directory's employee ID and department where given.
+ */
+export async function provisionSsoUser(identity: SsoIdentity, provider: SsoProvider, settings: SsoSettings) {
+  let user = await prisma.user.findUnique({
+    where: { email: identity.email },
+    include: { lecturer: true }
+  })
+
+  if (user && !user.isActive) {
+    return { error: 'This account has been deactivated', status: 403 }
+  }
+
+  if (identity.employeeId) {
+    const holder = await prisma.lecturer.findUnique({ where: { employeeId: identity.employeeId } })
+    if (holder && holder.userId !== user?.id) {
+      return { error: `Employee ID ${identity.employeeId} already belongs to another lecturer`, status: 409 }
+    }
+  }
+
+  const created = !user
+  if (!user) {
+    user = await prisma.user.create({
+      data: {
+        email: identity.email,
+        firstName: identity.firstName,
+        lastName: identity.lastName,
+        role: resolveSsoRole(identity.roles, settings),
+        passwordHash: await hashPassword(createTemporaryPassword())
+      },
+      include: { lecturer: true }
+    })
+  }
+
+  let lecturer = user.lecturer
+  if (user.role === UserRole.LECTURER && !lecturer) {
+    lecturer = await prisma.lecturer.create({
+      data: {
+        userId: user.id,
+        employeeId: identity.employeeId || generatedEmployeeId(),
+        department: identity.department
+      }
+    })
+  } else if (lecturer && identity.department && lecturer.department !== identity.department) {
+    lecturer = await prisma.lecturer.update({
+      where: { id: lecturer.id },
+      data: { department: identity.department }
+    })
+  }
+
+  if (created) {
+    await prisma.auditLog.create({
+      data: {
+        userId: user.id,
+        action: 'SSO_USER_PROVISIONED',
+        targetType: 'User',
+        targetId: user.id,
+        metadata: JSON.stringify({
+          provider,
+          role: user.role,
+          directoryRoles: identity.roles,
+          lecturerId: lecturer?.id ?? null
+        })
+      }
+    })
+  }
+
+  return {
+    user: {
+      id: user.id,
+      email: user.email,
+      name: `${user.firstName} ${user.lastName}`,
+      role: user.role,
+      lecturerId: lecturer?.id
+    }
+  }
+}
+
+/** Whether a directory sign-in has to enrol a second factor before going on */
+export async function ssoNeedsTwoFactorSetup(
+  role: UserRole,
+  twoFactor: { enabledAt: Date | null } | null
+): Promise<boolean> {
+  if (twoFactor?.enabledAt) {
+    return false
+  }
+  return SSO_SECOND_FACTOR_ROLES.includes(role) || await needsTwoFactorSetup(role, twoFactor)
+}
+
+/** Map attributes and provision in one step, for the OIDC profile callback and SAML ACS */
+export async function signInWithDirectory(attributes: Record<string, unknown>, provider: SsoProvider) {
+  const settings = await getSsoSettings()
+  const identity = mapSsoAttributes(attributes, settings.attributeMap)
+
+  if (!identity) {
+    return { error: 'The directory did not send an email address', status: 400 }
+  }
+
+  return provisionSsoUser(identity, provider, settings)
+}
+
+export interface OidcConfig {
+  issuer: string
+  clientId: string
+  clientSecret: string
+  name: string
+}
+
+export function getOidcConfig(): OidcConfig | null {
+  const { SSO_OIDC_ISSUER, SSO_OIDC_CLIENT_ID, SSO_OIDC_CLIENT_SECRET, SSO_OIDC_NAME } = process.env
+  if (!SSO_OIDC_ISSUER || !SSO_OIDC_CLIENT_ID || !SSO_OIDC_CLIENT_SECRET) {
+    return null
+  }
+  return {
+    issuer: SSO_OIDC_ISSUER.replace(/\/$/, ''),
+    clientId: SSO_OIDC_CLIENT_ID,
+    clientSecret: SSO_OIDC_CLIENT_SECRET,
+    name: SSO_OIDC_NAME || 'University account'
+  }
+}
+
+export function isSamlConfigured(): boolean {
+  return Boolean(process.env.SSO_SAML_ENTRY_POINT && process.env.SSO_SAML_IDP_CERT)
+}
+
+// Where the directory sends users back to; NEXTAUTH_URL wins behind a proxy
+export function ssoBaseUrl(requestOrigin: string): string {
+  return linkBaseUrl(requestOrigin)
+}
+
+export function getSamlConfig(baseUrl: string): SamlConfig | null {
+  const { SSO_SAML_ENTRY_POINT, SSO_SAML_IDP_CERT, SSO_SAML_ISSUER } = process.env
+  if (!SSO_SAML_ENTRY_POINT || !SSO_SAML_IDP_CERT) {
+    return null
+  }
+  return {
+    entryPoint: SSO_SAML_ENTRY_POINT,
+    // Environment variables usually carry PEM line breaks as \n
+    idpCert: SSO_SAML_IDP_CERT.replace(/\\n/g, '\n'),
+    issuer: SSO_SAML_ISSUER || `${baseUrl}/api/auth/saml/metadata`,
+    callbackUrl: `${baseUrl}/api/auth/saml/acs`,
+    audience: SSO_SAML_ISSUER || `${baseUrl}/api/auth/saml/metadata`,
+    identifierFormat: 'urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress',
+    wantAssertionsSigned: true,
+    wantAuthnResponseSigned: false,
+    // Only accept responses to requests we sent, each once, so unsolicited or replayed posts fail
+    validateInResponseTo: ValidateInResponseTo.always,
+    requestIdExpirationPeriodMs: SAML_REQUEST_TTL_SECONDS * 1000,
+    cacheProvider: samlRequestCache
+  }
+}
+
+function samlMessageExpiry(): Date {
+  return new Date(Date.now() + SAML_REQUEST_TTL_SECONDS * 1000)
+}
+
+/**
+ * Keeps the IDs of AuthnRequests in the database rather than node-saml's
+ * in-memory default, so the instance that receives the response need not be
+ * the one that sent the request.
+ */
+export const samlRequestCache: CacheProvider = {
+  async saveAsync(key, value) {
+    await prisma.samlMessage.deleteMany({ where: { expiresAt: { lt: new Date() } } })
+    const saved = await prisma.samlMessage.createMany({
+      data: [{ kind: 'request', messageId: key, value, expiresAt: samlMessageExpiry() }],
+      skipDuplicates: true
+    })
+    return saved.count > 0 ? { value, createdAt: Date.now() } : null
+  },
+
+  async getAsync(key) {
+    const message = await prisma.samlMessage.findUnique({
+      where: { kind_messageId: { kind: 'request', messageId: key } }
+    })
+    return message && message.expiresAt > new Date() ? message.value : null
+  },
+
+  async removeAsync(key) {
+    if (!key) {
+      return null
+    }
+    const removed = await prisma.samlMessage.deleteMany({ where: { kind: 'request', messageId: key } })
+    return removed.count > 0 ? key : null
+  }
+}
+
+export function samlAssertionId(profile: Profile): string | null {
+  const assertion = profile.getAssertion?.().Assertion as { $?: { ID?: string } } | undefined
+  return assertion?.$?.ID || null
+}
+
+/**
+ * Record the assertion as used. False when it has no ID or was already used,
+ * which covers two posts of the same response racing each other.
+ */
+export async function recordSamlAssertion(profile: Profile): Promise<boolean> {
+  const assertionId = samlAssertionId(profile)
+  if (!assertionId) {
+    return false
+  }
+  const recorded = await prisma.samlMessage.createMany({
+    data: [{ kind: 'assertion', messageId: assertionId, expiresAt: samlMessageExpiry() }],
+    skipDuplicates: true
+  })
+  return recorded.count > 0
+}
+
+function getSecret(): string {
+  const secret = process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new Error('NEXTAUTH_SECRET is not set')
+  }
+  return secret
+}
+
+export function createSsoLoginToken(userId: string): string {
+  return jwt.sign({ type: 'sso_login' }, getSecret(), { subject: userId, expiresIn: SSO_LOGIN_TTL_SECONDS })
+}
+
+export function verifySsoLoginToken(token: string): string | null {
+  try {
+    const payload = jwt.verify(token, getSecret()) as jwt.JwtPayload
+    return payload.type === 'sso_login' && payload.sub ? payload.sub : null
+  } catch {
+    return null
+  }
+}
+
+/** Called once the directory has vouched for the user; /auth/sso takes it from here */
+export async function setPendingSsoLogin(userId: string) {
+  (await cookies()).set(SSO_LOGIN_COOKIE, createSsoLoginToken(userId), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: SSO_LOGIN_TTL_SECONDS,
+    path: '/api/auth'
+  })
+}
+
+export async function getPendingSsoLogin(): Promise<string | null> {
+  const token = (await cookies()).get(SSO_LOGIN_COOKIE)?.value
+  return token ? verifySsoLoginToken(token) : null
+}
+
+// The pending sign-in is single use: cleared once it succeeds or is refused
+export async function clearPendingSsoLogin() {
+  (await cookies()).delete({ name: SSO_LOGIN_COOKIE, path: '/api/auth' })
+}
+
+/** A fresh RelayState for a SAML sign-in, remembered in this browser for the ACS to check */
+export async function createSamlRelayState(): Promise<string> {
+  const relayState = randomBytes(16).toString('hex')
+  const cookieStore = await cookies()
+  cookieStore.set(SAML_RELAY_STATE_COOKIE, relayState, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    // The identity provider posts to the ACS from its own site, which lax cookies are not sent on
+    sameSite: process.env.NODE_ENV === 'production' ? 'none' : 'lax',
+    maxAge: SAML_REQUEST_TTL_SECONDS,
+    path: '/api/auth/saml'
+  })
+  return relayState
+}
+
+/** Whether the posted RelayState is the one this browser was sent off with; it works once */
+export async function consumeSamlRelayState(relayState: unknown): Promise<boolean> {
+  const cookieStore = await cookies()
+  const expected = cookieStore.get(SAML_RELAY_STATE_COOKIE)?.value
+  cookieStore.delete({ name: SAML_RELAY_STATE_COOKIE, path: '/api/auth/saml' })
+  return Boolean(expected) && relayState === expected
+}
@@ -0,0 +1,300 @@
+import { prisma } from '@/lib/db'
+import { toSessionDate } from '@/lib/class-sessions'
+import { timesOverlap } from '@/lib/schedule-conflicts'
+import { z } from 'zod'
+
+export const OUT_OF_SCOPE_ERROR = 'This class is outside the buildings and hours you are assigned to supervise'
+
+const timeSchema = z.string().regex(/^([0-1][0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format (HH:MM)')
+
+export const supervisorAssignmentSchema = z.object({
+  supervisorId: z.string().min(1, 'Supervisor is required'),
+  buildingId: z.string().min(1, 'Building is required'),
+  floor: z.number().int().min(0).max(200).nullable(),
+  dayOfWeek: z.number().int().min(0).max(6).nullable(),
+  startTime: timeSchema,
+  endTime: timeSchema,
+  isActive: z.boolean().optional()
+}).refine(assignment => assignment.startTime < assignment.endTime, {
+  message: 'End time must be after start time',
+  path: ['endTime']
+})
+
+export interface AssignmentScope {
+  buildingId: string
+  floor: number | null
+  dayOfWeek: number | null
+  startTime: string
+  endTime: string
+}
+
+export interface ScopedClass {
+  buildingId: string | null // null for classes without a room, which physical supervisors do not patrol
+  floor: number | null
+  dayOfWeek: number
+  startTime: string
+  endTime: string
+}
+
+export interface PatrolStop {
+  scheduleId: string
+  classSessionId: string | null
+  buildingId: string
+  buildingName: string
+  floor: number | null
+  classroomId: string
+  roomCode: string
+  roomName: string
+  startTime: string
+  endTime: string
+  courseCode: string
+  courseTitle: string
+  classGroupName: string
+  lecturerName: string
+  sessionStatus: string
+  isMakeUp: boolean
+  checked: boolean
+  logStatus: string | null
+  supervisorIds: string[] // supervisors whose assignments cover the class
+}
+
+export interface PatrolCoverage {
+  total: number
+  checked: number
+  unchecked: number
+  unassigned: number // classes no supervisor is assigned to
+  coverageRate: number // checked share of all classes, 0-1
+  buildings: {
+    buildingId: string
+    buildingName: string
+    total: number
+    checked: number
+  }[]
+}
+
+/**
+ * An assignment covers a class in its building, on its floor (or any floor
+ * when none is set), on its weekday (or any day) and overlapping its hours.
+ * A class with a room on an unknown floor is only covered building-wide.
+ */
+export function assignmentCoversClass(assignment: AssignmentScope, cls: ScopedClass): boolean {
+  if (!cls.buildingId || assignment.buildingId !== cls.buildingId) {
+    return false
+  }
+
+  if (assignment.floor !== null && assignment.floor !== cls.floor) {
+    return false
+  }
+
+  if (assignment.dayOfWeek !== null && assignment.dayOfWeek !== cls.dayOfWeek) {
+    return false
+  }
+
+  return timesOverlap(assignment.startTime, assignment.endTime, cls.startTime, cls.endTime)
+}
+
+export function isWithinAssignments(assignments: AssignmentScope[], cls: ScopedClass): boolean {
+  return assignments.some(assignment => assignmentCoversClass(assignment, cls))
+}
+
+// Walk each building in turn, floor by floor, in the order classes start
+export function sortPatrolStops<T extends Pick<PatrolStop, 'buildingName' | 'floor' | 'startTime' | 'roomCode'>>(stops: T[]): T[] {
+  return [...stops].sort((a, b) =>
+    a.buildingName.localeCompare(b.buildingName) ||
+    (a.floor ?? 0) - (b.floor ?? 0) ||
+    a.startTime.localeCompare(b.startTime) ||
+    a.roomCode.localeCompare(b.roomCode)
+  )
+}
+
+export function summarizeCoverage(stops: PatrolStop[]): PatrolCoverage {
+  const buildings = new Map<string, PatrolCoverage['buildings'][number]>()
+
+  for (const stop of stops) {
+    const entry = buildings.get(stop.buildingId) ?? { buildingId: stop.buildingId, buildingName: stop.buildingName, total: 0, checked: 0 }
+    entry.total++
+    if (stop.checked) entry.checked++
+    buildings.set(stop.buildingId, entry)
+  }
+
+  const checked = stops.filter(stop => stop.checked).length
+
+  return {
+    total: stops.length,
+    checked,
+    unchecked: stops.length - checked,
+    unassigned: stops.filter(stop => stop.supervisorIds.length === 0).length,
+    coverageRate: stops.length ? Math.round((checked / stops.length) * 100) / 100 : 0,
+    buildings: [...buildings.values()].sort((a, b) => a.buildingName.localeCompare(b.buildingName))
+  }
+}
+
+export async function getActiveAssignments(supervisorId?: string) {
+  return prisma.supervisorAssignment.findMany({
+    where: { isActive: true, ...(supervisorId ? { supervisorId } : {}) }
+  })
+}
+
+/**
+ * Whether the user may record observations for a class. Supervisors are held
+ * to their assignments; administrators can step in anywhere.
+ */
+export async function checkSupervisorScope(
+  user: { id: string; role: string },
+  cls: ScopedClass
+): Promise<string | null> {
+  if (user.role !== 'SUPERVISOR') {
+    return null
+  }
+
+  const assignments = await getActiveAssignments(user.id)
+  return isWithinAssignments(assignments, cls) ? null : OUT_OF_SCOPE_ERROR
+}
+
+// The scope-relevant facts about a weekly schedule, optionally in a make-up session's room
+export function toScopedClass(
+  schedule: { dayOfWeek: number; startTime: string; endTime: string; classroom: { buildingId: string; floor: number | null } | null },
+  session?: { date: Date; startTime: string; endTime: string; classroom: { buildingId: string; floor: number | null } | null } | null
+): ScopedClass {
+  const classroom = session?.classroom ?? schedule.classroom
+  return {
+    buildingId: classroom?.buildingId ?? null,
+    floor: classroom?.floor ?? null,
+    dayOfWeek: session ? session.date.getUTCDay() : schedule.dayOfWeek,
+    startTime: session?.startTime ?? schedule.startTime,
+    endTime: session?.endTime ?? schedule.endTime
+  }
+}
+
+const scopedClassroomSelect = { select: { buildingId: true, floor: true } }
+
+// Scope check for observations recorded against an existing attendance record
+export async function checkAttendanceRecordScope(
+  user: { id: string; role: string },
+  attendanceRecordId: string
+): Promise<string | null> {
+  if (user.role !== 'SUPERVISOR') {
+    return null
+  }
+
+  const record = await prisma.attendanceRecord.findUnique({
+    where: { id: attendanceRecordId },
+    select: {
+      courseSchedule: {
+        select: { dayOfWeek: true, startTime: true, endTime: true, classroom: scopedClassroomSelect }
+      },
+      classSession: {
+        select: { date: true, startTime: true, endTime: true, classroom: scopedClassroomSelect }
+      }
+    }
+  })
+
+  if (!record) {
+    return null
+  }
+
+  return checkSupervisorScope(user, toScopedClass(record.courseSchedule, record.classSession))
+}
+
+/**
+ * Every in-person class on a day, with the supervisors assigned to it and
+ * whether anyone checked it. Make-up sessions are included in their own room
+ * and time; cancelled and rescheduled occurrences are left out.
+ */
+export async function getDailyPatrolStops(date: Date): Promise<PatrolStop[]> {
+  const sessionDate = toSessionDate(date)
+  const classroomInclude = { include: { building: true } }
+
+  const [schedules, makeUpSessions, assignments] = await Promise.all([
+    prisma.courseSchedule.findMany({
+      where: {
+        dayOfWeek: sessionDate.getUTCDay(),
+        classroomId: { not: null },
+        course: { isActive: true },
+        classGroup: { isActive: true }
+      },
+      include: {
+        course: true,
+        classGroup: true,
+        classroom: classroomInclude,
+        lecturer: { include: { user: true } },
+        classSessions: {
+          where: { date: sessionDate, isMakeUp: false },
+          include: { supervisorLogs: true }
+        }
+      }
+    }),
+    prisma.classSession.findMany({
+      where: { date: sessionDate, isMakeUp: true, status: { notIn: ['cancelled', 'rescheduled'] } },
+      include: {
+        classroom: classroomInclude,
+        supervisorLogs: true,
+        courseSchedule: {
+          include: {
+            course: true,
+            classGroup: true,
+            classroom: classroomInclude,
+            lecturer: { include: { user: true } }
+          }
+        }
+      }
+    }),
+    getActiveAssignments()
+  ])
+
+  const stops: PatrolStop[] = []
+
+  const addStop = (
+    schedule: (typeof schedules)[number] | (typeof makeUpSessions)[number]['courseSchedule'],
+    session: (typeof makeUpSessions)[number] | (typeof schedules)[number]['classSessions'][number] | null,
+    classroom: NonNullable<(typeof schedules)[number]['classroom']> | null,
+    isMakeUp: boolean
+  ) => {
+    if (!classroom) return
+
+    const startTime = session?.startTime ?? schedule.startTime
+    const endTime = session?.endTime ?? schedule.endTime
+    const scoped: ScopedClass = {
+      buildingId: classroom.buildingId,
+      floor: classroom.floor,
+      dayOfWeek: sessionDate.getUTCDay(),
+      startTime,
+      endTime
+    }
+    const log = session?.supervisorLogs[0]
+
+    stops.push({
+      scheduleId: schedule.id,
+      classSessionId: session?.id ?? null,
+      buildingId: classroom.buildingId,
+      buildingName: classroom.building.name,
+      floor: classroom.floor,
+      classroomId: classroom.id,
+      roomCode: classroom.roomCode,
+      roomName: classroom.name,
+      startTime,
+      endTime,
+      courseCode: schedule.course.courseCode,
+      courseTitle: schedule.course.title,
+      classGroupName: schedule.classGroup.name,
+      lecturerName: `${schedule.lecturer.user.firstName} ${schedule.lecturer.user.lastName}`,
+      sessionStatus: session?.status ?? 'scheduled',
+      isMakeUp,
+      checked: !!log,
+      logStatus: log?.status ?? null,
+      supervisorIds: [...new Set(assignments.filter(assignment => assignmentCoversClass(assignment, scoped)).map(assignment => assignment.supervisorId))]
+    })
+  }
+
+  for (const schedule of schedules) {
+    const session = schedule.classSessions[0] ?? null
+    if (session && ['cancelled', 'rescheduled'].includes(session.status)) continue
+    addStop(schedule, session, schedule.classroom, false)
+  }
+
+  for (const session of makeUpSessions) {
+    addStop(session.courseSchedule, session, session.classroom ?? session.courseSchedule.classroom, true)
+  }
+
+  return sortPatrolStops(stops)
+}
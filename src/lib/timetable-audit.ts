@@ -0,0 +1,244 @@
+import { SessionType } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { resolveMeetingLink } from '@/lib/meeting-link'
+import { timesOverlap } from '@/lib/schedule-conflicts'
+
+export type TimetableIssueType =
+  | 'lecturer_double_booking'
+  | 'class_group_overlap'
+  | 'room_clash'
+  | 'room_too_small'
+  | 'lecturer_overloaded'
+  | 'missing_meeting_link'
+
+export type TimetableIssueSeverity = 'error' | 'warning'
+
+export const TIMETABLE_ISSUE_TYPES: TimetableIssueType[] = [
+  'lecturer_double_booking',
+  'class_group_overlap',
+  'room_clash',
+  'room_too_small',
+  'lecturer_overloaded',
+  'missing_meeting_link'
+]
+
+// Weekly contact hours before a lecturer's regular load is exceeded. Schedules
+// flagged as overload are approved extra teaching and do not count
+export const WEEKLY_LOAD_LIMIT_HOURS = {
+  fullTime: 12,
+  adjunct: 9
+}
+
+const SEVERITIES: Record<TimetableIssueType, TimetableIssueSeverity> = {
+  lecturer_double_booking: 'error',
+  class_group_overlap: 'error',
+  room_clash: 'error',
+  room_too_small: 'error',
+  lecturer_overloaded: 'warning',
+  missing_meeting_link: 'warning'
+}
+
+const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+export interface AuditSchedule {
+  id: string
+  dayOfWeek: number
+  startTime: string
+  endTime: string
+  sessionType: SessionType
+  meetingLink: string | null
+  isOverload: boolean
+  course: { courseCode: string; programme: { coordinator: string | null } }
+  classGroup: { id: string; name: string; studentCount: number | null }
+  lecturer: { id: string; isAdjunct: boolean; user: { firstName: string; lastName: string } }
+  classroom: { id: string; roomCode: string; capacity: number | null; virtualLink: string | null } | null
+}
+
+export interface TimetableIssueLink {
+  label: string
+  href: string
+}
+
+export interface TimetableIssue {
+  key: string // stable across runs, for deduplicating and linking
+  type: TimetableIssueType
+  severity: TimetableIssueSeverity
+  message: string
+  dayOfWeek: number | null
+  scheduleIds: string[]
+  links: TimetableIssueLink[] // where to go to fix it
+}
+
+function lecturerName(schedule: AuditSchedule) {
+  return `${schedule.lecturer.user.firstName} ${schedule.lecturer.user.lastName}`
+}
+
+function describeClass(schedule: AuditSchedule) {
+  return `${schedule.course.courseCode} (${schedule.classGroup.name}, ${schedule.startTime}-${schedule.endTime})`
+}
+
+function editLink(schedule: AuditSchedule): TimetableIssueLink {
+  return { label: `Edit ${schedule.course.courseCode} for ${schedule.classGroup.name}`, href: `/dashboard/schedules/${schedule.id}/edit` }
+}
+
+function hoursBetween(startTime: string, endTime: string) {
+  const [startHours, startMinutes] = startTime.split(':').map(Number)
+  const [endHours, endMinutes] = endTime.split(':').map(Number)
+  return ((endHours * 60 + endMinutes) - (startHours * 60 + startMinutes)) / 60
+}
+
+function pairIssue(type: TimetableIssueType, a: AuditSchedule, b: AuditSchedule, subject: string): TimetableIssue {
+  return {
+    key: `${type}:${[a.id, b.id].sort().join(':')}`,
+    type,
+    severity: SEVERITIES[type],
+    message: `${subject} is booked twice on ${DAYS[a.dayOfWeek]}: ${describeClass(a)} and ${describeClass(b)}`,
+    dayOfWeek: a.dayOfWeek,
+    scheduleIds: [a.id, b.id],
+    links: [editLink(a), editLink(b)]
+  }
+}
+
+/**
+ * Check the whole weekly timetable at once. Single saves are checked by
+ * findScheduleConflict, but imports and edits can still leave clashes, rooms
+ * too small for their class, overloaded lecturers and online classes nobody
+ * can join behind.
+ */
+export function auditTimetable(schedules: AuditSchedule[]): TimetableIssue[] {
+  const issues: TimetableIssue[] = []
+  const sorted = [...schedules].sort((a, b) =>
+    a.dayOfWeek - b.dayOfWeek || a.startTime.localeCompare(b.startTime) || a.id.localeCompare(b.id)
+  )
+
+  for (let i = 0; i < sorted.length; i++) {
+    const a = sorted[i]
+
+    for (let j = i + 1; j < sorted.length; j++) {
+      const b = sorted[j]
+      // Sorted by start, so nothing later on this day can overlap a
+      if (b.dayOfWeek !== a.dayOfWeek || b.startTime >= a.endTime) break
+      if (!timesOverlap(a.startTime, a.endTime, b.startTime, b.endTime)) continue
+
+      if (a.lecturer.id === b.lecturer.id) {
+        issues.push(pairIssue('lecturer_double_booking', a, b, lecturerName(a)))
+      }
+      if (a.classGroup.id === b.classGroup.id) {
+        issues.push(pairIssue('class_group_overlap', a, b, a.classGroup.name))
+      }
+      if (a.classroom && a.classroom.id === b.classroom?.id) {
+        issues.push(pairIssue('room_clash', a, b, `Room ${a.classroom.roomCode}`))
+      }
+    }
+  }
+
+  for (const schedule of sorted) {
+    const { classroom, classGroup } = schedule
+
+    if (classroom?.capacity != null && classGroup.studentCount != null && classroom.capacity < classGroup.studentCount) {
+      issues.push({
+        key: `room_too_small:${schedule.id}`,
+        type: 'room_too_small',
+        severity: SEVERITIES.room_too_small,
+        message: `${classroom.roomCode} seats ${classroom.capacity} but ${classGroup.name} has ${classGroup.studentCount} students for ${describeClass(schedule)} on ${DAYS[schedule.dayOfWeek]}`,
+        dayOfWeek: schedule.dayOfWeek,
+        scheduleIds: [schedule.id],
+        links: [editLink(schedule)]
+      })
+    }
+
+    const isOnline = schedule.sessionType === SessionType.VIRTUAL || schedule.sessionType === SessionType.HYBRID
+    if (isOnline && !resolveMeetingLink(schedule.meetingLink, classroom?.virtualLink)) {
+      issues.push({
+        key: `missing_meeting_link:${schedule.id}`,
+        type: 'missing_meeting_link',
+        severity: SEVERITIES.missing_meeting_link,
+        message: `${describeClass(schedule)} on ${DAYS[schedule.dayOfWeek]} is ${schedule.sessionType.toLowerCase()} but has no meeting link`,
+        dayOfWeek: schedule.dayOfWeek,
+        scheduleIds: [schedule.id],
+        links: [editLink(schedule)]
+      })
+    }
+  }
+
+  const byLecturer = new Map<string, AuditSchedule[]>()
+  for (const schedule of sorted) {
+    byLecturer.set(schedule.lecturer.id, [...(byLecturer.get(schedule.lecturer.id) || []), schedule])
+  }
+
+  for (const [lecturerId, lecturerSchedules] of byLecturer) {
+    const regular = lecturerSchedules.filter(schedule => !schedule.isOverload)
+    const hours = regular.reduce((sum, schedule) => sum + hoursBetween(schedule.startTime, schedule.endTime), 0)
+    const limit = lecturerSchedules[0].lecturer.isAdjunct ? WEEKLY_LOAD_LIMIT_HOURS.adjunct : WEEKLY_LOAD_LIMIT_HOURS.fullTime
+
+    if (hours > limit) {
+      issues.push({
+        key: `lecturer_overloaded:${lecturerId}`,
+        type: 'lecturer_overloaded',
+        severity: SEVERITIES.lecturer_overloaded,
+        message: `${lecturerName(lecturerSchedules[0])} teaches ${hours} regular hours a week, over the ${limit} hour limit; reassign classes or flag them as overload`,
+        dayOfWeek: null,
+        scheduleIds: regular.map(schedule => schedule.id),
+        links: [{ label: `View ${lecturerName(lecturerSchedules[0])}'s schedules`, href: `/dashboard/schedules?lecturerId=${lecturerId}` }]
+      })
+    }
+  }
+
+  return issues
+}
+
+export function summarizeIssues(issues: TimetableIssue[]): Record<TimetableIssueType, number> {
+  const summary = Object.fromEntries(TIMETABLE_ISSUE_TYPES.map(type => [type, 0])) as Record<TimetableIssueType, number>
+  for (const issue of issues) {
+    summary[issue.type]++
+  }
+  return summary
+}
+
+export function toAuditRows(issues: TimetableIssue[], baseUrl: string) {
+  return issues.map(issue => ({
+    'Type': issue.type,
+    'Severity': issue.severity,
+    'Day': issue.dayOfWeek === null ? '' : DAYS[issue.dayOfWeek],
+    'Issue': issue.message,
+    'Schedule IDs': issue.scheduleIds.join(' '),
+    'Fix': issue.links.map(link => `${baseUrl}${link.href}`).join(' ')
+  }))
+}
+
+/**
+ * Audit every schedule. Coordinators only get issues touching a schedule in
+ * one of their programmes, though clashes are found across all programmes.
+ */
+export async function runTimetableAudit(coordinatorId?: string) {
+  const schedules = await prisma.courseSchedule.findMany({
+    select: {
+      id: true,
+      dayOfWeek: true,
+      startTime: true,
+      endTime: true,
+      sessionType: true,
+      meetingLink: true,
+      isOverload: true,
+      course: { select: { courseCode: true, programme: { select: { coordinator: true } } } },
+      classGroup: { select: { id: true, name: true, studentCount: true } },
+      lecturer: { select: { id: true, isAdjunct: true, user: { select: { firstName: true, lastName: true } } } },
+      classroom: { select: { id: true, roomCode: true, capacity: true, virtualLink: true } }
+    }
+  })
+
+  const issues = auditTimetable(schedules)
+
+  if (!coordinatorId) {
+    return { scheduleCount: schedules.length, issues }
+  }
+
+  const managed = new Set(schedules
+    .filter(schedule => schedule.course.programme.coordinator === coordinatorId)
+    .map(schedule => schedule.id))
+
+  return {
+    scheduleCount: managed.size,
+    issues: issues.filter(issue => issue.scheduleIds.some(id => managed.has(id)))
+  }
+}
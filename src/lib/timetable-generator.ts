@@ -0,0 +1,583 @@
+import { SessionType } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from '@/lib/db'
+import { findScheduleConflict, timesOverlap, type ScheduleConflictType } from '@/lib/schedule-conflicts'
+
+export type GroupType = 'regular' | 'evening' | 'weekend'
+
+// When each kind of class group meets; groups without a type are regular
+export const GROUP_TYPE_WINDOWS: Record<GroupType, { days: number[]; startTime: string; endTime: string }> = {
+  regular: { days: [1, 2, 3, 4, 5], startTime: '08:00', endTime: '17:00' },
+  evening: { days: [1, 2, 3, 4, 5], startTime: '17:30', endTime: '21:30' },
+  weekend: { days: [6, 0], startTime: '08:00', endTime: '18:00' }
+}
+
+// Classes start on the hour or half hour
+export const SLOT_STEP_MINUTES = 30
+
+const timeSchema = z.string().regex(/^([0-1][0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format (HH:MM)')
+
+export const weeklySlotSchema = z.object({
+  dayOfWeek: z.number().int().min(0).max(6),
+  startTime: timeSchema,
+  endTime: timeSchema
+})
+
+export const availabilitySchema = z.object({
+  windows: z.array(weeklySlotSchema.refine(window => window.startTime < window.endTime, {
+    message: 'End time must be after start time',
+    path: ['endTime']
+  }))
+})
+
+export const timetableRequirementSchema = z.object({
+  courseId: z.string().min(1, 'Course is required'),
+  classGroupId: z.string().min(1, 'Class group is required'),
+  lecturerId: z.string().min(1, 'Lecturer is required'),
+  sessionsPerWeek: z.number().int().min(1).max(5).default(1),
+  durationMinutes: z.number().int().min(SLOT_STEP_MINUTES).max(360).optional()
+})
+
+export const generateTimetableSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  semester: z.string().nullable().optional(),
+  academicYear: z.string().nullable().optional(),
+  requirements: z.array(timetableRequirementSchema).min(1, 'Add at least one course to schedule')
+})
+
+export const draftEntryUpdateSchema = weeklySlotSchema.extend({
+  lecturerId: z.string().min(1, 'Lecturer is required'),
+  classroomId: z.string().nullable()
+}).refine(entry => entry.startTime < entry.endTime, {
+  message: 'End time must be after start time',
+  path: ['endTime']
+})
+
+export type TimetableRequirement = z.infer<typeof timetableRequirementSchema>
+
+export interface AvailabilityWindow {
+  dayOfWeek: number
+  startTime: string
+  endTime: string
+}
+
+export interface SolverClassGroup {
+  id: string
+  deliveryMode: string
+  groupType: string | null
+  studentCount: number | null
+}
+
+export interface SolverCourse {
+  id: string
+  creditHours: number
+  virtualEnabled: boolean
+  hybridEnabled: boolean
+}
+
+export interface SolverRoom {
+  id: string
+  capacity: number | null
+}
+
+export interface BookedSlot {
+  dayOfWeek: number
+  startTime: string
+  endTime: string
+  lecturerId: string
+  classGroupId: string
+  classroomId: string | null
+}
+
+export interface PlacedSession extends BookedSlot {
+  courseId: string
+  sessionType: SessionType
+}
+
+export interface UnplacedRequirement {
+  courseId: string
+  classGroupId: string
+  lecturerId: string
+  reason: string
+}
+
+export interface TimetableProblem {
+  requirements: TimetableRequirement[]
+  classGroups: SolverClassGroup[]
+  courses: SolverCourse[]
+  rooms: SolverRoom[]
+  availability: Record<string, AvailabilityWindow[]> // by lecturer id
+  booked: BookedSlot[] // schedules already on the timetable
+}
+
+export interface TimetableSolution {
+  sessions: PlacedSession[]
+  unplaced: UnplacedRequirement[]
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+function toTime(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`
+}
+
+export function groupWindow(groupType: string | null) {
+  return GROUP_TYPE_WINDOWS[(groupType || 'regular').toLowerCase() as GroupType] ?? GROUP_TYPE_WINDOWS.regular
+}
+
+/**
+ * Online groups are taught virtually, which the course has to allow; hybrid
+ * groups get hybrid sessions where the course supports them and fall back to
+ * the classroom otherwise. Returns null when the course cannot be delivered.
+ */
+export function sessionTypeFor(deliveryMode: string, course: Pick<SolverCourse, 'virtualEnabled' | 'hybridEnabled'>): SessionType | null {
+  if (deliveryMode === 'ONLINE') {
+    return course.virtualEnabled ? SessionType.VIRTUAL : null
+  }
+
+  if (deliveryMode === 'HYBRID' && course.hybridEnabled) {
+    return SessionType.HYBRID
+  }
+
+  return SessionType.LECTURE
+}
+
+// A course's credit hours are its weekly contact hours, split across its sessions
+export function sessionDuration(requirement: Pick<TimetableRequirement, 'sessionsPerWeek' | 'durationMinutes'>, creditHours: number): number {
+  if (requirement.durationMinutes) {
+    return requirement.durationMinutes
+  }
+
+  const minutes = (Math.max(1, creditHours) * 60) / requirement.sessionsPerWeek
+  return Math.max(SLOT_STEP_MINUTES * 2, Math.round(minutes / SLOT_STEP_MINUTES) * SLOT_STEP_MINUTES)
+}
+
+// Lecturers who have not recorded any availability can teach at any time
+export function isLecturerAvailable(windows: AvailabilityWindow[], slot: AvailabilityWindow): boolean {
+  return windows.length === 0 || windows.some(window =>
+    window.dayOfWeek === slot.dayOfWeek &&
+    window.startTime <= slot.startTime &&
+    slot.endTime <= window.endTime
+  )
+}
+
+/**
+ * Find what a slot clashes with among booked ones, checking the lecturer
+ * first, then the class group, then the classroom like findScheduleConflict.
+ */
+export function findSlotClash(slot: BookedSlot, booked: BookedSlot[]): ScheduleConflictType | null {
+  const overlapping = booked.filter(other =>
+    other.dayOfWeek === slot.dayOfWeek &&
+    timesOverlap(slot.startTime, slot.endTime, other.startTime, other.endTime)
+  )
+
+  if (overlapping.some(other => other.lecturerId === slot.lecturerId)) {
+    return 'lecturer'
+  }
+
+  if (overlapping.some(other => other.classGroupId === slot.classGroupId)) {
+    return 'classGroup'
+  }
+
+  if (slot.classroomId && overlapping.some(other => other.classroomId === slot.classroomId)) {
+    return 'classroom'
+  }
+
+  return null
+}
+
+interface SolverTask {
+  requirement: TimetableRequirement
+  group: SolverClassGroup
+  sessionType: SessionType
+  rooms: SolverRoom[] // rooms that seat the group, smallest first; empty for virtual classes
+  candidates: AvailabilityWindow[]
+}
+
+function candidateSlots(group: SolverClassGroup, duration: number, availability: AvailabilityWindow[]): AvailabilityWindow[] {
+  const window = groupWindow(group.groupType)
+  const slots: AvailabilityWindow[] = []
+
+  for (const dayOfWeek of window.days) {
+    for (let start = toMinutes(window.startTime); start + duration <= toMinutes(window.endTime); start += SLOT_STEP_MINUTES) {
+      const slot = { dayOfWeek, startTime: toTime(start), endTime: toTime(start + duration) }
+      if (isLecturerAvailable(availability, slot)) {
+        slots.push(slot)
+      }
+    }
+  }
+
+  return slots
+}
+
+// Scores compare element by element, lowest first
+function isBetterScore(score: number[], best: number[]): boolean {
+  for (let i = 0; i < score.length; i++) {
+    if (score[i] !== best[i]) {
+      return score[i] < best[i]
+    }
+  }
+
+  return false
+}
+
+function fittingRooms(rooms: SolverRoom[], studentCount: number | null): SolverRoom[] {
+  // Rooms of unknown size are only used for groups of unknown size
+  return rooms
+    .filter(room => studentCount === null || (room.capacity !== null && room.capacity >= studentCount))
+    .sort((a, b) => (a.capacity ?? Infinity) - (b.capacity ?? Infinity) || a.id.localeCompare(b.id))
+}
+
+/**
+ * Greedy timetable solver. Sessions with the fewest possible slots are placed
+ * first; each goes on the day its class group and lecturer are least busy,
+ * as early as possible, in the smallest free room that seats the group.
+ * Existing schedules are never moved, so the result is conflict-free with
+ * them as well as with itself. Whatever cannot be placed is reported.
+ */
+export function solveTimetable(problem: TimetableProblem): TimetableSolution {
+  const groups = new Map(problem.classGroups.map(group => [group.id, group]))
+  const courses = new Map(problem.courses.map(course => [course.id, course]))
+  const unplaced: UnplacedRequirement[] = []
+  const tasks: SolverTask[] = []
+
+  const skip = (requirement: TimetableRequirement, reason: string) => {
+    unplaced.push({
+      courseId: requirement.courseId,
+      classGroupId: requirement.classGroupId,
+      lecturerId: requirement.lecturerId,
+      reason
+    })
+  }
+
+  for (const requirement of problem.requirements) {
+    const group = groups.get(requirement.classGroupId)
+    const course = courses.get(requirement.courseId)
+
+    if (!group || !course) {
+      skip(requirement, 'Course or class group not found')
+      continue
+    }
+
+    const sessionType = sessionTypeFor(group.deliveryMode, course)
+    if (!sessionType) {
+      skip(requirement, 'The class group is online but the course is not enabled for virtual delivery')
+      continue
+    }
+
+    const rooms = sessionType === SessionType.VIRTUAL ? [] : fittingRooms(problem.rooms, group.studentCount)
+    if (sessionType !== SessionType.VIRTUAL && rooms.length === 0) {
+      skip(requirement, `No classroom seats ${group.studentCount} students`)
+      continue
+    }
+
+    const candidates = candidateSlots(
+      group,
+      sessionDuration(requirement, course.creditHours),
+      problem.availability[requirement.lecturerId] || []
+    )
+    if (candidates.length === 0) {
+      skip(requirement, 'The lecturer is not available when the class group meets')
+      continue
+    }
+
+    for (let i = 0; i < requirement.sessionsPerWeek; i++) {
+      tasks.push({ requirement, group, sessionType, rooms, candidates })
+    }
+  }
+
+  tasks.sort((a, b) =>
+    a.candidates.length - b.candidates.length ||
+    (b.group.studentCount ?? 0) - (a.group.studentCount ?? 0) ||
+    a.group.id.localeCompare(b.group.id) ||
+    a.requirement.courseId.localeCompare(b.requirement.courseId)
+  )
+
+  const booked = [...problem.booked]
+  const sessions: PlacedSession[] = []
+
+  for (const task of tasks) {
+    const { requirement } = task
+    const window = groupWindow(task.group.groupType)
+    let best: { session: PlacedSession; score: number[] } | null = null
+
+    for (const candidate of task.candidates) {
+      // Spread a course's sessions across the week
+      const sameCourseThatDay = sessions.some(session =>
+        session.courseId === requirement.courseId &&
+        session.classGroupId === requirement.classGroupId &&
+        session.dayOfWeek === candidate.dayOfWeek
+      )
+      if (sameCourseThatDay) {
+        continue
+      }
+
+      const slot: BookedSlot = {
+        ...candidate,
+        lecturerId: requirement.lecturerId,
+        classGroupId: requirement.classGroupId,
+        classroomId: null
+      }
+      if (findSlotClash(slot, booked)) {
+        continue
+      }
+
+      if (task.rooms.length > 0) {
+        const room = task.rooms.find(room => !findSlotClash({ ...slot, classroomId: room.id }, booked))
+        if (!room) {
+          continue
+        }
+        slot.classroomId = room.id
+      }
+
+      const dayBookings = booked.filter(other => other.dayOfWeek === candidate.dayOfWeek)
+      const score = [
+        dayBookings.filter(other => other.classGroupId === requirement.classGroupId).length,
+        dayBookings.filter(other => other.lecturerId === requirement.lecturerId).length,
+        window.days.indexOf(candidate.dayOfWeek),
+        toMinutes(candidate.startTime)
+      ]
+
+      if (!best || isBetterScore(score, best.score)) {
+        best = { session: { ...slot, courseId: requirement.courseId, sessionType: task.sessionType }, score }
+      }
+    }
+
+    if (best) {
+      sessions.push(best.session)
+      booked.push(best.session)
+    } else {
+      skip(requirement, 'No free slot without a clash for the lecturer, class group or classroom')
+    }
+  }
+
+  return { sessions, unplaced }
+}
+
+export function parseUnplaced(value: string | null): UnplacedRequirement[] {
+  if (!value) {
+    return []
+  }
+
+  try {
+    const parsed = JSON.parse(value)
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+export async function getLecturerAvailability(lecturerIds: string[]): Promise<Record<string, AvailabilityWindow[]>> {
+  const windows = await prisma.lecturerAvailability.findMany({
+    where: { lecturerId: { in: lecturerIds } },
+    orderBy: [{ dayOfWeek: 'asc' }, { startTime: 'asc' }]
+  })
+
+  const byLecturer: Record<string, AvailabilityWindow[]> = {}
+  for (const window of windows) {
+    (byLecturer[window.lecturerId] ||= []).push({
+      dayOfWeek: window.dayOfWeek,
+      startTime: window.startTime,
+      endTime: window.endTime
+    })
+  }
+
+  return byLecturer
+}
+
+/**
+ * The courses each class group takes in its current semester and has no
+ * schedule for yet, with the lecturer who most recently taught the course
+ * as a suggestion.
+ */
+export async function suggestRequirements(classGroupIds: string[]) {
+  const groups = await prisma.classGroup.findMany({
+    where: { id: { in: classGroupIds } },
+    include: { courseSchedules: { select: { courseId: true } } }
+  })
+
+  const suggestions: (TimetableRequirement & { lecturerId: string | null })[] = []
+
+  for (const group of groups) {
+    const semesterLevel = group.semester ? parseInt(group.semester, 10) : NaN
+    const scheduledCourseIds = new Set(group.courseSchedules.map(schedule => schedule.courseId))
+
+    const courses = await prisma.course.findMany({
+      where: {
+        programmeId: group.programmeId,
+        isActive: true,
+        ...(isNaN(semesterLevel) ? {} : { semesterLevel })
+      },
+      include: {
+        courseSchedules: {
+          select: { lecturerId: true },
+          orderBy: { id: 'desc' },
+          take: 1
+        }
+      },
+      orderBy: { courseCode: 'asc' }
+    })
+
+    for (const course of courses) {
+      if (scheduledCourseIds.has(course.id)) {
+        continue
+      }
+
+      suggestions.push({
+        courseId: course.id,
+        classGroupId: group.id,
+        lecturerId: course.courseSchedules[0]?.lecturerId ?? null,
+        sessionsPerWeek: 1,
+        durationMinutes: sessionDuration({ sessionsPerWeek: 1 }, course.creditHours)
+      })
+    }
+  }
+
+  return suggestions
+}
+
+export async function generateTimetableDraft(input: z.infer<typeof generateTimetableSchema>, userId: string) {
+  const { requirements } = input
+  const classGroupIds = [...new Set(requirements.map(requirement => requirement.classGroupId))]
+  const courseIds = [...new Set(requirements.map(requirement => requirement.courseId))]
+  const lecturerIds = [...new Set(requirements.map(requirement => requirement.lecturerId))]
+
+  const [classGroups, courses, rooms, availability, booked] = await Promise.all([
+    prisma.classGroup.findMany({
+      where: { id: { in: classGroupIds } },
+      select: { id: true, deliveryMode: true, groupType: true, studentCount: true }
+    }),
+    prisma.course.findMany({
+      where: { id: { in: courseIds } },
+      select: { id: true, creditHours: true, virtualEnabled: true, hybridEnabled: true }
+    }),
+    prisma.classroom.findMany({
+      where: { availabilityStatus: 'available' },
+      select: { id: true, capacity: true }
+    }),
+    getLecturerAvailability(lecturerIds),
+    prisma.courseSchedule.findMany({
+      select: { dayOfWeek: true, startTime: true, endTime: true, lecturerId: true, classGroupId: true, classroomId: true }
+    })
+  ])
+
+  const solution = solveTimetable({ requirements, classGroups, courses, rooms, availability, booked })
+
+  return prisma.timetableDraft.create({
+    data: {
+      name: input.name,
+      semester: input.semester ?? null,
+      academicYear: input.academicYear ?? null,
+      createdBy: userId,
+      unplaced: solution.unplaced.length > 0 ? JSON.stringify(solution.unplaced) : null,
+      entries: {
+        create: solution.sessions.map(session => ({
+          courseId: session.courseId,
+          classGroupId: session.classGroupId,
+          lecturerId: session.lecturerId,
+          dayOfWeek: session.dayOfWeek,
+          startTime: session.startTime,
+          endTime: session.endTime,
+          classroomId: session.classroomId,
+          sessionType: session.sessionType
+        }))
+      }
+    },
+    include: { entries: true }
+  })
+}
+
+const DRAFT_CLASH_MESSAGES: Record<ScheduleConflictType, string> = {
+  lecturer: 'The lecturer already teaches another class in this draft at that time.',
+  classGroup: 'The class group already has another class in this draft at that time.',
+  classroom: 'The classroom is already used by another class in this draft at that time.'
+}
+
+/**
+ * Check a moved draft entry against the rest of the draft and the published
+ * timetable. Returns an error message, or null when the slot is free.
+ */
+export async function checkDraftEntrySlot(entryId: string, draftId: string, slot: BookedSlot): Promise<string | null> {
+  const others = await prisma.timetableDraftEntry.findMany({
+    where: { draftId, id: { not: entryId } },
+    select: { dayOfWeek: true, startTime: true, endTime: true, lecturerId: true, classGroupId: true, classroomId: true }
+  })
+
+  const clash = findSlotClash(slot, others)
+  if (clash) {
+    return DRAFT_CLASH_MESSAGES[clash]
+  }
+
+  const conflict = await findScheduleConflict(slot)
+  return conflict ? conflict.message : null
+}
+
+/**
+ * Turn every entry of a draft into a course schedule in one transaction.
+ * The published timetable may have changed since generation, so each entry
+ * is checked again first and nothing is published if any of them clash.
+ */
+export async function publishTimetableDraft(draftId: string, userId: string) {
+  const draft = await prisma.timetableDraft.findUnique({
+    where: { id: draftId },
+    include: {
+      entries: {
+        include: {
+          course: { select: { courseCode: true } },
+          classGroup: { select: { name: true } }
+        }
+      }
+    }
+  })
+
+  if (!draft) {
+    return { error: 'Timetable draft not found', status: 404 }
+  }
+
+  if (draft.status !== 'draft') {
+    return { error: `This timetable has already been ${draft.status}`, status: 400 }
+  }
+
+  if (draft.entries.length === 0) {
+    return { error: 'This timetable has no classes to publish', status: 400 }
+  }
+
+  for (const entry of draft.entries) {
+    const conflict = await findScheduleConflict(entry)
+    if (conflict) {
+      return { error: `${entry.course.courseCode} for ${entry.classGroup.name}: ${conflict.message}`, status: 409 }
+    }
+  }
+
+  const published = await prisma.$transaction(async tx => {
+    for (const entry of draft.entries) {
+      const schedule = await tx.courseSchedule.create({
+        data: {
+          courseId: entry.courseId,
+          classGroupId: entry.classGroupId,
+          lecturerId: entry.lecturerId,
+          classroomId: entry.classroomId,
+          dayOfWeek: entry.dayOfWeek,
+          startTime: entry.startTime,
+          endTime: entry.endTime,
+          sessionType: entry.sessionType
+        }
+      })
+
+      await tx.timetableDraftEntry.update({
+        where: { id: entry.id },
+        data: { courseScheduleId: schedule.id }
+      })
+    }
+
+    return tx.timetableDraft.update({
+      where: { id: draftId },
+      data: { status: 'published', publishedBy: userId, publishedAt: new Date() }
+    })
+  })
+
+  return { draft: published, scheduleCount: draft.entries.length }
+}
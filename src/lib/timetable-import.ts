@@ -0,0 +1,652 @@
+import { SessionType } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from '@/lib/db'
+import { auditActor, type AuditActor } from '@/lib/audit'
+import { findScheduleConflict, type ScheduleConflictType } from '@/lib/schedule-conflicts'
+import { findSlotClash, weeklySlotSchema, type BookedSlot } from '@/lib/timetable-generator'
+
+export type ImportEntity = 'course' | 'classGroup' | 'lecturer' | 'classroom'
+
+export const IMPORT_ENTITIES: ImportEntity[] = ['course', 'classGroup', 'lecturer', 'classroom']
+
+// Matches scoring below MIN_MATCH_SCORE are dropped; anything under
+// CONFIDENT_MATCH_SCORE is left for the person importing to check
+export const MIN_MATCH_SCORE = 0.5
+export const CONFIDENT_MATCH_SCORE = 0.85
+
+export const MAX_IMPORT_ROWS = 1000
+
+/** One weekly class read from an export, before anything is matched */
+export interface ImportedClass {
+  row: number // event or row number in the file, for messages
+  dayOfWeek: number
+  startTime: string
+  endTime: string
+  course: string
+  classGroup: string | null
+  lecturer: string | null
+  classroom: string | null
+  sessionType: SessionType
+  meetingLink: string | null
+}
+
+export interface ParsedTimetable {
+  classes: ImportedClass[]
+  errors: string[]
+}
+
+export interface MatchOption {
+  id: string
+  label: string
+  keys: string[] // names, codes and emails the option is known by
+}
+
+export interface EntityMatch {
+  id: string
+  label: string
+  score: number // 0-1
+}
+
+export interface ImportPreviewRow extends ImportedClass {
+  matches: Record<ImportEntity, EntityMatch | null>
+  issue: string | null // duplicate or clash that would stop the row importing
+}
+
+export const timetableImportSchema = z.object({
+  rows: z.array(weeklySlotSchema.extend({
+    row: z.number().int(),
+    courseId: z.string().min(1, 'Course is required'),
+    classGroupId: z.string().min(1, 'Class group is required'),
+    lecturerId: z.string().min(1, 'Lecturer is required'),
+    classroomId: z.string().nullable(),
+    sessionType: z.nativeEnum(SessionType),
+    meetingLink: z.string().url('Invalid URL').nullable().optional()
+  }).refine(row => row.startTime < row.endTime, {
+    message: 'End time must be after start time',
+    path: ['endTime']
+  })).min(1, 'Choose at least one class to import').max(MAX_IMPORT_ROWS)
+})
+
+export type TimetableImportRow = z.infer<typeof timetableImportSchema>['rows'][number]
+
+const DAY_NAMES: Record<string, number> = {
+  sun: 0, sunday: 0,
+  mon: 1, monday: 1,
+  tue: 2, tues: 2, tuesday: 2,
+  wed: 3, wednesday: 3,
+  thu: 4, thur: 4, thurs: 4, thursday: 4,
+  fri: 5, friday: 5,
+  sat: 6, saturday: 6
+}
+
+const ICS_DAYS: Record<string, number> = { SU: 0, MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6 }
+
+const CLASH_MESSAGES: Record<ScheduleConflictType, string> = {
+  lecturer: 'the lecturer is already teaching then',
+  classGroup: 'the class group already has a class then',
+  classroom: 'the room is already booked then'
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0')
+}
+
+/**
+ * Read a time written the way timetable exports write them: 08:00, 8.00,
+ * 0800, 2:30 pm, or a spreadsheet fraction of a day.
+ */
+export function parseImportTime(value: unknown): string | null {
+  if (typeof value === 'number') {
+    if (value < 0 || value >= 1) return null
+    const minutes = Math.round(value * 24 * 60)
+    return `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`
+  }
+
+  const match = String(value ?? '').trim().match(/^(\d{1,2})(?:[:.h]?(\d{2}))?(?::\d{2})?\s*(?:([ap])\.?m\.?)?$/i)
+  if (!match) return null
+
+  let hours = Number(match[1])
+  const minutes = Number(match[2] ?? 0)
+  const meridiem = match[3]?.toLowerCase()
+
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null
+    hours = (hours % 12) + (meridiem === 'p' ? 12 : 0)
+  }
+
+  return hours < 24 && minutes < 60 ? `${pad(hours)}:${pad(minutes)}` : null
+}
+
+export function parseImportDay(value: unknown): number | null {
+  const day = DAY_NAMES[String(value ?? '').trim().toLowerCase().replace(/\.$/, '')]
+  return day ?? null
+}
+
+// Dates come as YYYY-MM-DD or the DD/MM/YYYY used locally
+function parseImportDate(value: unknown): Date | null {
+  const text = String(value ?? '').trim()
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/)
+  const local = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/)
+
+  if (iso) return new Date(Date.UTC(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])))
+  if (local) return new Date(Date.UTC(Number(local[3]), Number(local[2]) - 1, Number(local[1])))
+  return null
+}
+
+export function parseSessionType(value: unknown): SessionType {
+  const text = String(value ?? '').toLowerCase()
+
+  if (/lab|practical|workshop/.test(text)) return SessionType.LAB
+  if (/seminar|tutorial/.test(text)) return SessionType.SEMINAR
+  if (/hybrid|blended/.test(text)) return SessionType.HYBRID
+  if (/virtual|online|remote/.test(text)) return SessionType.VIRTUAL
+  return SessionType.LECTURE
+}
+
+// Exports repeat a class for every week it runs; keep one row per weekly slot
+function collapseOccurrences(classes: ImportedClass[]): ImportedClass[] {
+  const seen = new Set<string>()
+
+  return classes.filter(item => {
+    const key = [item.course, item.classGroup, item.lecturer, item.classroom, item.dayOfWeek, item.startTime, item.endTime]
+      .map(part => String(part ?? '').toLowerCase())
+      .join('|')
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+function unescapeIcsText(text: string): string {
+  return text
+    .replace(/\\n/gi, '\n')
+    .replace(/\\([,;\\])/g, '$1')
+}
+
+function parseIcsProperty(line: string) {
+  // The value starts at the first colon outside a quoted parameter
+  let inQuotes = false
+  let split = -1
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes
+    if (line[i] === ':' && !inQuotes) {
+      split = i
+      break
+    }
+  }
+  if (split === -1) return null
+
+  const [name, ...params] = line.slice(0, split).split(';')
+  return {
+    name: name.toUpperCase(),
+    params: Object.fromEntries(params.map(param => {
+      const [key, ...rest] = param.split('=')
+      return [key.toUpperCase(), rest.join('=').replace(/^"|"$/g, '')]
+    })),
+    value: line.slice(split + 1)
+  }
+}
+
+// Ghana keeps UTC all year, so times read the same with or without a zone
+function parseIcsDateTime(value: string) {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})/)
+  if (!match) return null
+  return {
+    dayOfWeek: new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]))).getUTCDay(),
+    time: `${match[4]}:${match[5]}`
+  }
+}
+
+function describedAs(description: string, labels: string[]): string | null {
+  for (const line of description.split('\n')) {
+    const match = line.match(/^\s*([^:]+):\s*(.+)$/)
+    if (match && labels.includes(match[1].trim().toLowerCase())) {
+      return match[2].trim()
+    }
+  }
+  return null
+}
+
+/**
+ * Read the weekly classes out of an iCalendar export. Each event becomes a
+ * class; weekly recurrence rules on several days become one class per day.
+ * Lecturer and class group come from DESCRIPTION lines like "Lecturer: ..."
+ * (as in this system's own feeds), falling back to the organiser and a
+ * group in brackets at the end of the summary.
+ */
+export function parseIcsTimetable(text: string): ParsedTimetable {
+  const classes: ImportedClass[] = []
+  const errors: string[] = []
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/)
+  let event: Record<string, { params: Record<string, string>; value: string }> | null = null
+  let eventNumber = 0
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      event = {}
+      eventNumber++
+      continue
+    }
+
+    if (line === 'END:VEVENT' && event) {
+      const current = event
+      event = null
+
+      const summary = unescapeIcsText(current.SUMMARY?.value ?? '').trim()
+      const label = `Event ${eventNumber}${summary ? ` (${summary})` : ''}`
+
+      // Cancelled classes and the one-off make-ups in this system's own feeds are not weekly classes
+      if (current.STATUS?.value.toUpperCase() === 'CANCELLED' || current.UID?.value.startsWith('session-')) {
+        continue
+      }
+
+      const start = current.DTSTART && parseIcsDateTime(current.DTSTART.value)
+      const end = current.DTEND && parseIcsDateTime(current.DTEND.value)
+
+      if (!start || !end) {
+        errors.push(`${label}: all-day events and events without an end time are skipped`)
+        continue
+      }
+
+      if (!summary) {
+        errors.push(`${label}: no summary to identify the course`)
+        continue
+      }
+
+      const description = unescapeIcsText(current.DESCRIPTION?.value ?? '')
+      const bracketed = summary.match(/^(.*?)\s*\(([^()]+)\)$/)
+      const location = unescapeIcsText(current.LOCATION?.value ?? '').trim()
+      const meetingLink = current.URL?.value || describedAs(description, ['join', 'meeting link', 'link'])
+      const delivery = describedAs(description, ['delivery', 'type', 'activity type']) ?? current.CATEGORIES?.value
+
+      const byDay = current.RRULE?.value.match(/BYDAY=([^;]+)/)?.[1]
+      const days = byDay
+        ? byDay.split(',').map(day => ICS_DAYS[day.slice(-2)]).filter(day => day !== undefined)
+        : [start.dayOfWeek]
+
+      for (const dayOfWeek of days) {
+        classes.push({
+          row: eventNumber,
+          dayOfWeek,
+          startTime: start.time,
+          endTime: end.time,
+          course: bracketed ? bracketed[1] : summary,
+          classGroup: describedAs(description, ['class group', 'group', 'groups', 'students', 'cohort']) ?? bracketed?.[2] ?? null,
+          lecturer: describedAs(description, ['lecturer', 'lecturers', 'staff', 'tutor', 'instructor'])
+            ?? current.ORGANIZER?.params.CN
+            ?? null,
+          classroom: location && location.toLowerCase() !== 'online' ? location : null,
+          sessionType: delivery ? parseSessionType(delivery) : !location && meetingLink ? SessionType.VIRTUAL : SessionType.LECTURE,
+          meetingLink: meetingLink || null
+        })
+      }
+      continue
+    }
+
+    if (event) {
+      const property = parseIcsProperty(line)
+      if (property && !event[property.name]) {
+        event[property.name] = { params: property.params, value: property.value }
+      }
+    }
+  }
+
+  return { classes: collapseOccurrences(classes), errors }
+}
+
+// Column names used by the timetable systems we have seen exports from, in
+// order of preference, compared without case, spaces or punctuation
+const COLUMN_ALIASES = {
+  day: ['day', 'dayofweek', 'weekday'],
+  date: ['date', 'startdate', 'eventdate'],
+  startTime: ['starttime', 'start', 'from', 'begin', 'timefrom'],
+  endTime: ['endtime', 'end', 'to', 'finish', 'timeto'],
+  time: ['time', 'times', 'timeslot', 'period'],
+  course: ['coursecode', 'modulecode', 'subjectcode', 'code', 'course', 'module', 'subject', 'activity', 'activityname', 'coursetitle', 'title'],
+  classGroup: ['classgroup', 'group', 'groups', 'class', 'studentset', 'studentsets', 'studentgroup', 'cohort'],
+  lecturer: ['lecturer', 'lectureremail', 'lecturers', 'staff', 'staffname', 'staffemail', 'teacher', 'tutor', 'instructor'],
+  classroom: ['venue', 'room', 'rooms', 'roomcode', 'location', 'classroom'],
+  sessionType: ['sessiontype', 'type', 'activitytype', 'deliverymode', 'delivery', 'mode'],
+  meetingLink: ['meetinglink', 'onlinelink', 'link', 'url']
+}
+
+type ImportColumn = keyof typeof COLUMN_ALIASES
+
+function compactKey(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+/**
+ * Read the weekly classes out of spreadsheet rows exported by a timetabling
+ * system. Columns are recognised by name, the day can come from a date, and
+ * start and end can share one column as "08:00-10:00".
+ */
+export function parseTimetableRows(rows: Record<string, unknown>[]): ParsedTimetable {
+  const classes: ImportedClass[] = []
+  const errors: string[] = []
+
+  const headers = Object.keys(rows[0] ?? {})
+  const columns = Object.fromEntries(Object.entries(COLUMN_ALIASES).map(([column, aliases]) => [
+    column,
+    aliases.map(alias => headers.find(header => compactKey(header) === alias)).find(Boolean)
+  ])) as Record<ImportColumn, string | undefined>
+
+  if (!columns.course || !(columns.day || columns.date) || !((columns.startTime && columns.endTime) || columns.time)) {
+    return {
+      classes,
+      errors: ['The file needs course, day (or date) and start/end time columns; found: ' + (headers.join(', ') || 'no columns')]
+    }
+  }
+
+  const read = (row: Record<string, unknown>, column: ImportColumn) => {
+    const header = columns[column]
+    const value = header === undefined ? '' : String(row[header] ?? '').trim()
+    return value || null
+  }
+
+  rows.forEach((row, index) => {
+    const rowNum = index + 2 // Account for header row
+    const course = read(row, 'course')
+
+    if (!course) {
+      return // blank lines between days
+    }
+
+    const date = columns.date ? parseImportDate(row[columns.date]) : null
+    const dayOfWeek = columns.day ? parseImportDay(row[columns.day]) : date?.getUTCDay() ?? null
+    const [startText, endText] = columns.time
+      ? String(row[columns.time] ?? '').split(/\s*(?:-|–|to)\s*/i)
+      : [row[columns.startTime!], row[columns.endTime!]]
+    const startTime = parseImportTime(startText)
+    const endTime = parseImportTime(endText)
+
+    if (dayOfWeek === null) {
+      errors.push(`Row ${rowNum}: Invalid day "${read(row, 'day') ?? read(row, 'date') ?? ''}"`)
+      return
+    }
+
+    if (!startTime || !endTime || startTime >= endTime) {
+      errors.push(`Row ${rowNum}: Invalid start or end time`)
+      return
+    }
+
+    // Several lecturers may share a class; the first listed is taken as its lecturer
+    const lecturer = read(row, 'lecturer')?.split(/\s*(?:;|\/|&|\band\b)\s*/)[0] || null
+
+    classes.push({
+      row: rowNum,
+      dayOfWeek,
+      startTime,
+      endTime,
+      course,
+      classGroup: read(row, 'classGroup'),
+      lecturer,
+      classroom: read(row, 'classroom'),
+      sessionType: parseSessionType(read(row, 'sessionType')),
+      meetingLink: read(row, 'meetingLink')
+    })
+  })
+
+  return { classes: collapseOccurrences(classes), errors }
+}
+
+const HONORIFICS = new Set(['dr', 'prof', 'professor', 'mr', 'mrs', 'ms', 'miss', 'rev', 'sir', 'madam'])
+
+export function normalizeForMatch(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9@]+/g, ' ')
+    .split(' ')
+    .filter(word => word && !HONORIFICS.has(word))
+    .join(' ')
+}
+
+function bigrams(text: string): string[] {
+  const compact = text.replace(/ /g, '')
+  return Array.from({ length: Math.max(compact.length - 1, 0) }, (_, i) => compact.slice(i, i + 2))
+}
+
+/**
+ * How alike two names are, from 0 to 1: the Dice coefficient of their letter
+ * pairs once case, punctuation, titles and word order are ignored.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const [left, right] = [a, b].map(text => normalizeForMatch(text).split(' ').sort().join(' '))
+  if (!left || !right) return 0
+  if (left === right) return 1
+
+  const leftPairs = bigrams(left)
+  const rightPairs = bigrams(right)
+  if (leftPairs.length === 0 || rightPairs.length === 0) return 0
+
+  const remaining = [...rightPairs]
+  let shared = 0
+  for (const pair of leftPairs) {
+    const index = remaining.indexOf(pair)
+    if (index !== -1) {
+      shared++
+      remaining.splice(index, 1)
+    }
+  }
+
+  return (2 * shared) / (leftPairs.length + rightPairs.length)
+}
+
+// Course codes like ACC 101, ACC-101 or BAFS301A inside a longer title
+const COURSE_CODE_PATTERN = /\b([A-Za-z]{2,5})\s*-?\s*(\d{3,4}[A-Za-z]?)\b/
+
+export function matchEntity(text: string | null, options: MatchOption[]): EntityMatch | null {
+  if (!text) return null
+
+  const code = text.match(COURSE_CODE_PATTERN)
+  const compactCode = code ? compactKey(code[1] + code[2]) : null
+  const head = text.split(',')[0] // "LT1 Lecture Theatre 1, Main Block"
+
+  let best: EntityMatch | null = null
+  for (const option of options) {
+    const score = Math.max(...option.keys.map(key =>
+      compactCode && compactKey(key) === compactCode
+        ? 1
+        : Math.max(nameSimilarity(text, key), nameSimilarity(head, key))
+    ))
+
+    if (score >= MIN_MATCH_SCORE && (!best || score > best.score)) {
+      best = { id: option.id, label: option.label, score: Math.round(score * 100) / 100 }
+    }
+  }
+
+  return best
+}
+
+/**
+ * Why each matched row would not import: already on the timetable, clashing
+ * with the timetable, or clashing with an earlier row of the same file.
+ */
+export function findImportIssues(
+  rows: (BookedSlot & { courseId: string; row: number })[],
+  existing: (BookedSlot & { courseId: string })[]
+): (string | null)[] {
+  const accepted: typeof rows = []
+
+  return rows.map(row => {
+    const duplicate = existing.some(other =>
+      other.courseId === row.courseId &&
+      other.classGroupId === row.classGroupId &&
+      other.dayOfWeek === row.dayOfWeek &&
+      other.startTime === row.startTime
+    )
+    if (duplicate) {
+      return 'Already on the timetable'
+    }
+
+    const clash = findSlotClash(row, existing)
+    if (clash) {
+      return `Clashes with the timetable: ${CLASH_MESSAGES[clash]}`
+    }
+
+    const earlier = accepted.find(other => findSlotClash(row, [other]))
+    if (earlier) {
+      return `Clashes with row ${earlier.row}: ${CLASH_MESSAGES[findSlotClash(row, [earlier])!]}`
+    }
+
+    accepted.push(row)
+    return null
+  })
+}
+
+export async function loadMatchOptions(): Promise<Record<ImportEntity, MatchOption[]>> {
+  const [courses, classGroups, lecturers, classrooms] = await Promise.all([
+    prisma.course.findMany({
+      where: { isActive: true },
+      select: { id: true, courseCode: true, title: true },
+      orderBy: { courseCode: 'asc' }
+    }),
+    prisma.classGroup.findMany({
+      where: { isActive: true },
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' }
+    }),
+    prisma.lecturer.findMany({
+      where: { user: { isActive: true } },
+      select: { id: true, employeeId: true, user: { select: { firstName: true, lastName: true, email: true } } },
+      orderBy: { user: { lastName: 'asc' } }
+    }),
+    prisma.classroom.findMany({
+      select: { id: true, roomCode: true, name: true },
+      orderBy: { roomCode: 'asc' }
+    })
+  ])
+
+  return {
+    course: courses.map(course => ({
+      id: course.id,
+      label: `${course.courseCode} ${course.title}`,
+      keys: [course.courseCode, course.title, `${course.courseCode} ${course.title}`]
+    })),
+    classGroup: classGroups.map(group => ({ id: group.id, label: group.name, keys: [group.name] })),
+    lecturer: lecturers.map(lecturer => ({
+      id: lecturer.id,
+      label: `${lecturer.user.firstName} ${lecturer.user.lastName}`,
+      keys: [`${lecturer.user.firstName} ${lecturer.user.lastName}`, lecturer.user.email, lecturer.employeeId]
+    })),
+    classroom: classrooms.map(room => ({
+      id: room.id,
+      label: `${room.roomCode} ${room.name}`,
+      keys: [room.roomCode, room.name, `${room.roomCode} ${room.name}`]
+    }))
+  }
+}
+
+/**
+ * Match parsed classes to courses, class groups, lecturers and rooms and
+ * flag the rows that would not import, for review before anything is saved.
+ */
+export async function previewTimetableImport(classes: ImportedClass[]) {
+  const [options, existing] = await Promise.all([
+    loadMatchOptions(),
+    prisma.courseSchedule.findMany({
+      select: { courseId: true, classGroupId: true, lecturerId: true, classroomId: true, dayOfWeek: true, startTime: true, endTime: true }
+    })
+  ])
+
+  const matched = classes.map(item => ({
+    ...item,
+    matches: {
+      course: matchEntity(item.course, options.course),
+      classGroup: matchEntity(item.classGroup, options.classGroup),
+      lecturer: matchEntity(item.lecturer, options.lecturer),
+      classroom: matchEntity(item.classroom, options.classroom)
+    }
+  }))
+
+  const complete = matched.filter(item => item.matches.course && item.matches.classGroup && item.matches.lecturer)
+  const issues = findImportIssues(complete.map(item => ({
+    row: item.row,
+    dayOfWeek: item.dayOfWeek,
+    startTime: item.startTime,
+    endTime: item.endTime,
+    courseId: item.matches.course!.id,
+    classGroupId: item.matches.classGroup!.id,
+    lecturerId: item.matches.lecturer!.id,
+    classroomId: item.matches.classroom?.id ?? null
+  })), existing)
+  const issueByRow = new Map(complete.map((item, index) => [item, issues[index]]))
+
+  const rows: ImportPreviewRow[] = matched.map(item => ({ ...item, issue: issueByRow.get(item) ?? null }))
+
+  return {
+    rows,
+    options: Object.fromEntries(IMPORT_ENTITIES.map(entity => [
+      entity,
+      options[entity].map(({ id, label }) => ({ id, label }))
+    ])) as Record<ImportEntity, { id: string; label: string }[]>
+  }
+}
+
+/**
+ * Create the reviewed rows as course schedules. Each row is checked against
+ * the timetable as it stands, including rows saved earlier in the same
+ * import, and skipped with an error if it clashes.
+ */
+export async function importTimetableRows(rows: TimetableImportRow[], actor: AuditActor) {
+  const errors: string[] = []
+  const warnings: string[] = []
+  let imported = 0
+
+  for (const row of rows) {
+    const label = `Row ${row.row}`
+
+    try {
+      const existing = await prisma.courseSchedule.findFirst({
+        where: { courseId: row.courseId, classGroupId: row.classGroupId, dayOfWeek: row.dayOfWeek, startTime: row.startTime }
+      })
+
+      if (existing) {
+        warnings.push(`${label}: Already on the timetable, skipping`)
+        continue
+      }
+
+      const conflict = await findScheduleConflict(row)
+      if (conflict) {
+        errors.push(`${label}: ${conflict.message}`)
+        continue
+      }
+
+      await prisma.courseSchedule.create({
+        data: {
+          courseId: row.courseId,
+          classGroupId: row.classGroupId,
+          lecturerId: row.lecturerId,
+          classroomId: row.classroomId,
+          dayOfWeek: row.dayOfWeek,
+          startTime: row.startTime,
+          endTime: row.endTime,
+          sessionType: row.sessionType,
+          meetingLink: row.meetingLink ?? null
+        }
+      })
+
+      imported++
+    } catch (error) {
+      errors.push(`${label}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  await prisma.auditLog.create({
+    data: {
+      ...auditActor(actor),
+      action: 'TIMETABLE_IMPORTED',
+      targetType: 'CourseSchedule',
+      targetId: 'bulk',
+      metadata: JSON.stringify({ rows: rows.length, imported, errors: errors.length, skipped: warnings.length })
+    }
+  })
+
+  return {
+    success: errors.length === 0,
+    message: errors.length === 0 ? 'Timetable imported successfully' : 'Import completed with errors',
+    imported,
+    errors,
+    warnings
+  }
+}
@@ -0,0 +1,504 @@
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes, randomInt, timingSafeEqual } from 'crypto'
+import QRCode from 'qrcode'
+import { z } from 'zod'
+import { UserRole } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { smsService, smsTemplates } from '@/lib/sms'
+
+export interface TwoFactorSettings {
+  requiredRoles: UserRole[]
+}
+
+export const DEFAULT_TWO_FACTOR_SETTINGS: TwoFactorSettings = {
+  requiredRoles: []
+}
+
+const SETTINGS_CATEGORY = 'security'
+const REQUIRED_ROLES_KEY = 'two_factor_required_roles'
+
+export const TOTP_ISSUER = 'UPSA Attendance'
+export const TOTP_STEP_SECONDS = 30
+export const TOTP_DIGITS = 6
+// Codes from one step either side are accepted to allow for clock drift
+const TOTP_WINDOW = 1
+
+export const RECOVERY_CODE_COUNT = 10
+export const SMS_CODE_TTL_MINUTES = 5
+// How long before another SMS code can be sent
+const SMS_RESEND_SECONDS = 60
+
+// Thrown from the credentials provider so the sign-in page can ask for a code
+export const TWO_FACTOR_REQUIRED = 'TWO_FACTOR_REQUIRED'
+export const TWO_FACTOR_INVALID = 'TWO_FACTOR_INVALID'
+
+export const twoFactorSettingsSchema = z.object({
+  requiredRoles: z.array(z.nativeEnum(UserRole))
+})
+
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(1, 'Enter a code')
+})
+
+export interface TwoFactorStatus {
+  enabled: boolean
+  required: boolean
+  recoveryCodesRemaining: number
+  hasPhoneNumber: boolean
+}
+
+interface TwoFactorRecord {
+  userId: string
+  secret: string
+  enabledAt: Date | null
+  recoveryCodes: string
+  lastUsedStep: number | null
+  smsCodeHash: string | null
+  smsCodeExpiresAt: Date | null
+}
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0
+  let value = 0
+  let output = ''
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  }
+
+  return output
+}
+
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/[\s=-]/g, '')
+  const bytes: number[] = []
+  let bits = 0
+  let value = 0
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`)
+    }
+    value = (value << 5) | index
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+
+  return Buffer.from(bytes)
+}
+
+/** RFC 6238 code for a given 30-second step */
+export function generateTotp(secret: Buffer, step: number, digits: number = TOTP_DIGITS): string {
+  const counter = Buffer.alloc(8)
+  counter.writeBigUInt64BE(BigInt(step))
+
+  const hmac = createHmac('sha1', secret).update(counter).digest()
+  const offset = hmac[hmac.length - 1] & 0xf
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff
+
+  return String(binary % 10 ** digits).padStart(digits, '0')
+}
+
+export function totpStep(now: number = Date.now()): number {
+  return Math.floor(now / 1000 / TOTP_STEP_SECONDS)
+}
+
+/**
+ * The step a code matches, or null. Steps at or before lastUsedStep are
+ * skipped so a code that has already been used cannot be replayed.
+ */
+export function verifyTotp(
+  secret: Buffer,
+  code: string,
+  now: number = Date.now(),
+  lastUsedStep?: number | null
+): number | null {
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(code)) {
+    return null
+  }
+
+  const current = totpStep(now)
+  for (let step = current - TOTP_WINDOW; step <= current + TOTP_WINDOW; step++) {
+    if (lastUsedStep != null && step <= lastUsedStep) continue
+    if (safeEqual(generateTotp(secret, step), code)) {
+      return step
+    }
+  }
+
+  return null
+}
+
+export function otpauthUrl(secret: string, accountName: string): string {
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`)
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS)
+  })
+  return `otpauth://totp/${label}?${params.toString()}`
+}
+
+function safeEqual(a: string, b: string): boolean {
+  return a.length === b.length && timingSafeEqual(Buffer.from(a), Buffer.from(b))
+}
+
+function hashCode(code: string): string {
+  return createHash('sha256').update(code).digest('hex')
+}
+
+// Recovery codes are typed by hand, so case, spaces and dashes are ignored
+export function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[\s-]/g, '')
+}
+
+export function generateRecoveryCodes(count: number = RECOVERY_CODE_COUNT): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: count }, () => {
+    const raw = randomBytes(5).toString('hex')
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`
+  })
+  return { codes, hashes: codes.map(code => hashCode(normalizeRecoveryCode(code))) }
+}
+
+/**
+ * TOTP secrets are stored encrypted with a key derived from NEXTAUTH_SECRET.
+ * Rotating that secret invalidates every enrolment, after which an admin
+ * has to reset each user's 2FA.
+ */
+function encryptionKey(): Buffer {
+  const secret = process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new Error('NEXTAUTH_SECRET is not set')
+  }
+  return createHash('sha256').update(`two-factor:${secret}`).digest()
+}
+
+export function encryptSecret(plain: string): string {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv('aes-256-gcm', encryptionKey(), iv)
+  const encrypted = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()])
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join(':')
+}
+
+export function decryptSecret(stored: string): string {
+  const [iv, tag, encrypted] = stored.split(':').map(part => Buffer.from(part, 'base64'))
+  const decipher = createDecipheriv('aes-256-gcm', encryptionKey(), iv)
+  decipher.setAuthTag(tag)
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8')
+}
+
+function parseRecoveryCodes(stored: string): string[] {
+  try {
+    const parsed = JSON.parse(stored)
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+export async function getTwoFactorSettings(): Promise<TwoFactorSettings> {
+  const setting = await prisma.systemSettings.findUnique({
+    where: { category_key: { category: SETTINGS_CATEGORY, key: REQUIRED_ROLES_KEY } }
+  })
+
+  if (!setting || !setting.isActive) {
+    return { ...DEFAULT_TWO_FACTOR_SETTINGS }
+  }
+
+  try {
+    const roles = JSON.parse(setting.value)
+    const valid = Object.values(UserRole) as string[]
+    return {
+      requiredRoles: Array.isArray(roles) ? roles.filter((role): role is UserRole => valid.includes(role)) : []
+    }
+  } catch {
+    return { ...DEFAULT_TWO_FACTOR_SETTINGS }
+  }
+}
+
+export async function updateTwoFactorSettings(settings: TwoFactorSettings): Promise<TwoFactorSettings> {
+  const value = JSON.stringify(Array.from(new Set(settings.requiredRoles)))
+
+  await prisma.systemSettings.upsert({
+    where: { category_key: { category: SETTINGS_CATEGORY, key: REQUIRED_ROLES_KEY } },
+    update: { value, isActive: true },
+    create: {
+      category: SETTINGS_CATEGORY,
+      key: REQUIRED_ROLES_KEY,
+      value,
+      description: 'Roles that must set up two-factor authentication before using the system'
+    }
+  })
+
+  return { requiredRoles: JSON.parse(value) }
+}
+
+export async function isTwoFactorRequired(role: UserRole): Promise<boolean> {
+  const settings = await getTwoFactorSettings()
+  return settings.requiredRoles.includes(role)
+}
+
+/** Whether the account has to enrol before it can use anything else */
+export async function needsTwoFactorSetup(
+  role: UserRole,
+  twoFactor: { enabledAt: Date | null } | null
+): Promise<boolean> {
+  return !twoFactor?.enabledAt && await isTwoFactorRequired(role)
+}
+
+export async function getEnabledTwoFactor(userId: string): Promise<TwoFactorRecord | null> {
+  const record = await prisma.twoFactorAuth.findUnique({ where: { userId } })
+  return record?.enabledAt ? record : null
+}
+
+export async function getTwoFactorStatus(user: { id: string; role: UserRole; phoneNumber: string | null }): Promise<TwoFactorStatus> {
+  const record = await getEnabledTwoFactor(user.id)
+
+  return {
+    enabled: Boolean(record),
+    required: await isTwoFactorRequired(user.role),
+    recoveryCodesRemaining: record ? parseRecoveryCodes(record.recoveryCodes).length : 0,
+    hasPhoneNumber: Boolean(user.phoneNumber)
+  }
+}
+
+/**
+ * Start enrolment with a fresh secret. Nothing is enforced until the user
+ * confirms a code from their authenticator app.
+ */
+export async function beginEnrolment(user: { id: string; email: string }) {
+  const existing = await getEnabledTwoFactor(user.id)
+  if (existing) {
+    return { error: 'Two-factor authentication is already enabled', status: 409 }
+  }
+
+  const secret = base32Encode(randomBytes(20))
+  const encrypted = encryptSecret(secret)
+
+  await prisma.twoFactorAuth.upsert({
+    where: { userId: user.id },
+    update: { secret: encrypted, enabledAt: null, recoveryCodes: '[]', lastUsedStep: null, smsCodeHash: null, smsCodeExpiresAt: null },
+    create: { userId: user.id, secret: encrypted }
+  })
+
+  const url = otpauthUrl(secret, user.email)
+
+  return {
+    secret,
+    otpauthUrl: url,
+    qrCode: await QRCode.toDataURL(url, { width: 240, margin: 1 })
+  }
+}
+
+/** Turn 2FA on once the first authenticator code checks out */
+export async function confirmEnrolment(userId: string, code: string, ipAddress?: string | null) {
+  const record = await prisma.twoFactorAuth.findUnique({ where: { userId } })
+
+  if (!record) {
+    return { error: 'Start two-factor set-up first', status: 400 }
+  }
+  if (record.enabledAt) {
+    return { error: 'Two-factor authentication is already enabled', status: 409 }
+  }
+
+  const step = verifyTotp(base32Decode(decryptSecret(record.secret)), code.replace(/\s/g, ''))
+  if (step === null) {
+    return { error: 'That code is not valid. Check the time on your phone and try again.', status: 400 }
+  }
+
+  const { codes, hashes } = generateRecoveryCodes()
+
+  await prisma.twoFactorAuth.update({
+    where: { userId },
+    data: { enabledAt: new Date(), lastUsedStep: step, recoveryCodes: JSON.stringify(hashes) }
+  })
+
+  await prisma.auditLog.create({
+    data: {
+      userId,
+      action: 'TWO_FACTOR_ENABLED',
+      targetType: 'User',
+      targetId: userId,
+      metadata: JSON.stringify({ method: 'totp' }),
+      ipAddress: ipAddress ?? null
+    }
+  })
+
+  return { recoveryCodes: codes }
+}
+
+/**
+ * Check a second-factor code at sign-in. Accepts, in order, an authenticator
+ * code, a code sent by SMS, or an unused recovery code. SMS and recovery
+ * codes are spent on use.
+ */
+export async function verifySecondFactor(userId: string, code: string): Promise<boolean> {
+  const record = await getEnabledTwoFactor(userId)
+  if (!record) {
+    return false
+  }
+
+  const trimmed = code.replace(/\s/g, '')
+  const now = new Date()
+
+  const step = verifyTotp(base32Decode(decryptSecret(record.secret)), trimmed, now.getTime(), record.lastUsedStep)
+  if (step !== null) {
+    await prisma.twoFactorAuth.update({ where: { userId }, data: { lastUsedStep: step } })
+    return true
+  }
+
+  if (record.smsCodeHash && record.smsCodeExpiresAt && record.smsCodeExpiresAt > now && safeEqual(hashCode(trimmed), record.smsCodeHash)) {
+    await prisma.twoFactorAuth.update({ where: { userId }, data: { smsCodeHash: null, smsCodeExpiresAt: null } })
+    return true
+  }
+
+  const recoveryCodes = parseRecoveryCodes(record.recoveryCodes)
+  const recoveryHash = hashCode(normalizeRecoveryCode(trimmed))
+  if (recoveryCodes.includes(recoveryHash)) {
+    await prisma.twoFactorAuth.update({
+      where: { userId },
+      data: { recoveryCodes: JSON.stringify(recoveryCodes.filter(hash => hash !== recoveryHash)) }
+    })
+    await prisma.auditLog.create({
+      data: {
+        userId,
+        action: 'TWO_FACTOR_RECOVERY_CODE_USED',
+        targetType: 'User',
+        targetId: userId,
+        metadata: JSON.stringify({ remaining: recoveryCodes.length - 1 })
+      }
+    })
+    return true
+  }
+
+  return false
+}
+
+/** Text a one-time sign-in code to the phone number on file */
+export async function sendSmsCode(user: { id: string; phoneNumber: string | null }) {
+  const record = await getEnabledTwoFactor(user.id)
+
+  if (!record || !user.phoneNumber) {
+    return { error: 'SMS codes are not available for this account', status: 400 }
+  }
+
+  const now = Date.now()
+  const ttl = SMS_CODE_TTL_MINUTES * 60 * 1000
+  if (record.smsCodeExpiresAt && record.smsCodeExpiresAt.getTime() - ttl + SMS_RESEND_SECONDS * 1000 > now) {
+    return { error: 'A code was sent less than a minute ago. Wait a moment before asking for another.', status: 429 }
+  }
+
+  const code = String(randomInt(0, 10 ** TOTP_DIGITS)).padStart(TOTP_DIGITS, '0')
+
+  await prisma.twoFactorAuth.update({
+    where: { userId: user.id },
+    data: { smsCodeHash: hashCode(code), smsCodeExpiresAt: new Date(now + ttl) }
+  })
+
+  const result = await smsService.sendSMS({
+    to: user.phoneNumber,
+    message: smsTemplates.twoFactorCode({ code, expiresIn: `${SMS_CODE_TTL_MINUTES} minutes` }).message,
+    priority: 'high'
+  })
+
+  if (!result.success) {
+    return { error: 'The code could not be sent. Use your authenticator app or a recovery code.', status: 502 }
+  }
+
+  return { sent: true }
+}
+
+/** Replace the recovery codes; the old ones stop working */
+export async function regenerateRecoveryCodes(userId: string, code: string, ipAddress?: string | null) {
+  if (!(await verifySecondFactor(userId, code))) {
+    return { error: 'That code is not valid', status: 400 }
+  }
+
+  const { codes, hashes } = generateRecoveryCodes()
+
+  await prisma.twoFactorAuth.update({
+    where: { userId },
+    data: { recoveryCodes: JSON.stringify(hashes) }
+  })
+
+  await prisma.auditLog.create({
+    data: {
+      userId,
+      action: 'TWO_FACTOR_RECOVERY_CODES_REGENERATED',
+      targetType: 'User',
+      targetId: userId,
+      metadata: JSON.stringify({ count: codes.length }),
+      ipAddress: ipAddress ?? null
+    }
+  })
+
+  return { recoveryCodes: codes }
+}
+
+/** Switch 2FA off. Not allowed for roles that settings say must use it. */
+export async function disableTwoFactor(user: { id: string; role: UserRole }, code: string, ipAddress?: string | null) {
+  if (await isTwoFactorRequired(user.role)) {
+    return { error: 'Two-factor authentication is required for your role', status: 403 }
+  }
+
+  if (!(await verifySecondFactor(user.id, code))) {
+    return { error: 'That code is not valid', status: 400 }
+  }
+
+  await prisma.twoFactorAuth.delete({ where: { userId: user.id } })
+
+  await prisma.auditLog.create({
+    data: {
+      userId: user.id,
+      action: 'TWO_FACTOR_DISABLED',
+      targetType: 'User',
+      targetId: user.id,
+      metadata: JSON.stringify({}),
+      ipAddress: ipAddress ?? null
+    }
+  })
+
+  return { disabled: true }
+}
+
+/**
+ * Remove a user's 2FA for them, e.g. after a lost phone. If their role
+ * requires 2FA they are asked to enrol again at their next sign-in.
+ */
+export async function resetTwoFactor(adminId: string, userId: string, ipAddress?: string | null) {
+  const record = await prisma.twoFactorAuth.findUnique({ where: { userId } })
+
+  if (!record) {
+    return { error: 'This user has not set up two-factor authentication', status: 404 }
+  }
+
+  await prisma.twoFactorAuth.delete({ where: { userId } })
+
+  await prisma.auditLog.create({
+    data: {
+      userId: adminId,
+      action: 'TWO_FACTOR_RESET',
+      targetType: 'User',
+      targetId: userId,
+      metadata: JSON.stringify({ wasEnabled: Boolean(record.enabledAt) }),
+      ipAddress: ipAddress ?? null
+    }
+  })
+
+  return { reset: true }
+}
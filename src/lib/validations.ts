@@ -71,6 +71,7 @@ export const classroomCreateSchema = z.object({
   roomCode: z.string().min(1, 'Room code is required'),
   name: z.string().min(1, 'Room name is required'),
   buildingId: z.string().min(1, 'Building is required'),
+  floor: z.number().int().min(0).optional(),
   capacity: z.number().optional(),
   roomType: z.string().optional(),
   equipmentList: z.array(z.string()).optional(),
@@ -150,6 +151,7 @@ export const classroomImportSchema = z.object({
   roomCode: z.string().min(1, 'Room code is required'),
   name: z.string().min(1, 'Room name is required'),
   buildingCode: z.string().min(1, 'Building code is required'),
+  floor: z.number().int().min(0).optional(),
   capacity: z.number().optional(),
   roomType: z.string().optional(),
   equipmentList: z.string().optional(), // Will be parsed as JSON
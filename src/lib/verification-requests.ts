@@ -0,0 +1,375 @@
+import { prisma } from '@/lib/db'
+import { ATTENDANCE_LOCKED_ERROR } from '@/lib/claims'
+import { notifyEscalation } from '@/lib/notifications'
+import { publishScheduleEvent } from '@/lib/realtime-events'
+import { applyVerificationRules } from '@/lib/verification-rules'
+
+export type VerificationRequestStatus = 'pending' | 'disputed' | 'escalated' | 'approved' | 'rejected' | 'withdrawn'
+
+export type VerificationRequestPriority = 'low' | 'normal' | 'high' | 'urgent'
+
+// How a user relates to a particular request; SYSTEM is the SLA sweep
+export type VerificationActor = 'REQUESTER' | 'LECTURER' | 'COORDINATOR' | 'ADMIN' | 'SYSTEM'
+
+export const VERIFICATION_REQUEST_PRIORITIES: VerificationRequestPriority[] = ['low', 'normal', 'high', 'urgent']
+
+export const OPEN_VERIFICATION_STATUSES: VerificationRequestStatus[] = ['pending', 'disputed', 'escalated']
+
+/**
+ * Allowed moves out of each status and who may make them. The lecturer can
+ * confirm or dispute a supervisor's request; only coordinators and admins can
+ * reject attendance or settle a dispute. Approved, rejected and withdrawn are final.
+ */
+export const VERIFICATION_REQUEST_TRANSITIONS: Record<
+  VerificationRequestStatus,
+  Partial<Record<VerificationRequestStatus, VerificationActor[]>>
+> = {
+  pending: {
+    approved: ['LECTURER', 'COORDINATOR', 'ADMIN'],
+    disputed: ['LECTURER'],
+    rejected: ['COORDINATOR', 'ADMIN'],
+    escalated: ['REQUESTER', 'COORDINATOR', 'ADMIN', 'SYSTEM'],
+    withdrawn: ['REQUESTER']
+  },
+  disputed: {
+    approved: ['COORDINATOR', 'ADMIN'],
+    rejected: ['COORDINATOR', 'ADMIN'],
+    escalated: ['REQUESTER', 'LECTURER', 'COORDINATOR', 'ADMIN', 'SYSTEM'],
+    withdrawn: ['REQUESTER']
+  },
+  escalated: {
+    approved: ['COORDINATOR', 'ADMIN'],
+    rejected: ['COORDINATOR', 'ADMIN']
+  },
+  approved: {},
+  rejected: {},
+  withdrawn: {}
+}
+
+export interface VerificationSlaSettings {
+  urgent: number
+  high: number
+  normal: number
+  low: number
+}
+
+// Hours a request may stay in an open state before it breaches its SLA
+export const DEFAULT_VERIFICATION_SLA_HOURS: VerificationSlaSettings = {
+  urgent: 4,
+  high: 24,
+  normal: 72,
+  low: 120
+}
+
+const SETTINGS_CATEGORY = 'verification_requests'
+const SETTING_KEYS: Record<keyof VerificationSlaSettings, string> = {
+  urgent: 'sla_hours_urgent',
+  high: 'sla_hours_high',
+  normal: 'sla_hours_normal',
+  low: 'sla_hours_low'
+}
+
+export interface VerificationRequestParties {
+  requesterId: string
+  lecturerUserId: string
+  programmeCoordinatorId: string | null
+}
+
+export interface TransitionActor {
+  id: string | null
+  role: VerificationActor
+}
+
+export interface StudentAttendanceData {
+  totalStudentsPresent: number
+  studentsAbsent?: string[]
+  sessionQuality: 'excellent' | 'good' | 'fair' | 'poor'
+  technicalIssues?: string[]
+  additionalNotes?: string
+}
+
+export interface VerificationEvidence {
+  urls: string[]
+  studentAttendanceData: StudentAttendanceData | null
+}
+
+// Older requests stored a bare list of evidence URLs
+export function parseVerificationEvidence(evidence: string | null): VerificationEvidence {
+  if (!evidence) {
+    return { urls: [], studentAttendanceData: null }
+  }
+
+  try {
+    const parsed = JSON.parse(evidence)
+    if (Array.isArray(parsed)) {
+      return { urls: parsed, studentAttendanceData: null }
+    }
+    return { urls: parsed.urls ?? [], studentAttendanceData: parsed.studentAttendanceData ?? null }
+  } catch {
+    return { urls: [], studentAttendanceData: null }
+  }
+}
+
+export function isOpenVerificationStatus(status: string): boolean {
+  return OPEN_VERIFICATION_STATUSES.includes(status as VerificationRequestStatus)
+}
+
+// A user can hold several relations to one request, e.g. an admin who also raised it
+export function getVerificationActors(
+  parties: VerificationRequestParties,
+  user: { id: string; role: string }
+): VerificationActor[] {
+  const actors: VerificationActor[] = []
+
+  if (parties.requesterId === user.id) actors.push('REQUESTER')
+  if (user.role === 'LECTURER' && parties.lecturerUserId === user.id) actors.push('LECTURER')
+  if (user.role === 'COORDINATOR' && parties.programmeCoordinatorId === user.id) actors.push('COORDINATOR')
+  if (user.role === 'ADMIN') actors.push('ADMIN')
+
+  return actors
+}
+
+export function getAllowedTransitions(status: string, actors: VerificationActor[]): VerificationRequestStatus[] {
+  const transitions = VERIFICATION_REQUEST_TRANSITIONS[status as VerificationRequestStatus] ?? {}
+
+  return (Object.keys(transitions) as VerificationRequestStatus[])
+    .filter(target => transitions[target]!.some(actor => actors.includes(actor)))
+}
+
+// The most authoritative relation that permits the move, recorded in the history
+export function resolveTransitionActor(
+  from: string,
+  to: VerificationRequestStatus,
+  actors: VerificationActor[]
+): VerificationActor | null {
+  const permitted = VERIFICATION_REQUEST_TRANSITIONS[from as VerificationRequestStatus]?.[to] ?? []
+  const precedence: VerificationActor[] = ['ADMIN', 'COORDINATOR', 'LECTURER', 'REQUESTER']
+
+  return precedence.find(actor => actors.includes(actor) && permitted.includes(actor)) ?? null
+}
+
+export function calculateSlaDueAt(
+  from: Date,
+  priority: string,
+  sla: VerificationSlaSettings = DEFAULT_VERIFICATION_SLA_HOURS
+): Date {
+  const hours = sla[priority as VerificationRequestPriority] ?? sla.normal
+  return new Date(from.getTime() + hours * 60 * 60 * 1000)
+}
+
+export function isSlaBreached(
+  request: { status: string; slaDueAt: Date | null },
+  now: Date = new Date()
+): boolean {
+  return isOpenVerificationStatus(request.status) && !!request.slaDueAt && request.slaDueAt < now
+}
+
+export async function getVerificationSlaSettings(): Promise<VerificationSlaSettings> {
+  const settings = await prisma.systemSettings.findMany({
+    where: {
+      category: SETTINGS_CATEGORY,
+      key: { in: Object.values(SETTING_KEYS) },
+      isActive: true
+    }
+  })
+
+  const result = { ...DEFAULT_VERIFICATION_SLA_HOURS }
+  for (const field of Object.keys(SETTING_KEYS) as (keyof VerificationSlaSettings)[]) {
+    const stored = settings.find(setting => setting.key === SETTING_KEYS[field])
+    const value = stored ? Number(stored.value) : NaN
+    if (Number.isFinite(value) && value > 0) {
+      result[field] = value
+    }
+  }
+
+  return result
+}
+
+export async function updateVerificationSlaSettings(settings: VerificationSlaSettings): Promise<VerificationSlaSettings> {
+  await prisma.$transaction(
+    (Object.keys(SETTING_KEYS) as (keyof VerificationSlaSettings)[]).map(priority =>
+      prisma.systemSettings.upsert({
+        where: { category_key: { category: SETTINGS_CATEGORY, key: SETTING_KEYS[priority] } },
+        update: { value: JSON.stringify(settings[priority]), isActive: true },
+        create: {
+          category: SETTINGS_CATEGORY,
+          key: SETTING_KEYS[priority],
+          value: JSON.stringify(settings[priority]),
+          description: `Hours a ${priority} priority verification request may stay open before it is escalated`
+        }
+      })
+    )
+  )
+
+  return settings
+}
+
+/**
+ * Move a request to a new status, record the transition and apply the outcome
+ * to the attendance record. Callers check the actor may make the move.
+ */
+export async function transitionVerificationRequest(
+  requestId: string,
+  to: VerificationRequestStatus,
+  actor: TransitionActor,
+  comment?: string | null,
+  options: { now?: Date; sla?: VerificationSlaSettings; escalatedTo?: string | null; slaBreached?: boolean } = {}
+) {
+  const now = options.now ?? new Date()
+
+  const request = await prisma.verificationRequest.findUnique({
+    where: { id: requestId },
+    include: { attendanceRecord: true }
+  })
+
+  if (!request) {
+    return { error: 'Verification request not found', status: 404 }
+  }
+
+  const permitted = VERIFICATION_REQUEST_TRANSITIONS[request.status as VerificationRequestStatus]?.[to] ?? []
+  if (!permitted.includes(actor.role)) {
+    return { error: `A ${request.status} request cannot be moved to ${to}`, status: 400 }
+  }
+
+  const settlesAttendance = to === 'approved' || to === 'rejected'
+  if (settlesAttendance && request.attendanceRecord?.lockedAt) {
+    return { error: ATTENDANCE_LOCKED_ERROR, status: 400 }
+  }
+
+  // Each open state gets a fresh SLA so escalated requests are timed for coordinators too
+  const sla = isOpenVerificationStatus(to) ? options.sla ?? await getVerificationSlaSettings() : null
+
+  const updated = await prisma.$transaction(async (tx) => {
+    await tx.verificationRequestTransition.create({
+      data: {
+        verificationRequestId: requestId,
+        fromStatus: request.status,
+        toStatus: to,
+        actorId: actor.id,
+        actorRole: actor.role,
+        comment: comment || null
+      }
+    })
+
+    if (settlesAttendance && request.attendanceRecordId) {
+      await tx.attendanceRecord.update({
+        where: { id: request.attendanceRecordId },
+        data: {
+          supervisorVerified: to === 'approved',
+          supervisorComment: `${to === 'approved' ? 'Verified' : 'Rejected'} via request${comment ? `: ${comment}` : ''}`
+        }
+      })
+    }
+
+    return tx.verificationRequest.update({
+      where: { id: requestId },
+      data: {
+        status: to,
+        slaDueAt: sla ? calculateSlaDueAt(now, request.priority, sla) : null,
+        ...(to === 'escalated' && { escalatedAt: now, escalatedTo: options.escalatedTo ?? null }),
+        ...(options.slaBreached && { slaBreachedAt: now }),
+        ...(settlesAttendance && {
+          reviewedBy: actor.id,
+          reviewedAt: now,
+          resolutionNotes: comment || null
+        }),
+        ...(to === 'disputed' && { response: comment || null })
+      }
+    })
+  })
+
+  if (settlesAttendance && request.attendanceRecordId) {
+    try {
+      await applyVerificationRules(request.attendanceRecordId)
+    } catch (error) {
+      console.error('Error applying verification rules after request review:', error)
+    }
+  }
+
+  await publishScheduleEvent('verification_request.updated', request.courseScheduleId, {
+    verificationRequestId: requestId,
+    attendanceRecordId: request.attendanceRecordId,
+    status: to,
+    previousStatus: request.status
+  }, [request.requesterId])
+
+  return { request: updated, previousStatus: request.status }
+}
+
+/**
+ * Escalate pending and disputed requests that have run past their SLA to the
+ * programme coordinator, or to administrators when the programme has none.
+ * Requests already escalated stay on the breach dashboard instead.
+ */
+export async function escalateOverdueVerificationRequests(now: Date = new Date()): Promise<number> {
+  const overdue = await prisma.verificationRequest.findMany({
+    where: {
+      status: { in: ['pending', 'disputed'] },
+      slaDueAt: { lt: now }
+    },
+    include: {
+      requester: { select: { firstName: true, lastName: true } },
+      courseSchedule: {
+        include: {
+          course: { include: { programme: true } },
+          lecturer: {
+            include: {
+              user: { select: { firstName: true, lastName: true } }
+            }
+          }
+        }
+      }
+    }
+  })
+
+  if (overdue.length === 0) {
+    return 0
+  }
+
+  const sla = await getVerificationSlaSettings()
+  let admins: { id: string }[] | null = null
+  let escalated = 0
+
+  for (const request of overdue) {
+    const coordinatorId = request.courseSchedule.course.programme.coordinator
+    const reason = `No resolution within the ${request.priority} priority SLA (due ${request.slaDueAt!.toISOString()})`
+    const result = await transitionVerificationRequest(
+      request.id,
+      'escalated',
+      { id: null, role: 'SYSTEM' },
+      reason,
+      { now, sla, escalatedTo: coordinatorId, slaBreached: true }
+    )
+
+    if ('error' in result) {
+      console.error(`Error escalating verification request ${request.id}:`, result.error)
+      continue
+    }
+
+    if (!coordinatorId && admins === null) {
+      admins = await prisma.user.findMany({ where: { role: 'ADMIN', isActive: true }, select: { id: true } })
+    }
+
+    const recipients = coordinatorId ? [coordinatorId] : (admins ?? []).map(admin => admin.id)
+    const lecturer = request.courseSchedule.lecturer.user
+
+    for (const adminId of recipients) {
+      try {
+        await notifyEscalation({
+          adminId,
+          verificationRequestId: request.id,
+          courseName: request.courseSchedule.course.title,
+          lecturerName: `${lecturer.firstName} ${lecturer.lastName}`,
+          classRepName: `${request.requester.firstName} ${request.requester.lastName}`,
+          reason
+        })
+      } catch (error) {
+        console.error('Error sending escalation notification:', error)
+      }
+    }
+
+    escalated++
+  }
+
+  return escalated
+}
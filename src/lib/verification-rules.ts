@@ -0,0 +1,537 @@
+import { prisma } from '@/lib/db'
+import { SessionType } from '@prisma/client'
+import { z } from 'zod'
+import { getUPSARadius } from '@/lib/geolocation'
+import { MINIMUM_SESSION_DURATION_PERCENTAGE, VIRTUAL_TIME_WINDOW_MINUTES } from '@/lib/virtual-verification'
+import { toSessionDate } from '@/lib/class-sessions'
+import { toScheduledTime } from '@/lib/punctuality'
+
+export interface VerificationPolicy {
+  virtualTimeWindowMinutes: number
+  minimumSessionDurationPercentage: number // fraction of the scheduled duration, e.g. 0.75
+  geofenceRadiusMeters: number // used for fences without a radius of their own
+  requireQrCheckIn: boolean
+  maxLateMinutes: number | null // null leaves lateness to the punctuality report only
+  requireCheckOut: boolean
+  supervisorPresentStatuses: string[] // supervisor log statuses that confirm the lecturer was there
+}
+
+export type PolicyScopeType = 'default' | 'programme' | 'delivery_mode' | 'session_type'
+
+export interface PolicyScope {
+  type: PolicyScopeType
+  value: string | null // programme ID, delivery mode or session type; null for the default policy
+}
+
+export interface StoredVerificationPolicy {
+  scope: PolicyScope
+  rules: Partial<VerificationPolicy>
+  updatedAt?: Date
+}
+
+export interface PolicyContext {
+  programmeId?: string | null
+  deliveryMode?: string | null
+  sessionType?: string | null
+}
+
+export interface ResolvedVerificationPolicy {
+  policy: VerificationPolicy
+  scopes: string[] // setting keys applied, least specific first
+}
+
+export type VerificationRule =
+  | 'location'
+  | 'qr_check_in'
+  | 'time_window'
+  | 'meeting_link'
+  | 'session_duration'
+  | 'punctuality'
+  | 'check_out'
+  | 'supervisor'
+
+export interface RuleResult {
+  rule: VerificationRule
+  passed: boolean | null // null while the rule cannot be decided yet, e.g. before check-out
+  detail: string
+}
+
+export interface RuleEvaluationRecord {
+  method: string
+  timestamp: Date
+  locationVerified: boolean
+  locationDistance: number | null
+  geofenceType: string | null
+  qrVerified: boolean
+  meetingLinkVerified: boolean
+  sessionStartTime: Date | null
+  sessionEndTime: Date | null
+  sessionDuration: number | null
+  lateMinutes: number | null
+  supervisorVerified: boolean | null
+  scheduledStart: Date
+  scheduledEnd: Date
+}
+
+export interface PolicyPreview {
+  evaluated: number
+  passed: number
+  failed: number
+  pending: number
+  changed: number // records whose overall outcome differs from the current policy
+  rules: Partial<Record<VerificationRule, { passed: number; failed: number; pending: number }>>
+  samples: {
+    id: string
+    lecturer: string
+    course: string
+    timestamp: Date
+    currentPassed: boolean | null
+    previewPassed: boolean | null
+    failedRules: VerificationRule[]
+  }[]
+}
+
+export const POLICY_SCOPE_TYPES: PolicyScopeType[] = ['default', 'programme', 'delivery_mode', 'session_type']
+
+const SETTINGS_CATEGORY = 'verification_rules'
+const PREVIEW_LOOKBACK_DAYS = 30
+const PREVIEW_RECORD_LIMIT = 200
+const PREVIEW_SAMPLE_LIMIT = 20
+
+export function getDefaultVerificationPolicy(): VerificationPolicy {
+  return {
+    virtualTimeWindowMinutes: VIRTUAL_TIME_WINDOW_MINUTES,
+    minimumSessionDurationPercentage: MINIMUM_SESSION_DURATION_PERCENTAGE,
+    geofenceRadiusMeters: getUPSARadius(),
+    requireQrCheckIn: false,
+    maxLateMinutes: null,
+    requireCheckOut: false,
+    supervisorPresentStatuses: ['ongoing', 'online']
+  }
+}
+
+export const verificationPolicyRulesSchema = z.object({
+  virtualTimeWindowMinutes: z.number().int().min(0).max(720),
+  minimumSessionDurationPercentage: z.number().min(0).max(1),
+  geofenceRadiusMeters: z.number().int().min(10).max(5000),
+  requireQrCheckIn: z.boolean(),
+  maxLateMinutes: z.number().int().min(0).max(240).nullable(),
+  requireCheckOut: z.boolean(),
+  supervisorPresentStatuses: z.array(z.string().min(1))
+}).partial()
+
+export const policyScopeSchema = z.object({
+  type: z.enum(['default', 'programme', 'delivery_mode', 'session_type']),
+  value: z.string().min(1).nullable()
+}).refine(scope => (scope.type === 'default') === (scope.value === null), {
+  message: 'Only the default policy has no scope value'
+})
+
+export function toPolicyKey(scope: PolicyScope): string {
+  return scope.type === 'default' ? 'default' : `${scope.type}:${scope.value}`
+}
+
+export function parsePolicyKey(key: string): PolicyScope | null {
+  if (key === 'default') {
+    return { type: 'default', value: null }
+  }
+
+  const separator = key.indexOf(':')
+  const type = key.slice(0, separator) as PolicyScopeType
+  const value = key.slice(separator + 1)
+
+  if (separator <= 0 || !value || !POLICY_SCOPE_TYPES.includes(type) || type === 'default') {
+    return null
+  }
+
+  return { type, value }
+}
+
+/**
+ * Layer stored overrides on the built-in defaults, least specific first: the
+ * default policy, then programme, delivery mode and session type. A field left
+ * out of an override keeps the value from the layer below.
+ */
+export function resolveVerificationPolicy(
+  context: PolicyContext,
+  stored: StoredVerificationPolicy[]
+): ResolvedVerificationPolicy {
+  const layers: PolicyScope[] = [
+    { type: 'default', value: null },
+    { type: 'programme', value: context.programmeId ?? null },
+    { type: 'delivery_mode', value: context.deliveryMode ?? null },
+    { type: 'session_type', value: context.sessionType ?? null }
+  ]
+
+  const policy = getDefaultVerificationPolicy()
+  const scopes: string[] = []
+
+  for (const layer of layers) {
+    if (layer.type !== 'default' && !layer.value) continue
+
+    const key = toPolicyKey(layer)
+    const override = stored.find(entry => toPolicyKey(entry.scope) === key)
+    if (override) {
+      Object.assign(policy, override.rules)
+      scopes.push(key)
+    }
+  }
+
+  return { policy, scopes }
+}
+
+export function evaluateVerificationRules(
+  record: RuleEvaluationRecord,
+  policy: VerificationPolicy,
+  now: Date = new Date()
+): RuleResult[] {
+  const results: RuleResult[] = []
+
+  if (record.method === 'virtual') {
+    const windowMs = policy.virtualTimeWindowMinutes * 60000
+    const startedAt = record.sessionStartTime ?? record.timestamp
+    const inWindow = startedAt.getTime() >= record.scheduledStart.getTime() - windowMs &&
+      startedAt.getTime() <= record.scheduledEnd.getTime() + windowMs
+
+    results.push({
+      rule: 'time_window',
+      passed: inWindow,
+      detail: inWindow
+        ? `Started within ${policy.virtualTimeWindowMinutes} min of the scheduled time`
+        : `Started outside the ${policy.virtualTimeWindowMinutes} min window around the scheduled time`
+    })
+
+    results.push({
+      rule: 'meeting_link',
+      passed: record.meetingLinkVerified,
+      detail: record.meetingLinkVerified ? 'Meeting link verified' : 'Meeting link could not be verified'
+    })
+
+    const scheduledMinutes = Math.round((record.scheduledEnd.getTime() - record.scheduledStart.getTime()) / 60000)
+    const requiredMinutes = Math.floor(scheduledMinutes * policy.minimumSessionDurationPercentage)
+    const duration = record.sessionDuration ?? (record.sessionStartTime && record.sessionEndTime
+      ? Math.floor((record.sessionEndTime.getTime() - record.sessionStartTime.getTime()) / 60000)
+      : null)
+
+    results.push(duration === null
+      ? { rule: 'session_duration', passed: null, detail: 'Session has not ended yet' }
+      : {
+          rule: 'session_duration',
+          passed: duration >= requiredMinutes,
+          detail: `${duration} of ${requiredMinutes} required minutes`
+        })
+  } else {
+    const campusDistanceExceeded = record.geofenceType === 'campus' &&
+      record.locationDistance !== null &&
+      record.locationDistance > policy.geofenceRadiusMeters
+    const locationPassed = record.locationVerified && !campusDistanceExceeded
+
+    results.push({
+      rule: 'location',
+      passed: locationPassed,
+      detail: record.locationDistance !== null
+        ? `${record.locationDistance}m from the ${record.geofenceType ?? 'geofence'}${campusDistanceExceeded ? ` (limit ${policy.geofenceRadiusMeters}m)` : ''}`
+        : locationPassed ? 'Location verified' : 'Location not verified'
+    })
+
+    if (policy.requireQrCheckIn) {
+      results.push({
+        rule: 'qr_check_in',
+        passed: record.qrVerified,
+        detail: record.qrVerified ? 'Class rep QR code scanned' : 'Checked in without the class rep QR code'
+      })
+    }
+
+    if (policy.requireCheckOut) {
+      const checkedOut = record.sessionEndTime !== null
+      results.push({
+        rule: 'check_out',
+        passed: checkedOut ? true : now > record.scheduledEnd ? false : null,
+        detail: checkedOut ? 'Checked out' : now > record.scheduledEnd ? 'Did not check out' : 'Class has not ended yet'
+      })
+    }
+  }
+
+  if (policy.maxLateMinutes !== null && record.lateMinutes !== null) {
+    results.push({
+      rule: 'punctuality',
+      passed: record.lateMinutes <= policy.maxLateMinutes,
+      detail: record.lateMinutes > 0
+        ? `${record.lateMinutes} min late (limit ${policy.maxLateMinutes} min)`
+        : 'On time'
+    })
+  }
+
+  results.push({
+    rule: 'supervisor',
+    passed: record.supervisorVerified,
+    detail: record.supervisorVerified === null
+      ? 'Awaiting supervisor verification'
+      : record.supervisorVerified ? 'Confirmed by supervisor' : 'Disputed by supervisor'
+  })
+
+  return results
+}
+
+// Any failure fails the record; otherwise it stays pending until every rule is decided
+export function summarizeRuleResults(results: RuleResult[]): boolean | null {
+  if (results.some(result => result.passed === false)) {
+    return false
+  }
+
+  return results.every(result => result.passed === true) ? true : null
+}
+
+export function parseRuleResults(value: string | null | undefined): RuleResult[] {
+  if (!value) {
+    return []
+  }
+
+  try {
+    const parsed = JSON.parse(value)
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+export async function getVerificationPolicies(): Promise<StoredVerificationPolicy[]> {
+  const settings = await prisma.systemSettings.findMany({
+    where: { category: SETTINGS_CATEGORY, isActive: true }
+  })
+
+  const policies: StoredVerificationPolicy[] = []
+  for (const setting of settings) {
+    const scope = parsePolicyKey(setting.key)
+    if (!scope) continue
+
+    try {
+      const rules = verificationPolicyRulesSchema.safeParse(JSON.parse(setting.value))
+      if (rules.success) {
+        policies.push({ scope, rules: rules.data, updatedAt: setting.updatedAt })
+      }
+    } catch {
+      console.error(`Ignoring malformed verification policy ${setting.key}`)
+    }
+  }
+
+  return policies
+}
+
+export async function getVerificationPolicy(context: PolicyContext): Promise<ResolvedVerificationPolicy> {
+  return resolveVerificationPolicy(context, await getVerificationPolicies())
+}
+
+export async function saveVerificationPolicy(
+  scope: PolicyScope,
+  rules: Partial<VerificationPolicy>
+): Promise<StoredVerificationPolicy> {
+  const key = toPolicyKey(scope)
+  const value = JSON.stringify(rules)
+
+  const setting = await prisma.systemSettings.upsert({
+    where: { category_key: { category: SETTINGS_CATEGORY, key } },
+    update: { value, isActive: true },
+    create: {
+      category: SETTINGS_CATEGORY,
+      key,
+      value,
+      description: scope.type === 'default'
+        ? 'Attendance verification policy applied to every class'
+        : `Attendance verification policy override for ${scope.type.replace('_', ' ')} ${scope.value}`
+    }
+  })
+
+  return { scope, rules, updatedAt: setting.updatedAt }
+}
+
+export async function deleteVerificationPolicy(scope: PolicyScope): Promise<void> {
+  await prisma.systemSettings.deleteMany({
+    where: { category: SETTINGS_CATEGORY, key: toPolicyKey(scope) }
+  })
+}
+
+const ruleEvaluationInclude = {
+  classSession: {
+    select: { date: true, startTime: true, endTime: true }
+  },
+  courseSchedule: {
+    select: {
+      startTime: true,
+      endTime: true,
+      sessionType: true,
+      classGroup: {
+        select: { programmeId: true, deliveryMode: true }
+      }
+    }
+  }
+} as const
+
+type RuleEvaluationSource = {
+  method: string
+  timestamp: Date
+  locationVerified: boolean
+  locationDistance: number | null
+  geofenceType: string | null
+  qrVerified: boolean
+  meetingLinkVerified: boolean
+  sessionStartTime: Date | null
+  sessionEndTime: Date | null
+  sessionDuration: number | null
+  lateMinutes: number | null
+  supervisorVerified: boolean | null
+  classSession: { date: Date; startTime: string; endTime: string } | null
+  courseSchedule: {
+    startTime: string
+    endTime: string
+    sessionType: string
+    classGroup: { programmeId: string; deliveryMode: string }
+  }
+}
+
+function toEvaluationRecord(record: RuleEvaluationSource): RuleEvaluationRecord {
+  // Make-ups keep their own times; older records without a session use the weekly slot
+  const sessionDate = record.classSession?.date ?? toSessionDate(record.timestamp)
+  const startTime = record.classSession?.startTime ?? record.courseSchedule.startTime
+  const endTime = record.classSession?.endTime ?? record.courseSchedule.endTime
+
+  return {
+    method: record.method,
+    timestamp: record.timestamp,
+    locationVerified: record.locationVerified,
+    locationDistance: record.locationDistance,
+    geofenceType: record.geofenceType,
+    qrVerified: record.qrVerified,
+    meetingLinkVerified: record.meetingLinkVerified,
+    sessionStartTime: record.sessionStartTime,
+    sessionEndTime: record.sessionEndTime,
+    sessionDuration: record.sessionDuration,
+    lateMinutes: record.lateMinutes,
+    supervisorVerified: record.supervisorVerified,
+    scheduledStart: toScheduledTime(sessionDate, startTime),
+    scheduledEnd: toScheduledTime(sessionDate, endTime)
+  }
+}
+
+function toPolicyContext(record: RuleEvaluationSource): PolicyContext {
+  return {
+    programmeId: record.courseSchedule.classGroup.programmeId,
+    deliveryMode: record.courseSchedule.classGroup.deliveryMode,
+    sessionType: record.courseSchedule.sessionType
+  }
+}
+
+/**
+ * Evaluate a stored attendance record against the policy for its class and
+ * keep the per-rule outcome on the record. Called whenever something the rules
+ * look at changes: check-in, check-out, session end and supervisor review.
+ */
+export async function applyVerificationRules(attendanceRecordId: string): Promise<RuleResult[] | null> {
+  const record = await prisma.attendanceRecord.findUnique({
+    where: { id: attendanceRecordId },
+    include: ruleEvaluationInclude
+  })
+
+  if (!record) {
+    return null
+  }
+
+  const { policy } = await getVerificationPolicy(toPolicyContext(record))
+  const results = evaluateVerificationRules(toEvaluationRecord(record), policy)
+
+  await prisma.attendanceRecord.update({
+    where: { id: record.id },
+    data: {
+      ruleResults: JSON.stringify(results),
+      rulesPassed: summarizeRuleResults(results),
+      rulesEvaluatedAt: new Date()
+    }
+  })
+
+  return results
+}
+
+/**
+ * Dry-run a draft policy for one scope against the last month of attendance
+ * in that scope, next to the outcome under the policies currently saved.
+ */
+export async function previewVerificationPolicy(
+  scope: PolicyScope,
+  rules: Partial<VerificationPolicy>
+): Promise<PolicyPreview> {
+  const since = new Date(Date.now() - PREVIEW_LOOKBACK_DAYS * 24 * 60 * 60 * 1000)
+  const scopeFilter = scope.type === 'programme'
+    ? { courseSchedule: { classGroup: { programmeId: scope.value! } } }
+    : scope.type === 'delivery_mode'
+      ? { courseSchedule: { classGroup: { deliveryMode: scope.value! } } }
+      : scope.type === 'session_type'
+        ? { courseSchedule: { sessionType: scope.value as SessionType } }
+        : {}
+
+  const [stored, records] = await Promise.all([
+    getVerificationPolicies(),
+    prisma.attendanceRecord.findMany({
+      where: { timestamp: { gte: since }, ...scopeFilter },
+      include: {
+        ...ruleEvaluationInclude,
+        courseSchedule: {
+          select: {
+            ...ruleEvaluationInclude.courseSchedule.select,
+            course: { select: { courseCode: true } }
+          }
+        },
+        lecturer: {
+          select: { user: { select: { firstName: true, lastName: true } } }
+        }
+      },
+      orderBy: { timestamp: 'desc' },
+      take: PREVIEW_RECORD_LIMIT
+    })
+  ])
+
+  const key = toPolicyKey(scope)
+  const draft = [
+    ...stored.filter(entry => toPolicyKey(entry.scope) !== key),
+    { scope, rules }
+  ]
+
+  const preview: PolicyPreview = { evaluated: records.length, passed: 0, failed: 0, pending: 0, changed: 0, rules: {}, samples: [] }
+  const now = new Date()
+
+  for (const record of records) {
+    const context = toPolicyContext(record)
+    const evaluation = toEvaluationRecord(record)
+    const current = summarizeRuleResults(evaluateVerificationRules(evaluation, resolveVerificationPolicy(context, stored).policy, now))
+    const results = evaluateVerificationRules(evaluation, resolveVerificationPolicy(context, draft).policy, now)
+    const outcome = summarizeRuleResults(results)
+
+    if (outcome === true) preview.passed++
+    else if (outcome === false) preview.failed++
+    else preview.pending++
+
+    for (const result of results) {
+      const counts = preview.rules[result.rule] ?? { passed: 0, failed: 0, pending: 0 }
+      if (result.passed === true) counts.passed++
+      else if (result.passed === false) counts.failed++
+      else counts.pending++
+      preview.rules[result.rule] = counts
+    }
+
+    if (outcome !== current) {
+      preview.changed++
+      if (preview.samples.length < PREVIEW_SAMPLE_LIMIT) {
+        preview.samples.push({
+          id: record.id,
+          lecturer: `${record.lecturer.user.firstName} ${record.lecturer.user.lastName}`,
+          course: record.courseSchedule.course.courseCode,
+          timestamp: record.timestamp,
+          currentPassed: current,
+          previewPassed: outcome,
+          failedRules: results.filter(result => result.passed === false).map(result => result.rule)
+        })
+      }
+    }
+  }
+
+  return preview
+}
@@ -1,8 +1,9 @@
+import { createHash } from 'crypto'
 import { Coordinates } from './geolocation'
 
-// Virtual classroom verification configuration
-const VIRTUAL_TIME_WINDOW_MINUTES = 120 // Allow ±2 hours from scheduled time for flexibility
-const MINIMUM_SESSION_DURATION_PERCENTAGE = 0.75 // 75% of scheduled duration
+// Virtual classroom verification defaults; verification policies in settings can override them
+export const VIRTUAL_TIME_WINDOW_MINUTES = 120 // Allow ±2 hours from scheduled time for flexibility
+export const MINIMUM_SESSION_DURATION_PERCENTAGE = 0.75 // 75% of scheduled duration
 const MEETING_LINK_TIMEOUT_MS = 5000 // 5 seconds timeout for link verification
 
 export interface VirtualVerificationResult {
@@ -24,7 +25,11 @@ export interface SessionTimeInfo {
 /**
  * Verify if current time is within allowed window for virtual class
  */
-export function verifyTimeWindow(scheduledStartTime: string, scheduledEndTime: string): {
+export function verifyTimeWindow(
+  scheduledStartTime: string,
+  scheduledEndTime: string,
+  timeWindowMinutes: number = VIRTUAL_TIME_WINDOW_MINUTES
+): {
   verified: boolean
   timeInfo: SessionTimeInfo
   error?: string
@@ -37,9 +42,9 @@ export function verifyTimeWindow(scheduledStartTime: string, scheduledEndTime: s
     const scheduledStart = new Date(`${today}T${scheduledStartTime}`)
     const scheduledEnd = new Date(`${today}T${scheduledEndTime}`)
     
-    // Allow attendance marking from 2 hours before start to 2 hours after end
-    const allowedStartTime = new Date(scheduledStart.getTime() - VIRTUAL_TIME_WINDOW_MINUTES * 60 * 1000)
-    const allowedEndTime = new Date(scheduledEnd.getTime() + VIRTUAL_TIME_WINDOW_MINUTES * 60 * 1000)
+    // Allow attendance marking from the window before start to the window after end
+    const allowedStartTime = new Date(scheduledStart.getTime() - timeWindowMinutes * 60 * 1000)
+    const allowedEndTime = new Date(scheduledEnd.getTime() + timeWindowMinutes * 60 * 1000)
     
     const timeInfo: SessionTimeInfo = {
       scheduledStart,
@@ -125,7 +130,8 @@ export function verifySessionDuration(
   sessionStartTime: Date,
   sessionEndTime: Date,
   scheduledStartTime: string,
-  scheduledEndTime: string
+  scheduledEndTime: string,
+  minimumPercentage: number = MINIMUM_SESSION_DURATION_PERCENTAGE
 ): {
   verified: boolean
   actualDurationMinutes: number
@@ -141,7 +147,7 @@ export function verifySessionDuration(
     const [endHour, endMin] = scheduledEndTime.split(':').map(Number)
     const scheduledDurationMinutes = (endHour * 60 + endMin) - (startHour * 60 + startMin)
     
-    const requiredDurationMinutes = Math.floor(scheduledDurationMinutes * MINIMUM_SESSION_DURATION_PERCENTAGE)
+    const requiredDurationMinutes = Math.floor(scheduledDurationMinutes * minimumPercentage)
     
     const verified = actualDurationMinutes >= requiredDurationMinutes
     
@@ -162,22 +168,12 @@ export function verifySessionDuration(
 }
 
 /**
- * Generate device fingerprint for tracking consistency
+ * Generate device fingerprint for tracking consistency.
+ * Built only from the ID the browser keeps for itself: the network address changes
+ * between WiFi and mobile data and is shared behind campus NAT, so it is left out.
  */
-export function generateDeviceFingerprint(userAgent: string, ipAddress: string): string {
-  // Simple fingerprint based on user agent and IP
-  // In production, you might want to use more sophisticated fingerprinting
-  const combined = `${userAgent}|${ipAddress}`
-  
-  // Simple hash function (in production, use crypto.createHash)
-  let hash = 0
-  for (let i = 0; i < combined.length; i++) {
-    const char = combined.charCodeAt(i)
-    hash = ((hash << 5) - hash) + char
-    hash = hash & hash // Convert to 32-bit integer
-  }
-  
-  return Math.abs(hash).toString(36)
+export function generateDeviceFingerprint(deviceId: string): string {
+  return createHash('sha256').update(deviceId).digest('hex').slice(0, 16)
 }
 
 /**
@@ -190,7 +186,9 @@ export async function verifyVirtualClassroom({
   sessionStartTime,
   sessionEndTime,
   userAgent,
-  ipAddress
+  ipAddress,
+  timeWindowMinutes,
+  minimumSessionDurationPercentage
 }: {
   meetingLink: string
   scheduledStartTime: string
@@ -199,11 +197,13 @@ export async function verifyVirtualClassroom({
   sessionEndTime?: Date
   userAgent: string
   ipAddress: string
+  timeWindowMinutes?: number
+  minimumSessionDurationPercentage?: number
 }): Promise<VirtualVerificationResult> {
   const errors: string[] = []
   
   // Verify time window
-  const timeVerification = verifyTimeWindow(scheduledStartTime, scheduledEndTime)
+  const timeVerification = verifyTimeWindow(scheduledStartTime, scheduledEndTime, timeWindowMinutes)
   if (!timeVerification.verified && timeVerification.error) {
     errors.push(timeVerification.error)
   }
@@ -221,7 +221,8 @@ export async function verifyVirtualClassroom({
       sessionStartTime,
       sessionEndTime,
       scheduledStartTime,
-      scheduledEndTime
+      scheduledEndTime,
+      minimumSessionDurationPercentage
     )
     sessionDurationMet = durationVerification.verified
     if (!durationVerification.verified && durationVerification.error) {
@@ -239,30 +240,3 @@ export async function verifyVirtualClassroom({
     errors
   }
 }
-
-/**
- * Get client IP address from request headers
- */
-export function getClientIpAddress(headers: Headers): string {
-  // Check various headers that might contain the real IP
-  const possibleHeaders = [
-    'x-forwarded-for',
-    'x-real-ip',
-    'x-client-ip',
-    'cf-connecting-ip', // Cloudflare
-    'x-forwarded',
-    'forwarded-for',
-    'forwarded'
-  ]
-  
-  for (const header of possibleHeaders) {
-    const value = headers.get(header)
-    if (value) {
-      // x-forwarded-for can contain multiple IPs, take the first one
-      return value.split(',')[0].trim()
-    }
-  }
-  
-  // Fallback to a default value if no IP found
-  return 'unknown'
-}
\ No newline at end of file
@@ -178,7 +178,9 @@ export async function auditMiddleware(request: NextRequest) {
             ipAddress,
             userAgent,
             sessionId: token.sub,
-            riskScore
+            riskScore,
+            // This request carries no session cookie, so impersonation is passed on explicitly
+            impersonatorId: token.impersonatorId
         })
     }).catch(error => {
       console.error('Failed to send audit log to internal API:', error)
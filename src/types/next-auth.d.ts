@@ -6,6 +6,10 @@ declare module 'next-auth' {
   interface User {
     role: UserRole
     lecturerId?: string
+    mustChangePassword?: boolean
+    twoFactorSetupRequired?: boolean
+    impersonatorId?: string
+    impersonatorName?: string
   }
 
   interface Session {
@@ -15,6 +19,11 @@ declare module 'next-auth' {
       name: string
       role: UserRole
       lecturerId?: string
+      mustChangePassword?: boolean
+      twoFactorSetupRequired?: boolean
+      // Set while an admin is viewing as this user
+      impersonatorId?: string
+      impersonatorName?: string
     }
   }
 }
@@ -23,5 +32,9 @@ declare module 'next-auth/jwt' {
   interface JWT {
     role: UserRole
     lecturerId?: string
+    mustChangePassword?: boolean
+    twoFactorSetupRequired?: boolean
+    impersonatorId?: string
+    impersonatorName?: string
   }
 }
\ No newline at end of file